@@ -0,0 +1,266 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  createLoyaltyAdjustment,
+  fetchLoyaltyAccount,
+  fetchLoyaltyLedger,
+  type LoyaltyAccount,
+  type LoyaltyLedgerEntry,
+  type LoyaltyLedgerKind,
+} from "@/lib/api/loyalty";
+
+const LEDGER_KIND_LABELS: Record<LoyaltyLedgerKind, string> = {
+  earn: "Acumulación",
+  redeem: "Redención",
+  adjust: "Ajuste",
+  expire: "Vencimiento",
+  reversal: "Reverso",
+};
+
+const LEDGER_PAGE_SIZE = 50;
+
+function formatPoints(value: number): string {
+  return value.toLocaleString("es-CO");
+}
+
+function formatDateLabel(raw?: string | null): string {
+  if (!raw) return "—";
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) return "—";
+  return new Intl.DateTimeFormat("es-CO", {
+    year: "numeric",
+    month: "short",
+    day: "2-digit",
+  }).format(date);
+}
+
+type CustomerLoyaltyModalProps = {
+  customer: { id: number; name: string };
+  token: string;
+  onClose: () => void;
+  onBalanceChange?: (customerId: number, balance: number) => void;
+};
+
+export default function CustomerLoyaltyModal({
+  customer,
+  token,
+  onClose,
+  onBalanceChange,
+}: CustomerLoyaltyModalProps) {
+  const [account, setAccount] = useState<LoyaltyAccount | null>(null);
+  const [entries, setEntries] = useState<LoyaltyLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [adjustPoints, setAdjustPoints] = useState("");
+  const [adjustNote, setAdjustNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadLedger = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [nextAccount, ledger] = await Promise.all([
+        fetchLoyaltyAccount(customer.id, token),
+        fetchLoyaltyLedger(customer.id, token, { limit: LEDGER_PAGE_SIZE }),
+      ]);
+      setAccount(nextAccount);
+      setEntries(ledger.items);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudieron cargar los puntos.");
+    } finally {
+      setLoading(false);
+    }
+  }, [customer.id, token]);
+
+  useEffect(() => {
+    void loadLedger();
+  }, [loadLedger]);
+
+  async function handleAdjust(e: React.FormEvent) {
+    e.preventDefault();
+    const points = Number(adjustPoints);
+    if (!Number.isInteger(points) || points === 0) {
+      setError("Indica un número entero de puntos (negativo para descontar).");
+      return;
+    }
+    if (!adjustNote.trim()) {
+      setError("El motivo del ajuste es obligatorio.");
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      const nextAccount = await createLoyaltyAdjustment(
+        customer.id,
+        { points, note: adjustNote.trim() },
+        token
+      );
+      setAccount(nextAccount);
+      onBalanceChange?.(customer.id, nextAccount.balance);
+      setAdjustPoints("");
+      setAdjustNote("");
+      await loadLedger();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudo registrar el ajuste.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 p-4">
+      <div className="w-full max-w-3xl rounded-xl border border-slate-200 bg-white shadow-2xl">
+        <div className="flex items-center justify-between border-b border-slate-200 px-5 py-4">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-900">Puntos de {customer.name}</h2>
+            <p className="text-xs text-slate-500">
+              Movimientos de acumulación, redención, ajustes y vencimientos.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md border border-slate-300 px-3 py-1 text-xs text-slate-700 hover:bg-slate-50"
+            disabled={saving}
+          >
+            Cerrar
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {error && (
+            <div className="rounded-md border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+              {error}
+            </div>
+          )}
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+              <p className="text-[11px] uppercase tracking-wide text-slate-500">Saldo</p>
+              <p className="text-2xl font-semibold text-slate-900">
+                {account ? formatPoints(account.balance) : "—"}
+              </p>
+            </div>
+            <div className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+              <p className="text-[11px] uppercase tracking-wide text-slate-500">
+                Próximo vencimiento
+              </p>
+              <p className="text-sm font-semibold text-slate-900">
+                {account?.expiring_points
+                  ? `${formatPoints(account.expiring_points)} pts · ${formatDateLabel(
+                      account.next_expiry_at
+                    )}`
+                  : "Sin puntos por vencer"}
+              </p>
+            </div>
+            <div className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+              <p className="text-[11px] uppercase tracking-wide text-slate-500">
+                Acumulado histórico
+              </p>
+              <p className="text-2xl font-semibold text-slate-900">
+                {typeof account?.lifetime_earned === "number"
+                  ? formatPoints(account.lifetime_earned)
+                  : "—"}
+              </p>
+            </div>
+          </div>
+
+          <form
+            onSubmit={handleAdjust}
+            className="grid gap-3 sm:grid-cols-[8rem_1fr_auto] sm:items-end rounded-lg border border-slate-200 p-3"
+          >
+            <div>
+              <label className="text-xs font-medium text-slate-600">Puntos (+/-)</label>
+              <input
+                type="number"
+                step={1}
+                value={adjustPoints}
+                onChange={(e) => setAdjustPoints(e.target.value)}
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm outline-none focus:border-emerald-500"
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium text-slate-600">Motivo</label>
+              <input
+                value={adjustNote}
+                onChange={(e) => setAdjustNote(e.target.value)}
+                placeholder="Ej. compensación por garantía"
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm outline-none focus:border-emerald-500"
+              />
+            </div>
+            <button
+              type="submit"
+              className="h-[38px] rounded-md bg-emerald-600 px-4 text-xs font-semibold text-white hover:bg-emerald-500 disabled:opacity-60"
+              disabled={saving || loading}
+            >
+              {saving ? "Guardando..." : "Registrar ajuste"}
+            </button>
+          </form>
+
+          <div className="max-h-[22rem] overflow-y-auto rounded-lg border border-slate-200">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-3 py-2">Fecha</th>
+                  <th className="px-3 py-2">Movimiento</th>
+                  <th className="px-3 py-2 text-right">Puntos</th>
+                  <th className="px-3 py-2 text-right">Saldo</th>
+                  <th className="px-3 py-2">Detalle</th>
+                  <th className="px-3 py-2">Vence</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {loading && entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-6 text-center text-slate-500">
+                      Cargando movimientos...
+                    </td>
+                  </tr>
+                ) : entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-6 text-center text-slate-500">
+                      El cliente aún no tiene movimientos de puntos.
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry) => (
+                    <tr key={entry.id}>
+                      <td className="px-3 py-2 text-slate-600">
+                        {formatDateLabel(entry.created_at)}
+                      </td>
+                      <td className="px-3 py-2 text-slate-800">
+                        {LEDGER_KIND_LABELS[entry.kind] ?? entry.kind}
+                      </td>
+                      <td
+                        className={`px-3 py-2 text-right font-semibold ${
+                          entry.points >= 0 ? "text-emerald-700" : "text-rose-700"
+                        }`}
+                      >
+                        {entry.points > 0 ? "+" : ""}
+                        {formatPoints(entry.points)}
+                      </td>
+                      <td className="px-3 py-2 text-right text-slate-800">
+                        {formatPoints(entry.balance_after)}
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {[entry.sale_document_number, entry.note, entry.created_by_name]
+                          .filter(Boolean)
+                          .join(" · ") || "—"}
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">
+                        {entry.kind === "earn" ? formatDateLabel(entry.expires_at) : "—"}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import React, { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useAuth } from "../providers/AuthProvider";
 import { getApiBase } from "@/lib/api/base";
+import CustomerLoyaltyModal from "./CustomerLoyaltyModal";
 
 type Customer = {
   id: number;
@@ -12,6 +13,7 @@ type Customer = {
   email?: string | null;
   tax_id?: string | null;
   address?: string | null;
+  loyalty_points?: number | null;
   is_active?: boolean;
   created_at?: string;
 };
@@ -81,6 +83,7 @@ export default function CustomersManager() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [form, setForm] = useState<CustomerForm>(EMPTY_FORM);
+  const [loyaltyCustomer, setLoyaltyCustomer] = useState<Customer | null>(null);
 
   const authHeaders = useMemo(
     () => (token ? { Authorization: `Bearer ${token}` } : null),
@@ -474,6 +477,11 @@ export default function CustomersManager() {
                             {customer.email ? <span>{customer.email}</span> : <span>Sin correo</span>}
                             {customer.tax_id ? <span>ID: {customer.tax_id}</span> : <span>Sin documento</span>}
                             <span>Creado: {formatDateLabel(customer.created_at)}</span>
+                            {typeof customer.loyalty_points === "number" && (
+                              <span className="font-semibold text-amber-700">
+                                Puntos: {customer.loyalty_points.toLocaleString("es-CO")}
+                              </span>
+                            )}
                           </div>
                           {customer.address && (
                             <p className="mt-1 text-xs text-slate-500 truncate">
@@ -482,6 +490,13 @@ export default function CustomersManager() {
                           )}
                         </div>
                         <div className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            onClick={() => setLoyaltyCustomer(customer)}
+                            className="rounded-md border border-amber-300 px-3 py-1.5 text-xs font-semibold text-amber-700 hover:bg-amber-50"
+                          >
+                            Puntos
+                          </button>
                           <button
                             type="button"
                             onClick={() => openEditModal(customer)}
@@ -609,6 +624,21 @@ export default function CustomersManager() {
           </div>
         </div>
       )}
+
+      {loyaltyCustomer && token && (
+        <CustomerLoyaltyModal
+          customer={loyaltyCustomer}
+          token={token}
+          onClose={() => setLoyaltyCustomer(null)}
+          onBalanceChange={(customerId, balance) =>
+            setCustomers((prev) =>
+              prev.map((entry) =>
+                entry.id === customerId ? { ...entry, loyalty_points: balance } : entry
+              )
+            )
+          }
+        />
+      )}
     </main>
   );
 }
@@ -24,8 +24,36 @@ import {
   renderSaleInvoice,
   renderClosureTicket,
   renderChangeTicket,
+  renderStoreCreditTicket,
   buildSaleTicketCustomer,
 } from "@/lib/printing/saleTicket";
+import type { StoreCredit, StoreCreditMovementKind } from "@/lib/api/storeCredits";
+import type { CashSession, DenominationCounts } from "@/lib/api/cashSessions";
+import {
+  buildClosureCashSessionTicket,
+  buildClosureDenominationTicket,
+  computeExpectedCash,
+} from "@/lib/pos/cashSession";
+import {
+  buildStoreCreditTicketOptions,
+  resolveStoreCreditStatus,
+  STORE_CREDIT_KIND_LABELS,
+  STORE_CREDIT_STATUS_LABELS,
+} from "@/lib/pos/storeCredit";
+import { DianValidationError, resolveDianConfig } from "@/lib/invoicing/dianUbl";
+import { describeDianDocumentStatus, issueDianInvoiceForSale } from "@/lib/invoicing/dianIssuing";
+import {
+  createDianIssuingGateway,
+  fetchDianDocument,
+  type DianDocumentRecord,
+} from "@/lib/api/electronicInvoices";
+import {
+  isTaxRateCode,
+  normalizeTaxBreakdown,
+  taxBreakdownFromItems,
+  type TaxBreakdownRow,
+  type TaxRateCode,
+} from "@/lib/pos/taxes";
 import { usePaymentMethodLabelResolver } from "@/app/hooks/usePaymentMethodLabelResolver";
 import {
   fetchSeparatedOrders,
@@ -87,6 +115,8 @@ type SaleItem = {
   total?: number;
   unit_price_original?: number;
   line_discount_value?: number;
+  tax_rate?: string | null;
+  tax_included?: boolean | null;
 };
 
  type Payment = {
@@ -128,6 +158,7 @@ type SaleRecord = {
   balance?: number | null;
   surcharge_amount?: number | null;
   surcharge_label?: string | null;
+  promotions?: { name: string; amount: number }[] | null;
 };
 
  type ReturnPayment = {
@@ -230,6 +261,8 @@ type ClosureRecord = {
   difference: number;
   notes?: string | null;
   closed_by_user_name: string;
+  cash_session?: CashSession | null;
+  counted_denominations?: DenominationCounts | null;
   methods_breakdown?: {
     key: string;
     label: string;
@@ -248,6 +281,7 @@ type ClosureRecord = {
     pending_total?: number | null;
     net_amount_without_separated_pending?: number | null;
   }[] | null;
+  tax_breakdown?: TaxBreakdownRow[] | null;
   user_breakdown?: { name: string; total: number }[] | null;
   separated_summary?: {
     tickets: number;
@@ -399,7 +433,8 @@ type DocumentRow = {
     | "abono"
     | "recepcion"
     | "movimiento_manual"
-    | "recuento";
+    | "recuento"
+    | "tarjeta_regalo";
   recordId: number;
   saleId?: number;
   createdAt: string;
@@ -434,7 +469,16 @@ type DocumentRow = {
     | AbonoRecord
     | ReceivingDocumentRecord
     | ManualMovementDocumentRecord
-    | InventoryRecountDocumentRecord;
+    | InventoryRecountDocumentRecord
+    | StoreCredit;
+};
+
+const STORE_CREDIT_MOVEMENT_LABELS: Record<StoreCreditMovementKind, string> = {
+  issue: "Emisión",
+  redeem: "Uso en venta",
+  reversal: "Reverso",
+  expire: "Vencimiento",
+  void: "Anulación",
 };
 
 function mapSearchItemToDocument(item: DocumentSearchItem): DocumentRow {
@@ -749,6 +793,8 @@ type SaleLineBreakdown = {
   subtotal: number;
   total: number;
   discount: number;
+  taxRate: TaxRateCode | null;
+  taxIncluded: boolean | null;
 };
 
 function buildSaleLineBreakdown(sale: SaleRecord) {
@@ -780,6 +826,8 @@ function buildSaleLineBreakdown(sale: SaleRecord) {
       subtotal,
       total,
       discount,
+      taxRate: isTaxRateCode(item.tax_rate) ? item.tax_rate : null,
+      taxIncluded: item.tax_included ?? null,
     };
   });
   const subtotal = lines.reduce((sum, line) => sum + line.subtotal, 0);
@@ -857,7 +905,13 @@ function printClosureTicket(closure: ClosureRecord, settings?: PosSettingsPayloa
       registered: closure.total_amount,
       refunds: closure.total_refunds,
       net: closure.net_amount,
-      expectedCash: closure.total_cash,
+      expectedCash: closure.cash_session
+        ? computeExpectedCash({
+            openingFloat: closure.cash_session.opening_float,
+            cashSales: closure.total_cash,
+            movements: closure.cash_session.movements,
+          })
+        : closure.total_cash,
       countedCash: closure.counted_cash,
       difference: closure.difference,
       changeExtra: closure.change_extra_total ?? 0,
@@ -865,11 +919,18 @@ function printClosureTicket(closure: ClosureRecord, settings?: PosSettingsPayloa
       changeCount: closure.change_count ?? 0,
     },
     methods: methodRows,
+    taxBreakdown: normalizeTaxBreakdown(closure.tax_breakdown),
     separatedSummary,
     userBreakdown,
     stationBreakdown,
     notes: closure.notes ?? null,
     settings,
+    cashSession: closure.cash_session
+      ? buildClosureCashSessionTicket(closure.cash_session)
+      : null,
+    countedDenominations: buildClosureDenominationTicket(
+      closure.counted_denominations
+    ),
   });
   const win = window.open("", "_blank", "width=420,height=640");
   if (!win) return;
@@ -1312,6 +1373,8 @@ export default function DocumentsExplorer({
           ? `/pos/changes/${doc.recordId}`
           : doc.type === "cierre"
           ? `/pos/closures/${doc.recordId}`
+          : doc.type === "tarjeta_regalo"
+          ? `/pos/store-credits/${doc.recordId}`
           : null;
         if (!path) return;
         const res = await fetch(`${apiBase}${path}`, {
@@ -1975,6 +2038,7 @@ export default function DocumentsExplorer({
       "abono",
       "recepcion",
       "recuento",
+      "tarjeta_regalo",
     ].includes(selectedDoc.type);
     if (
       supportsVoid &&
@@ -3213,6 +3277,8 @@ const selectedDetails = selectedDoc?.data;
           ? "Movimiento manual"
           : doc.type === "recuento"
           ? "Recuento"
+          : doc.type === "tarjeta_regalo"
+          ? "Tarjeta de regalo"
           : "Cierre";
       const statusLabel = getStatusLabel(doc.status) ?? "";
       const methodLabel = doc.isSeparated
@@ -3305,6 +3371,7 @@ const selectedDocCanShowVoidButton =
   selectedDoc.type !== "abono" &&
   selectedDoc.type !== "recepcion" &&
   selectedDoc.type !== "recuento" &&
+  selectedDoc.type !== "tarjeta_regalo" &&
   !selectedDocIsVoided;
 const selectedDocCanVoid =
   !!selectedDoc &&
@@ -3315,6 +3382,7 @@ const selectedDocCanVoid =
   selectedDoc.type !== "abono" &&
   selectedDoc.type !== "recepcion" &&
   selectedDoc.type !== "recuento" &&
+  selectedDoc.type !== "tarjeta_regalo" &&
   !selectedDocIsVoided &&
   (selectedDoc.type === "venta" || selectedDoc.closureId == null);
 const voidActionLabel = "Anular";
@@ -3926,6 +3994,8 @@ useEffect(() => {
       quantity: line.quantity,
       unitPrice: line.unitPrice,
       total: line.total,
+      taxRate: line.taxRate,
+      taxIncluded: line.taxIncluded,
     }));
     const subtotal = lineBreakdown.subtotal;
     const lineDiscountTotal = lineBreakdown.lineDiscountTotal;
@@ -4056,6 +4126,8 @@ useEffect(() => {
         address: selectedSaleDocument.customer_address ?? undefined,
       }),
       separatedInfo: separatedTicketInfo,
+      taxBreakdown: taxBreakdownFromItems(ticketItems, adjustedTotal),
+      promotions: selectedSaleDocument.promotions ?? null,
     };
   };
 
@@ -4097,13 +4169,77 @@ useEffect(() => {
     openSaleDocumentWindow(html, { width: 380, height: 640 });
   };
 
-  const handlePrintSelectedInvoice = () => {
+  const fetchSelectedValidatedInvoice = async (): Promise<DianDocumentRecord | null> => {
+    if (!token || !selectedSaleDocument || !resolveDianConfig(posSettings)) return null;
+    try {
+      const record = await fetchDianDocument(token, "sale", selectedSaleDocument.id, "invoice");
+      return record?.status === "validated" ? record : null;
+    } catch (err) {
+      console.warn("No se pudo consultar la factura electrónica", err);
+      return null;
+    }
+  };
+
+  const handlePrintSelectedInvoice = async () => {
     const payload = buildSelectedSaleDocumentPayload();
     if (!payload) return;
-    const html = renderSaleInvoice(payload);
+    // Solo se imprime como factura electrónica lo que la DIAN ya validó.
+    const electronicInvoice = await fetchSelectedValidatedInvoice();
+    const html = renderSaleInvoice({
+      ...payload,
+      electronicInvoice:
+        electronicInvoice?.qr_payload
+          ? {
+              number: electronicInvoice.number,
+              cufe: electronicInvoice.uuid,
+              qrPayload: electronicInvoice.qr_payload,
+            }
+          : null,
+    });
     openSaleDocumentWindow(html, { width: 960, height: 900 });
   };
 
+  const handleIssueSelectedElectronicInvoice = async () => {
+    const payload = buildSelectedSaleDocumentPayload();
+    if (!payload || !selectedSaleDocument) return;
+    const config = resolveDianConfig(posSettings);
+    if (!config) {
+      showToast(
+        "Configura la facturación electrónica en Ajustes para emitir la factura.",
+        "error"
+      );
+      return;
+    }
+    if (!token) return;
+    try {
+      const record = await issueDianInvoiceForSale(
+        createDianIssuingGateway(token),
+        config,
+        selectedSaleDocument.id,
+        payload
+      );
+      const status = describeDianDocumentStatus(record);
+      showToast(status.message, status.tone === "error" ? "error" : "info");
+    } catch (err) {
+      if (err instanceof DianValidationError) {
+        showToast(err.issues.join(" "), "error");
+      } else {
+        console.error("No se pudo emitir la factura electrónica", err);
+        showToast(
+          err instanceof Error ? err.message : "No se pudo emitir la factura electrónica.",
+          "error"
+        );
+      }
+    }
+  };
+
+  const handlePrintSelectedStoreCredit = () => {
+    if (selectedDoc?.type !== "tarjeta_regalo" || selectedDoc.isSummary) return;
+    const credit = selectedDoc.data as StoreCredit;
+    const html = renderStoreCreditTicket(buildStoreCreditTicketOptions(credit, posSettings));
+    openSaleDocumentWindow(html, { width: 380, height: 640 });
+  };
+
   const handlePrintSelectedChange = () => {
     if (selectedDoc?.type !== "cambio") return;
     const change = selectedDoc.data as ChangeRecord;
@@ -4177,7 +4313,8 @@ useEffect(() => {
       selectedDoc.type === "orden_web" ||
       selectedDoc.type === "abono" ||
       selectedDoc.type === "recepcion" ||
-      selectedDoc.type === "recuento"
+      selectedDoc.type === "recuento" ||
+      selectedDoc.type === "tarjeta_regalo"
     ? "No disponible para este documento"
     : selectedDocIsVoided
     ? "Documento ya anulado"
@@ -4204,7 +4341,18 @@ useEffect(() => {
       showToast("Solo disponible para ventas.");
       return;
     }
-    handlePrintSelectedInvoice();
+    void handlePrintSelectedInvoice();
+  };
+  const handleIssueElectronicInvoiceClick = () => {
+    if (selectedDoc?.type === "venta" && selectedDoc.isSummary) {
+      showToast(OPEN_DOCUMENT_FOR_ACTION_MESSAGE);
+      return;
+    }
+    if (printTicketDisabled) {
+      showToast("Solo disponible para ventas.");
+      return;
+    }
+    void handleIssueSelectedElectronicInvoice();
   };
   const handlePrintChangeClick = () => {
     if (selectedDoc?.type === "cambio" && selectedDoc.isSummary) {
@@ -4344,6 +4492,7 @@ useEffect(() => {
               <option value="mov_ajuste">Ajustes de stock</option>
               <option value="mov_perdida_dano">Pérdida / daño</option>
               <option value="recuento">Recuentos</option>
+              <option value="tarjeta_regalo">Tarjetas de regalo</option>
               <option value="cierre">Cierres de caja</option>
             </select>
           </label>
@@ -4538,6 +4687,15 @@ useEffect(() => {
         >
           Imprimir factura
         </button>
+        <button
+          type="button"
+          onClick={handleIssueElectronicInvoiceClick}
+          className={`px-4 py-2 rounded-md dashboard-button text-sm ${
+            printTicketDisabled ? "opacity-50 cursor-not-allowed" : ""
+          }`}
+        >
+          Emitir DIAN
+        </button>
         <button
           type="button"
           onClick={handlePrintChangeClick}
@@ -4677,6 +4835,8 @@ useEffect(() => {
                         ? "Movimiento manual"
                         : doc.type === "recuento"
                         ? "Recuento"
+                        : doc.type === "tarjeta_regalo"
+                        ? "Tarjeta de regalo"
                         : "Cierre";
                     const statusLabel = getStatusLabel(doc.status);
                     const webOrderPaymentStatusLabel =
@@ -4760,6 +4920,8 @@ useEffect(() => {
                                   ? "border-violet-300/80 bg-violet-50 text-violet-700"
                                   : doc.type === "recuento"
                                   ? "border-amber-300/80 bg-amber-50 text-amber-700"
+                                  : doc.type === "tarjeta_regalo"
+                                  ? "border-fuchsia-300/80 bg-fuchsia-50 text-fuchsia-700"
                                   : "border-sky-300/80 bg-sky-50 text-sky-700"
                               }`}
                             >
@@ -4932,6 +5094,8 @@ useEffect(() => {
                       ? "Movimiento manual"
                       : selectedDoc.type === "recuento"
                       ? "Recuento"
+                      : selectedDoc.type === "tarjeta_regalo"
+                      ? "Tarjeta de regalo"
                       : "Cierre de caja"}
                   </span>
                 </div>
@@ -5609,6 +5773,116 @@ useEffect(() => {
                 </div>
               )}
 
+              {selectedDoc.type === "tarjeta_regalo" && (
+                <div className="space-y-3">
+                  <div className="text-[11px] uppercase tracking-wide text-slate-500">
+                    Saldo y movimientos
+                  </div>
+                  {selectedDoc.isSummary ? (
+                    <div className="text-xs text-slate-400">Cargando saldo…</div>
+                  ) : (
+                    (() => {
+                      const credit = selectedDoc.data as StoreCredit;
+                      const status = resolveStoreCreditStatus(credit);
+                      return (
+                        <>
+                          <div className="rounded-xl border border-slate-800/60 bg-slate-950/30 p-3 text-xs text-slate-200">
+                            <div className="grid gap-2 sm:grid-cols-2">
+                              <div className="flex justify-between gap-3">
+                                <span className="text-slate-400">Código</span>
+                                <span className="text-right font-mono">{credit.code}</span>
+                              </div>
+                              <div className="flex justify-between gap-3">
+                                <span className="text-slate-400">Tipo</span>
+                                <span className="text-right">
+                                  {STORE_CREDIT_KIND_LABELS[credit.kind]}
+                                </span>
+                              </div>
+                              <div className="flex justify-between gap-3">
+                                <span className="text-slate-400">Valor emitido</span>
+                                <span className="text-right">
+                                  {formatMoney(credit.initial_amount)}
+                                </span>
+                              </div>
+                              <div className="flex justify-between gap-3">
+                                <span className="text-slate-400">Saldo</span>
+                                <span className="text-right font-semibold">
+                                  {formatMoney(credit.balance)} ·{" "}
+                                  {STORE_CREDIT_STATUS_LABELS[status]}
+                                </span>
+                              </div>
+                              <div className="flex justify-between gap-3">
+                                <span className="text-slate-400">Vence</span>
+                                <span className="text-right">
+                                  {credit.expires_at
+                                    ? formatDateTime(credit.expires_at)
+                                    : "Sin vencimiento"}
+                                </span>
+                              </div>
+                              <div className="flex justify-between gap-3">
+                                <span className="text-slate-400">Cliente</span>
+                                <span className="text-right">
+                                  {credit.customer_name || "Sin cliente"}
+                                </span>
+                              </div>
+                            </div>
+                          </div>
+                          {(credit.movements ?? []).length > 0 ? (
+                            <div className="overflow-x-auto rounded-xl border border-slate-800/60">
+                              <table className="min-w-full text-xs">
+                                <thead className="bg-slate-950/40 text-slate-400">
+                                  <tr>
+                                    <th className="px-3 py-2 text-left">Fecha</th>
+                                    <th className="px-3 py-2 text-left">Movimiento</th>
+                                    <th className="px-3 py-2 text-left">Documento</th>
+                                    <th className="px-3 py-2 text-right">Valor</th>
+                                    <th className="px-3 py-2 text-right">Saldo</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {(credit.movements ?? []).map((movement) => (
+                                    <tr key={movement.id} className="border-t border-slate-800/60">
+                                      <td className="px-3 py-2">
+                                        {formatDateTime(movement.created_at)}
+                                      </td>
+                                      <td className="px-3 py-2">
+                                        {STORE_CREDIT_MOVEMENT_LABELS[movement.kind] ??
+                                          movement.kind}
+                                      </td>
+                                      <td className="px-3 py-2">
+                                        {movement.document_number || movement.note || "—"}
+                                      </td>
+                                      <td className="px-3 py-2 text-right">
+                                        {movement.amount < 0 ? "-" : ""}
+                                        {formatMoney(Math.abs(movement.amount))}
+                                      </td>
+                                      <td className="px-3 py-2 text-right">
+                                        {formatMoney(movement.balance_after)}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          ) : (
+                            <div className="text-xs text-slate-500">
+                              Esta tarjeta aún no tiene movimientos.
+                            </div>
+                          )}
+                          <button
+                            type="button"
+                            onClick={handlePrintSelectedStoreCredit}
+                            className="px-4 py-2 rounded-md dashboard-button text-sm"
+                          >
+                            Reimprimir tarjeta
+                          </button>
+                        </>
+                      );
+                    })()
+                  )}
+                </div>
+              )}
+
               {selectedDoc.type === "recuento" && (
                 <div className="space-y-3">
                   <div className="text-[11px] uppercase tracking-wide text-slate-500">
@@ -6454,6 +6728,7 @@ useEffect(() => {
                     ["OW-", "Orden web", "Orden creada desde checkout del canal web."],
                     ["RC-", "Recepción", "Lote de recepción de mercancía (inventario)."],
                     ["RCN-", "Recuento", "Documento de recuento de inventario."],
+                    ["TR-", "Tarjeta de regalo", "Venta de tarjeta de regalo con saldo a favor."],
                     ["CL-", "Cierre de caja", "Consecutivo del cierre (reporte Z)."],
                     ["SM-", "Salida manual", "Movimiento manual de salida de stock."],
                     ["VM-", "Venta manual", "Movimiento manual tipo venta interna."],
@@ -37,11 +37,13 @@ import {
   renderSaleTicket,
   buildSaleTicketCustomer,
 } from "@/lib/printing/saleTicket";
+import { isTaxRateCode, taxBreakdownFromItems } from "@/lib/pos/taxes";
 import {
   fetchSeparatedOrders,
   type SeparatedOrder,
 } from "@/lib/api/separatedOrders";
 import { usePaymentMethodLabelResolver } from "@/app/hooks/usePaymentMethodLabelResolver";
+import { useQzTray } from "@/app/hooks/useQzTray";
 import {
   buildBogotaDateFromKey,
   formatBogotaDate,
@@ -61,6 +63,8 @@ type SaleItem = {
   unit_price_original?: number;
   discount?: number;
   line_discount_value?: number;
+  tax_rate?: string | null;
+  tax_included?: boolean | null;
 };
 
 type Payment = {
@@ -202,6 +206,7 @@ type Sale = {
   balance?: number | null;
   surcharge_amount?: number | null;
   surcharge_label?: string | null;
+  promotions?: { name: string; amount: number }[] | null;
 };
 
 type SalesHistoryPageResponse = {
@@ -730,31 +735,6 @@ export default function SalesHistoryContent({
     autoOpenDrawer: false,
     showDrawerButton: true,
   });
-  type QzPromiseResolver<T> = (value: T | PromiseLike<T>) => void;
-  type QzPromiseReject = (reason?: unknown) => void;
-  type QzType = {
-    websocket: { isActive: () => boolean; connect: () => Promise<void> };
-    printers: { find: () => Promise<string[]> };
-    configs: { create: (printer: string, options?: Record<string, unknown>) => unknown };
-    print: (config: unknown, data: unknown) => Promise<void>;
-    security?: {
-      setCertificatePromise: (
-        promise: (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-      setSignaturePromise: (
-        promise: (
-          toSign: string
-        ) => (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-    };
-  };
-  const [qzClient, setQzClient] = useState<QzType | null>(() => {
-    if (typeof window !== "undefined") {
-      const w = window as unknown as { qz?: QzType };
-      return w.qz ?? null;
-    }
-    return null;
-  });
   const [selectedSeparatedOrder, setSelectedSeparatedOrder] =
     useState<SeparatedOrderSummary | null>(null);
   const authHeaders = useMemo(
@@ -940,100 +920,10 @@ export default function SalesHistoryContent({
     };
   }, [shouldUseQz, token, activeStationId, apiBase, printerStorageKey]);
 
-  useEffect(() => {
-    if (!shouldUseQz) return;
-    if (typeof window === "undefined") return;
-    let cancelled = false;
-    const setIfPresent = () => {
-      if (cancelled) return;
-      const w = window as unknown as { qz?: QzType };
-      if (w.qz) setQzClient(w.qz);
-    };
-    const w = window as unknown as { qz?: QzType };
-    if (w.qz) {
-      setIfPresent();
-      return () => {
-        cancelled = true;
-      };
-    }
-    const existing = document.querySelector('script[data-qz-tray]') as HTMLScriptElement | null;
-    const script = existing ?? document.createElement("script");
-    if (!existing) {
-      script.src = "https://cdn.jsdelivr.net/npm/qz-tray@2.2.4/qz-tray.js";
-      script.async = true;
-      script.dataset.qzTray = "1";
-      script.onerror = () =>
-        console.warn("No se pudo cargar el script de QZ Tray desde la CDN.");
-      document.head.appendChild(script);
-    }
-    script.addEventListener("load", setIfPresent);
-    return () => {
-      cancelled = true;
-      script.removeEventListener("load", setIfPresent);
-    };
-  }, [shouldUseQz]);
-
-  const qzSecurityConfiguredRef = React.useRef(false);
-  const configureQzSecurity = useCallback(() => {
-    if (!shouldUseQz) return false;
-    if (!qzClient?.security) return true;
-    if (!token) return false;
-    if (qzSecurityConfiguredRef.current) return true;
-    const authHeaders = {
-      Authorization: `Bearer ${token}`,
-    };
-    qzClient.security.setCertificatePromise(
-      (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-        fetch(`${apiBase}/pos/qz/cert`, { credentials: "include" })
-          .then(async (res) => {
-            if (!res.ok) {
-              throw new Error(
-                `No se pudo obtener el certificado (Error ${res.status}).`
-              );
-            }
-            return res.text();
-          })
-          .then(resolve)
-          .catch(reject);
-      }
-    );
-    qzClient.security.setSignaturePromise(
-      (toSign: string) =>
-        (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-          fetch(`${apiBase}/pos/qz/sign`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              ...authHeaders,
-            },
-            credentials: "include",
-            body: JSON.stringify({ data: toSign }),
-          })
-            .then(async (res) => {
-              if (!res.ok) {
-                const detail = await res.json().catch(() => null);
-                throw new Error(
-                  detail?.detail ??
-                    `No se pudo firmar el reto (Error ${res.status}).`
-                );
-              }
-              const data = (await res.json()) as { signature?: string };
-              if (!data?.signature) {
-                throw new Error("La API no devolvió la firma.");
-              }
-              return data.signature;
-            })
-            .then(resolve)
-            .catch(reject);
-        }
-    );
-    qzSecurityConfiguredRef.current = true;
-    return true;
-  }, [apiBase, qzClient, shouldUseQz, token]);
 
-  useEffect(() => {
-    configureQzSecurity();
-  }, [configureQzSecurity]);
+  const { isAvailable: qzAvailable, printHtml: printQzHtml } = useQzTray(token, {
+    enabled: shouldUseQz,
+  });
   const filterToKey = useMemo(() => (filterTo ? filterTo : null), [
     filterTo,
   ]);
@@ -1717,6 +1607,8 @@ export default function SalesHistoryContent({
         quantity: data?.quantity ?? item.quantity ?? 1,
         unitPrice: data?.unitGross ?? item.unit_price ?? 0,
         total: Math.max(0, (data?.total ?? item.total ?? 0) - cartShare),
+        taxRate: isTaxRateCode(item.tax_rate) ? item.tax_rate : null,
+        taxIncluded: item.tax_included ?? null,
       };
     });
     const ticketItemsTotal = ticketItems.reduce(
@@ -1827,27 +1719,22 @@ export default function SalesHistoryContent({
         address: selectedSale.customer_address ?? undefined,
       }),
       separatedInfo: separatedTicketInfo,
+      taxBreakdown: taxBreakdownFromItems(ticketItems, total),
+      promotions: selectedSale.promotions ?? null,
     });
 
     const printTicketWithQz = async () => {
       if (!shouldUseQz) return false;
       if (printerConfig.mode !== "qz-tray") return false;
       if (!printerConfig.printerName.trim()) return false;
-      if (!qzClient) return false;
+      if (!qzAvailable) return false;
       try {
-        if (!qzClient.websocket.isActive()) {
-          await qzClient.websocket.connect();
-        }
-        const sizeWidth = printerConfig.width === "58mm" ? 58 : 80;
-        const cfg = qzClient.configs.create(printerConfig.printerName, {
-          altPrinting: true,
-          units: "mm",
-          size: { width: sizeWidth },
-          margins: { top: 0, right: 0, bottom: 0, left: 0 },
-        });
-        await qzClient.print(cfg, [
-          { type: "html", format: "plain", data: html },
-        ]);
+        await printQzHtml(
+          printerConfig.printerName,
+          html,
+          printerConfig.width,
+          "Reimpresión de ticket"
+        );
         return true;
       } catch (err) {
         console.error("No se pudo imprimir con QZ Tray", err);
@@ -1880,7 +1767,8 @@ export default function SalesHistoryContent({
       win.onload = triggerPrint;
     }
   }, [
-    qzClient,
+    printQzHtml,
+    qzAvailable,
     printerConfig.mode,
     printerConfig.printerName,
     printerConfig.width,
@@ -1995,21 +1883,14 @@ export default function SalesHistoryContent({
         if (!shouldUseQz) return false;
         if (printerConfig.mode !== "qz-tray") return false;
         if (!printerConfig.printerName.trim()) return false;
-        if (!qzClient) return false;
+        if (!qzAvailable) return false;
         try {
-          if (!qzClient.websocket.isActive()) {
-            await qzClient.websocket.connect();
-          }
-          const sizeWidth = printerConfig.width === "58mm" ? 58 : 80;
-          const cfg = qzClient.configs.create(printerConfig.printerName, {
-            altPrinting: true,
-            units: "mm",
-            size: { width: sizeWidth },
-            margins: { top: 0, right: 0, bottom: 0, left: 0 },
-          });
-          await qzClient.print(cfg, [
-            { type: "html", format: "plain", data: html },
-          ]);
+          await printQzHtml(
+            printerConfig.printerName,
+            html,
+            printerConfig.width,
+            "Reimpresión de ticket"
+          );
           return true;
         } catch (err) {
           console.error("No se pudo imprimir devolución con QZ Tray", err);
@@ -2056,7 +1937,8 @@ export default function SalesHistoryContent({
     printerConfig.mode,
     printerConfig.printerName,
     printerConfig.width,
-    qzClient,
+    printQzHtml,
+    qzAvailable,
     selectedSale,
     shouldUseQz,
     token,
@@ -2127,21 +2009,14 @@ export default function SalesHistoryContent({
         if (!shouldUseQz) return false;
         if (printerConfig.mode !== "qz-tray") return false;
         if (!printerConfig.printerName.trim()) return false;
-        if (!qzClient) return false;
+        if (!qzAvailable) return false;
         try {
-          if (!qzClient.websocket.isActive()) {
-            await qzClient.websocket.connect();
-          }
-          const sizeWidth = printerConfig.width === "58mm" ? 58 : 80;
-          const cfg = qzClient.configs.create(printerConfig.printerName, {
-            altPrinting: true,
-            units: "mm",
-            size: { width: sizeWidth },
-            margins: { top: 0, right: 0, bottom: 0, left: 0 },
-          });
-          await qzClient.print(cfg, [
-            { type: "html", format: "plain", data: html },
-          ]);
+          await printQzHtml(
+            printerConfig.printerName,
+            html,
+            printerConfig.width,
+            "Reimpresión de ticket"
+          );
           return true;
         } catch (err) {
           console.error("No se pudo imprimir cambio con QZ Tray", err);
@@ -2188,7 +2063,8 @@ export default function SalesHistoryContent({
     printerConfig.mode,
     printerConfig.printerName,
     printerConfig.width,
-    qzClient,
+    printQzHtml,
+    qzAvailable,
     selectedSale,
     shouldUseQz,
     token,
@@ -64,6 +64,7 @@ import {
 import {
   defaultRolePermissions,
   fetchMyRolePermissions,
+  fetchPosSettings,
   type WebBrandCollageImages,
   type WebHomeSectionsMode,
   type WebPersonalizationHomeImages,
@@ -73,6 +74,10 @@ import {
   fetchComercioWebSettings,
   updateComercioWebSettings,
 } from "@/lib/api/comercioWebSettings";
+import {
+  fetchComercioWebShippingZones,
+  type ComercioWebShippingZone,
+} from "@/lib/api/comercioWebDelivery";
 import {
   DEFAULT_COMMERCE_DESCRIPTION_CONFIG,
   generateCommerceWebDescription,
@@ -80,6 +85,17 @@ import {
   type DescriptionTemplateConfig,
 } from "@/lib/comercioWebDescriptionGenerator";
 import { DEFAULT_TECHNICAL_SPEC_TYPE_OPTIONS } from "@/lib/comercioWebTechnicalSpecTypes";
+import { DELIVERY_STATUS_LABELS, deliveryStatusFromLog } from "@/lib/comercioWebDelivery";
+import type { DeliveryDocumentCompany } from "@/lib/printing/webOrderDelivery";
+import WebOrderDeliveryPanel from "../components/WebOrderDeliveryPanel";
+import WebShippingZonesPanel from "../components/WebShippingZonesPanel";
+import WebOrderPickingPanel from "../components/WebOrderPickingPanel";
+import WebOrderRefundPanel from "../components/WebOrderRefundPanel";
+import WebPaymentReconciliationPanel from "../components/WebPaymentReconciliationPanel";
+import WebAbandonedOrdersPanel from "../components/WebAbandonedOrdersPanel";
+import { paymentStatusPriority } from "@/lib/comercioWebReconciliation";
+import { PICKABLE_ORDER_STATUSES, isOrderPickingComplete } from "@/lib/comercioWebPicking";
+import { isSmtpConfigured } from "@/lib/comercioWebRecovery";
 
 type CommerceTab =
   | "overview"
@@ -391,6 +407,7 @@ const ORDER_STATUS_OPTIONS: Array<{ value: string; label: string }> = [
   { value: "fulfilled", label: "Entregada" },
   { value: "payment_failed", label: "Pago fallido" },
   { value: "cancelled", label: "Cancelada" },
+  { value: "expired", label: "Vencida" },
 ];
 
 const PAYMENT_STATUS_OPTIONS: Array<{ value: string; label: string }> = [
@@ -842,8 +859,12 @@ function translateOrderStatus(status: string): string {
       return "Reembolsada";
     case "draft":
       return "Borrador";
-    default:
-      return status;
+    case "expired":
+      return "Vencida";
+    default: {
+      const deliveryStatus = deliveryStatusFromLog(status);
+      return deliveryStatus ? `Envío: ${DELIVERY_STATUS_LABELS[deliveryStatus]}` : status;
+    }
   }
 }
 
@@ -1169,16 +1190,6 @@ function sumApprovedPayments(order: ComercioWebOrder): number {
     .reduce((sum, payment) => sum + Number(payment.amount || 0), 0);
 }
 
-function paymentStatusPriority(status: string): number {
-  const normalized = (status || "").trim().toLowerCase();
-  if (normalized === "approved") return 5;
-  if (normalized === "refunded") return 4;
-  if (normalized === "cancelled") return 3;
-  if (normalized === "failed") return 2;
-  if (normalized === "pending") return 1;
-  return 0;
-}
-
 function getPrimaryContact(order: ComercioWebOrder): string {
   return order.customer_phone || order.customer_email || "Sin contacto";
 }
@@ -1216,6 +1227,8 @@ function resolveOrderDeliverySummary(
   deliveryModeLabel: string;
   shippingLabel: string;
   shippingAddress: string;
+  shippingCity: string;
+  shippingState: string;
   shippingCityState: string;
   billingModeLabel: string;
   contactPhone: string;
@@ -1248,6 +1261,8 @@ function resolveOrderDeliverySummary(
     deliveryModeLabel: translateDeliveryModeLabel(deliveryModeRaw || "Sin definir"),
     shippingLabel,
     shippingAddress,
+    shippingCity: city,
+    shippingState: state,
     shippingCityState,
     billingModeLabel,
     contactPhone,
@@ -1844,6 +1859,9 @@ export default function ComercioWebPage() {
   const [status, setStatus] = useState("");
   const [paymentStatus, setPaymentStatus] = useState("");
   const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [shippingZones, setShippingZones] = useState<ComercioWebShippingZone[]>([]);
+  const [deliveryCompany, setDeliveryCompany] = useState<DeliveryDocumentCompany>({ name: "" });
+  const [smtpReady, setSmtpReady] = useState(false);
   const [selectedPersonalizationId, setSelectedPersonalizationId] = useState<number | null>(null);
   const [selectedPersonalizationConfigId, setSelectedPersonalizationConfigId] = useState<string | null>(null);
   const [showPersonalizationViewer, setShowPersonalizationViewer] = useState(false);
@@ -4653,6 +4671,30 @@ export default function ComercioWebPage() {
     void loadOrders();
   }, [loadOrders]);
 
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    fetchComercioWebShippingZones(token)
+      .then((zones) => {
+        if (!cancelled) setShippingZones(zones);
+      })
+      .catch((err) => console.warn("No se pudieron cargar las zonas de envío", err));
+    fetchPosSettings(token)
+      .then((settings) => {
+        if (cancelled) return;
+        setDeliveryCompany({
+          name: settings.company_name,
+          address: settings.address,
+          phone: settings.contact_phone,
+        });
+        setSmtpReady(isSmtpConfigured(settings));
+      })
+      .catch((err) => console.warn("No se pudieron cargar los datos de la empresa", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
   useEffect(() => {
     if (!token) return;
     if (!COMMERCE_WEB_LIVE_ORDER_TABS.includes(activeTab)) return;
@@ -4742,6 +4784,10 @@ export default function ComercioWebPage() {
 
   async function handleStatusUpdate(order: ComercioWebOrder, nextStatus: ComercioWebOrderStatus) {
     if (!token) return;
+    if (nextStatus === "ready" && !isOrderPickingComplete(order)) {
+      setOrderError("Verifica todos los productos en el alistamiento antes de marcar la orden como lista.");
+      return;
+    }
     try {
       setBusyAction(`status-${order.id}-${nextStatus}`);
       const updated = await updateComercioWebOrderStatus(token, order.id, {
@@ -11352,6 +11398,29 @@ export default function ComercioWebPage() {
                     </div>
                   </div>
 
+                  {token ? (
+                    <WebOrderDeliveryPanel
+                      key={selectedOrder.id}
+                      token={token}
+                      order={selectedOrder}
+                      zones={shippingZones}
+                      company={deliveryCompany}
+                      destination={{
+                        address: selectedDeliverySummary.shippingAddress,
+                        cityState: selectedDeliverySummary.shippingCityState,
+                        phone: selectedDeliverySummary.contactPhone,
+                        city: selectedDeliverySummary.shippingCity,
+                        state: selectedDeliverySummary.shippingState,
+                      }}
+                      canManage={canManage}
+                      onOrderUpdated={(updated) => {
+                        setOrders((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+                        setSelectedId(updated.id);
+                      }}
+                      onToast={showToast}
+                    />
+                  ) : null}
+
                   <div className="rounded-3xl border border-slate-200 bg-slate-50 p-4">
                     <div className="flex flex-wrap items-center justify-between gap-3">
                       <h3 className="text-sm font-semibold text-slate-900">
@@ -11437,7 +11506,12 @@ export default function ComercioWebPage() {
                         <button
                           key={option.value}
                           type="button"
-                          disabled={!canManage || (option.value === "fulfilled" && selectedOrder.sale_id == null) || busyAction !== null}
+                          disabled={
+                            !canManage ||
+                            (option.value === "fulfilled" && selectedOrder.sale_id == null) ||
+                            (option.value === "ready" && !isOrderPickingComplete(selectedOrder)) ||
+                            busyAction !== null
+                          }
                           onClick={() => void handleStatusUpdate(selectedOrder, option.value)}
                           className="rounded-2xl border border-slate-300 bg-white px-4 py-2.5 text-sm font-medium text-slate-700 transition disabled:cursor-not-allowed disabled:opacity-50"
                         >
@@ -11447,6 +11521,36 @@ export default function ComercioWebPage() {
                     </div>
                   </div>
 
+                  {token ? (
+                    <WebOrderRefundPanel
+                      key={`refund-${selectedOrder.id}`}
+                      token={token}
+                      order={selectedOrder}
+                      canManage={canManage}
+                      onOrderUpdated={(updated) => {
+                        setOrders((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+                        setSelectedId(updated.id);
+                      }}
+                      onToast={showToast}
+                    />
+                  ) : null}
+
+                  {token && PICKABLE_ORDER_STATUSES.includes(selectedOrder.status) ? (
+                    <WebOrderPickingPanel
+                      key={selectedOrder.id}
+                      token={token}
+                      order={selectedOrder}
+                      canManage={canManage}
+                      busy={busyAction !== null}
+                      onOrderUpdated={(updated) => {
+                        setOrders((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+                        setSelectedId(updated.id);
+                      }}
+                      onMarkReady={(updated) => void handleStatusUpdate(updated, "ready")}
+                      onToast={showToast}
+                    />
+                  ) : null}
+
                   <div className="rounded-3xl border border-slate-200">
                     <div className="border-b border-slate-200 px-4 py-3">
                       <h3 className="text-sm font-semibold text-slate-900">Items</h3>
@@ -11511,6 +11615,37 @@ export default function ComercioWebPage() {
                 </SectionCard>
               </div>
             </section>
+
+            {token ? (
+              <SectionCard
+                title="Órdenes abandonadas"
+                subtitle="Vence las órdenes sin pago y recupera clientes por correo."
+              >
+                <WebAbandonedOrdersPanel
+                  token={token}
+                  canManage={canManage}
+                  smtpReady={smtpReady}
+                  onOpenOrder={(orderId) => setSelectedId(orderId)}
+                  onOrdersChanged={() => void loadOrders({ silent: true })}
+                  onToast={showToast}
+                />
+              </SectionCard>
+            ) : null}
+
+            {token ? (
+              <SectionCard
+                title="Zonas de envío"
+                subtitle="Tarifas por ciudad o departamento para sugerir el costo de despacho."
+              >
+                <WebShippingZonesPanel
+                  token={token}
+                  zones={shippingZones}
+                  canManage={canManage}
+                  onZonesChange={setShippingZones}
+                  onToast={showToast}
+                />
+              </SectionCard>
+            ) : null}
           </section>
         ) : null}
 
@@ -13174,6 +13309,26 @@ export default function ComercioWebPage() {
               )}
             </SectionCard>
           </section>
+
+          {token ? (
+            <SectionCard
+              title="Conciliación con proveedores"
+              subtitle="Cruza el reporte de Wompi o Mercado Pago con los pagos registrados por referencia."
+            >
+              <WebPaymentReconciliationPanel
+                token={token}
+                canApply={canManage && user?.role === "Administrador"}
+                onOrderUpdated={(updated) =>
+                  setOrders((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
+                }
+                onOpenOrder={(orderId) => {
+                  setSelectedId(orderId);
+                  requestTabChange("orders");
+                }}
+                onToast={showToast}
+              />
+            </SectionCard>
+          ) : null}
           </section>
         ) : null}
 
@@ -14166,6 +14321,24 @@ function PaymentCard({ payment }: { payment: ComercioWebOrderPayment }) {
         </div>
       </div>
       <p className="mt-2 text-xs text-slate-500">{formatDateTime(payment.created_at)}</p>
+      {payment.refunds?.length ? (
+        <div className="mt-2 space-y-1 border-t border-slate-200 pt-2">
+          {payment.refunds.map((refund) => (
+            <div key={refund.id} className="flex items-start justify-between gap-3 text-xs">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-700">
+                  Reembolso {refund.status === "failed" ? "rechazado" : refund.status === "pending" ? "en trámite" : ""}
+                  {refund.sale_return_document_number ? ` · ${refund.sale_return_document_number}` : ""}
+                </p>
+                <p className="truncate text-slate-500">{refund.reason}</p>
+              </div>
+              <span className={refund.status === "failed" ? "text-slate-400 line-through" : "font-semibold text-rose-700"}>
+                -{formatMoney(refund.amount)}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : null}
     </div>
   );
 }
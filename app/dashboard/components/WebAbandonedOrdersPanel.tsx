@@ -0,0 +1,545 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  fetchComercioWebAbandonedOrders,
+  fetchComercioWebRecoverySettings,
+  runComercioWebAbandonedSweep,
+  sendComercioWebRecoveryEmail,
+  updateComercioWebRecoverySettings,
+  type ComercioWebAbandonedOrder,
+  type ComercioWebRecoverySettings,
+} from "@/lib/api/comercioWebRecovery";
+import {
+  ABANDONED_STAGE_LABELS,
+  DEFAULT_RECOVERY_SETTINGS,
+  RECOVERY_MESSAGE_PLACEHOLDERS,
+  abandonedOrderStage,
+  renderRecoveryMessage,
+  summarizeRecovery,
+  validateRecoverySettings,
+  type AbandonedOrderStage,
+} from "@/lib/comercioWebRecovery";
+
+const RANGE_OPTIONS = [
+  { days: 7, label: "Últimos 7 días" },
+  { days: 30, label: "Últimos 30 días" },
+  { days: 90, label: "Últimos 90 días" },
+];
+
+type RecoverySettingsForm = Omit<ComercioWebRecoverySettings, "updated_at">;
+
+type WebAbandonedOrdersPanelProps = {
+  token: string;
+  canManage: boolean;
+  /** SMTP y remitente configurados en Configuración. */
+  smtpReady: boolean;
+  onOpenOrder: (orderId: number) => void;
+  onOrdersChanged: () => void;
+  onToast: (message: string, tone?: "success" | "error") => void;
+};
+
+function formatMoney(value: number): string {
+  return value.toLocaleString("es-CO", {
+    style: "currency",
+    currency: "COP",
+    maximumFractionDigits: 0,
+  });
+}
+
+function formatDateTime(value?: string | null): string {
+  if (!value) return "No disponible";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "No disponible";
+  return new Intl.DateTimeFormat("es-CO", {
+    dateStyle: "short",
+    timeStyle: "short",
+  }).format(date);
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 1000) / 10}%`;
+}
+
+function stageBadgeClass(stage: AbandonedOrderStage): string {
+  if (stage === "recovered") return "border-emerald-300 bg-emerald-50 text-emerald-700";
+  if (stage === "emailed") return "border-sky-300 bg-sky-50 text-sky-700";
+  if (stage === "expired") return "border-slate-300 bg-slate-100 text-slate-600";
+  return "border-amber-300 bg-amber-50 text-amber-700";
+}
+
+function settingsToForm(settings: ComercioWebRecoverySettings): RecoverySettingsForm {
+  return {
+    enabled: settings.enabled,
+    expire_after_hours: settings.expire_after_hours,
+    send_recovery_email: settings.send_recovery_email,
+    email_delay_hours: settings.email_delay_hours,
+    email_subject: settings.email_subject,
+    email_message: settings.email_message,
+    discount_enabled: settings.discount_enabled,
+    discount_type: settings.discount_type,
+    discount_value: settings.discount_value,
+    discount_valid_days: settings.discount_valid_days,
+  };
+}
+
+export default function WebAbandonedOrdersPanel({
+  token,
+  canManage,
+  smtpReady,
+  onOpenOrder,
+  onOrdersChanged,
+  onToast,
+}: WebAbandonedOrdersPanelProps) {
+  const [rangeDays, setRangeDays] = useState(30);
+  const [rows, setRows] = useState<ComercioWebAbandonedOrder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<ComercioWebRecoverySettings | null>(null);
+  const [form, setForm] = useState<RecoverySettingsForm>(DEFAULT_RECOVERY_SETTINGS);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [sweeping, setSweeping] = useState(false);
+  const [sendingId, setSendingId] = useState<number | null>(null);
+  const [includeDiscount, setIncludeDiscount] = useState(false);
+  const [activeOnly, setActiveOnly] = useState(false);
+
+  const summary = useMemo(() => summarizeRecovery(rows), [rows]);
+  const visibleRows = useMemo(
+    () =>
+      activeOnly
+        ? rows.filter((row) => {
+            const stage = abandonedOrderStage(row);
+            return stage === "open" || stage === "emailed";
+          })
+        : rows,
+    [activeOnly, rows]
+  );
+  const formError = validateRecoverySettings(form);
+  const preview = renderRecoveryMessage(form.email_message, {
+    cliente: "Ana",
+    pedido: "WEB-1024",
+    total: formatMoney(185000),
+    enlace: "https://…/checkout",
+    codigo: form.discount_enabled ? "VUELVE-3F8K" : "",
+  });
+
+  const loadRows = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const dateFrom = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000);
+      const data = await fetchComercioWebAbandonedOrders(token, {
+        date_from: dateFrom.toISOString().slice(0, 10),
+        limit: 500,
+      });
+      setRows(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudieron cargar las órdenes abandonadas");
+    } finally {
+      setLoading(false);
+    }
+  }, [rangeDays, token]);
+
+  useEffect(() => {
+    void loadRows();
+  }, [loadRows]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchComercioWebRecoverySettings(token)
+      .then((data) => {
+        if (cancelled) return;
+        setSettings(data);
+        setForm(settingsToForm(data));
+        setIncludeDiscount(data.discount_enabled);
+      })
+      .catch((err) => console.warn("No se pudo cargar la configuración de recuperación", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  function updateForm<K extends keyof RecoverySettingsForm>(key: K, value: RecoverySettingsForm[K]) {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  }
+
+  async function handleSaveSettings() {
+    if (formError) return;
+    try {
+      setSavingSettings(true);
+      const saved = await updateComercioWebRecoverySettings(token, form);
+      setSettings(saved);
+      setForm(settingsToForm(saved));
+      setIncludeDiscount(saved.discount_enabled);
+      setSettingsOpen(false);
+      onToast("Configuración de recuperación guardada.");
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "No se pudo guardar la configuración", "error");
+    } finally {
+      setSavingSettings(false);
+    }
+  }
+
+  async function handleSweep() {
+    try {
+      setSweeping(true);
+      const result = await runComercioWebAbandonedSweep(token);
+      const parts = [`${result.expired_count} orden(es) vencida(s)`, `${result.emails_sent} correo(s) enviado(s)`];
+      if (result.email_errors > 0) parts.push(`${result.email_errors} correo(s) con error`);
+      onToast(parts.join(" · "), result.email_errors > 0 ? "error" : "success");
+      await loadRows();
+      if (result.expired_count > 0) onOrdersChanged();
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "No se pudo revisar las órdenes abandonadas", "error");
+    } finally {
+      setSweeping(false);
+    }
+  }
+
+  async function handleSendEmail(row: ComercioWebAbandonedOrder) {
+    try {
+      setSendingId(row.id);
+      const updated = await sendComercioWebRecoveryEmail(token, row.id, {
+        include_discount: includeDiscount,
+      });
+      setRows((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      if (updated.email_error) {
+        onToast(`No se pudo enviar el correo: ${updated.email_error}`, "error");
+      } else {
+        onToast(
+          updated.discount_code
+            ? `Correo enviado a ${updated.customer_email} con el código ${updated.discount_code}.`
+            : `Correo enviado a ${updated.customer_email}.`
+        );
+      }
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "No se pudo enviar el correo de recuperación", "error");
+    } finally {
+      setSendingId(null);
+    }
+  }
+
+  const metrics = [
+    { label: "Abandonadas", value: String(summary.abandoned), hint: `${formatMoney(summary.openValue)} aún abiertas` },
+    { label: "Correos enviados", value: String(summary.emailed), hint: `${summary.expired} vencida(s)` },
+    {
+      label: "Tasa de recuperación",
+      value: formatPercent(summary.recoveryRate),
+      hint: `${formatPercent(summary.emailRecoveryRate)} tras el correo`,
+    },
+    {
+      label: "Ingresos recuperados",
+      value: formatMoney(summary.revenueRecovered),
+      hint: `${summary.recovered} orden(es) pagada(s)`,
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {!smtpReady ? (
+        <p className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          Configura el servidor SMTP y el remitente en Configuración para enviar correos de recuperación. Mientras
+          tanto solo se vencen las órdenes.
+        </p>
+      ) : null}
+      {settings && !settings.enabled ? (
+        <p className="text-xs text-slate-500">
+          La recuperación automática está desactivada: las órdenes pendientes no vencen solas.
+        </p>
+      ) : null}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] font-semibold uppercase tracking-[0.16em] text-slate-500">Periodo</span>
+          <select
+            value={rangeDays}
+            onChange={(event) => setRangeDays(Number(event.target.value))}
+            className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+          >
+            {RANGE_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="ml-auto flex flex-wrap gap-2">
+          <button
+            type="button"
+            disabled={!canManage || sweeping}
+            onClick={() => void handleSweep()}
+            className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {sweeping ? "Revisando..." : "Revisar ahora"}
+          </button>
+          <button
+            type="button"
+            disabled={!canManage}
+            onClick={() => {
+              if (settingsOpen && settings) setForm(settingsToForm(settings));
+              setSettingsOpen((prev) => !prev);
+            }}
+            className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {settingsOpen ? "Cancelar" : "Configurar"}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="rounded-2xl border border-slate-200 bg-white p-3">
+            <p className="text-[10px] font-semibold uppercase tracking-[0.16em] text-slate-500">{metric.label}</p>
+            <p className="mt-1 text-lg font-semibold text-slate-900">{metric.value}</p>
+            <p className="text-xs text-slate-500">{metric.hint}</p>
+          </div>
+        ))}
+      </div>
+
+      {settingsOpen ? (
+        <div className="space-y-3 rounded-2xl border border-slate-200 bg-slate-50 p-4">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.enabled}
+                onChange={(event) => updateForm("enabled", event.target.checked)}
+              />
+              Recuperación automática activa
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.send_recovery_email}
+                onChange={(event) => updateForm("send_recovery_email", event.target.checked)}
+              />
+              Enviar correo de recuperación
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.discount_enabled}
+                onChange={(event) => updateForm("discount_enabled", event.target.checked)}
+              />
+              Incluir código de descuento de un solo uso
+            </label>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-2">
+            <label className="flex flex-col gap-1">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Vencer tras (horas)
+              </span>
+              <input
+                type="number"
+                min={1}
+                value={form.expire_after_hours}
+                onChange={(event) => updateForm("expire_after_hours", Number(event.target.value) || 0)}
+                className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Enviar correo tras (horas)
+              </span>
+              <input
+                type="number"
+                min={0}
+                disabled={!form.send_recovery_email}
+                value={form.email_delay_hours}
+                onChange={(event) => updateForm("email_delay_hours", Number(event.target.value) || 0)}
+                className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none disabled:bg-slate-100"
+              />
+            </label>
+          </div>
+
+          {form.discount_enabled ? (
+            <div className="grid gap-3 md:grid-cols-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">
+                  Tipo de descuento
+                </span>
+                <select
+                  value={form.discount_type}
+                  onChange={(event) =>
+                    updateForm("discount_type", event.target.value as RecoverySettingsForm["discount_type"])
+                  }
+                  className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+                >
+                  <option value="percent">Porcentaje</option>
+                  <option value="fixed_amount">Valor fijo</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">
+                  {form.discount_type === "percent" ? "Porcentaje" : "Valor"}
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.discount_value}
+                  onChange={(event) => updateForm("discount_value", Number(event.target.value) || 0)}
+                  className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">
+                  Vigencia (días)
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.discount_valid_days}
+                  onChange={(event) => updateForm("discount_valid_days", Number(event.target.value) || 0)}
+                  className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+                />
+              </label>
+            </div>
+          ) : null}
+
+          {form.send_recovery_email ? (
+            <div className="space-y-2">
+              <input
+                value={form.email_subject}
+                onChange={(event) => updateForm("email_subject", event.target.value)}
+                placeholder="Asunto del correo"
+                className="w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+              />
+              <textarea
+                value={form.email_message}
+                onChange={(event) => updateForm("email_message", event.target.value)}
+                rows={4}
+                className="w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+              />
+              <p className="text-xs text-slate-500">Variables: {RECOVERY_MESSAGE_PLACEHOLDERS.join(", ")}</p>
+              <p className="whitespace-pre-line rounded-xl border border-slate-200 bg-white px-3 py-2 text-xs text-slate-600">
+                {preview}
+              </p>
+            </div>
+          ) : null}
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            {formError ? <p className="text-sm text-amber-700">{formError}</p> : <span />}
+            <button
+              type="button"
+              disabled={!canManage || savingSettings || formError != null}
+              onClick={() => void handleSaveSettings()}
+              className="rounded-2xl bg-emerald-600 px-4 py-2 text-sm font-medium text-white transition disabled:cursor-not-allowed disabled:bg-slate-300"
+            >
+              {savingSettings ? "Guardando..." : "Guardar configuración"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-600">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={activeOnly} onChange={(event) => setActiveOnly(event.target.checked)} />
+          Solo pendientes de recuperar
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={includeDiscount}
+            disabled={!settings?.discount_enabled}
+            onChange={(event) => setIncludeDiscount(event.target.checked)}
+          />
+          Adjuntar código de descuento al enviar
+        </label>
+        {loading ? <span className="text-slate-500">Cargando…</span> : null}
+      </div>
+      {error ? <p className="text-sm text-rose-600">{error}</p> : null}
+
+      <div className="overflow-x-auto rounded-xl border border-slate-200">
+        <table className="min-w-full text-sm">
+          <thead className="border-b border-slate-200 bg-slate-50 text-left text-xs uppercase tracking-[0.18em] text-slate-500">
+            <tr>
+              <th className="px-3 py-3">Orden</th>
+              <th className="px-3 py-3">Cliente</th>
+              <th className="px-3 py-3">Abandonada</th>
+              <th className="px-3 py-3">Estado</th>
+              <th className="px-3 py-3">Total</th>
+              <th className="px-3 py-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-3 py-4 text-sm text-slate-500">
+                  {loading ? "Cargando órdenes abandonadas…" : "No hay órdenes abandonadas en este periodo."}
+                </td>
+              </tr>
+            ) : (
+              visibleRows.map((row) => {
+                const stage = abandonedOrderStage(row);
+                const canSend =
+                  canManage && smtpReady && Boolean(row.customer_email) && (stage === "open" || stage === "emailed");
+                return (
+                  <tr key={row.id} className="border-b border-slate-100 align-top">
+                    <td className="px-3 py-3">
+                      <button
+                        type="button"
+                        onClick={() => onOpenOrder(row.order_id)}
+                        className="font-medium text-slate-900 hover:text-emerald-700"
+                      >
+                        {row.order_document_number || `Orden #${row.order_id}`}
+                      </button>
+                      {row.recovered_order_id && row.recovered_order_id !== row.order_id ? (
+                        <div className="text-xs text-emerald-700">
+                          Pagada en {row.recovered_order_document_number || `#${row.recovered_order_id}`}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-3 text-slate-700">
+                      {row.customer_name || "Sin nombre"}
+                      <div className="text-xs text-slate-500">{row.customer_email || "Sin correo"}</div>
+                    </td>
+                    <td className="px-3 py-3 text-xs text-slate-600">
+                      {formatDateTime(row.abandoned_at)}
+                      {stage === "open" || stage === "emailed" ? (
+                        <div className="text-slate-400">Vence {formatDateTime(row.expires_at)}</div>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-3">
+                      <span
+                        className={`rounded-full border px-2 py-1 text-[11px] font-medium ${stageBadgeClass(stage)}`}
+                      >
+                        {ABANDONED_STAGE_LABELS[stage]}
+                      </span>
+                      {row.email_sent_at ? (
+                        <div className="mt-1 text-xs text-slate-500">Correo {formatDateTime(row.email_sent_at)}</div>
+                      ) : null}
+                      {row.discount_code ? (
+                        <div className="font-mono text-xs text-slate-500">{row.discount_code}</div>
+                      ) : null}
+                      {row.email_error ? <div className="text-xs text-rose-600">{row.email_error}</div> : null}
+                    </td>
+                    <td className="px-3 py-3 text-slate-700">
+                      {formatMoney(row.order_total)}
+                      {stage === "recovered" && row.recovered_total != null ? (
+                        <div className="text-xs text-emerald-700">Recuperado {formatMoney(row.recovered_total)}</div>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-3 text-right">
+                      {stage === "open" || stage === "emailed" ? (
+                        <button
+                          type="button"
+                          disabled={!canSend || sendingId != null}
+                          onClick={() => void handleSendEmail(row)}
+                          className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          {sendingId === row.id ? "Enviando..." : stage === "emailed" ? "Reenviar correo" : "Enviar correo"}
+                        </button>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { ComercioWebDeliveryStatus, ComercioWebOrder } from "@/lib/api/comercioWeb";
+import {
+  recordComercioWebDeliveryEvent,
+  updateComercioWebOrderShipment,
+  type ComercioWebDeliveryNotificationResult,
+  type ComercioWebShippingZone,
+} from "@/lib/api/comercioWebDelivery";
+import {
+  DELIVERY_STATUS_LABELS,
+  DELIVERY_STATUS_TRANSITIONS,
+  buildDeliveryCustomerMessage,
+  buildDeliveryWhatsAppLink,
+  currentDeliveryStatus,
+  resolveShippingZone,
+  shippingZoneRate,
+} from "@/lib/comercioWebDelivery";
+import {
+  buildPackingSlipHtml,
+  buildShippingLabelHtml,
+  type DeliveryDocumentCompany,
+  type DeliveryDocumentDestination,
+} from "@/lib/printing/webOrderDelivery";
+
+const CARRIER_SUGGESTIONS = [
+  "Servientrega",
+  "Interrapidísimo",
+  "Coordinadora",
+  "Envía",
+  "TCC",
+  "Deprisa",
+  "Mensajero propio",
+];
+
+type WebOrderDeliveryPanelProps = {
+  token: string;
+  order: ComercioWebOrder;
+  zones: ComercioWebShippingZone[];
+  company: DeliveryDocumentCompany;
+  destination: DeliveryDocumentDestination & { city: string; state: string };
+  canManage: boolean;
+  onOrderUpdated: (order: ComercioWebOrder) => void;
+  onToast: (message: string, tone?: "success" | "error") => void;
+};
+
+type LastNotification = {
+  status: ComercioWebDeliveryStatus;
+  message: string;
+  result: ComercioWebDeliveryNotificationResult | null;
+};
+
+function formatMoney(value: number): string {
+  return value.toLocaleString("es-CO", {
+    style: "currency",
+    currency: "COP",
+    maximumFractionDigits: 0,
+  });
+}
+
+function formatDateTime(value?: string | null): string {
+  if (!value) return "No disponible";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "No disponible";
+  return new Intl.DateTimeFormat("es-CO", {
+    dateStyle: "short",
+    timeStyle: "short",
+  }).format(date);
+}
+
+function deliveryStatusBadgeClass(status: ComercioWebDeliveryStatus): string {
+  switch (status) {
+    case "delivered":
+      return "border-emerald-300 bg-emerald-50 text-emerald-700";
+    case "failed":
+    case "returned":
+      return "border-rose-300 bg-rose-50 text-rose-700";
+    case "pending":
+      return "border-slate-300 bg-slate-100 text-slate-700";
+    default:
+      return "border-sky-300 bg-sky-50 text-sky-700";
+  }
+}
+
+export default function WebOrderDeliveryPanel({
+  token,
+  order,
+  zones,
+  company,
+  destination,
+  canManage,
+  onOrderUpdated,
+  onToast,
+}: WebOrderDeliveryPanelProps) {
+  const shipment = order.shipment ?? null;
+  const status = currentDeliveryStatus(order);
+  const [carrier, setCarrier] = useState(shipment?.carrier ?? "");
+  const [trackingNumber, setTrackingNumber] = useState(shipment?.tracking_number ?? "");
+  const [trackingUrl, setTrackingUrl] = useState(shipment?.tracking_url ?? "");
+  const [zoneId, setZoneId] = useState<number | "">(shipment?.shipping_zone_id ?? "");
+  const [note, setNote] = useState("");
+  const [notifyCustomer, setNotifyCustomer] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lastNotification, setLastNotification] = useState<LastNotification | null>(null);
+
+  const suggestedZone = useMemo(
+    () => resolveShippingZone(zones, destination.city, destination.state),
+    [destination.city, destination.state, zones]
+  );
+  const selectedZone = useMemo(
+    () => zones.find((zone) => zone.id === zoneId) ?? suggestedZone,
+    [suggestedZone, zoneId, zones]
+  );
+  const zoneRate = selectedZone ? shippingZoneRate(selectedZone, order.subtotal) : null;
+  const shipmentDirty =
+    carrier.trim() !== (shipment?.carrier ?? "") ||
+    trackingNumber.trim() !== (shipment?.tracking_number ?? "") ||
+    trackingUrl.trim() !== (shipment?.tracking_url ?? "") ||
+    (zoneId === "" ? null : zoneId) !== (shipment?.shipping_zone_id ?? null);
+  const nextStatuses = DELIVERY_STATUS_TRANSITIONS[status];
+
+  async function handleSaveShipment() {
+    try {
+      setBusy("shipment");
+      setError(null);
+      const updated = await updateComercioWebOrderShipment(token, order.id, {
+        carrier: carrier.trim() || null,
+        tracking_number: trackingNumber.trim() || null,
+        tracking_url: trackingUrl.trim() || null,
+        shipping_zone_id: zoneId === "" ? suggestedZone?.id ?? null : zoneId,
+      });
+      setCarrier(updated.shipment?.carrier ?? "");
+      setTrackingNumber(updated.shipment?.tracking_number ?? "");
+      setTrackingUrl(updated.shipment?.tracking_url ?? "");
+      setZoneId(updated.shipment?.shipping_zone_id ?? "");
+      onOrderUpdated(updated);
+      onToast("Datos de envío guardados.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudieron guardar los datos de envío");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleTransition(nextStatus: ComercioWebDeliveryStatus) {
+    if (nextStatus === "shipped" && !trackingNumber.trim() && carrier.trim() !== "Mensajero propio") {
+      setError("Registra la guía antes de marcar el pedido como despachado.");
+      return;
+    }
+    if (shipmentDirty) {
+      setError("Guarda los datos de envío antes de cambiar el estado.");
+      return;
+    }
+    const message = buildDeliveryCustomerMessage(order, nextStatus, shipment);
+    try {
+      setBusy(`status-${nextStatus}`);
+      setError(null);
+      const result = await recordComercioWebDeliveryEvent(token, order.id, {
+        delivery_status: nextStatus,
+        note: note.trim() || undefined,
+        notify_customer: notifyCustomer,
+        customer_message: notifyCustomer ? message : undefined,
+      });
+      onOrderUpdated(result.order);
+      setNote("");
+      setLastNotification(
+        notifyCustomer ? { status: nextStatus, message, result: result.notification ?? null } : null
+      );
+      if (notifyCustomer && result.notification && !result.notification.sent) {
+        onToast("Estado actualizado, pero no se pudo avisar al cliente.", "error");
+      } else {
+        onToast(`Envío actualizado a ${DELIVERY_STATUS_LABELS[nextStatus].toLowerCase()}.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo actualizar el estado del envío");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function openPrintable(html: string) {
+    const blob = new Blob([html], { type: "text/html;charset=utf-8" });
+    const printUrl = window.URL.createObjectURL(blob);
+    const opened = window.open(printUrl, "_blank");
+    if (!opened) {
+      window.URL.revokeObjectURL(printUrl);
+      onToast("El navegador bloqueó la ventana de impresión. Permite pop-ups e intenta de nuevo.", "error");
+      return;
+    }
+    window.setTimeout(() => {
+      window.URL.revokeObjectURL(printUrl);
+    }, 45000);
+  }
+
+  const whatsappFallback =
+    lastNotification && !lastNotification.result?.sent
+      ? buildDeliveryWhatsAppLink(destination.phone, lastNotification.message)
+      : null;
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-slate-50 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-900">Envío y seguimiento</h3>
+        <span className={`rounded-full border px-2.5 py-1 text-[11px] font-medium ${deliveryStatusBadgeClass(status)}`}>
+          {DELIVERY_STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      <div className="mt-3 grid gap-3 md:grid-cols-2">
+        <label className="flex flex-col gap-1">
+          <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Zona de envío</span>
+          <select
+            value={zoneId}
+            disabled={!canManage}
+            onChange={(event) => setZoneId(event.target.value ? Number(event.target.value) : "")}
+            className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+          >
+            <option value="">
+              {suggestedZone ? `Automática (${suggestedZone.name})` : "Sin zona para este destino"}
+            </option>
+            {zones.map((zone) => (
+              <option key={zone.id} value={zone.id}>
+                {zone.name}
+                {zone.is_active ? "" : " (inactiva)"}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div>
+          <p className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Tarifa</p>
+          {selectedZone && zoneRate != null ? (
+            <p className="mt-1 text-sm text-slate-800">
+              {zoneRate === 0 ? "Envío gratis" : formatMoney(zoneRate)}
+              {selectedZone.estimated_days ? ` · ${selectedZone.estimated_days}` : ""}
+              {zoneRate !== order.shipping_amount ? (
+                <span className="block text-xs text-amber-700">
+                  El cliente pagó {formatMoney(order.shipping_amount)} de envío.
+                </span>
+              ) : null}
+            </p>
+          ) : (
+            <p className="mt-1 text-sm text-slate-500">Cobrado en checkout: {formatMoney(order.shipping_amount)}</p>
+          )}
+        </div>
+        <label className="flex flex-col gap-1">
+          <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Transportadora</span>
+          <input
+            list={`carrier-options-${order.id}`}
+            value={carrier}
+            disabled={!canManage}
+            onChange={(event) => setCarrier(event.target.value)}
+            placeholder="Servientrega, Coordinadora…"
+            className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+          />
+          <datalist id={`carrier-options-${order.id}`}>
+            {CARRIER_SUGGESTIONS.map((item) => (
+              <option key={item} value={item} />
+            ))}
+          </datalist>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Número de guía</span>
+          <input
+            value={trackingNumber}
+            disabled={!canManage}
+            onChange={(event) => setTrackingNumber(event.target.value)}
+            className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+          />
+        </label>
+        <label className="flex flex-col gap-1 md:col-span-2">
+          <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Enlace de rastreo</span>
+          <input
+            value={trackingUrl}
+            disabled={!canManage}
+            onChange={(event) => setTrackingUrl(event.target.value)}
+            placeholder="https://"
+            className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+          />
+        </label>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          type="button"
+          disabled={!canManage || !shipmentDirty || busy !== null}
+          onClick={() => void handleSaveShipment()}
+          className="rounded-2xl bg-slate-900 px-4 py-2 text-sm font-medium text-white transition disabled:cursor-not-allowed disabled:bg-slate-300"
+        >
+          {busy === "shipment" ? "Guardando..." : "Guardar envío"}
+        </button>
+        <button
+          type="button"
+          onClick={() => openPrintable(buildPackingSlipHtml(order, company, destination))}
+          className="rounded-2xl border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 transition hover:border-slate-400"
+        >
+          Lista de empaque
+        </button>
+        <button
+          type="button"
+          disabled={!shipment?.tracking_number}
+          onClick={() => openPrintable(buildShippingLabelHtml(order, company, destination))}
+          className="rounded-2xl border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 transition hover:border-slate-400 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Rótulo de envío
+        </button>
+      </div>
+
+      {nextStatuses.length > 0 ? (
+        <div className="mt-4 border-t border-slate-200 pt-3">
+          <p className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Siguiente estado</p>
+          <input
+            value={note}
+            disabled={!canManage}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="Nota interna (opcional)"
+            className="mt-2 w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+          />
+          <label className="mt-2 flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={notifyCustomer}
+              disabled={!canManage}
+              onChange={(event) => setNotifyCustomer(event.target.checked)}
+            />
+            Avisar al cliente
+          </label>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {nextStatuses.map((nextStatus) => (
+              <button
+                key={nextStatus}
+                type="button"
+                disabled={!canManage || busy !== null}
+                onClick={() => void handleTransition(nextStatus)}
+                className="rounded-2xl border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 transition disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {busy === `status-${nextStatus}` ? "Actualizando..." : DELIVERY_STATUS_LABELS[nextStatus]}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      {lastNotification ? (
+        <div
+          className={`mt-3 rounded-2xl border px-3 py-2 text-xs ${
+            lastNotification.result?.sent
+              ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+              : "border-amber-200 bg-amber-50 text-amber-800"
+          }`}
+        >
+          {lastNotification.result?.sent ? (
+            <p>
+              Cliente avisado por {lastNotification.result.channel === "whatsapp" ? "WhatsApp" : "correo"}.
+            </p>
+          ) : (
+            <p>
+              No se pudo avisar al cliente
+              {lastNotification.result?.error ? `: ${lastNotification.result.error}` : "."}
+              {whatsappFallback ? (
+                <>
+                  {" "}
+                  <a href={whatsappFallback} target="_blank" rel="noreferrer" className="font-semibold underline">
+                    Enviar por WhatsApp
+                  </a>
+                </>
+              ) : null}
+            </p>
+          )}
+        </div>
+      ) : null}
+
+      {shipment?.shipped_at || shipment?.delivered_at ? (
+        <p className="mt-3 text-xs text-slate-500">
+          {shipment.shipped_at ? `Despachado ${formatDateTime(shipment.shipped_at)}` : ""}
+          {shipment.shipped_at && shipment.delivered_at ? " · " : ""}
+          {shipment.delivered_at ? `Entregado ${formatDateTime(shipment.delivered_at)}` : ""}
+        </p>
+      ) : null}
+      {error ? <p className="mt-2 text-sm text-rose-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import {
+  saveComercioWebOrderPicking,
+  type ComercioWebOrder,
+} from "@/lib/api/comercioWeb";
+import {
+  STOCK_RESERVATION_LABELS,
+  applyPickScan,
+  initialPickedQuantities,
+  pickingProgress,
+  type PickedQuantities,
+} from "@/lib/comercioWebPicking";
+
+type WebOrderPickingPanelProps = {
+  token: string;
+  order: ComercioWebOrder;
+  canManage: boolean;
+  busy: boolean;
+  onOrderUpdated: (order: ComercioWebOrder) => void;
+  onMarkReady: (order: ComercioWebOrder) => void;
+  onToast: (message: string, tone?: "success" | "error") => void;
+};
+
+type ScanFeedback = { tone: "success" | "warning" | "error"; message: string };
+
+export default function WebOrderPickingPanel({
+  token,
+  order,
+  canManage,
+  busy,
+  onOrderUpdated,
+  onMarkReady,
+  onToast,
+}: WebOrderPickingPanelProps) {
+  const [picked, setPicked] = useState<PickedQuantities>(() => initialPickedQuantities(order));
+  const [scanValue, setScanValue] = useState("");
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [saving, setSaving] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement | null>(null);
+
+  const progress = useMemo(() => pickingProgress(order.items, picked), [order.items, picked]);
+  const savedPicked = useMemo(() => initialPickedQuantities(order), [order]);
+  const dirty = order.items.some((item) => (picked[item.id] ?? 0) !== (savedPicked[item.id] ?? 0));
+  const reservation = order.stock_reservation_status ?? "none";
+
+  function handleScan() {
+    const code = scanValue.trim();
+    setScanValue("");
+    if (!code) return;
+    const result = applyPickScan(order.items, picked, code);
+    setPicked(result.picked);
+    if (result.outcome === "not_in_order") {
+      setFeedback({ tone: "error", message: `El código ${code} no pertenece a esta orden.` });
+    } else if (result.outcome === "already_complete") {
+      setFeedback({
+        tone: "warning",
+        message: `${result.item?.product_name} ya está completo. Retira la unidad sobrante.`,
+      });
+    } else {
+      const item = result.item!;
+      setFeedback({
+        tone: "success",
+        message: `${item.product_name}: ${result.picked[item.id]} de ${item.quantity}`,
+      });
+    }
+    scanInputRef.current?.focus();
+  }
+
+  function adjustPicked(itemId: number, delta: number, max: number) {
+    setPicked((prev) => ({
+      ...prev,
+      [itemId]: Math.max(0, Math.min(max, (prev[itemId] ?? 0) + delta)),
+    }));
+  }
+
+  async function handleSave(): Promise<ComercioWebOrder | null> {
+    try {
+      setSaving(true);
+      const updated = await saveComercioWebOrderPicking(token, order.id, {
+        items: order.items.map((item) => ({ item_id: item.id, picked_quantity: picked[item.id] ?? 0 })),
+      });
+      onOrderUpdated(updated);
+      return updated;
+    } catch (err) {
+      onToast(err instanceof Error ? err.message : "No se pudo guardar el alistamiento", "error");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSaveAndReady() {
+    const updated = dirty ? await handleSave() : order;
+    if (updated) onMarkReady(updated);
+  }
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-slate-50 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-900">Alistamiento</h3>
+        <div className="flex flex-wrap gap-1.5">
+          <span
+            className={`rounded-full border px-2.5 py-1 text-[11px] font-medium ${
+              reservation === "reserved"
+                ? "border-emerald-300 bg-emerald-50 text-emerald-700"
+                : "border-amber-300 bg-amber-50 text-amber-700"
+            }`}
+          >
+            {STOCK_RESERVATION_LABELS[reservation]}
+          </span>
+          <span
+            className={`rounded-full border px-2.5 py-1 text-[11px] font-medium ${
+              progress.complete
+                ? "border-emerald-300 bg-emerald-50 text-emerald-700"
+                : "border-slate-300 bg-white text-slate-700"
+            }`}
+          >
+            {progress.done} / {progress.required} unidades
+          </span>
+        </div>
+      </div>
+
+      <form
+        className="mt-3 flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          handleScan();
+        }}
+      >
+        <input
+          ref={scanInputRef}
+          value={scanValue}
+          disabled={!canManage}
+          onChange={(event) => setScanValue(event.target.value)}
+          placeholder="Escanea el código de barras o SKU"
+          autoComplete="off"
+          className="min-w-0 flex-1 rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!canManage}
+          className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 disabled:opacity-50"
+        >
+          Verificar
+        </button>
+      </form>
+      {feedback ? (
+        <p
+          className={`mt-2 text-xs font-medium ${
+            feedback.tone === "success"
+              ? "text-emerald-700"
+              : feedback.tone === "warning"
+                ? "text-amber-700"
+                : "text-rose-600"
+          }`}
+        >
+          {feedback.message}
+        </p>
+      ) : null}
+
+      <div className="mt-3 divide-y divide-slate-200 rounded-2xl border border-slate-200 bg-white">
+        {order.items.map((item) => {
+          const qty = picked[item.id] ?? 0;
+          const done = qty >= item.quantity;
+          return (
+            <div key={item.id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <p className={`truncate text-sm font-medium ${done ? "text-emerald-700" : "text-slate-900"}`}>
+                  {done ? "✓ " : ""}
+                  {item.product_name}
+                </p>
+                <p className="text-xs text-slate-500">
+                  SKU {item.product_sku || "sin SKU"}
+                  {item.product_barcode ? ` · ${item.product_barcode}` : ""}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-1.5">
+                <button
+                  type="button"
+                  disabled={!canManage || qty <= 0}
+                  onClick={() => adjustPicked(item.id, -1, item.quantity)}
+                  className="h-7 w-7 rounded-full border border-slate-300 text-sm text-slate-700 disabled:opacity-40"
+                >
+                  −
+                </button>
+                <span className="w-14 text-center text-sm font-semibold tabular-nums text-slate-900">
+                  {qty} / {item.quantity}
+                </span>
+                <button
+                  type="button"
+                  disabled={!canManage || done}
+                  onClick={() => adjustPicked(item.id, 1, item.quantity)}
+                  className="h-7 w-7 rounded-full border border-slate-300 text-sm text-slate-700 disabled:opacity-40"
+                >
+                  +
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          type="button"
+          disabled={!canManage || !dirty || saving || busy}
+          onClick={() => void handleSave()}
+          className="rounded-2xl border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 transition disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {saving ? "Guardando..." : "Guardar avance"}
+        </button>
+        <button
+          type="button"
+          disabled={!canManage || !progress.complete || saving || busy}
+          onClick={() => void handleSaveAndReady()}
+          className="rounded-2xl bg-emerald-600 px-4 py-2 text-sm font-medium text-white transition disabled:cursor-not-allowed disabled:bg-slate-300"
+        >
+          Verificado · marcar lista
+        </button>
+      </div>
+    </div>
+  );
+}
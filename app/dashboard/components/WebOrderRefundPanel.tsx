@@ -0,0 +1,292 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  refundComercioWebPayment,
+  type ComercioWebOrder,
+} from "@/lib/api/comercioWeb";
+import {
+  buildWebRefundPlan,
+  itemRefundUnitAmount,
+  itemRefundedQuantity,
+  paymentRefundableAmount,
+  shippingAlreadyRefunded,
+  submitWebRefund,
+  type WebRefundGateway,
+} from "@/lib/comercioWebRefunds";
+
+const REFUND_REASONS = [
+  "Producto defectuoso",
+  "Producto agotado",
+  "Pedido no entregado",
+  "Cliente desistió de la compra",
+  "Cobro duplicado",
+  "Otro",
+];
+
+type WebOrderRefundPanelProps = {
+  token: string;
+  order: ComercioWebOrder;
+  canManage: boolean;
+  onOrderUpdated: (order: ComercioWebOrder) => void;
+  onToast: (message: string, tone?: "success" | "error") => void;
+};
+
+function formatMoney(value: number): string {
+  return value.toLocaleString("es-CO", {
+    style: "currency",
+    currency: "COP",
+    maximumFractionDigits: 0,
+  });
+}
+
+export default function WebOrderRefundPanel({
+  token,
+  order,
+  canManage,
+  onOrderUpdated,
+  onToast,
+}: WebOrderRefundPanelProps) {
+  const refundablePayments = useMemo(
+    () => order.payments.filter((payment) => paymentRefundableAmount(payment) > 0),
+    [order.payments]
+  );
+  const [open, setOpen] = useState(false);
+  const [paymentId, setPaymentId] = useState<number | null>(refundablePayments[0]?.id ?? null);
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [restock, setRestock] = useState(true);
+  const [includeShipping, setIncludeShipping] = useState(false);
+  const [amountOverride, setAmountOverride] = useState("");
+  const [reasonOption, setReasonOption] = useState(REFUND_REASONS[0]);
+  const [reasonDetail, setReasonDetail] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const payment = refundablePayments.find((item) => item.id === paymentId) ?? refundablePayments[0] ?? null;
+  const overrideValue = Number(amountOverride.replace(/\D/g, "") || 0);
+  const plan = useMemo(
+    () =>
+      payment
+        ? buildWebRefundPlan(order, payment, {
+            quantities,
+            restock,
+            includeShipping,
+            amountOverride: overrideValue > 0 ? overrideValue : null,
+          })
+        : null,
+    [includeShipping, order, overrideValue, payment, quantities, restock]
+  );
+  const hasSelectedItems = Object.values(quantities).some((qty) => qty > 0);
+
+  if (refundablePayments.length === 0) return null;
+
+  function resetForm() {
+    setQuantities({});
+    setIncludeShipping(false);
+    setAmountOverride("");
+    setReasonOption(REFUND_REASONS[0]);
+    setReasonDetail("");
+    setError(null);
+  }
+
+  function selectAll() {
+    setQuantities(
+      Object.fromEntries(
+        order.items.map((item) => [item.id, Math.max(0, item.quantity - itemRefundedQuantity(order, item.id))])
+      )
+    );
+    setIncludeShipping(!shippingAlreadyRefunded(order) && order.shipping_amount > 0);
+    setAmountOverride("");
+  }
+
+  async function handleSubmit() {
+    if (!payment || !plan) return;
+    const reason =
+      reasonOption === "Otro" ? reasonDetail.trim() : [reasonOption, reasonDetail.trim()].filter(Boolean).join(": ");
+    const confirmed = window.confirm(
+      `¿Reembolsar ${formatMoney(plan.amount)} al cliente por ${payment.provider || "el proveedor"}? Esta acción no se puede deshacer.`
+    );
+    if (!confirmed) return;
+    const gateway: WebRefundGateway = {
+      refund: (orderId, targetPaymentId, input) => refundComercioWebPayment(token, orderId, targetPaymentId, input),
+    };
+    try {
+      setSubmitting(true);
+      setError(null);
+      const result = await submitWebRefund(gateway, order, payment, plan, reason);
+      onOrderUpdated(result.order);
+      resetForm();
+      setOpen(false);
+      onToast(
+        result.refund.sale_return_document_number
+          ? `Reembolso registrado. Devolución ${result.refund.sale_return_document_number} enlazada a la venta.`
+          : "Reembolso registrado."
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo registrar el reembolso");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-slate-50 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-slate-900">Reembolsos</h3>
+        <button
+          type="button"
+          disabled={!canManage}
+          onClick={() => {
+            if (open) resetForm();
+            setOpen((prev) => !prev);
+          }}
+          className="rounded-2xl border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 transition disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {open ? "Cancelar" : "Reembolsar"}
+        </button>
+      </div>
+
+      {open && payment && plan ? (
+        <div className="mt-3 space-y-3">
+          {refundablePayments.length > 1 ? (
+            <label className="flex flex-col gap-1">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Pago</span>
+              <select
+                value={payment.id}
+                onChange={(event) => setPaymentId(Number(event.target.value))}
+                className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+              >
+                {refundablePayments.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.provider || "Sin proveedor"} · {item.provider_reference || `#${item.id}`} ·{" "}
+                    {formatMoney(paymentRefundableAmount(item))} disponible
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <p className="text-xs text-slate-600">
+              Pago {payment.provider || "sin proveedor"}
+              {payment.provider_reference ? ` · ${payment.provider_reference}` : ""} · disponible{" "}
+              {formatMoney(plan.refundable)}
+            </p>
+          )}
+
+          <div className="divide-y divide-slate-200 rounded-2xl border border-slate-200 bg-white">
+            {order.items.map((item) => {
+              const remaining = Math.max(0, item.quantity - itemRefundedQuantity(order, item.id));
+              return (
+                <div key={item.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium text-slate-900">{item.product_name}</p>
+                    <p className="text-xs text-slate-500">
+                      {formatMoney(itemRefundUnitAmount(order, item))} c/u · {remaining} de {item.quantity} por reembolsar
+                    </p>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    max={remaining}
+                    disabled={remaining === 0}
+                    value={quantities[item.id] ?? 0}
+                    onChange={(event) =>
+                      setQuantities((prev) => ({
+                        ...prev,
+                        [item.id]: Math.max(0, Math.min(remaining, Math.floor(Number(event.target.value) || 0))),
+                      }))
+                    }
+                    className="w-16 rounded-lg border border-slate-200 px-2 py-1 text-right text-sm text-slate-900 outline-none disabled:bg-slate-100"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-700">
+            <button type="button" onClick={selectAll} className="text-xs font-medium text-emerald-700 hover:underline">
+              Reembolso total
+            </button>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={includeShipping}
+                disabled={shippingAlreadyRefunded(order) || order.shipping_amount <= 0}
+                onChange={(event) => setIncludeShipping(event.target.checked)}
+              />
+              Incluir envío ({formatMoney(order.shipping_amount)})
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={restock}
+                disabled={!hasSelectedItems}
+                onChange={(event) => setRestock(event.target.checked)}
+              />
+              Devolver productos al inventario
+            </label>
+          </div>
+
+          <div className="grid gap-3 md:grid-cols-2">
+            <label className="flex flex-col gap-1">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Monto manual (opcional)
+              </span>
+              <input
+                inputMode="numeric"
+                value={amountOverride}
+                onChange={(event) => setAmountOverride(event.target.value)}
+                placeholder={formatMoney(plan.itemsAmount + plan.shippingAmount)}
+                className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Motivo</span>
+              <select
+                value={reasonOption}
+                onChange={(event) => setReasonOption(event.target.value)}
+                className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+              >
+                {REFUND_REASONS.map((reason) => (
+                  <option key={reason} value={reason}>
+                    {reason}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <input
+            value={reasonDetail}
+            onChange={(event) => setReasonDetail(event.target.value)}
+            placeholder={reasonOption === "Otro" ? "Describe el motivo" : "Detalle (opcional)"}
+            className="w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+          />
+
+          {order.sale_id || order.sale_document_number ? (
+            <p className="text-xs text-slate-600">
+              La orden ya es la venta {order.sale_document_number || `#${order.sale_id}`}: se generará una devolución
+              enlazada a ella.
+            </p>
+          ) : null}
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-slate-700">
+              A reembolsar: <span className="font-semibold text-slate-900">{formatMoney(plan.amount)}</span>
+            </p>
+            <button
+              type="button"
+              disabled={!canManage || submitting || plan.error != null}
+              onClick={() => void handleSubmit()}
+              className="rounded-2xl bg-rose-600 px-4 py-2 text-sm font-medium text-white transition disabled:cursor-not-allowed disabled:bg-slate-300"
+            >
+              {submitting ? "Reembolsando..." : "Confirmar reembolso"}
+            </button>
+          </div>
+          {plan.error && (hasSelectedItems || includeShipping || overrideValue > 0) ? (
+            <p className="text-sm text-amber-700">{plan.error}</p>
+          ) : null}
+        </div>
+      ) : null}
+      {error ? <p className="mt-2 text-sm text-rose-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,460 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  fetchComercioWebOrders,
+  type ComercioWebOrder,
+  type ComercioWebPaymentStatus,
+} from "@/lib/api/comercioWeb";
+import {
+  applyComercioWebReconciliationCorrection,
+  fetchComercioWebReconciliationCorrections,
+  type ComercioWebReconciliationCorrection,
+} from "@/lib/api/comercioWebReconciliation";
+import type { WebCheckoutProvider } from "@/lib/api/webCheckoutPayments";
+import {
+  RECONCILIATION_ACTION_LABELS,
+  RECONCILIATION_KIND_LABELS,
+  parseProviderReport,
+  providerReportRange,
+  reconcileProviderTransactions,
+  summarizeReconciliation,
+  type ProviderReportParseResult,
+  type ReconciliationAction,
+  type ReconciliationKind,
+  type ReconciliationRow,
+} from "@/lib/comercioWebReconciliation";
+
+const PROVIDER_LABELS: Record<WebCheckoutProvider, string> = {
+  wompi: "Wompi",
+  mercadopago: "Mercado Pago",
+};
+
+const PAYMENT_STATUS_LABELS: Record<ComercioWebPaymentStatus, string> = {
+  pending: "Pendiente",
+  approved: "Aprobado",
+  failed: "Rechazado",
+  cancelled: "Cancelado",
+  refunded: "Reembolsado",
+};
+
+/** Margen hacia atrás para traer órdenes creadas antes de que el pago se aprobara. */
+const ORDER_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+type WebPaymentReconciliationPanelProps = {
+  token: string;
+  canApply: boolean;
+  onOrderUpdated: (order: ComercioWebOrder) => void;
+  onOpenOrder: (orderId: number) => void;
+  onToast: (message: string, tone?: "success" | "error") => void;
+};
+
+type CorrectionDraft = { rowKey: string; action: ReconciliationAction; note: string };
+
+function formatMoney(value: number): string {
+  return value.toLocaleString("es-CO", {
+    style: "currency",
+    currency: "COP",
+    maximumFractionDigits: 0,
+  });
+}
+
+function formatDateTime(value?: string | null): string {
+  if (!value) return "No disponible";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "No disponible";
+  return new Intl.DateTimeFormat("es-CO", {
+    dateStyle: "short",
+    timeStyle: "short",
+  }).format(date);
+}
+
+function kindBadgeClass(kind: ReconciliationKind): string {
+  if (kind === "ok") return "border-emerald-300 bg-emerald-50 text-emerald-700";
+  if (kind === "approved_unpaid" || kind === "paid_missing") return "border-rose-300 bg-rose-50 text-rose-700";
+  if (kind === "unmatched") return "border-slate-300 bg-slate-100 text-slate-600";
+  return "border-amber-300 bg-amber-50 text-amber-700";
+}
+
+function rowReference(row: ReconciliationRow): string {
+  return row.transaction?.id || row.transaction?.reference || row.payment?.provider_reference || "";
+}
+
+function availableActions(row: ReconciliationRow): ReconciliationAction[] {
+  const actions: ReconciliationAction[] = [];
+  if (row.kind === "approved_unpaid" && row.order) actions.push("approve_payment");
+  if (row.kind === "paid_missing" && row.payment) actions.push("reject_payment");
+  actions.push("acknowledge");
+  return actions;
+}
+
+export default function WebPaymentReconciliationPanel({
+  token,
+  canApply,
+  onOrderUpdated,
+  onOpenOrder,
+  onToast,
+}: WebPaymentReconciliationPanelProps) {
+  const [providerOverride, setProviderOverride] = useState<WebCheckoutProvider | "">("");
+  const [reportFile, setReportFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ProviderReportParseResult | null>(null);
+  const [orders, setOrders] = useState<ComercioWebOrder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [issuesOnly, setIssuesOnly] = useState(true);
+  const [corrections, setCorrections] = useState<ComercioWebReconciliationCorrection[]>([]);
+  const [draft, setDraft] = useState<CorrectionDraft | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchComercioWebReconciliationCorrections(token, { limit: 50 })
+      .then((rows) => {
+        if (!cancelled) setCorrections(rows);
+      })
+      .catch((err) => console.warn("No se pudo cargar el historial de conciliación", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const rows = useMemo(
+    () =>
+      report?.provider ? reconcileProviderTransactions(report.transactions, orders, report.provider) : [],
+    [orders, report]
+  );
+  const summary = useMemo(() => summarizeReconciliation(rows), [rows]);
+  const visibleRows = issuesOnly ? rows.filter((row) => row.kind !== "ok" && row.kind !== "unmatched") : rows;
+  const correctedReferences = useMemo(
+    () => new Set(corrections.map((item) => `${item.provider}:${item.provider_reference}`)),
+    [corrections]
+  );
+
+  const fileName = reportFile?.name ?? "";
+
+  async function handleFile(file: File, override: WebCheckoutProvider | "") {
+    setReportFile(file);
+    setError(null);
+    setDraft(null);
+    try {
+      setLoading(true);
+      const content = await file.text();
+      const parsed = parseProviderReport(content, file.name, override || null);
+      setReport(parsed);
+      if (!parsed.provider) {
+        setOrders([]);
+        return;
+      }
+      const range = providerReportRange(parsed.transactions);
+      const loaded = await fetchComercioWebOrders(token, {
+        date_from: range ? new Date(new Date(range.from).getTime() - ORDER_LOOKBACK_MS).toISOString() : undefined,
+        date_to: range?.to,
+        limit: 500,
+      });
+      setOrders(loaded);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo procesar el reporte");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleApply(row: ReconciliationRow) {
+    if (!draft || !report?.provider) return;
+    const note = draft.note.trim();
+    if (!note) {
+      setError("Escribe el motivo de la corrección para la auditoría.");
+      return;
+    }
+    try {
+      setApplying(true);
+      setError(null);
+      const result = await applyComercioWebReconciliationCorrection(token, {
+        action: draft.action,
+        kind: row.kind,
+        provider: report.provider,
+        provider_reference: rowReference(row),
+        provider_transaction_id: row.transaction?.id || null,
+        provider_status: row.transaction?.providerStatus ?? null,
+        order_id: row.order?.id ?? null,
+        payment_id: row.payment?.id ?? null,
+        amount: row.transaction?.amount ?? row.payment?.amount ?? 0,
+        note,
+        source_file: fileName || null,
+      });
+      setCorrections((prev) => [result.correction, ...prev]);
+      const updatedOrder = result.order;
+      if (updatedOrder) {
+        setOrders((prev) => prev.map((item) => (item.id === updatedOrder.id ? updatedOrder : item)));
+        onOrderUpdated(updatedOrder);
+      }
+      setDraft(null);
+      onToast("Corrección aplicada y registrada en auditoría.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo aplicar la corrección");
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] font-semibold uppercase tracking-[0.16em] text-slate-500">Proveedor</span>
+          <select
+            value={providerOverride}
+            onChange={(event) => {
+              const value = event.target.value as WebCheckoutProvider | "";
+              setProviderOverride(value);
+              if (reportFile) void handleFile(reportFile, value);
+            }}
+            className="rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none"
+          >
+            <option value="">Detectar automáticamente</option>
+            <option value="wompi">Wompi</option>
+            <option value="mercadopago">Mercado Pago</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] font-semibold uppercase tracking-[0.16em] text-slate-500">
+            Reporte de transacciones (CSV o JSON)
+          </span>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) void handleFile(file, providerOverride);
+              event.target.value = "";
+            }}
+            className="text-sm text-slate-700"
+          />
+        </label>
+        {loading ? <p className="text-sm text-slate-500">Cruzando transacciones…</p> : null}
+      </div>
+
+      {report ? (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-600">
+            {fileName} · {report.provider ? PROVIDER_LABELS[report.provider] : "Proveedor sin identificar"} ·{" "}
+            {report.transactions.length} transacción(es) · {orders.length} orden(es) cargadas
+          </p>
+          {report.errors.length > 0 ? (
+            <ul className="list-disc pl-5 text-xs text-amber-700">
+              {report.errors.slice(0, 5).map((item) => (
+                <li key={item}>{item}</li>
+              ))}
+              {report.errors.length > 5 ? <li>Y {report.errors.length - 5} más.</li> : null}
+            </ul>
+          ) : null}
+
+          {rows.length > 0 ? (
+            <>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {(Object.keys(summary) as ReconciliationKind[])
+                  .filter((kind) => summary[kind] > 0)
+                  .map((kind) => (
+                    <span
+                      key={kind}
+                      className={`rounded-full border px-2.5 py-1 text-[11px] font-medium ${kindBadgeClass(kind)}`}
+                    >
+                      {RECONCILIATION_KIND_LABELS[kind]}: {summary[kind]}
+                    </span>
+                  ))}
+                <label className="ml-auto flex items-center gap-2 text-xs text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={issuesOnly}
+                    onChange={(event) => setIssuesOnly(event.target.checked)}
+                  />
+                  Solo diferencias
+                </label>
+              </div>
+
+              <div className="overflow-x-auto rounded-xl border border-slate-200">
+                <table className="min-w-full text-sm">
+                  <thead className="border-b border-slate-200 bg-slate-50 text-left text-xs uppercase tracking-[0.18em] text-slate-500">
+                    <tr>
+                      <th className="px-3 py-3">Resultado</th>
+                      <th className="px-3 py-3">Referencia</th>
+                      <th className="px-3 py-3">Proveedor</th>
+                      <th className="px-3 py-3">Registrado</th>
+                      <th className="px-3 py-3">Orden</th>
+                      <th className="px-3 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-3 py-4 text-sm text-emerald-700">
+                          Sin diferencias entre el reporte y los pagos registrados.
+                        </td>
+                      </tr>
+                    ) : (
+                      visibleRows.map((row) => {
+                        const reference = rowReference(row);
+                        const corrected = report.provider
+                          ? correctedReferences.has(`${report.provider}:${reference}`)
+                          : false;
+                        const editing = draft?.rowKey === row.key;
+                        return (
+                          <tr key={row.key} className="border-b border-slate-100 align-top">
+                            <td className="px-3 py-3">
+                              <span
+                                className={`rounded-full border px-2 py-1 text-[11px] font-medium ${kindBadgeClass(row.kind)}`}
+                              >
+                                {RECONCILIATION_KIND_LABELS[row.kind]}
+                              </span>
+                            </td>
+                            <td className="px-3 py-3 font-mono text-xs text-slate-600">
+                              {reference || "-"}
+                              {row.transaction?.reference && row.transaction.reference !== reference ? (
+                                <div className="text-slate-400">{row.transaction.reference}</div>
+                              ) : null}
+                            </td>
+                            <td className="px-3 py-3 text-slate-700">
+                              {row.transaction ? (
+                                <>
+                                  {row.transaction.providerStatus || "-"} · {formatMoney(row.transaction.amount)}
+                                  <div className="text-xs text-slate-500">{formatDateTime(row.transaction.createdAt)}</div>
+                                </>
+                              ) : (
+                                <span className="text-xs text-rose-600">No aparece en el reporte</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-3 text-slate-700">
+                              {row.payment ? (
+                                <>
+                                  {PAYMENT_STATUS_LABELS[row.payment.status] ?? row.payment.status} ·{" "}
+                                  {formatMoney(row.payment.amount)}
+                                </>
+                              ) : (
+                                <span className="text-xs text-slate-500">Sin pago</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-3">
+                              {row.order ? (
+                                <button
+                                  type="button"
+                                  onClick={() => onOpenOrder(row.order!.id)}
+                                  className="font-medium text-slate-900 hover:text-emerald-700"
+                                >
+                                  {row.order.document_number || `Orden #${row.order.id}`}
+                                </button>
+                              ) : (
+                                <span className="text-xs text-slate-500">Sin orden</span>
+                              )}
+                            </td>
+                            <td className="px-3 py-3 text-right">
+                              {corrected ? (
+                                <span className="text-xs font-medium text-emerald-700">Corrección registrada</span>
+                              ) : row.kind !== "ok" && row.kind !== "unmatched" && canApply && !editing ? (
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    setDraft({
+                                      rowKey: row.key,
+                                      action: row.suggestedAction ?? availableActions(row)[0],
+                                      note: "",
+                                    })
+                                  }
+                                  className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-medium text-slate-700 hover:border-slate-400"
+                                >
+                                  Corregir
+                                </button>
+                              ) : null}
+                              {editing && draft ? (
+                                <div className="mt-1 flex min-w-[260px] flex-col gap-2 text-left">
+                                  <select
+                                    value={draft.action}
+                                    onChange={(event) =>
+                                      setDraft({ ...draft, action: event.target.value as ReconciliationAction })
+                                    }
+                                    className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-900 outline-none"
+                                  >
+                                    {availableActions(row).map((action) => (
+                                      <option key={action} value={action}>
+                                        {RECONCILIATION_ACTION_LABELS[action]}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <input
+                                    value={draft.note}
+                                    onChange={(event) => setDraft({ ...draft, note: event.target.value })}
+                                    placeholder="Motivo (queda en auditoría)"
+                                    className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-900 outline-none"
+                                  />
+                                  <div className="flex gap-2">
+                                    <button
+                                      type="button"
+                                      disabled={applying}
+                                      onClick={() => void handleApply(row)}
+                                      className="rounded-lg bg-slate-900 px-2.5 py-1 text-xs font-medium text-white disabled:bg-slate-300"
+                                    >
+                                      {applying ? "Aplicando..." : "Aplicar"}
+                                    </button>
+                                    <button
+                                      type="button"
+                                      onClick={() => setDraft(null)}
+                                      className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-medium text-slate-700"
+                                    >
+                                      Cancelar
+                                    </button>
+                                  </div>
+                                </div>
+                              ) : null}
+                            </td>
+                          </tr>
+                        );
+                      })
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : null}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">
+          Descarga el reporte de transacciones del panel de Wompi o Mercado Pago y cárgalo aquí para compararlo con
+          los pagos registrados.
+        </p>
+      )}
+      {error ? <p className="text-sm text-rose-600">{error}</p> : null}
+
+      <div>
+        <h3 className="text-sm font-semibold text-slate-900">Auditoría de correcciones</h3>
+        {corrections.length === 0 ? (
+          <p className="mt-2 text-sm text-slate-500">Aún no hay correcciones registradas.</p>
+        ) : (
+          <div className="mt-2 max-h-72 space-y-2 overflow-y-auto">
+            {corrections.map((item) => (
+              <div key={item.id} className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="font-medium text-slate-900">
+                    {RECONCILIATION_ACTION_LABELS[item.action]} · {item.order_document_number || "Sin orden"}
+                  </p>
+                  <span className="text-slate-500">{formatDateTime(item.created_at)}</span>
+                </div>
+                <p className="mt-1 text-slate-600">
+                  {PROVIDER_LABELS[item.provider] ?? item.provider} · {item.provider_reference} ·{" "}
+                  {formatMoney(item.amount)}
+                  {item.previous_status || item.new_status
+                    ? ` · ${item.previous_status ? PAYMENT_STATUS_LABELS[item.previous_status] : "sin pago"} → ${
+                        item.new_status ? PAYMENT_STATUS_LABELS[item.new_status] : "sin cambio"
+                      }`
+                    : ""}
+                </p>
+                <p className="mt-1 text-slate-700">
+                  {item.note}
+                  {item.created_by_user_name ? ` — ${item.created_by_user_name}` : ""}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { useState } from "react";
+import {
+  createComercioWebShippingZone,
+  deleteComercioWebShippingZone,
+  updateComercioWebShippingZone,
+  type ComercioWebShippingZone,
+  type ComercioWebShippingZoneInput,
+} from "@/lib/api/comercioWebDelivery";
+
+type WebShippingZonesPanelProps = {
+  token: string;
+  zones: ComercioWebShippingZone[];
+  canManage: boolean;
+  onZonesChange: (zones: ComercioWebShippingZone[]) => void;
+  onToast: (message: string, tone?: "success" | "error") => void;
+};
+
+type ZoneFormState = {
+  name: string;
+  department: string;
+  cities: string;
+  rate: string;
+  free_from_amount: string;
+  estimated_days: string;
+  is_active: boolean;
+};
+
+const emptyZoneForm: ZoneFormState = {
+  name: "",
+  department: "",
+  cities: "",
+  rate: "",
+  free_from_amount: "",
+  estimated_days: "",
+  is_active: true,
+};
+
+function formatMoney(value: number): string {
+  return value.toLocaleString("es-CO", {
+    style: "currency",
+    currency: "COP",
+    maximumFractionDigits: 0,
+  });
+}
+
+function zoneToForm(zone: ComercioWebShippingZone): ZoneFormState {
+  return {
+    name: zone.name,
+    department: zone.department ?? "",
+    cities: zone.cities.join(", "),
+    rate: String(zone.rate),
+    free_from_amount: zone.free_from_amount != null ? String(zone.free_from_amount) : "",
+    estimated_days: zone.estimated_days ?? "",
+    is_active: zone.is_active,
+  };
+}
+
+function formToInput(form: ZoneFormState): ComercioWebShippingZoneInput {
+  const freeFrom = form.free_from_amount.replace(/\D/g, "");
+  return {
+    name: form.name.trim(),
+    department: form.department.trim() || null,
+    cities: form.cities
+      .split(/[,\n]/)
+      .map((city) => city.trim())
+      .filter(Boolean),
+    rate: Number(form.rate.replace(/\D/g, "") || 0),
+    free_from_amount: freeFrom ? Number(freeFrom) : null,
+    estimated_days: form.estimated_days.trim() || null,
+    is_active: form.is_active,
+  };
+}
+
+export default function WebShippingZonesPanel({
+  token,
+  zones,
+  canManage,
+  onZonesChange,
+  onToast,
+}: WebShippingZonesPanelProps) {
+  const [editingId, setEditingId] = useState<number | "new" | null>(null);
+  const [form, setForm] = useState<ZoneFormState>(emptyZoneForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function startEdit(zone: ComercioWebShippingZone | null) {
+    setEditingId(zone ? zone.id : "new");
+    setForm(zone ? zoneToForm(zone) : emptyZoneForm);
+    setError(null);
+  }
+
+  async function handleSave() {
+    const input = formToInput(form);
+    if (!input.name) {
+      setError("La zona necesita un nombre.");
+      return;
+    }
+    if (!input.department && input.cities.length === 0) {
+      setError("Indica un departamento o al menos una ciudad.");
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingId === "new") {
+        const created = await createComercioWebShippingZone(token, input);
+        onZonesChange([...zones, created]);
+      } else if (editingId != null) {
+        const updated = await updateComercioWebShippingZone(token, editingId, input);
+        onZonesChange(zones.map((zone) => (zone.id === updated.id ? updated : zone)));
+      }
+      setEditingId(null);
+      onToast("Zona de envío guardada.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo guardar la zona");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(zone: ComercioWebShippingZone) {
+    if (!window.confirm(`¿Eliminar la zona "${zone.name}"?`)) return;
+    try {
+      setSaving(true);
+      await deleteComercioWebShippingZone(token, zone.id);
+      onZonesChange(zones.filter((item) => item.id !== zone.id));
+      if (editingId === zone.id) setEditingId(null);
+      onToast("Zona eliminada.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo eliminar la zona");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const inputClassName =
+    "rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-sm text-slate-900 outline-none";
+
+  return (
+    <div className="space-y-3">
+      {zones.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          Sin zonas configuradas. El costo de envío queda como lo calculó el checkout.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white">
+          <table className="w-full min-w-[640px] text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-left text-[11px] uppercase tracking-[0.12em] text-slate-500">
+                <th className="px-3 py-2">Zona</th>
+                <th className="px-3 py-2">Cobertura</th>
+                <th className="px-3 py-2 text-right">Tarifa</th>
+                <th className="px-3 py-2 text-right">Gratis desde</th>
+                <th className="px-3 py-2">Tiempo</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {zones.map((zone) => (
+                <tr key={zone.id} className={zone.is_active ? "" : "opacity-60"}>
+                  <td className="px-3 py-2 font-medium text-slate-900">
+                    {zone.name}
+                    {zone.is_active ? null : <span className="ml-1 text-xs text-slate-500">(inactiva)</span>}
+                  </td>
+                  <td className="px-3 py-2 text-slate-700">
+                    {zone.cities.length > 0 ? zone.cities.join(", ") : "Todo el departamento"}
+                    {zone.department ? <span className="block text-xs text-slate-500">{zone.department}</span> : null}
+                  </td>
+                  <td className="px-3 py-2 text-right">{formatMoney(zone.rate)}</td>
+                  <td className="px-3 py-2 text-right">
+                    {zone.free_from_amount != null ? formatMoney(zone.free_from_amount) : "-"}
+                  </td>
+                  <td className="px-3 py-2 text-slate-700">{zone.estimated_days || "-"}</td>
+                  <td className="px-3 py-2 text-right">
+                    {canManage ? (
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => startEdit(zone)}
+                          className="text-xs font-medium text-emerald-700 hover:underline"
+                        >
+                          Editar
+                        </button>
+                        <button
+                          type="button"
+                          disabled={saving}
+                          onClick={() => void handleDelete(zone)}
+                          className="text-xs font-medium text-rose-600 hover:underline disabled:opacity-50"
+                        >
+                          Eliminar
+                        </button>
+                      </div>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editingId != null ? (
+        <div className="rounded-2xl border border-slate-200 bg-slate-50 p-3">
+          <div className="grid gap-3 md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Nombre</span>
+              <input
+                value={form.name}
+                onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+                placeholder="Área metropolitana"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Departamento</span>
+              <input
+                value={form.department}
+                onChange={(event) => setForm((prev) => ({ ...prev, department: event.target.value }))}
+                placeholder="Antioquia"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Ciudades (vacío = todo el departamento)
+              </span>
+              <input
+                value={form.cities}
+                onChange={(event) => setForm((prev) => ({ ...prev, cities: event.target.value }))}
+                placeholder="Medellín, Envigado, Itagüí"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">Tarifa</span>
+              <input
+                inputMode="numeric"
+                value={form.rate}
+                onChange={(event) => setForm((prev) => ({ ...prev, rate: event.target.value }))}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Envío gratis desde
+              </span>
+              <input
+                inputMode="numeric"
+                value={form.free_from_amount}
+                onChange={(event) => setForm((prev) => ({ ...prev, free_from_amount: event.target.value }))}
+                placeholder="Sin envío gratis"
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.12em] text-slate-500">
+                Tiempo estimado
+              </span>
+              <input
+                value={form.estimated_days}
+                onChange={(event) => setForm((prev) => ({ ...prev, estimated_days: event.target.value }))}
+                placeholder="1 a 2 días hábiles"
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <label className="mt-3 flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(event) => setForm((prev) => ({ ...prev, is_active: event.target.checked }))}
+            />
+            Zona activa
+          </label>
+          <div className="mt-3 flex gap-2">
+            <button
+              type="button"
+              disabled={saving}
+              onClick={() => void handleSave()}
+              className="rounded-lg bg-slate-900 px-3 py-1.5 text-sm font-medium text-white transition hover:bg-slate-800 disabled:bg-slate-300"
+            >
+              {saving ? "Guardando..." : "Guardar zona"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700"
+            >
+              Cancelar
+            </button>
+          </div>
+        </div>
+      ) : canManage ? (
+        <button
+          type="button"
+          onClick={() => startEdit(null)}
+          className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 transition hover:border-slate-400"
+        >
+          Nueva zona
+        </button>
+      ) : null}
+      {error ? <p className="text-sm text-rose-600">{error}</p> : null}
+    </div>
+  );
+}
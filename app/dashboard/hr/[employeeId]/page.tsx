@@ -27,6 +27,7 @@ import { defaultRolePermissions, fetchRolePermissions } from "@/lib/api/settings
 import { getApiBase } from "@/lib/api/base";
 
 type PayrollFrequency = "diario" | "semanal" | "mensual";
+type PayrollPayType = "fijo" | "por_hora";
 
 type EmployeeFormState = {
   name: string;
@@ -39,6 +40,7 @@ type EmployeeFormState = {
   bio: string;
   notes: string;
   payroll_frequency: PayrollFrequency;
+  payroll_pay_type: PayrollPayType;
   payroll_amount: string;
   payroll_currency: string;
   payroll_payment_method: string;
@@ -76,6 +78,7 @@ function toFormState(employee: HrEmployeeRecord): EmployeeFormState {
     bio: employee.bio || "",
     notes: employee.notes || "",
     payroll_frequency: employee.payroll_frequency || "mensual",
+    payroll_pay_type: employee.payroll_pay_type || "fijo",
     payroll_amount:
       employee.payroll_amount === null || employee.payroll_amount === undefined
         ? ""
@@ -486,6 +489,7 @@ export default function HrEmployeeDetailPage() {
           bio: form.bio.trim() || null,
           notes: form.notes.trim() || null,
           payroll_frequency: form.payroll_frequency,
+          payroll_pay_type: form.payroll_pay_type,
           payroll_amount: form.payroll_amount.trim()
             ? Number(form.payroll_amount)
             : null,
@@ -1076,7 +1080,23 @@ export default function HrEmployeeDetailPage() {
                     </select>
                   </label>
                   <label className="text-sm">
-                    <span className="block mb-1 ui-text-muted">Monto</span>
+                    <span className="block mb-1 ui-text-muted">Tipo de pago</span>
+                    <select
+                      value={form.payroll_pay_type}
+                      onChange={(event) =>
+                        handleChange("payroll_pay_type", event.target.value as PayrollPayType)
+                      }
+                      className="w-full rounded-lg border ui-border bg-white/80 px-3 py-2"
+                      disabled={!canEditFields}
+                    >
+                      <option value="fijo">Fijo por periodo</option>
+                      <option value="por_hora">Por hora (turnos del horario)</option>
+                    </select>
+                  </label>
+                  <label className="text-sm">
+                    <span className="block mb-1 ui-text-muted">
+                      {form.payroll_pay_type === "por_hora" ? "Valor hora" : "Monto"}
+                    </span>
                     <input
                       type="number"
                       min="0"
@@ -0,0 +1,837 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { useAuth } from "../../../providers/AuthProvider";
+import {
+  fetchHrEmployees,
+  type HrEmployeeRecord,
+  type SystemRole,
+} from "@/lib/api/hr";
+import {
+  createCommissionRule,
+  deleteCommissionRule,
+  fetchCommissionCatalog,
+  fetchCommissionReturns,
+  fetchCommissionRules,
+  fetchCommissionSale,
+  fetchCommissionSales,
+  fetchCommissionStatements,
+  saveCommissionStatement,
+  updateCommissionRule,
+  type CommissionRule,
+  type CommissionRulePayload,
+  type CommissionRuleScope,
+  type CommissionStatementRecord,
+} from "@/lib/api/commissions";
+import {
+  buildCommissionStatements,
+  commissionPeriodRange,
+  enrichCommissionSales,
+  type CommissionStatement,
+} from "@/lib/pos/commissions";
+import { fetchPayrollRuns, updatePayrollRun } from "@/lib/api/payroll";
+import { withCommissionEarning } from "@/lib/hr/payroll";
+import { defaultRolePermissions, fetchRolePermissions } from "@/lib/api/settings";
+import { buildBogotaDateFromKey, getBogotaDateKey } from "@/lib/time/bogota";
+
+type RuleFormState = {
+  name: string;
+  seller_role: SystemRole | "";
+  scope: CommissionRuleScope;
+  scope_value: string;
+  tiers: Array<{ min_amount: string; rate_percent: string }>;
+  exclude_discounted: boolean;
+  exclude_free_sale_items: boolean;
+  active: boolean;
+};
+
+const emptyRuleForm: RuleFormState = {
+  name: "",
+  seller_role: "",
+  scope: "all",
+  scope_value: "",
+  tiers: [{ min_amount: "0", rate_percent: "" }],
+  exclude_discounted: true,
+  exclude_free_sale_items: true,
+  active: true,
+};
+
+const SCOPE_LABELS: Record<CommissionRuleScope, string> = {
+  all: "Todos los productos",
+  product_group: "Grupo",
+  brand: "Marca",
+};
+
+const SELLER_ROLES: SystemRole[] = ["Vendedor", "Supervisor", "Administrador"];
+
+function formatMoney(value?: number | null): string {
+  return `$${Math.round(value ?? 0).toLocaleString("es-CO")}`;
+}
+
+function formatDateTime(value?: string | null): string {
+  if (!value) return "-";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString("es-CO", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function toRuleForm(rule: CommissionRule): RuleFormState {
+  return {
+    name: rule.name,
+    seller_role: rule.seller_role ?? "",
+    scope: rule.scope,
+    scope_value: rule.scope_value ?? "",
+    tiers: rule.tiers.map((tier) => ({
+      min_amount: String(tier.min_amount),
+      rate_percent: String(tier.rate_percent),
+    })),
+    exclude_discounted: rule.exclude_discounted,
+    exclude_free_sale_items: rule.exclude_free_sale_items,
+    active: rule.active,
+  };
+}
+
+function toRulePayload(form: RuleFormState): CommissionRulePayload | string {
+  const name = form.name.trim();
+  if (!name) return "Ponle un nombre a la regla.";
+  if (form.scope !== "all" && !form.scope_value.trim()) {
+    return form.scope === "brand" ? "Indica la marca." : "Indica el grupo de productos.";
+  }
+  const tiers = form.tiers
+    .filter((tier) => tier.rate_percent.trim() !== "")
+    .map((tier) => ({
+      min_amount: Number(tier.min_amount || 0),
+      rate_percent: Number(tier.rate_percent),
+    }));
+  if (!tiers.length) return "Agrega al menos un porcentaje.";
+  if (
+    tiers.some(
+      (tier) =>
+        !Number.isFinite(tier.min_amount) ||
+        tier.min_amount < 0 ||
+        !Number.isFinite(tier.rate_percent) ||
+        tier.rate_percent < 0 ||
+        tier.rate_percent > 100
+    )
+  ) {
+    return "Revisa los escalones: montos positivos y porcentajes entre 0 y 100.";
+  }
+  return {
+    name,
+    seller_role: form.seller_role || null,
+    scope: form.scope,
+    scope_value: form.scope === "all" ? null : form.scope_value.trim(),
+    tiers: tiers.sort((a, b) => a.min_amount - b.min_amount),
+    exclude_discounted: form.exclude_discounted,
+    exclude_free_sale_items: form.exclude_free_sale_items,
+    active: form.active,
+  };
+}
+
+function describeTiers(rule: CommissionRule): string {
+  return rule.tiers
+    .map((tier) =>
+      tier.min_amount > 0
+        ? `${tier.rate_percent}% desde ${formatMoney(tier.min_amount)}`
+        : `${tier.rate_percent}%`
+    )
+    .join(" · ");
+}
+
+function currentPeriod(): string {
+  return getBogotaDateKey().slice(0, 7);
+}
+
+export default function HrCommissionsPage() {
+  const { token, user } = useAuth();
+  const [canManage, setCanManage] = useState(false);
+  const [employees, setEmployees] = useState<HrEmployeeRecord[]>([]);
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [rulesLoading, setRulesLoading] = useState(true);
+  const [rulesError, setRulesError] = useState<string | null>(null);
+  const [ruleForm, setRuleForm] = useState<RuleFormState>(emptyRuleForm);
+  const [editingRuleId, setEditingRuleId] = useState<number | null>(null);
+  const [ruleFormOpen, setRuleFormOpen] = useState(false);
+  const [savingRule, setSavingRule] = useState(false);
+
+  const [period, setPeriod] = useState(currentPeriod);
+  const [statements, setStatements] = useState<CommissionStatement[] | null>(null);
+  const [savedStatements, setSavedStatements] = useState<CommissionStatementRecord[]>([]);
+  const [calculating, setCalculating] = useState(false);
+  const [statementError, setStatementError] = useState<string | null>(null);
+  const [payingEmployeeId, setPayingEmployeeId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    Promise.resolve().then(() => {
+      if (cancelled) return;
+      setRulesLoading(true);
+      setRulesError(null);
+    });
+
+    fetchRolePermissions(token)
+      .then((modules) => {
+        if (cancelled) return;
+        const hrModule =
+          modules.find((module) => module.id === "hr") ??
+          defaultRolePermissions.find((module) => module.id === "hr");
+        const manageAction = hrModule?.actions.find((action) => action.id === "hr.manage");
+        const role = user?.role as SystemRole | undefined;
+        setCanManage(Boolean(role && manageAction?.roles?.[role]));
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setCanManage(false);
+      });
+
+    Promise.all([fetchCommissionRules(token), fetchHrEmployees(token)])
+      .then(([ruleRows, employeeRows]) => {
+        if (cancelled) return;
+        setRules(ruleRows);
+        setEmployees(employeeRows);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setRulesError(err instanceof Error ? err.message : "Error al cargar las reglas.");
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setRulesLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, user?.role]);
+
+  const employeesById = useMemo(
+    () => new Map(employees.map((employee) => [employee.id, employee])),
+    [employees]
+  );
+
+  const savedByEmployee = useMemo(
+    () => new Map(savedStatements.map((record) => [record.employee_id, record])),
+    [savedStatements]
+  );
+
+  const totals = useMemo(() => {
+    if (!statements) return null;
+    return statements.reduce(
+      (acc, statement) => ({
+        base: acc.base + statement.grossBase - statement.returnedBase,
+        payable: acc.payable + statement.payable,
+      }),
+      { base: 0, payable: 0 }
+    );
+  }, [statements]);
+
+  function openNewRule() {
+    setEditingRuleId(null);
+    setRuleForm(emptyRuleForm);
+    setRuleFormOpen(true);
+    setRulesError(null);
+  }
+
+  function openEditRule(rule: CommissionRule) {
+    setEditingRuleId(rule.id);
+    setRuleForm(toRuleForm(rule));
+    setRuleFormOpen(true);
+    setRulesError(null);
+  }
+
+  async function handleSaveRule(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!token) return;
+    const payload = toRulePayload(ruleForm);
+    if (typeof payload === "string") {
+      setRulesError(payload);
+      return;
+    }
+    try {
+      setSavingRule(true);
+      setRulesError(null);
+      if (editingRuleId) {
+        const updated = await updateCommissionRule(editingRuleId, payload, token);
+        setRules((prev) => prev.map((rule) => (rule.id === updated.id ? updated : rule)));
+      } else {
+        const created = await createCommissionRule(payload, token);
+        setRules((prev) => [...prev, created]);
+      }
+      setRuleFormOpen(false);
+      setEditingRuleId(null);
+    } catch (err) {
+      setRulesError(err instanceof Error ? err.message : "No se pudo guardar la regla.");
+    } finally {
+      setSavingRule(false);
+    }
+  }
+
+  async function handleDeleteRule(rule: CommissionRule) {
+    if (!token) return;
+    if (!window.confirm(`¿Eliminar la regla "${rule.name}"?`)) return;
+    try {
+      await deleteCommissionRule(rule.id, token);
+      setRules((prev) => prev.filter((item) => item.id !== rule.id));
+    } catch (err) {
+      setRulesError(err instanceof Error ? err.message : "No se pudo eliminar la regla.");
+    }
+  }
+
+  async function handleCalculate() {
+    if (!token) return;
+    const range = commissionPeriodRange(period);
+    if (!range) {
+      setStatementError("Selecciona un mes válido.");
+      return;
+    }
+    const start = buildBogotaDateFromKey(range.fromKey);
+    const end = buildBogotaDateFromKey(range.toKey);
+    end.setUTCDate(end.getUTCDate() + 1);
+    const window = {
+      from: start.toISOString().slice(0, 19),
+      to: end.toISOString().slice(0, 19),
+    };
+    try {
+      setCalculating(true);
+      setStatementError(null);
+      const [periodSales, periodReturns, catalog, saved] = await Promise.all([
+        fetchCommissionSales(window.from, window.to, token),
+        fetchCommissionReturns(window.from, window.to, token),
+        fetchCommissionCatalog(token),
+        fetchCommissionStatements(period, token),
+      ]);
+      // Las devoluciones del mes sobre ventas de meses anteriores también descuentan.
+      const loadedSaleIds = new Set(periodSales.map((sale) => sale.id));
+      const earlierSaleIds = Array.from(
+        new Set(periodReturns.map((ret) => ret.sale_id).filter((id) => !loadedSaleIds.has(id)))
+      );
+      const earlierSales = await Promise.all(
+        earlierSaleIds.map((saleId) => fetchCommissionSale(saleId, token))
+      );
+      const sales = enrichCommissionSales([...periodSales, ...earlierSales], catalog);
+      const sellers = employees.map((employee) => ({
+        name: employee.name,
+        employeeId: employee.id,
+        role: employee.system_user?.role ?? null,
+      }));
+      setStatements(buildCommissionStatements(sales, rules, sellers, { window }));
+      setSavedStatements(saved);
+    } catch (err) {
+      setStatementError(
+        err instanceof Error ? err.message : "No se pudo calcular la liquidación."
+      );
+    } finally {
+      setCalculating(false);
+    }
+  }
+
+  async function handleRegisterPayment(statement: CommissionStatement) {
+    if (!token || !statement.employeeId) return;
+    const employeeId = statement.employeeId;
+    const paidAt = new Date().toISOString();
+    try {
+      setPayingEmployeeId(employeeId);
+      setStatementError(null);
+      const pendingRuns = await fetchPayrollRuns(token, { status: "pending", employeeId });
+      const run = [...pendingRuns].sort((a, b) => a.due_date.localeCompare(b.due_date))[0];
+      if (!run) {
+        throw new Error(
+          "El empleado no tiene un pago de nómina pendiente. Genéralo en Nómina y vuelve a intentarlo."
+        );
+      }
+      await updatePayrollRun(
+        run.id,
+        withCommissionEarning(run, period, statement.payable),
+        token
+      );
+      const record = await saveCommissionStatement(
+        period,
+        employeeId,
+        {
+          seller_name: statement.sellerName,
+          base_amount: statement.grossBase - statement.returnedBase,
+          returned_amount: statement.returnedBase,
+          payable_amount: statement.payable,
+          lines: statement.lines,
+          paid_at: paidAt,
+        },
+        token
+      );
+      setSavedStatements((prev) => [
+        ...prev.filter((item) => item.employee_id !== employeeId),
+        record,
+      ]);
+    } catch (err) {
+      setStatementError(err instanceof Error ? err.message : "No se pudo pasar la comisión a nómina.");
+    } finally {
+      setPayingEmployeeId(null);
+    }
+  }
+
+  return (
+    <section className="space-y-4">
+      <header>
+        <Link href="/dashboard/hr" prefetch={false} className="text-sm ui-text-muted hover:underline">
+          ← Recursos humanos
+        </Link>
+        <h1 className="mt-1 text-3xl font-bold tracking-tight">Comisiones</h1>
+        <p className="ui-text-muted mt-1">
+          Reglas por rol, grupo o marca y liquidación mensual sobre ventas netas de devoluciones.
+        </p>
+      </header>
+
+      <article className="rounded-2xl border ui-border dashboard-card overflow-hidden">
+        <div className="px-4 py-3 border-b ui-border flex items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold">Reglas</h2>
+            <p className="text-xs ui-text-muted">
+              Cada línea usa la regla más específica: marca, luego grupo, luego general.
+            </p>
+          </div>
+          {canManage && (
+            <button
+              type="button"
+              onClick={openNewRule}
+              className="rounded-md border ui-border px-3 py-2 text-sm hover:bg-white/60 transition"
+            >
+              Nueva regla
+            </button>
+          )}
+        </div>
+        {rulesError && <p className="px-4 pt-3 text-sm text-rose-600">{rulesError}</p>}
+        {ruleFormOpen && canManage && (
+          <form onSubmit={handleSaveRule} className="px-4 py-4 border-b ui-border space-y-3">
+            <div className="grid gap-3 md:grid-cols-4">
+              <label className="text-sm">
+                <span className="block mb-1 ui-text-muted">Nombre</span>
+                <input
+                  value={ruleForm.name}
+                  onChange={(event) => setRuleForm((prev) => ({ ...prev, name: event.target.value }))}
+                  className="w-full rounded-lg border ui-border bg-white/80 px-3 py-2"
+                  placeholder="Comisión general"
+                />
+              </label>
+              <label className="text-sm">
+                <span className="block mb-1 ui-text-muted">Rol del vendedor</span>
+                <select
+                  value={ruleForm.seller_role}
+                  onChange={(event) =>
+                    setRuleForm((prev) => ({
+                      ...prev,
+                      seller_role: event.target.value as SystemRole | "",
+                    }))
+                  }
+                  className="w-full rounded-lg border ui-border bg-white/80 px-3 py-2"
+                >
+                  <option value="">Todos los roles</option>
+                  {SELLER_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm">
+                <span className="block mb-1 ui-text-muted">Aplica a</span>
+                <select
+                  value={ruleForm.scope}
+                  onChange={(event) =>
+                    setRuleForm((prev) => ({
+                      ...prev,
+                      scope: event.target.value as CommissionRuleScope,
+                    }))
+                  }
+                  className="w-full rounded-lg border ui-border bg-white/80 px-3 py-2"
+                >
+                  {(Object.keys(SCOPE_LABELS) as CommissionRuleScope[]).map((scope) => (
+                    <option key={scope} value={scope}>
+                      {SCOPE_LABELS[scope]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm">
+                <span className="block mb-1 ui-text-muted">
+                  {ruleForm.scope === "brand" ? "Marca" : "Grupo"}
+                </span>
+                <input
+                  value={ruleForm.scope_value}
+                  onChange={(event) =>
+                    setRuleForm((prev) => ({ ...prev, scope_value: event.target.value }))
+                  }
+                  disabled={ruleForm.scope === "all"}
+                  className="w-full rounded-lg border ui-border bg-white/80 px-3 py-2 disabled:opacity-50"
+                  placeholder={ruleForm.scope === "brand" ? "JBL" : "Audio / Parlantes"}
+                />
+              </label>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm ui-text-muted">
+                Escalones: el porcentaje alcanzado aplica a toda la venta del mes.
+              </p>
+              {ruleForm.tiers.map((tier, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="ui-text-muted">Desde $</span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={tier.min_amount}
+                    onChange={(event) =>
+                      setRuleForm((prev) => ({
+                        ...prev,
+                        tiers: prev.tiers.map((item, i) =>
+                          i === index ? { ...item, min_amount: event.target.value } : item
+                        ),
+                      }))
+                    }
+                    className="w-36 rounded-lg border ui-border bg-white/80 px-3 py-1.5"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    value={tier.rate_percent}
+                    onChange={(event) =>
+                      setRuleForm((prev) => ({
+                        ...prev,
+                        tiers: prev.tiers.map((item, i) =>
+                          i === index ? { ...item, rate_percent: event.target.value } : item
+                        ),
+                      }))
+                    }
+                    className="w-24 rounded-lg border ui-border bg-white/80 px-3 py-1.5"
+                    placeholder="2"
+                  />
+                  <span className="ui-text-muted">%</span>
+                  {ruleForm.tiers.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setRuleForm((prev) => ({
+                          ...prev,
+                          tiers: prev.tiers.filter((_, i) => i !== index),
+                        }))
+                      }
+                      className="text-xs text-rose-600 hover:underline"
+                    >
+                      Quitar
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  setRuleForm((prev) => ({
+                    ...prev,
+                    tiers: [...prev.tiers, { min_amount: "", rate_percent: "" }],
+                  }))
+                }
+                className="text-xs text-emerald-700 hover:underline"
+              >
+                + Agregar escalón
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={ruleForm.exclude_discounted}
+                  onChange={(event) =>
+                    setRuleForm((prev) => ({ ...prev, exclude_discounted: event.target.checked }))
+                  }
+                />
+                Excluir ventas con descuento
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={ruleForm.exclude_free_sale_items}
+                  onChange={(event) =>
+                    setRuleForm((prev) => ({
+                      ...prev,
+                      exclude_free_sale_items: event.target.checked,
+                    }))
+                  }
+                />
+                Excluir líneas de venta libre
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={ruleForm.active}
+                  onChange={(event) =>
+                    setRuleForm((prev) => ({ ...prev, active: event.target.checked }))
+                  }
+                />
+                Activa
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={savingRule}
+                className="rounded-md bg-emerald-600 px-3 py-2 text-sm font-semibold text-white disabled:opacity-60"
+              >
+                {savingRule ? "Guardando..." : editingRuleId ? "Guardar cambios" : "Crear regla"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setRuleFormOpen(false)}
+                className="rounded-md border ui-border px-3 py-2 text-sm"
+              >
+                Cancelar
+              </button>
+            </div>
+          </form>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[760px] text-sm">
+            <thead>
+              <tr className="text-left border-b ui-border">
+                <th className="px-4 py-2 font-semibold">Regla</th>
+                <th className="px-4 py-2 font-semibold">Rol</th>
+                <th className="px-4 py-2 font-semibold">Aplica a</th>
+                <th className="px-4 py-2 font-semibold">Porcentaje</th>
+                <th className="px-4 py-2 font-semibold">Exclusiones</th>
+                <th className="px-4 py-2 font-semibold" />
+              </tr>
+            </thead>
+            <tbody>
+              {rulesLoading ? (
+                <tr>
+                  <td className="px-4 py-4 ui-text-muted" colSpan={6}>
+                    Cargando reglas...
+                  </td>
+                </tr>
+              ) : rules.length === 0 ? (
+                <tr>
+                  <td className="px-4 py-4 ui-text-muted" colSpan={6}>
+                    Aún no hay reglas de comisión.
+                  </td>
+                </tr>
+              ) : (
+                rules.map((rule) => (
+                  <tr
+                    key={rule.id}
+                    className={`border-b ui-border last:border-b-0 ${rule.active ? "" : "opacity-60"}`}
+                  >
+                    <td className="px-4 py-3 font-medium">
+                      {rule.name}
+                      {!rule.active && <span className="ml-2 text-xs ui-text-muted">(inactiva)</span>}
+                    </td>
+                    <td className="px-4 py-3">{rule.seller_role ?? "Todos"}</td>
+                    <td className="px-4 py-3">
+                      {rule.scope === "all"
+                        ? SCOPE_LABELS.all
+                        : `${SCOPE_LABELS[rule.scope]}: ${rule.scope_value}`}
+                    </td>
+                    <td className="px-4 py-3">{describeTiers(rule)}</td>
+                    <td className="px-4 py-3 text-xs ui-text-muted">
+                      {[
+                        rule.exclude_discounted ? "Con descuento" : null,
+                        rule.exclude_free_sale_items ? "Venta libre" : null,
+                      ]
+                        .filter(Boolean)
+                        .join(", ") || "-"}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {canManage && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => openEditRule(rule)}
+                            className="text-xs text-emerald-700 hover:underline"
+                          >
+                            Editar
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => void handleDeleteRule(rule)}
+                            className="ml-3 text-xs text-rose-600 hover:underline"
+                          >
+                            Eliminar
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </article>
+
+      <article className="rounded-2xl border ui-border dashboard-card overflow-hidden">
+        <div className="px-4 py-3 border-b ui-border flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold">Liquidación mensual</h2>
+            <p className="text-xs ui-text-muted">
+              Las devoluciones se descuentan en el mes en que se hicieron. Al pasarla a nómina la
+              comisión se suma como devengo al próximo pago pendiente del empleado.
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <label className="text-sm">
+              <span className="block mb-1 ui-text-muted">Mes</span>
+              <input
+                type="month"
+                value={period}
+                onChange={(event) => {
+                  setPeriod(event.target.value);
+                  setStatements(null);
+                }}
+                className="rounded-lg border ui-border bg-white/80 px-3 py-2"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => void handleCalculate()}
+              disabled={calculating || rulesLoading}
+              className="rounded-md bg-emerald-600 px-3 py-2 text-sm font-semibold text-white disabled:opacity-60"
+            >
+              {calculating ? "Calculando..." : "Calcular"}
+            </button>
+          </div>
+        </div>
+        {statementError && <p className="px-4 pt-3 text-sm text-rose-600">{statementError}</p>}
+        {totals && (
+          <div className="px-4 py-3 border-b ui-border grid gap-2 sm:grid-cols-2 lg:max-w-xl">
+            <div>
+              <p className="text-xs uppercase tracking-[0.12em] ui-text-muted">Ventas netas</p>
+              <p className="text-xl font-semibold">{formatMoney(totals.base)}</p>
+            </div>
+            <div>
+              <p className="text-xs uppercase tracking-[0.12em] ui-text-muted">Comisiones</p>
+              <p className="text-xl font-semibold text-emerald-600">{formatMoney(totals.payable)}</p>
+            </div>
+          </div>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[960px] text-sm">
+            <thead>
+              <tr className="text-left border-b ui-border">
+                <th className="px-4 py-2 font-semibold">Vendedor</th>
+                <th className="px-4 py-2 font-semibold text-right">Ventas</th>
+                <th className="px-4 py-2 font-semibold text-right">Devoluciones</th>
+                <th className="px-4 py-2 font-semibold text-right">Sin comisión</th>
+                <th className="px-4 py-2 font-semibold text-right">Comisión</th>
+                <th className="px-4 py-2 font-semibold text-right">Nómina base</th>
+                <th className="px-4 py-2 font-semibold">Pago</th>
+              </tr>
+            </thead>
+            <tbody>
+              {!statements ? (
+                <tr>
+                  <td className="px-4 py-4 ui-text-muted" colSpan={7}>
+                    Elige el mes y presiona Calcular.
+                  </td>
+                </tr>
+              ) : statements.length === 0 ? (
+                <tr>
+                  <td className="px-4 py-4 ui-text-muted" colSpan={7}>
+                    No hay ventas en el mes seleccionado.
+                  </td>
+                </tr>
+              ) : (
+                statements.map((statement) => {
+                  const employee = statement.employeeId
+                    ? employeesById.get(statement.employeeId)
+                    : undefined;
+                  const saved = statement.employeeId
+                    ? savedByEmployee.get(statement.employeeId)
+                    : undefined;
+                  const paidDiffers =
+                    saved?.paid_at && saved.payable_amount !== statement.payable;
+                  return (
+                    <tr key={statement.sellerName} className="border-b ui-border last:border-b-0 align-top">
+                      <td className="px-4 py-3">
+                        {employee ? (
+                          <Link
+                            href={`/dashboard/hr/${employee.id}`}
+                            prefetch={false}
+                            className="font-medium text-emerald-700 hover:underline"
+                          >
+                            {statement.sellerName}
+                          </Link>
+                        ) : (
+                          <span className="font-medium">{statement.sellerName}</span>
+                        )}
+                        <span className="ml-2 text-xs ui-text-muted">
+                          {statement.role ?? "Sin empleado HR"}
+                        </span>
+                        {statement.lines.map((line) => (
+                          <p key={line.rule_id} className="text-xs ui-text-muted">
+                            {line.rule_name}: {formatMoney(line.base)} × {line.rate_percent}% ={" "}
+                            {formatMoney(line.amount)}
+                          </p>
+                        ))}
+                      </td>
+                      <td className="px-4 py-3 text-right">{formatMoney(statement.grossBase)}</td>
+                      <td className="px-4 py-3 text-right text-rose-600">
+                        {statement.returnedBase ? `-${formatMoney(statement.returnedBase)}` : "-"}
+                      </td>
+                      <td className="px-4 py-3 text-right ui-text-muted">
+                        {formatMoney(statement.excludedBase)}
+                      </td>
+                      <td className="px-4 py-3 text-right font-semibold">
+                        {formatMoney(statement.payable)}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {employee?.payroll_amount != null
+                          ? `${formatMoney(employee.payroll_amount)} ${employee.payroll_frequency ?? ""}`
+                          : "-"}
+                      </td>
+                      <td className="px-4 py-3">
+                        {saved?.paid_at ? (
+                          <div className="text-xs">
+                            <p className="font-semibold text-emerald-700">
+                              En nómina {formatMoney(saved.payable_amount)}
+                            </p>
+                            <p className="ui-text-muted">{formatDateTime(saved.paid_at)}</p>
+                            {paidDiffers && (
+                              <p className="text-amber-700">
+                                Cambió después de pasarla a nómina (devoluciones o reglas).
+                              </p>
+                            )}
+                          </div>
+                        ) : !statement.employeeId ? (
+                          <span className="text-xs ui-text-muted">
+                            Vincula el vendedor a un empleado HR.
+                          </span>
+                        ) : canManage && statement.payable > 0 ? (
+                          <button
+                            type="button"
+                            onClick={() => void handleRegisterPayment(statement)}
+                            disabled={payingEmployeeId === statement.employeeId}
+                            className="rounded-md border ui-border px-3 py-1.5 text-xs font-semibold hover:bg-white/60 disabled:opacity-60"
+                          >
+                            {payingEmployeeId === statement.employeeId
+                              ? "Enviando..."
+                              : "Pasar a nómina"}
+                          </button>
+                        ) : (
+                          <span className="text-xs ui-text-muted">Pendiente</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </article>
+    </section>
+  );
+}
@@ -86,7 +86,7 @@ export default function HrPage() {
         <p className="ui-text-muted mt-1">
           Empleados HR separados del acceso al sistema.
         </p>
-        <div className="mt-3">
+        <div className="mt-3 flex flex-wrap gap-2">
           <Link
             href="/dashboard/hr/new"
             prefetch={false}
@@ -94,6 +94,20 @@ export default function HrPage() {
           >
             Nuevo empleado
           </Link>
+          <Link
+            href="/dashboard/hr/commissions"
+            prefetch={false}
+            className="rounded-md border ui-border px-3 py-2 text-sm hover:bg-white/60 transition"
+          >
+            Comisiones
+          </Link>
+          <Link
+            href="/dashboard/hr/payroll"
+            prefetch={false}
+            className="rounded-md border ui-border px-3 py-2 text-sm hover:bg-white/60 transition"
+          >
+            Nómina
+          </Link>
         </div>
       </header>
 
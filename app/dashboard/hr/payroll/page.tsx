@@ -0,0 +1,742 @@
+"use client";
+
+import Link from "next/link";
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import { useAuth } from "../../../providers/AuthProvider";
+import {
+  fetchHrEmployees,
+  updateHrEmployee,
+  type HrEmployeeRecord,
+  type SystemRole,
+} from "@/lib/api/hr";
+import {
+  createPayrollRun,
+  deletePayrollRun,
+  fetchPayrollRuns,
+  markPayrollRunPaid,
+  updatePayrollRun,
+  type PayrollAdjustment,
+  type PayrollAdjustmentKind,
+  type PayrollRun,
+} from "@/lib/api/payroll";
+import { fetchScheduleWeekView, type ScheduleShiftRecord } from "@/lib/api/schedule";
+import { exportReportPdf } from "@/lib/api/reports";
+import {
+  defaultRolePermissions,
+  fetchPosSettings,
+  fetchRolePermissions,
+} from "@/lib/api/settings";
+import {
+  PAYROLL_ADJUSTMENT_LABELS,
+  PAYROLL_EARNING_LABELS,
+  PAYROLL_FREQUENCY_LABELS,
+  buildPayslipHtml,
+  isPayrollDue,
+  nextPayrollDueDate,
+  payrollEarningsTotal,
+  payrollGrossAmount,
+  payrollPeriodForDue,
+  scheduleWeekStartsForPeriod,
+  sumShiftHours,
+  summarizePayrollAdjustments,
+} from "@/lib/hr/payroll";
+import { getBogotaDateKey } from "@/lib/time/bogota";
+
+type AdjustmentFormState = {
+  kind: PayrollAdjustmentKind;
+  concept: string;
+  amount: string;
+};
+
+const emptyAdjustmentForm: AdjustmentFormState = {
+  kind: "deduction",
+  concept: "",
+  amount: "",
+};
+
+function formatMoney(value?: number | null): string {
+  return `$${Math.round(value ?? 0).toLocaleString("es-CO")}`;
+}
+
+function formatPeriod(run: PayrollRun): string {
+  return run.period_start === run.period_end
+    ? run.period_end
+    : `${run.period_start} a ${run.period_end}`;
+}
+
+/** Horas de turnos por empleado, consultando cada semana del horario una sola vez. */
+async function loadShiftsForPeriods(
+  periods: Array<{ start: string; end: string }>,
+  token: string
+): Promise<ScheduleShiftRecord[]> {
+  const weeks = new Set<string>();
+  periods.forEach((period) => {
+    scheduleWeekStartsForPeriod(period.start, period.end).forEach((week) => weeks.add(week));
+  });
+  const shifts: ScheduleShiftRecord[] = [];
+  for (const week of weeks) {
+    const view = await fetchScheduleWeekView(token, week);
+    shifts.push(...view.shifts);
+  }
+  return shifts;
+}
+
+export default function HrPayrollPage() {
+  const { token, user } = useAuth();
+  const [canManage, setCanManage] = useState(false);
+  const [employees, setEmployees] = useState<HrEmployeeRecord[]>([]);
+  const [runs, setRuns] = useState<PayrollRun[]>([]);
+  const [company, setCompany] = useState<{ name: string; address: string }>({
+    name: "",
+    address: "",
+  });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [busyRunId, setBusyRunId] = useState<number | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+  const [adjustmentForm, setAdjustmentForm] =
+    useState<AdjustmentFormState>(emptyAdjustmentForm);
+
+  const todayKey = getBogotaDateKey();
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    Promise.resolve().then(() => {
+      if (cancelled) return;
+      setLoading(true);
+      setError(null);
+    });
+
+    fetchRolePermissions(token)
+      .then((modules) => {
+        if (cancelled) return;
+        const hrModule =
+          modules.find((module) => module.id === "hr") ??
+          defaultRolePermissions.find((module) => module.id === "hr");
+        const manageAction = hrModule?.actions.find((action) => action.id === "hr.manage");
+        const role = user?.role as SystemRole | undefined;
+        setCanManage(Boolean(role && manageAction?.roles?.[role]));
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setCanManage(false);
+      });
+
+    fetchPosSettings(token)
+      .then((settings) => {
+        if (cancelled) return;
+        setCompany({
+          name: settings.company_name?.trim() ?? "",
+          address: settings.address?.trim() ?? "",
+        });
+      })
+      .catch((err) => console.warn("No se pudieron cargar los datos de la empresa", err));
+
+    Promise.all([fetchHrEmployees(token), fetchPayrollRuns(token)])
+      .then(([employeeRows, runRows]) => {
+        if (cancelled) return;
+        setEmployees(employeeRows);
+        setRuns(runRows);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Error al cargar la nómina.");
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, user?.role]);
+
+  const employeesById = useMemo(
+    () => new Map(employees.map((employee) => [employee.id, employee])),
+    [employees]
+  );
+
+  const pendingRuns = useMemo(
+    () =>
+      runs
+        .filter((run) => run.status === "pending")
+        .sort((a, b) => a.due_date.localeCompare(b.due_date)),
+    [runs]
+  );
+
+  const paidRuns = useMemo(
+    () =>
+      runs
+        .filter((run) => run.status === "paid")
+        .sort((a, b) => (b.paid_at ?? "").localeCompare(a.paid_at ?? ""))
+        .slice(0, 50),
+    [runs]
+  );
+
+  /** Empleados vencidos que aún no tienen un pago generado para esa fecha. */
+  const dueEmployees = useMemo(
+    () =>
+      employees.filter(
+        (employee) =>
+          isPayrollDue(employee, todayKey) &&
+          !runs.some(
+            (run) =>
+              run.employee_id === employee.id &&
+              run.due_date === employee.payroll_next_due_at?.slice(0, 10)
+          )
+      ),
+    [employees, runs, todayKey]
+  );
+
+  const withoutDueDate = useMemo(
+    () =>
+      employees.filter(
+        (employee) =>
+          employee.status === "Activo" &&
+          employee.payroll_frequency &&
+          employee.payroll_amount &&
+          !employee.payroll_next_due_at
+      ),
+    [employees]
+  );
+
+  function replaceRun(updated: PayrollRun) {
+    setRuns((prev) => prev.map((run) => (run.id === updated.id ? updated : run)));
+  }
+
+  async function handleGenerateDueRuns() {
+    if (!token || !dueEmployees.length) return;
+    try {
+      setGenerating(true);
+      setError(null);
+      setNotice(null);
+      const plans = dueEmployees.map((employee) => {
+        const frequency = employee.payroll_frequency ?? "mensual";
+        const dueDate = (employee.payroll_next_due_at ?? todayKey).slice(0, 10);
+        return { employee, frequency, dueDate, period: payrollPeriodForDue(frequency, dueDate) };
+      });
+      const hourlyPlans = plans.filter((plan) => plan.employee.payroll_pay_type === "por_hora");
+      const shifts = hourlyPlans.length
+        ? await loadShiftsForPeriods(
+            hourlyPlans.map((plan) => plan.period),
+            token
+          )
+        : [];
+      const created: PayrollRun[] = [];
+      for (const { employee, frequency, dueDate, period } of plans) {
+        const payType = employee.payroll_pay_type ?? "fijo";
+        const hoursWorked =
+          payType === "por_hora"
+            ? sumShiftHours(shifts, employee.id, period.start, period.end)
+            : null;
+        const baseAmount = employee.payroll_amount ?? 0;
+        const gross = payrollGrossAmount(payType, baseAmount, hoursWorked);
+        created.push(
+          await createPayrollRun(
+            {
+              employee_id: employee.id,
+              employee_name: employee.name,
+              frequency,
+              pay_type: payType,
+              period_start: period.start,
+              period_end: period.end,
+              due_date: dueDate,
+              base_amount: baseAmount,
+              hours_worked: hoursWorked,
+              gross_amount: gross,
+              adjustments: [],
+              net_amount: gross,
+              currency: employee.payroll_currency ?? "COP",
+              payment_method: employee.payroll_payment_method ?? null,
+              notes: null,
+            },
+            token
+          )
+        );
+      }
+      setRuns((prev) => [...prev, ...created]);
+      setNotice(
+        created.length === 1 ? "Se generó 1 pago." : `Se generaron ${created.length} pagos.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudieron generar los pagos.");
+    } finally {
+      setGenerating(false);
+    }
+  }
+
+  async function saveAdjustments(run: PayrollRun, adjustments: PayrollAdjustment[]) {
+    if (!token) return;
+    const { net } = summarizePayrollAdjustments(run.gross_amount, adjustments);
+    try {
+      setBusyRunId(run.id);
+      setError(null);
+      replaceRun(
+        await updatePayrollRun(run.id, { adjustments, net_amount: net }, token)
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo guardar el ajuste.");
+    } finally {
+      setBusyRunId(null);
+    }
+  }
+
+  async function handleAddAdjustment(event: FormEvent<HTMLFormElement>, run: PayrollRun) {
+    event.preventDefault();
+    const amount = Number(adjustmentForm.amount);
+    if (!adjustmentForm.concept.trim() || !Number.isFinite(amount) || amount <= 0) {
+      setError("Indica el concepto y un valor mayor a cero.");
+      return;
+    }
+    await saveAdjustments(run, [
+      ...run.adjustments,
+      { kind: adjustmentForm.kind, concept: adjustmentForm.concept.trim(), amount },
+    ]);
+    setAdjustmentForm(emptyAdjustmentForm);
+  }
+
+  async function handleRecalculateHours(run: PayrollRun) {
+    if (!token) return;
+    try {
+      setBusyRunId(run.id);
+      setError(null);
+      const shifts = await loadShiftsForPeriods(
+        [{ start: run.period_start, end: run.period_end }],
+        token
+      );
+      const hoursWorked = sumShiftHours(shifts, run.employee_id, run.period_start, run.period_end);
+      const gross =
+        payrollGrossAmount(run.pay_type, run.base_amount, hoursWorked) +
+        payrollEarningsTotal(run.earnings);
+      const { net } = summarizePayrollAdjustments(gross, run.adjustments);
+      replaceRun(
+        await updatePayrollRun(
+          run.id,
+          { hours_worked: hoursWorked, gross_amount: gross, net_amount: net },
+          token
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudieron recalcular las horas.");
+    } finally {
+      setBusyRunId(null);
+    }
+  }
+
+  async function handleMarkPaid(run: PayrollRun) {
+    if (!token) return;
+    if (!window.confirm(`¿Marcar como pagado ${formatMoney(run.net_amount)} a ${run.employee_name}?`)) {
+      return;
+    }
+    const employee = employeesById.get(run.employee_id);
+    try {
+      setBusyRunId(run.id);
+      setError(null);
+      const paid = await markPayrollRunPaid(run.id, todayKey, token);
+      replaceRun(paid);
+      if (employee) {
+        const currentDue = employee.payroll_next_due_at?.slice(0, 10);
+        const updated = await updateHrEmployee(
+          employee.id,
+          {
+            payroll_last_paid_at: todayKey,
+            // Solo avanza si el pago corresponde al vencimiento vigente.
+            ...(!currentDue || currentDue <= run.due_date
+              ? { payroll_next_due_at: nextPayrollDueDate(employee, run.due_date) }
+              : {}),
+          },
+          token
+        );
+        setEmployees((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo registrar el pago.");
+    } finally {
+      setBusyRunId(null);
+    }
+  }
+
+  async function handleDeleteRun(run: PayrollRun) {
+    if (!token) return;
+    if (!window.confirm(`¿Eliminar el pago pendiente de ${run.employee_name}?`)) return;
+    try {
+      setBusyRunId(run.id);
+      await deletePayrollRun(run.id, token);
+      setRuns((prev) => prev.filter((item) => item.id !== run.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo eliminar el pago.");
+    } finally {
+      setBusyRunId(null);
+    }
+  }
+
+  function handlePrintPayslip(run: PayrollRun) {
+    const win = window.open("", "_blank", "width=800,height=900");
+    if (!win) {
+      setError("El navegador bloqueó la ventana de impresión. Permite pop-ups e intenta de nuevo.");
+      return;
+    }
+    win.document.write(buildPayslipHtml(run, company));
+    win.document.close();
+    win.focus();
+    win.print();
+  }
+
+  async function handleDownloadPayslip(run: PayrollRun) {
+    if (!token) return;
+    try {
+      setBusyRunId(run.id);
+      setError(null);
+      const blob = await exportReportPdf(
+        {
+          title: `Boleta de pago ${run.employee_name}`,
+          document_html: buildPayslipHtml(run, company),
+        },
+        token
+      );
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `boleta_${run.employee_name.replace(/\s+/g, "_")}_${run.period_end}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo exportar la boleta.");
+    } finally {
+      setBusyRunId(null);
+    }
+  }
+
+  function renderPayslipActions(run: PayrollRun) {
+    return (
+      <>
+        <button
+          type="button"
+          onClick={() => handlePrintPayslip(run)}
+          className="text-xs text-emerald-700 hover:underline"
+        >
+          Boleta
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleDownloadPayslip(run)}
+          disabled={busyRunId === run.id}
+          className="ml-3 text-xs text-emerald-700 hover:underline disabled:opacity-50"
+        >
+          PDF
+        </button>
+      </>
+    );
+  }
+
+  return (
+    <section className="space-y-4">
+      <header>
+        <Link href="/dashboard/hr" prefetch={false} className="text-sm ui-text-muted hover:underline">
+          ← Recursos humanos
+        </Link>
+        <h1 className="mt-1 text-3xl font-bold tracking-tight">Nómina</h1>
+        <p className="ui-text-muted mt-1">
+          Pagos generados desde la configuración de nómina de cada empleado.
+        </p>
+      </header>
+
+      {error && (
+        <p className="rounded-lg border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {error}
+        </p>
+      )}
+      {notice && (
+        <p className="rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+          {notice}
+        </p>
+      )}
+
+      <article className="rounded-2xl border ui-border dashboard-card px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Pagos vencidos</h2>
+          {loading ? (
+            <p className="text-sm ui-text-muted">Cargando empleados...</p>
+          ) : dueEmployees.length ? (
+            <p className="text-sm ui-text-muted">
+              {dueEmployees.map((employee) => employee.name).join(", ")}
+            </p>
+          ) : (
+            <p className="text-sm ui-text-muted">No hay pagos vencidos sin generar.</p>
+          )}
+          {withoutDueDate.length > 0 && (
+            <p className="mt-1 text-xs text-amber-700">
+              Sin fecha de próximo pago: {withoutDueDate.map((employee) => employee.name).join(", ")}.
+            </p>
+          )}
+        </div>
+        {canManage && (
+          <button
+            type="button"
+            onClick={() => void handleGenerateDueRuns()}
+            disabled={generating || !dueEmployees.length}
+            className="rounded-md bg-emerald-600 px-3 py-2 text-sm font-semibold text-white disabled:opacity-60"
+          >
+            {generating ? "Generando..." : `Generar pagos (${dueEmployees.length})`}
+          </button>
+        )}
+      </article>
+
+      <article className="rounded-2xl border ui-border dashboard-card overflow-hidden">
+        <div className="px-4 py-3 border-b ui-border">
+          <h2 className="text-lg font-semibold">Pendientes de pago</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[960px] text-sm">
+            <thead>
+              <tr className="text-left border-b ui-border">
+                <th className="px-4 py-2 font-semibold">Empleado</th>
+                <th className="px-4 py-2 font-semibold">Periodo</th>
+                <th className="px-4 py-2 font-semibold text-right">Horas</th>
+                <th className="px-4 py-2 font-semibold text-right">Bruto</th>
+                <th className="px-4 py-2 font-semibold text-right">Deducciones</th>
+                <th className="px-4 py-2 font-semibold text-right">Anticipos</th>
+                <th className="px-4 py-2 font-semibold text-right">Neto</th>
+                <th className="px-4 py-2 font-semibold" />
+              </tr>
+            </thead>
+            <tbody>
+              {pendingRuns.length === 0 ? (
+                <tr>
+                  <td className="px-4 py-4 ui-text-muted" colSpan={8}>
+                    No hay pagos pendientes.
+                  </td>
+                </tr>
+              ) : (
+                pendingRuns.map((run) => {
+                  const { deductions, advances } = summarizePayrollAdjustments(
+                    run.gross_amount,
+                    run.adjustments
+                  );
+                  const expanded = expandedRunId === run.id;
+                  return (
+                    <tr key={run.id} className="border-b ui-border last:border-b-0 align-top">
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/dashboard/hr/${run.employee_id}`}
+                          prefetch={false}
+                          className="font-medium text-emerald-700 hover:underline"
+                        >
+                          {run.employee_name}
+                        </Link>
+                        <p className="text-xs ui-text-muted">
+                          {PAYROLL_FREQUENCY_LABELS[run.frequency]} · vence {run.due_date}
+                        </p>
+                        {expanded && (
+                          <div className="mt-2 space-y-2">
+                            {(run.earnings ?? []).map((item, index) => (
+                              <p key={`earning-${index}`} className="text-xs text-emerald-700">
+                                {PAYROLL_EARNING_LABELS[item.kind]}: {item.concept} ·{" "}
+                                {formatMoney(item.amount)}
+                              </p>
+                            ))}
+                            {run.adjustments.map((item, index) => (
+                              <p key={index} className="flex items-center gap-2 text-xs">
+                                <span>
+                                  {PAYROLL_ADJUSTMENT_LABELS[item.kind]}: {item.concept} ·{" "}
+                                  {formatMoney(item.amount)}
+                                </span>
+                                {canManage && (
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      void saveAdjustments(
+                                        run,
+                                        run.adjustments.filter((_, i) => i !== index)
+                                      )
+                                    }
+                                    disabled={busyRunId === run.id}
+                                    className="text-rose-600 hover:underline"
+                                  >
+                                    Quitar
+                                  </button>
+                                )}
+                              </p>
+                            ))}
+                            {canManage && (
+                              <form
+                                onSubmit={(event) => void handleAddAdjustment(event, run)}
+                                className="flex flex-wrap items-center gap-2 text-xs"
+                              >
+                                <select
+                                  value={adjustmentForm.kind}
+                                  onChange={(event) =>
+                                    setAdjustmentForm((prev) => ({
+                                      ...prev,
+                                      kind: event.target.value as PayrollAdjustmentKind,
+                                    }))
+                                  }
+                                  className="rounded-md border ui-border bg-white/80 px-2 py-1"
+                                >
+                                  <option value="deduction">Deducción</option>
+                                  <option value="advance">Anticipo</option>
+                                </select>
+                                <input
+                                  value={adjustmentForm.concept}
+                                  onChange={(event) =>
+                                    setAdjustmentForm((prev) => ({
+                                      ...prev,
+                                      concept: event.target.value,
+                                    }))
+                                  }
+                                  placeholder="Concepto"
+                                  className="w-40 rounded-md border ui-border bg-white/80 px-2 py-1"
+                                />
+                                <input
+                                  type="number"
+                                  min="0"
+                                  value={adjustmentForm.amount}
+                                  onChange={(event) =>
+                                    setAdjustmentForm((prev) => ({
+                                      ...prev,
+                                      amount: event.target.value,
+                                    }))
+                                  }
+                                  placeholder="Valor"
+                                  className="w-28 rounded-md border ui-border bg-white/80 px-2 py-1"
+                                />
+                                <button
+                                  type="submit"
+                                  disabled={busyRunId === run.id}
+                                  className="rounded-md border ui-border px-2 py-1 font-semibold disabled:opacity-60"
+                                >
+                                  Agregar
+                                </button>
+                              </form>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">{formatPeriod(run)}</td>
+                      <td className="px-4 py-3 text-right">
+                        {run.pay_type === "por_hora" ? (
+                          <>
+                            {(run.hours_worked ?? 0).toLocaleString("es-CO")} h
+                            {canManage && (
+                              <button
+                                type="button"
+                                onClick={() => void handleRecalculateHours(run)}
+                                disabled={busyRunId === run.id}
+                                className="block ml-auto text-xs text-emerald-700 hover:underline disabled:opacity-50"
+                              >
+                                Recalcular
+                              </button>
+                            )}
+                          </>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">{formatMoney(run.gross_amount)}</td>
+                      <td className="px-4 py-3 text-right text-rose-600">
+                        {deductions ? `-${formatMoney(deductions)}` : "-"}
+                      </td>
+                      <td className="px-4 py-3 text-right text-rose-600">
+                        {advances ? `-${formatMoney(advances)}` : "-"}
+                      </td>
+                      <td className="px-4 py-3 text-right font-semibold">
+                        {formatMoney(run.net_amount)}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setExpandedRunId(expanded ? null : run.id);
+                            setAdjustmentForm(emptyAdjustmentForm);
+                          }}
+                          className="text-xs text-emerald-700 hover:underline"
+                        >
+                          {expanded ? "Cerrar" : "Ajustes"}
+                        </button>
+                        <span className="ml-3">{renderPayslipActions(run)}</span>
+                        {canManage && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => void handleMarkPaid(run)}
+                              disabled={busyRunId === run.id}
+                              className="ml-3 rounded-md bg-emerald-600 px-2 py-1 text-xs font-semibold text-white disabled:opacity-60"
+                            >
+                              Marcar pagado
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => void handleDeleteRun(run)}
+                              disabled={busyRunId === run.id}
+                              className="ml-3 text-xs text-rose-600 hover:underline disabled:opacity-50"
+                            >
+                              Eliminar
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </article>
+
+      <article className="rounded-2xl border ui-border dashboard-card overflow-hidden">
+        <div className="px-4 py-3 border-b ui-border">
+          <h2 className="text-lg font-semibold">Pagos realizados</h2>
+          <p className="text-xs ui-text-muted">Últimos 50 pagos.</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[760px] text-sm">
+            <thead>
+              <tr className="text-left border-b ui-border">
+                <th className="px-4 py-2 font-semibold">Empleado</th>
+                <th className="px-4 py-2 font-semibold">Periodo</th>
+                <th className="px-4 py-2 font-semibold">Pagado</th>
+                <th className="px-4 py-2 font-semibold text-right">Neto</th>
+                <th className="px-4 py-2 font-semibold" />
+              </tr>
+            </thead>
+            <tbody>
+              {paidRuns.length === 0 ? (
+                <tr>
+                  <td className="px-4 py-4 ui-text-muted" colSpan={5}>
+                    Aún no hay pagos registrados.
+                  </td>
+                </tr>
+              ) : (
+                paidRuns.map((run) => (
+                  <tr key={run.id} className="border-b ui-border last:border-b-0">
+                    <td className="px-4 py-3 font-medium">{run.employee_name}</td>
+                    <td className="px-4 py-3">{formatPeriod(run)}</td>
+                    <td className="px-4 py-3">
+                      {run.paid_at?.slice(0, 10) ?? "-"}
+                      {run.paid_by_user_name && (
+                        <span className="ml-1 text-xs ui-text-muted">por {run.paid_by_user_name}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right font-semibold">
+                      {formatMoney(run.net_amount)}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {renderPayslipActions(run)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </article>
+    </section>
+  );
+}
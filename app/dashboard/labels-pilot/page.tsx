@@ -13,6 +13,13 @@ import {
   LABEL_AGENT_UI_URL,
   LABEL_AGENT_WINDOWS_DOWNLOAD_URL,
 } from "@/lib/printing/labelAgentConfig";
+import {
+  describeRetailBarcodeError,
+  detectRetailBarcodeFormat,
+  generateEan13Svg,
+  generateEan8Svg,
+  generateUpcASvg,
+} from "@/lib/utils/barcode";
 
 type ProductSearchResult = Pick<
   PosProduct,
@@ -62,6 +69,29 @@ function sleep(ms: number) {
   });
 }
 
+const RETAIL_BARCODE_RENDERERS = {
+  ean13: generateEan13Svg,
+  ean8: generateEan8Svg,
+  upca: generateUpcASvg,
+};
+
+/**
+ * Vista previa del código EAN/UPC tal como debe salir en la etiqueta. Un
+ * dígito de control errado se avisa antes de imprimir etiquetas que el
+ * lector no va a reconocer.
+ */
+function retailBarcodePreview(
+  barcode: string | null
+): { src: string | null; error: string | null } {
+  const value = (barcode ?? "").trim();
+  const format = detectRetailBarcodeFormat(value);
+  if (!format) return { src: null, error: null };
+  const error = describeRetailBarcodeError(value);
+  if (error) return { src: null, error };
+  const svg = RETAIL_BARCODE_RENDERERS[format](value, { height: 36, moduleWidth: 1 });
+  return { src: `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`, error: null };
+}
+
 async function printLabelDirect(
   targetUrl: string,
   payload: PrintPayload | PrintPayload[]
@@ -1004,6 +1034,24 @@ export default function LabelsPilotPage() {
                           </td>
                           <td className="px-3 py-2 text-slate-800">
                             {item.name}
+                            {(() => {
+                              const preview = retailBarcodePreview(item.barcode);
+                              if (preview.error) {
+                                return (
+                                  <p className="mt-1 text-[11px] text-rose-600">
+                                    {preview.error}
+                                  </p>
+                                );
+                              }
+                              return preview.src ? (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img
+                                  src={preview.src}
+                                  alt={`Código de barras ${item.barcode}`}
+                                  className="mt-1 h-10"
+                                />
+                              ) : null;
+                            })()}
                           </td>
                           <td className="px-3 py-2 text-right text-slate-800">
                             {formatPriceForPayload(item.price)}
@@ -2199,7 +2199,7 @@ export default function MovementsPage() {
             <div>
               <h2 className="text-base font-semibold text-slate-900">Inventario</h2>
               <p className="text-xs text-slate-600">
-                Lista simplificada de productos con estado y último movimiento.
+                Lista simplificada de productos con estado, disponible tras reservas web y último movimiento.
               </p>
             </div>
             <div className="flex items-center gap-2">
@@ -2359,12 +2359,13 @@ export default function MovementsPage() {
             </div>
 
             <div className="h-[min(62vh,720px)] min-h-[340px] overflow-auto">
-              <table className="w-full min-w-[1040px] table-fixed text-[12px]">
+              <table className="w-full min-w-[1120px] table-fixed text-[12px]">
               <colgroup>
                 <col style={{ width: "240px" }} />
                 <col style={{ width: "56px" }} />
                 <col style={{ width: "150px" }} />
                 <col style={{ width: "58px" }} />
+                <col style={{ width: "80px" }} />
                 <col style={{ width: "112px" }} />
                 <col style={{ width: "122px" }} />
                 <col style={{ width: "122px" }} />
@@ -2377,6 +2378,9 @@ export default function MovementsPage() {
                   <th className="px-2 py-2.5 text-left">SKU</th>
                   <th className="px-2 py-2.5 text-left">Categoría</th>
                   <th className="px-2 py-2.5 text-center">Stock</th>
+                  <th className="px-2 py-2.5 text-center" title="Stock menos lo reservado por órdenes web pagadas">
+                    Disponible
+                  </th>
                   <th className="px-2 py-2.5 text-left">Estado</th>
                   <th className="px-2 py-2.5 text-left">Costo en stock</th>
                   <th className="px-2 py-2.5 text-left">Precio en stock</th>
@@ -2387,25 +2391,27 @@ export default function MovementsPage() {
               <tbody className="divide-y divide-slate-200">
                 {inventoryLoading ? (
                   <tr>
-                    <td colSpan={9} className="px-3 py-6 text-sm text-slate-500">
+                    <td colSpan={10} className="px-3 py-6 text-sm text-slate-500">
                       Cargando inventario...
                     </td>
                   </tr>
                 ) : inventoryError ? (
                   <tr>
-                    <td colSpan={9} className="px-3 py-6 text-sm text-rose-600">
+                    <td colSpan={10} className="px-3 py-6 text-sm text-rose-600">
                       {inventoryError}
                     </td>
                   </tr>
                 ) : inventoryItems.length === 0 ? (
                   <tr>
-                    <td colSpan={9} className="px-3 py-6 text-sm text-slate-500">
+                    <td colSpan={10} className="px-3 py-6 text-sm text-slate-500">
                       No hay productos con ese filtro.
                     </td>
                   </tr>
                 ) : (
                   inventoryItems.map((row) => {
                     const status = resolveStatus(row);
+                    const reserved = row.qty_reserved ?? 0;
+                    const available = row.qty_on_hand - reserved;
                     const rowBg =
                       status === "negative"
                         ? "bg-rose-50/80"
@@ -2446,6 +2452,20 @@ export default function MovementsPage() {
                         >
                           {formatQty(row.qty_on_hand)}
                         </td>
+                        <td
+                          className={`${rowBg} px-2 py-2 text-center tabular-nums transition-colors group-hover:bg-sky-50/60`}
+                        >
+                          <span
+                            className={`block font-semibold ${
+                              available < 0 ? "text-rose-700" : reserved > 0 ? "text-amber-700" : "text-slate-800"
+                            }`}
+                          >
+                            {formatQty(available)}
+                          </span>
+                          {reserved > 0 ? (
+                            <span className="block text-[11px] text-slate-500">Web: {formatQty(reserved)}</span>
+                          ) : null}
+                        </td>
                         <td className={`${rowBg} px-2 py-2 transition-colors group-hover:bg-sky-50/60`}>
                           <span className={badgeClass(status)}>{statusLabel(status)}</span>
                         </td>
@@ -4052,6 +4072,26 @@ export default function MovementsPage() {
                       }
                     />
                   </div>
+                  {historyData.qty_reserved ? (
+                    <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                      <p>
+                        Reservado para órdenes web: <strong>{formatQty(historyData.qty_reserved)}</strong> ·
+                        Disponible: <strong>{formatQty(historyData.qty_on_hand - historyData.qty_reserved)}</strong>
+                      </p>
+                      {historyData.reservations?.length ? (
+                        <p className="mt-1 text-xs">
+                          {historyData.reservations
+                            .map(
+                              (reservation) =>
+                                `${reservation.order_document_number || `Orden #${reservation.order_id}`} (${formatQty(
+                                  reservation.quantity
+                                )})`
+                            )
+                            .join(" · ")}
+                        </p>
+                      ) : null}
+                    </div>
+                  ) : null}
                   <div className="mt-4 max-h-80 overflow-y-auto rounded-xl border border-slate-200">
                     {historyData.movements.map((move) => (
                       <div
@@ -13,6 +13,9 @@ import Image from "next/image";
 import { useAuth } from "../../providers/AuthProvider";
 import { getApiBase } from "@/lib/api/base";
 import { fetchInventoryProductHistory } from "@/lib/api/inventory";
+import { fetchPosSettings } from "@/lib/api/settings";
+import { describeRetailBarcodeError, nextInternalEan13 } from "@/lib/utils/barcode";
+import { TAX_RATE_OPTIONS, type TaxRateCode } from "@/lib/pos/taxes";
 import LoadingSpinner from "@/app/components/ui/LoadingSpinner";
 
 type Product = {
@@ -28,6 +31,7 @@ type Product = {
   active: boolean;
   service: boolean;
   includes_tax: boolean;
+  tax_rate?: TaxRateCode | null;
   is_investment: boolean;
   // nuevos
   group_name: string | null;
@@ -64,6 +68,7 @@ type ProductForm = {
   active: boolean;
   service: boolean;
   includes_tax: boolean;
+  tax_rate: TaxRateCode | "";
   is_investment: boolean;
   // nuevos
   group_name: string;
@@ -87,6 +92,7 @@ const emptyForm: ProductForm = {
   active: true,
   service: false,
   includes_tax: false,
+  tax_rate: "",
   is_investment: false,
   group_name: "",
   brand: "",
@@ -281,6 +287,7 @@ function formatAuditFieldLabel(field: string): string {
     active: "estado activo",
     service: "servicio",
     includes_tax: "IVA incluido",
+    tax_rate: "tarifa de IVA",
     is_investment: "producto de inversión",
     group_name: "grupo",
     brand: "marca",
@@ -519,6 +526,7 @@ export default function ProductsPage() {
   const [createSkuLocked, setCreateSkuLocked] = useState(true);
   const [createBarcodeLocked, setCreateBarcodeLocked] = useState(true);
   const [createLabelFormatLocked, setCreateLabelFormatLocked] = useState(true);
+  const [internalBarcodePrefix, setInternalBarcodePrefix] = useState("");
   const [createCostSuggestionMode, setCreateCostSuggestionMode] =
     useState<ProductCostSuggestionMode>("balanced");
   const [createCostSuggestion, setCreateCostSuggestion] = useState<ProductCostSuggestion | null>(null);
@@ -567,6 +575,7 @@ export default function ProductsPage() {
   const [editPriceWarningProduct, setEditPriceWarningProduct] = useState<Product | null>(null);
   const [editPriceWarningQty, setEditPriceWarningQty] = useState(0);
   const [editOriginalPrice, setEditOriginalPrice] = useState<number | null>(null);
+  const [editOriginalBarcode, setEditOriginalBarcode] = useState("");
   const [editSkuLocked, setEditSkuLocked] = useState(true);
   const [editBarcodeLocked, setEditBarcodeLocked] = useState(true);
   const [editLabelFormatLocked, setEditLabelFormatLocked] = useState(true);
@@ -1263,7 +1272,17 @@ export default function ProductsPage() {
 
   function prepareCreateFormWithSuggestions() {
     const suggestedSku = getSuggestedFromField(products, "sku");
-    const suggestedBarcode = getSuggestedFromField(products, "barcode");
+    let suggestedBarcode = getSuggestedFromField(products, "barcode");
+    if (internalBarcodePrefix) {
+      try {
+        suggestedBarcode = nextInternalEan13(
+          internalBarcodePrefix,
+          products.map((p) => p.barcode)
+        );
+      } catch (err) {
+        console.warn("No se pudo generar el EAN-13 interno", err);
+      }
+    }
 
     setCreateForm({
       ...emptyForm,
@@ -1349,6 +1368,7 @@ export default function ProductsPage() {
     setEditId(null);
     setEditForm(emptyForm);
     setEditOriginalPrice(null);
+    setEditOriginalBarcode("");
     setEditOriginalActive(null);
     setProductAppearanceError(null);
     setProductAppearanceSuccess(null);
@@ -2112,9 +2132,30 @@ export default function ProductsPage() {
     void loadGroups();
   }, [authHeaders, loadGroups]);
 
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    fetchPosSettings(token)
+      .then((settings) => {
+        if (cancelled) return;
+        setInternalBarcodePrefix((settings.internal_barcode_prefix ?? "").replace(/\D/g, ""));
+      })
+      .catch((err) => {
+        console.warn("No se pudo cargar el prefijo de códigos internos", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
   // crear producto
   async function handleSubmitCreate(e: FormEvent<HTMLFormElement>) {
     e.preventDefault();
+    const createBarcodeError = describeRetailBarcodeError(createForm.barcode);
+    if (createBarcodeError) {
+      setErrorToastMessage(createBarcodeError);
+      return;
+    }
     if (!confirmUngroupedProduct(createForm.group_name)) {
       return;
     }
@@ -2145,6 +2186,7 @@ export default function ProductsPage() {
         active: createForm.active,
         service: createForm.service,
         includes_tax: createForm.includes_tax,
+        tax_rate: createForm.tax_rate || null,
         is_investment: isAdmin ? createForm.is_investment : false,
         group_name: createForm.group_name || null,
         brand: createForm.brand || null,
@@ -2193,6 +2235,7 @@ export default function ProductsPage() {
   function openEdit(product: Product) {
     setEditId(product.id);
     setEditOriginalPrice(product.price);
+    setEditOriginalBarcode((product.barcode ?? "").trim());
     setEditOriginalActive(product.active);
     setEditForm({
       sku: product.sku ?? "",
@@ -2207,6 +2250,7 @@ export default function ProductsPage() {
       active: product.active,
       service: product.service,
       includes_tax: product.includes_tax,
+      tax_rate: product.tax_rate ?? "",
       is_investment: product.is_investment,
       group_name: product.group_name ?? "",
       brand: product.brand ?? "",
@@ -2338,6 +2382,7 @@ export default function ProductsPage() {
       payload.active = editForm.active;
       payload.service = editForm.service;
       payload.includes_tax = editForm.includes_tax;
+      payload.tax_rate = editForm.tax_rate || null;
       if (isAdmin) {
         payload.is_investment = editForm.is_investment;
       }
@@ -2388,6 +2433,16 @@ export default function ProductsPage() {
   async function handleSubmitEdit(e: FormEvent<HTMLFormElement>) {
     e.preventDefault();
     if (editId == null) return;
+    // Los códigos heredados con dígito de control errado no bloquean la
+    // edición del resto del producto; solo se valida un código nuevo.
+    const editBarcodeChanged = editForm.barcode.trim() !== editOriginalBarcode;
+    const editBarcodeError = editBarcodeChanged
+      ? describeRetailBarcodeError(editForm.barcode)
+      : null;
+    if (editBarcodeError) {
+      setErrorToastMessage(editBarcodeError);
+      return;
+    }
     if (!confirmUngroupedProduct(editForm.group_name)) {
       return;
     }
@@ -4198,6 +4253,11 @@ export default function ProductsPage() {
                     {createBarcodeLocked ? "🔒" : "🔓"}
                   </button>
                 </div>
+                {describeRetailBarcodeError(createForm.barcode) && (
+                  <p className="text-xs text-rose-300">
+                    {describeRetailBarcodeError(createForm.barcode)}
+                  </p>
+                )}
               </div>
 
               <div className="space-y-1">
@@ -4242,6 +4302,25 @@ export default function ProductsPage() {
                 />
               </div>
 
+              <div className="space-y-1">
+                <label className="block text-slate-300">Tarifa de IVA</label>
+                <select
+                  name="tax_rate"
+                  value={createForm.tax_rate}
+                  onChange={(e) => handleFormChange(e, setCreateForm)}
+                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 outline-none focus:border-emerald-400"
+                >
+                  <option value="">
+                    Automática (IVA 19%)
+                  </option>
+                  {TAX_RATE_OPTIONS.map((option) => (
+                    <option key={option.code} value={option.code}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div className="flex flex-col justify-center gap-1">
                 <label className="inline-flex items-center gap-2 text-slate-300">
                   <input
@@ -4644,6 +4723,19 @@ export default function ProductsPage() {
                     {editBarcodeLocked ? "🔒" : "🔓"}
                   </button>
                 </div>
+                {describeRetailBarcodeError(editForm.barcode) && (
+                  <p
+                    className={`text-xs ${
+                      editForm.barcode.trim() === editOriginalBarcode
+                        ? "text-amber-300"
+                        : "text-rose-300"
+                    }`}
+                  >
+                    {describeRetailBarcodeError(editForm.barcode)}
+                    {editForm.barcode.trim() === editOriginalBarcode &&
+                      " Puedes guardar los demás cambios, pero conviene corregirlo."}
+                  </p>
+                )}
               </div>
 
               <div className="space-y-1">
@@ -4688,6 +4780,25 @@ export default function ProductsPage() {
                 />
               </div>
 
+              <div className="space-y-1">
+                <label className="block text-slate-300">Tarifa de IVA</label>
+                <select
+                  name="tax_rate"
+                  value={editForm.tax_rate}
+                  onChange={(e) => handleFormChange(e, setEditForm)}
+                  className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 outline-none focus:border-emerald-400"
+                >
+                  <option value="">
+                    Automática (IVA 19%)
+                  </option>
+                  {TAX_RATE_OPTIONS.map((option) => (
+                    <option key={option.code} value={option.code}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div className="flex flex-col justify-center gap-1">
                 <label className="inline-flex items-center gap-2 text-slate-300">
                   <input
@@ -22,6 +22,14 @@ import {
   RolePermissionModule,
 } from "@/lib/api/settings";
 import { SHOW_FREE_SALE_TRACEABILITY_REPORT } from "@/lib/config/featureFlags";
+import { attributeSaleToSellers } from "@/lib/pos/sellers";
+import {
+  describeTaxBreakdown,
+  getTaxRateOption,
+  isTaxRateCode,
+  splitTaxAmount,
+  taxBreakdownFromItems,
+} from "@/lib/pos/taxes";
 import { usePaymentMethodLabelResolver } from "@/app/hooks/usePaymentMethodLabelResolver";
 import LoadingSpinner from "../../../components/ui/LoadingSpinner";
 import {
@@ -59,6 +67,9 @@ type ReportSaleItem = {
   quantity: number;
   unit_price?: number;
   line_discount_value?: number;
+  total?: number;
+  /** Vendedor de la línea cuando la caja atribuye por línea. */
+  seller_name?: string | null;
 };
 
 type ReportSaleReturnItem = {
@@ -115,6 +126,8 @@ type ReportSale = {
   balance?: number | null;
   pos_name?: string | null;
   vendor_name?: string | null;
+  /** Usuario que cobró; en ventas anteriores coincide con `vendor_name`. */
+  cashier_name?: string | null;
   customer_name?: string | null;
   customer_phone?: string | null;
   customer_email?: string | null;
@@ -125,6 +138,8 @@ type ReportSale = {
   returns?: ReportSaleReturn[];
   surcharge_amount?: number | null;
   surcharge_label?: string | null;
+  loyalty_points_earned?: number | null;
+  loyalty_points_redeemed?: number | null;
 };
 
 type DashboardDailySalesPoint = {
@@ -1267,13 +1282,15 @@ function filterSalesByMeta(
       }
     }
 
-    if (
-      meta.sellerFilter &&
-      !normalizeText(sale.vendor_name).includes(
-        meta.sellerFilter.toLowerCase().trim()
-      )
-    ) {
-      return false;
+    if (meta.sellerFilter) {
+      const sellerTerm = meta.sellerFilter.toLowerCase().trim();
+      const sellerNames = [
+        sale.vendor_name,
+        ...(sale.items ?? []).map((item) => item.seller_name),
+      ];
+      if (!sellerNames.some((name) => normalizeText(name).includes(sellerTerm))) {
+        return false;
+      }
     }
 
     return true;
@@ -2173,27 +2190,84 @@ const dateTimeFormatter = (iso: string) =>
         surchargeTotal: totalSurcharge,
       };
     }
-    case "seller-performance":
+    case "seller-performance": {
+      // Con vendedor por línea, una venta compartida suma a cada vendedor su parte.
+      const sellerMap = new Map<string, { total: number; tickets: Set<number> }>();
+      sales.forEach((sale) => {
+        attributeSaleToSellers(sale).forEach((share) => {
+          if (!sellerMap.has(share.sellerName)) {
+            sellerMap.set(share.sellerName, { total: 0, tickets: new Set() });
+          }
+          const entry = sellerMap.get(share.sellerName)!;
+          entry.total += share.amount;
+          entry.tickets.add(sale.id);
+        });
+      });
+      const rows = Array.from(sellerMap.entries())
+        .sort((a, b) => b[1].total - a[1].total)
+        .map(([seller, entry]) => [
+          seller,
+          formatMoney(entry.total),
+          entry.tickets.size.toString(),
+          formatMoney(entry.tickets.size ? entry.total / entry.tickets.size : 0),
+        ]);
+      return {
+        summary: [
+          { label: "Vendedores activos", value: rows.length.toString() },
+          { label: "Ventas netas", value: formatMoney(totalNet) },
+          { label: "Ticket promedio", value: formatMoney(avgTicket) },
+        ],
+        table: {
+          columns: ["Vendedor", "Ventas", "Tickets", "Ticket promedio"],
+          rows,
+        },
+        surchargeTotal: totalSurcharge,
+      };
+    }
     case "pos-user-conciliation": {
-      const vendorMap = groupBy((sale) => sale.vendor_name ?? "Sin vendedor");
-      const rows = Array.from(vendorMap.entries())
+      const cashierMap = new Map<
+        string,
+        { total: number; count: number; byOthers: number }
+      >();
+      sales.forEach((sale) => {
+        const cashier =
+          sale.cashier_name?.trim() || sale.vendor_name?.trim() || "Sin cajero";
+        if (!cashierMap.has(cashier)) {
+          cashierMap.set(cashier, { total: 0, count: 0, byOthers: 0 });
+        }
+        const entry = cashierMap.get(cashier)!;
+        entry.total += sale.total ?? 0;
+        entry.count += 1;
+        entry.byOthers += attributeSaleToSellers(sale)
+          .filter((share) => share.sellerName !== cashier)
+          .reduce((sum, share) => sum + share.amount, 0);
+      });
+      const rows = Array.from(cashierMap.entries())
         .sort((a, b) => b[1].total - a[1].total)
-        .map(([vendor, entry]) => [
-          vendor,
+        .map(([cashier, entry]) => [
+          cashier,
           formatMoney(entry.total),
           entry.count.toString(),
           formatMoney(entry.count ? entry.total / entry.count : 0),
+          formatMoney(entry.byOthers),
         ]);
       return {
         summary: [
-          { label: "Vendedores activos", value: rows.length.toString() },
+          { label: "Cajeros activos", value: rows.length.toString() },
           { label: "Ventas netas", value: formatMoney(totalNet) },
           { label: "Ticket promedio", value: formatMoney(avgTicket) },
         ],
         table: {
-          columns: ["Vendedor", "Ventas", "Tickets", "Ticket promedio"],
+          columns: [
+            "Cajero",
+            "Ventas cobradas",
+            "Tickets",
+            "Ticket promedio",
+            "Vendido por otros",
+          ],
           rows,
         },
+        note: "“Vendido por otros” es la parte de lo cobrado que corresponde a otros vendedores de la misma caja.",
         surchargeTotal: totalSurcharge,
       };
     }
@@ -2465,10 +2539,21 @@ const dateTimeFormatter = (iso: string) =>
     }
     case "loyalty-repeat": {
       const clientCounts = new Map<string, number>();
+      const clientPoints = new Map<string, number>();
+      let pointsEarned = 0;
+      let pointsRedeemed = 0;
       sales.forEach((sale) => {
         const key = sale.customer_name ?? sale.customer_email ?? "Sin cliente";
         clientCounts.set(key, (clientCounts.get(key) ?? 0) + 1);
+        const earned = sale.loyalty_points_earned ?? 0;
+        const redeemed = sale.loyalty_points_redeemed ?? 0;
+        pointsEarned += earned;
+        pointsRedeemed += redeemed;
+        if (earned || redeemed) {
+          clientPoints.set(key, (clientPoints.get(key) ?? 0) + earned - redeemed);
+        }
       });
+      const hasPoints = pointsEarned > 0 || pointsRedeemed > 0;
       let newClients = 0;
       let returning = 0;
       clientCounts.forEach((count) => {
@@ -2481,6 +2566,7 @@ const dateTimeFormatter = (iso: string) =>
           client,
           count > 1 ? "Recurrente" : "Nuevo",
           `${count} compra${count > 1 ? "s" : ""}`,
+          ...(hasPoints ? [(clientPoints.get(client) ?? 0).toLocaleString("es-CO")] : []),
         ]);
       return {
         summary: [
@@ -2493,9 +2579,15 @@ const dateTimeFormatter = (iso: string) =>
                 ? `${((returning / clientCounts.size) * 100).toFixed(1)}%`
                 : "0%",
           },
+          ...(hasPoints
+            ? [
+                { label: "Puntos otorgados", value: pointsEarned.toLocaleString("es-CO") },
+                { label: "Puntos redimidos", value: pointsRedeemed.toLocaleString("es-CO") },
+              ]
+            : []),
         ],
         table: {
-          columns: ["Cliente", "Tipo", "Compras"],
+          columns: ["Cliente", "Tipo", "Compras", ...(hasPoints ? ["Puntos netos"] : [])],
           rows,
         },
         surchargeTotal: totalSurcharge,
@@ -5065,6 +5157,12 @@ export default function ReportsPage() {
         },
         token
       );
+      const taxBreakdown = taxBreakdownFromItems(
+        response.rows.map((row) => ({
+          total: Number(row.line_total ?? 0),
+          taxRate: isTaxRateCode(row.tax_rate) ? row.tax_rate : null,
+        }))
+      );
       const snapshot: ReportResult = {
         summary: [
           { label: "Unidades vendidas", value: String(response.units ?? 0) },
@@ -5072,6 +5170,12 @@ export default function ReportsPage() {
           { label: "Valor de productos", value: formatMoney(response.product_value ?? 0) },
           { label: "Separados pendientes", value: formatMoney(response.separated_pending ?? 0) },
           { label: "Valor cobrado asociado", value: formatMoney(response.collected_value ?? 0) },
+          ...(taxBreakdown
+            ? describeTaxBreakdown(taxBreakdown).map((row) => ({
+                label: row.label,
+                value: formatMoney(row.amount),
+              }))
+            : []),
         ],
         table: {
           columns: [
@@ -5081,19 +5185,31 @@ export default function ReportsPage() {
             "Precio unitario",
             "Cantidad",
             "Total línea",
+            ...(taxBreakdown ? ["Tarifa", "Base", "IVA"] : []),
             "Ticket",
           ],
-          rows: response.rows.map((row) => [
-            row.date
-              ? formatBogotaDate(row.date, { dateStyle: "short" }) || "—"
-              : "—",
-            row.product || "Producto sin nombre",
-            row.sku || "—",
-            formatMoney(row.unit_price ?? 0),
-            String(row.quantity ?? 0),
-            formatMoney(row.line_total ?? 0),
-            row.document || "—",
-          ]),
+          rows: response.rows.map((row) => {
+            const lineTotal = row.line_total ?? 0;
+            const taxOption =
+              taxBreakdown && isTaxRateCode(row.tax_rate)
+                ? getTaxRateOption(row.tax_rate)
+                : null;
+            const split = taxOption ? splitTaxAmount(lineTotal, taxOption.percent) : null;
+            return [
+              row.date
+                ? formatBogotaDate(row.date, { dateStyle: "short" }) || "—"
+                : "—",
+              row.product || "Producto sin nombre",
+              row.sku || "—",
+              formatMoney(row.unit_price ?? 0),
+              String(row.quantity ?? 0),
+              formatMoney(lineTotal),
+              ...(taxOption && split
+                ? [taxOption.label, formatMoney(split.base), formatMoney(split.tax)]
+                : []),
+              row.document || "—",
+            ];
+          }),
           emptyMessage: "No se registraron productos vendidos en este periodo.",
         },
         note:
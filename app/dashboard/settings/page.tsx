@@ -15,6 +15,10 @@ import {
 import {
   ThemeOption,
   PosSettingsPayload,
+  PosElectronicInvoiceSettings,
+  PosLoyaltySettings,
+  PosPromotionKind,
+  PosPromotionRule,
   PosPrinterMode,
   PosPrinterWidth,
   fetchPosSettings,
@@ -45,6 +49,10 @@ import {
   deleteStockDevice,
   StockDeviceRecord,
 } from "@/lib/api/settings";
+import {
+  fetchComercioWebCatalogCombos,
+  type ComercioWebCombo,
+} from "@/lib/api/comercioWebCatalog";
 import {
   fetchPaymentMethods,
   createPaymentMethod,
@@ -69,12 +77,232 @@ import {
   type SeparatedOrderPayment,
 } from "@/lib/api/separatedOrders";
 import { isTenantModuleEnabled } from "@/lib/tenantModules";
+import { describeInternalPrefixError } from "@/lib/utils/barcode";
 import {
   buildBogotaDateFromKey,
   formatBogotaDate,
   getBogotaDateKey,
 } from "@/lib/time/bogota";
 
+type ElectronicInvoiceFormState = {
+  environment: PosElectronicInvoiceSettings["environment"];
+  resolutionNumber: string;
+  prefix: string;
+  rangeFrom: string;
+  rangeTo: string;
+  validFrom: string;
+  validTo: string;
+  technicalKey: string;
+  softwareId: string;
+  softwarePin: string;
+  defaultTaxRate: string;
+  pricesIncludeTax: boolean;
+  taxScheme: NonNullable<PosElectronicInvoiceSettings["tax_scheme"]>;
+  /** Códigos del RUT separados por coma, p. ej. O-13, O-15. */
+  taxResponsibilities: string;
+  creditNotePrefix: string;
+  creditNoteRangeFrom: string;
+  creditNoteRangeTo: string;
+};
+
+const defaultElectronicInvoiceForm: ElectronicInvoiceFormState = {
+  environment: "testing",
+  resolutionNumber: "",
+  prefix: "",
+  rangeFrom: "",
+  rangeTo: "",
+  validFrom: "",
+  validTo: "",
+  technicalKey: "",
+  softwareId: "",
+  softwarePin: "",
+  defaultTaxRate: "19",
+  pricesIncludeTax: true,
+  taxScheme: "01",
+  taxResponsibilities: "",
+  creditNotePrefix: "",
+  creditNoteRangeFrom: "",
+  creditNoteRangeTo: "",
+};
+
+const ELECTRONIC_INVOICE_TEXT_FIELDS: {
+  key: Exclude<
+    keyof ElectronicInvoiceFormState,
+    "environment" | "pricesIncludeTax" | "taxScheme"
+  >;
+  label: string;
+  type?: string;
+}[] = [
+  { key: "resolutionNumber", label: "Número de resolución" },
+  { key: "prefix", label: "Prefijo" },
+  { key: "rangeFrom", label: "Consecutivo desde", type: "number" },
+  { key: "rangeTo", label: "Consecutivo hasta", type: "number" },
+  { key: "validFrom", label: "Vigente desde", type: "date" },
+  { key: "validTo", label: "Vigente hasta", type: "date" },
+  { key: "technicalKey", label: "Clave técnica" },
+  { key: "softwareId", label: "Identificador del software" },
+  { key: "softwarePin", label: "PIN del software", type: "password" },
+  { key: "defaultTaxRate", label: "IVA por defecto (%)", type: "number" },
+  { key: "taxResponsibilities", label: "Responsabilidades fiscales (RUT)" },
+  { key: "creditNotePrefix", label: "Prefijo de notas crédito" },
+  { key: "creditNoteRangeFrom", label: "Notas crédito desde", type: "number" },
+  { key: "creditNoteRangeTo", label: "Notas crédito hasta", type: "number" },
+];
+
+type PromotionFormState = {
+  id: string;
+  name: string;
+  active: boolean;
+  kind: PosPromotionKind;
+  buyQuantity: string;
+  getQuantity: string;
+  getDiscountPercent: string;
+  percent: string;
+  comboId: string;
+  productIds: string;
+  groupNames: string;
+  brands: string;
+  days: number[];
+  startTime: string;
+  endTime: string;
+  startsOn: string;
+  endsOn: string;
+};
+
+const PROMOTION_KIND_OPTIONS: { id: PosPromotionKind; label: string }[] = [
+  { id: "buy_x_get_y", label: "Lleve X obtenga Y" },
+  { id: "percent_off", label: "Porcentaje" },
+  { id: "bundle", label: "Combo" },
+];
+
+const PROMOTION_WEEKDAYS = ["Dom", "Lun", "Mar", "Mié", "Jue", "Vie", "Sáb"];
+
+const createPromotionForm = (kind: PosPromotionKind): PromotionFormState => ({
+  id: crypto.randomUUID(),
+  name: kind === "buy_x_get_y" ? "2x1" : "",
+  active: true,
+  kind,
+  buyQuantity: "1",
+  getQuantity: "1",
+  getDiscountPercent: "100",
+  percent: "10",
+  comboId: "",
+  productIds: "",
+  groupNames: "",
+  brands: "",
+  days: [],
+  startTime: "",
+  endTime: "",
+  startsOn: "",
+  endsOn: "",
+});
+
+const splitListField = (value: string) =>
+  value
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+function promotionFormFromRule(rule: PosPromotionRule): PromotionFormState {
+  const numberText = (value?: number | null) =>
+    typeof value === "number" && Number.isFinite(value) ? String(value) : "";
+  return {
+    ...createPromotionForm(rule.kind),
+    id: rule.id,
+    name: rule.name ?? "",
+    active: rule.active !== false,
+    buyQuantity: numberText(rule.buy_quantity),
+    getQuantity: numberText(rule.get_quantity),
+    getDiscountPercent: numberText(rule.get_discount_percent ?? 100),
+    percent: numberText(rule.percent),
+    comboId: numberText(rule.combo_id),
+    productIds: (rule.target?.product_ids ?? []).join(", "),
+    groupNames: (rule.target?.group_names ?? []).join(", "),
+    brands: (rule.target?.brands ?? []).join(", "),
+    days: rule.schedule?.days ?? [],
+    startTime: rule.schedule?.start_time ?? "",
+    endTime: rule.schedule?.end_time ?? "",
+    startsOn: rule.schedule?.starts_on ?? "",
+    endsOn: rule.schedule?.ends_on ?? "",
+  };
+}
+
+function promotionRuleFromForm(promotion: PromotionFormState): PosPromotionRule {
+  const toNumber = (value: string) => {
+    const num = Number(value);
+    return value.trim() && Number.isFinite(num) ? num : undefined;
+  };
+  const productIds = splitListField(promotion.productIds)
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+  const groupNames = splitListField(promotion.groupNames);
+  const brands = splitListField(promotion.brands);
+  const hasSchedule =
+    promotion.days.length > 0 ||
+    Boolean(promotion.startTime || promotion.endTime || promotion.startsOn || promotion.endsOn);
+  return {
+    id: promotion.id,
+    name: promotion.name.trim() || "Promoción",
+    active: promotion.active,
+    kind: promotion.kind,
+    target:
+      promotion.kind === "bundle" ||
+      (!productIds.length && !groupNames.length && !brands.length)
+        ? null
+        : { product_ids: productIds, group_names: groupNames, brands },
+    buy_quantity:
+      promotion.kind === "buy_x_get_y" ? toNumber(promotion.buyQuantity) : undefined,
+    get_quantity:
+      promotion.kind === "buy_x_get_y" ? toNumber(promotion.getQuantity) : undefined,
+    get_discount_percent:
+      promotion.kind === "buy_x_get_y"
+        ? toNumber(promotion.getDiscountPercent)
+        : undefined,
+    percent: promotion.kind === "percent_off" ? toNumber(promotion.percent) : undefined,
+    combo_id: promotion.kind === "bundle" ? toNumber(promotion.comboId) ?? null : undefined,
+    schedule: hasSchedule
+      ? {
+          days: promotion.days.length ? promotion.days : undefined,
+          start_time: promotion.startTime || undefined,
+          end_time: promotion.endTime || undefined,
+          starts_on: promotion.startsOn || undefined,
+          ends_on: promotion.endsOn || undefined,
+        }
+      : null,
+  };
+}
+
+type LoyaltyFormState = {
+  enabled: boolean;
+  earnRates: Record<string, string>;
+  pointValue: string;
+  minRedeemPoints: string;
+  expiryDays: string;
+};
+
+const defaultLoyaltyForm: LoyaltyFormState = {
+  enabled: false,
+  earnRates: {},
+  pointValue: "10",
+  minRedeemPoints: "",
+  expiryDays: "365",
+};
+
+function loyaltyFormFromSettings(
+  loyalty: PosLoyaltySettings | null | undefined
+): LoyaltyFormState {
+  if (!loyalty) return defaultLoyaltyForm;
+  return {
+    enabled: Boolean(loyalty.enabled),
+    earnRates: Object.fromEntries(
+      Object.entries(loyalty.earn_rates ?? {}).map(([slug, rate]) => [slug, String(rate)])
+    ),
+    pointValue: String(loyalty.point_value ?? ""),
+    minRedeemPoints: loyalty.min_redeem_points ? String(loyalty.min_redeem_points) : "",
+    expiryDays: loyalty.expiry_days ? String(loyalty.expiry_days) : "",
+  };
+}
+
 type SettingsFormState = {
   companyName: string;
   taxId: string;
@@ -89,6 +317,11 @@ type SettingsFormState = {
   autoCloseTickets: boolean;
   lowStockAlert: boolean;
   requireSellerPin: boolean;
+  sellerPerLine: boolean;
+  internalBarcodePrefix: string;
+  electronicInvoice: ElectronicInvoiceFormState;
+  promotions: PromotionFormState[];
+  loyalty: LoyaltyFormState;
   notifications: {
     dailySummaryEmail: boolean;
     cashAlertEmail: boolean;
@@ -126,6 +359,11 @@ const defaultForm: SettingsFormState = {
   autoCloseTickets: false,
   lowStockAlert: true,
   requireSellerPin: false,
+  sellerPerLine: false,
+  internalBarcodePrefix: "",
+  electronicInvoice: defaultElectronicInvoiceForm,
+  promotions: [],
+  loyalty: defaultLoyaltyForm,
   notifications: {
     dailySummaryEmail: false,
     cashAlertEmail: false,
@@ -239,6 +477,8 @@ type SettingsTab =
   | "company"
   | "appearance"
   | "pos"
+  | "promotions"
+  | "loyalty"
   | "payments"
   | "notifications"
   | "security"
@@ -266,6 +506,16 @@ const SETTINGS_TABS: {
     label: "Preferencias POS",
     description: "Comportamiento de caja y requisitos del cajero.",
   },
+  {
+    id: "promotions",
+    label: "Promociones",
+    description: "2x1, descuentos por grupo o marca, happy hours y combos.",
+  },
+  {
+    id: "loyalty",
+    label: "Fidelización",
+    description: "Puntos por compra, valor del punto y vencimiento.",
+  },
   {
     id: "payments",
     label: "Métodos de pago",
@@ -547,6 +797,31 @@ function mapFromApi(payload: PosSettingsPayload): SettingsFormState {
     autoCloseTickets: Boolean(payload.auto_close_ticket),
     lowStockAlert: Boolean(payload.low_stock_alert),
     requireSellerPin: Boolean(payload.require_seller_pin),
+    sellerPerLine: Boolean(payload.seller_per_line),
+    internalBarcodePrefix: safeString(payload.internal_barcode_prefix, ""),
+    electronicInvoice: payload.electronic_invoice
+      ? {
+          environment: payload.electronic_invoice.environment ?? "testing",
+          resolutionNumber: safeString(payload.electronic_invoice.resolution_number, ""),
+          prefix: safeString(payload.electronic_invoice.prefix, ""),
+          rangeFrom: String(payload.electronic_invoice.range_from ?? ""),
+          rangeTo: String(payload.electronic_invoice.range_to ?? ""),
+          validFrom: safeString(payload.electronic_invoice.valid_from, ""),
+          validTo: safeString(payload.electronic_invoice.valid_to, ""),
+          technicalKey: safeString(payload.electronic_invoice.technical_key, ""),
+          softwareId: safeString(payload.electronic_invoice.software_id, ""),
+          softwarePin: safeString(payload.electronic_invoice.software_pin, ""),
+          defaultTaxRate: String(payload.electronic_invoice.default_tax_rate ?? 19),
+          pricesIncludeTax: payload.electronic_invoice.prices_include_tax ?? true,
+          taxScheme: payload.electronic_invoice.tax_scheme ?? "01",
+          taxResponsibilities: (payload.electronic_invoice.tax_responsibilities ?? []).join(", "),
+          creditNotePrefix: safeString(payload.electronic_invoice.credit_note_prefix, ""),
+          creditNoteRangeFrom: String(payload.electronic_invoice.credit_note_range_from ?? ""),
+          creditNoteRangeTo: String(payload.electronic_invoice.credit_note_range_to ?? ""),
+        }
+      : defaultElectronicInvoiceForm,
+    promotions: (payload.promotions ?? []).map(promotionFormFromRule),
+    loyalty: loyaltyFormFromSettings(payload.loyalty),
     notifications: {
       dailySummaryEmail: payload.notifications.daily_summary_email,
       cashAlertEmail: payload.notifications.cash_alert_email,
@@ -614,6 +889,41 @@ function mapToApi(form: SettingsFormState): PosSettingsPayload {
     auto_close_ticket: form.autoCloseTickets,
     low_stock_alert: form.lowStockAlert,
     require_seller_pin: form.requireSellerPin,
+    seller_per_line: form.sellerPerLine,
+    internal_barcode_prefix: form.internalBarcodePrefix.replace(/\D/g, "") || null,
+    electronic_invoice: form.electronicInvoice.technicalKey.trim()
+      ? {
+          environment: form.electronicInvoice.environment,
+          resolution_number: form.electronicInvoice.resolutionNumber.trim(),
+          prefix: form.electronicInvoice.prefix.trim(),
+          range_from: parseNumberField(form.electronicInvoice.rangeFrom) ?? 0,
+          range_to: parseNumberField(form.electronicInvoice.rangeTo) ?? 0,
+          valid_from: form.electronicInvoice.validFrom,
+          valid_to: form.electronicInvoice.validTo,
+          technical_key: form.electronicInvoice.technicalKey.trim(),
+          software_id: form.electronicInvoice.softwareId.trim(),
+          software_pin: form.electronicInvoice.softwarePin.trim(),
+          default_tax_rate: parseNumberField(form.electronicInvoice.defaultTaxRate) ?? null,
+          prices_include_tax: form.electronicInvoice.pricesIncludeTax,
+          tax_scheme: form.electronicInvoice.taxScheme,
+          tax_responsibilities: splitListField(form.electronicInvoice.taxResponsibilities),
+          credit_note_prefix: form.electronicInvoice.creditNotePrefix.trim() || null,
+          credit_note_range_from: parseNumberField(form.electronicInvoice.creditNoteRangeFrom) ?? null,
+          credit_note_range_to: parseNumberField(form.electronicInvoice.creditNoteRangeTo) ?? null,
+        }
+      : null,
+    promotions: form.promotions.map(promotionRuleFromForm),
+    loyalty: {
+      enabled: form.loyalty.enabled,
+      earn_rates: Object.fromEntries(
+        Object.entries(form.loyalty.earnRates)
+          .map(([slug, rate]) => [slug, parseNumberField(rate) ?? 0] as const)
+          .filter(([, rate]) => rate > 0)
+      ),
+      point_value: parseNumberField(form.loyalty.pointValue) ?? 0,
+      min_redeem_points: parseNumberField(form.loyalty.minRedeemPoints) ?? null,
+      expiry_days: parseNumberField(form.loyalty.expiryDays) ?? null,
+    },
     notifications: {
       daily_summary_email: form.notifications.dailySummaryEmail,
       cash_alert_email: form.notifications.cashAlertEmail,
@@ -655,6 +965,9 @@ export default function SettingsPage() {
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
   const [saveToastVisible, setSaveToastVisible] = useState(false);
   const saveToastTimerRef = useRef<number | null>(null);
+  const internalBarcodePrefixError = form.internalBarcodePrefix
+    ? describeInternalPrefixError(form.internalBarcodePrefix)
+    : null;
 
   const [users, setUsers] = useState<PosUserRecord[]>([]);
   const [usersLoading, setUsersLoading] = useState(true);
@@ -736,6 +1049,9 @@ export default function SettingsPage() {
     error: null,
     saving: false,
   });
+  const [promotionCombos, setPromotionCombos] = useState<ComercioWebCombo[] | null>(
+    null
+  );
   const [paymentMethods, setPaymentMethods] = useState<
     PaymentMethodRecord[]
   >([]);
@@ -2240,6 +2556,22 @@ export default function SettingsPage() {
     loadControlData,
   ]);
 
+  useEffect(() => {
+    if (activeTab !== "promotions" || !token || promotionCombos) return;
+    let cancelled = false;
+    fetchComercioWebCatalogCombos(token, { active_only: true })
+      .then((combos) => {
+        if (!cancelled) setPromotionCombos(combos);
+      })
+      .catch((err) => {
+        console.warn("No se pudieron cargar los combos para promociones", err);
+        if (!cancelled) setPromotionCombos([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTab, token, promotionCombos]);
+
   useEffect(() => {
     if (activeTab !== "kora") return;
     loadKoraMetrics();
@@ -2508,6 +2840,10 @@ export default function SettingsPage() {
 
   async function handleSaveSettings() {
     if (!token) return;
+    if (internalBarcodePrefixError) {
+      setSettingsError(internalBarcodePrefixError);
+      return;
+    }
     try {
       setSavingSettings(true);
       setSaveMessage(null);
@@ -3146,6 +3482,101 @@ export default function SettingsPage() {
           />
         </div>
       </div>
+      <div className="rounded-xl border border-[var(--border)] p-4 bg-[var(--surface)] shadow-[var(--shadow-card)] space-y-3 text-sm">
+        <div>
+          <h3 className="font-semibold text-slate-200">Facturación electrónica DIAN</h3>
+          <p className="text-xs text-slate-400">
+            Datos de la resolución de numeración y del software habilitado. Con la
+            clave técnica diligenciada, las ventas se emiten a la DIAN desde
+            Documentos y las devoluciones y cambios generan su nota crédito.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {(
+            [
+              { id: "testing", label: "Habilitación (pruebas)" },
+              { id: "production", label: "Producción" },
+            ] as const
+          ).map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() =>
+                updateForm("electronicInvoice", {
+                  ...form.electronicInvoice,
+                  environment: option.id,
+                })
+              }
+              className={`rounded-full border px-3 py-1.5 font-medium transition ${
+                form.electronicInvoice.environment === option.id
+                  ? "border-emerald-400 bg-emerald-500/15 text-emerald-200"
+                  : "border-slate-700 bg-slate-950 text-slate-300 hover:border-slate-500"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid md:grid-cols-2 gap-4">
+          {ELECTRONIC_INVOICE_TEXT_FIELDS.map((field) => (
+            <label key={field.key} className="flex flex-col gap-1">
+              <span className="text-slate-400">{field.label}</span>
+              <input
+                type={field.type ?? "text"}
+                value={form.electronicInvoice[field.key]}
+                onChange={(e) =>
+                  updateForm("electronicInvoice", {
+                    ...form.electronicInvoice,
+                    [field.key]: e.target.value,
+                  })
+                }
+                className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-slate-400">Régimen de la empresa</span>
+          {(
+            [
+              { id: "01", label: "Responsable de IVA" },
+              { id: "ZZ", label: "No responsable de IVA" },
+            ] as const
+          ).map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() =>
+                updateForm("electronicInvoice", {
+                  ...form.electronicInvoice,
+                  taxScheme: option.id,
+                })
+              }
+              className={`rounded-full border px-3 py-1.5 font-medium transition ${
+                form.electronicInvoice.taxScheme === option.id
+                  ? "border-emerald-400 bg-emerald-500/15 text-emerald-200"
+                  : "border-slate-700 bg-slate-950 text-slate-300 hover:border-slate-500"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-300">
+          <input
+            type="checkbox"
+            checked={form.electronicInvoice.pricesIncludeTax}
+            onChange={(e) =>
+              updateForm("electronicInvoice", {
+                ...form.electronicInvoice,
+                pricesIncludeTax: e.target.checked,
+              })
+            }
+            className="h-4 w-4 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500"
+          />
+          Los precios de venta ya incluyen IVA
+        </label>
+      </div>
     </article>
   );
 
@@ -3272,6 +3703,348 @@ export default function SettingsPage() {
     </article>
   );
 
+  const updateLoyalty = (patch: Partial<LoyaltyFormState>) => {
+    updateForm("loyalty", { ...form.loyalty, ...patch });
+  };
+
+  const loyaltyContent = (
+    <article className="rounded-2xl border border-slate-800 bg-slate-900/70 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold">Puntos de fidelización</h2>
+        <p className="text-sm text-slate-400 max-w-xl">
+          Los clientes identificados en caja acumulan puntos según el método con
+          el que pagan y pueden redimirlos en pago múltiple. El saldo sale impreso
+          en el ticket y los movimientos se consultan desde Clientes.
+        </p>
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={form.loyalty.enabled}
+          onChange={(e) => updateLoyalty({ enabled: e.target.checked })}
+          className="h-4 w-4 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500"
+        />
+        Activar el programa de puntos
+      </label>
+      <div className="grid md:grid-cols-3 gap-4 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-slate-400">Valor de un punto ($)</span>
+          <input
+            type="number"
+            min={1}
+            value={form.loyalty.pointValue}
+            onChange={(e) => updateLoyalty({ pointValue: e.target.value })}
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-slate-400">Mínimo de puntos para redimir</span>
+          <input
+            type="number"
+            min={0}
+            value={form.loyalty.minRedeemPoints}
+            onChange={(e) => updateLoyalty({ minRedeemPoints: e.target.value })}
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-slate-400">Vencimiento (días)</span>
+          <input
+            type="number"
+            min={0}
+            value={form.loyalty.expiryDays}
+            onChange={(e) => updateLoyalty({ expiryDays: e.target.value })}
+            placeholder="Sin vencimiento"
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+          />
+        </label>
+      </div>
+      <div className="rounded-xl border border-[var(--border)] p-4 bg-[var(--surface)] shadow-[var(--shadow-card)] space-y-3 text-sm">
+        <div>
+          <h3 className="font-semibold text-slate-200">Puntos por cada $1.000 pagados</h3>
+          <p className="text-xs text-slate-400">
+            Deja en blanco o en cero los métodos que no acumulan (por ejemplo,
+            crédito). El cambio entregado no cuenta.
+          </p>
+        </div>
+        {paymentMethods.length === 0 && (
+          <p className="text-xs text-slate-500">No hay métodos de pago configurados.</p>
+        )}
+        <div className="grid md:grid-cols-3 gap-3">
+          {paymentMethods.map((method) => (
+            <label key={method.id} className="flex flex-col gap-1">
+              <span className="text-slate-400">{method.name}</span>
+              <input
+                type="number"
+                min={0}
+                step="0.1"
+                value={form.loyalty.earnRates[method.slug] ?? ""}
+                onChange={(e) =>
+                  updateLoyalty({
+                    earnRates: { ...form.loyalty.earnRates, [method.slug]: e.target.value },
+                  })
+                }
+                className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+    </article>
+  );
+
+  const updatePromotion = (id: string, patch: Partial<PromotionFormState>) => {
+    updateForm(
+      "promotions",
+      form.promotions.map((promotion) =>
+        promotion.id === id ? { ...promotion, ...patch } : promotion
+      )
+    );
+  };
+
+  const promotionsContent = (
+    <article className="rounded-2xl border border-slate-800 bg-slate-900/70 p-6 space-y-4">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Promociones automáticas</h2>
+          <p className="text-sm text-slate-400 max-w-xl">
+            Se aplican solas en el carrito del POS y salen detalladas en el ticket.
+            Cada unidad recibe una sola promoción: primero combos, luego &quot;lleve X
+            obtenga Y&quot; y por último porcentajes. Las líneas con descuento manual
+            no participan.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {PROMOTION_KIND_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() =>
+                updateForm("promotions", [
+                  ...form.promotions,
+                  createPromotionForm(option.id),
+                ])
+              }
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border border-emerald-500 text-emerald-100 hover:bg-emerald-500/10"
+            >
+              + {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {form.promotions.length === 0 && (
+        <p className="rounded-xl border border-dashed border-slate-700 px-4 py-6 text-center text-xs text-slate-400">
+          No hay promociones configuradas.
+        </p>
+      )}
+      {form.promotions.map((promotion) => (
+        <div
+          key={promotion.id}
+          className="rounded-xl border border-[var(--border)] p-4 bg-[var(--surface)] shadow-[var(--shadow-card)] space-y-3 text-sm"
+        >
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              value={promotion.name}
+              onChange={(e) => updatePromotion(promotion.id, { name: e.target.value })}
+              placeholder="Nombre en el ticket"
+              className="flex-1 min-w-[180px] rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+            />
+            <select
+              value={promotion.kind}
+              onChange={(e) =>
+                updatePromotion(promotion.id, { kind: e.target.value as PosPromotionKind })
+              }
+              className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-xs"
+            >
+              {PROMOTION_KIND_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input
+                type="checkbox"
+                checked={promotion.active}
+                onChange={(e) => updatePromotion(promotion.id, { active: e.target.checked })}
+                className="h-4 w-4 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500"
+              />
+              Activa
+            </label>
+            <button
+              type="button"
+              onClick={() =>
+                updateForm(
+                  "promotions",
+                  form.promotions.filter((entry) => entry.id !== promotion.id)
+                )
+              }
+              className="px-3 py-1.5 rounded-md border border-rose-500/60 text-rose-200 text-xs hover:bg-rose-500/10"
+            >
+              Eliminar
+            </button>
+          </div>
+
+          {promotion.kind === "buy_x_get_y" && (
+            <div className="grid md:grid-cols-3 gap-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-slate-400">Compra (X)</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={promotion.buyQuantity}
+                  onChange={(e) =>
+                    updatePromotion(promotion.id, { buyQuantity: e.target.value })
+                  }
+                  className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-slate-400">Lleva con descuento (Y)</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={promotion.getQuantity}
+                  onChange={(e) =>
+                    updatePromotion(promotion.id, { getQuantity: e.target.value })
+                  }
+                  className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-slate-400">Descuento en Y (%) · 100 = gratis</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={promotion.getDiscountPercent}
+                  onChange={(e) =>
+                    updatePromotion(promotion.id, { getDiscountPercent: e.target.value })
+                  }
+                  className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+                />
+              </label>
+            </div>
+          )}
+
+          {promotion.kind === "percent_off" && (
+            <label className="flex flex-col gap-1 md:w-1/3">
+              <span className="text-slate-400">Descuento (%)</span>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={promotion.percent}
+                onChange={(e) => updatePromotion(promotion.id, { percent: e.target.value })}
+                className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+              />
+            </label>
+          )}
+
+          {promotion.kind === "bundle" ? (
+            <label className="flex flex-col gap-1">
+              <span className="text-slate-400">Combo de Comercio Web</span>
+              <select
+                value={promotion.comboId}
+                onChange={(e) => updatePromotion(promotion.id, { comboId: e.target.value })}
+                className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+              >
+                <option value="">
+                  {promotionCombos ? "Selecciona un combo" : "Cargando combos..."}
+                </option>
+                {(promotionCombos ?? []).map((combo) => (
+                  <option key={combo.id} value={String(combo.id)}>
+                    {combo.name} · ${combo.price.toLocaleString("es-CO")}
+                  </option>
+                ))}
+              </select>
+              <span className="text-[11px] text-slate-500">
+                El precio del combo se cobra cuando el carrito tiene todos sus
+                componentes obligatorios.
+              </span>
+            </label>
+          ) : (
+            <div className="grid md:grid-cols-3 gap-3">
+              {(
+                [
+                  { key: "groupNames", label: "Grupos (incluye subgrupos)" },
+                  { key: "brands", label: "Marcas" },
+                  { key: "productIds", label: "IDs de producto" },
+                ] as const
+              ).map((field) => (
+                <label key={field.key} className="flex flex-col gap-1">
+                  <span className="text-slate-400">{field.label}</span>
+                  <input
+                    value={promotion[field.key]}
+                    onChange={(e) =>
+                      updatePromotion(promotion.id, { [field.key]: e.target.value })
+                    }
+                    placeholder="Separados por coma"
+                    className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+                  />
+                </label>
+              ))}
+              <p className="md:col-span-3 text-[11px] text-slate-500">
+                Sin grupos, marcas ni productos la promoción aplica a todo el carrito.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-xs text-slate-400">Vigencia y franja horaria (opcional)</p>
+            <div className="flex flex-wrap gap-2 text-[11px]">
+              {PROMOTION_WEEKDAYS.map((label, day) => {
+                const selected = promotion.days.includes(day);
+                return (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() =>
+                      updatePromotion(promotion.id, {
+                        days: selected
+                          ? promotion.days.filter((entry) => entry !== day)
+                          : [...promotion.days, day].sort((a, b) => a - b),
+                      })
+                    }
+                    className={`rounded-full border px-3 py-1.5 font-medium transition ${
+                      selected
+                        ? "border-emerald-400 bg-emerald-500/15 text-emerald-200"
+                        : "border-slate-700 bg-slate-950 text-slate-300 hover:border-slate-500"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="grid md:grid-cols-4 gap-3">
+              {(
+                [
+                  { key: "startTime", label: "Desde la hora", type: "time" },
+                  { key: "endTime", label: "Hasta la hora", type: "time" },
+                  { key: "startsOn", label: "Desde el día", type: "date" },
+                  { key: "endsOn", label: "Hasta el día", type: "date" },
+                ] as const
+              ).map((field) => (
+                <label key={field.key} className="flex flex-col gap-1">
+                  <span className="text-slate-400">{field.label}</span>
+                  <input
+                    type={field.type}
+                    value={promotion[field.key]}
+                    onChange={(e) =>
+                      updatePromotion(promotion.id, { [field.key]: e.target.value })
+                    }
+                    className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </article>
+  );
+
   const posContent = (
     <article className="rounded-2xl border border-slate-800 bg-slate-900/70 p-6 space-y-4">
       <div>
@@ -3325,6 +4098,44 @@ export default function SettingsPage() {
             </p>
           </div>
         </label>
+        <label className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            checked={form.sellerPerLine}
+            onChange={(e) => updateForm("sellerPerLine", e.target.checked)}
+            className="mt-1 h-4 w-4 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500"
+          />
+          <div>
+            <p className="font-semibold">Vendedor por línea</p>
+            <p className="text-slate-400 text-xs">
+              Cada producto queda a nombre del vendedor activo al agregarlo, para
+              repartir ventas y comisiones cuando varios atienden la misma caja.
+            </p>
+          </div>
+        </label>
+        <div className="space-y-1">
+          <label className="block font-semibold" htmlFor="internal-barcode-prefix">
+            Prefijo de códigos internos (EAN-13)
+          </label>
+          <input
+            id="internal-barcode-prefix"
+            inputMode="numeric"
+            maxLength={7}
+            value={form.internalBarcodePrefix}
+            onChange={(e) =>
+              updateForm("internalBarcodePrefix", e.target.value.replace(/\D/g, ""))
+            }
+            placeholder="29"
+            className="w-40 rounded-lg border border-slate-700 bg-slate-950 px-3 py-2 text-sm outline-none focus:border-emerald-400"
+          />
+          {internalBarcodePrefixError && (
+            <p className="text-rose-300 text-xs">{internalBarcodePrefixError}</p>
+          )}
+          <p className="text-slate-400 text-xs">
+            Con este prefijo se sugieren EAN-13 válidos para productos sin código del
+            proveedor. GS1 reserva los prefijos 20 a 29 para uso interno.
+          </p>
+        </div>
       </div>
       <div className="rounded-2xl border border-slate-800/80 bg-slate-950/40 p-4 space-y-4">
         <div>
@@ -5092,6 +5903,8 @@ export default function SettingsPage() {
     company: companyContent,
     appearance: appearanceContent,
     pos: posContent,
+    promotions: promotionsContent,
+    loyalty: loyaltyContent,
     payments: (
       <article className="rounded-2xl border border-slate-800 bg-slate-900/70 p-6 space-y-4">
         <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-3">
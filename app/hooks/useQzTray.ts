@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  getQzTrayService,
+  type QzTrayState,
+} from "@/lib/printing/qzTray";
+
+const SERVER_STATE: QzTrayState = {
+  status: "loading",
+  printers: [],
+  jobs: [],
+  lastError: null,
+};
+
+export function useQzTray(token: string | null, options: { enabled?: boolean } = {}) {
+  const { enabled = true } = options;
+  const service = getQzTrayService();
+  const state = useSyncExternalStore(
+    service.subscribe,
+    service.getState,
+    () => SERVER_STATE
+  );
+
+  useEffect(() => {
+    service.setAuthToken(token);
+  }, [service, token]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    void service.load();
+  }, [enabled, service]);
+
+  return {
+    ...state,
+    isAvailable: state.status !== "loading" && state.status !== "unavailable",
+    pendingJobs: state.jobs.filter(
+      (job) => job.status === "queued" || job.status === "printing" || job.status === "retrying"
+    ).length,
+    connect: service.connect,
+    findPrinters: service.findPrinters,
+    print: service.print,
+    printHtml: service.printHtml,
+    printRaw: service.printRaw,
+    openCashDrawer: service.openCashDrawer,
+  };
+}
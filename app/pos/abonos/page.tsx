@@ -29,6 +29,8 @@ import {
   type PosAccessMode,
 } from "@/lib/api/posStations";
 import { formatBogotaDate } from "@/lib/time/bogota";
+import { useQzTray } from "@/app/hooks/useQzTray";
+import { QzTrayStatusBadge } from "../components/QzTrayStatusBadge";
 
 const BLOCKED_PAYMENT_SLUGS = new Set(["separado", "credito"]);
 
@@ -154,32 +156,6 @@ export default function AbonosPage() {
     [stationInfo]
   );
 
-  type QzPromiseResolver<T> = (value: T | PromiseLike<T>) => void;
-  type QzPromiseReject = (reason?: unknown) => void;
-  type QzType = {
-    websocket: { isActive: () => boolean; connect: () => Promise<void> };
-    configs: { create: (printer: string, options?: Record<string, unknown>) => unknown };
-    print: (config: unknown, data: unknown) => Promise<void>;
-    security?: {
-      setCertificatePromise: (
-        promise: (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-      setSignaturePromise: (
-        promise: (
-          toSign: string
-        ) => (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-    };
-  };
-  const [qzClient, setQzClient] = useState<QzType | null>(() => {
-    if (typeof window !== "undefined") {
-      const w = window as unknown as { qz?: QzType };
-      return w.qz ?? null;
-    }
-    return null;
-  });
-  const qzSecurityConfiguredRef = useRef(false);
-
   useEffect(() => {
     if (typeof window === "undefined") return;
     const mode = ensureStoredPosMode();
@@ -270,95 +246,15 @@ export default function AbonosPage() {
     };
   }, [token, apiBase, activeStationId, isStationMode, printerStorageKey]);
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    let cancelled = false;
-    const setIfPresent = () => {
-      if (cancelled) return;
-      const w = window as unknown as { qz?: QzType };
-      if (w.qz) setQzClient(w.qz);
-    };
-    const w = window as unknown as { qz?: QzType };
-    if (w.qz) {
-      setIfPresent();
-      return () => {
-        cancelled = true;
-      };
-    }
-    const existing = document.querySelector(
-      'script[data-qz-tray]'
-    ) as HTMLScriptElement | null;
-    const script = existing ?? document.createElement("script");
-    if (!existing) {
-      script.src = "https://cdn.jsdelivr.net/npm/qz-tray@2.2.4/qz-tray.js";
-      script.async = true;
-      script.dataset.qzTray = "1";
-      script.onerror = () =>
-        console.warn("No se pudo cargar el script de QZ Tray desde la CDN.");
-      document.head.appendChild(script);
-    }
-    script.addEventListener("load", setIfPresent);
-    return () => {
-      cancelled = true;
-      script.removeEventListener("load", setIfPresent);
-    };
-  }, []);
 
-  const configureQzSecurity = useCallback(() => {
-    if (!qzClient?.security) return true;
-    if (!token) return false;
-    if (qzSecurityConfiguredRef.current) return true;
-    const authHeaders = {
-      Authorization: `Bearer ${token}`,
-    };
-    qzClient.security.setCertificatePromise(
-      (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-        fetch(`${apiBase}/pos/qz/cert`, { credentials: "include" })
-          .then(async (res) => {
-            if (!res.ok) {
-              throw new Error(
-                `No se pudo obtener el certificado (Error ${res.status}).`
-              );
-            }
-            return res.text();
-          })
-          .then(resolve)
-          .catch(reject);
-      }
-    );
-    qzClient.security.setSignaturePromise(
-      (toSign: string) =>
-        (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-          fetch(`${apiBase}/pos/qz/sign`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              ...authHeaders,
-            },
-            credentials: "include",
-            body: JSON.stringify({ data: toSign }),
-          })
-            .then(async (res) => {
-              if (!res.ok) {
-                const detail = await res.json().catch(() => null);
-                throw new Error(
-                  detail?.detail ??
-                    `No se pudo firmar el reto (Error ${res.status}).`
-                );
-              }
-              const data = (await res.json()) as { signature?: string };
-              if (!data?.signature) {
-                throw new Error("La API no devolvió la firma.");
-              }
-              return data.signature;
-            })
-            .then(resolve)
-            .catch(reject);
-        }
-    );
-    qzSecurityConfiguredRef.current = true;
-    return true;
-  }, [apiBase, qzClient, token]);
+  const {
+    status: qzStatus,
+    isAvailable: qzAvailable,
+    pendingJobs: qzPendingJobs,
+    lastError: qzLastError,
+    printHtml: printQzHtml,
+    openCashDrawer: openQzCashDrawer,
+  } = useQzTray(token);
 
   useEffect(() => {
     setSelectedMethod((prev) => {
@@ -715,25 +611,15 @@ export default function AbonosPage() {
   const openDrawerWithQz = useCallback(async () => {
     if (printerConfig.mode !== "qz-tray") return false;
     if (!printerConfig.printerName.trim()) return false;
-    if (!qzClient) return false;
+    if (!qzAvailable) return false;
     try {
-      configureQzSecurity();
-      if (!qzClient.websocket.isActive()) {
-        await qzClient.websocket.connect();
-      }
-      const cfg = qzClient.configs.create(printerConfig.printerName, {
-        altPrinting: true,
-      });
-      const drawerPulse = "\x1B\x70\x00\x19\xFA";
-      await qzClient.print(cfg, [
-        { type: "raw", format: "command", data: drawerPulse },
-      ]);
+      await openQzCashDrawer(printerConfig.printerName);
       return true;
     } catch (err) {
       console.error("No se pudo abrir el cajón para el abono", err);
       return false;
     }
-  }, [configureQzSecurity, printerConfig.mode, printerConfig.printerName, qzClient]);
+  }, [openQzCashDrawer, printerConfig.mode, printerConfig.printerName, qzAvailable]);
 
   useEffect(() => {
     if (!successSummary || !successModalOpen) return;
@@ -807,26 +693,17 @@ export default function AbonosPage() {
         setLookupError("Selecciona la impresora en Configurar impresora.");
         return false;
       }
-      if (!qzClient) {
+      if (!qzAvailable) {
         setLookupError("No detectamos QZ Tray. Ábrelo y autoriza este dominio.");
         return false;
       }
-      if (!configureQzSecurity()) {
-        setLookupError("No se pudo configurar QZ. Verifica tu sesión.");
-        return false;
-      }
       try {
-        if (!qzClient.websocket.isActive()) {
-          await qzClient.websocket.connect();
-        }
-        const sizeWidth = printerConfig.width === "58mm" ? 58 : 80;
-        const cfg = qzClient.configs.create(printerConfig.printerName, {
-          altPrinting: true,
-          units: "mm",
-          size: { width: sizeWidth },
-          margins: { top: 0, right: 0, bottom: 0, left: 0 },
-        });
-        await qzClient.print(cfg, [{ type: "html", format: "plain", data: html }]);
+        await printQzHtml(
+          printerConfig.printerName,
+          html,
+          printerConfig.width,
+          "Ticket de abono"
+        );
         setLookupError(null);
         return true;
       } catch (err) {
@@ -840,11 +717,11 @@ export default function AbonosPage() {
       }
     },
     [
-      configureQzSecurity,
       printerConfig.mode,
       printerConfig.printerName,
       printerConfig.width,
-      qzClient,
+      printQzHtml,
+      qzAvailable,
     ]
   );
 
@@ -953,6 +830,16 @@ export default function AbonosPage() {
         initialPayments,
         payments: separatedPayments,
       },
+      qrCode:
+        typeof window !== "undefined"
+          ? {
+              value: `${window.location.origin}/pos/abonos?ticket=${encodeURIComponent(
+                order.sale_document_number ??
+                  String(order.sale_number ?? order.sale_id)
+              )}`,
+              caption: "Escanea para consultar o abonar este separado",
+            }
+          : null,
       settings: posSettings,
     });
   }
@@ -990,12 +877,21 @@ export default function AbonosPage() {
               Escanea el ticket y registra los pagos parciales con claridad.
             </p>
           </div>
-          <Link
-            href="/pos"
-            className="h-12 px-4 rounded-xl border border-slate-700 bg-slate-900/70 text-slate-100 hover:bg-slate-800 inline-flex items-center justify-center"
-          >
-            ← Volver al POS
-          </Link>
+          <div className="flex flex-wrap items-center gap-3">
+            {printerConfig.mode === "qz-tray" && (
+              <QzTrayStatusBadge
+                status={qzStatus}
+                pendingJobs={qzPendingJobs}
+                lastError={qzLastError}
+              />
+            )}
+            <Link
+              href="/pos"
+              className="h-12 px-4 rounded-xl border border-slate-700 bg-slate-900/70 text-slate-100 hover:bg-slate-800 inline-flex items-center justify-center"
+            >
+              ← Volver al POS
+            </Link>
+          </div>
         </header>
 
         <div className="grid gap-6 lg:grid-cols-[380px_minmax(0,1fr)] lg:items-start">
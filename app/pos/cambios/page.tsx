@@ -10,12 +10,23 @@ import React, {
 } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useAuth } from "../../providers/AuthProvider";
-import { renderChangeTicket } from "@/lib/printing/saleTicket";
+import {
+  renderChangeTicket,
+  renderStoreCreditTicket,
+  type ChangeTicketOptions,
+} from "@/lib/printing/saleTicket";
+import {
+  loadTicketLogoRaster,
+  renderChangeTicketEscPos,
+  renderStoreCreditTicketEscPos,
+} from "@/lib/printing/escPosTickets";
 import { fetchPosSettings, PosSettingsPayload } from "@/lib/api/settings";
 import {
   distributeSaleAdjustment,
   fetchSaleAdjustmentSummary,
 } from "@/lib/pos/saleAdjustments";
+import type { StoreCredit } from "@/lib/api/storeCredits";
+import { buildStoreCreditTicketOptions } from "@/lib/pos/storeCredit";
 import {
   DEFAULT_PAYMENT_METHODS,
   fetchPaymentMethods,
@@ -37,7 +48,16 @@ import {
 } from "@/lib/api/posStations";
 import LoadingSpinner from "../../components/ui/LoadingSpinner";
 import { formatBogotaDate } from "@/lib/time/bogota";
+import { useQzTray } from "@/app/hooks/useQzTray";
 import type { Product } from "../poscontext";
+import { isTaxRateCode } from "@/lib/pos/taxes";
+import { resolveDianConfig } from "@/lib/invoicing/dianUbl";
+import {
+  describeDianDocumentStatus,
+  issueDianDocumentsForChange,
+} from "@/lib/invoicing/dianIssuing";
+import { createDianIssuingGateway } from "@/lib/api/electronicInvoices";
+import { QzTrayStatusBadge } from "../components/QzTrayStatusBadge";
 
 type PaymentMethodSlug = string;
 
@@ -99,6 +119,7 @@ type ChangeReturnItemDetail = {
   quantity: number;
   unit_price_net: number;
   total_credit: number;
+  tax_rate?: string | null;
 };
 
 type ChangeNewItemDetail = {
@@ -107,6 +128,7 @@ type ChangeNewItemDetail = {
   quantity: number;
   unit_price: number;
   total: number;
+  tax_rate?: string | null;
 };
 
 type ChangePaymentDetail = {
@@ -127,8 +149,31 @@ type SaleChangeDetail = {
   items_returned: ChangeReturnItemDetail[];
   items_new: ChangeNewItemDetail[];
   payments: ChangePaymentDetail[];
+  /** Nota crédito emitida cuando el saldo a devolver queda como saldo a favor. */
+  store_credit?: StoreCredit | null;
 };
 
+function changeTicketItems(detail: SaleChangeDetail) {
+  return {
+    itemsReturned: detail.items_returned.map((item) => ({
+      name: item.product_name,
+      quantity: item.quantity,
+      unitPrice: item.unit_price_net,
+      total: item.total_credit,
+      sku: item.product_sku ?? undefined,
+      taxRate: isTaxRateCode(item.tax_rate) ? item.tax_rate : null,
+    })),
+    itemsNew: detail.items_new.map((item) => ({
+      name: item.product_name,
+      quantity: item.quantity,
+      unitPrice: item.unit_price,
+      total: item.total,
+      sku: item.product_sku ?? undefined,
+      taxRate: isTaxRateCode(item.tax_rate) ? item.tax_rate : null,
+    })),
+  };
+}
+
 type ChangeNewItem = {
   product: Product;
   quantity: number;
@@ -252,12 +297,17 @@ export default function CambiosPage() {
     DEFAULT_PAYMENT_METHODS
   );
   const [payments, setPayments] = useState<ChangePayment[]>([]);
+  const [refundAsCredit, setRefundAsCredit] = useState(false);
 
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [changeSuccess, setChangeSuccess] = useState<SaleChangeDetail | null>(
     null
   );
+  const [electronicDocuments, setElectronicDocuments] = useState<{
+    tone: "info" | "success" | "warning" | "error";
+    message: string;
+  } | null>(null);
   const lastDrawerChangeId = useRef<number | null>(null);
   const [toast, setToast] = useState<{ id: number; message: string; tone: "info" | "error" } | null>(null);
   const [toastVisible, setToastVisible] = useState(false);
@@ -276,31 +326,6 @@ export default function CambiosPage() {
     showDrawerButton: true,
   });
 
-  type QzPromiseResolver<T> = (value: T | PromiseLike<T>) => void;
-  type QzPromiseReject = (reason?: unknown) => void;
-  type QzType = {
-    websocket: { isActive: () => boolean; connect: () => Promise<void> };
-    printers: { find: () => Promise<string[]> };
-    configs: { create: (printer: string, options?: Record<string, unknown>) => unknown };
-    print: (config: unknown, data: unknown) => Promise<void>;
-    security?: {
-      setCertificatePromise: (
-        promise: (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-      setSignaturePromise: (
-        promise: (
-          toSign: string
-        ) => (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-    };
-  };
-  const [qzClient, setQzClient] = useState<QzType | null>(() => {
-    if (typeof window !== "undefined") {
-      const w = window as unknown as { qz?: QzType };
-      return w.qz ?? null;
-    }
-    return null;
-  });
 
   const { token } = useAuth();
   const authHeaders = useMemo(
@@ -410,100 +435,16 @@ export default function CambiosPage() {
     setProductSearchOpen(false);
   }, []);
 
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    let cancelled = false;
-    const setIfPresent = () => {
-      if (cancelled) return;
-      const w = window as unknown as { qz?: QzType };
-      if (w.qz) setQzClient(w.qz);
-    };
-    const w = window as unknown as { qz?: QzType };
-    if (w.qz) {
-      setIfPresent();
-      return () => {
-        cancelled = true;
-      };
-    }
-    const existing = document.querySelector(
-      'script[data-qz-tray]'
-    ) as HTMLScriptElement | null;
-    const script = existing ?? document.createElement("script");
-    if (!existing) {
-      script.src = "https://cdn.jsdelivr.net/npm/qz-tray@2.2.4/qz-tray.js";
-      script.async = true;
-      script.dataset.qzTray = "1";
-      script.onerror = () =>
-        console.warn("No se pudo cargar el script de QZ Tray desde la CDN.");
-      document.head.appendChild(script);
-    }
-    script.addEventListener("load", setIfPresent);
-    return () => {
-      cancelled = true;
-      script.removeEventListener("load", setIfPresent);
-    };
-  }, []);
 
-  const qzSecurityConfiguredRef = useRef(false);
-  const configureQzSecurity = useCallback(() => {
-    if (!qzClient?.security) return true;
-    if (!token) return false;
-    if (qzSecurityConfiguredRef.current) return true;
-    const authHeaders = {
-      Authorization: `Bearer ${token}`,
-    };
-    qzClient.security.setCertificatePromise(
-      (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-        fetch(`${apiBase}/pos/qz/cert`, { credentials: "include" })
-          .then(async (res) => {
-            if (!res.ok) {
-              throw new Error(
-                `No se pudo obtener el certificado (Error ${res.status}).`
-              );
-            }
-            return res.text();
-          })
-          .then(resolve)
-          .catch(reject);
-      }
-    );
-    qzClient.security.setSignaturePromise(
-      (toSign: string) =>
-        (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-          fetch(`${apiBase}/pos/qz/sign`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              ...authHeaders,
-            },
-            credentials: "include",
-            body: JSON.stringify({ data: toSign }),
-          })
-            .then(async (res) => {
-              if (!res.ok) {
-                const detail = await res.json().catch(() => null);
-                throw new Error(
-                  detail?.detail ??
-                    `No se pudo firmar el reto (Error ${res.status}).`
-                );
-              }
-              const data = (await res.json()) as { signature?: string };
-              if (!data?.signature) {
-                throw new Error("La API no devolvio la firma.");
-              }
-              return data.signature;
-            })
-            .then(resolve)
-            .catch(reject);
-        }
-    );
-    qzSecurityConfiguredRef.current = true;
-    return true;
-  }, [apiBase, qzClient, token]);
-
-  useEffect(() => {
-    configureQzSecurity();
-  }, [configureQzSecurity]);
+  const {
+    status: qzStatus,
+    isAvailable: qzAvailable,
+    pendingJobs: qzPendingJobs,
+    lastError: qzLastError,
+    printHtml: printQzHtml,
+    printRaw: printQzRaw,
+    openCashDrawer: openQzCashDrawer,
+  } = useQzTray(token);
 
   const alreadyReturnedMap = useMemo(() => {
     const map = new Map<number, number>();
@@ -726,6 +667,7 @@ export default function CambiosPage() {
     setQuantities({});
     setNotes("");
     setPayments([]);
+    setRefundAsCredit(false);
     setSubmitError(null);
     setNewItems([]);
   }, []);
@@ -983,6 +925,64 @@ export default function CambiosPage() {
     }, 4460);
   }, []);
 
+  const issueElectronicDocuments = useCallback(
+    async (detail: SaleChangeDetail, saleId: number) => {
+      const config = resolveDianConfig(posSettings);
+      if (!config || !token) return;
+      setElectronicDocuments({ tone: "info", message: "Emitiendo documentos electrónicos…" });
+      try {
+        const documents = await issueDianDocumentsForChange(
+          createDianIssuingGateway(token),
+          config,
+          {
+            changeId: detail.id,
+            saleId,
+            options: {
+              documentNumber:
+                detail.document_number ?? `CB-${detail.id.toString().padStart(6, "0")}`,
+              createdAt: detail.created_at ?? null,
+              ...changeTicketItems(detail),
+              payments: (detail.payments ?? []).map((payment) => ({
+                label: resolvePaymentLabel(payment.method),
+                amount: payment.amount,
+              })),
+              totalCredit: detail.total_credit ?? 0,
+              totalNew: detail.total_new ?? 0,
+              extraPayment: detail.extra_payment ?? 0,
+              refundDue: detail.refund_due ?? 0,
+              notes: detail.notes,
+            },
+          }
+        );
+        const statuses = [documents.creditNote, documents.invoice]
+          .filter((record) => record !== null)
+          .map(describeDianDocumentStatus);
+        if (!statuses.length) {
+          setElectronicDocuments(null);
+          return;
+        }
+        const tone =
+          statuses.find((status) => status.tone === "error")?.tone ??
+          statuses.find((status) => status.tone === "warning")?.tone ??
+          "success";
+        setElectronicDocuments({
+          tone,
+          message: statuses.map((status) => status.message).join(" "),
+        });
+      } catch (err) {
+        console.error("No se pudieron emitir los documentos electrónicos del cambio", err);
+        setElectronicDocuments({
+          tone: "error",
+          message:
+            err instanceof Error
+              ? `No se pudieron emitir los documentos electrónicos: ${err.message}`
+              : "No se pudieron emitir los documentos electrónicos.",
+        });
+      }
+    },
+    [posSettings, resolvePaymentLabel, token]
+  );
+
   const handleSubmitChange = useCallback(async () => {
     if (!sale) {
       setSubmitError("Escanea el ticket para continuar.");
@@ -1057,6 +1057,7 @@ export default function CambiosPage() {
           return_items: itemsPayload,
           new_items: newItemsPayload,
           payments: paymentsPayload.length > 0 ? paymentsPayload : undefined,
+          refund_as_store_credit: refundDue > 0 && refundAsCredit ? true : undefined,
         }),
       });
 
@@ -1069,6 +1070,8 @@ export default function CambiosPage() {
 
       const data = (await res.json()) as SaleChangeDetail;
       setChangeSuccess(data);
+      setElectronicDocuments(null);
+      void issueElectronicDocuments(data, sale.id);
     } catch (err) {
       console.error(err);
       const message =
@@ -1087,6 +1090,8 @@ export default function CambiosPage() {
     notes,
     payments,
     quantities,
+    refundAsCredit,
+    refundDue,
     sale,
     activeStationId,
     resolvedPosName,
@@ -1096,29 +1101,17 @@ export default function CambiosPage() {
     totalPayments,
     showToast,
     parseAmountInput,
+    issueElectronicDocuments,
   ]);
 
   const handlePrintChangeTicket = useCallback(async () => {
     if (!changeSuccess) return;
-    const itemsReturned = changeSuccess.items_returned.map((item) => ({
-      name: item.product_name,
-      quantity: item.quantity,
-      unitPrice: item.unit_price_net,
-      total: item.total_credit,
-      sku: item.product_sku ?? undefined,
-    }));
-    const itemsNew = changeSuccess.items_new.map((item) => ({
-      name: item.product_name,
-      quantity: item.quantity,
-      unitPrice: item.unit_price,
-      total: item.total,
-      sku: item.product_sku ?? undefined,
-    }));
+    const { itemsReturned, itemsNew } = changeTicketItems(changeSuccess);
     const paymentsTicket = (changeSuccess.payments ?? []).map((payment) => ({
       label: resolvePaymentLabel(payment.method),
       amount: payment.amount,
     }));
-    const html = renderChangeTicket({
+    const ticketOptions: ChangeTicketOptions = {
       settings: posSettings,
       documentNumber:
         changeSuccess.document_number ??
@@ -1135,26 +1128,29 @@ export default function CambiosPage() {
       extraPayment: changeSuccess.extra_payment ?? 0,
       refundDue: changeSuccess.refund_due ?? 0,
       notes: changeSuccess.notes,
-    });
+    };
+    const html = renderChangeTicket(ticketOptions);
 
     const shouldUseQz = printerConfig.mode === "qz-tray";
-    const sizeWidth = printerConfig.width === "58mm" ? 58 : 80;
 
     const printWithQz = async () => {
-      if (!qzClient) return false;
+      if (!qzAvailable) return false;
       try {
-        if (!qzClient.websocket.isActive()) {
-          await qzClient.websocket.connect();
+        if (printerConfig.format === "escpos") {
+          const logo = await loadTicketLogoRaster(posSettings, printerConfig.width);
+          await printQzRaw(
+            printerConfig.printerName,
+            renderChangeTicketEscPos(ticketOptions, { width: printerConfig.width, logo }),
+            "Ticket de cambio"
+          );
+        } else {
+          await printQzHtml(
+            printerConfig.printerName,
+            html,
+            printerConfig.width,
+            "Ticket de cambio"
+          );
         }
-        const cfg = qzClient.configs.create(printerConfig.printerName, {
-          altPrinting: true,
-          units: "mm",
-          size: { width: sizeWidth },
-          margins: { top: 0, right: 0, bottom: 0, left: 0 },
-        });
-        await qzClient.print(cfg, [
-          { type: "html", format: "plain", data: html },
-        ]);
         return true;
       } catch (err) {
         console.error("No se pudo imprimir cambio con QZ Tray", err);
@@ -1190,7 +1186,9 @@ export default function CambiosPage() {
     changeSuccess,
     posSettings,
     printerConfig,
-    qzClient,
+    printQzHtml,
+    printQzRaw,
+    qzAvailable,
     resolvePaymentLabel,
     sale,
   ]);
@@ -1297,6 +1295,7 @@ export default function CambiosPage() {
             width: remote.width ?? "80mm",
             autoOpenDrawer: remote.autoOpenDrawer ?? false,
             showDrawerButton: remote.showDrawerButton ?? true,
+            format: remote.format ?? "html",
           });
           return;
         }
@@ -1319,6 +1318,51 @@ export default function CambiosPage() {
     void handleLoadSale(initialSaleId);
   }, [authHeaders, handleLoadSale, initialSaleId]);
 
+  const handlePrintStoreCreditTicket = useCallback(async () => {
+    const credit = changeSuccess?.store_credit;
+    if (!credit) return;
+    const ticketOptions = buildStoreCreditTicketOptions(credit, posSettings);
+    const html = renderStoreCreditTicket(ticketOptions);
+
+    if (printerConfig.mode === "qz-tray" && printerConfig.printerName.trim() && qzAvailable) {
+      try {
+        if (printerConfig.format === "escpos") {
+          const logo = await loadTicketLogoRaster(posSettings, printerConfig.width);
+          await printQzRaw(
+            printerConfig.printerName,
+            renderStoreCreditTicketEscPos(ticketOptions, { width: printerConfig.width, logo }),
+            "Nota crédito"
+          );
+        } else {
+          await printQzHtml(printerConfig.printerName, html, printerConfig.width, "Nota crédito");
+        }
+        return;
+      } catch (err) {
+        console.error("No se pudo imprimir la nota crédito con QZ Tray", err);
+      }
+    }
+
+    const win = window.open("", "_blank", "width=380,height=640");
+    if (!win) return;
+    win.document.write(html);
+    win.document.close();
+    const triggerPrint = () => {
+      try {
+        win.focus();
+        win.print();
+      } catch (err) {
+        console.error("No se pudo imprimir la nota crédito", err);
+      } finally {
+        win.close();
+      }
+    };
+    if (win.document.readyState === "complete") {
+      triggerPrint();
+    } else {
+      win.onload = triggerPrint;
+    }
+  }, [changeSuccess, posSettings, printerConfig, printQzHtml, printQzRaw, qzAvailable]);
+
   const paymentMismatch = extraPayment > 0 && totalPayments !== extraPayment;
   const cashChangeAmount = useMemo(() => {
     if (!changeSuccess) return 0;
@@ -1331,29 +1375,19 @@ export default function CambiosPage() {
   const openDrawerWithQz = useCallback(async () => {
     if (printerConfig.mode !== "qz-tray") return false;
     if (!printerConfig.printerName.trim()) return false;
-    if (!qzClient) return false;
+    if (!qzAvailable) return false;
     try {
-      configureQzSecurity();
-      if (!qzClient.websocket.isActive()) {
-        await qzClient.websocket.connect();
-      }
-      const cfg = qzClient.configs.create(printerConfig.printerName, {
-        altPrinting: true,
-      });
-      const drawerPulse = "\x1B\x70\x00\x19\xFA";
-      await qzClient.print(cfg, [
-        { type: "raw", format: "command", data: drawerPulse },
-      ]);
+      await openQzCashDrawer(printerConfig.printerName);
       return true;
     } catch (err) {
       console.error("No se pudo abrir el cajón para el cambio", err);
       return false;
     }
   }, [
-    configureQzSecurity,
     printerConfig.mode,
     printerConfig.printerName,
-    qzClient,
+    openQzCashDrawer,
+    qzAvailable,
   ]);
 
   useEffect(() => {
@@ -1405,13 +1439,22 @@ export default function CambiosPage() {
               Escanea el ticket y confirma el cambio antes de imprimir.
             </p>
           </div>
-          <button
-            type="button"
-            onClick={() => router.push(resolvedBackPath)}
-            className="h-12 px-4 rounded-xl border border-slate-700 bg-slate-900/70 text-slate-100 hover:bg-slate-800"
-          >
-            {resolvedBackLabel}
-          </button>
+          <div className="flex flex-wrap items-center gap-3">
+            {printerConfig.mode === "qz-tray" && (
+              <QzTrayStatusBadge
+                status={qzStatus}
+                pendingJobs={qzPendingJobs}
+                lastError={qzLastError}
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => router.push(resolvedBackPath)}
+              className="h-12 px-4 rounded-xl border border-slate-700 bg-slate-900/70 text-slate-100 hover:bg-slate-800"
+            >
+              {resolvedBackLabel}
+            </button>
+          </div>
         </header>
 
         <div className="grid gap-6 xl:grid-cols-[420px_minmax(0,1fr)]">
@@ -1815,12 +1858,25 @@ export default function CambiosPage() {
                 )}
                 {refundDue > 0 && (
                   <div className="flex justify-between">
-                    <span className="text-slate-400">Saldo a devolver (efectivo)</span>
+                    <span className="text-slate-400">
+                      {refundAsCredit ? "Saldo a favor (nota crédito)" : "Saldo a devolver (efectivo)"}
+                    </span>
                     <span className="text-rose-300 font-semibold">
                       {formatMoney(refundDue)}
                     </span>
                   </div>
                 )}
+                {refundDue > 0 && (
+                  <label className="flex items-center gap-2 pt-1 text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={refundAsCredit}
+                      onChange={(e) => setRefundAsCredit(e.target.checked)}
+                      className="h-4 w-4 accent-emerald-500"
+                    />
+                    Entregar como saldo a favor en lugar de efectivo
+                  </label>
+                )}
               </div>
 
               {extraPayment > 0 && (
@@ -2046,13 +2102,32 @@ export default function CambiosPage() {
               )}
               {changeSuccess.refund_due > 0 && (
                 <div className="flex justify-between">
-                  <span className="text-slate-400">Saldo devuelto (efectivo)</span>
+                  <span className="text-slate-400">
+                    {changeSuccess.store_credit
+                      ? `Nota crédito ${changeSuccess.store_credit.code}`
+                      : "Saldo devuelto (efectivo)"}
+                  </span>
                   <span className="text-rose-300 font-semibold">
                     {formatMoney(changeSuccess.refund_due)}
                   </span>
                 </div>
               )}
             </div>
+            {electronicDocuments && (
+              <div
+                className={`rounded-xl border px-4 py-3 text-sm text-left ${
+                  electronicDocuments.tone === "success"
+                    ? "border-emerald-400/40 bg-emerald-500/10 text-emerald-200"
+                    : electronicDocuments.tone === "warning"
+                      ? "border-amber-400/40 bg-amber-500/10 text-amber-200"
+                      : electronicDocuments.tone === "error"
+                        ? "border-rose-400/40 bg-rose-500/10 text-rose-200"
+                        : "border-slate-600 bg-slate-800/60 text-slate-300"
+                }`}
+              >
+                {electronicDocuments.message}
+              </div>
+            )}
             <div className="flex flex-col sm:flex-row gap-3">
               <button
                 type="button"
@@ -2061,10 +2136,20 @@ export default function CambiosPage() {
               >
                 Imprimir ticket de cambio
               </button>
+              {changeSuccess.store_credit && (
+                <button
+                  type="button"
+                  onClick={() => void handlePrintStoreCreditTicket()}
+                  className="flex-1 h-12 rounded-xl border border-emerald-400/60 text-emerald-200 text-base font-semibold hover:bg-emerald-500/10"
+                >
+                  Imprimir nota crédito
+                </button>
+              )}
               <button
                 type="button"
                 onClick={() => {
                   setChangeSuccess(null);
+                  setElectronicDocuments(null);
                   clearSelection();
                 }}
                 className="flex-1 h-12 rounded-xl border border-slate-700 text-slate-200 text-base font-semibold hover:bg-slate-800"
@@ -2076,6 +2161,7 @@ export default function CambiosPage() {
               type="button"
               onClick={() => {
                 setChangeSuccess(null);
+                setElectronicDocuments(null);
                 router.push("/pos");
               }}
               className="w-full h-11 rounded-full border border-emerald-400/50 text-emerald-100 text-sm font-semibold hover:bg-emerald-400/10 hover:border-emerald-300"
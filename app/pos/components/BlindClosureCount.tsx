@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import type { DenominationCounts } from "@/lib/api/cashSessions";
+import { DenominationCounter } from "./DenominationCounter";
+
+export type BlindClosureMethodKey = "card" | "qr" | "nequi" | "daviplata";
+
+/** Medios que el cajero cuenta contra sus soportes (vouchers, comprobantes). */
+export const BLIND_CLOSURE_METHODS: { key: BlindClosureMethodKey; label: string }[] = [
+  { key: "card", label: "Tarjeta Datáfono" },
+  { key: "qr", label: "Transferencias / QR" },
+  { key: "nequi", label: "Nequi" },
+  { key: "daviplata", label: "Daviplata" },
+];
+
+type BlindClosureCountProps = {
+  countedCash: number;
+  countedDenominations: DenominationCounts;
+  countedByMethod: Partial<Record<BlindClosureMethodKey, number>>;
+  notes: string;
+  /** Ya se registró el cierre; el cajero no ve lo esperado ni la diferencia. */
+  submitted: boolean;
+  onCountedCashChange: (value: number) => void;
+  onDenominationsChange: (counts: DenominationCounts) => void;
+  onMethodChange: (key: BlindClosureMethodKey, value: number) => void;
+  onNotesChange: (value: string) => void;
+};
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString("es-CO", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+function parseAmountInput(raw: string): number {
+  const digits = raw.replace(/\D/g, "");
+  return digits ? Number(digits) : 0;
+}
+
+function formatAmountInput(value: number | undefined): string {
+  return value ? value.toLocaleString("es-CO") : "";
+}
+
+export function BlindClosureCount({
+  countedCash,
+  countedDenominations,
+  countedByMethod,
+  notes,
+  submitted,
+  onCountedCashChange,
+  onDenominationsChange,
+  onMethodChange,
+  onNotesChange,
+}: BlindClosureCountProps) {
+  const [denominationsOpen, setDenominationsOpen] = useState(false);
+
+  if (submitted) {
+    return (
+      <section className="rounded-2xl border border-slate-800 bg-slate-950/40 px-4 py-4 space-y-3">
+        <p className="text-sm text-slate-200">
+          Tu conteo quedó registrado. Un supervisor revisará las diferencias
+          contra lo registrado en el sistema.
+        </p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          <div className="flex justify-between rounded-md border border-slate-800 px-3 py-2 text-xs text-slate-300">
+            <span>Efectivo</span>
+            <span className="font-mono text-slate-100">{formatMoney(countedCash)}</span>
+          </div>
+          {BLIND_CLOSURE_METHODS.map((method) => (
+            <div
+              key={method.key}
+              className="flex justify-between rounded-md border border-slate-800 px-3 py-2 text-xs text-slate-300"
+            >
+              <span>{method.label}</span>
+              <span className="font-mono text-slate-100">
+                {formatMoney(countedByMethod[method.key] ?? 0)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="rounded-2xl border border-slate-800 overflow-hidden">
+      <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
+        Cierre ciego · registra lo contado
+      </div>
+      <div className="p-4 space-y-4">
+        <p className="text-xs text-slate-400">
+          Cuenta el efectivo y los soportes de cada medio de pago. Los totales
+          del sistema no se muestran para que el conteo sea independiente.
+        </p>
+        <label className="text-xs text-slate-300 flex flex-col gap-1">
+          Efectivo contado en caja
+          <input
+            type="text"
+            inputMode="decimal"
+            value={formatAmountInput(countedCash)}
+            onChange={(e) => onCountedCashChange(parseAmountInput(e.target.value))}
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => setDenominationsOpen((prev) => !prev)}
+          className="text-xs text-emerald-300 hover:text-emerald-200"
+        >
+          {denominationsOpen
+            ? "Ocultar conteo por denominación"
+            : "Contar por billetes y monedas"}
+        </button>
+        {denominationsOpen && (
+          <DenominationCounter
+            counts={countedDenominations}
+            onChange={onDenominationsChange}
+          />
+        )}
+        <div className="grid gap-3 sm:grid-cols-2">
+          {BLIND_CLOSURE_METHODS.map((method) => (
+            <label
+              key={method.key}
+              className="text-xs text-slate-300 flex flex-col gap-1"
+            >
+              {method.label}
+              <input
+                type="text"
+                inputMode="decimal"
+                value={formatAmountInput(countedByMethod[method.key])}
+                onChange={(e) =>
+                  onMethodChange(method.key, parseAmountInput(e.target.value))
+                }
+                className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+              />
+            </label>
+          ))}
+        </div>
+        <label className="text-xs text-slate-300 flex flex-col gap-1">
+          Notas del cierre
+          <textarea
+            rows={3}
+            value={notes}
+            onChange={(e) => onNotesChange(e.target.value)}
+            className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+            placeholder="Observaciones, novedades del turno, responsable, etc."
+          />
+        </label>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,352 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import {
+  createCashMovement,
+  openCashSession,
+  type CashMovementKind,
+  type CashSession,
+  type DenominationCounts,
+} from "@/lib/api/cashSessions";
+import {
+  CASH_MOVEMENT_LABELS,
+  computeExpectedCash,
+  signedCashMovementAmount,
+  sumDenominations,
+  summarizeCashMovements,
+} from "@/lib/pos/cashSession";
+import { formatBogotaDate } from "@/lib/time/bogota";
+import { DenominationCounter } from "./DenominationCounter";
+
+type CashSessionModalProps = {
+  token: string | null;
+  stationId: string | null;
+  posName: string;
+  session: CashSession | null;
+  onSessionChange: (session: CashSession) => void;
+  onClose: () => void;
+  /** Cierre ciego: sin ventas en efectivo ni efectivo esperado para el cajero. */
+  hideExpected?: boolean;
+};
+
+const MOVEMENT_KINDS: CashMovementKind[] = ["paid_in", "paid_out", "safe_drop"];
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString("es-CO", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+function parseAmountInput(raw: string): number {
+  const digits = raw.replace(/\D/g, "");
+  return digits ? Number(digits) : 0;
+}
+
+export function CashSessionModal({
+  token,
+  stationId,
+  posName,
+  session,
+  onSessionChange,
+  onClose,
+  hideExpected = false,
+}: CashSessionModalProps) {
+  const [counts, setCounts] = useState<DenominationCounts>({});
+  const [openingNotes, setOpeningNotes] = useState("");
+  const [movementKind, setMovementKind] = useState<CashMovementKind>("paid_out");
+  const [movementAmount, setMovementAmount] = useState(0);
+  const [movementReason, setMovementReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openingFloat = sumDenominations(counts);
+
+  async function handleOpenSession(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!token) {
+      setError("Sesión expirada. Inicia sesión nuevamente.");
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      const opened = await openCashSession(
+        {
+          station_id: stationId,
+          pos_name: posName,
+          opening_float: openingFloat,
+          opening_denominations: counts,
+          notes: openingNotes.trim() || null,
+        },
+        token
+      );
+      onSessionChange(opened);
+      setCounts({});
+      setOpeningNotes("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "No se pudo abrir la caja.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleCreateMovement(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!session) return;
+    if (!token) {
+      setError("Sesión expirada. Inicia sesión nuevamente.");
+      return;
+    }
+    if (movementAmount <= 0) {
+      setError("Ingresa el valor del movimiento.");
+      return;
+    }
+    if (!movementReason.trim()) {
+      setError("Indica el motivo del movimiento.");
+      return;
+    }
+    try {
+      setSaving(true);
+      setError(null);
+      const updated = await createCashMovement(
+        session.id,
+        {
+          kind: movementKind,
+          amount: movementAmount,
+          reason: movementReason.trim(),
+        },
+        token
+      );
+      onSessionChange(updated);
+      setMovementAmount(0);
+      setMovementReason("");
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "No se pudo registrar el movimiento."
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const movementSummary = session ? summarizeCashMovements(session.movements) : null;
+  const cashSales = Number(session?.cash_sales_total ?? 0);
+  const expectedCash = session
+    ? computeExpectedCash({
+        openingFloat: session.opening_float,
+        cashSales,
+        movements: session.movements,
+      })
+    : 0;
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 px-4 py-6 sm:items-center sm:py-0">
+      <div className="relative flex max-h-[calc(100vh-2rem)] w-full max-w-2xl flex-col overflow-hidden rounded-2xl border border-slate-700 bg-slate-900 text-sm sm:max-h-[90vh]">
+        <header className="flex items-start justify-between gap-4 border-b border-slate-800 px-6 py-4">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-emerald-300">
+              Caja del turno
+            </p>
+            <h2 className="text-2xl font-semibold text-slate-100">
+              {session ? "Movimientos de efectivo" : "Apertura de caja"}
+            </h2>
+            {session && (
+              <p className="mt-1 text-xs text-slate-400">
+                Abierta{" "}
+                {formatBogotaDate(session.opened_at, {
+                  dateStyle: "short",
+                  timeStyle: "short",
+                })}
+                {session.opened_by_name ? ` por ${session.opened_by_name}` : ""}
+              </p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-xl leading-none text-slate-400 hover:text-slate-100"
+            aria-label="Cerrar caja del turno"
+          >
+            ×
+          </button>
+        </header>
+
+        <div className="flex-1 space-y-5 overflow-y-auto p-6">
+          {error && (
+            <div className="rounded-md border border-rose-500/40 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+              {error}
+            </div>
+          )}
+
+          {!session && (
+            <form onSubmit={handleOpenSession} className="space-y-4">
+              <p className="text-xs text-slate-400">
+                Cuenta el efectivo con el que inicia el cajón. La base queda
+                registrada y se suma al efectivo esperado del cierre.
+              </p>
+              <DenominationCounter counts={counts} onChange={setCounts} disabled={saving} />
+              <label className="flex flex-col gap-1 text-xs text-slate-300">
+                Notas de apertura
+                <input
+                  value={openingNotes}
+                  onChange={(e) => setOpeningNotes(e.target.value)}
+                  className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+                  placeholder="Opcional"
+                />
+              </label>
+              <div className="flex items-center justify-between gap-3 rounded-xl border border-emerald-500/30 bg-emerald-500/[0.08] px-4 py-3">
+                <div>
+                  <p className="text-xs uppercase tracking-wide text-slate-400">
+                    Base inicial
+                  </p>
+                  <p className="text-2xl font-semibold text-emerald-100">
+                    {formatMoney(openingFloat)}
+                  </p>
+                </div>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="rounded-md bg-emerald-500 px-4 py-2 font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-50"
+                >
+                  {saving ? "Abriendo..." : "Abrir caja"}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {session && movementSummary && (
+            <>
+              <section className="grid gap-3 sm:grid-cols-3">
+                {[
+                  { label: "Base inicial", value: session.opening_float },
+                  ...(hideExpected ? [] : [{ label: "Ventas en efectivo", value: cashSales }]),
+                  { label: "Entradas", value: movementSummary.paidIn },
+                  { label: "Salidas", value: -movementSummary.paidOut },
+                  { label: "Consignaciones", value: -movementSummary.safeDrops },
+                ].map((item) => (
+                  <div
+                    key={item.label}
+                    className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2"
+                  >
+                    <p className="text-[11px] text-slate-400">{item.label}</p>
+                    <p className="font-mono text-slate-100">{formatMoney(item.value)}</p>
+                  </div>
+                ))}
+                {!hideExpected && (
+                  <div className="rounded-md border border-emerald-500/40 bg-emerald-500/10 px-3 py-2">
+                    <p className="text-[11px] text-emerald-200">Efectivo esperado</p>
+                    <p className="font-mono text-lg font-semibold text-emerald-100">
+                      {formatMoney(expectedCash)}
+                    </p>
+                  </div>
+                )}
+              </section>
+
+              <form
+                onSubmit={handleCreateMovement}
+                className="space-y-3 rounded-xl border border-slate-800 p-4"
+              >
+                <p className="text-xs uppercase tracking-wide text-slate-400">
+                  Registrar movimiento
+                </p>
+                <div className="grid gap-3 sm:grid-cols-[1fr_0.7fr]">
+                  <label className="flex flex-col gap-1 text-xs text-slate-300">
+                    Tipo
+                    <select
+                      value={movementKind}
+                      onChange={(e) =>
+                        setMovementKind(e.target.value as CashMovementKind)
+                      }
+                      className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+                    >
+                      {MOVEMENT_KINDS.map((kind) => (
+                        <option key={kind} value={kind}>
+                          {CASH_MOVEMENT_LABELS[kind]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-xs text-slate-300">
+                    Valor
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={movementAmount ? movementAmount.toLocaleString("es-CO") : ""}
+                      onChange={(e) => setMovementAmount(parseAmountInput(e.target.value))}
+                      className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2 font-mono"
+                    />
+                  </label>
+                </div>
+                <label className="flex flex-col gap-1 text-xs text-slate-300">
+                  Motivo
+                  <input
+                    value={movementReason}
+                    onChange={(e) => setMovementReason(e.target.value)}
+                    className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+                    placeholder="Ej. pago a domiciliario, cambio de sencillo, consignación"
+                  />
+                </label>
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="rounded-md border border-emerald-400 px-4 py-2 font-semibold text-emerald-100 hover:bg-emerald-400/10 disabled:opacity-50"
+                  >
+                    {saving ? "Guardando..." : "Registrar"}
+                  </button>
+                </div>
+              </form>
+
+              <section className="overflow-hidden rounded-xl border border-slate-800">
+                <div className="bg-slate-950 px-4 py-2 text-xs uppercase tracking-wide text-slate-400">
+                  Movimientos del turno
+                </div>
+                {session.movements.length === 0 ? (
+                  <p className="px-4 py-3 text-xs text-slate-500">
+                    Aún no hay movimientos registrados.
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-slate-800">
+                    {session.movements.map((movement) => {
+                      const signed = signedCashMovementAmount(movement);
+                      return (
+                        <li
+                          key={movement.id}
+                          className="flex items-start justify-between gap-3 px-4 py-2"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-slate-100">
+                              {CASH_MOVEMENT_LABELS[movement.kind]}
+                            </p>
+                            <p className="text-xs text-slate-400">
+                              {movement.reason}
+                              {" · "}
+                              {formatBogotaDate(movement.created_at, {
+                                timeStyle: "short",
+                              })}
+                              {movement.created_by_name
+                                ? ` · ${movement.created_by_name}`
+                                : ""}
+                            </p>
+                          </div>
+                          <span
+                            className={`font-mono ${
+                              signed >= 0 ? "text-emerald-300" : "text-rose-300"
+                            }`}
+                          >
+                            {formatMoney(signed)}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
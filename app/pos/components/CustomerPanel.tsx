@@ -18,6 +18,7 @@ type ApiCustomer = {
   email?: string | null;
   tax_id?: string | null;
   address?: string | null;
+  loyalty_points?: number | null;
   is_active?: boolean;
   created_at?: string;
 };
@@ -104,6 +105,7 @@ export default function CustomerPanel({
       email: customer.email ?? undefined,
       taxId: customer.tax_id ?? undefined,
       address: customer.address ?? undefined,
+      loyaltyPoints: customer.loyalty_points ?? null,
     };
   }, []);
 
@@ -507,6 +509,11 @@ export default function CustomerPanel({
                   {selectedCustomer.email && <div>Email: {selectedCustomer.email}</div>}
                   {selectedCustomer.taxId && <div>NIT/ID: {selectedCustomer.taxId}</div>}
                   {selectedCustomer.address && <div>Dirección: {selectedCustomer.address}</div>}
+                  {typeof selectedCustomer.loyaltyPoints === "number" && (
+                    <div className="text-emerald-200">
+                      Puntos: {selectedCustomer.loyaltyPoints.toLocaleString("es-CO")}
+                    </div>
+                  )}
                   <button
                     type="button"
                     onClick={handleRemoveSelection}
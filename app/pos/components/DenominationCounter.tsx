@@ -0,0 +1,67 @@
+"use client";
+
+import type { DenominationCounts } from "@/lib/api/cashSessions";
+import { COP_DENOMINATIONS } from "@/lib/pos/cashSession";
+
+type DenominationCounterProps = {
+  counts: DenominationCounts;
+  onChange: (counts: DenominationCounts) => void;
+  disabled?: boolean;
+};
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString("es-CO", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+/** Cuadrícula de billetes y monedas; el total lo calcula quien la usa. */
+export function DenominationCounter({
+  counts,
+  onChange,
+  disabled = false,
+}: DenominationCounterProps) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {COP_DENOMINATIONS.map((denomination) => {
+        const quantity = counts[denomination.key] ?? 0;
+        return (
+          <label
+            key={denomination.key}
+            className="flex items-center justify-between gap-3 rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-xs text-slate-300"
+          >
+            <span className="min-w-0">
+              {denomination.kind === "bill" ? "Billete" : "Moneda"}{" "}
+              <span className="font-semibold text-slate-100">
+                {denomination.label}
+              </span>
+              {quantity > 0 && (
+                <span className="block text-[11px] text-slate-500">
+                  {formatMoney(quantity * denomination.value)}
+                </span>
+              )}
+            </span>
+            <input
+              type="number"
+              min={0}
+              inputMode="numeric"
+              value={quantity || ""}
+              disabled={disabled}
+              onChange={(e) =>
+                onChange({
+                  ...counts,
+                  [denomination.key]: Math.max(
+                    0,
+                    Math.floor(Number(e.target.value) || 0)
+                  ),
+                })
+              }
+              className="w-20 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-right font-mono text-slate-100"
+            />
+          </label>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import type { HeldSale } from "@/lib/pos/heldSales";
+
+type HeldSalesTrayProps<T> = {
+  sales: HeldSale<T>[];
+  /** Solo las estaciones con tablet vinculada pueden compartir. */
+  canShare: boolean;
+  busy: boolean;
+  onResume: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onRename: (id: string, label: string) => void;
+  onToggleShare: (id: string, shared: boolean) => void;
+};
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString("es-CO", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+export function HeldSalesTray<T>({
+  sales,
+  canShare,
+  busy,
+  onResume,
+  onDiscard,
+  onRename,
+  onToggleShare,
+}: HeldSalesTrayProps<T>) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftLabel, setDraftLabel] = useState("");
+
+  if (sales.length === 0) return null;
+
+  function startEditing(sale: HeldSale<T>) {
+    setEditingId(sale.id);
+    setDraftLabel(sale.label);
+  }
+
+  function commitEditing() {
+    if (editingId) onRename(editingId, draftLabel);
+    setEditingId(null);
+  }
+
+  return (
+    <div className="flex gap-2 overflow-x-auto border-b border-slate-800 bg-slate-950/60 px-4 py-2">
+      {sales.map((sale) => (
+        <div
+          key={sale.id}
+          className="flex min-w-[11rem] shrink-0 flex-col gap-1 rounded-xl border border-amber-400/50 bg-amber-500/10 px-3 py-2 text-amber-100"
+        >
+          {editingId === sale.id ? (
+            <input
+              autoFocus
+              value={draftLabel}
+              onChange={(e) => setDraftLabel(e.target.value)}
+              onBlur={commitEditing}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitEditing();
+                if (e.key === "Escape") setEditingId(null);
+              }}
+              className="rounded border border-amber-400/60 bg-slate-950 px-2 py-0.5 text-sm text-slate-100"
+              aria-label="Nombre de la venta en espera"
+            />
+          ) : (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => onResume(sale.id)}
+              className="text-left text-sm font-semibold hover:text-amber-50 disabled:opacity-60"
+              title="Cambiar a esta venta"
+            >
+              {sale.label}
+            </button>
+          )}
+          <p className="text-[11px] text-amber-200/80">
+            Venta {sale.saleNumber} · {sale.itemCount}{" "}
+            {sale.itemCount === 1 ? "línea" : "líneas"} · {formatMoney(sale.total)}
+          </p>
+          {sale.customerName && sale.customerName !== sale.label && (
+            <p className="truncate text-[11px] text-amber-200/70">
+              {sale.customerName}
+            </p>
+          )}
+          <div className="flex items-center gap-3 text-[11px]">
+            <button
+              type="button"
+              onClick={() => startEditing(sale)}
+              className="text-amber-200 hover:text-amber-50"
+            >
+              Renombrar
+            </button>
+            {canShare && (
+              <button
+                type="button"
+                onClick={() => onToggleShare(sale.id, !sale.shared)}
+                className={sale.shared ? "text-emerald-300" : "text-amber-200 hover:text-amber-50"}
+                title="Compartir con la tablet vinculada"
+              >
+                {sale.shared ? "Compartida" : "Compartir"}
+              </button>
+            )}
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => onDiscard(sale.id)}
+              className="ml-auto text-rose-300 hover:text-rose-200 disabled:opacity-60"
+            >
+              Descartar
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import type { QzConnectionStatus } from "@/lib/printing/qzTray";
+
+type QzTrayStatusBadgeProps = {
+  status: QzConnectionStatus;
+  pendingJobs?: number;
+  lastError?: string | null;
+};
+
+const STATUS_STYLES: Record<
+  QzConnectionStatus,
+  { label: string; dot: string; style: string }
+> = {
+  loading: {
+    label: "Cargando QZ Tray…",
+    dot: "bg-slate-400 animate-pulse",
+    style: "border-slate-600 bg-slate-800/60 text-slate-200",
+  },
+  unavailable: {
+    label: "QZ Tray no disponible",
+    dot: "bg-rose-400",
+    style: "border-rose-500/40 bg-rose-500/10 text-rose-100",
+  },
+  disconnected: {
+    label: "QZ Tray desconectado",
+    dot: "bg-amber-300",
+    style: "border-amber-400/40 bg-amber-500/10 text-amber-100",
+  },
+  connecting: {
+    label: "Conectando con QZ Tray…",
+    dot: "bg-sky-300 animate-pulse",
+    style: "border-sky-400/40 bg-sky-500/10 text-sky-100",
+  },
+  connected: {
+    label: "QZ Tray conectado",
+    dot: "bg-emerald-300",
+    style: "border-emerald-400/30 bg-emerald-500/10 text-emerald-100",
+  },
+  error: {
+    label: "Error de QZ Tray",
+    dot: "bg-rose-400",
+    style: "border-rose-500/40 bg-rose-500/10 text-rose-100",
+  },
+};
+
+export function QzTrayStatusBadge({
+  status,
+  pendingJobs = 0,
+  lastError,
+}: QzTrayStatusBadgeProps) {
+  const current = STATUS_STYLES[status];
+  return (
+    <span
+      role="status"
+      aria-live="polite"
+      title={lastError ?? undefined}
+      className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-[11px] font-semibold ${current.style}`}
+    >
+      <span className={`h-2 w-2 rounded-full ${current.dot}`} aria-hidden />
+      {current.label}
+      {pendingJobs > 0 && (
+        <span className="font-normal opacity-80">
+          · {pendingJobs} en cola
+        </span>
+      )}
+    </span>
+  );
+}
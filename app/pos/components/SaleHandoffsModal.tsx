@@ -0,0 +1,158 @@
+"use client";
+
+import type { SaleHandoff } from "@/lib/api/posHandoffs";
+import {
+  SALE_HANDOFF_STATUS_LABELS,
+  type SaleHandoffRole,
+} from "@/lib/pos/saleHandoffs";
+import { formatBogotaDate } from "@/lib/time/bogota";
+
+type SaleHandoffsModalProps = {
+  role: Exclude<SaleHandoffRole, null>;
+  handoffs: SaleHandoff[];
+  busyId: number | null;
+  onTake: (handoff: SaleHandoff) => void;
+  onCancel: (handoff: SaleHandoff) => void;
+  onRefresh: () => void;
+  onClose: () => void;
+};
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString("es-CO", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+const STATUS_STYLES: Record<SaleHandoff["status"], string> = {
+  pending: "border-amber-400/60 bg-amber-500/10 text-amber-200",
+  taken: "border-emerald-400/50 bg-emerald-500/10 text-emerald-200",
+  cancelled: "border-slate-600 bg-slate-800 text-slate-400",
+};
+
+export function SaleHandoffsModal({
+  role,
+  handoffs,
+  busyId,
+  onTake,
+  onCancel,
+  onRefresh,
+  onClose,
+}: SaleHandoffsModalProps) {
+  const isRegister = role === "register";
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-start justify-center overflow-y-auto bg-black/70 px-4 py-6 sm:items-center sm:py-0">
+      <div className="relative flex max-h-[calc(100vh-2rem)] w-full max-w-2xl flex-col overflow-hidden rounded-2xl border border-slate-700 bg-slate-900 text-sm sm:max-h-[90vh]">
+        <header className="flex items-start justify-between gap-4 border-b border-slate-800 px-6 py-4">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-emerald-300">
+              {isRegister ? "Carritos de las tablets" : "Enviados a caja"}
+            </p>
+            <h2 className="text-2xl font-semibold text-slate-100">
+              {isRegister ? "Por cobrar" : "Tus carritos"}
+            </h2>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={onRefresh}
+              className="rounded-md border border-slate-700 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-800"
+            >
+              Actualizar
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-xl leading-none text-slate-400 hover:text-slate-100"
+              aria-label="Cerrar carritos enviados"
+            >
+              ×
+            </button>
+          </div>
+        </header>
+
+        <div className="flex-1 overflow-y-auto">
+          {handoffs.length === 0 ? (
+            <p className="px-6 py-6 text-xs text-slate-500">
+              {isRegister
+                ? "Ninguna tablet ha enviado carritos todavía."
+                : "Aún no has enviado carritos a caja."}
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-800">
+              {handoffs.map((handoff) => (
+                <li
+                  key={handoff.id}
+                  className="flex flex-wrap items-start justify-between gap-3 px-6 py-3"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-slate-100">
+                        {handoff.customer_name?.trim() || "Cliente sin registrar"}
+                      </span>
+                      <span
+                        className={`rounded-full border px-2 py-0.5 text-[11px] ${STATUS_STYLES[handoff.status]}`}
+                      >
+                        {SALE_HANDOFF_STATUS_LABELS[handoff.status]}
+                      </span>
+                    </div>
+                    <p className="text-xs text-slate-400">
+                      {handoff.item_count} {handoff.item_count === 1 ? "línea" : "líneas"}
+                      {" · "}
+                      {formatMoney(handoff.total)}
+                      {" · "}
+                      {formatBogotaDate(handoff.created_at, { timeStyle: "short" })}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      Vendedor: {handoff.seller_name || "Sin asignar"}
+                      {isRegister && handoff.source_station_label
+                        ? ` · ${handoff.source_station_label}`
+                        : ""}
+                    </p>
+                    {handoff.notes && (
+                      <p className="text-xs text-slate-500">{handoff.notes}</p>
+                    )}
+                    {handoff.status === "taken" && (
+                      <p className="text-xs text-emerald-300/80">
+                        Tomada por {handoff.taken_by_user_name || "caja"}
+                        {handoff.taken_at
+                          ? ` a las ${formatBogotaDate(handoff.taken_at, {
+                              timeStyle: "short",
+                            })}`
+                          : ""}
+                      </p>
+                    )}
+                  </div>
+                  {handoff.status === "pending" && (
+                    <div className="flex gap-2">
+                      {isRegister ? (
+                        <button
+                          type="button"
+                          disabled={busyId !== null}
+                          onClick={() => onTake(handoff)}
+                          className="rounded-md bg-emerald-500 px-4 py-2 text-xs font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-50"
+                        >
+                          {busyId === handoff.id ? "Cargando..." : "Cargar y cobrar"}
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          disabled={busyId !== null}
+                          onClick={() => onCancel(handoff)}
+                          className="rounded-md border border-rose-400/60 px-4 py-2 text-xs font-semibold text-rose-200 hover:bg-rose-500/10 disabled:opacity-50"
+                        >
+                          {busyId === handoff.id ? "Cancelando..." : "Cancelar envío"}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { verifySellerPin } from "@/lib/api/posSellers";
+import type { PosSeller } from "@/lib/pos/sellers";
+
+type SellerPinModalProps = {
+  token: string | null;
+  stationId: string | null;
+  /** Se pide el PIN antes de cobrar (`payment`) o para cambiar de vendedor (`switch`). */
+  reason: "switch" | "payment";
+  activeSeller: PosSeller | null;
+  loggedUserName: string | null;
+  onVerified: (seller: PosSeller) => void;
+  onUseLoggedUser: () => void;
+  onClose: () => void;
+};
+
+export function SellerPinModal({
+  token,
+  stationId,
+  reason,
+  activeSeller,
+  loggedUserName,
+  onVerified,
+  onUseLoggedUser,
+  onClose,
+}: SellerPinModalProps) {
+  const [pin, setPin] = useState("");
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!token) {
+      setError("Sesión expirada. Inicia sesión nuevamente.");
+      return;
+    }
+    if (pin.trim().length < 4) {
+      setError("El PIN tiene al menos 4 dígitos.");
+      return;
+    }
+    try {
+      setVerifying(true);
+      setError(null);
+      const seller = await verifySellerPin(pin.trim(), stationId, token);
+      onVerified(seller);
+    } catch (err) {
+      setPin("");
+      setError(err instanceof Error ? err.message : "No se pudo verificar el PIN.");
+    } finally {
+      setVerifying(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/70 px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-5 rounded-2xl border border-slate-700 bg-slate-900 p-6 text-sm"
+      >
+        <div>
+          <p className="text-xs uppercase tracking-wide text-emerald-300">
+            {reason === "payment" ? "¿Quién atendió la venta?" : "Cambiar vendedor"}
+          </p>
+          <h2 className="text-2xl font-semibold text-slate-100">Ingresa tu PIN</h2>
+          <p className="mt-1 text-xs text-slate-400">
+            Vendedor actual: {activeSeller?.name ?? loggedUserName ?? "sin identificar"}
+          </p>
+        </div>
+        {error && (
+          <div className="rounded-md border border-rose-500/40 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+            {error}
+          </div>
+        )}
+        <input
+          autoFocus
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 8))}
+          className="w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-3 text-center font-mono text-2xl tracking-[0.5em]"
+          aria-label="PIN del vendedor"
+        />
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={verifying}
+            className="flex-1 rounded-md bg-emerald-500 py-2.5 font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-50"
+          >
+            {verifying ? "Verificando..." : reason === "payment" ? "Continuar al pago" : "Cambiar"}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 rounded-md border border-slate-600 py-2.5 font-semibold text-slate-200 hover:bg-slate-800"
+          >
+            Cancelar
+          </button>
+        </div>
+        {reason === "switch" && activeSeller && loggedUserName && (
+          <button
+            type="button"
+            onClick={onUseLoggedUser}
+            className="w-full text-xs text-slate-400 hover:text-slate-200"
+          >
+            Volver a {loggedUserName}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
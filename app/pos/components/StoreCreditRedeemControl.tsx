@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { fetchStoreCreditByCode, type StoreCredit } from "@/lib/api/storeCredits";
+import {
+  maxStoreCreditRedemption,
+  normalizeStoreCreditCode,
+  resolveStoreCreditStatus,
+  STORE_CREDIT_KIND_LABELS,
+  STORE_CREDIT_STATUS_LABELS,
+} from "@/lib/pos/storeCredit";
+import { formatBogotaDate } from "@/lib/time/bogota";
+
+export type AppliedStoreCredit = {
+  credit: StoreCredit;
+  amount: number;
+};
+
+type StoreCreditRedeemControlProps = {
+  token: string | null;
+  /** Lo que falta por pagar sin contar el saldo ya aplicado. */
+  remaining: number;
+  applied: AppliedStoreCredit | null;
+  onApply: (applied: AppliedStoreCredit) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+};
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString("es-CO", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+export function StoreCreditRedeemControl({
+  token,
+  remaining,
+  applied,
+  onApply,
+  onRemove,
+  disabled = false,
+}: StoreCreditRedeemControlProps) {
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (applied) {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-xl border border-emerald-500/30 bg-emerald-500/[0.08] px-3 py-2 text-sm">
+        <div className="min-w-0 leading-tight">
+          <div className="font-semibold text-emerald-100">
+            {STORE_CREDIT_KIND_LABELS[applied.credit.kind]} {applied.credit.code}
+          </div>
+          <div className="text-xs text-slate-400">
+            Aplicado {formatMoney(applied.amount)} · queda{" "}
+            {formatMoney(Math.max(0, applied.credit.balance - applied.amount))}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={disabled}
+          className="rounded-md border border-slate-700 px-2.5 py-1 text-xs text-slate-300 hover:border-rose-400/60 hover:text-rose-200 disabled:opacity-50"
+        >
+          Quitar
+        </button>
+      </div>
+    );
+  }
+
+  async function handleLookup() {
+    const normalized = normalizeStoreCreditCode(code);
+    if (!normalized) {
+      setError("Escanea o digita el código del saldo a favor.");
+      return;
+    }
+    if (!token) {
+      setError("Sesión expirada. Inicia sesión nuevamente.");
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      const credit = await fetchStoreCreditByCode(normalized, token);
+      const status = resolveStoreCreditStatus(credit);
+      if (status !== "active") {
+        const expiry = credit.expires_at
+          ? ` (${formatBogotaDate(credit.expires_at, { dateStyle: "medium" })})`
+          : "";
+        setError(
+          `El saldo ${credit.code} está ${STORE_CREDIT_STATUS_LABELS[status].toLowerCase()}${
+            status === "expired" ? expiry : ""
+          }.`
+        );
+        return;
+      }
+      const amount = maxStoreCreditRedemption(credit, remaining);
+      if (amount <= 0) {
+        setError("No hay valor pendiente para cubrir con el saldo.");
+        return;
+      }
+      onApply({ credit, amount });
+      setCode("");
+    } catch (err) {
+      const status = (err as { status?: number }).status;
+      setError(
+        status === 404
+          ? "No encontramos un saldo a favor con ese código."
+          : err instanceof Error
+          ? err.message
+          : "No se pudo consultar el saldo a favor."
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key !== "Enter") return;
+            e.preventDefault();
+            e.stopPropagation();
+            void handleLookup();
+          }}
+          inputMode="numeric"
+          placeholder="Código de tarjeta o nota crédito"
+          disabled={disabled || loading}
+          className="h-9 min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-950 px-3 text-sm text-slate-100 outline-none focus:border-emerald-400"
+        />
+        <button
+          type="button"
+          onClick={() => void handleLookup()}
+          disabled={disabled || loading}
+          className="h-9 rounded-lg border border-emerald-500/40 bg-emerald-500/10 px-3 text-sm font-semibold text-emerald-100 hover:bg-emerald-500/20 disabled:opacity-50"
+        >
+          {loading ? "Consultando..." : "Usar saldo"}
+        </button>
+      </div>
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+    </div>
+  );
+}
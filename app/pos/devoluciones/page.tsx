@@ -3,7 +3,16 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useAuth } from "../../providers/AuthProvider";
-import { renderReturnTicket } from "@/lib/printing/saleTicket";
+import {
+  renderReturnTicket,
+  renderStoreCreditTicket,
+  type ReturnTicketOptions,
+} from "@/lib/printing/saleTicket";
+import {
+  loadTicketLogoRaster,
+  renderReturnTicketEscPos,
+  renderStoreCreditTicketEscPos,
+} from "@/lib/printing/escPosTickets";
 import { fetchPosSettings, PosSettingsPayload } from "@/lib/api/settings";
 import {
   DEFAULT_PAYMENT_METHODS,
@@ -15,6 +24,11 @@ import {
   distributeSaleAdjustment,
   fetchSaleAdjustmentSummary,
 } from "@/lib/pos/saleAdjustments";
+import type { StoreCredit } from "@/lib/api/storeCredits";
+import {
+  buildStoreCreditTicketOptions,
+  STORE_CREDIT_PAYMENT_METHOD,
+} from "@/lib/pos/storeCredit";
 import {
   ensureStoredPosMode,
   fetchPosStationPrinterConfig,
@@ -27,6 +41,15 @@ import {
 } from "@/lib/api/posStations";
 import LoadingSpinner from "../../components/ui/LoadingSpinner";
 import { formatBogotaDate } from "@/lib/time/bogota";
+import { useQzTray } from "@/app/hooks/useQzTray";
+import { isTaxRateCode } from "@/lib/pos/taxes";
+import { resolveDianConfig } from "@/lib/invoicing/dianUbl";
+import {
+  describeDianDocumentStatus,
+  issueDianCreditNoteForReturn,
+} from "@/lib/invoicing/dianIssuing";
+import { createDianIssuingGateway } from "@/lib/api/electronicInvoices";
+import { QzTrayStatusBadge } from "../components/QzTrayStatusBadge";
 
 type PaymentMethodSlug = string;
 
@@ -57,6 +80,7 @@ type ReturnItemDetail = {
   quantity: number;
   unit_price_net: number;
   total_refund: number;
+  tax_rate?: string | null;
 };
 
 type ReturnPaymentDetail = {
@@ -76,8 +100,21 @@ type SaleReturnDetail = {
   notes?: string | null;
   items: ReturnItemDetail[];
   payments: ReturnPaymentDetail[];
+  /** Nota crédito emitida cuando el reembolso se hace como saldo a favor. */
+  store_credit?: StoreCredit | null;
 };
 
+function returnTicketItems(detail: SaleReturnDetail) {
+  return detail.items.map((item) => ({
+    name: item.product_name,
+    quantity: item.quantity,
+    unitPrice: item.unit_price_net,
+    total: item.total_refund,
+    sku: item.product_sku ?? undefined,
+    taxRate: isTaxRateCode(item.tax_rate) ? item.tax_rate : null,
+  }));
+}
+
 type SaleItem = {
   id: number;
   product_name?: string;
@@ -252,6 +289,10 @@ export default function DevolucionesPage() {
   const [returnSuccess, setReturnSuccess] = useState<SaleReturnDetail | null>(
     null
   );
+  const [electronicCreditNote, setElectronicCreditNote] = useState<{
+    tone: "info" | "success" | "warning" | "error";
+    message: string;
+  } | null>(null);
   const [posSettings, setPosSettings] = useState<PosSettingsPayload | null>(
     null
   );
@@ -400,123 +441,15 @@ export default function DevolucionesPage() {
     };
   }, [token, apiBase, activeStationId, isStationMode, printerStorageKey]);
 
-  type QzPromiseResolver<T> = (value: T | PromiseLike<T>) => void;
-  type QzPromiseReject = (reason?: unknown) => void;
-  type QzType = {
-    websocket: { isActive: () => boolean; connect: () => Promise<void> };
-    printers: { find: () => Promise<string[]> };
-    configs: { create: (printer: string, options?: Record<string, unknown>) => unknown };
-    print: (config: unknown, data: unknown) => Promise<void>;
-    security?: {
-      setCertificatePromise: (
-        promise: (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-      setSignaturePromise: (
-        promise: (
-          toSign: string
-        ) => (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-    };
-  };
-  const [qzClient, setQzClient] = useState<QzType | null>(() => {
-    if (typeof window !== "undefined") {
-      const w = window as unknown as { qz?: QzType };
-      return w.qz ?? null;
-    }
-    return null;
-  });
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    let cancelled = false;
-    const setIfPresent = () => {
-      if (cancelled) return;
-      const w = window as unknown as { qz?: QzType };
-      if (w.qz) setQzClient(w.qz);
-    };
-    const w = window as unknown as { qz?: QzType };
-    if (w.qz) {
-      setIfPresent();
-      return () => {
-        cancelled = true;
-      };
-    }
-    const existing = document.querySelector(
-      'script[data-qz-tray]'
-    ) as HTMLScriptElement | null;
-    const script = existing ?? document.createElement("script");
-    if (!existing) {
-      script.src = "https://cdn.jsdelivr.net/npm/qz-tray@2.2.4/qz-tray.js";
-      script.async = true;
-      script.dataset.qzTray = "1";
-      script.onerror = () =>
-        console.warn("No se pudo cargar el script de QZ Tray desde la CDN.");
-      document.head.appendChild(script);
-    }
-    script.addEventListener("load", setIfPresent);
-    return () => {
-      cancelled = true;
-      script.removeEventListener("load", setIfPresent);
-    };
-  }, []);
-  const qzSecurityConfiguredRef = useRef(false);
-  const configureQzSecurity = useCallback(() => {
-    if (!qzClient?.security) return true;
-    if (!token) return false;
-    if (qzSecurityConfiguredRef.current) return true;
-    const authHeaders = {
-      Authorization: `Bearer ${token}`,
-    };
-    qzClient.security.setCertificatePromise(
-      (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-        fetch(`${apiBase}/pos/qz/cert`, { credentials: "include" })
-          .then(async (res) => {
-            if (!res.ok) {
-              throw new Error(
-                `No se pudo obtener el certificado (Error ${res.status}).`
-              );
-            }
-            return res.text();
-          })
-          .then(resolve)
-          .catch(reject);
-      }
-    );
-    qzClient.security.setSignaturePromise(
-      (toSign: string) =>
-        (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-          fetch(`${apiBase}/pos/qz/sign`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              ...authHeaders,
-            },
-            credentials: "include",
-            body: JSON.stringify({ data: toSign }),
-          })
-            .then(async (res) => {
-              if (!res.ok) {
-                const detail = await res.json().catch(() => null);
-                throw new Error(
-                  detail?.detail ??
-                    `No se pudo firmar el reto (Error ${res.status}).`
-                );
-              }
-              const data = (await res.json()) as { signature?: string };
-              if (!data?.signature) {
-                throw new Error("La API no devolvió la firma.");
-              }
-              return data.signature;
-            })
-            .then(resolve)
-            .catch(reject);
-        }
-    );
-    qzSecurityConfiguredRef.current = true;
-    return true;
-  }, [apiBase, qzClient, token]);
-  useEffect(() => {
-    configureQzSecurity();
-  }, [configureQzSecurity]);
+  const {
+    status: qzStatus,
+    isAvailable: qzAvailable,
+    pendingJobs: qzPendingJobs,
+    lastError: qzLastError,
+    printHtml: printQzHtml,
+    printRaw: printQzRaw,
+    openCashDrawer: openQzCashDrawer,
+  } = useQzTray(token);
 
   useEffect(() => {
     if (!activePaymentMethods.length) return;
@@ -533,7 +466,9 @@ export default function DevolucionesPage() {
   }, [paymentCatalog]);
 
   const resolvePaymentLabel = useCallback(
-    (method: string) => paymentLabels.get(method) ?? method,
+    (method: string) =>
+      paymentLabels.get(method) ??
+      (method === STORE_CREDIT_PAYMENT_METHOD ? "Saldo a favor" : method),
     [paymentLabels]
   );
 
@@ -950,6 +885,38 @@ export default function DevolucionesPage() {
     Number(paymentAmount) > 0 &&
     (!sale.is_separated || paidRemaining > 0);
 
+  // Si la venta tiene factura electrónica validada, la devolución sale con su nota crédito.
+  const issueElectronicCreditNote = async (detail: SaleReturnDetail, saleId: number) => {
+    const config = resolveDianConfig(posSettings);
+    if (!config || !token) return;
+    setElectronicCreditNote({ tone: "info", message: "Emitiendo nota crédito electrónica…" });
+    try {
+      const record = await issueDianCreditNoteForReturn(createDianIssuingGateway(token), config, {
+        returnId: detail.id,
+        saleId,
+        options: {
+          documentNumber:
+            detail.document_number ?? `DV-${detail.id.toString().padStart(6, "0")}`,
+          createdAt: detail.created_at,
+          items: returnTicketItems(detail),
+          payments: [],
+          totalRefund: detail.total_refund,
+          notes: detail.notes,
+        },
+      });
+      setElectronicCreditNote(record ? describeDianDocumentStatus(record) : null);
+    } catch (err) {
+      console.error("No se pudo emitir la nota crédito electrónica", err);
+      setElectronicCreditNote({
+        tone: "error",
+        message:
+          err instanceof Error
+            ? `No se pudo emitir la nota crédito electrónica: ${err.message}`
+            : "No se pudo emitir la nota crédito electrónica.",
+      });
+    }
+  };
+
   const handleSubmit = async () => {
     if (!sale) return;
     setSubmitting(true);
@@ -1021,7 +988,7 @@ export default function DevolucionesPage() {
       }
 
       const createdReturn = (await res.json()) as SaleReturnDetail;
-      setReturnSuccess({
+      const returnDetail: SaleReturnDetail = {
         id: createdReturn.id,
         document_number: createdReturn.document_number,
         original_document_number: sale.document_number ?? null,
@@ -1033,7 +1000,11 @@ export default function DevolucionesPage() {
         notes: createdReturn.notes ?? notes ?? null,
         items: createdReturn.items ?? [],
         payments: createdReturn.payments ?? [],
-      });
+        store_credit: createdReturn.store_credit ?? null,
+      };
+      setReturnSuccess(returnDetail);
+      setElectronicCreditNote(null);
+      void issueElectronicCreditNote(returnDetail, sale.id);
       setQuantities({});
       setNotes("");
       setPaymentTouched(false);
@@ -1057,18 +1028,12 @@ export default function DevolucionesPage() {
 
   const handlePrintReturnTicket = useCallback(async () => {
     if (!returnSuccess) return;
-    const items = returnSuccess.items.map((item) => ({
-      name: item.product_name,
-      quantity: item.quantity,
-      unitPrice: item.unit_price_net,
-      total: item.total_refund,
-      sku: item.product_sku ?? undefined,
-    }));
+    const items = returnTicketItems(returnSuccess);
     const payments = (returnSuccess.payments ?? []).map((payment) => ({
       label: resolvePaymentLabel(payment.method),
       amount: payment.amount,
     }));
-    const html = renderReturnTicket({
+    const ticketOptions: ReturnTicketOptions = {
       settings: posSettings,
       documentNumber:
         returnSuccess.document_number ??
@@ -1084,27 +1049,29 @@ export default function DevolucionesPage() {
       payments,
       totalRefund: returnSuccess.total_refund,
       notes: returnSuccess.notes,
-    });
+    };
+    const html = renderReturnTicket(ticketOptions);
 
     const printTicketWithQz = async () => {
       if (printerConfig.mode !== "qz-tray") return false;
       if (!printerConfig.printerName.trim()) return false;
-      if (!qzClient) return false;
+      if (!qzAvailable) return false;
       try {
-        configureQzSecurity();
-        if (!qzClient.websocket.isActive()) {
-          await qzClient.websocket.connect();
+        if (printerConfig.format === "escpos") {
+          const logo = await loadTicketLogoRaster(posSettings, printerConfig.width);
+          await printQzRaw(
+            printerConfig.printerName,
+            renderReturnTicketEscPos(ticketOptions, { width: printerConfig.width, logo }),
+            "Ticket de devolución"
+          );
+        } else {
+          await printQzHtml(
+            printerConfig.printerName,
+            html,
+            printerConfig.width,
+            "Ticket de devolución"
+          );
         }
-        const sizeWidth = printerConfig.width === "58mm" ? 58 : 80;
-        const cfg = qzClient.configs.create(printerConfig.printerName, {
-          altPrinting: true,
-          units: "mm",
-          size: { width: sizeWidth },
-          margins: { top: 0, right: 0, bottom: 0, left: 0 },
-        });
-        await qzClient.print(cfg, [
-          { type: "html", format: "plain", data: html },
-        ]);
         return true;
       } catch (err) {
         console.error("No se pudo imprimir devolución con QZ Tray", err);
@@ -1135,42 +1102,101 @@ export default function DevolucionesPage() {
       win.onload = triggerPrint;
     }
   }, [
-    configureQzSecurity,
     posSettings,
+    printerConfig.format,
     printerConfig.mode,
     printerConfig.printerName,
     printerConfig.width,
-    qzClient,
+    printQzHtml,
+    printQzRaw,
+    qzAvailable,
     resolvePaymentLabel,
     returnSuccess,
   ]);
 
+  const handlePrintStoreCreditTicket = useCallback(async () => {
+    const credit = returnSuccess?.store_credit;
+    if (!credit) return;
+    const ticketOptions = buildStoreCreditTicketOptions(credit, posSettings);
+    const html = renderStoreCreditTicket(ticketOptions);
+
+    const printTicketWithQz = async () => {
+      if (printerConfig.mode !== "qz-tray") return false;
+      if (!printerConfig.printerName.trim()) return false;
+      if (!qzAvailable) return false;
+      try {
+        if (printerConfig.format === "escpos") {
+          const logo = await loadTicketLogoRaster(posSettings, printerConfig.width);
+          await printQzRaw(
+            printerConfig.printerName,
+            renderStoreCreditTicketEscPos(ticketOptions, { width: printerConfig.width, logo }),
+            "Nota crédito"
+          );
+        } else {
+          await printQzHtml(
+            printerConfig.printerName,
+            html,
+            printerConfig.width,
+            "Nota crédito"
+          );
+        }
+        return true;
+      } catch (err) {
+        console.error("No se pudo imprimir la nota crédito con QZ Tray", err);
+        return false;
+      }
+    };
+
+    const printedWithQz = await printTicketWithQz();
+    if (printedWithQz) return;
+
+    const win = window.open("", "_blank", "width=380,height=640");
+    if (!win) return;
+    win.document.write(html);
+    win.document.close();
+    const triggerPrint = () => {
+      try {
+        win.focus();
+        win.print();
+      } catch (err) {
+        console.error("No se pudo imprimir la nota crédito", err);
+      } finally {
+        win.close();
+      }
+    };
+    if (win.document.readyState === "complete") {
+      triggerPrint();
+    } else {
+      win.onload = triggerPrint;
+    }
+  }, [
+    posSettings,
+    printerConfig.format,
+    printerConfig.mode,
+    printerConfig.printerName,
+    printerConfig.width,
+    printQzHtml,
+    printQzRaw,
+    qzAvailable,
+    returnSuccess,
+  ]);
+
   const openDrawerWithQz = useCallback(async () => {
     if (printerConfig.mode !== "qz-tray") return false;
     if (!printerConfig.printerName.trim()) return false;
-    if (!qzClient) return false;
+    if (!qzAvailable) return false;
     try {
-      configureQzSecurity();
-      if (!qzClient.websocket.isActive()) {
-        await qzClient.websocket.connect();
-      }
-      const cfg = qzClient.configs.create(printerConfig.printerName, {
-        altPrinting: true,
-      });
-      const drawerPulse = "\x1B\x70\x00\x19\xFA";
-      await qzClient.print(cfg, [
-        { type: "raw", format: "command", data: drawerPulse },
-      ]);
+      await openQzCashDrawer(printerConfig.printerName);
       return true;
     } catch (err) {
       console.error("No se pudo abrir el cajón para la devolución", err);
       return false;
     }
   }, [
-    configureQzSecurity,
     printerConfig.mode,
     printerConfig.printerName,
-    qzClient,
+    openQzCashDrawer,
+    qzAvailable,
   ]);
 
   useEffect(() => {
@@ -1222,13 +1248,22 @@ export default function DevolucionesPage() {
               Escanea el ticket y confirma el reembolso antes de imprimir.
             </p>
           </div>
-          <button
-            type="button"
-            onClick={() => router.push(resolvedBackPath)}
-            className="h-12 px-4 rounded-xl border border-slate-700 bg-slate-900/70 text-slate-100 hover:bg-slate-800"
-          >
-            {resolvedBackLabel}
-          </button>
+          <div className="flex flex-wrap items-center gap-3">
+            {printerConfig.mode === "qz-tray" && (
+              <QzTrayStatusBadge
+                status={qzStatus}
+                pendingJobs={qzPendingJobs}
+                lastError={qzLastError}
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => router.push(resolvedBackPath)}
+              className="h-12 px-4 rounded-xl border border-slate-700 bg-slate-900/70 text-slate-100 hover:bg-slate-800"
+            >
+              {resolvedBackLabel}
+            </button>
+          </div>
         </header>
 
         <div className="grid gap-6 xl:grid-cols-[400px_minmax(0,1fr)]">
@@ -1572,6 +1607,9 @@ export default function DevolucionesPage() {
                         {method.name}
                       </option>
                     ))}
+                    <option value={STORE_CREDIT_PAYMENT_METHOD}>
+                      Saldo a favor (nota crédito)
+                    </option>
                   </select>
                 </div>
                 <div className="space-y-2">
@@ -1646,7 +1684,25 @@ export default function DevolucionesPage() {
                   -{formatMoney(Math.round(returnSuccess.total_refund))}
                 </span>
               </div>
-              {refundSummary.amount > 0 && (
+              {returnSuccess.store_credit ? (
+                <div className="sm:col-span-2 rounded-xl border border-emerald-400/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+                  Se emitió la nota crédito{" "}
+                  <span className="font-mono font-semibold">
+                    {returnSuccess.store_credit.code}
+                  </span>{" "}
+                  por{" "}
+                  <span className="font-semibold">
+                    {formatMoney(Math.round(returnSuccess.store_credit.balance))}
+                  </span>
+                  {returnSuccess.store_credit.expires_at
+                    ? `, válida hasta ${formatBogotaDate(
+                        returnSuccess.store_credit.expires_at,
+                        { dateStyle: "medium" }
+                      )}`
+                    : ""}
+                  . Entrégala impresa al cliente.
+                </div>
+              ) : refundSummary.amount > 0 && (
                 <div className="sm:col-span-2 rounded-xl border border-amber-400/40 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
                   Debes devolver{" "}
                   <span className="font-semibold">
@@ -1659,6 +1715,21 @@ export default function DevolucionesPage() {
                   al cliente.
                 </div>
               )}
+              {electronicCreditNote && (
+                <div
+                  className={`sm:col-span-2 rounded-xl border px-4 py-3 text-sm ${
+                    electronicCreditNote.tone === "success"
+                      ? "border-emerald-400/40 bg-emerald-500/10 text-emerald-200"
+                      : electronicCreditNote.tone === "warning"
+                        ? "border-amber-400/40 bg-amber-500/10 text-amber-200"
+                        : electronicCreditNote.tone === "error"
+                          ? "border-rose-400/40 bg-rose-500/10 text-rose-200"
+                          : "border-slate-600 bg-slate-800/60 text-slate-300"
+                  }`}
+                >
+                  {electronicCreditNote.message}
+                </div>
+              )}
             </div>
             <div className="mt-6 flex flex-col gap-3">
               <button
@@ -1668,10 +1739,20 @@ export default function DevolucionesPage() {
               >
                 Imprimir ticket de devolución
               </button>
+              {returnSuccess.store_credit && (
+                <button
+                  type="button"
+                  onClick={handlePrintStoreCreditTicket}
+                  className="px-6 py-4 rounded-xl border border-emerald-400/60 text-emerald-200 text-base font-semibold hover:bg-emerald-500/10"
+                >
+                  Imprimir nota crédito
+                </button>
+              )}
               <button
                 type="button"
                 onClick={() => {
                   setReturnSuccess(null);
+                  setElectronicCreditNote(null);
                   clearSelection();
                 }}
                 className="px-6 py-4 rounded-xl bg-slate-800 hover:bg-slate-700 text-slate-100 text-base font-semibold"
@@ -1682,6 +1763,7 @@ export default function DevolucionesPage() {
                 type="button"
                 onClick={() => {
                   setReturnSuccess(null);
+                  setElectronicCreditNote(null);
                   router.push(resolvedBackPath);
                 }}
                 className="px-6 py-4 rounded-xl border border-slate-600 text-slate-200 text-base font-semibold hover:bg-slate-800"
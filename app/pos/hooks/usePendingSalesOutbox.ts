@@ -0,0 +1,153 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useOnlineStatus } from "@/app/hooks/useOnlineStatus";
+import {
+  getPendingSales,
+  isPendingSaleDeadLetter,
+  removePendingSale,
+  replayPendingSales,
+  requeuePendingSale,
+  resolvePendingSalesAutoReplayDelay,
+  subscribePendingSales,
+  type PendingSaleRecord,
+  type PendingSaleScope,
+  type PendingSalesReplayResult,
+} from "@/lib/pos/pendingSales";
+
+const RECONNECT_REPLAY_DELAY_MS = 2_500;
+
+type PendingSalesOutboxOptions = {
+  scope: PendingSaleScope;
+  token: string | null;
+  onAdded?: () => void;
+  onReplayed?: (result: PendingSalesReplayResult) => void;
+};
+
+export function usePendingSalesOutbox({
+  scope,
+  token,
+  onAdded,
+  onReplayed,
+}: PendingSalesOutboxOptions) {
+  const isOnline = useOnlineStatus();
+  const [records, setRecords] = useState<PendingSaleRecord[]>([]);
+  const [replaying, setReplaying] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [unauthorizedToken, setUnauthorizedToken] = useState<string | null>(null);
+  const replayingRef = useRef(false);
+  const onAddedRef = useRef(onAdded);
+  const onReplayedRef = useRef(onReplayed);
+
+  useEffect(() => {
+    onAddedRef.current = onAdded;
+    onReplayedRef.current = onReplayed;
+  }, [onAdded, onReplayed]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRecords(await getPendingSales(scope));
+    } catch (err) {
+      console.warn("No se pudieron leer las ventas pendientes", err);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    const initial = window.setTimeout(() => void refresh(), 0);
+    const unsubscribe = subscribePendingSales((detail, fromOtherTab) => {
+      void refresh();
+      if (detail.action === "added" && !fromOtherTab) {
+        onAddedRef.current?.();
+      }
+    });
+    return () => {
+      window.clearTimeout(initial);
+      unsubscribe();
+    };
+  }, [refresh]);
+
+  const replay = useCallback(
+    async (ids?: string[]) => {
+      if (!token || replayingRef.current) return null;
+      replayingRef.current = true;
+      setReplaying(true);
+      setSendingId(ids?.length === 1 ? ids[0] : null);
+      setReplayError(null);
+      try {
+        const result = await replayPendingSales({
+          scope,
+          token,
+          ids,
+          jitter: Math.random,
+        });
+        setUnauthorizedToken(result.stoppedReason === "unauthorized" ? token : null);
+        onReplayedRef.current?.(result);
+        return result;
+      } catch (err) {
+        console.warn("No se pudieron enviar las ventas pendientes", err);
+        setReplayError(
+          err instanceof Error ? err.message : "No se pudieron enviar las ventas pendientes."
+        );
+        return null;
+      } finally {
+        replayingRef.current = false;
+        setReplaying(false);
+        setSendingId(null);
+        void refresh();
+      }
+    },
+    [refresh, scope, token]
+  );
+
+  const retry = useCallback(
+    async (record: PendingSaleRecord) => {
+      if (isPendingSaleDeadLetter(record)) {
+        await requeuePendingSale(record.id);
+      }
+      return replay([record.id]);
+    },
+    [replay]
+  );
+
+  const discard = useCallback(async (record: PendingSaleRecord) => {
+    await removePendingSale(record.id);
+  }, []);
+
+  const pendingRecords = useMemo(
+    () => records.filter((record) => !isPendingSaleDeadLetter(record)),
+    [records]
+  );
+  const deadLetterRecords = useMemo(
+    () => records.filter(isPendingSaleDeadLetter),
+    [records]
+  );
+
+  // Al volver la conexión se espera un momento para que la red se estabilice;
+  // después se programa el siguiente envío según el backoff de cada venta.
+  useEffect(() => {
+    if (!isOnline || replaying) return;
+    const waitMs = resolvePendingSalesAutoReplayDelay(pendingRecords, {
+      token,
+      unauthorizedToken,
+      minDelayMs: RECONNECT_REPLAY_DELAY_MS,
+    });
+    if (waitMs === null) return;
+    const timer = window.setTimeout(() => void replay(), waitMs);
+    return () => window.clearTimeout(timer);
+  }, [isOnline, pendingRecords, replay, replaying, token, unauthorizedToken]);
+
+  return {
+    isOnline,
+    records,
+    pendingRecords,
+    deadLetterRecords,
+    replaying,
+    sendingId,
+    replayError,
+    refresh,
+    replay,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useOnlineStatus } from "@/app/hooks/useOnlineStatus";
+import {
+  cancelSaleHandoff,
+  createSaleHandoff,
+  fetchPosStationScope,
+  fetchSaleHandoffs,
+  takeSaleHandoff,
+  type SaleHandoff,
+  type SaleHandoffCreateInput,
+} from "@/lib/api/posHandoffs";
+import {
+  SALE_HANDOFF_POLL_MS,
+  countPendingSaleHandoffs,
+  resolveSaleHandoffRole,
+  sortSaleHandoffs,
+  type SaleHandoffRole,
+} from "@/lib/pos/saleHandoffs";
+
+type SaleHandoffsOptions = {
+  stationId: string | null;
+  token: string | null;
+};
+
+export function useSaleHandoffs({ stationId, token }: SaleHandoffsOptions) {
+  const isOnline = useOnlineStatus();
+  const [resolvedRole, setResolvedRole] = useState<{
+    stationId: string;
+    role: SaleHandoffRole;
+  } | null>(null);
+  const [handoffs, setHandoffs] = useState<SaleHandoff[]>([]);
+  const role =
+    stationId && token && resolvedRole?.stationId === stationId
+      ? resolvedRole.role
+      : null;
+
+  useEffect(() => {
+    if (!stationId || !token) return;
+    let cancelled = false;
+    fetchPosStationScope(stationId, token)
+      .then((scope) => {
+        if (cancelled) return;
+        setResolvedRole({ stationId, role: resolveSaleHandoffRole(scope, stationId) });
+      })
+      .catch((err) => console.warn("No se pudo identificar el tipo de estación", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [stationId, token]);
+
+  const refresh = useCallback(async () => {
+    if (!stationId || !token || !role) return;
+    try {
+      const rows = await fetchSaleHandoffs({ stationId }, token);
+      setHandoffs(sortSaleHandoffs(rows));
+    } catch (err) {
+      console.warn("No se pudieron cargar los carritos enviados a caja", err);
+    }
+  }, [role, stationId, token]);
+
+  useEffect(() => {
+    if (!role || !isOnline) return;
+    const initial = window.setTimeout(() => void refresh(), 0);
+    const interval = window.setInterval(() => void refresh(), SALE_HANDOFF_POLL_MS);
+    return () => {
+      window.clearTimeout(initial);
+      window.clearInterval(interval);
+    };
+  }, [isOnline, refresh, role]);
+
+  const upsert = useCallback((handoff: SaleHandoff) => {
+    setHandoffs((prev) =>
+      sortSaleHandoffs([handoff, ...prev.filter((item) => item.id !== handoff.id)])
+    );
+  }, []);
+
+  const send = useCallback(
+    async (payload: Omit<SaleHandoffCreateInput, "source_station_id">) => {
+      if (!stationId || !token) {
+        throw new Error("Sesión expirada. Inicia sesión nuevamente.");
+      }
+      const created = await createSaleHandoff(
+        { ...payload, source_station_id: stationId },
+        token
+      );
+      upsert(created);
+      return created;
+    },
+    [stationId, token, upsert]
+  );
+
+  const take = useCallback(
+    async (handoffId: number) => {
+      if (!stationId || !token) {
+        throw new Error("Sesión expirada. Inicia sesión nuevamente.");
+      }
+      try {
+        const taken = await takeSaleHandoff(handoffId, stationId, token);
+        upsert(taken);
+        return taken;
+      } catch (err) {
+        // Otra caja pudo tomarlo primero; refrescar para mostrar el estado real.
+        void refresh();
+        throw err;
+      }
+    },
+    [refresh, stationId, token, upsert]
+  );
+
+  const cancel = useCallback(
+    async (handoffId: number) => {
+      if (!token) {
+        throw new Error("Sesión expirada. Inicia sesión nuevamente.");
+      }
+      const cancelled = await cancelSaleHandoff(handoffId, token);
+      upsert(cancelled);
+      return cancelled;
+    },
+    [token, upsert]
+  );
+
+  const pendingCount = useMemo(() => countPendingSaleHandoffs(handoffs), [handoffs]);
+
+  return {
+    role,
+    handoffs: role ? handoffs : [],
+    pendingCount: role ? pendingCount : 0,
+    refresh,
+    send,
+    take,
+    cancel,
+  };
+}
@@ -1,9 +1,10 @@
 "use client";
 
 import { useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import { PosProvider } from "./poscontext";
 import { useAuth } from "../providers/AuthProvider";
+import { CUSTOMER_DISPLAY_ROUTE } from "@/lib/pos/customerDisplay";
 
 const POS_ALLOWED_ROLES = new Set(["Administrador", "Supervisor", "Vendedor"]);
 
@@ -13,6 +14,7 @@ export default function PosLayout({
   children: React.ReactNode;
 }) {
   const router = useRouter();
+  const pathname = usePathname();
   const { token, loading, user } = useAuth();
 
   useEffect(() => {
@@ -48,5 +50,11 @@ export default function PosLayout({
     );
   }
 
+  // La pantalla del cliente solo escucha al POS; con su propio PosProvider
+  // competiría por la sesión guardada del carrito.
+  if (pathname?.startsWith(CUSTOMER_DISPLAY_ROUTE)) {
+    return <>{children}</>;
+  }
+
   return <PosProvider>{children}</PosProvider>;
 }
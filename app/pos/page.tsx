@@ -22,15 +22,22 @@ import type { Product, CartItem } from "./poscontext";
 import { getApiBase } from "@/lib/api/base";
 import { useAuth } from "../providers/AuthProvider";
 import { useOnlineStatus } from "../hooks/useOnlineStatus";
-import {
-  getPendingSales,
-  removePendingSale,
-  submitPendingSale,
-  PENDING_SALES_EVENT,
-  PENDING_SALES_STORAGE_KEY,
-  type PendingSaleRecord,
+import type {
+  PendingSaleRecord,
+  PendingSalesReplayResult,
 } from "@/lib/pos/pendingSales";
-import { fetchPosSettings, PosSettingsPayload } from "@/lib/api/settings";
+import { usePendingSalesOutbox } from "./hooks/usePendingSalesOutbox";
+import { useQzTray } from "../hooks/useQzTray";
+import { QzTrayError } from "@/lib/printing/qzTray";
+import { QzTrayStatusBadge } from "./components/QzTrayStatusBadge";
+import {
+  defaultRolePermissions,
+  fetchPosSettings,
+  fetchRolePermissions,
+  PosSettingsPayload,
+  type PosUserRecord,
+  type RolePermissionModule,
+} from "@/lib/api/settings";
 import { buildRestockReportHtml, type KoraRestockForecastResponse } from "@/lib/kora/restock-report";
 import {
   fetchSeparatedOrders,
@@ -39,7 +46,14 @@ import {
 } from "@/lib/api/separatedOrders";
 import { usePaymentMethodsCatalog } from "@/app/hooks/usePaymentMethodsCatalog";
 import type { PaymentMethodRecord } from "@/lib/api/paymentMethods";
-import { renderClosureTicket } from "@/lib/printing/saleTicket";
+import {
+  renderClosureTicket,
+  type ClosureTicketOptions,
+} from "@/lib/printing/saleTicket";
+import {
+  loadTicketLogoRaster,
+  renderClosureTicketEscPos,
+} from "@/lib/printing/escPosTickets";
 import LoadingSpinner from "../components/ui/LoadingSpinner";
 import {
   buildBogotaDateFromKey,
@@ -66,6 +80,61 @@ import {
   type PosStationPrinterConfig,
 } from "@/lib/api/posStations";
 import { buildScopedPosStorageKey } from "@/lib/pos/storageScope";
+import { normalizeTaxBreakdown, type TaxBreakdownRow } from "@/lib/pos/taxes";
+import { promotionNamesForLine } from "@/lib/pos/promotions";
+import {
+  buildCatalogBarcodeIndex,
+  buildCatalogVersionKey,
+  buildPosCatalogScopeKey,
+  readPosCatalogSnapshot,
+  savePosCatalogGroupAppearances,
+  syncPosCatalogSnapshot,
+} from "@/lib/pos/catalogSnapshot";
+import {
+  fetchCurrentCashSession,
+  type CashSession,
+  type DenominationCounts,
+} from "@/lib/api/cashSessions";
+import {
+  buildClosureCashSessionTicket,
+  buildClosureDenominationTicket,
+  computeExpectedCash,
+  sumDenominations,
+} from "@/lib/pos/cashSession";
+import { CUSTOMER_DISPLAY_ROUTE } from "@/lib/pos/customerDisplay";
+import {
+  HELD_SALES_LIMIT,
+  HELD_SALES_STORAGE_KEY_BASE,
+  HeldSalesLimitError,
+  heldSaleFromRecord,
+  heldSaleToRecord,
+  holdSale,
+  latestHeldSale,
+  markHeldSalesSynced,
+  mergeSharedHeldSales,
+  parseStoredHeldSales,
+  removeHeldSale,
+  updateHeldSale,
+  type HeldSale,
+  type HeldSaleInput,
+} from "@/lib/pos/heldSales";
+import {
+  deleteSharedHeldSale,
+  fetchSharedHeldSales,
+  saveSharedHeldSale,
+} from "@/lib/api/posHeldSales";
+import type { PosStationScope, SaleHandoff } from "@/lib/api/posHandoffs";
+import { withLineSeller, type PosSeller } from "@/lib/pos/sellers";
+import { CashSessionModal } from "./components/CashSessionModal";
+import { DenominationCounter } from "./components/DenominationCounter";
+import { HeldSalesTray } from "./components/HeldSalesTray";
+import { SellerPinModal } from "./components/SellerPinModal";
+import { SaleHandoffsModal } from "./components/SaleHandoffsModal";
+import { useSaleHandoffs } from "./hooks/useSaleHandoffs";
+import {
+  BlindClosureCount,
+  type BlindClosureMethodKey,
+} from "./components/BlindClosureCount";
 import {
   PosCatalogGrid,
   type GridTile,
@@ -74,7 +143,8 @@ import {
 } from "./components/PosCatalogGrid";
 
 const PENDING_ALERT_ACK_STORAGE_KEY = "metrik_pos_pending_ack_v1";
-const HELD_SALE_STORAGE_KEY_BASE = "kensar_pos_held_sale_v1";
+// Formato anterior: una sola venta en espera por pestaña (sessionStorage).
+const LEGACY_HELD_SALE_STORAGE_KEY_BASE = "kensar_pos_held_sale_v1";
 const RESUME_HELD_SALE_KEY_BASE = "kensar_pos_resume_held_sale_v1";
 const POS_NOTICE_HEARTBEAT_MS = 10 * 60 * 1000;
 const PAYMENT_ROUTE = "/pos/pago";
@@ -99,6 +169,17 @@ type HeldSaleSnapshot = {
   search: string;
 };
 
+// Lo que viaja de la tablet a la caja: el carrito sin número ni reserva de venta.
+type SaleHandoffCart = Pick<
+  HeldSaleSnapshot,
+  | "cart"
+  | "saleNotes"
+  | "selectedCustomer"
+  | "cartDiscountValue"
+  | "cartDiscountPercent"
+  | "cartSurcharge"
+>;
+
 type ClosureFormState = {
   totalAmount: number;
   totalCash: number;
@@ -112,6 +193,10 @@ type ClosureFormState = {
   changeRefundTotal: number;
   changeCount: number;
   countedCash: number;
+  /** Conteo por denominación; si está vacío el efectivo se digitó como total. */
+  countedDenominations: DenominationCounts;
+  /** Cierre ciego: lo que el cajero contó por cada medio distinto a efectivo. */
+  countedByMethod: Partial<Record<BlindClosureMethodKey, number>>;
   notes: string;
 };
 type UserContribution = {
@@ -142,16 +227,7 @@ type PosStationNotice = {
   created_by_user_name?: string | null;
 };
 
-type PosClosureStationScopeResponse = {
-  primary_station_id: string;
-  station_ids: string[];
-  stations: {
-    station_id: string;
-    station_label: string;
-    station_type: "desktop" | "tablet";
-    is_primary: boolean;
-  }[];
-};
+type PosClosureStationScopeResponse = PosStationScope;
 
 type PosClosureResult = {
   id: number;
@@ -206,6 +282,9 @@ type PosClosureResult = {
     net_amount?: number | null;
     net_amount_without_separated_pending?: number | null;
   }[] | null;
+  tax_breakdown?: TaxBreakdownRow[] | null;
+  cash_session?: CashSession | null;
+  counted_denominations?: DenominationCounts | null;
 };
 
 type PosClosurePreviewResult = {
@@ -259,6 +338,8 @@ const initialClosureForm: ClosureFormState = {
   changeRefundTotal: 0,
   changeCount: 0,
   countedCash: 0,
+  countedDenominations: {},
+  countedByMethod: {},
   notes: "",
 };
 type ClosureSale = {
@@ -825,7 +906,7 @@ export default function PosPage() {
   const { token, user, tenant, logout } = useAuth();
   const searchParams = useSearchParams();
   const newTabQuery = searchParams.get("newTab") === "1";
-  const catalogScopeKey = `tenant:${tenant?.id ?? "pending"}`;
+  const catalogScopeKey = buildPosCatalogScopeKey(tenant?.id);
   const initialCatalogCache =
     posCatalogMemoryCache?.scopeKey === catalogScopeKey
       ? posCatalogMemoryCache
@@ -849,7 +930,14 @@ export default function PosPage() {
   const stationNoticePulseTimerRef = useRef<number | null>(null);
   const stationNoticeActiveIdRef = useRef<number | null>(null);
   const dismissedStationNoticeIdsRef = useRef<Set<number>>(new Set());
-  const [heldSaleSnapshot, setHeldSaleSnapshot] = useState<HeldSaleSnapshot | null>(null);
+  const [heldSales, setHeldSales] = useState<HeldSale<HeldSaleSnapshot>[]>([]);
+  const [heldSaleSwitching, setHeldSaleSwitching] = useState(false);
+  const [sellerPinReason, setSellerPinReason] = useState<"switch" | "payment" | null>(
+    null
+  );
+  const [handoffsModalOpen, setHandoffsModalOpen] = useState(false);
+  const [handoffBusyId, setHandoffBusyId] = useState<number | null>(null);
+  const [handoffSending, setHandoffSending] = useState(false);
   const [posMode, setPosMode] = useState<PosAccessMode | null>(null);
   const [stationInfo, setStationInfo] = useState<PosStationAccess | null>(null);
   const [openedAsNewTab, setOpenedAsNewTab] = useState<boolean>(() => {
@@ -881,9 +969,18 @@ export default function PosPage() {
     };
   }, []);
 
-  const heldSaleStorageKey = useMemo(
+  const heldSalesStorageKey = useMemo(
+    () =>
+      buildScopedPosStorageKey(HELD_SALES_STORAGE_KEY_BASE, {
+        tenantId: tenant?.id ?? null,
+        userId: user?.id ?? null,
+        stationId: activeStationId,
+      }),
+    [activeStationId, tenant?.id, user?.id]
+  );
+  const legacyHeldSaleStorageKey = useMemo(
     () =>
-      buildScopedPosStorageKey(HELD_SALE_STORAGE_KEY_BASE, {
+      buildScopedPosStorageKey(LEGACY_HELD_SALE_STORAGE_KEY_BASE, {
         tenantId: tenant?.id ?? null,
         userId: user?.id ?? null,
         stationId: activeStationId,
@@ -990,6 +1087,7 @@ const matchesStationLabel = useCallback(
   const [syncingCatalog, setSyncingCatalog] = useState(false);
   const [syncStatus, setSyncStatus] = useState<{ type: "success" | "error"; message: string } | null>(null);
   const [catalogVersion, setCatalogVersion] = useState<string | null>(null);
+  const [offlineCatalogSyncedAt, setOfflineCatalogSyncedAt] = useState<string | null>(null);
   const [catalogUpdateAvailable, setCatalogUpdateAvailable] = useState(false);
   const [catalogNotice, setCatalogNotice] = useState<string | null>(null);
   const [catalogNoticeVisible, setCatalogNoticeVisible] = useState(false);
@@ -1268,6 +1366,7 @@ const matchesStationLabel = useCallback(
     setCart,
     cartGrossSubtotal,
     cartLineDiscountTotal,
+    cartPromotions,
     cartSubtotal,
     cartTotalBeforeSurcharge,
     cartTotal,
@@ -1289,6 +1388,8 @@ const matchesStationLabel = useCallback(
     setReservedSaleNumber,
     selectedCustomer,
     setSelectedCustomer,
+    activeSeller,
+    setActiveSeller,
   } = usePos();
   const paymentMethodsCatalog = usePaymentMethodsCatalog();
   const paymentMethodIndex = useMemo(() => {
@@ -1379,9 +1480,7 @@ const matchesStationLabel = useCallback(
           products_count?: number | null;
           groups_count?: number | null;
         };
-        const updatedAtKey = data.updated_at ?? "";
-        const countsKey = `${data.products_count ?? ""}:${data.groups_count ?? ""}`;
-        const nextVersion = updatedAtKey || countsKey ? `${updatedAtKey}|${countsKey}` : null;
+        const nextVersion = buildCatalogVersionKey(data);
         if (options?.markSynced) {
           setCatalogVersion(nextVersion);
           setCatalogUpdateAvailable(false);
@@ -1594,175 +1693,39 @@ const matchesStationLabel = useCallback(
     [savePrinterConfig, token, isStationMode, activeStationId, apiBase]
   );
 
-  type QzPromiseResolver<T> = (value: T | PromiseLike<T>) => void;
-  type QzPromiseReject = (reason?: unknown) => void;
-  type QzType = {
-    websocket: { isActive: () => boolean; connect: () => Promise<void> };
-    printers: { find: () => Promise<string[]> };
-    configs: { create: (printer: string, options?: Record<string, unknown>) => unknown };
-    print: (config: unknown, data: unknown) => Promise<void>;
-    security?: {
-      setCertificatePromise: (
-        promise: (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-      setSignaturePromise: (
-        promise: (
-          toSign: string
-        ) => (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-    };
-  };
-  const [qzInstance, setQzInstance] = useState<QzType | null>(() => {
-    if (typeof window !== "undefined") {
-      const w = window as unknown as { qz?: QzType };
-      return w.qz ?? null;
-    }
-    return null;
-  });
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    let cancelled = false;
-    const setIfPresent = () => {
-      if (cancelled) return;
-      const w = window as unknown as { qz?: QzType };
-      if (w.qz) setQzInstance(w.qz);
-    };
-    const w = window as unknown as { qz?: QzType };
-    if (w.qz) {
-      setIfPresent();
-      return () => {
-        cancelled = true;
-      };
-    }
-    const existing = document.querySelector('script[data-qz-tray]') as HTMLScriptElement | null;
-    const script = existing ?? document.createElement("script");
-    if (!existing) {
-      script.src = "https://cdn.jsdelivr.net/npm/qz-tray@2.2.4/qz-tray.js";
-      script.async = true;
-      script.dataset.qzTray = "1";
-      script.onerror = () =>
-        console.warn("No se pudo cargar el script de QZ Tray desde la CDN.");
-      document.head.appendChild(script);
-    }
-    script.addEventListener("load", setIfPresent);
-    return () => {
-      cancelled = true;
-      script.removeEventListener("load", setIfPresent);
-    };
-  }, []);
-  const qzSecurityConfiguredRef = useRef(false);
-  const configureQzSecurity = useCallback(() => {
-    if (!qzInstance?.security) return true;
-    if (!token) return false;
-    if (qzSecurityConfiguredRef.current) return true;
-    const authHeaders = {
-      Authorization: `Bearer ${token}`,
-    };
-    qzInstance.security.setCertificatePromise(
-      (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-        fetch(`${apiBase}/pos/qz/cert`, { credentials: "include" })
-          .then(async (res) => {
-            if (!res.ok) {
-              throw new Error(
-                `No se pudo obtener el certificado (Error ${res.status}).`
-              );
-            }
-            return res.text();
-          })
-          .then(resolve)
-          .catch(reject);
-      }
-    );
-    qzInstance.security.setSignaturePromise(
-      (toSign: string) =>
-        (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-          fetch(`${apiBase}/pos/qz/sign`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              ...authHeaders,
-            },
-            credentials: "include",
-            body: JSON.stringify({ data: toSign }),
-          })
-            .then(async (res) => {
-              if (!res.ok) {
-                const detail = await res.json().catch(() => null);
-                throw new Error(
-                  detail?.detail ??
-                    `No se pudo firmar el reto (Error ${res.status}).`
-                );
-              }
-              const data = (await res.json()) as { signature?: string };
-              if (!data?.signature) {
-                throw new Error("La API no devolvió la firma.");
-              }
-              return data.signature;
-            })
-            .then(resolve)
-            .catch(reject);
-        }
-    );
-    qzSecurityConfiguredRef.current = true;
-    return true;
-  }, [apiBase, qzInstance, token]);
-  useEffect(() => {
-    configureQzSecurity();
-  }, [configureQzSecurity]);
+  const {
+    status: qzStatus,
+    isAvailable: qzAvailable,
+    pendingJobs: qzPendingJobs,
+    lastError: qzLastError,
+    findPrinters: findQzPrinters,
+    printHtml: printQzHtml,
+    printRaw: printQzRaw,
+    openCashDrawer: openQzCashDrawer,
+  } = useQzTray(token);
 
   const handleScanPrinters = useCallback(async () => {
-    if (!qzInstance) {
-      setPrinterScanMessage("Instala QZ Tray y autoriza este dominio para listar impresoras.");
-      return;
-    }
-    if (!configureQzSecurity()) {
-      setPrinterScanMessage("No se pudo configurar QZ. Verifica tu sesión.");
-      return;
-    }
     try {
       setPrinterScanning(true);
       setPrinterScanMessage(null);
-      if (!qzInstance.websocket.isActive()) {
-        await qzInstance.websocket.connect();
+      const list = await findQzPrinters();
+      setAvailablePrinters(list);
+      if (!list.length) {
+        setPrinterScanMessage("No se detectaron impresoras en QZ Tray.");
       }
-      let timeoutId: ReturnType<typeof setTimeout> | null = null;
-      timeoutId = setTimeout(() => {
-        setPrinterScanMessage(
-          "QZ Tray no respondió. Verifica que la impresora esté instalada en macOS."
-        );
-        setPrinterScanning(false);
-      }, 8000);
-      qzInstance.printers
-        .find()
-        .then((list: string[]) => {
-          if (timeoutId) clearTimeout(timeoutId);
-          setAvailablePrinters(list ?? []);
-          if (!list?.length) {
-            setPrinterScanMessage("No se detectaron impresoras en QZ Tray.");
-          }
-        })
-        .catch((err) => {
-          if (timeoutId) clearTimeout(timeoutId);
-          console.error(err);
-          setPrinterScanMessage(
-            err instanceof Error
-              ? err.message
-              : "No se pudieron listar las impresoras con QZ Tray."
-          );
-        })
-        .finally(() => {
-          setPrinterScanning(false);
-        });
     } catch (err) {
       console.error(err);
       setPrinterScanMessage(
-        err instanceof Error
-          ? err.message
-          : "No se pudieron listar las impresoras con QZ Tray."
+        err instanceof QzTrayError && err.code === "unavailable"
+          ? "Instala QZ Tray y autoriza este dominio para listar impresoras."
+          : err instanceof Error
+            ? err.message
+            : "No se pudieron listar las impresoras con QZ Tray."
       );
+    } finally {
       setPrinterScanning(false);
     }
-  }, [qzInstance, configureQzSecurity]);
+  }, [findQzPrinters]);
   useEffect(() => {
     if (typeof window === "undefined") return;
     if (newTabQuery) {
@@ -2347,7 +2310,6 @@ const matchesStationLabel = useCallback(
     setPriceChangeValue(formatted || "");
   }, []);
   const [confirmCancelOpen, setConfirmCancelOpen] = useState(false);
-  const [confirmResumeHeldOpen, setConfirmResumeHeldOpen] = useState(false);
   const [closeModalOpen, setCloseModalOpen] = useState(false);
   const [closureReminderOpen, setClosureReminderOpen] = useState(false);
   const [closureForm, setClosureForm] = useState<ClosureFormState>(
@@ -2358,6 +2320,65 @@ const matchesStationLabel = useCallback(
   const [closureResult, setClosureResult] = useState<PosClosureResult | null>(
     null
   );
+  const [cashSession, setCashSession] = useState<CashSession | null>(null);
+  const [cashSessionModalOpen, setCashSessionModalOpen] = useState(false);
+  const [closureDenominationsOpen, setClosureDenominationsOpen] = useState(false);
+  const [roleModules, setRoleModules] = useState<RolePermissionModule[]>(
+    defaultRolePermissions
+  );
+  // Base inicial + entradas − salidas − consignaciones; las ventas en efectivo
+  // las aporta el cierre.
+  const cashDrawerAdjustment = useMemo(
+    () =>
+      cashSession
+        ? computeExpectedCash({
+            openingFloat: cashSession.opening_float,
+            cashSales: 0,
+            movements: cashSession.movements,
+          })
+        : 0,
+    [cashSession]
+  );
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    fetchRolePermissions(token)
+      .then((modules) => {
+        if (!cancelled) {
+          setRoleModules(modules);
+        }
+      })
+      .catch((err) => {
+        console.warn("No se pudieron cargar los permisos del POS", err);
+        if (!cancelled) {
+          setRoleModules(defaultRolePermissions);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const canDoPosAction = useCallback(
+    (actionId: string) => {
+      const role = user?.role as PosUserRecord["role"] | undefined;
+      if (!role) return false;
+      const findAction = (modules: RolePermissionModule[]) =>
+        modules
+          .find((item) => item.id === "pos")
+          ?.actions.find((entry) => entry.id === actionId);
+      // Configuraciones guardadas antes de existir la acción usan el valor por defecto.
+      const action = findAction(roleModules) ?? findAction(defaultRolePermissions);
+      return Boolean(action?.roles[role]);
+    },
+    [roleModules, user?.role]
+  );
+
+  const isBlindClosure = canDoPosAction("pos.closures.blind");
+  const canSeeClosureDifferences = canDoPosAction("pos.closures.differences");
+  const closureHidesExpected =
+    isBlindClosure && !(closureResult && canSeeClosureDifferences);
   const [closureTargetDateKey, setClosureTargetDateKey] = useState<string | null>(
     null
   );
@@ -2414,8 +2435,14 @@ const matchesStationLabel = useCallback(
   );
   const canProceedToPayment = cart.length > 0 && !missingFreeSaleReason;
   const sellerDisplayName = user?.name || user?.email || null;
-  const sellerName = sellerDisplayName
-    ? `Vendedor: ${sellerDisplayName}`
+  // Vendedor de la venta: el identificado por PIN o, si no hay, el usuario logueado.
+  const saleSeller = useMemo<PosSeller | null>(
+    () => activeSeller ?? (user ? { id: user.id, name: sellerDisplayName ?? user.name } : null),
+    [activeSeller, sellerDisplayName, user]
+  );
+  const sellerPerLine = Boolean(posSettings?.seller_per_line);
+  const sellerName = saleSeller
+    ? `Vendedor: ${saleSeller.name}`
     : "Vendedor: (no identificado)";
   const sellerRole = user?.role ?? "Sin rol asignado";
   const sellerInitials = useMemo(() => {
@@ -2448,6 +2475,7 @@ const matchesStationLabel = useCallback(
 
   const resetClosureState = useCallback(() => {
     setClosureForm(initialClosureForm);
+    setClosureDenominationsOpen(false);
     setClosureError(null);
     setClosureResult(null);
     setClosureTargetDateKey(null);
@@ -2478,10 +2506,6 @@ const matchesStationLabel = useCallback(
     [activeStationId, tenant?.id, user?.id]
   );
 
-  const refreshPendingSales = useCallback(() => {
-    setPendingSales(getPendingSales(pendingSalesScope));
-  }, [pendingSalesScope]);
-
   const handleToggleFullscreen = useCallback(async () => {
     if (typeof document === "undefined") return;
     if (!document.documentElement.requestFullscreen || !document.exitFullscreen) {
@@ -2531,14 +2555,10 @@ const matchesStationLabel = useCallback(
     startLabel: string;
     endLabel: string;
   } | null>(null);
-  const [pendingSales, setPendingSales] = useState<PendingSaleRecord[]>([]);
   const [pendingBannerStatus, setPendingBannerStatus] = useState<{
     type: "info" | "success" | "error";
     message: string;
   } | null>(null);
-  const [sendingPendingId, setSendingPendingId] = useState<string | null>(null);
-  const [sendingAllPending, setSendingAllPending] = useState(false);
-  const autoPendingRetryKeyRef = useRef<string | null>(null);
   const hasSaleContent = useMemo(
     () =>
       cart.length > 0 ||
@@ -2559,17 +2579,56 @@ const matchesStationLabel = useCallback(
     ]
   );
 
-  const readHeldSaleSnapshot = useCallback((): HeldSaleSnapshot | null => {
-    if (typeof window === "undefined") return null;
-    const raw = window.sessionStorage.getItem(heldSaleStorageKey);
-    if (!raw) return null;
+  const writeHeldSales = useCallback(
+    (next: HeldSale<HeldSaleSnapshot>[]) => {
+      setHeldSales(next);
+      if (typeof window === "undefined") return;
+      try {
+        if (next.length) {
+          window.localStorage.setItem(heldSalesStorageKey, JSON.stringify(next));
+        } else {
+          window.localStorage.removeItem(heldSalesStorageKey);
+        }
+      } catch (err) {
+        console.warn("No se pudieron guardar las ventas en espera", err);
+      }
+    },
+    [heldSalesStorageKey]
+  );
+
+  const readHeldSales = useCallback((): HeldSale<HeldSaleSnapshot>[] => {
+    if (typeof window === "undefined") return [];
+    let stored: HeldSale<HeldSaleSnapshot>[] = [];
     try {
-      return JSON.parse(raw) as HeldSaleSnapshot;
+      stored = parseStoredHeldSales<HeldSaleSnapshot>(
+        window.localStorage.getItem(heldSalesStorageKey)
+      );
     } catch (err) {
-      console.warn("No se pudo leer la venta en espera", err);
-      return null;
+      console.warn("No se pudieron leer las ventas en espera", err);
+    }
+    const legacyRaw = window.sessionStorage.getItem(legacyHeldSaleStorageKey);
+    if (!legacyRaw) return stored;
+    window.sessionStorage.removeItem(legacyHeldSaleStorageKey);
+    try {
+      const legacy = JSON.parse(legacyRaw) as HeldSaleSnapshot;
+      const legacyCart = legacy.cart ?? [];
+      const migrated = holdSale(stored, {
+        customerName: legacy.selectedCustomer?.name ?? null,
+        saleNumber: legacy.saleNumber,
+        itemCount: legacyCart.length,
+        total: legacyCart.reduce(
+          (sum, item) => sum + item.quantity * item.unitPrice - item.lineDiscountValue,
+          0
+        ),
+        snapshot: legacy,
+      });
+      writeHeldSales(migrated);
+      return migrated;
+    } catch (err) {
+      console.warn("No se pudo migrar la venta en espera", err);
+      return stored;
     }
-  }, [heldSaleStorageKey]);
+  }, [heldSalesStorageKey, legacyHeldSaleStorageKey, writeHeldSales]);
 
   useEffect(() => {
     if (!discountModalOpen) return;
@@ -2582,24 +2641,58 @@ const matchesStationLabel = useCallback(
     return () => window.cancelAnimationFrame(raf);
   }, [discountModalOpen]);
 
-  const writeHeldSaleSnapshot = useCallback((snapshot: HeldSaleSnapshot) => {
-    if (typeof window === "undefined") return;
+  const publishSharedHeldSale = useCallback(
+    async (sale: HeldSale<HeldSaleSnapshot>) => {
+      if (!token || !activeStationId || !sale.shared) return;
+      try {
+        await saveSharedHeldSale(
+          activeStationId,
+          heldSaleToRecord(sale, activeStationId),
+          token
+        );
+        writeHeldSales(markHeldSalesSynced(readHeldSales(), [sale.id]));
+      } catch (err) {
+        console.warn("No se pudo compartir la venta en espera", err);
+      }
+    },
+    [activeStationId, readHeldSales, token, writeHeldSales]
+  );
+
+  const unpublishSharedHeldSale = useCallback(
+    async (sale: HeldSale<HeldSaleSnapshot>) => {
+      if (!token || !activeStationId || !sale.shared) return;
+      try {
+        await deleteSharedHeldSale(activeStationId, sale.id, token);
+      } catch (err) {
+        console.warn("No se pudo retirar la venta en espera compartida", err);
+      }
+    },
+    [activeStationId, token]
+  );
+
+  const syncSharedHeldSales = useCallback(async () => {
+    if (!token || !activeStationId || !isOnline) return;
     try {
-      window.sessionStorage.setItem(
-        heldSaleStorageKey,
-        JSON.stringify(snapshot)
+      const remote = await fetchSharedHeldSales(activeStationId, token);
+      const merged = mergeSharedHeldSales(
+        readHeldSales(),
+        remote.map((record) => heldSaleFromRecord<HeldSaleSnapshot>(record))
+      );
+      const pending = merged.filter((sale) => sale.shared && !sale.syncedAt);
+      await Promise.all(
+        pending.map((sale) =>
+          saveSharedHeldSale(
+            activeStationId,
+            heldSaleToRecord(sale, activeStationId),
+            token
+          )
+        )
       );
-      setHeldSaleSnapshot(snapshot);
+      writeHeldSales(markHeldSalesSynced(merged));
     } catch (err) {
-      console.warn("No se pudo guardar la venta en espera", err);
+      console.warn("No se pudieron sincronizar las ventas en espera compartidas", err);
     }
-  }, [heldSaleStorageKey]);
-
-  const clearHeldSaleSnapshot = useCallback(() => {
-    if (typeof window === "undefined") return;
-    window.sessionStorage.removeItem(heldSaleStorageKey);
-    setHeldSaleSnapshot(null);
-  }, [heldSaleStorageKey]);
+  }, [activeStationId, isOnline, readHeldSales, token, writeHeldSales]);
 
   const reserveSaleNumber = useCallback(async (minSaleNumber?: number) => {
     if (!token) {
@@ -2727,22 +2820,34 @@ const matchesStationLabel = useCallback(
       window.sessionStorage.getItem(resumeHeldSaleKey) === "1";
     if (!shouldResume) return;
     window.sessionStorage.removeItem(resumeHeldSaleKey);
-    const snapshot = readHeldSaleSnapshot();
-    if (!snapshot) return;
+    const stored = readHeldSales();
+    // Al terminar un cobro se retoma la última venta aparcada.
+    const latest = latestHeldSale(stored);
+    if (!latest) return;
     if (cart.length > 0) return;
-    restoreHeldSaleSnapshot(snapshot);
-    clearHeldSaleSnapshot();
+    restoreHeldSaleSnapshot(latest.snapshot);
+    writeHeldSales(removeHeldSale(stored, latest.id));
+    void unpublishSharedHeldSale(latest);
   }, [
     cart.length,
-    clearHeldSaleSnapshot,
-    readHeldSaleSnapshot,
+    readHeldSales,
     resumeHeldSaleKey,
     restoreHeldSaleSnapshot,
+    unpublishSharedHeldSale,
+    writeHeldSales,
   ]);
 
   useEffect(() => {
-    setHeldSaleSnapshot(readHeldSaleSnapshot());
-  }, [readHeldSaleSnapshot]);
+    setHeldSales(readHeldSales());
+  }, [readHeldSales]);
+
+  useEffect(() => {
+    if (!activeStationId) return;
+    void syncSharedHeldSales();
+    const handleFocus = () => void syncSharedHeldSales();
+    window.addEventListener("focus", handleFocus);
+    return () => window.removeEventListener("focus", handleFocus);
+  }, [activeStationId, syncSharedHeldSales]);
 
   useEffect(() => {
     if (!token) return;
@@ -2762,46 +2867,6 @@ const matchesStationLabel = useCallback(
     };
   }, [token]);
 
-  useEffect(() => {
-    refreshPendingSales();
-    const win = typeof window === "undefined" ? null : window;
-    if (!win) return;
-    const handleUpdate = (event: Event) => {
-      refreshPendingSales();
-      const custom = event as CustomEvent<{ action?: string }>;
-      const action = custom.detail?.action;
-      if (action === "added") {
-        setPendingBannerStatus({
-          type: "info",
-          message:
-            "Guardamos una venta pendiente por falta de conexión o acceso al servidor.",
-        });
-      } else if (action === "removed") {
-        setPendingBannerStatus({
-          type: "success",
-          message: "Venta pendiente enviada correctamente.",
-        });
-      }
-    };
-    const handleStorage = (event: StorageEvent) => {
-      if (event.key === PENDING_SALES_STORAGE_KEY) {
-        refreshPendingSales();
-      }
-    };
-    win.addEventListener(
-      PENDING_SALES_EVENT,
-      handleUpdate as EventListener
-    );
-    win.addEventListener("storage", handleStorage);
-    return () => {
-      win.removeEventListener(
-        PENDING_SALES_EVENT,
-        handleUpdate as EventListener
-      );
-      win.removeEventListener("storage", handleStorage);
-    };
-  }, [refreshPendingSales]);
-
   useEffect(() => {
     if (!pendingBannerStatus) return;
     const timer =
@@ -3922,8 +3987,9 @@ const matchesStationLabel = useCallback(
           pos_name: resolvedPosName,
           station_id: activeStationId ?? undefined,
           closed_at: closedAt ?? undefined,
-          counted_cash: roundedTotals.totalCash,
+          counted_cash: roundedTotals.totalCash + cashDrawerAdjustment,
           notes: closureForm.notes.trim() || undefined,
+          cash_session_id: cashSession?.id ?? undefined,
         };
         const previewRes = await fetch(`${apiBase}/pos/closures/preview`, {
           method: "POST",
@@ -4020,7 +4086,10 @@ const matchesStationLabel = useCallback(
       setClosureForm((prev) => ({
         ...prev,
         ...finalRoundedTotals,
-        countedCash: finalRoundedTotals.totalCash,
+        // En cierre ciego el cajero parte de cero para no ver lo esperado.
+        countedCash: isBlindClosure
+          ? prev.countedCash
+          : finalRoundedTotals.totalCash + cashDrawerAdjustment,
       }));
 
       if (rangeStartKey && rangeEndKey && !effectiveTargetDateKey) {
@@ -4052,14 +4121,11 @@ const matchesStationLabel = useCallback(
     } finally {
       setClosureTotalsLoading(false);
     }
-  }, [token, paymentMethodIndex, activeStationId, isWebMode, isPosWebName, matchesStationLabel, resolvedPosName, closureForm.notes, closureTargetDateKey, pendingClosureAlert?.dateKey]);
+  }, [token, paymentMethodIndex, activeStationId, isWebMode, isPosWebName, matchesStationLabel, resolvedPosName, closureForm.notes, closureTargetDateKey, pendingClosureAlert?.dateKey, cashDrawerAdjustment, cashSession?.id, isBlindClosure]);
 
-  const processPendingSale = useCallback(
-    async (
-      record: PendingSaleRecord,
-      options?: { silent?: boolean; skipTracking?: boolean }
-    ) => {
-      if (!token) {
+  const handlePendingSalesReplayed = useCallback(
+    (result: PendingSalesReplayResult) => {
+      if (result.stoppedReason === "unauthorized") {
         setPendingBannerStatus({
           type: "error",
           message:
@@ -4067,99 +4133,105 @@ const matchesStationLabel = useCallback(
         });
         return;
       }
-      if (!options?.skipTracking) {
-        setSendingPendingId(record.id);
-      }
-      try {
-        const res = await submitPendingSale(record, token);
-        if (!res.ok) {
-          const detail = await res.json().catch(() => null);
-          const message =
-            detail?.detail ??
-            `No se pudo enviar la venta pendiente (Error ${res.status}).`;
-          throw new Error(message);
-        }
-        removePendingSale(record.id);
-        refreshPendingSales();
-        if (!options?.silent) {
-          setPendingBannerStatus({
-            type: "success",
-            message: `Venta #${record.summary.saleNumber} enviada correctamente.`,
-          });
-        }
+      if (result.sent.length > 0) {
         void fetchPendingClosureTotals();
-      } catch (err) {
-        const message =
-          err instanceof Error
-            ? err.message
-            : "No se pudo enviar la venta pendiente.";
+      }
+      if (result.rejected.length > 0) {
+        const [firstRejected] = result.rejected;
+        const reason = firstRejected.attempts?.at(-1)?.message;
         setPendingBannerStatus({
           type: "error",
-          message,
+          message:
+            result.rejected.length === 1
+              ? `El servidor rechazó la venta #${firstRejected.summary.saleNumber}${reason ? `: ${reason}` : "."}`
+              : `El servidor rechazó ${result.rejected.length} ventas pendientes. Revísalas en la lista de rechazadas.`,
+        });
+        return;
+      }
+      if (result.retried.length > 0) {
+        const nextAttempt = result.retried[0].nextAttemptAt;
+        setPendingBannerStatus({
+          type: "error",
+          message: nextAttempt
+            ? `No se pudo enviar la venta pendiente. Reintentaremos automáticamente a las ${formatDateTime(nextAttempt)}.`
+            : "No se pudo enviar la venta pendiente.",
+        });
+        return;
+      }
+      if (result.sent.length === 1) {
+        setPendingBannerStatus({
+          type: "success",
+          message: `Venta #${result.sent[0].summary.saleNumber} enviada correctamente.`,
+        });
+      } else if (result.sent.length > 1) {
+        setPendingBannerStatus({
+          type: "success",
+          message: "Todas las ventas pendientes se enviaron correctamente.",
         });
-        throw err;
-      } finally {
-        if (!options?.skipTracking) {
-          setSendingPendingId(null);
-        }
       }
     },
-    [token, refreshPendingSales, fetchPendingClosureTotals]
+    [fetchPendingClosureTotals]
   );
 
+  const handlePendingSaleAdded = useCallback(() => {
+    setPendingBannerStatus({
+      type: "info",
+      message:
+        "Guardamos una venta pendiente por falta de conexión o acceso al servidor.",
+    });
+  }, []);
+
+  const {
+    pendingRecords: pendingSales,
+    deadLetterRecords: rejectedPendingSales,
+    replaying: sendingAllPending,
+    sendingId: sendingPendingId,
+    replayError: pendingReplayError,
+    refresh: refreshPendingSales,
+    replay: replayPendingSales,
+    retry: retryPendingSale,
+    discard: discardPendingSale,
+  } = usePendingSalesOutbox({
+    scope: pendingSalesScope,
+    token,
+    onAdded: handlePendingSaleAdded,
+    onReplayed: handlePendingSalesReplayed,
+  });
+
+  const {
+    role: saleHandoffRole,
+    handoffs: saleHandoffs,
+    pendingCount: pendingHandoffCount,
+    refresh: refreshSaleHandoffs,
+    send: sendSaleHandoff,
+    take: takeSaleHandoff,
+    cancel: cancelSaleHandoff,
+  } = useSaleHandoffs({ stationId: activeStationId, token });
+
   const handleRetryPendingSale = useCallback(
     async (record: PendingSaleRecord) => {
-      await processPendingSale(record);
+      await retryPendingSale(record);
     },
-    [processPendingSale]
+    [retryPendingSale]
   );
 
   const handleSendAllPending = useCallback(async () => {
-    const snapshot = getPendingSales(pendingSalesScope);
-    if (!snapshot.length) return;
-    setSendingAllPending(true);
-    try {
-      for (const sale of snapshot) {
-        await processPendingSale(sale, {
-          silent: true,
-          skipTracking: true,
-        });
-      }
-      setPendingBannerStatus({
-        type: "success",
-        message: "Todas las ventas pendientes se enviaron correctamente.",
-      });
-    } catch {
-      // El mensaje ya se estableció en processPendingSale
-    } finally {
-      setSendingAllPending(false);
-      setSendingPendingId(null);
-    }
-  }, [pendingSalesScope, processPendingSale]);
+    await replayPendingSales(pendingSales.map((sale) => sale.id));
+  }, [pendingSales, replayPendingSales]);
 
-  useEffect(() => {
-    if (!isOnline) {
-      autoPendingRetryKeyRef.current = null;
-      return;
-    }
-    if (!token || sendingAllPending || sendingPendingId || pendingSales.length === 0) {
-      return;
-    }
-    const retryKey = pendingSales.map((sale) => sale.id).sort().join("|");
-    if (autoPendingRetryKeyRef.current === retryKey) return;
-    autoPendingRetryKeyRef.current = retryKey;
-    const timer = window.setTimeout(() => {
-      void handleSendAllPending();
-    }, 2500);
-    return () => window.clearTimeout(timer);
-  }, [
-    handleSendAllPending,
-    isOnline,
-    pendingSales,
-    sendingAllPending,
-    sendingPendingId,
-    token,
-  ]);
+  const handleDiscardPendingSale = useCallback(
+    async (record: PendingSaleRecord) => {
+      if (
+        !window.confirm(
+          `¿Descartar la venta #${record.summary.saleNumber}? Tendrás que registrarla de nuevo si aún aplica.`
+        )
+      ) {
+        return;
+      }
+      await discardPendingSale(record);
+    },
+    [discardPendingSale]
+  );
 
   const acknowledgePendingClosureAlert = useCallback(
     (options?: { dismiss?: boolean }) => {
@@ -4193,12 +4265,26 @@ const matchesStationLabel = useCallback(
     [pendingAlertAckKey, user?.name]
   );
 
+  const refreshCashSession = useCallback(async () => {
+    if (!token) return;
+    try {
+      setCashSession(await fetchCurrentCashSession(activeStationId, token));
+    } catch (err) {
+      console.warn("No se pudo cargar la sesión de caja", err);
+    }
+  }, [token, activeStationId]);
+
+  useEffect(() => {
+    void refreshCashSession();
+  }, [refreshCashSession]);
+
   const handleOpenClosureModal = (targetDateKey?: string | null) => {
     const effectiveTargetDateKey =
       targetDateKey ?? pendingClosureAlert?.dateKey ?? null;
     resetClosureState();
     setClosureTargetDateKey(effectiveTargetDateKey);
     setCloseModalOpen(true);
+    void refreshCashSession();
     void fetchPendingClosureTotals(effectiveTargetDateKey);
   };
 
@@ -4208,7 +4294,7 @@ const matchesStationLabel = useCallback(
     setClosureRange(null);
   };
 
-  const handleProceedToPayment = () => {
+  const handleProceedToPayment = (options?: { sellerVerified?: boolean }) => {
     if (paymentNavigationLockRef.current) return;
     if (!canProceedToPayment) {
       if (REQUIRE_FREE_SALE_REASON && missingFreeSaleReason) {
@@ -4220,6 +4306,10 @@ const matchesStationLabel = useCallback(
       setClosureReminderOpen(true);
       return;
     }
+    if (posSettings?.require_seller_pin && !options?.sellerVerified) {
+      setSellerPinReason("payment");
+      return;
+    }
     paymentNavigationLockRef.current = true;
     setPaymentNavigationPending(true);
     const startedAt = performance.now();
@@ -4267,9 +4357,22 @@ const matchesStationLabel = useCallback(
     ]
   );
 
+  const updateClosureDenominations = (counts: DenominationCounts) => {
+    setClosureForm((prev) => ({
+      ...prev,
+      countedDenominations: counts,
+      countedCash: sumDenominations(counts),
+    }));
+  };
+
+  const closureHasDenominations =
+    sumDenominations(closureForm.countedDenominations) > 0;
+
+  const closureExpectedCash = closureForm.totalCash + cashDrawerAdjustment;
+
   const closureDifference = useMemo(
-    () => closureForm.countedCash - closureForm.totalCash,
-    [closureForm.countedCash, closureForm.totalCash]
+    () => closureForm.countedCash - closureExpectedCash,
+    [closureForm.countedCash, closureExpectedCash]
   );
 
   const closureSummary = useMemo<PosClosureResult>(() => {
@@ -4495,7 +4598,7 @@ const matchesStationLabel = useCallback(
     const shouldPreOpenWindow =
       printerConfig.mode !== "qz-tray" ||
       !printerConfig.printerName.trim() ||
-      !qzInstance;
+      !qzAvailable;
     const preOpenedWindow =
       shouldPreOpenWindow && typeof window !== "undefined"
         ? window.open("", "_blank", "width=420,height=640")
@@ -4521,9 +4624,15 @@ const matchesStationLabel = useCallback(
         change_refund_total: closureForm.changeRefundTotal,
         change_count: closureForm.changeCount,
         counted_cash: closureForm.countedCash,
+        counted_denominations: closureHasDenominations
+          ? closureForm.countedDenominations
+          : undefined,
         difference: closureDifference,
         notes: closureForm.notes.trim() || undefined,
         station_id: activeStationId ?? undefined,
+        cash_session_id: cashSession?.id ?? undefined,
+        blind_closure: isBlindClosure || undefined,
+        counted_by_method: isBlindClosure ? closureForm.countedByMethod : undefined,
       };
       const apiBase = getApiBase();
       const res = await fetch(`${apiBase}/pos/closures`, {
@@ -4602,6 +4711,10 @@ const matchesStationLabel = useCallback(
           ? normalizedCustomMethods
           : null,
         adjusted_totals: adjustedTotals,
+        cash_session: data.cash_session ?? cashSession,
+        counted_denominations:
+          data.counted_denominations ??
+          (closureHasDenominations ? closureForm.countedDenominations : null),
             separated_summary: normalizedSeparated
           ? {
               tickets: normalizedSeparated.tickets,
@@ -4619,6 +4732,8 @@ const matchesStationLabel = useCallback(
       };
       setClosureCustomMethods(normalizedCustomMethods);
       setClosureResult(enrichedData);
+      // El backend cierra la sesión junto con el reporte Z.
+      setCashSession(null);
       setPendingClosureAlert(null);
       handlePrintClosureTicket(enrichedData, preOpenedWindow);
       void fetchPendingClosureTotals();
@@ -4791,7 +4906,7 @@ const matchesStationLabel = useCallback(
             endLabel: formatDateLabelFromKey(closureRange.endKey),
           }
         : undefined;
-      const html = renderClosureTicket({
+      const closureTicketOptions: ClosureTicketOptions = {
         documentNumber:
           payload.consecutive ?? `CL-${payload.id.toString().padStart(5, "0")}`,
         closedAt: now,
@@ -4802,7 +4917,13 @@ const matchesStationLabel = useCallback(
           registered: totalsSource.total_amount,
           refunds: totalsSource.total_refunds,
           net: totalsSource.net_amount,
-          expectedCash: totalsSource.total_cash,
+          expectedCash: payload.cash_session
+            ? computeExpectedCash({
+                openingFloat: payload.cash_session.opening_float,
+                cashSales: totalsSource.total_cash,
+                movements: payload.cash_session.movements,
+              })
+            : totalsSource.total_cash,
           countedCash: totalsSource.counted_cash,
           difference: totalsSource.difference,
           changeExtra: totalsSource.change_extra_total ?? 0,
@@ -4812,10 +4933,19 @@ const matchesStationLabel = useCallback(
         methods: methodRows,
         userBreakdown,
         stationBreakdown: stationBreakdownForPrint,
+        taxBreakdown: normalizeTaxBreakdown(payload.tax_breakdown),
         notes: payload.notes ?? null,
         settings: posSettings,
         separatedSummary: separatedSummary || undefined,
-      });
+        cashSession: payload.cash_session
+          ? buildClosureCashSessionTicket(payload.cash_session)
+          : null,
+        countedDenominations: buildClosureDenominationTicket(
+          payload.counted_denominations
+        ),
+        hideExpected: isBlindClosure && !canSeeClosureDifferences,
+      };
+      const html = renderClosureTicket(closureTicketOptions);
       const existingWindow =
         targetWindow && typeof targetWindow.closed === "boolean" && !targetWindow.closed
           ? (targetWindow as Window)
@@ -4823,37 +4953,32 @@ const matchesStationLabel = useCallback(
 
       const printWithQz = async (): Promise<boolean> => {
         if (printerConfig.mode !== "qz-tray") return false;
-        if (!printerConfig.printerName.trim()) {
-          setError("Selecciona la impresora en Configurar impresora.");
-          return false;
-        }
-        if (!qzInstance) {
-          setError("No detectamos QZ Tray. Ábrelo y autoriza este dominio.");
-          return false;
-        }
-        if (!configureQzSecurity()) {
-          setError("No se pudo configurar QZ. Verifica tu sesión.");
-          return false;
-        }
         try {
-          if (!qzInstance.websocket.isActive()) {
-            await qzInstance.websocket.connect();
+          if (printerConfig.format === "escpos") {
+            const logo = await loadTicketLogoRaster(posSettings, printerConfig.width);
+            await printQzRaw(
+              printerConfig.printerName,
+              renderClosureTicketEscPos(closureTicketOptions, {
+                width: printerConfig.width,
+                logo,
+              }),
+              "Reporte Z"
+            );
+          } else {
+            await printQzHtml(
+              printerConfig.printerName,
+              html,
+              printerConfig.width,
+              "Reporte Z"
+            );
           }
-          const sizeWidth = printerConfig.width === "58mm" ? 58 : 80;
-          const cfg = qzInstance.configs.create(printerConfig.printerName, {
-            altPrinting: true,
-            units: "mm",
-            size: { width: sizeWidth },
-            margins: { top: 0, right: 0, bottom: 0, left: 0 },
-          });
-          await qzInstance.print(cfg, [{ type: "html", format: "plain", data: html }]);
           setError(null);
           return true;
         } catch (err) {
           console.error(err);
           setError(
             err instanceof Error
-              ? `No se pudo imprimir con QZ Tray: ${err.message}`
+              ? err.message
               : "No se pudo imprimir con QZ Tray."
           );
           return false;
@@ -4914,8 +5039,10 @@ const matchesStationLabel = useCallback(
       resolvedPosName,
       closureRange,
       printerConfig,
-      qzInstance,
-      configureQzSecurity,
+      printQzHtml,
+      printQzRaw,
+      isBlindClosure,
+      canSeeClosureDifferences,
     ]
   );
 
@@ -5081,22 +5208,30 @@ const matchesStationLabel = useCallback(
 
 
 
-  const loadProducts = useCallback(async (): Promise<boolean> => {
+  const loadProducts = useCallback(async (
+    options?: { forceFull?: boolean }
+  ): Promise<boolean> => {
     if (!authHeaders) return false;
     const shouldBlockUi = !catalogLoadedRef.current;
     try {
-      if (shouldBlockUi) setLoading(true);
-      const apiBase = getApiBase();
-      const res = await fetch(`${apiBase}/products/`, {
-        headers: authHeaders ?? undefined,
-        credentials: "include",
-      });
-      if (!res.ok) {
-        throw new Error(`Error ${res.status}`);
+      if (shouldBlockUi) {
+        const cached = await readPosCatalogSnapshot<Product>(catalogScopeKey);
+        if (cached && cached.products.length > 0 && !catalogLoadedRef.current) {
+          setProducts(cached.products.filter((p) => p.active));
+          catalogLoadedRef.current = true;
+        } else {
+          setLoading(true);
+        }
       }
-      const data: Product[] = await res.json();
-      const activeOnly = data.filter((p) => p.active);
+      const { snapshot, mode } = await syncPosCatalogSnapshot<Product>({
+        apiBase: getApiBase(),
+        headers: authHeaders,
+        scopeKey: catalogScopeKey,
+        forceFull: options?.forceFull,
+      });
+      const activeOnly = snapshot.products.filter((p) => p.active);
       setProducts(activeOnly);
+      setOfflineCatalogSyncedAt(mode === "offline" ? snapshot.syncedAt : null);
       posCatalogMemoryCache = {
         scopeKey: catalogScopeKey,
         products: activeOnly,
@@ -5107,7 +5242,7 @@ const matchesStationLabel = useCallback(
       };
       catalogLoadedRef.current = true;
       setError(null);
-      return true;
+      return mode !== "offline";
     } catch (err: unknown) {
       if (err instanceof Error) setError(err.message);
       else setError("Error al cargar productos");
@@ -5139,6 +5274,7 @@ const matchesStationLabel = useCallback(
         }
       });
       setGroupAppearances(map);
+      void savePosCatalogGroupAppearances(catalogScopeKey, map);
       posCatalogMemoryCache = {
         scopeKey: catalogScopeKey,
         products:
@@ -5150,6 +5286,10 @@ const matchesStationLabel = useCallback(
       return true;
     } catch (err) {
       console.warn("No se pudieron cargar los grupos", err);
+      const cached = await readPosCatalogSnapshot(catalogScopeKey);
+      if (cached && Object.keys(cached.groupAppearances).length > 0) {
+        setGroupAppearances(cached.groupAppearances);
+      }
       return false;
     }
   }, [authHeaders, catalogScopeKey]);
@@ -5263,15 +5403,10 @@ const matchesStationLabel = useCallback(
     return map;
   }, [products]);
 
-  const productByBarcode = useMemo(() => {
-    const map = new Map<string, Product>();
-    for (const product of products) {
-      const barcode = (product.barcode ?? "").trim();
-      if (!barcode || map.has(barcode)) continue;
-      map.set(barcode, product);
-    }
-    return map;
-  }, [products]);
+  const productByBarcode = useMemo(
+    () => buildCatalogBarcodeIndex(products),
+    [products]
+  );
 
   const filteredBySearch = useMemo(() => {
     const term = search.trim().toLowerCase();
@@ -5310,9 +5445,11 @@ const matchesStationLabel = useCallback(
         Boolean(product.allow_price_change) ||
         !priceMatchesBase;
 
+      const lineSeller = sellerPerLine ? saleSeller : null;
       const existingIndex = prev.findIndex((item: CartItem) => {
         if (item.product.id !== product.id) return false;
         if (shouldForceIndependentLine) return false;
+        if ((item.sellerId ?? null) !== (lineSeller?.id ?? null)) return false;
         return Math.abs(Number(item.unitPrice || 0) - lineUnitPrice) < 0.0001;
       });
 
@@ -5344,10 +5481,13 @@ const matchesStationLabel = useCallback(
           lineDiscountIsPercent: false,
           lineDiscountPercent: 0,
           freeSaleReason: reason || undefined,
+          ...(lineSeller
+            ? { sellerId: lineSeller.id, sellerName: lineSeller.name }
+            : {}),
         },
       ];
     });
-  }, [setCart, shouldBlockSales]);
+  }, [saleSeller, sellerPerLine, setCart, shouldBlockSales]);
 
   const handleSearchKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key !== "Enter") return;
@@ -5706,7 +5846,8 @@ const matchesStationLabel = useCallback(
   // --------- Carrito & totales ---------
   function calcLineTotal(item: CartItem): number {
   const gross = item.quantity * item.unitPrice;
-  return Math.max(0, gross - item.lineDiscountValue);
+  const promotion = cartPromotions.lineDiscounts[item.id] ?? 0;
+  return Math.max(0, gross - item.lineDiscountValue - promotion);
 }
 
   // --------- Handlers: grid ---------
@@ -5953,91 +6094,319 @@ const matchesStationLabel = useCallback(
     }
   }
 
+  // Asegura la reserva del número de la venta actual antes de aparcarla.
+  async function ensureCurrentSaleReservation(): Promise<{
+    reservationId: number;
+    saleNumber: number;
+  } | null> {
+    if (reservedSaleId) {
+      return {
+        reservationId: reservedSaleId,
+        saleNumber: reservedSaleNumber ?? saleNumber,
+      };
+    }
+    try {
+      const currentReservation = await reserveSaleNumber(saleNumber);
+      setReservedSaleId(currentReservation.reservation_id);
+      setReservedSaleNumber(currentReservation.sale_number);
+      if (currentReservation.sale_number !== saleNumber) {
+        setSaleNumber(currentReservation.sale_number);
+      }
+      return {
+        reservationId: currentReservation.reservation_id,
+        saleNumber: currentReservation.sale_number,
+      };
+    } catch (err) {
+      showHoldSaleError(
+        err instanceof Error
+          ? err.message
+          : "No se pudo reservar el número de la venta actual."
+      );
+      return null;
+    }
+  }
+
+  function buildCurrentHeldSaleInput(reservation: {
+    reservationId: number;
+    saleNumber: number;
+  }): HeldSaleInput<HeldSaleSnapshot> {
+    return {
+      customerName: selectedCustomer?.name ?? null,
+      saleNumber: reservation.saleNumber,
+      itemCount: cart.length,
+      total: cartTotal,
+      snapshot: {
+        cart,
+        saleNotes,
+        selectedCustomer,
+        cartDiscountValue,
+        cartDiscountPercent,
+        cartSurcharge,
+        saleNumber: reservation.saleNumber,
+        reservedSaleId: reservation.reservationId,
+        reservedSaleNumber: reservation.saleNumber,
+        selectedCartId,
+        currentPath,
+        currentPage,
+        search,
+      },
+    };
+  }
+
   async function handleHoldSaleAndStartNew() {
     if (shouldBlockSales) {
       setClosureReminderOpen(true);
       return;
     }
-
-    if (heldSaleSnapshot) {
-      showHoldSaleError("Ya hay una venta en espera.");
+    if (!hasSaleContent) {
       return;
     }
-    const existingHeldSale = readHeldSaleSnapshot();
-    if (existingHeldSale) {
-      showHoldSaleError("Ya hay una venta en espera.");
+    const existingHeldSales = readHeldSales();
+    if (existingHeldSales.length >= HELD_SALES_LIMIT) {
+      showHoldSaleError(new HeldSalesLimitError(HELD_SALES_LIMIT).message);
       return;
     }
-    if (!hasSaleContent) {
+
+    const currentReservation = await ensureCurrentSaleReservation();
+    if (!currentReservation) return;
+    const nextHeldSales = holdSale(
+      existingHeldSales,
+      buildCurrentHeldSaleInput(currentReservation)
+    );
+    let reservation: Awaited<ReturnType<typeof reserveSaleNumber>> | null = null;
+    try {
+      reservation = await reserveSaleNumber(currentReservation.saleNumber + 1);
+    } catch (err) {
+      showHoldSaleError(
+        err instanceof Error
+          ? err.message
+          : "No se pudo reservar el número de venta."
+      );
       return;
     }
+    writeHeldSales(nextHeldSales);
+    await resetSaleForNew(reservation);
+  }
 
-    // Asegurar reserva para la venta actual (en espera).
-    let currentReservationId = reservedSaleId;
-    let currentReservationNumber = reservedSaleNumber ?? saleNumber;
-    if (!currentReservationId) {
-      try {
-        const currentReservation = await reserveSaleNumber(saleNumber);
-        currentReservationId = currentReservation.reservation_id;
-        currentReservationNumber = currentReservation.sale_number;
-        setReservedSaleId(currentReservationId);
-        setReservedSaleNumber(currentReservationNumber);
-        if (currentReservationNumber !== saleNumber) {
-          setSaleNumber(currentReservationNumber);
-        }
-      } catch (err) {
-        showHoldSaleError(
-          err instanceof Error
-            ? err.message
-            : "No se pudo reservar el número de la venta actual."
+  // Cambia a una venta aparcada; la actual, si tiene contenido, queda en espera.
+  async function handleSwitchToHeldSale(id: string) {
+    if (heldSaleSwitching) return;
+    const existingHeldSales = readHeldSales();
+    const target = existingHeldSales.find((sale) => sale.id === id);
+    if (!target) {
+      setHeldSales(existingHeldSales);
+      return;
+    }
+    setHeldSaleSwitching(true);
+    try {
+      let nextHeldSales = removeHeldSale(existingHeldSales, id);
+      if (hasSaleContent) {
+        const currentReservation = await ensureCurrentSaleReservation();
+        if (!currentReservation) return;
+        nextHeldSales = holdSale(
+          nextHeldSales,
+          buildCurrentHeldSaleInput(currentReservation)
         );
-        return;
+      } else if (reservedSaleId) {
+        await cancelSaleReservation(reservedSaleId);
+        setReservedSaleId(null);
+        setReservedSaleNumber(null);
       }
+      restoreHeldSaleSnapshot(target.snapshot);
+      writeHeldSales(nextHeldSales);
+      void unpublishSharedHeldSale(target);
+    } catch (err) {
+      showHoldSaleError(
+        err instanceof Error ? err.message : "No se pudo cambiar de venta."
+      );
+    } finally {
+      setHeldSaleSwitching(false);
     }
+  }
 
-    const snapshot: HeldSaleSnapshot = {
+  async function handleDiscardHeldSale(id: string) {
+    const existingHeldSales = readHeldSales();
+    const target = existingHeldSales.find((sale) => sale.id === id);
+    if (!target) return;
+    if (
+      !window.confirm(
+        `¿Descartar la venta en espera "${target.label}"? Se perderán sus productos.`
+      )
+    ) {
+      return;
+    }
+    writeHeldSales(removeHeldSale(existingHeldSales, id));
+    if (target.snapshot.reservedSaleId) {
+      await cancelSaleReservation(target.snapshot.reservedSaleId);
+    }
+    await unpublishSharedHeldSale(target);
+  }
+
+  function handleRenameHeldSale(id: string, label: string) {
+    const nextHeldSales = updateHeldSale(readHeldSales(), id, { label });
+    writeHeldSales(nextHeldSales);
+    const renamed = nextHeldSales.find((sale) => sale.id === id);
+    if (renamed?.shared) void publishSharedHeldSale(renamed);
+  }
+
+  function handleToggleShareHeldSale(id: string, shared: boolean) {
+    const existingHeldSales = readHeldSales();
+    const target = existingHeldSales.find((sale) => sale.id === id);
+    if (!target) return;
+    const nextHeldSales = updateHeldSale(existingHeldSales, id, { shared }).map(
+      (sale) => (sale.id === id ? { ...sale, syncedAt: null } : sale)
+    );
+    writeHeldSales(nextHeldSales);
+    if (shared) {
+      const updated = nextHeldSales.find((sale) => sale.id === id);
+      if (updated) void publishSharedHeldSale(updated);
+    } else {
+      void unpublishSharedHeldSale(target);
+    }
+  }
+
+  function loadSaleHandoffCart(handoff: SaleHandoff) {
+    const loaded = handoff.cart as Partial<SaleHandoffCart>;
+    const handoffSeller =
+      typeof handoff.seller_user_id === "number" && handoff.seller_name
+        ? { id: handoff.seller_user_id, name: handoff.seller_name }
+        : null;
+    // Las líneas sin vendedor propio quedan a nombre de quien atendió en la tablet.
+    setCart(
+      (Array.isArray(loaded.cart) ? loaded.cart : []).map((item) =>
+        handoffSeller && typeof item.sellerId !== "number"
+          ? withLineSeller(item, handoffSeller)
+          : item
+      )
+    );
+    setSaleNotes(loaded.saleNotes ?? "");
+    setSelectedCustomer(loaded.selectedCustomer ?? null);
+    setCartDiscountValue(loaded.cartDiscountValue ?? 0);
+    setCartDiscountPercent(loaded.cartDiscountPercent ?? 0);
+    setCartSurcharge(
+      loaded.cartSurcharge ?? {
+        method: null,
+        amount: 0,
+        enabled: false,
+        isManual: false,
+      }
+    );
+    setSelectedCartId(null);
+  }
+
+  async function handleSendSaleToRegister() {
+    if (shouldBlockSales) {
+      setClosureReminderOpen(true);
+      return;
+    }
+    if (!cart.length) {
+      showHoldSaleError("Agrega productos antes de enviar la venta a caja.");
+      return;
+    }
+    if (handoffSending) return;
+    const handoffCart: SaleHandoffCart = {
       cart,
       saleNotes,
       selectedCustomer,
       cartDiscountValue,
       cartDiscountPercent,
       cartSurcharge,
-      saleNumber: currentReservationNumber,
-      reservedSaleId: currentReservationId,
-      reservedSaleNumber: currentReservationNumber,
-      selectedCartId,
-      currentPath,
-      currentPage,
-      search,
     };
-    let reservation: Awaited<ReturnType<typeof reserveSaleNumber>> | null = null;
+    setHandoffSending(true);
     try {
-      reservation = await reserveSaleNumber(
-        typeof snapshot.saleNumber === "number" ? snapshot.saleNumber + 1 : undefined
+      await sendSaleHandoff({
+        seller_user_id: saleSeller?.id ?? null,
+        seller_name: saleSeller?.name ?? null,
+        customer_id: selectedCustomer?.id ?? null,
+        customer_name: selectedCustomer?.name ?? null,
+        item_count: cart.length,
+        total: cartTotal,
+        notes: saleNotes.trim() || null,
+        cart: handoffCart,
+      });
+    } catch (err) {
+      showHoldSaleError(
+        err instanceof Error ? err.message : "No se pudo enviar la venta a caja."
+      );
+      return;
+    } finally {
+      setHandoffSending(false);
+    }
+    // La caja cobra con su propio consecutivo; el de la tablet se libera.
+    if (reservedSaleId) {
+      await cancelSaleReservation(reservedSaleId);
+    }
+    await resetSaleForNew();
+    setPendingBannerStatus({
+      type: "success",
+      message: "Venta enviada a caja. Puedes seguir atendiendo.",
+    });
+  }
+
+  async function handleTakeSaleHandoff(handoff: SaleHandoff) {
+    if (shouldBlockSales) {
+      setClosureReminderOpen(true);
+      return;
+    }
+    if (hasSaleContent) {
+      showHoldSaleError(
+        "Pon en espera o termina la venta actual antes de cargar el carrito de la tablet."
       );
+      return;
+    }
+    if (handoffBusyId !== null) return;
+    setHandoffBusyId(handoff.id);
+    try {
+      const taken = await takeSaleHandoff(handoff.id);
+      loadSaleHandoffCart(taken);
+      setHandoffsModalOpen(false);
     } catch (err) {
       showHoldSaleError(
-        err instanceof Error
-          ? err.message
-          : "No se pudo reservar el número de venta."
+        err instanceof Error ? err.message : "No se pudo tomar el carrito de la tablet."
       );
+    } finally {
+      setHandoffBusyId(null);
+    }
+  }
+
+  async function handleCancelSaleHandoff(handoff: SaleHandoff) {
+    if (
+      !window.confirm(
+        "¿Cancelar el envío a caja? Si el carrito actual está vacío, volverá a esta tablet."
+      )
+    ) {
       return;
     }
-    writeHeldSaleSnapshot(snapshot);
-    await resetSaleForNew(reservation);
+    if (handoffBusyId !== null) return;
+    setHandoffBusyId(handoff.id);
+    try {
+      const cancelled = await cancelSaleHandoff(handoff.id);
+      if (!hasSaleContent) {
+        loadSaleHandoffCart(cancelled);
+        setHandoffsModalOpen(false);
+      }
+    } catch (err) {
+      showHoldSaleError(
+        err instanceof Error ? err.message : "No se pudo cancelar el envío a caja."
+      );
+    } finally {
+      setHandoffBusyId(null);
+    }
   }
 
   function openCancelOrderDialog() {
     if (!cart.length) {
-      const existingHeldSale = heldSaleSnapshot ?? readHeldSaleSnapshot();
+      const existingHeldSales = readHeldSales();
+      const existingHeldSale = latestHeldSale(existingHeldSales);
       if (existingHeldSale) {
         if (reservedSaleId) {
           void cancelSaleReservation(reservedSaleId);
           setReservedSaleId(null);
           setReservedSaleNumber(null);
         }
-        restoreHeldSaleSnapshot(existingHeldSale);
-        clearHeldSaleSnapshot();
+        restoreHeldSaleSnapshot(existingHeldSale.snapshot);
+        writeHeldSales(removeHeldSale(existingHeldSales, existingHeldSale.id));
+        void unpublishSharedHeldSale(existingHeldSale);
         return;
       }
       if (reservedSaleId) {
@@ -6052,7 +6421,8 @@ const matchesStationLabel = useCallback(
   }
 
   async function handleConfirmCancelOrder() {
-    const existingHeldSale = heldSaleSnapshot ?? readHeldSaleSnapshot();
+    const existingHeldSales = readHeldSales();
+    const existingHeldSale = latestHeldSale(existingHeldSales);
     if (reservedSaleId) {
       await cancelSaleReservation(reservedSaleId);
       setReservedSaleId(null);
@@ -6076,8 +6446,9 @@ const matchesStationLabel = useCallback(
     setSearch("");
 
     if (existingHeldSale) {
-      restoreHeldSaleSnapshot(existingHeldSale);
-      clearHeldSaleSnapshot();
+      restoreHeldSaleSnapshot(existingHeldSale.snapshot);
+      writeHeldSales(removeHeldSale(existingHeldSales, existingHeldSale.id));
+      void unpublishSharedHeldSale(existingHeldSale);
       setConfirmCancelOpen(false);
       return;
     }
@@ -6104,32 +6475,6 @@ const matchesStationLabel = useCallback(
     setConfirmCancelOpen(false);
   }
 
-  function handleOpenResumeHeldDialog() {
-    if (!heldSaleSnapshot) return;
-    setConfirmResumeHeldOpen(true);
-  }
-
-  async function handleConfirmResumeHeldSale() {
-    if (!heldSaleSnapshot) {
-      setConfirmResumeHeldOpen(false);
-      return;
-    }
-    if (reservedSaleId) {
-      await cancelSaleReservation(reservedSaleId);
-      setReservedSaleId(null);
-      setReservedSaleNumber(null);
-    }
-    restoreHeldSaleSnapshot(heldSaleSnapshot);
-    clearHeldSaleSnapshot();
-    setConfirmResumeHeldOpen(false);
-  }
-
-  function handleCloseResumeHeldDialog() {
-    setConfirmResumeHeldOpen(false);
-  }
-
-
-
   function handleApplyPriceChange(e: FormEvent) {
     e.preventDefault();
     if (!priceChangeProduct) return;
@@ -6196,19 +6541,8 @@ const matchesStationLabel = useCallback(
       setError("Selecciona la impresora en Configurar impresora antes de abrir el cajón.");
       return;
     }
-    if (!qzInstance) {
-      setError("No detectamos QZ Tray. Ábrelo y autoriza este dominio.");
-      return;
-    }
     try {
-      if (!qzInstance.websocket.isActive()) {
-        await qzInstance.websocket.connect();
-      }
-      const cfg = qzInstance.configs.create(printerConfig.printerName, {
-        altPrinting: true,
-      });
-      const drawerPulse = "\x1B\x70\x00\x19\xFA";
-      await qzInstance.print(cfg, [{ type: "raw", format: "command", data: drawerPulse }]);
+      await openQzCashDrawer(printerConfig.printerName);
       setError(null);
     } catch (err) {
       console.error(err);
@@ -6410,6 +6744,30 @@ const matchesStationLabel = useCallback(
               </svg>
               <span className="leading-tight">Nueva venta</span>
             </button>
+            {saleHandoffRole === "tablet" && (
+              <button
+                className="w-[104px] h-[65px] px-4 py-2 text-[14px] font-semibold bg-slate-800 hover:bg-slate-700 rounded border border-emerald-400/70 text-emerald-200 transition text-center flex flex-col items-center justify-between gap-1 whitespace-nowrap tracking-tight disabled:opacity-60"
+                onClick={() => void handleSendSaleToRegister()}
+                disabled={handoffSending}
+              >
+                <svg
+                  className="h-[26px] w-[26px] text-emerald-200"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="3"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  aria-hidden="true"
+                >
+                  <path d="M4 12h14" />
+                  <path d="m13 6 6 6-6 6" />
+                </svg>
+                <span className="leading-tight">
+                  {handoffSending ? "Enviando..." : "Enviar a caja"}
+                </span>
+              </button>
+            )}
             <button
               className="w-[104px] h-[65px] px-4 py-2 text-[15px] font-semibold bg-slate-800 hover:bg-slate-700 rounded border border-rose-400/70 text-rose-300 transition text-center flex flex-col items-center justify-between gap-1 whitespace-nowrap"
               onClick={() => {
@@ -6501,11 +6859,45 @@ const matchesStationLabel = useCallback(
               </svg>
               <span className="leading-tight">Cambio</span>
             </button>
+            <button
+              className="w-[104px] h-[65px] px-4 py-2 text-[15px] font-semibold bg-slate-800 hover:bg-slate-700 rounded border border-fuchsia-400/70 text-fuchsia-200 transition text-center flex flex-col items-center justify-between gap-1 whitespace-nowrap"
+              onClick={() => {
+                if (shouldBlockSales) {
+                  setClosureReminderOpen(true);
+                  return;
+                }
+                router.push("/pos/saldos");
+              }}
+            >
+              <svg
+                className="h-[26px] w-[26px] text-fuchsia-200"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="3.4"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                aria-hidden="true"
+              >
+                <rect x="3" y="8" width="18" height="12" rx="2" ry="2" />
+                <path d="M12 8v12" />
+                <path d="M12 8c-1.5-3-5-3-5-.5S10.5 8 12 8Z" />
+                <path d="M12 8c1.5-3 5-3 5-.5S13.5 8 12 8Z" />
+              </svg>
+              <span className="leading-tight">Saldos</span>
+            </button>
           </div>
 
           <div className="flex flex-wrap items-center gap-4">
             <div className="flex flex-col items-end gap-1 text-sm">
               <div className="flex items-center gap-2">
+                {printerConfig.mode === "qz-tray" && (
+                  <QzTrayStatusBadge
+                    status={qzStatus}
+                    pendingJobs={qzPendingJobs}
+                    lastError={qzLastError}
+                  />
+                )}
                 <button
                   type="button"
                   onClick={() => void handleManualSync()}
@@ -6550,6 +6942,11 @@ const matchesStationLabel = useCallback(
                   {syncStatus.message}
                 </span>
               )}
+              {offlineCatalogSyncedAt && (
+                <span className="text-[11px] text-amber-300">
+                  Catálogo local · sincronizado {formatDateTime(offlineCatalogSyncedAt)}
+                </span>
+              )}
             </div>
             <div className="relative" ref={userMenuRef}>
               <button
@@ -6706,6 +7103,41 @@ const matchesStationLabel = useCallback(
                         </span>
                         <span className="text-[12px] text-amber-200">Reporte Z</span>
                       </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          closeUserMenu();
+                          setCashSessionModalOpen(true);
+                          void refreshCashSession();
+                        }}
+                        className="w-full text-left px-6 py-5 text-[17px] text-slate-100 hover:bg-slate-800 flex items-center justify-between"
+                      >
+                        <span className="flex items-center gap-3">
+                          <span aria-hidden>🪙</span>
+                          Caja del turno
+                        </span>
+                        <span className="text-[12px] text-emerald-200">
+                          {cashSession ? "Entradas y salidas" : "Abrir caja"}
+                        </span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          closeUserMenu();
+                          window.open(
+                            CUSTOMER_DISPLAY_ROUTE,
+                            "kensar-customer-display",
+                            "popup,width=1280,height=800"
+                          );
+                        }}
+                        className="w-full text-left px-6 py-5 text-[17px] text-slate-200 hover:bg-slate-800 flex items-center justify-between"
+                      >
+                        <span className="flex items-center gap-3">
+                          <span aria-hidden>🖥️</span>
+                          Pantalla del cliente
+                        </span>
+                        <span className="text-[11px] text-slate-400">Segunda ventana</span>
+                      </button>
                       {printerConfig.showDrawerButton && (
                         <button
                           type="button"
@@ -6943,7 +7375,11 @@ const matchesStationLabel = useCallback(
 
       </header>
 
-      {(!isOnline || pendingBannerStatus || pendingSales.length > 0) && (
+      {(!isOnline ||
+        pendingBannerStatus ||
+        pendingReplayError ||
+        pendingSales.length > 0 ||
+        rejectedPendingSales.length > 0) && (
         <div className="px-4 py-3 space-y-2 border-b border-slate-900 bg-slate-950/70">
           {!isOnline && (
             <div className="px-3 py-2 rounded-lg border border-amber-500/40 bg-amber-500/10 text-xs text-amber-100">
@@ -6963,6 +7399,11 @@ const matchesStationLabel = useCallback(
               {pendingBannerStatus.message}
             </div>
           )}
+          {pendingReplayError && (
+            <div className="px-3 py-2 rounded-lg border border-rose-500/50 bg-rose-500/10 text-xs text-rose-100">
+              No se pudieron enviar las ventas pendientes: {pendingReplayError}
+            </div>
+          )}
           {pendingSales.length > 0 && (
             <div className="rounded-xl border border-amber-500/40 bg-amber-500/5 p-3 space-y-3">
               <div className="flex flex-wrap items-center justify-between gap-3">
@@ -7013,6 +7454,13 @@ const matchesStationLabel = useCallback(
                           ? ` · ${sale.summary.customerName}`
                           : ""}
                       </div>
+                      {sale.nextAttemptAt && (
+                        <div className="text-[11px] text-amber-200/80">
+                          {sale.attempts?.length ?? 0} intento
+                          {(sale.attempts?.length ?? 0) === 1 ? "" : "s"} · próximo
+                          reintento {formatDateTime(sale.nextAttemptAt)}
+                        </div>
+                      )}
                     </div>
                     <button
                       type="button"
@@ -7036,6 +7484,66 @@ const matchesStationLabel = useCallback(
               </div>
             </div>
           )}
+          {rejectedPendingSales.length > 0 && (
+            <div className="rounded-xl border border-rose-500/40 bg-rose-500/5 p-3 space-y-3">
+              <div>
+                <p className="text-sm font-semibold text-rose-100">
+                  {rejectedPendingSales.length} venta
+                  {rejectedPendingSales.length === 1 ? "" : "s"} rechazada
+                  {rejectedPendingSales.length === 1 ? "" : "s"} por el servidor
+                </p>
+                <p className="text-[11px] text-rose-100/80">
+                  No se reintentan automáticamente. Corrige el motivo y vuelve a enviarlas, o descártalas.
+                </p>
+              </div>
+              <div className="space-y-2">
+                {rejectedPendingSales.map((sale) => {
+                  const lastAttempt = sale.attempts?.at(-1);
+                  return (
+                    <div
+                      key={sale.id}
+                      className="flex items-center justify-between gap-3 rounded-lg border border-rose-400/20 bg-slate-950/60 px-3 py-2 text-xs"
+                    >
+                      <div>
+                        <div className="font-semibold text-rose-100">
+                          Ticket #{sale.summary.saleNumber} ·{" "}
+                          {formatMoney(sale.summary.total)} ·{" "}
+                          {sale.summary.methodLabel}
+                        </div>
+                        <div className="text-[11px] text-slate-300">
+                          {sale.attempts?.length ?? 0} intento
+                          {(sale.attempts?.length ?? 0) === 1 ? "" : "s"}
+                          {lastAttempt
+                            ? ` · ${formatDateTime(lastAttempt.at)}${
+                                lastAttempt.message ? ` · ${lastAttempt.message}` : ""
+                              }`
+                            : ""}
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => void handleDiscardPendingSale(sale)}
+                          disabled={sendingAllPending}
+                          className="px-3 py-1.5 rounded-md border border-slate-600 text-xs text-slate-200 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Descartar
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void handleRetryPendingSale(sale)}
+                          disabled={!isOnline || sendingAllPending}
+                          className="px-3 py-1.5 rounded-md border border-emerald-400/70 text-xs font-semibold text-emerald-200 hover:bg-emerald-500/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {sendingPendingId === sale.id ? "Enviando…" : "Reintentar"}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -7092,7 +7600,14 @@ const matchesStationLabel = useCallback(
           <div className="px-4 py-2 text-sm border-b border-slate-800 bg-slate-900/70">
             <div className="flex items-center gap-4">
               <span className="font-semibold text-base">{resolvedPosName}</span>
-              <span className="text-slate-300 text-base">{sellerName}</span>
+              <button
+                type="button"
+                onClick={() => setSellerPinReason("switch")}
+                className="text-slate-300 text-base hover:text-slate-100"
+                title="Cambiar vendedor con PIN"
+              >
+                {sellerName}
+              </button>
             </div>
           </div>
           {/* Encabezado carrito */}
@@ -7105,16 +7620,28 @@ const matchesStationLabel = useCallback(
                 <span className="text-base text-slate-400">
                   Venta No.{saleNumber.toString().padStart(1, "0")}
                 </span>
-                {heldSaleSnapshot && (
+                {heldSales.length > 0 && (
+                  <span className="inline-flex items-center gap-2 rounded-full border border-amber-400/60 bg-amber-500/10 px-3 py-1 text-sm font-semibold text-amber-200">
+                    <span className="h-2 w-2 rounded-full bg-amber-300" />
+                    {heldSales.length} en espera
+                  </span>
+                )}
+                {saleHandoffRole && (
                   <button
                     type="button"
-                    onClick={handleOpenResumeHeldDialog}
-                    className="inline-flex items-center gap-2 rounded-full border border-amber-400/60 bg-amber-500/10 px-4 py-1.5 text-sm font-semibold text-amber-200 hover:bg-amber-500/20 transition"
-                    title="Volver a la venta en espera"
-                    aria-label="Volver a la venta en espera"
+                    onClick={() => {
+                      setHandoffsModalOpen(true);
+                      void refreshSaleHandoffs();
+                    }}
+                    className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-sm font-semibold transition ${
+                      pendingHandoffCount > 0
+                        ? "border-emerald-400/60 bg-emerald-500/10 text-emerald-200 hover:bg-emerald-500/20"
+                        : "border-slate-700 text-slate-300 hover:bg-slate-800"
+                    }`}
                   >
-                    <span className="h-2 w-2 rounded-full bg-amber-300" />
-                    Venta: {heldSaleSnapshot.saleNumber.toString().padStart(1, "0")} en espera
+                    {saleHandoffRole === "register"
+                      ? `${pendingHandoffCount} de tablets`
+                      : `Enviadas a caja${pendingHandoffCount ? ` (${pendingHandoffCount})` : ""}`}
                   </button>
                 )}
               </div>
@@ -7137,6 +7664,16 @@ const matchesStationLabel = useCallback(
             </div>
           </div>
 
+          <HeldSalesTray
+            sales={heldSales}
+            canShare={Boolean(activeStationId)}
+            busy={heldSaleSwitching}
+            onResume={(id) => void handleSwitchToHeldSale(id)}
+            onDiscard={(id) => void handleDiscardHeldSale(id)}
+            onRename={handleRenameHeldSale}
+            onToggleShare={handleToggleShareHeldSale}
+          />
+
           {selectedCustomer && (
             <div className="flex items-center justify-between px-4 py-2 border-b border-slate-800 bg-slate-900/60">
               <div className="text-base text-slate-200">
@@ -7169,7 +7706,8 @@ const matchesStationLabel = useCallback(
                 const isSelected = item.id === selectedCartId;
                 const lineTotal = calcLineTotal(item);
                 const gross = item.quantity * item.unitPrice;
-                const hasDiscount = item.lineDiscountValue > 0;
+                const promotionDiscount = cartPromotions.lineDiscounts[item.id] ?? 0;
+                const hasDiscount = item.lineDiscountValue > 0 || promotionDiscount > 0;
 
                 return (
                   <button
@@ -7192,6 +7730,11 @@ const matchesStationLabel = useCallback(
                             Motivo: {item.freeSaleReason}
                           </div>
                         )}
+                        {sellerPerLine && item.sellerName && (
+                          <div className="mt-0.5 text-xs text-sky-300">
+                            {item.sellerName}
+                          </div>
+                        )}
                       </div>
 
                       <div className="shrink-0 text-right tabular-nums">
@@ -7206,11 +7749,17 @@ const matchesStationLabel = useCallback(
                         <div className="mt-0.5 text-[11px] text-slate-500">
                           {item.product.sku?.trim() || "Sin código"}
                         </div>
-                        {hasDiscount && (
+                        {item.lineDiscountValue > 0 && (
                           <div className="text-sm text-emerald-400">
                             Descuento -{formatMoney(item.lineDiscountValue)}
                           </div>
                         )}
+                        {promotionDiscount > 0 && (
+                          <div className="text-sm text-emerald-300">
+                            {promotionNamesForLine(cartPromotions, item.id)} -
+                            {formatMoney(promotionDiscount)}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </button>
@@ -7221,18 +7770,27 @@ const matchesStationLabel = useCallback(
 
           {/* Totales */}
           <div className="border-t border-slate-800 text-base">
+            {(cartLineDiscountTotal > 0 || cartPromotions.total > 0) && (
+              <div className="flex justify-between px-4 py-2 text-slate-400">
+                <span>Subtotal sin descuentos</span>
+                <span>{formatMoney(cartGrossSubtotal)}</span>
+              </div>
+            )}
             {cartLineDiscountTotal > 0 && (
-              <>
-                <div className="flex justify-between px-4 py-2 text-slate-400">
-                  <span>Subtotal sin descuentos</span>
-                  <span>{formatMoney(cartGrossSubtotal)}</span>
-                </div>
-                <div className="flex justify-between px-4 py-2 text-emerald-400">
-                  <span>Descuento artículos</span>
-                  <span>-{formatMoney(cartLineDiscountTotal)}</span>
-                </div>
-              </>
+              <div className="flex justify-between px-4 py-2 text-emerald-400">
+                <span>Descuento artículos</span>
+                <span>-{formatMoney(cartLineDiscountTotal)}</span>
+              </div>
             )}
+            {cartPromotions.applied.map((promotion) => (
+              <div
+                key={promotion.ruleId}
+                className="flex justify-between px-4 py-2 text-emerald-300"
+              >
+                <span>{promotion.name}</span>
+                <span>-{formatMoney(promotion.amount)}</span>
+              </div>
+            ))}
             <div className="flex justify-between px-4 py-2 text-slate-300">
               <span>Subtotal</span>
               <span>{formatMoney(cartSubtotal)}</span>
@@ -7289,7 +7847,7 @@ const matchesStationLabel = useCallback(
                 : "bg-slate-800 text-slate-500 cursor-not-allowed"
             }`}
             disabled={!canProceedToPayment || paymentNavigationPending}
-            onClick={handleProceedToPayment}
+            onClick={() => handleProceedToPayment()}
             aria-busy={paymentNavigationPending}
           >
             {paymentNavigationPending ? "Abriendo pago…" : "Pago"}
@@ -7832,6 +8390,53 @@ sudo cp ~/Downloads/qz_api.crt &quot;/Applications/QZ Tray.app/Contents/Resource
         </div>
       )}
 
+      {sellerPinReason && (
+        <SellerPinModal
+          token={token}
+          stationId={activeStationId}
+          reason={sellerPinReason}
+          activeSeller={activeSeller}
+          loggedUserName={sellerDisplayName}
+          onVerified={(seller) => {
+            const reason = sellerPinReason;
+            setActiveSeller(seller.id === user?.id ? null : seller);
+            setSellerPinReason(null);
+            if (reason === "payment") {
+              handleProceedToPayment({ sellerVerified: true });
+            }
+          }}
+          onUseLoggedUser={() => {
+            setActiveSeller(null);
+            setSellerPinReason(null);
+          }}
+          onClose={() => setSellerPinReason(null)}
+        />
+      )}
+
+      {handoffsModalOpen && saleHandoffRole && (
+        <SaleHandoffsModal
+          role={saleHandoffRole}
+          handoffs={saleHandoffs}
+          busyId={handoffBusyId}
+          onTake={(handoff) => void handleTakeSaleHandoff(handoff)}
+          onCancel={(handoff) => void handleCancelSaleHandoff(handoff)}
+          onRefresh={() => void refreshSaleHandoffs()}
+          onClose={() => setHandoffsModalOpen(false)}
+        />
+      )}
+
+      {cashSessionModalOpen && (
+        <CashSessionModal
+          token={token}
+          stationId={activeStationId}
+          posName={resolvedPosName}
+          session={cashSession}
+          onSessionChange={setCashSession}
+          onClose={() => setCashSessionModalOpen(false)}
+          hideExpected={isBlindClosure}
+        />
+      )}
+
       {closeModalOpen && (
         <div className="fixed inset-0 bg-black/70 flex items-start justify-center z-30 px-4 py-6 overflow-y-auto sm:items-center sm:py-0">
           <form
@@ -7943,317 +8548,380 @@ sudo cp ~/Downloads/qz_api.crt &quot;/Applications/QZ Tray.app/Contents/Resource
               </div>
             )}
 
-            <section className="grid lg:grid-cols-[1.3fr_0.7fr] gap-4">
-              <div className="rounded-2xl border border-slate-800 overflow-hidden">
-                <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
-                  Totales registrados
-                </div>
-                <div className="grid sm:grid-cols-2 gap-3 p-4">
-                  {closureRegisteredTotals.map((item) => (
-                    <div key={item.label} className="text-xs text-slate-300 flex flex-col gap-1">
-                      {item.label}
-                      <div className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-slate-50 font-mono">
-                        {formatMoney(item.value)}
+            {closureHidesExpected ? (
+              <BlindClosureCount
+                countedCash={closureForm.countedCash}
+                countedDenominations={closureForm.countedDenominations}
+                countedByMethod={closureForm.countedByMethod}
+                notes={closureForm.notes}
+                submitted={Boolean(closureResult)}
+                onCountedCashChange={(value) =>
+                  setClosureForm((prev) => ({
+                    ...prev,
+                    countedCash: value,
+                    countedDenominations: {},
+                  }))
+                }
+                onDenominationsChange={updateClosureDenominations}
+                onMethodChange={(key, value) =>
+                  setClosureForm((prev) => ({
+                    ...prev,
+                    countedByMethod: { ...prev.countedByMethod, [key]: value },
+                  }))
+                }
+                onNotesChange={(value) => updateClosureField("notes", value)}
+              />
+            ) : (
+              <>
+                <section className="grid lg:grid-cols-[1.3fr_0.7fr] gap-4">
+                  <div className="rounded-2xl border border-slate-800 overflow-hidden">
+                    <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
+                      Totales registrados
+                    </div>
+                    <div className="grid sm:grid-cols-2 gap-3 p-4">
+                      {closureRegisteredTotals.map((item) => (
+                        <div key={item.label} className="text-xs text-slate-300 flex flex-col gap-1">
+                          {item.label}
+                          <div className="rounded-md border border-slate-800 bg-slate-950 px-3 py-2 text-slate-50 font-mono">
+                            {formatMoney(item.value)}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="rounded-2xl border border-slate-800 overflow-hidden flex flex-col">
+                    <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
+                      Conteo físico y notas
+                    </div>
+                    <div className="p-4 space-y-3 flex-1">
+                      <label className="text-xs text-slate-300 flex flex-col gap-1">
+                        Efectivo contado en caja
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={formatCashInput(closureForm.countedCash)}
+                          onChange={(e) =>
+                            // Digitar el total descarta el conteo por denominación.
+                            setClosureForm((prev) => ({
+                              ...prev,
+                              countedCash: parseCashInput(e.target.value),
+                              countedDenominations: {},
+                            }))
+                          }
+                          className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+                        />
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => setClosureDenominationsOpen((prev) => !prev)}
+                        className="text-xs text-emerald-300 hover:text-emerald-200"
+                      >
+                        {closureDenominationsOpen
+                          ? "Ocultar conteo por denominación"
+                          : "Contar por billetes y monedas"}
+                      </button>
+                      {closureDenominationsOpen && (
+                        <DenominationCounter
+                          counts={closureForm.countedDenominations}
+                          onChange={updateClosureDenominations}
+                          disabled={Boolean(closureResult)}
+                        />
+                      )}
+                      <label className="text-xs text-slate-300 flex flex-col gap-1">
+                        Notas del cierre
+                        <textarea
+                          rows={4}
+                          value={closureForm.notes}
+                          onChange={(e) => updateClosureField("notes", e.target.value)}
+                          className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
+                          placeholder="Observaciones, diferencias, responsable, etc."
+                        />
+                      </label>
+                      <div className="rounded-md border border-slate-700 bg-slate-950/30 px-3 py-2 text-xs text-slate-300 space-y-1">
+                        <p>
+                          <span className="text-slate-400">Neto del día:</span>{" "}
+                          <span className="font-semibold text-slate-100">
+                            {formatMoney(closureDisplayTotal)}
+                          </span>
+                        </p>
+                        {cashSession && (
+                          <>
+                            <p>
+                              <span className="text-slate-400">
+                                Base y movimientos de caja:
+                              </span>{" "}
+                              <span className="font-semibold text-slate-100">
+                                {formatMoney(cashDrawerAdjustment)}
+                              </span>
+                            </p>
+                            <p>
+                              <span className="text-slate-400">Efectivo esperado:</span>{" "}
+                              <span className="font-semibold text-slate-100">
+                                {formatMoney(closureExpectedCash)}
+                              </span>
+                            </p>
+                          </>
+                        )}
+                        <p>
+                          <span className="text-slate-400">Diferencia en caja:</span>{" "}
+                          <span
+                            className={
+                              closureDifference === 0
+                                ? "text-slate-100"
+                                : closureDifference > 0
+                                ? "text-emerald-300"
+                                : "text-rose-300"
+                            }
+                          >
+                            {formatMoney(closureDifference)}
+                          </span>
+                        </p>
                       </div>
                     </div>
+                  </div>
+                </section>
+
+                <div className="grid md:grid-cols-3 gap-4">
+                  {[
+                    {
+                      title: "Total registrado",
+                      value: formatMoney(closureSummary.total_amount),
+                      note: "Cobros netos del día",
+                    },
+                    {
+                      title: "Reembolsos",
+                      value: formatMoney(-closureSummary.total_refunds),
+                      note: "Devoluciones del período",
+                    },
+                    {
+                      title: "Neto del día",
+                      value: formatMoney(closureDisplayTotal),
+                      note: "Ventas menos reembolsos y ajustes",
+                    },
+                  ].map((card) => (
+                    <div
+                      key={card.title}
+                      className="rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3"
+                    >
+                      <p className="text-xs text-slate-400 uppercase tracking-wide">
+                        {card.title}
+                      </p>
+                      <p className="text-2xl font-semibold text-slate-50">{card.value}</p>
+                      <p className="text-[11px] text-slate-500">{card.note}</p>
+                    </div>
                   ))}
                 </div>
-              </div>
 
-              <div className="rounded-2xl border border-slate-800 overflow-hidden flex flex-col">
-                <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
-                  Conteo físico y notas
+                <div className="rounded-2xl border border-slate-800 overflow-hidden">
+                  <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
+                    Detalle por método
+                  </div>
+                  <div className="divide-y divide-slate-800">
+                    {closureMethodsUsed.length === 0 && (
+                      <div className="px-4 py-3 text-xs text-slate-500">
+                        No se registraron movimientos por método.
+                      </div>
+                    )}
+                    {closureMethodsUsed.length > 0 && (
+                      <div className="grid grid-cols-[1.4fr_1fr_1fr_1fr] gap-3 px-4 py-2 text-[11px] text-slate-500 uppercase tracking-wide">
+                        <span>Método</span>
+                        <span className="text-right">Ventas</span>
+                        <span className="text-right">Reembolsos</span>
+                        <span className="text-right">Neto</span>
+                      </div>
+                    )}
+                    {closureMethodsUsed.map((method) => (
+                      <div
+                        key={method.label}
+                        className="grid grid-cols-[1.4fr_1fr_1fr_1fr] gap-3 px-4 py-2 text-slate-200"
+                      >
+                        <span>{method.label}</span>
+                        <span className="text-right font-mono text-slate-300">
+                          {formatMoney(method.gross)}
+                        </span>
+                        <span className="text-right font-mono text-rose-300">
+                          {formatMoney(-method.refunds)}
+                        </span>
+                        <span className="text-right font-mono text-slate-100">
+                          {formatMoney(method.net)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-                <div className="p-4 space-y-3 flex-1">
-                  <label className="text-xs text-slate-300 flex flex-col gap-1">
-                    Efectivo contado en caja
-                    <input
-                      type="text"
-                      inputMode="decimal"
-                      value={formatCashInput(closureForm.countedCash)}
-                      onChange={(e) =>
-                        updateClosureField(
-                          "countedCash",
-                          parseCashInput(e.target.value)
-                        )
-                      }
-                      className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
-                    />
-                  </label>
-                  <label className="text-xs text-slate-300 flex flex-col gap-1">
-                    Notas del cierre
-                    <textarea
-                      rows={4}
-                      value={closureForm.notes}
-                      onChange={(e) => updateClosureField("notes", e.target.value)}
-                      className="rounded-md border border-slate-700 bg-slate-950 px-3 py-2"
-                      placeholder="Observaciones, diferencias, responsable, etc."
-                    />
-                  </label>
-                  <div className="rounded-md border border-slate-700 bg-slate-950/30 px-3 py-2 text-xs text-slate-300 space-y-1">
-                    <p>
-                      <span className="text-slate-400">Neto del día:</span>{" "}
-                      <span className="font-semibold text-slate-100">
-                        {formatMoney(closureDisplayTotal)}
+
+                {closureHasChangeSummary && (
+                  <div className="rounded-2xl border border-slate-800 overflow-hidden">
+                    <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
+                      Cambios hoy
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-4">
+                      <div className="rounded-xl border border-slate-800 bg-slate-950/50 px-4 py-3">
+                        <p className="text-[11px] uppercase tracking-wide text-slate-500">
+                          Excedente
+                        </p>
+                        <p className="mt-1 text-lg font-semibold text-emerald-300 font-mono">
+                          {formatMoney(closureSummary.change_extra_total ?? 0)}
+                        </p>
+                      </div>
+                      <div className="rounded-xl border border-slate-800 bg-slate-950/50 px-4 py-3">
+                        <p className="text-[11px] uppercase tracking-wide text-slate-500">
+                          Reembolsos
+                        </p>
+                        <p className="mt-1 text-lg font-semibold text-rose-300 font-mono">
+                          {formatMoney(-(closureSummary.change_refund_total ?? 0))}
+                        </p>
+                      </div>
+                      <div className="rounded-xl border border-slate-800 bg-slate-950/50 px-4 py-3">
+                        <p className="text-[11px] uppercase tracking-wide text-slate-500">
+                          Cambios registrados
+                        </p>
+                        <p className="mt-1 text-lg font-semibold text-slate-100 font-mono">
+                          {closureSummary.change_count ?? 0}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {closureSeparatedDisplay && (
+                  <div className="rounded-2xl border border-dashed border-slate-700 px-4 py-3 bg-slate-950/30 space-y-1">
+                    <div className="flex justify-between text-[11px] text-slate-100 font-semibold uppercase tracking-wide">
+                      <span>Ventas por separado</span>
+                      <span>{closureSeparatedDisplay.tickets} tickets</span>
+                    </div>
+                    <div className="flex justify-between text-[11px] text-slate-400">
+                      <span>Abonos cobrados hoy</span>
+                      <span className="text-slate-100">
+                        {formatMoney(closureSeparatedDisplay.paymentsTotal)}
                       </span>
-                    </p>
-                    <p>
-                      <span className="text-slate-400">Diferencia en caja:</span>{" "}
+                    </div>
+                    <div className="flex justify-between text-[11px] text-slate-400">
+                      <span>Total reservado</span>
+                      <span className="text-slate-100">
+                        {formatMoney(closureSeparatedDisplay.reservedTotal)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-[11px] text-slate-400">
+                      <span>Saldo pendiente</span>
                       <span
-                        className={
-                          closureDifference === 0
-                            ? "text-slate-100"
-                            : closureDifference > 0
+                        className={`font-semibold ${
+                          closureSeparatedDisplay.pendingTotal === 0
                             ? "text-emerald-300"
                             : "text-rose-300"
-                        }
+                        }`}
                       >
-                        {formatMoney(closureDifference)}
+                        {formatMoney(closureSeparatedDisplay.pendingTotal)}
                       </span>
-                    </p>
-                  </div>
-                </div>
-              </div>
-            </section>
-
-            <div className="grid md:grid-cols-3 gap-4">
-              {[
-                {
-                  title: "Total registrado",
-                  value: formatMoney(closureSummary.total_amount),
-                  note: "Cobros netos del día",
-                },
-                {
-                  title: "Reembolsos",
-                  value: formatMoney(-closureSummary.total_refunds),
-                  note: "Devoluciones del período",
-                },
-                {
-                  title: "Neto del día",
-                  value: formatMoney(closureDisplayTotal),
-                  note: "Ventas menos reembolsos y ajustes",
-                },
-              ].map((card) => (
-                <div
-                  key={card.title}
-                  className="rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3"
-                >
-                  <p className="text-xs text-slate-400 uppercase tracking-wide">
-                    {card.title}
-                  </p>
-                  <p className="text-2xl font-semibold text-slate-50">{card.value}</p>
-                  <p className="text-[11px] text-slate-500">{card.note}</p>
-                </div>
-              ))}
-            </div>
-
-            <div className="rounded-2xl border border-slate-800 overflow-hidden">
-              <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
-                Detalle por método
-              </div>
-              <div className="divide-y divide-slate-800">
-                {closureMethodsUsed.length === 0 && (
-                  <div className="px-4 py-3 text-xs text-slate-500">
-                    No se registraron movimientos por método.
-                  </div>
-                )}
-                {closureMethodsUsed.length > 0 && (
-                  <div className="grid grid-cols-[1.4fr_1fr_1fr_1fr] gap-3 px-4 py-2 text-[11px] text-slate-500 uppercase tracking-wide">
-                    <span>Método</span>
-                    <span className="text-right">Ventas</span>
-                    <span className="text-right">Reembolsos</span>
-                    <span className="text-right">Neto</span>
+                    </div>
                   </div>
                 )}
-                {closureMethodsUsed.map((method) => (
-                  <div
-                    key={method.label}
-                    className="grid grid-cols-[1.4fr_1fr_1fr_1fr] gap-3 px-4 py-2 text-slate-200"
-                  >
-                    <span>{method.label}</span>
-                    <span className="text-right font-mono text-slate-300">
-                      {formatMoney(method.gross)}
-                    </span>
-                    <span className="text-right font-mono text-rose-300">
-                      {formatMoney(-method.refunds)}
-                    </span>
-                    <span className="text-right font-mono text-slate-100">
-                      {formatMoney(method.net)}
-                    </span>
-                  </div>
-                ))}
-              </div>
-            </div>
-
-            {closureHasChangeSummary && (
-              <div className="rounded-2xl border border-slate-800 overflow-hidden">
-                <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
-                  Cambios hoy
-                </div>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-4">
-                  <div className="rounded-xl border border-slate-800 bg-slate-950/50 px-4 py-3">
-                    <p className="text-[11px] uppercase tracking-wide text-slate-500">
-                      Excedente
-                    </p>
-                    <p className="mt-1 text-lg font-semibold text-emerald-300 font-mono">
-                      {formatMoney(closureSummary.change_extra_total ?? 0)}
-                    </p>
-                  </div>
-                  <div className="rounded-xl border border-slate-800 bg-slate-950/50 px-4 py-3">
-                    <p className="text-[11px] uppercase tracking-wide text-slate-500">
-                      Reembolsos
-                    </p>
-                    <p className="mt-1 text-lg font-semibold text-rose-300 font-mono">
-                      {formatMoney(-(closureSummary.change_refund_total ?? 0))}
-                    </p>
-                  </div>
-                  <div className="rounded-xl border border-slate-800 bg-slate-950/50 px-4 py-3">
-                    <p className="text-[11px] uppercase tracking-wide text-slate-500">
-                      Cambios registrados
-                    </p>
-                    <p className="mt-1 text-lg font-semibold text-slate-100 font-mono">
-                      {closureSummary.change_count ?? 0}
-                    </p>
-                  </div>
-                </div>
-              </div>
-            )}
 
-            {closureSeparatedDisplay && (
-              <div className="rounded-2xl border border-dashed border-slate-700 px-4 py-3 bg-slate-950/30 space-y-1">
-                <div className="flex justify-between text-[11px] text-slate-100 font-semibold uppercase tracking-wide">
-                  <span>Ventas por separado</span>
-                  <span>{closureSeparatedDisplay.tickets} tickets</span>
-                </div>
-                <div className="flex justify-between text-[11px] text-slate-400">
-                  <span>Abonos cobrados hoy</span>
-                  <span className="text-slate-100">
-                    {formatMoney(closureSeparatedDisplay.paymentsTotal)}
-                  </span>
-                </div>
-                <div className="flex justify-between text-[11px] text-slate-400">
-                  <span>Total reservado</span>
-                  <span className="text-slate-100">
-                    {formatMoney(closureSeparatedDisplay.reservedTotal)}
-                  </span>
-                </div>
-                <div className="flex justify-between text-[11px] text-slate-400">
-                  <span>Saldo pendiente</span>
-                  <span
-                    className={`font-semibold ${
-                      closureSeparatedDisplay.pendingTotal === 0
-                        ? "text-emerald-300"
-                        : "text-rose-300"
-                    }`}
-                  >
-                    {formatMoney(closureSeparatedDisplay.pendingTotal)}
-                  </span>
-                </div>
-              </div>
-            )}
+                {closureHasAuxiliaryScope && closureStationBreakdown.length > 0 && (
+                  <div className="rounded-2xl border border-slate-800 overflow-hidden">
+                    <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
+                      Aporte por estación
+                    </div>
+                    <div className="divide-y divide-slate-800">
+                      {closureStationBreakdown.map((stationRow) => {
+                        const isUnassigned =
+                          stationRow.stationId === "unassigned" ||
+                          stationRow.stationLabel.trim().toLowerCase() === "sin estación";
+                        const stationBadgeLabel = stationRow.isPrimary
+                          ? "Principal"
+                          : stationRow.stationType === "tablet"
+                            ? "Auxiliar tablet"
+                            : isUnassigned
+                              ? "Sin asignar"
+                              : "Secundaria";
+                        const stationBadgeClass = stationRow.isPrimary
+                          ? "bg-emerald-500/20 text-emerald-300 border border-emerald-500/40"
+                          : stationRow.stationType === "tablet"
+                            ? "bg-sky-500/20 text-sky-300 border border-sky-500/40"
+                            : "bg-slate-700/40 text-slate-300 border border-slate-600";
 
-            {closureHasAuxiliaryScope && closureStationBreakdown.length > 0 && (
-              <div className="rounded-2xl border border-slate-800 overflow-hidden">
-                <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
-                  Aporte por estación
-                </div>
-                <div className="divide-y divide-slate-800">
-                  {closureStationBreakdown.map((stationRow) => {
-                    const isUnassigned =
-                      stationRow.stationId === "unassigned" ||
-                      stationRow.stationLabel.trim().toLowerCase() === "sin estación";
-                    const stationBadgeLabel = stationRow.isPrimary
-                      ? "Principal"
-                      : stationRow.stationType === "tablet"
-                        ? "Auxiliar tablet"
-                        : isUnassigned
-                          ? "Sin asignar"
-                          : "Secundaria";
-                    const stationBadgeClass = stationRow.isPrimary
-                      ? "bg-emerald-500/20 text-emerald-300 border border-emerald-500/40"
-                      : stationRow.stationType === "tablet"
-                        ? "bg-sky-500/20 text-sky-300 border border-sky-500/40"
-                        : "bg-slate-700/40 text-slate-300 border border-slate-600";
-
-                    return (
-                      <div
-                        key={stationRow.stationId}
-                        className="px-4 py-3 text-slate-200 space-y-2"
-                      >
-                        <div className="flex items-center justify-between gap-3">
-                          <div className="flex items-center gap-2">
-                            <span className="font-medium">{stationRow.stationLabel}</span>
-                            <span
-                              className={`rounded-full px-2 py-0.5 text-[10px] uppercase tracking-wide ${stationBadgeClass}`}
-                            >
-                              {stationBadgeLabel}
-                            </span>
+                        return (
+                          <div
+                            key={stationRow.stationId}
+                            className="px-4 py-3 text-slate-200 space-y-2"
+                          >
+                            <div className="flex items-center justify-between gap-3">
+                              <div className="flex items-center gap-2">
+                                <span className="font-medium">{stationRow.stationLabel}</span>
+                                <span
+                                  className={`rounded-full px-2 py-0.5 text-[10px] uppercase tracking-wide ${stationBadgeClass}`}
+                                >
+                                  {stationBadgeLabel}
+                                </span>
+                              </div>
+                              <span className="text-[11px] text-slate-400">
+                                {stationRow.salesCount} ventas
+                              </span>
+                            </div>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-[11px]">
+                              <div className="rounded-md border border-slate-800 bg-slate-950/50 px-2 py-1">
+                                <p className="text-slate-500">Bruto</p>
+                                <p className="font-mono text-slate-100">
+                                  {formatMoney(stationRow.gross)}
+                                </p>
+                              </div>
+                              <div className="rounded-md border border-slate-800 bg-slate-950/50 px-2 py-1">
+                                <p className="text-slate-500">Reembolsos</p>
+                                <p className="font-mono text-rose-300">
+                                  {formatMoney(-stationRow.refunds)}
+                                </p>
+                              </div>
+                              <div className="rounded-md border border-slate-800 bg-slate-950/50 px-2 py-1">
+                                <p className="text-slate-500">Cambios neto</p>
+                                <p className="font-mono text-slate-300">
+                                  {formatMoney(stationRow.changeExtra - stationRow.changeRefund)}
+                                </p>
+                              </div>
+                              <div className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1">
+                                <p className="text-slate-400">Neto estación</p>
+                                <p className="font-mono text-emerald-300">
+                                  {formatMoney(
+                                    Math.max(
+                                      stationRow.net -
+                                        (stationRow.pending ||
+                                          (closureStationBreakdown.length === 1
+                                            ? closureSeparatedDisplay?.pendingTotal ?? 0
+                                            : 0)),
+                                      0
+                                    )
+                                  )}
+                                </p>
+                              </div>
+                            </div>
                           </div>
-                          <span className="text-[11px] text-slate-400">
-                            {stationRow.salesCount} ventas
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {closureUsers.length > 0 && (
+                  <div className="rounded-2xl border border-slate-800 overflow-hidden">
+                    <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
+                      Ventas por usuario (día actual)
+                    </div>
+                    <div className="divide-y divide-slate-800">
+                      {closureUsers.map((userContribution) => (
+                        <div
+                          key={userContribution.name}
+                          className="flex items-center justify-between px-4 py-2 text-slate-200"
+                        >
+                          <span>{userContribution.name}</span>
+                          <span className="font-mono text-slate-400">
+                            {formatMoney(userContribution.total)}
                           </span>
                         </div>
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-[11px]">
-                          <div className="rounded-md border border-slate-800 bg-slate-950/50 px-2 py-1">
-                            <p className="text-slate-500">Bruto</p>
-                            <p className="font-mono text-slate-100">
-                              {formatMoney(stationRow.gross)}
-                            </p>
-                          </div>
-                          <div className="rounded-md border border-slate-800 bg-slate-950/50 px-2 py-1">
-                            <p className="text-slate-500">Reembolsos</p>
-                            <p className="font-mono text-rose-300">
-                              {formatMoney(-stationRow.refunds)}
-                            </p>
-                          </div>
-                          <div className="rounded-md border border-slate-800 bg-slate-950/50 px-2 py-1">
-                            <p className="text-slate-500">Cambios neto</p>
-                            <p className="font-mono text-slate-300">
-                              {formatMoney(stationRow.changeExtra - stationRow.changeRefund)}
-                            </p>
-                          </div>
-                          <div className="rounded-md border border-slate-700 bg-slate-950 px-2 py-1">
-                            <p className="text-slate-400">Neto estación</p>
-                            <p className="font-mono text-emerald-300">
-                              {formatMoney(
-                                Math.max(
-                                  stationRow.net -
-                                    (stationRow.pending ||
-                                      (closureStationBreakdown.length === 1
-                                        ? closureSeparatedDisplay?.pendingTotal ?? 0
-                                        : 0)),
-                                  0
-                                )
-                              )}
-                            </p>
-                          </div>
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
-              </div>
-            )}
-
-            {closureUsers.length > 0 && (
-              <div className="rounded-2xl border border-slate-800 overflow-hidden">
-                <div className="px-4 py-2 bg-slate-950 text-xs text-slate-400 uppercase tracking-wide">
-                  Ventas por usuario (día actual)
-                </div>
-                <div className="divide-y divide-slate-800">
-                  {closureUsers.map((userContribution) => (
-                    <div
-                      key={userContribution.name}
-                      className="flex items-center justify-between px-4 py-2 text-slate-200"
-                    >
-                      <span>{userContribution.name}</span>
-                      <span className="font-mono text-slate-400">
-                        {formatMoney(userContribution.total)}
-                      </span>
+                      ))}
                     </div>
-                  ))}
-                </div>
-              </div>
+                  </div>
+                )}
+              </>
             )}
 
             {closureError && (
@@ -8388,37 +9056,6 @@ sudo cp ~/Downloads/qz_api.crt &quot;/Applications/QZ Tray.app/Contents/Resource
         </div>
       )}
 
-      {confirmResumeHeldOpen && (
-        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40 px-4">
-          <div className="w-full max-w-xl rounded-3xl border border-slate-700 bg-slate-900 px-9 py-7 space-y-6 shadow-2xl">
-            <div>
-              <h3 className="text-2xl font-semibold text-slate-50">
-                ¿Volver a la venta en espera?
-              </h3>
-              <p className="text-lg text-slate-400 mt-3">
-                Se descartará la venta actual y volverás a la venta en espera.
-              </p>
-            </div>
-            <div className="flex gap-4 pt-4">
-              <button
-                type="button"
-                onClick={handleConfirmResumeHeldSale}
-                className="flex-1 py-3.5 rounded-xl bg-amber-500 hover:bg-amber-400 text-lg font-semibold text-slate-900"
-              >
-                Sí, volver
-              </button>
-              <button
-                type="button"
-                onClick={handleCloseResumeHeldDialog}
-                className="flex-1 py-3.5 rounded-xl border border-slate-600 text-lg font-semibold text-slate-200 hover:bg-slate-800"
-              >
-                Cancelar
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
       {closureEmailModalOpen && closureResult && (
         <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center px-4">
           <div className="w-full max-w-lg rounded-2xl border border-slate-700 bg-slate-900 p-6 space-y-4 text-sm">
@@ -8659,6 +9296,28 @@ sudo cp ~/Downloads/qz_api.crt &quot;/Applications/QZ Tray.app/Contents/Resource
                     </p>
                   </div>
                 </label>
+                {printerConfig.mode === "qz-tray" && (
+                  <label className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      checked={printerConfig.format === "escpos"}
+                      onChange={(e) =>
+                        setPrinterConfig((prev) => ({
+                          ...prev,
+                          format: e.target.checked ? "escpos" : "html",
+                        }))
+                      }
+                      className="mt-1 h-4 w-4 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500"
+                    />
+                    <div>
+                      <p className="font-semibold">Imprimir en modo nativo (ESC/POS)</p>
+                      <p className="text-slate-400 text-xs">
+                        Envía comandos directos a la térmica: sale más rápido, nítido y con
+                        código de barras legible por lectores.
+                      </p>
+                    </div>
+                  </label>
+                )}
               </div>
 
               {printerConfig.mode === "qz-tray" && (
@@ -8671,6 +9330,13 @@ sudo cp ~/Downloads/qz_api.crt &quot;/Applications/QZ Tray.app/Contents/Resource
                       <p className="text-xs text-slate-400">
                         Necesitas QZ Tray instalado y autorizado en este equipo.
                       </p>
+                      <div className="mt-2">
+                        <QzTrayStatusBadge
+                          status={qzStatus}
+                          pendingJobs={qzPendingJobs}
+                          lastError={qzLastError}
+                        />
+                      </div>
                       <button
                         type="button"
                         onClick={() => setQzGuideOpen(true)}
@@ -17,12 +17,30 @@ import {
   renderSaleTicket,
   renderSaleInvoice,
   buildSaleTicketCustomer,
+  type SaleTicketLoyalty,
+  type SaleTicketOptions,
 } from "@/lib/printing/saleTicket";
 import {
   buildSaleTicketDisplayBreakdown,
   type SaleTicketSourceItem,
 } from "@/lib/pos/saleTicketData";
+import {
+  resolveTaxIncluded,
+  resolveTaxRateCode,
+  taxBreakdownFromItems,
+  type TaxRateCode,
+} from "@/lib/pos/taxes";
+import { promotionNamesForLine } from "@/lib/pos/promotions";
+import { computeEarnedPoints, isLoyaltyEnabled } from "@/lib/pos/loyalty";
 import { PaymentCustomerControl } from "../components/PaymentCustomerControl";
+import {
+  StoreCreditRedeemControl,
+  type AppliedStoreCredit,
+} from "../components/StoreCreditRedeemControl";
+import {
+  STORE_CREDIT_PAYMENT_METHOD,
+  splitStoreCreditPayments,
+} from "@/lib/pos/storeCredit";
 import { usePaymentMethodsCatalog } from "@/app/hooks/usePaymentMethodsCatalog";
 import type { SeparatedOrder } from "@/lib/api/separatedOrders";
 import { useOnlineStatus } from "@/app/hooks/useOnlineStatus";
@@ -40,8 +58,20 @@ import {
   type PosStationPrinterConfig,
 } from "@/lib/api/posStations";
 import { buildScopedPosStorageKey } from "@/lib/pos/storageScope";
+import {
+  buildPosCatalogScopeKey,
+  describeStaleCartPrices,
+  findStaleCartPrices,
+  readPosCatalogSnapshot,
+} from "@/lib/pos/catalogSnapshot";
 import { PosNavigationOverlay } from "../components/PosNavigationOverlay";
 import { useGuardedPosNavigation } from "../hooks/useGuardedPosNavigation";
+import { useQzTray } from "@/app/hooks/useQzTray";
+import {
+  loadTicketLogoRaster,
+  renderSaleTicketEscPos,
+} from "@/lib/printing/escPosTickets";
+import { QzTrayStatusBadge } from "../components/QzTrayStatusBadge";
 
 type PaymentMethodSlug = string;
 
@@ -71,6 +101,8 @@ type SaleResponse = {
   cart_discount_percent?: number | null;
   items?: SaleTicketSourceItem[];
   payments?: { method: PaymentMethodSlug; amount: number }[];
+  loyalty_points_earned?: number | null;
+  loyalty_balance?: number | null;
 };
 
 type SuccessSaleSummary = {
@@ -86,8 +118,17 @@ type SuccessSaleSummary = {
   cartDiscountLabel: string;
   cartDiscountValueDisplay: string;
   notes?: string | null;
-  items: { name: string; quantity: number; unitPrice: number; total: number }[];
+  items: {
+    name: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+    taxRate?: TaxRateCode | null;
+    taxIncluded?: boolean | null;
+  }[];
   payments: { label: string; amount: number }[];
+  promotions?: { name: string; amount: number }[];
+  loyalty?: SaleTicketLoyalty | null;
   changeAmount: number;
   showChange?: boolean;
   customer?: PosCustomer | null;
@@ -163,8 +204,10 @@ export default function PagoPage() {
     cart,
     cartTotal,
     cartSubtotal,
+    cartTaxBreakdown,
     cartGrossSubtotal,
     cartLineDiscountTotal,
+    cartPromotions,
     cartDiscountPercent,
     cartDiscountValue,
     cartSurcharge,
@@ -180,7 +223,11 @@ export default function PagoPage() {
     setReservedSaleNumber,
     setSaleNumber,
     saleAttemptId,
+    setCustomerDisplayPayment,
+    activeSeller,
   } = usePos();
+  // Vendedor identificado por PIN; el usuario logueado queda como cajero.
+  const saleSellerName = activeSeller?.name ?? user?.name ?? null;
 
   // Total real de la venta
   const totalToPay = cartTotal;
@@ -195,6 +242,7 @@ export default function PagoPage() {
 
   const [method, setMethod] = useState<PaymentMethodSlug>("cash");
   const [paidValue, setPaidValue] = useState<string>("0");
+  const [storeCredit, setStoreCredit] = useState<AppliedStoreCredit | null>(null);
   const [separatedInitialPayments, setSeparatedInitialPayments] = useState<
     SeparatedInitialPaymentLine[]
   >([]);
@@ -226,6 +274,7 @@ export default function PagoPage() {
   const [posMode, setPosMode] = useState<PosAccessMode | null>(null);
   const [isConfirmingSale, setIsConfirmingSale] = useState(false);
   const confirmInFlightRef = useRef(false);
+  const stalePriceAckRef = useRef<string | null>(null);
   const apiBase = useMemo(() => getApiBase(), []);
   const [printerConfig, setPrinterConfig] = useState<PosStationPrinterConfig>({
     mode: "qz-tray",
@@ -402,121 +451,15 @@ export default function PagoPage() {
       cancelled = true;
     };
   }, [token, apiBase, activeStationId, isStationMode, printerStorageKey]);
-  type QzPromiseResolver<T> = (value: T | PromiseLike<T>) => void;
-  type QzPromiseReject = (reason?: unknown) => void;
-  type QzType = {
-    websocket: { isActive: () => boolean; connect: () => Promise<void> };
-    printers: { find: () => Promise<string[]> };
-    configs: { create: (printer: string, options?: Record<string, unknown>) => unknown };
-    print: (config: unknown, data: unknown) => Promise<void>;
-    security?: {
-      setCertificatePromise: (
-        promise: (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-      setSignaturePromise: (
-        promise: (
-          toSign: string
-        ) => (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-    };
-  };
-  const [qzClient, setQzClient] = useState<QzType | null>(() => {
-    if (typeof window !== "undefined") {
-      const w = window as unknown as { qz?: QzType };
-      return w.qz ?? null;
-    }
-    return null;
-  });
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    let cancelled = false;
-    const setIfPresent = () => {
-      if (cancelled) return;
-      const w = window as unknown as { qz?: QzType };
-      if (w.qz) setQzClient(w.qz);
-    };
-    const w = window as unknown as { qz?: QzType };
-    if (w.qz) {
-      setIfPresent();
-      return () => {
-        cancelled = true;
-      };
-    }
-    const existing = document.querySelector('script[data-qz-tray]') as HTMLScriptElement | null;
-    const script = existing ?? document.createElement("script");
-    if (!existing) {
-      script.src = "https://cdn.jsdelivr.net/npm/qz-tray@2.2.4/qz-tray.js";
-      script.async = true;
-      script.dataset.qzTray = "1";
-      script.onerror = () =>
-        console.warn("No se pudo cargar el script de QZ Tray desde la CDN.");
-      document.head.appendChild(script);
-    }
-    script.addEventListener("load", setIfPresent);
-    return () => {
-      cancelled = true;
-      script.removeEventListener("load", setIfPresent);
-    };
-  }, []);
-  const qzSecurityConfiguredRef = useRef(false);
-  const configureQzSecurity = useCallback(() => {
-    if (!qzClient?.security) return true;
-    if (!token) return false;
-    if (qzSecurityConfiguredRef.current) return true;
-    const authHeaders = {
-      Authorization: `Bearer ${token}`,
-    };
-    qzClient.security.setCertificatePromise(
-      (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-        fetch(`${apiBase}/pos/qz/cert`, { credentials: "include" })
-          .then(async (res) => {
-            if (!res.ok) {
-              throw new Error(
-                `No se pudo obtener el certificado (Error ${res.status}).`
-              );
-            }
-            return res.text();
-          })
-          .then(resolve)
-          .catch(reject);
-      }
-    );
-    qzClient.security.setSignaturePromise(
-      (toSign: string) =>
-        (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-          fetch(`${apiBase}/pos/qz/sign`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              ...authHeaders,
-            },
-            credentials: "include",
-            body: JSON.stringify({ data: toSign }),
-          })
-            .then(async (res) => {
-              if (!res.ok) {
-                const detail = await res.json().catch(() => null);
-                throw new Error(
-                  detail?.detail ??
-                    `No se pudo firmar el reto (Error ${res.status}).`
-                );
-              }
-              const data = (await res.json()) as { signature?: string };
-              if (!data?.signature) {
-                throw new Error("La API no devolvió la firma.");
-              }
-              return data.signature;
-            })
-            .then(resolve)
-            .catch(reject);
-        }
-    );
-    qzSecurityConfiguredRef.current = true;
-    return true;
-  }, [apiBase, qzClient, token]);
-  useEffect(() => {
-    configureQzSecurity();
-  }, [configureQzSecurity]);
+  const {
+    status: qzStatus,
+    isAvailable: qzAvailable,
+    pendingJobs: qzPendingJobs,
+    lastError: qzLastError,
+    printHtml: printQzHtml,
+    printRaw: printQzRaw,
+    openCashDrawer: openQzCashDrawer,
+  } = useQzTray(token);
   const paymentCatalog = usePaymentMethodsCatalog({
     fallbackToDefault: false,
   });
@@ -537,6 +480,7 @@ export default function PagoPage() {
   const hasActivePaymentMethods = activePaymentMethods.length > 0;
   const getMethodLabel = useCallback(
     (slug: PaymentMethodSlug) => {
+      if (slug === STORE_CREDIT_PAYMENT_METHOD) return "Saldo a favor";
       const found = paymentCatalog.find((m) => m.slug === slug);
       return found ? found.name : slug.toUpperCase();
     },
@@ -547,6 +491,11 @@ export default function PagoPage() {
   const allowsChange = selectedMethod?.allow_change ?? false;
   const isCreditLike = creditMethodSlugs.has(method);
   const isSeparatedSale = method === "separado";
+  // El saldo a favor solo se combina con métodos de contado; en crédito y
+  // separado el saldo pendiente lo maneja la cartera.
+  const storeCreditAmount =
+    storeCredit && !isCreditLike && !isSeparatedSale ? storeCredit.amount : 0;
+  const amountDue = Math.max(0, totalToPay - storeCreditAmount);
   const separatedMethodOptions = useMemo(
     () => activePaymentMethods.filter((m) => !creditMethodSlugs.has(m.slug)),
     [activePaymentMethods, creditMethodSlugs]
@@ -657,8 +606,8 @@ export default function PagoPage() {
     }
 
     // Métodos sin monto manual (tarjeta, qr, nequi, daviplata): pagado = total
-    setPaidValue(totalToPay.toString());
-  }, [isSeparatedSale, requiresManualAmount, totalToPay]);
+    setPaidValue(amountDue.toString());
+  }, [amountDue, isSeparatedSale, requiresManualAmount]);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -699,7 +648,7 @@ export default function PagoPage() {
 
   // Efectivo: cambio normal (puede ser negativo mientras escribe)
   if (allowsChange) {
-    const changeRaw = paidNumber - totalToPay;
+    const changeRaw = paidNumber - amountDue;
     displayChange = changeRaw;
     displayChangeLabel = "Cambio";
   }
@@ -721,6 +670,25 @@ export default function PagoPage() {
     displayChangeLabel = "Cambio";
   }
 
+  // La pantalla del cliente muestra lo recibido y el cambio mientras se cobra.
+  const customerDisplayPaid = allowsChange ? paidNumber + storeCreditAmount : totalToPay;
+  const customerDisplayChange = allowsChange ? Math.max(0, paidNumber - amountDue) : 0;
+  useEffect(() => {
+    if (!cart.length || isCreditLike || isSeparatedSale) return;
+    setCustomerDisplayPayment({
+      paid: customerDisplayPaid,
+      change: customerDisplayChange,
+    });
+    return () => setCustomerDisplayPayment(null);
+  }, [
+    cart.length,
+    customerDisplayChange,
+    customerDisplayPaid,
+    isCreditLike,
+    isSeparatedSale,
+    setCustomerDisplayPayment,
+  ]);
+
   // Si no hay carrito y NO estamos en la ventana de éxito, mandamos al POS
   useEffect(() => {
     if (!cart.length && !successSale && !navigation) {
@@ -862,6 +830,23 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
         setErrorWithToast("No hay productos en el carrito.");
         return;
       }
+
+      // El catálogo local pudo actualizarse después de armar el carrito (o la
+      // caja vendió sin conexión); pedimos una segunda confirmación.
+      const catalogSnapshot = await readPosCatalogSnapshot(
+        buildPosCatalogScopeKey(tenant?.id)
+      );
+      const stalePrices = catalogSnapshot
+        ? findStaleCartPrices(cart, catalogSnapshot.products)
+        : [];
+      const stalePriceKey = stalePrices
+        .map((line) => `${line.productId}:${line.catalogPrice ?? "inactivo"}`)
+        .join("|");
+      if (stalePrices.length > 0 && stalePriceAckRef.current !== stalePriceKey) {
+        stalePriceAckRef.current = stalePriceKey;
+        setErrorWithToast(describeStaleCartPrices(stalePrices, formatMoney));
+        return;
+      }
       if (!hasActivePaymentMethods || !selectedMethod) {
         setErrorWithToast(
           "No hay métodos de pago activos. Configúralos en Configuración > Métodos de pago."
@@ -888,8 +873,19 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
         }
       }
 
+      if (storeCreditAmount > 0) {
+        if (!isOnline) {
+          setErrorWithToast("Necesitas conexión para pagar con un saldo a favor.");
+          return;
+        }
+        if (storeCreditAmount > Math.min(storeCredit!.credit.balance, totalToPay)) {
+          setErrorWithToast("El saldo a favor aplicado supera el saldo disponible o el total.");
+          return;
+        }
+      }
+
       // Solo validamos que el efectivo no sea menor al total
-      if (!isSeparatedSale && !isCreditLike && allowsChange && paidNumber < totalToPay) {
+      if (!isSeparatedSale && !isCreditLike && allowsChange && paidNumber < amountDue) {
         setErrorWithToast(
           "El monto pagado en efectivo no puede ser menor al total."
         );
@@ -910,7 +906,7 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
         : isCreditLike
         ? paidNumber
         : allowsChange
-        ? paidNumber
+        ? paidNumber + storeCreditAmount
         : totalToPay;
 
       const change_amount = isSeparatedSale
@@ -918,8 +914,13 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
         : isCreditLike
         ? 0
         : allowsChange
-        ? Math.max(0, paidNumber - totalToPay)
+        ? Math.max(0, paidNumber - amountDue)
         : 0;
+      const storeCreditPayments = splitStoreCreditPayments(
+        method,
+        paid_amount,
+        storeCreditAmount
+      );
 
       if (!token) {
         throw new Error("Sesión expirada. Inicia sesión nuevamente.");
@@ -962,7 +963,7 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
             body: JSON.stringify({
               pos_name: resolvedPosName,
               station_id: activeStationId,
-              vendor_name: user?.name ?? null,
+              vendor_name: saleSellerName,
               min_sale_number:
                 typeof saleNumber === "number" && saleNumber > 0
                   ? saleNumber
@@ -1007,7 +1008,8 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
 
       const saleItemsPayload = cart.map((item) => {
         const gross = item.unitPrice * item.quantity;
-        const lineDiscount = item.lineDiscountValue;
+        const lineDiscount =
+          item.lineDiscountValue + (cartPromotions.lineDiscounts[item.id] ?? 0);
         const netLine = Math.max(0, gross - lineDiscount);
 
         return {
@@ -1019,6 +1021,14 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
           product_barcode: item.product.barcode ?? undefined,
           discount: lineDiscount,
           total: netLine,
+          tax_rate: resolveTaxRateCode(item.product),
+          tax_included: resolveTaxIncluded(
+            item.product,
+            posSettings?.electronic_invoice?.prices_include_tax
+          ),
+          ...(typeof item.sellerId === "number"
+            ? { seller_user_id: item.sellerId, seller_name: item.sellerName ?? undefined }
+            : {}),
         };
       });
 
@@ -1038,16 +1048,23 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
           product_sku?: string | null;
           product_name: string;
           product_barcode?: string | null;
+          tax_rate?: TaxRateCode;
+          tax_included?: boolean;
+          seller_user_id?: number;
+          seller_name?: string;
           discount?: number;
           total?: number;
         }[];
         payments?: { method: PaymentMethodSlug; amount: number }[];
+        promotions?: { rule_id: string; name: string; amount: number }[];
+        store_credit_redemptions?: { code: string; amount: number }[];
         sale_number_preassigned: number;
         reservation_id?: number;
         client_request_id: string;
         notes?: string;
         pos_name?: string;
         vendor_name?: string;
+        cashier_name?: string;
         customer_id?: number;
         due_date?: string;
         station_id?: string;
@@ -1063,13 +1080,21 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
         items: saleItemsPayload,
         notes: combinedSaleNotes || undefined,
         pos_name: resolvedPosName,
-        vendor_name: user?.name ?? undefined,
+        vendor_name: saleSellerName ?? undefined,
+        cashier_name: user?.name ?? undefined,
         reservation_id: reservationId ?? undefined,
         client_request_id: saleAttemptId,
       };
       if (activeStationId) {
         basePayload.station_id = activeStationId;
       }
+      if (cartPromotions.applied.length > 0) {
+        basePayload.promotions = cartPromotions.applied.map((promotion) => ({
+          rule_id: promotion.ruleId,
+          name: promotion.name,
+          amount: promotion.amount,
+        }));
+      }
       if (cartSurcharge.enabled && cartSurcharge.amount > 0) {
         basePayload.surcharge_amount = cartSurcharge.amount;
         basePayload.surcharge_label = cartSurcharge.method
@@ -1098,6 +1123,11 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
             amount: paid_amount,
           },
         ];
+      } else if (storeCredit && storeCreditAmount > 0) {
+        basePayload.payments = storeCreditPayments;
+        basePayload.store_credit_redemptions = [
+          { code: storeCredit.credit.code, amount: storeCreditAmount },
+        ];
       }
 
       const buildPayload = (): SaleSubmissionPayload => ({
@@ -1108,26 +1138,34 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
       // 4) Enviamos al backend
       const endpoint = isSeparatedSale ? "/separated-orders" : "/pos/sales";
 
-      const queueSaleOffline = (customMessage?: string) => {
+      const queueSaleOffline = async (customMessage?: string) => {
         const payloadForQueue = buildPayload();
-        addPendingSale({
-          endpoint,
-          payload: payloadForQueue,
-          scope: {
-            tenantId: tenant?.id ?? null,
-            userId: user?.id ?? null,
-            stationId: activeStationId,
-          },
-          summary: {
-            saleNumber: assignedSaleNumber,
-            total: totalToPay,
-            methodLabel: effectivePaymentLabel,
-            createdAt: new Date().toISOString(),
-            customerName: selectedCustomer?.name ?? null,
-            vendorName: user?.name ?? null,
-            isSeparated: isSeparatedSale,
-          },
-        });
+        try {
+          await addPendingSale({
+            endpoint,
+            payload: payloadForQueue,
+            scope: {
+              tenantId: tenant?.id ?? null,
+              userId: user?.id ?? null,
+              stationId: activeStationId,
+            },
+            summary: {
+              saleNumber: assignedSaleNumber,
+              total: totalToPay,
+              methodLabel: effectivePaymentLabel,
+              createdAt: new Date().toISOString(),
+              customerName: selectedCustomer?.name ?? null,
+              vendorName: saleSellerName,
+              isSeparated: isSeparatedSale,
+            },
+          });
+        } catch (err) {
+          console.error(err);
+          setErrorWithToast(
+            "No pudimos guardar la venta como pendiente en este equipo. No cierres la venta y revisa el espacio disponible del navegador."
+          );
+          return;
+        }
         clearSale();
         setSuccessSale(null);
         setMessage(null);
@@ -1145,7 +1183,7 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
       };
 
       if (!isOnline) {
-        queueSaleOffline();
+        await queueSaleOffline();
         return;
       }
 
@@ -1175,7 +1213,7 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
           browserOffline ||
           err instanceof TypeError
         ) {
-          queueSaleOffline(
+          await queueSaleOffline(
             browserOffline
               ? undefined
               : "No se pudo conectar con el servidor. Guardamos la venta como pendiente para enviarla al restablecer la conexión."
@@ -1223,7 +1261,7 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
             const browserOffline =
               typeof navigator !== "undefined" && !navigator.onLine;
             if (browserOffline || err instanceof TypeError) {
-              queueSaleOffline(
+              await queueSaleOffline(
                 browserOffline
                   ? "Renovamos la reserva, pero perdimos internet. Guardamos la venta como pendiente."
                   : "Renovamos la reserva, pero no hubo conexión con el servidor. Guardamos la venta como pendiente."
@@ -1283,7 +1321,7 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
               browserOffline ||
               err instanceof TypeError
             ) {
-              queueSaleOffline(
+              await queueSaleOffline(
                 browserOffline
                   ? "El consecutivo se actualizó pero perdimos internet. Guardamos la venta como pendiente."
                   : "El consecutivo se actualizó, pero no hubo conexión con el servidor. Guardamos la venta como pendiente."
@@ -1464,11 +1502,13 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
           balance: separatedPending,
         };
       }
-      const saleItemsForTicket = ticketLineBreakdown.lines.map((line) => ({
+      const saleItemsForTicket = ticketLineBreakdown.lines.map((line, index) => ({
         name: line.name,
         quantity: line.quantity,
         unitPrice: line.unitPrice,
         total: line.displayTotal,
+        taxRate: line.taxRate ?? saleItemsPayload[index]?.tax_rate ?? null,
+        taxIncluded: line.taxIncluded ?? saleItemsPayload[index]?.tax_included ?? null,
       }));
       const paymentSummary =
         saleResponse?.payments && saleResponse.payments.length > 0
@@ -1476,6 +1516,14 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
               label: getMethodLabel(payment.method),
               amount: payment.amount,
             }))
+          : storeCreditAmount > 0
+          ? storeCreditPayments.map((payment) => ({
+              label:
+                payment.method === STORE_CREDIT_PAYMENT_METHOD
+                  ? getMethodLabel(STORE_CREDIT_PAYMENT_METHOD)
+                  : effectivePaymentLabel,
+              amount: payment.amount,
+            }))
           : [
               {
                 label: effectivePaymentLabel,
@@ -1488,6 +1536,26 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
         typeof saleResponse?.change_amount === "number"
           ? saleResponse.change_amount
           : changeAmountForTicket;
+      // Sin saldo del backend ni del cliente seleccionado no se imprime un
+      // saldo de puntos inventado.
+      let ticketLoyalty: SaleTicketLoyalty | null = null;
+      if (isLoyaltyEnabled(posSettings?.loyalty) && selectedCustomer && !isSeparatedSale) {
+        const earned =
+          saleResponse?.loyalty_points_earned ??
+          computeEarnedPoints(
+            storeCreditPayments,
+            posSettings.loyalty,
+            { changeAmount: ticketChangeAmount }
+          );
+        const balance =
+          saleResponse?.loyalty_balance ??
+          (typeof selectedCustomer.loyaltyPoints === "number"
+            ? selectedCustomer.loyaltyPoints + earned
+            : null);
+        if (balance != null) {
+          ticketLoyalty = { earned, redeemed: 0, balance };
+        }
+      }
 
       // Guardamos info para la ventana de éxito
       setSuccessSale({
@@ -1515,6 +1583,8 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
         notes: serverNotes ?? (combinedSaleNotes || undefined),
         items: saleItemsForTicket,
         payments: paymentSummary,
+        promotions: cartPromotions.applied.map(({ name, amount }) => ({ name, amount })),
+        loyalty: ticketLoyalty,
         changeAmount: ticketChangeAmount,
         showChange: shouldShowChange,
         customer: ticketCustomer,
@@ -1527,6 +1597,7 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
 
       // Limpiamos carrito y descuentos
       clearSale();
+      setStoreCredit(null);
 
       setMessage(
         `${isSeparatedSale ? "Separado" : "Venta"} registrada correctamente (ticket #${backendSaleNumber}).`
@@ -1562,9 +1633,9 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
     );
   }
 
-  function buildSaleDocumentHtml(variant: "ticket" | "invoice" = "ticket") {
+  function buildSaleTicketOptions(): SaleTicketOptions | null {
     if (!successSale) return null;
-    const payload = {
+    return {
       documentNumber: successSale.documentNumber,
       saleNumber: successSale.saleNumber,
       date: new Date(),
@@ -1581,11 +1652,19 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
       changeAmount: successSale.changeAmount,
       notes: successSale.notes,
       posName: resolvedPosName,
-      vendorName: user?.name ?? undefined,
+      vendorName: saleSellerName ?? undefined,
       settings: posSettings,
       customer: buildSaleTicketCustomer(successSale.customer),
       separatedInfo: successSale.separatedInfo,
+      promotions: successSale.promotions,
+      loyalty: successSale.loyalty,
+      taxBreakdown: taxBreakdownFromItems(successSale.items, successSale.total),
     };
+  }
+
+  function buildSaleDocumentHtml(variant: "ticket" | "invoice" = "ticket") {
+    const payload = buildSaleTicketOptions();
+    if (!payload) return null;
     if (variant === "invoice") {
       return renderSaleInvoice(payload);
     }
@@ -1651,22 +1730,28 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
       setErrorWithToast("Selecciona la impresora en Configurar impresora.");
       return false;
     }
-    if (!qzClient) {
+    if (!qzAvailable) {
       setErrorWithToast("No detectamos QZ Tray. Ábrelo y autoriza este dominio.");
       return false;
     }
     try {
-      if (!qzClient.websocket.isActive()) {
-        await qzClient.websocket.connect();
+      const ticketOptions =
+        printerConfig.format === "escpos" ? buildSaleTicketOptions() : null;
+      if (ticketOptions) {
+        const logo = await loadTicketLogoRaster(posSettings, printerConfig.width);
+        await printQzRaw(
+          printerConfig.printerName,
+          renderSaleTicketEscPos(ticketOptions, { width: printerConfig.width, logo }),
+          "Ticket de venta"
+        );
+      } else {
+        await printQzHtml(
+          printerConfig.printerName,
+          html,
+          printerConfig.width,
+          "Ticket de venta"
+        );
       }
-      const sizeWidth = printerConfig.width === "58mm" ? 58 : 80;
-      const cfg = qzClient.configs.create(printerConfig.printerName, {
-        altPrinting: true,
-        units: "mm",
-        size: { width: sizeWidth },
-        margins: { top: 0, right: 0, bottom: 0, left: 0 },
-      });
-      await qzClient.print(cfg, [{ type: "html", format: "plain", data: html }]);
       setError(null);
       return true;
     } catch (err) {
@@ -1683,25 +1768,15 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
   const openDrawerWithQz = useCallback(async () => {
     if (printerConfig.mode !== "qz-tray") return false;
     if (!printerConfig.printerName.trim()) return false;
-    if (!qzClient) return false;
+    if (!qzAvailable) return false;
     try {
-      configureQzSecurity();
-      if (!qzClient.websocket.isActive()) {
-        await qzClient.websocket.connect();
-      }
-      const cfg = qzClient.configs.create(printerConfig.printerName, {
-        altPrinting: true,
-      });
-      const drawerPulse = "\x1B\x70\x00\x19\xFA";
-      await qzClient.print(cfg, [
-        { type: "raw", format: "command", data: drawerPulse },
-      ]);
+      await openQzCashDrawer(printerConfig.printerName);
       return true;
     } catch (err) {
       console.error("No se pudo abrir el cajon al confirmar el pago", err);
       return false;
     }
-  }, [configureQzSecurity, printerConfig.mode, printerConfig.printerName, qzClient]);
+  }, [openQzCashDrawer, printerConfig.mode, printerConfig.printerName, qzAvailable]);
 
   async function handlePrintTicket() {
     const html = buildSaleDocumentHtml("ticket");
@@ -1877,6 +1952,13 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
           <span className="text-xs uppercase tracking-wide text-slate-400">
             {resolvedPosName}
           </span>
+          {printerConfig.mode === "qz-tray" && (
+            <QzTrayStatusBadge
+              status={qzStatus}
+              pendingJobs={qzPendingJobs}
+              lastError={qzLastError}
+            />
+          )}
         </div>
         <div className="shrink-0">
           <PaymentCustomerControl
@@ -1923,8 +2005,12 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
             ) : (
               cart.map((item) => {
                 const gross = item.quantity * item.unitPrice;
-                const lineTotal = Math.max(0, gross - item.lineDiscountValue);
-                const hasDiscount = item.lineDiscountValue > 0;
+                const promotionDiscount = cartPromotions.lineDiscounts[item.id] ?? 0;
+                const lineTotal = Math.max(
+                  0,
+                  gross - item.lineDiscountValue - promotionDiscount
+                );
+                const hasDiscount = item.lineDiscountValue > 0 || promotionDiscount > 0;
                 const freeSaleReason = (item.freeSaleReason ?? "").trim();
 
                 return (
@@ -1948,11 +2034,17 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
                         <div className="font-semibold text-slate-100 text-base">
                           {formatMoney(lineTotal)}
                         </div>
-                        {hasDiscount && (
+                        {item.lineDiscountValue > 0 && (
                           <div className="text-xs text-emerald-400">
                             Descuento -{formatMoney(item.lineDiscountValue)}
                           </div>
                         )}
+                        {promotionDiscount > 0 && (
+                          <div className="text-xs text-emerald-300">
+                            {promotionNamesForLine(cartPromotions, item.id)} -
+                            {formatMoney(promotionDiscount)}
+                          </div>
+                        )}
                       </div>
                     </div>
                     {freeSaleReason && (
@@ -1970,22 +2062,31 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
           </div>
           {/* Totales abajo */}
           <div className="h-40 shrink-0 overflow-y-auto border-t border-slate-700/70 px-4 py-2 text-sm flex flex-col justify-center gap-1 bg-[#081225]">
+            {(cartLineDiscountTotal > 0 || cartPromotions.total > 0) && (
+              <div className="flex items-center justify-between text-sm text-slate-300">
+                <span>Subtotal sin descuentos</span>
+                <span className="font-semibold text-slate-100">
+                  {formatMoney(cartGrossSubtotal)}
+                </span>
+              </div>
+            )}
             {cartLineDiscountTotal > 0 && (
-              <>
-                <div className="flex items-center justify-between text-sm text-slate-300">
-                  <span>Subtotal sin descuentos</span>
-                  <span className="font-semibold text-slate-100">
-                    {formatMoney(cartGrossSubtotal)}
-                  </span>
-                </div>
-                <div className="flex items-center justify-between text-sm text-emerald-400">
-                  <span>Descuento artículos</span>
-                  <span className="font-semibold">
-                    -{formatMoney(cartLineDiscountTotal)}
-                  </span>
-                </div>
-              </>
+              <div className="flex items-center justify-between text-sm text-emerald-400">
+                <span>Descuento artículos</span>
+                <span className="font-semibold">
+                  -{formatMoney(cartLineDiscountTotal)}
+                </span>
+              </div>
             )}
+            {cartPromotions.applied.map((promotion) => (
+              <div
+                key={promotion.ruleId}
+                className="flex items-center justify-between text-sm text-emerald-300"
+              >
+                <span>{promotion.name}</span>
+                <span className="font-semibold">-{formatMoney(promotion.amount)}</span>
+              </div>
+            ))}
             <div className="flex items-center justify-between text-sm text-slate-300">
               <span>Subtotal</span>
               <span className="font-semibold text-slate-100">
@@ -2014,6 +2115,12 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
                   : "0"}
               </span>
             </div>
+            {cartTaxBreakdown.tax > 0 && (
+              <div className="flex items-center justify-between text-xs text-slate-400">
+                <span>IVA incluido</span>
+                <span>{formatMoney(cartTaxBreakdown.tax)}</span>
+              </div>
+            )}
             <div className="flex items-center justify-between pt-1">
               <span className="text-base font-bold text-slate-200">
                 TOTAL
@@ -2092,6 +2199,29 @@ const getSurchargeMethodLabel = (method: SurchargeMethod | null) => {
                       {formatMoney(totalToPay)}
                     </span>
                   </div>
+                  {!isSeparatedSale && !isCreditLike && (
+                    <div className="grid grid-cols-[1fr_auto] items-center gap-3 text-base">
+                      <span className="text-slate-300">Saldo a favor</span>
+                      <div className="w-80">
+                        <StoreCreditRedeemControl
+                          token={token}
+                          remaining={totalToPay}
+                          applied={storeCredit}
+                          onApply={setStoreCredit}
+                          onRemove={() => setStoreCredit(null)}
+                          disabled={isConfirmingSale}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {storeCreditAmount > 0 && (
+                    <div className="grid grid-cols-[1fr_auto] items-center gap-2">
+                      <span className="text-slate-300">Por pagar</span>
+                      <span className="font-semibold text-slate-100 text-xl">
+                        {formatMoney(amountDue)}
+                      </span>
+                    </div>
+                  )}
                   {!isSeparatedSale ? (
                     <div className="grid grid-cols-[1fr_auto] items-center gap-3">
                       <span className="text-slate-300">Pagado</span>
@@ -16,12 +16,37 @@ import {
   renderSaleTicket,
   renderSaleInvoice,
   buildSaleTicketCustomer,
+  type SaleTicketLoyalty,
+  type SaleTicketOptions,
 } from "@/lib/printing/saleTicket";
 import {
   buildSaleTicketDisplayBreakdown,
   type SaleTicketSourceItem,
 } from "@/lib/pos/saleTicketData";
+import {
+  resolveTaxIncluded,
+  resolveTaxRateCode,
+  taxBreakdownFromItems,
+  type TaxRateCode,
+} from "@/lib/pos/taxes";
+import { promotionNamesForLine } from "@/lib/pos/promotions";
+import {
+  LOYALTY_PAYMENT_METHOD,
+  amountToRedeemPoints,
+  computeEarnedPoints,
+  isLoyaltyEnabled,
+  maxRedeemableAmount,
+} from "@/lib/pos/loyalty";
+import { fetchLoyaltyAccount } from "@/lib/api/loyalty";
+import {
+  maxStoreCreditRedemption,
+  STORE_CREDIT_PAYMENT_METHOD,
+} from "@/lib/pos/storeCredit";
 import { PaymentCustomerControl } from "../../components/PaymentCustomerControl";
+import {
+  StoreCreditRedeemControl,
+  type AppliedStoreCredit,
+} from "../../components/StoreCreditRedeemControl";
 import { type PaymentMethodRecord } from "@/lib/api/paymentMethods";
 import { usePaymentMethodsCatalog } from "@/app/hooks/usePaymentMethodsCatalog";
 import type { SeparatedOrder } from "@/lib/api/separatedOrders";
@@ -40,8 +65,20 @@ import {
   type PosStationPrinterConfig,
 } from "@/lib/api/posStations";
 import { buildScopedPosStorageKey } from "@/lib/pos/storageScope";
+import {
+  buildPosCatalogScopeKey,
+  describeStaleCartPrices,
+  findStaleCartPrices,
+  readPosCatalogSnapshot,
+} from "@/lib/pos/catalogSnapshot";
 import { PosNavigationOverlay } from "../../components/PosNavigationOverlay";
 import { useGuardedPosNavigation } from "../../hooks/useGuardedPosNavigation";
+import { useQzTray } from "@/app/hooks/useQzTray";
+import {
+  loadTicketLogoRaster,
+  renderSaleTicketEscPos,
+} from "@/lib/printing/escPosTickets";
+import { QzTrayStatusBadge } from "../../components/QzTrayStatusBadge";
 
 type PaymentMethodSlug = string;
 
@@ -78,6 +115,9 @@ type SaleResponse = {
   cart_discount_percent?: number | null;
   items?: SaleTicketSourceItem[];
   payments?: { method: PaymentMethodSlug; amount: number }[];
+  loyalty_points_earned?: number | null;
+  loyalty_points_redeemed?: number | null;
+  loyalty_balance?: number | null;
 };
 
 type SuccessSaleSummary = {
@@ -93,8 +133,17 @@ type SuccessSaleSummary = {
   cartDiscountLabel: string;
   cartDiscountValueDisplay: string;
   notes?: string | null;
-  items: { name: string; quantity: number; unitPrice: number; total: number }[];
+  items: {
+    name: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+    taxRate?: TaxRateCode | null;
+    taxIncluded?: boolean | null;
+  }[];
   payments: { label: string; amount: number }[];
+  promotions?: { name: string; amount: number }[];
+  loyalty?: SaleTicketLoyalty | null;
   changeAmount: number;
   showChange?: boolean;
   customer?: PosCustomer | null;
@@ -134,6 +183,8 @@ function getMethodLabel(
   slug: PaymentMethodSlug,
   catalog: PaymentMethodRecord[]
 ): string {
+  if (slug === LOYALTY_PAYMENT_METHOD) return "Puntos";
+  if (slug === STORE_CREDIT_PAYMENT_METHOD) return "Saldo a favor";
   const found = catalog.find((m) => m.slug === slug);
   return found ? found.name : slug;
 }
@@ -185,8 +236,10 @@ export default function PagoMultiplePage() {
     cart,
     cartTotal,
     cartSubtotal,
+    cartTaxBreakdown,
     cartGrossSubtotal,
     cartLineDiscountTotal,
+    cartPromotions,
     cartDiscountPercent,
     cartDiscountValue,
     cartSurcharge,
@@ -202,8 +255,12 @@ export default function PagoMultiplePage() {
     setReservedSaleNumber,
     setSaleNumber,
     saleAttemptId,
+    setCustomerDisplayPayment,
+    activeSeller,
   } = usePos();
   const { token, user, tenant } = useAuth();
+  // Vendedor identificado por PIN; el usuario logueado queda como cajero.
+  const saleSellerName = activeSeller?.name ?? user?.name ?? null;
   const isOnline = useOnlineStatus();
   const totalToPay = cartTotal;
   const freeSaleReasons = useMemo(
@@ -231,6 +288,8 @@ export default function PagoMultiplePage() {
     null
   );
   const [posSettings, setPosSettings] = useState<PosSettingsPayload | null>(null);
+  const [loyaltyBalance, setLoyaltyBalance] = useState<number | null>(null);
+  const [storeCredit, setStoreCredit] = useState<AppliedStoreCredit | null>(null);
   const [emailModalOpen, setEmailModalOpen] = useState(false);
   const [emailRecipients, setEmailRecipients] = useState("");
   const [emailSubject, setEmailSubject] = useState("");
@@ -238,6 +297,7 @@ export default function PagoMultiplePage() {
   const [emailSending, setEmailSending] = useState(false);
   const [isConfirmingSale, setIsConfirmingSale] = useState(false);
   const confirmInFlightRef = useRef(false);
+  const stalePriceAckRef = useRef<string | null>(null);
   const [emailDocumentType, setEmailDocumentType] = useState<
     "ticket" | "invoice"
   >("ticket");
@@ -444,121 +504,15 @@ export default function PagoMultiplePage() {
       cancelled = true;
     };
   }, [token, apiBase, activeStationId, isStationMode, printerStorageKey]);
-  type QzPromiseResolver<T> = (value: T | PromiseLike<T>) => void;
-  type QzPromiseReject = (reason?: unknown) => void;
-  type QzType = {
-    websocket: { isActive: () => boolean; connect: () => Promise<void> };
-    printers: { find: () => Promise<string[]> };
-    configs: { create: (printer: string, options?: Record<string, unknown>) => unknown };
-    print: (config: unknown, data: unknown) => Promise<void>;
-    security?: {
-      setCertificatePromise: (
-        promise: (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-      setSignaturePromise: (
-        promise: (
-          toSign: string
-        ) => (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
-      ) => void;
-    };
-  };
-  const [qzClient, setQzClient] = useState<QzType | null>(() => {
-    if (typeof window !== "undefined") {
-      const w = window as unknown as { qz?: QzType };
-      return w.qz ?? null;
-    }
-    return null;
-  });
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    let cancelled = false;
-    const setIfPresent = () => {
-      if (cancelled) return;
-      const w = window as unknown as { qz?: QzType };
-      if (w.qz) setQzClient(w.qz);
-    };
-    const w = window as unknown as { qz?: QzType };
-    if (w.qz) {
-      setIfPresent();
-      return () => {
-        cancelled = true;
-      };
-    }
-    const existing = document.querySelector('script[data-qz-tray]') as HTMLScriptElement | null;
-    const script = existing ?? document.createElement("script");
-    if (!existing) {
-      script.src = "https://cdn.jsdelivr.net/npm/qz-tray@2.2.4/qz-tray.js";
-      script.async = true;
-      script.dataset.qzTray = "1";
-      script.onerror = () =>
-        console.warn("No se pudo cargar el script de QZ Tray desde la CDN.");
-      document.head.appendChild(script);
-    }
-    script.addEventListener("load", setIfPresent);
-    return () => {
-      cancelled = true;
-      script.removeEventListener("load", setIfPresent);
-    };
-  }, []);
-  const qzSecurityConfiguredRef = useRef(false);
-  const configureQzSecurity = useCallback(() => {
-    if (!qzClient?.security) return true;
-    if (!token) return false;
-    if (qzSecurityConfiguredRef.current) return true;
-    const authHeaders = {
-      Authorization: `Bearer ${token}`,
-    };
-    qzClient.security.setCertificatePromise(
-      (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-        fetch(`${apiBase}/pos/qz/cert`, { credentials: "include" })
-          .then(async (res) => {
-            if (!res.ok) {
-              throw new Error(
-                `No se pudo obtener el certificado (Error ${res.status}).`
-              );
-            }
-            return res.text();
-          })
-          .then(resolve)
-          .catch(reject);
-      }
-    );
-    qzClient.security.setSignaturePromise(
-      (toSign: string) =>
-        (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => {
-          fetch(`${apiBase}/pos/qz/sign`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              ...authHeaders,
-            },
-            credentials: "include",
-            body: JSON.stringify({ data: toSign }),
-          })
-            .then(async (res) => {
-              if (!res.ok) {
-                const detail = await res.json().catch(() => null);
-                throw new Error(
-                  detail?.detail ??
-                    `No se pudo firmar el reto (Error ${res.status}).`
-                );
-              }
-              const data = (await res.json()) as { signature?: string };
-              if (!data?.signature) {
-                throw new Error("La API no devolvió la firma.");
-              }
-              return data.signature;
-            })
-            .then(resolve)
-            .catch(reject);
-        }
-    );
-    qzSecurityConfiguredRef.current = true;
-    return true;
-  }, [apiBase, qzClient, token]);
-  useEffect(() => {
-    configureQzSecurity();
-  }, [configureQzSecurity]);
+  const {
+    status: qzStatus,
+    isAvailable: qzAvailable,
+    pendingJobs: qzPendingJobs,
+    lastError: qzLastError,
+    printHtml: printQzHtml,
+    printRaw: printQzRaw,
+    openCashDrawer: openQzCashDrawer,
+  } = useQzTray(token);
   const paidInputRef = useRef<HTMLInputElement | null>(null);
   const paymentCatalog = usePaymentMethodsCatalog({
     fallbackToDefault: false,
@@ -604,6 +558,13 @@ export default function PagoMultiplePage() {
 
   const hasCreditLike = payments.some((p) => creditMethodSlugs.has(p.method));
 
+  // La pantalla del cliente muestra lo recibido y el cambio mientras se cobra.
+  useEffect(() => {
+    if (!cart.length || hasCreditLike) return;
+    setCustomerDisplayPayment({ paid: totalPaid, change: Math.max(0, diff) });
+    return () => setCustomerDisplayPayment(null);
+  }, [cart.length, diff, hasCreditLike, setCustomerDisplayPayment, totalPaid]);
+
   function getDefaultDueDate(): string {
     const due = new Date();
     due.setMonth(due.getMonth() + 2);
@@ -671,6 +632,35 @@ export default function PagoMultiplePage() {
     };
   }, [token]);
 
+  const loyaltySettings = isLoyaltyEnabled(posSettings?.loyalty)
+    ? posSettings.loyalty
+    : null;
+  const selectedCustomerId = selectedCustomer?.id ?? null;
+  const selectedCustomerPoints = selectedCustomer?.loyaltyPoints ?? null;
+
+  // El saldo que trae el cliente puede estar desactualizado (otra caja pudo
+  // redimir); antes de cobrar con puntos se consulta de nuevo.
+  useEffect(() => {
+    setLoyaltyBalance(selectedCustomerPoints);
+    if (!loyaltySettings || !selectedCustomerId || !token) return;
+    let active = true;
+    fetchLoyaltyAccount(selectedCustomerId, token)
+      .then((account) => {
+        if (active) setLoyaltyBalance(account.balance);
+      })
+      .catch((err) => {
+        console.warn("No se pudo consultar el saldo de puntos del cliente", err);
+      });
+    return () => {
+      active = false;
+    };
+  }, [loyaltySettings, selectedCustomerId, selectedCustomerPoints, token]);
+
+  const loyaltyRedeemable =
+    loyaltySettings && selectedCustomer && loyaltyBalance != null
+      ? maxRedeemableAmount(loyaltyBalance, totalToPay, loyaltySettings)
+      : 0;
+
 
   // Enfocar input al cambiar de línea
   useEffect(() => {
@@ -700,10 +690,22 @@ export default function PagoMultiplePage() {
         return prev;
       }
 
+      const remaining = Math.max(
+        0,
+        totalToPay - prev.reduce((sum, p) => sum + p.amount, 0)
+      );
       const newLine: PaymentLine = {
         id: Date.now(),
         method: m,
-        amount: 0,
+        // Con puntos se sugiere lo máximo redimible sin pasarse del restante.
+        amount:
+          m === LOYALTY_PAYMENT_METHOD && loyaltySettings
+            ? Math.min(
+                loyaltyRedeemable,
+                Math.floor(remaining / loyaltySettings.point_value) *
+                  loyaltySettings.point_value
+              )
+            : 0,
         separatedRealMethod: null,
       };
 
@@ -714,6 +716,43 @@ export default function PagoMultiplePage() {
     });
   }
 
+  // El saldo a favor entra como una línea más; el valor de la línea se puede
+  // bajar a mano, pero nunca por encima de lo que se consultó como disponible.
+  function handleApplyStoreCredit(applied: AppliedStoreCredit) {
+    setError(null);
+    setStoreCredit(applied);
+    setPayments((prev) => {
+      const existing = prev.find((p) => p.method === STORE_CREDIT_PAYMENT_METHOD);
+      const line: PaymentLine = existing
+        ? { ...existing, amount: applied.amount }
+        : {
+            id: Date.now(),
+            method: STORE_CREDIT_PAYMENT_METHOD,
+            amount: applied.amount,
+            separatedRealMethod: null,
+          };
+      setSelectedPaymentId(line.id);
+      setInputValue(amountNumberToString(line.amount));
+      return existing
+        ? prev.map((p) => (p.id === line.id ? line : p))
+        : [...prev, line];
+    });
+  }
+
+  function handleRemoveStoreCredit() {
+    setStoreCredit(null);
+    setPayments((prev) => {
+      const filtered = prev.filter((p) => p.method !== STORE_CREDIT_PAYMENT_METHOD);
+      if (filtered.length === prev.length) return prev;
+      const next: PaymentLine[] = filtered.length
+        ? filtered
+        : [{ id: Date.now(), method: "cash", amount: 0, separatedRealMethod: null }];
+      setSelectedPaymentId(next[0].id);
+      setInputValue(amountNumberToString(next[0].amount));
+      return next;
+    });
+  }
+
   function handleSetSeparatedMethodForLine(
     lineId: number,
     slug: PaymentMethodSlug
@@ -790,6 +829,23 @@ export default function PagoMultiplePage() {
         return;
       }
 
+      // El catálogo local pudo actualizarse después de armar el carrito (o la
+      // caja vendió sin conexión); pedimos una segunda confirmación.
+      const catalogSnapshot = await readPosCatalogSnapshot(
+        buildPosCatalogScopeKey(tenant?.id)
+      );
+      const stalePrices = catalogSnapshot
+        ? findStaleCartPrices(cart, catalogSnapshot.products)
+        : [];
+      const stalePriceKey = stalePrices
+        .map((line) => `${line.productId}:${line.catalogPrice ?? "inactivo"}`)
+        .join("|");
+      if (stalePrices.length > 0 && stalePriceAckRef.current !== stalePriceKey) {
+        stalePriceAckRef.current = stalePriceKey;
+        setErrorWithToast(describeStaleCartPrices(stalePrices, formatMoney));
+        return;
+      }
+
       if (!payments.length) {
         setErrorWithToast("Debe existir al menos una línea de pago.");
         return;
@@ -818,6 +874,62 @@ export default function PagoMultiplePage() {
         return;
       }
 
+      const loyaltyLine = payments.find(
+        (p) => p.method === LOYALTY_PAYMENT_METHOD && p.amount > 0
+      );
+      let redeemPoints = 0;
+      if (loyaltyLine) {
+        if (!loyaltySettings || !selectedCustomer) {
+          setErrorWithToast("Selecciona el cliente para pagar con puntos.");
+          return;
+        }
+        if (!isOnline) {
+          setErrorWithToast("Necesitas conexión para redimir puntos.");
+          return;
+        }
+        const points = amountToRedeemPoints(loyaltyLine.amount, loyaltySettings);
+        if (points == null) {
+          setErrorWithToast(
+            `El valor pagado con puntos debe ser múltiplo de $${formatMoney(
+              loyaltySettings.point_value
+            )}.`
+          );
+          return;
+        }
+        if (loyaltyLine.amount > loyaltyRedeemable) {
+          setErrorWithToast(
+            `El cliente puede pagar hasta $${formatMoney(loyaltyRedeemable)} con puntos en esta venta.`
+          );
+          return;
+        }
+        redeemPoints = points;
+      }
+
+      const storeCreditLine = payments.find(
+        (p) => p.method === STORE_CREDIT_PAYMENT_METHOD && p.amount > 0
+      );
+      if (storeCreditLine) {
+        if (!storeCredit) {
+          setErrorWithToast("Consulta el código del saldo a favor antes de cobrar.");
+          return;
+        }
+        if (!isOnline) {
+          setErrorWithToast("Necesitas conexión para pagar con un saldo a favor.");
+          return;
+        }
+        if (hasCreditLike) {
+          setErrorWithToast("El saldo a favor no se puede combinar con CRÉDITO o SEPARADO.");
+          return;
+        }
+        const maxCredit = maxStoreCreditRedemption(storeCredit.credit, totalToPay);
+        if (storeCreditLine.amount > maxCredit) {
+          setErrorWithToast(
+            `El saldo a favor ${storeCredit.credit.code} cubre hasta $${formatMoney(maxCredit)}.`
+          );
+          return;
+        }
+      }
+
       if (!hasCreditLike && totalPaidNow < totalToPay) {
         setErrorWithToast(
           "El total pagado no puede ser menor al total de la venta."
@@ -860,7 +972,8 @@ export default function PagoMultiplePage() {
 
       const saleItemsPayload = cart.map((item: CartItem) => {
         const gross = item.unitPrice * item.quantity;
-        const lineDiscount = item.lineDiscountValue;
+        const lineDiscount =
+          item.lineDiscountValue + (cartPromotions.lineDiscounts[item.id] ?? 0);
         const netLine = Math.max(0, gross - lineDiscount);
 
         return {
@@ -872,6 +985,14 @@ export default function PagoMultiplePage() {
           product_barcode: item.product.barcode,
           total: netLine,
           discount: lineDiscount,
+          tax_rate: resolveTaxRateCode(item.product),
+          tax_included: resolveTaxIncluded(
+            item.product,
+            posSettings?.electronic_invoice?.prices_include_tax
+          ),
+          ...(typeof item.sellerId === "number"
+            ? { seller_user_id: item.sellerId, seller_name: item.sellerName ?? undefined }
+            : {}),
         };
       });
 
@@ -910,7 +1031,7 @@ export default function PagoMultiplePage() {
             body: JSON.stringify({
               pos_name: resolvedPosName,
               station_id: activeStationId,
-              vendor_name: user?.name ?? null,
+              vendor_name: saleSellerName,
               min_sale_number:
                 typeof saleNumber === "number" && saleNumber > 0
                   ? saleNumber
@@ -960,16 +1081,24 @@ export default function PagoMultiplePage() {
           product_sku?: string | null;
           product_name: string;
           product_barcode?: string | null;
+          tax_rate?: TaxRateCode;
+          tax_included?: boolean;
+          seller_user_id?: number;
+          seller_name?: string;
           total?: number;
           discount?: number;
         }[];
         payments: { method: PaymentMethodSlug; amount: number }[];
+        promotions?: { rule_id: string; name: string; amount: number }[];
+        loyalty_redeem_points?: number;
+        store_credit_redemptions?: { code: string; amount: number }[];
         sale_number_preassigned: number;
         reservation_id?: number;
         client_request_id: string;
         notes?: string;
         pos_name?: string;
         vendor_name?: string;
+        cashier_name?: string;
         customer_id?: number;
         due_date?: string;
         surcharge_amount?: number;
@@ -1003,16 +1132,32 @@ export default function PagoMultiplePage() {
         payments: normalizedPayments,
         notes: combinedSaleNotes || undefined,
         pos_name: resolvedPosName,
-        vendor_name: user?.name ?? undefined,
+        vendor_name: saleSellerName ?? undefined,
+        cashier_name: user?.name ?? undefined,
         reservation_id: reservationId ?? undefined,
         client_request_id: saleAttemptId,
       };
       if (activeStationId) {
         basePayload.station_id = activeStationId;
       }
+      if (cartPromotions.applied.length > 0) {
+        basePayload.promotions = cartPromotions.applied.map((promotion) => ({
+          rule_id: promotion.ruleId,
+          name: promotion.name,
+          amount: promotion.amount,
+        }));
+      }
       if (selectedCustomer?.id) {
         basePayload.customer_id = selectedCustomer.id;
       }
+      if (redeemPoints > 0) {
+        basePayload.loyalty_redeem_points = redeemPoints;
+      }
+      if (storeCreditLine && storeCredit) {
+        basePayload.store_credit_redemptions = [
+          { code: storeCredit.credit.code, amount: storeCreditLine.amount },
+        ];
+      }
       if (isSeparatedSale) {
         basePayload.due_date = getDefaultDueDate();
       }
@@ -1042,26 +1187,34 @@ export default function PagoMultiplePage() {
         return "Pagos múltiples";
       })();
 
-      const queueSaleOffline = (customMessage?: string) => {
+      const queueSaleOffline = async (customMessage?: string) => {
         const payloadForQueue = buildPayload();
-        addPendingSale({
-          endpoint,
-          payload: payloadForQueue,
-          scope: {
-            tenantId: tenant?.id ?? null,
-            userId: user?.id ?? null,
-            stationId: activeStationId,
-          },
-          summary: {
-            saleNumber: assignedSaleNumber,
-            total: totalToPay,
-            methodLabel: primaryMethodLabel,
-            createdAt: new Date().toISOString(),
-            customerName: selectedCustomer?.name ?? null,
-            vendorName: user?.name ?? null,
-            isSeparated: isSeparatedSale,
-          },
-        });
+        try {
+          await addPendingSale({
+            endpoint,
+            payload: payloadForQueue,
+            scope: {
+              tenantId: tenant?.id ?? null,
+              userId: user?.id ?? null,
+              stationId: activeStationId,
+            },
+            summary: {
+              saleNumber: assignedSaleNumber,
+              total: totalToPay,
+              methodLabel: primaryMethodLabel,
+              createdAt: new Date().toISOString(),
+              customerName: selectedCustomer?.name ?? null,
+              vendorName: saleSellerName,
+              isSeparated: isSeparatedSale,
+            },
+          });
+        } catch (err) {
+          console.error(err);
+          setErrorWithToast(
+            "No pudimos guardar la venta como pendiente en este equipo. No cierres la venta y revisa el espacio disponible del navegador."
+          );
+          return;
+        }
         clearSale();
         setSuccessSale(null);
         setMessage(null);
@@ -1079,7 +1232,7 @@ export default function PagoMultiplePage() {
       };
 
       if (!isOnline) {
-        queueSaleOffline();
+        await queueSaleOffline();
         return;
       }
 
@@ -1109,7 +1262,7 @@ export default function PagoMultiplePage() {
           browserOffline ||
           err instanceof TypeError
         ) {
-          queueSaleOffline(
+          await queueSaleOffline(
             browserOffline
               ? undefined
               : "No se pudo conectar con el servidor. Guardamos la venta como pendiente para enviarla al restablecer la conexión."
@@ -1162,7 +1315,7 @@ export default function PagoMultiplePage() {
               browserOffline ||
               err instanceof TypeError
             ) {
-              queueSaleOffline(
+              await queueSaleOffline(
                 browserOffline
                   ? "Renovamos la reserva, pero perdimos internet. Guardamos la venta como pendiente."
                   : "Renovamos la reserva, pero no hubo conexión con el servidor. Guardamos la venta como pendiente."
@@ -1222,7 +1375,7 @@ export default function PagoMultiplePage() {
               browserOffline ||
               err instanceof TypeError
             ) {
-              queueSaleOffline(
+              await queueSaleOffline(
                 browserOffline
                   ? "El consecutivo se actualizó pero perdimos internet. Guardamos la venta como pendiente."
                   : "El consecutivo se actualizó, pero no hubo conexión con el servidor. Guardamos la venta como pendiente."
@@ -1394,11 +1547,13 @@ export default function PagoMultiplePage() {
         responseItems,
         responseCartDiscountValue
       );
-      const saleItemsForTicket = ticketLineBreakdown.lines.map((line) => ({
+      const saleItemsForTicket = ticketLineBreakdown.lines.map((line, index) => ({
         name: line.name,
         quantity: line.quantity,
         unitPrice: line.unitPrice,
         total: line.displayTotal,
+        taxRate: line.taxRate ?? saleItemsPayload[index]?.tax_rate ?? null,
+        taxIncluded: line.taxIncluded ?? saleItemsPayload[index]?.tax_included ?? null,
       }));
       const paymentSummary =
         saleResponse?.payments && saleResponse.payments.length > 0
@@ -1417,6 +1572,22 @@ export default function PagoMultiplePage() {
         typeof saleResponse?.change_amount === "number"
           ? saleResponse.change_amount
           : changeAmountValue;
+      let ticketLoyalty: SaleTicketLoyalty | null = null;
+      if (loyaltySettings && selectedCustomer && !isSeparatedSale) {
+        const earned =
+          saleResponse?.loyalty_points_earned ??
+          computeEarnedPoints(normalizedPayments, loyaltySettings, {
+            changeAmount: ticketChangeAmount,
+          });
+        const redeemed = saleResponse?.loyalty_points_redeemed ?? redeemPoints;
+        ticketLoyalty = {
+          earned,
+          redeemed,
+          balance:
+            saleResponse?.loyalty_balance ??
+            Math.max(0, (loyaltyBalance ?? 0) - redeemed + earned),
+        };
+      }
 
       setSuccessSale({
         saleId,
@@ -1443,6 +1614,8 @@ export default function PagoMultiplePage() {
         notes: serverNotes ?? (combinedSaleNotes || undefined),
         items: saleItemsForTicket,
         payments: paymentSummary,
+        promotions: cartPromotions.applied.map(({ name, amount }) => ({ name, amount })),
+        loyalty: ticketLoyalty,
         changeAmount: ticketChangeAmount,
         showChange: shouldShowChange,
         customer: ticketCustomer,
@@ -1454,6 +1627,7 @@ export default function PagoMultiplePage() {
       }
 
       clearSale();
+      setStoreCredit(null);
       setMessage(
         `${isSeparatedSale ? "Separado" : "Venta"} registrada correctamente (ticket #${backendSaleNumber}).`
       );
@@ -1489,9 +1663,9 @@ export default function PagoMultiplePage() {
     );
   }
 
-  function buildSaleDocumentHtml(variant: "ticket" | "invoice" = "ticket") {
+  function buildSaleTicketOptions(): SaleTicketOptions | null {
     if (!successSale) return null;
-    const payload = {
+    return {
       documentNumber: successSale.documentNumber,
       saleNumber: successSale.saleNumber,
       date: new Date(),
@@ -1508,11 +1682,19 @@ export default function PagoMultiplePage() {
       changeAmount: successSale.changeAmount,
       notes: successSale.notes,
       posName: resolvedPosName,
-      vendorName: user?.name ?? undefined,
+      vendorName: saleSellerName ?? undefined,
       settings: posSettings,
       customer: buildSaleTicketCustomer(successSale.customer),
       separatedInfo: successSale.separatedInfo,
+      promotions: successSale.promotions,
+      loyalty: successSale.loyalty,
+      taxBreakdown: taxBreakdownFromItems(successSale.items, successSale.total),
     };
+  }
+
+  function buildSaleDocumentHtml(variant: "ticket" | "invoice" = "ticket") {
+    const payload = buildSaleTicketOptions();
+    if (!payload) return null;
     if (variant === "invoice") {
       return renderSaleInvoice(payload);
     }
@@ -1577,22 +1759,28 @@ export default function PagoMultiplePage() {
       setErrorWithToast("Selecciona la impresora en Configurar impresora.");
       return false;
     }
-    if (!qzClient) {
+    if (!qzAvailable) {
       setErrorWithToast("No detectamos QZ Tray. Ábrelo y autoriza este dominio.");
       return false;
     }
     try {
-      if (!qzClient.websocket.isActive()) {
-        await qzClient.websocket.connect();
+      const ticketOptions =
+        printerConfig.format === "escpos" ? buildSaleTicketOptions() : null;
+      if (ticketOptions) {
+        const logo = await loadTicketLogoRaster(posSettings, printerConfig.width);
+        await printQzRaw(
+          printerConfig.printerName,
+          renderSaleTicketEscPos(ticketOptions, { width: printerConfig.width, logo }),
+          "Ticket de venta"
+        );
+      } else {
+        await printQzHtml(
+          printerConfig.printerName,
+          html,
+          printerConfig.width,
+          "Ticket de venta"
+        );
       }
-      const sizeWidth = printerConfig.width === "58mm" ? 58 : 80;
-      const cfg = qzClient.configs.create(printerConfig.printerName, {
-        altPrinting: true,
-        units: "mm",
-        size: { width: sizeWidth },
-        margins: { top: 0, right: 0, bottom: 0, left: 0 },
-      });
-      await qzClient.print(cfg, [{ type: "html", format: "plain", data: html }]);
       setError(null);
       return true;
     } catch (err) {
@@ -1609,25 +1797,15 @@ export default function PagoMultiplePage() {
   const openDrawerWithQz = useCallback(async () => {
     if (printerConfig.mode !== "qz-tray") return false;
     if (!printerConfig.printerName.trim()) return false;
-    if (!qzClient) return false;
+    if (!qzAvailable) return false;
     try {
-      configureQzSecurity();
-      if (!qzClient.websocket.isActive()) {
-        await qzClient.websocket.connect();
-      }
-      const cfg = qzClient.configs.create(printerConfig.printerName, {
-        altPrinting: true,
-      });
-      const drawerPulse = "\x1B\x70\x00\x19\xFA";
-      await qzClient.print(cfg, [
-        { type: "raw", format: "command", data: drawerPulse },
-      ]);
+      await openQzCashDrawer(printerConfig.printerName);
       return true;
     } catch (err) {
       console.error("No se pudo abrir el cajon al confirmar el pago", err);
       return false;
     }
-  }, [configureQzSecurity, printerConfig.mode, printerConfig.printerName, qzClient]);
+  }, [openQzCashDrawer, printerConfig.mode, printerConfig.printerName, qzAvailable]);
 
   function handlePrintTicket() {
     const html = buildSaleDocumentHtml("ticket");
@@ -1804,6 +1982,13 @@ export default function PagoMultiplePage() {
           <span className="text-xs uppercase tracking-wide text-slate-400">
             {resolvedPosName}
           </span>
+          {printerConfig.mode === "qz-tray" && (
+            <QzTrayStatusBadge
+              status={qzStatus}
+              pendingJobs={qzPendingJobs}
+              lastError={qzLastError}
+            />
+          )}
         </div>
         <div className="shrink-0">
           <PaymentCustomerControl
@@ -1852,8 +2037,12 @@ export default function PagoMultiplePage() {
             ) : (
               cart.map((item: CartItem) => {
                 const gross = item.quantity * item.unitPrice;
-                const lineTotal = Math.max(0, gross - item.lineDiscountValue);
-                const hasDiscount = item.lineDiscountValue > 0;
+                const promotionDiscount = cartPromotions.lineDiscounts[item.id] ?? 0;
+                const lineTotal = Math.max(
+                  0,
+                  gross - item.lineDiscountValue - promotionDiscount
+                );
+                const hasDiscount = item.lineDiscountValue > 0 || promotionDiscount > 0;
                 const freeSaleReason = (item.freeSaleReason ?? "").trim();
 
                 return (
@@ -1877,11 +2066,17 @@ export default function PagoMultiplePage() {
                         <div className="font-semibold text-slate-100 text-base">
                           {formatMoney(lineTotal)}
                         </div>
-                        {hasDiscount && (
+                        {item.lineDiscountValue > 0 && (
                           <div className="text-xs text-emerald-400">
                             Descuento -{formatMoney(item.lineDiscountValue)}
                           </div>
                         )}
+                        {promotionDiscount > 0 && (
+                          <div className="text-xs text-emerald-300">
+                            {promotionNamesForLine(cartPromotions, item.id)} -
+                            {formatMoney(promotionDiscount)}
+                          </div>
+                        )}
                       </div>
                     </div>
                     {freeSaleReason && (
@@ -1898,22 +2093,31 @@ export default function PagoMultiplePage() {
             )}
           </div>
           <div className="h-40 shrink-0 overflow-y-auto border-t border-slate-700/70 px-4 py-2 text-sm flex flex-col justify-center gap-1 bg-[#081225]">
+            {(cartLineDiscountTotal > 0 || cartPromotions.total > 0) && (
+              <div className="flex items-center justify-between text-sm text-slate-300">
+                <span>Subtotal sin descuentos</span>
+                <span className="font-semibold text-slate-100">
+                  {formatMoney(cartGrossSubtotal)}
+                </span>
+              </div>
+            )}
             {cartLineDiscountTotal > 0 && (
-              <>
-                <div className="flex items-center justify-between text-sm text-slate-300">
-                  <span>Subtotal sin descuentos</span>
-                  <span className="font-semibold text-slate-100">
-                    {formatMoney(cartGrossSubtotal)}
-                  </span>
-                </div>
-                <div className="flex items-center justify-between text-sm text-emerald-400">
-                  <span>Descuento artículos</span>
-                  <span className="font-semibold">
-                    -{formatMoney(cartLineDiscountTotal)}
-                  </span>
-                </div>
-              </>
+              <div className="flex items-center justify-between text-sm text-emerald-400">
+                <span>Descuento artículos</span>
+                <span className="font-semibold">
+                  -{formatMoney(cartLineDiscountTotal)}
+                </span>
+              </div>
             )}
+            {cartPromotions.applied.map((promotion) => (
+              <div
+                key={promotion.ruleId}
+                className="flex items-center justify-between text-sm text-emerald-300"
+              >
+                <span>{promotion.name}</span>
+                <span className="font-semibold">-{formatMoney(promotion.amount)}</span>
+              </div>
+            ))}
             <div className="flex items-center justify-between text-sm text-slate-300">
               <span>Subtotal</span>
               <span className="font-semibold text-slate-100">
@@ -1942,6 +2146,12 @@ export default function PagoMultiplePage() {
                   : "0"}
               </span>
             </div>
+            {cartTaxBreakdown.tax > 0 && (
+              <div className="flex items-center justify-between text-xs text-slate-400">
+                <span>IVA incluido</span>
+                <span>{formatMoney(cartTaxBreakdown.tax)}</span>
+              </div>
+            )}
             <div className="flex items-center justify-between pt-1">
               <span className="text-base font-bold text-slate-200">
                 TOTAL
@@ -2003,6 +2213,54 @@ export default function PagoMultiplePage() {
                   </button>
                 );
               })}
+
+              {loyaltySettings && selectedCustomer && (
+                <button
+                  type="button"
+                  onClick={() => handleMethodClick(LOYALTY_PAYMENT_METHOD)}
+                  disabled={
+                    loyaltyRedeemable <= 0 &&
+                    !payments.some((p) => p.method === LOYALTY_PAYMENT_METHOD)
+                  }
+                  className={`w-full text-left px-4 py-3.5 rounded-xl text-base font-semibold border shadow-inner transition-colors disabled:opacity-50 ${
+                    currentLine?.method === LOYALTY_PAYMENT_METHOD
+                      ? "bg-emerald-500 text-slate-950 border-emerald-400 shadow-emerald-500/30"
+                      : "bg-slate-900/80 hover:bg-slate-800 border-amber-400/60 text-amber-100"
+                  }`}
+                >
+                  Puntos
+                  <span className="block text-xs font-normal opacity-80">
+                    {(loyaltyBalance ?? 0).toLocaleString("es-CO")} disponibles · hasta $
+                    {formatMoney(loyaltyRedeemable)}
+                  </span>
+                </button>
+              )}
+
+              {!hasCreditLike && (
+                <div className="rounded-xl border border-slate-700 bg-slate-900/60 p-3 space-y-2">
+                  <p className="text-xs uppercase tracking-wide text-slate-400">
+                    Saldo a favor / tarjeta de regalo
+                  </p>
+                  <StoreCreditRedeemControl
+                    token={token}
+                    remaining={Math.max(
+                      0,
+                      totalToPay -
+                        payments
+                          .filter((p) => p.method !== STORE_CREDIT_PAYMENT_METHOD)
+                          .reduce((sum, p) => sum + p.amount, 0)
+                    )}
+                    applied={
+                      payments.some((p) => p.method === STORE_CREDIT_PAYMENT_METHOD)
+                        ? storeCredit
+                        : null
+                    }
+                    onApply={handleApplyStoreCredit}
+                    onRemove={handleRemoveStoreCredit}
+                    disabled={isConfirmingSale}
+                  />
+                </div>
+              )}
             </div>
 
             {/* Área de pago */}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "../../providers/AuthProvider";
+import { getApiBase } from "@/lib/api/base";
+import {
+  fetchPosCustomerDisplayState,
+  getPosStationAccess,
+  getStoredPosMode,
+} from "@/lib/api/posStations";
+import { fetchPosSettings, type PosSettingsPayload } from "@/lib/api/settings";
+import {
+  fetchComercioWebHomeSliders,
+  type ComercioWebHomeSlider,
+} from "@/lib/api/comercioWebHomeSliders";
+import { buildScopedPosStorageKey } from "@/lib/pos/storageScope";
+import {
+  CUSTOMER_DISPLAY_CHANNEL_BASE,
+  CUSTOMER_DISPLAY_POLL_MS,
+  CUSTOMER_DISPLAY_THANKS_MS,
+  isCustomerDisplayMessage,
+  isNewerCustomerDisplayState,
+  type CustomerDisplayMessage,
+  type CustomerDisplayState,
+} from "@/lib/pos/customerDisplay";
+import { generateQrCodeSvg } from "@/lib/utils/barcode";
+
+const SLIDE_INTERVAL_MS = 8_000;
+const DEFAULT_WEB_URL = "https://kensarelectronic.com";
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString("es-CO", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+function resolveCatalogUrl(): string {
+  const configured = (process.env.NEXT_PUBLIC_KENSAR_WEB_URL || "")
+    .trim()
+    .replace(/\/+$/g, "");
+  return `${configured || DEFAULT_WEB_URL}/catalogo`;
+}
+
+export default function CustomerDisplayPage() {
+  const { token, tenant, user } = useAuth();
+  const [displayState, setDisplayState] = useState<CustomerDisplayState | null>(null);
+  const [thanksVisible, setThanksVisible] = useState(false);
+  const [sliders, setSliders] = useState<ComercioWebHomeSlider[]>([]);
+  const [slideIndex, setSlideIndex] = useState(0);
+  const [settings, setSettings] = useState<PosSettingsPayload | null>(null);
+  const stationId = useMemo(() => getPosStationAccess()?.id ?? null, []);
+  const channelName = useMemo(
+    () =>
+      buildScopedPosStorageKey(CUSTOMER_DISPLAY_CHANNEL_BASE, {
+        tenantId: tenant?.id ?? null,
+        userId: user?.id ?? null,
+        stationId,
+      }),
+    [stationId, tenant?.id, user?.id]
+  );
+  const latestUpdatedAtRef = useRef<string | null>(null);
+
+  const showState = useCallback((next: CustomerDisplayState) => {
+    if (!isNewerCustomerDisplayState(latestUpdatedAtRef.current, next)) return;
+    latestUpdatedAtRef.current = next.updatedAt;
+    setDisplayState(next);
+    setThanksVisible(Boolean(next.completed) && next.lines.length === 0);
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    if (!("BroadcastChannel" in window)) return;
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (event) => {
+      if (!isCustomerDisplayMessage(event.data)) return;
+      if (event.data.type !== "state") return;
+      showState(event.data.state);
+    };
+    channel.postMessage({ type: "request-state" } satisfies CustomerDisplayMessage);
+    return () => channel.close();
+  }, [channelName, showState]);
+
+  // En una tableta emparejada el canal local no recibe nada: el estado del
+  // POS llega por el backend.
+  useEffect(() => {
+    if (!token || !stationId || getStoredPosMode() !== "station") return;
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const next = await fetchPosCustomerDisplayState(getApiBase(), token, stationId);
+        if (!cancelled && next) showState(next);
+      } catch (err) {
+        console.warn("No se pudo consultar la pantalla del cliente", err);
+      }
+    };
+    void poll();
+    const timer = window.setInterval(() => void poll(), CUSTOMER_DISPLAY_POLL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [showState, stationId, token]);
+
+  useEffect(() => {
+    if (!thanksVisible) return;
+    const timer = window.setTimeout(
+      () => setThanksVisible(false),
+      CUSTOMER_DISPLAY_THANKS_MS
+    );
+    return () => window.clearTimeout(timer);
+  }, [thanksVisible, displayState?.updatedAt]);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    fetchComercioWebHomeSliders(token)
+      .then((rows) => {
+        if (cancelled) return;
+        setSliders(
+          rows
+            .filter((row) => row.enabled && row.image_url)
+            .sort((a, b) => a.sort_order - b.sort_order)
+        );
+      })
+      .catch((err) => console.warn("No se pudieron cargar las promociones", err));
+    fetchPosSettings(token)
+      .then((data) => {
+        if (!cancelled) setSettings(data);
+      })
+      .catch((err) => console.warn("No se pudieron cargar los datos del comercio", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const lines = displayState?.lines ?? [];
+  const idle = lines.length === 0 && !thanksVisible;
+
+  useEffect(() => {
+    if (!idle || sliders.length < 2) return;
+    const timer = window.setInterval(
+      () => setSlideIndex((prev) => (prev + 1) % sliders.length),
+      SLIDE_INTERVAL_MS
+    );
+    return () => window.clearInterval(timer);
+  }, [idle, sliders.length]);
+
+  const qrSrc = useMemo(
+    () =>
+      `data:image/svg+xml;utf8,${encodeURIComponent(
+        generateQrCodeSvg(resolveCatalogUrl(), { errorCorrection: "M", moduleSize: 6 })
+      )}`,
+    []
+  );
+  const companyName = settings?.company_name?.trim() || "Kensar Electronic";
+  const slide = sliders.length ? sliders[slideIndex % sliders.length] : null;
+
+  if (idle) {
+    return (
+      <main className="relative flex h-screen w-screen items-center justify-center overflow-hidden bg-slate-950 text-slate-100">
+        {slide?.image_url ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            key={slide.id}
+            src={slide.image_url}
+            alt={slide.alt_text ?? companyName}
+            className="h-full w-full object-cover"
+          />
+        ) : (
+          <div className="text-center">
+            <p className="text-5xl font-semibold">{companyName}</p>
+            <p className="mt-4 text-xl text-slate-400">¡Bienvenido!</p>
+          </div>
+        )}
+        <div className="absolute bottom-6 right-6 flex items-center gap-4 rounded-2xl bg-white/95 p-4 text-slate-900 shadow-2xl">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={qrSrc} alt="Catálogo web" className="h-28 w-28" />
+          <div className="max-w-[12rem] text-sm font-semibold leading-snug">
+            Escanea y mira todo nuestro catálogo
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (thanksVisible && displayState?.completed) {
+    const completed = displayState.completed;
+    return (
+      <main className="flex h-screen w-screen flex-col items-center justify-center gap-6 bg-slate-950 text-slate-100">
+        <p className="text-5xl font-semibold text-emerald-300">¡Gracias por tu compra!</p>
+        <div className="grid min-w-[24rem] gap-3 text-2xl">
+          <div className="flex justify-between gap-8">
+            <span className="text-slate-400">Total</span>
+            <span className="font-mono">{formatMoney(completed.total)}</span>
+          </div>
+          <div className="flex justify-between gap-8">
+            <span className="text-slate-400">Recibido</span>
+            <span className="font-mono">{formatMoney(completed.paid)}</span>
+          </div>
+          {completed.change > 0 && (
+            <div className="flex justify-between gap-8 text-4xl font-semibold text-emerald-200">
+              <span>Cambio</span>
+              <span className="font-mono">{formatMoney(completed.change)}</span>
+            </div>
+          )}
+        </div>
+      </main>
+    );
+  }
+
+  const state = displayState;
+  if (!state) return null;
+
+  return (
+    <main className="grid h-screen w-screen grid-cols-[1.5fr_1fr] bg-slate-950 text-slate-100">
+      <section className="flex min-h-0 flex-col border-r border-slate-800">
+        <header className="flex items-center justify-between border-b border-slate-800 px-8 py-5">
+          <div>
+            <p className="text-sm uppercase tracking-[0.2em] text-slate-500">{companyName}</p>
+            <p className="text-2xl font-semibold">Venta #{state.saleNumber}</p>
+          </div>
+          {state.customerName && (
+            <p className="text-lg text-slate-300">Cliente: {state.customerName}</p>
+          )}
+        </header>
+        <ul className="flex-1 divide-y divide-slate-800 overflow-y-auto">
+          {state.lines.map((line) => (
+            <li key={line.id} className="flex items-start justify-between gap-6 px-8 py-4">
+              <div className="min-w-0">
+                <p className="text-xl font-medium">{line.name}</p>
+                <p className="text-base text-slate-400">
+                  {line.quantity} x {formatMoney(line.unitPrice)}
+                  {line.discount > 0 && (
+                    <span className="ml-3 text-emerald-300">
+                      Ahorras {formatMoney(line.discount)}
+                    </span>
+                  )}
+                </p>
+              </div>
+              <p className="font-mono text-xl">{formatMoney(line.total)}</p>
+            </li>
+          ))}
+        </ul>
+      </section>
+      <aside className="flex flex-col justify-between gap-6 p-8">
+        <div className="space-y-3 text-xl">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Subtotal</span>
+            <span className="font-mono">{formatMoney(state.subtotal)}</span>
+          </div>
+          {state.discount > 0 && (
+            <div className="flex justify-between text-emerald-300">
+              <span>Descuentos</span>
+              <span className="font-mono">-{formatMoney(state.discount)}</span>
+            </div>
+          )}
+          {state.surcharge > 0 && (
+            <div className="flex justify-between">
+              <span className="text-slate-400">{state.surchargeLabel ?? "Recargo"}</span>
+              <span className="font-mono">{formatMoney(state.surcharge)}</span>
+            </div>
+          )}
+          <div className="flex justify-between border-t border-slate-700 pt-4 text-4xl font-semibold">
+            <span>Total</span>
+            <span className="font-mono">{formatMoney(state.total)}</span>
+          </div>
+          {state.payment && state.payment.paid > 0 && (
+            <>
+              <div className="flex justify-between pt-2">
+                <span className="text-slate-400">Recibido</span>
+                <span className="font-mono">{formatMoney(state.payment.paid)}</span>
+              </div>
+              <div className="flex justify-between text-3xl font-semibold text-emerald-200">
+                <span>Cambio</span>
+                <span className="font-mono">{formatMoney(state.payment.change)}</span>
+              </div>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-4 rounded-2xl bg-white p-4 text-slate-900">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={qrSrc} alt="Catálogo web" className="h-28 w-28" />
+          <p className="text-sm font-semibold leading-snug">
+            Escanea para ver el catálogo y comprar en línea
+          </p>
+        </div>
+      </aside>
+    </main>
+  );
+}
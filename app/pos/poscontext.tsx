@@ -12,8 +12,39 @@ import React, {
 } from "react";
 import { useAuth } from "../providers/AuthProvider";
 import { getApiBase } from "@/lib/api/base";
-import { getPosStationAccess } from "@/lib/api/posStations";
+import {
+  getPosStationAccess,
+  getStoredPosMode,
+  publishPosCustomerDisplayState,
+} from "@/lib/api/posStations";
+import { fetchPosStationScope } from "@/lib/api/posHandoffs";
+import { fetchPosSettings, type PosPromotionRule } from "@/lib/api/settings";
+import { fetchComercioWebCatalogCombos } from "@/lib/api/comercioWebCatalog";
 import { buildScopedPosStorageKey } from "@/lib/pos/storageScope";
+import {
+  bundleFromCombo,
+  evaluatePromotions,
+  type PromotionBundle,
+  type PromotionEvaluation,
+} from "@/lib/pos/promotions";
+import {
+  computeTaxBreakdown,
+  resolveTaxIncluded,
+  resolveTaxRateCode,
+  type TaxBreakdown,
+  type TaxRateCode,
+} from "@/lib/pos/taxes";
+import {
+  buildCustomerDisplayState,
+  CUSTOMER_DISPLAY_CHANNEL_BASE,
+  CUSTOMER_DISPLAY_RELAY_DEBOUNCE_MS,
+  hasPairedCustomerDisplay,
+  isCustomerDisplayMessage,
+  type CustomerDisplayMessage,
+  type CustomerDisplayPayment,
+  type CustomerDisplayState,
+} from "@/lib/pos/customerDisplay";
+import { ACTIVE_SELLER_STORAGE_KEY_BASE, type PosSeller } from "@/lib/pos/sellers";
 
 export const POS_DISPLAY_NAME = "POS 1 · KENSAR ELECTRONIC";
 
@@ -31,6 +62,7 @@ export type Product = {
   active: boolean;
   service: boolean;
   includes_tax: boolean;
+  tax_rate?: TaxRateCode | null;
   group_name: string | null;
   brand: string | null;
   supplier: string | null;
@@ -58,6 +90,9 @@ export type CartItem = {
   lineDiscountIsPercent: boolean;
   lineDiscountPercent: number;
   freeSaleReason?: string | null;
+  /** Vendedor que agregó la línea cuando se atribuye por línea. */
+  sellerId?: number | null;
+  sellerName?: string | null;
 };
 
 export type PosCustomer = {
@@ -67,6 +102,8 @@ export type PosCustomer = {
   email?: string | null;
   taxId?: string | null;
   address?: string | null;
+  /** Saldo de puntos al momento de seleccionarlo; en caja se vuelve a consultar. */
+  loyaltyPoints?: number | null;
 };
 
 type PosContextValue = {
@@ -86,9 +123,12 @@ type PosContextValue = {
 
   cartGrossSubtotal: number;
   cartLineDiscountTotal: number;
+  /** Promociones automáticas aplicadas al carrito y su descuento por línea. */
+  cartPromotions: PromotionEvaluation;
   cartSubtotal: number;
   cartTotalBeforeSurcharge: number;
   cartTotal: number;
+  cartTaxBreakdown: TaxBreakdown;
   cartDiscountValue: number;
   cartDiscountPercent: number;
   setCartDiscountValue: React.Dispatch<React.SetStateAction<number>>;
@@ -96,6 +136,15 @@ type PosContextValue = {
   cartSurcharge: SurchargeState;
   setCartSurcharge: React.Dispatch<React.SetStateAction<SurchargeState>>;
 
+  /** Lo que el cliente entrega y su cambio, para la pantalla del cliente. */
+  setCustomerDisplayPayment: React.Dispatch<
+    React.SetStateAction<CustomerDisplayPayment | null>
+  >;
+
+  /** Vendedor identificado por PIN en la estación; `null` = el usuario logueado. */
+  activeSeller: PosSeller | null;
+  setActiveSeller: (seller: PosSeller | null) => void;
+
   saleNumber: number;
   clearSale: () => void;
   setSaleNumber: (value: number) => void;
@@ -156,6 +205,15 @@ export function PosProvider({ children }: { children: ReactNode }) {
     enabled: false,
     isManual: false,
   });
+  const [promotionRules, setPromotionRules] = useState<PosPromotionRule[]>([]);
+  const [promotionBundles, setPromotionBundles] = useState<PromotionBundle[]>([]);
+  const [promotionClock, setPromotionClock] = useState(() => Date.now());
+  const [pricesIncludeTax, setPricesIncludeTax] = useState<boolean | null>(null);
+  const [customerDisplayPayment, setCustomerDisplayPayment] =
+    useState<CustomerDisplayPayment | null>(null);
+  const [customerDisplayCompleted, setCustomerDisplayCompleted] =
+    useState<CustomerDisplayState["completed"]>(null);
+  const [activeSeller, setActiveSellerState] = useState<PosSeller | null>(null);
   const sessionHydratedRef = useRef(false);
   const { token, tenant, user } = useAuth();
   const saleNumberChannelRef = useRef<BroadcastChannel | null>(null);
@@ -180,6 +238,47 @@ export function PosProvider({ children }: { children: ReactNode }) {
     () => buildScopedPosStorageKey(SALE_NUMBER_CHANNEL_BASE, storageScope),
     [storageScope]
   );
+  const customerDisplayChannelName = useMemo(
+    () => buildScopedPosStorageKey(CUSTOMER_DISPLAY_CHANNEL_BASE, storageScope),
+    [storageScope]
+  );
+  const activeSellerStorageKey = useMemo(
+    () => buildScopedPosStorageKey(ACTIVE_SELLER_STORAGE_KEY_BASE, storageScope),
+    [storageScope]
+  );
+
+  // El vendedor activo dura lo que la pestaña: al cerrar vuelve el usuario logueado.
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      const raw = window.sessionStorage.getItem(activeSellerStorageKey);
+      const parsed = raw ? (JSON.parse(raw) as PosSeller) : null;
+      setActiveSellerState(
+        parsed && typeof parsed.id === "number" && typeof parsed.name === "string"
+          ? parsed
+          : null
+      );
+    } catch (err) {
+      console.warn("No se pudo restaurar el vendedor activo", err);
+    }
+  }, [activeSellerStorageKey]);
+
+  const setActiveSeller = useCallback(
+    (seller: PosSeller | null) => {
+      setActiveSellerState(seller);
+      if (typeof window === "undefined") return;
+      try {
+        if (seller) {
+          window.sessionStorage.setItem(activeSellerStorageKey, JSON.stringify(seller));
+        } else {
+          window.sessionStorage.removeItem(activeSellerStorageKey);
+        }
+      } catch (err) {
+        console.warn("No se pudo guardar el vendedor activo", err);
+      }
+    },
+    [activeSellerStorageKey]
+  );
 
   const persistSaleNumber = useCallback((value: number) => {
     if (typeof window === "undefined") return;
@@ -392,10 +491,66 @@ export function PosProvider({ children }: { children: ReactNode }) {
   ]);
 
   // ---- Cálculos de totales ----
-  function calcLineTotal(item: CartItem): number {
-    const gross = item.quantity * item.unitPrice;
-    return Math.max(0, gross - item.lineDiscountValue);
-  }
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const settings = await fetchPosSettings(token);
+        const rules = (settings.promotions ?? []).filter((rule) => rule.active);
+        const combos = rules.some((rule) => rule.kind === "bundle")
+          ? await fetchComercioWebCatalogCombos(token, { active_only: true })
+          : [];
+        if (cancelled) return;
+        setPricesIncludeTax(settings.electronic_invoice?.prices_include_tax ?? null);
+        setPromotionRules(rules);
+        setPromotionBundles(
+          combos
+            .map(bundleFromCombo)
+            .filter((bundle): bundle is PromotionBundle => Boolean(bundle))
+        );
+      } catch (err) {
+        console.warn("No se pudieron cargar las promociones del POS", err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // Las promociones por franja horaria se reevalúan cada minuto.
+  useEffect(() => {
+    if (!promotionRules.some((rule) => rule.schedule)) return;
+    const timer = window.setInterval(() => setPromotionClock(Date.now()), 60_000);
+    return () => window.clearInterval(timer);
+  }, [promotionRules]);
+
+  const cartPromotions = useMemo(
+    () =>
+      evaluatePromotions(
+        cart.map((item) => ({
+          id: item.id,
+          productId: item.product.id,
+          groupName: item.product.group_name,
+          brand: item.product.brand,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          locked: item.lineDiscountValue > 0 || Boolean(item.freeSaleReason),
+        })),
+        promotionRules,
+        { now: new Date(promotionClock), bundles: promotionBundles }
+      ),
+    [cart, promotionBundles, promotionClock, promotionRules]
+  );
+
+  const calcLineTotal = useCallback(
+    (item: CartItem): number => {
+      const gross = item.quantity * item.unitPrice;
+      const promotion = cartPromotions.lineDiscounts[item.id] ?? 0;
+      return Math.max(0, gross - item.lineDiscountValue - promotion);
+    },
+    [cartPromotions]
+  );
 
   const cartGrossSubtotal = useMemo(
     () => cart.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0),
@@ -409,7 +564,7 @@ export function PosProvider({ children }: { children: ReactNode }) {
 
   const cartSubtotal = useMemo(
     () => cart.reduce((sum, item) => sum + calcLineTotal(item), 0),
-    [cart]
+    [calcLineTotal, cart]
   );
 
   const discountFromPercent = useMemo(
@@ -432,8 +587,123 @@ export function PosProvider({ children }: { children: ReactNode }) {
     [cartTotalBeforeSurcharge, cartSurcharge]
   );
 
+  const cartTaxBreakdown = useMemo(
+    () =>
+      computeTaxBreakdown(
+        cart.map((item) => ({
+          total: calcLineTotal(item),
+          taxRate: resolveTaxRateCode(item.product),
+          taxIncluded: resolveTaxIncluded(item.product, pricesIncludeTax),
+        })),
+        { documentTotal: cartTotal }
+      ),
+    [calcLineTotal, cart, cartTotal, pricesIncludeTax]
+  );
+
+  // Pantalla del cliente: se publica el estado calculado en cada cambio y se
+  // responde cuando una pantalla recién abierta lo pide.
+  const customerDisplayState = useMemo(
+    () =>
+      buildCustomerDisplayState({
+        saleNumber,
+        customerName: selectedCustomer?.name ?? null,
+        cart,
+        promotionDiscounts: cartPromotions.lineDiscounts,
+        cartDiscountValue,
+        cartDiscountPercent,
+        surcharge: cartSurcharge,
+        total: cartTotal,
+        payment: customerDisplayPayment,
+        completed: cart.length ? null : customerDisplayCompleted,
+      }),
+    [
+      cart,
+      cartDiscountPercent,
+      cartDiscountValue,
+      cartPromotions,
+      cartSurcharge,
+      cartTotal,
+      customerDisplayCompleted,
+      customerDisplayPayment,
+      saleNumber,
+      selectedCustomer?.name,
+    ]
+  );
+  const customerDisplayChannelRef = useRef<BroadcastChannel | null>(null);
+  const customerDisplayStateRef = useRef(customerDisplayState);
+
+  useEffect(() => {
+    customerDisplayStateRef.current = customerDisplayState;
+    customerDisplayChannelRef.current?.postMessage({
+      type: "state",
+      state: customerDisplayState,
+    } satisfies CustomerDisplayMessage);
+  }, [customerDisplayState]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    if (!("BroadcastChannel" in window)) return;
+    const channel = new BroadcastChannel(customerDisplayChannelName);
+    customerDisplayChannelRef.current = channel;
+    channel.onmessage = (event) => {
+      if (!isCustomerDisplayMessage(event.data)) return;
+      if (event.data.type !== "request-state") return;
+      channel.postMessage({
+        type: "state",
+        state: customerDisplayStateRef.current,
+      } satisfies CustomerDisplayMessage);
+    };
+    return () => {
+      channel.close();
+      customerDisplayChannelRef.current = null;
+    };
+  }, [customerDisplayChannelName]);
+
+  // La tableta emparejada a la estación no comparte navegador con el POS: le
+  // llega el mismo estado por el backend. Sin tableta basta el canal local.
+  const [customerDisplayRelayStationId, setCustomerDisplayRelayStationId] = useState<
+    string | null
+  >(null);
+
+  useEffect(() => {
+    setCustomerDisplayRelayStationId(null);
+    if (!token || !stationId || getStoredPosMode() !== "station") return;
+    let cancelled = false;
+    fetchPosStationScope(stationId, token)
+      .then((scope) => {
+        if (cancelled || !hasPairedCustomerDisplay(scope, stationId)) return;
+        setCustomerDisplayRelayStationId(stationId);
+      })
+      .catch((err) => console.warn("No se pudo consultar la tableta de la estación", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [stationId, token]);
+
+  useEffect(() => {
+    if (!token || !customerDisplayRelayStationId) return;
+    const timer = window.setTimeout(() => {
+      if (typeof navigator !== "undefined" && !navigator.onLine) return;
+      publishPosCustomerDisplayState(
+        getApiBase(),
+        token,
+        customerDisplayRelayStationId,
+        customerDisplayState
+      ).catch((err) => console.warn("No se pudo publicar la pantalla del cliente", err));
+    }, CUSTOMER_DISPLAY_RELAY_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [customerDisplayRelayStationId, customerDisplayState, token]);
+
   // 3) clearSale: limpiar venta y pasar al siguiente número
   function clearSale() {
+    if (customerDisplayPayment) {
+      setCustomerDisplayCompleted({
+        total: cartTotal,
+        paid: customerDisplayPayment.paid,
+        change: customerDisplayPayment.change,
+      });
+    }
+    setCustomerDisplayPayment(null);
     setCart([]);
     setCartDiscountPercent(0);
     setCartDiscountValue(0);
@@ -468,15 +738,20 @@ export function PosProvider({ children }: { children: ReactNode }) {
     saleAttemptId,
     cartGrossSubtotal,
     cartLineDiscountTotal,
+    cartPromotions,
     cartSubtotal,
     cartTotalBeforeSurcharge,
     cartTotal,
+    cartTaxBreakdown,
     cartDiscountValue,
     cartDiscountPercent,
     setCartDiscountValue,
     setCartDiscountPercent,
     cartSurcharge,
     setCartSurcharge,
+    setCustomerDisplayPayment,
+    activeSeller,
+    setActiveSeller,
     saleNumber,
     clearSale,
     setSaleNumber,
@@ -0,0 +1,560 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useAuth } from "../../providers/AuthProvider";
+import { renderStoreCreditTicket } from "@/lib/printing/saleTicket";
+import {
+  loadTicketLogoRaster,
+  renderStoreCreditTicketEscPos,
+} from "@/lib/printing/escPosTickets";
+import { fetchPosSettings, PosSettingsPayload } from "@/lib/api/settings";
+import {
+  DEFAULT_PAYMENT_METHODS,
+  fetchPaymentMethods,
+  type PaymentMethodRecord,
+} from "@/lib/api/paymentMethods";
+import { getApiBase } from "@/lib/api/base";
+import {
+  fetchStoreCreditByCode,
+  issueGiftCard,
+  type StoreCredit,
+  type StoreCreditMovementKind,
+} from "@/lib/api/storeCredits";
+import {
+  buildStoreCreditTicketOptions,
+  normalizeStoreCreditCode,
+  resolveStoreCreditStatus,
+  STORE_CREDIT_KIND_LABELS,
+  STORE_CREDIT_STATUS_LABELS,
+} from "@/lib/pos/storeCredit";
+import {
+  ensureStoredPosMode,
+  fetchPosStationPrinterConfig,
+  formatPosDisplayName,
+  getPosStationAccess,
+  getWebPosStation,
+  subscribeToPosStationChanges,
+  type PosAccessMode,
+  type PosStationAccess,
+  type PosStationPrinterConfig,
+} from "@/lib/api/posStations";
+import { formatBogotaDate, getBogotaDateParts } from "@/lib/time/bogota";
+import { useQzTray } from "@/app/hooks/useQzTray";
+import { QzTrayStatusBadge } from "../components/QzTrayStatusBadge";
+
+const MOVEMENT_LABELS: Record<StoreCreditMovementKind, string> = {
+  issue: "Emisión",
+  redeem: "Uso en venta",
+  reversal: "Reverso",
+  expire: "Vencimiento",
+  void: "Anulación",
+};
+
+/** Vigencia sugerida para tarjetas de regalo nuevas. */
+const DEFAULT_GIFT_CARD_VALIDITY_MONTHS = 12;
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString("es-CO", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+function defaultExpiryDate(): string {
+  const { year, month, day } = getBogotaDateParts();
+  const date = new Date(
+    Date.UTC(Number(year), Number(month) - 1 + DEFAULT_GIFT_CARD_VALIDITY_MONTHS, Number(day))
+  );
+  return date.toISOString().slice(0, 10);
+}
+
+export default function SaldosPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const backTarget = searchParams.get("back");
+  const resolvedBackPath = backTarget ? decodeURIComponent(backTarget) : "/pos";
+  const resolvedBackLabel = backTarget ? "Volver" : "Volver al POS";
+
+  const { token } = useAuth();
+  const apiBase = useMemo(() => getApiBase(), []);
+
+  const [lookupCode, setLookupCode] = useState("");
+  const [lookupLoading, setLookupLoading] = useState(false);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [credit, setCredit] = useState<StoreCredit | null>(null);
+  const lookupInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [issueAmount, setIssueAmount] = useState("");
+  const [issueMethod, setIssueMethod] = useState("cash");
+  const [issueExpiry, setIssueExpiry] = useState(defaultExpiryDate);
+  const [issueNotes, setIssueNotes] = useState("");
+  const [issuing, setIssuing] = useState(false);
+  const [issueError, setIssueError] = useState<string | null>(null);
+
+  const [paymentCatalog, setPaymentCatalog] = useState<PaymentMethodRecord[]>(
+    DEFAULT_PAYMENT_METHODS
+  );
+  const [posSettings, setPosSettings] = useState<PosSettingsPayload | null>(null);
+  const [stationInfo, setStationInfo] = useState<PosStationAccess | null>(null);
+  const [posMode, setPosMode] = useState<PosAccessMode | null>(null);
+  const [printerConfig, setPrinterConfig] = useState<PosStationPrinterConfig>({
+    mode: "qz-tray",
+    printerName: "",
+    width: "80mm",
+    autoOpenDrawer: false,
+    showDrawerButton: true,
+  });
+
+  // Las tarjetas de regalo se pagan con métodos de contado; crédito y
+  // separado no aplican.
+  const issueMethods = useMemo(
+    () =>
+      [...paymentCatalog]
+        .filter((m) => m.is_active && m.slug !== "credito" && m.slug !== "separado")
+        .sort((a, b) => a.order_index - b.order_index || a.name.localeCompare(b.name)),
+    [paymentCatalog]
+  );
+
+  useEffect(() => {
+    if (!token) return;
+    let active = true;
+    fetchPaymentMethods(token)
+      .then((data) => {
+        if (active && data.length) setPaymentCatalog(data);
+      })
+      .catch((err) => console.warn("No se pudieron cargar los métodos de pago", err));
+    fetchPosSettings(token)
+      .then((settings) => {
+        if (active) setPosSettings(settings);
+      })
+      .catch((err) => console.warn("No se pudieron cargar ajustes del POS", err));
+    return () => {
+      active = false;
+    };
+  }, [token]);
+
+  useEffect(() => {
+    if (!issueMethods.length) return;
+    if (!issueMethods.some((m) => m.slug === issueMethod)) {
+      setIssueMethod(issueMethods[0].slug);
+    }
+  }, [issueMethod, issueMethods]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    setPosMode(ensureStoredPosMode());
+  }, []);
+
+  useEffect(() => {
+    if (!posMode) return;
+    if (posMode === "web") {
+      setStationInfo(getWebPosStation());
+      return;
+    }
+    const syncStation = () => setStationInfo(getPosStationAccess());
+    syncStation();
+    return subscribeToPosStationChanges(syncStation);
+  }, [posMode]);
+
+  const isStationMode = posMode === "station";
+  const activeStationId = isStationMode ? stationInfo?.id ?? null : null;
+  const resolvedPosName = useMemo(
+    () => formatPosDisplayName(stationInfo, "POS"),
+    [stationInfo]
+  );
+  const printerStorageKey = useMemo(
+    () => `kensar_pos_printer_${activeStationId ?? "pos-web"}`,
+    [activeStationId]
+  );
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      const raw =
+        window.localStorage.getItem(printerStorageKey) ??
+        window.localStorage.getItem("kensar_pos_printer_pos-web");
+      if (raw) setPrinterConfig((prev) => ({ ...prev, ...JSON.parse(raw) }));
+    } catch (err) {
+      console.warn("No se pudo cargar la configuración de impresora", err);
+    }
+  }, [printerStorageKey]);
+
+  useEffect(() => {
+    if (!token || !isStationMode || !activeStationId) return;
+    let cancelled = false;
+    fetchPosStationPrinterConfig(apiBase, token, activeStationId)
+      .then((remote) => {
+        if (remote && !cancelled) setPrinterConfig((prev) => ({ ...prev, ...remote }));
+      })
+      .catch((err) => console.warn("No se pudo cargar la impresora guardada", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [token, apiBase, activeStationId, isStationMode]);
+
+  const {
+    status: qzStatus,
+    isAvailable: qzAvailable,
+    pendingJobs: qzPendingJobs,
+    lastError: qzLastError,
+    printHtml: printQzHtml,
+    printRaw: printQzRaw,
+  } = useQzTray(token);
+
+  const handlePrint = useCallback(
+    async (target: StoreCredit) => {
+      const ticketOptions = buildStoreCreditTicketOptions(target, posSettings);
+      const html = renderStoreCreditTicket(ticketOptions);
+      const title = STORE_CREDIT_KIND_LABELS[target.kind];
+
+      if (printerConfig.mode === "qz-tray" && printerConfig.printerName.trim() && qzAvailable) {
+        try {
+          if (printerConfig.format === "escpos") {
+            const logo = await loadTicketLogoRaster(posSettings, printerConfig.width);
+            await printQzRaw(
+              printerConfig.printerName,
+              renderStoreCreditTicketEscPos(ticketOptions, { width: printerConfig.width, logo }),
+              title
+            );
+          } else {
+            await printQzHtml(printerConfig.printerName, html, printerConfig.width, title);
+          }
+          return;
+        } catch (err) {
+          console.error("No se pudo imprimir el saldo con QZ Tray", err);
+        }
+      }
+
+      const win = window.open("", "_blank", "width=380,height=640");
+      if (!win) return;
+      win.document.write(html);
+      win.document.close();
+      const triggerPrint = () => {
+        try {
+          win.focus();
+          win.print();
+        } catch (err) {
+          console.error("No se pudo imprimir el saldo", err);
+        } finally {
+          win.close();
+        }
+      };
+      if (win.document.readyState === "complete") {
+        triggerPrint();
+      } else {
+        win.onload = triggerPrint;
+      }
+    },
+    [posSettings, printerConfig, printQzHtml, printQzRaw, qzAvailable]
+  );
+
+  async function handleLookup(e?: React.FormEvent) {
+    e?.preventDefault();
+    const code = normalizeStoreCreditCode(lookupCode);
+    if (!code) {
+      setLookupError("Escanea o digita el código.");
+      return;
+    }
+    if (!token) return;
+    try {
+      setLookupLoading(true);
+      setLookupError(null);
+      setCredit(await fetchStoreCreditByCode(code, token));
+    } catch (err) {
+      setCredit(null);
+      const status = (err as { status?: number }).status;
+      setLookupError(
+        status === 404
+          ? "No encontramos un saldo a favor con ese código."
+          : err instanceof Error
+          ? err.message
+          : "No se pudo consultar el saldo."
+      );
+    } finally {
+      setLookupLoading(false);
+      lookupInputRef.current?.select();
+    }
+  }
+
+  async function handleIssue(e: React.FormEvent) {
+    e.preventDefault();
+    const amount = Number(issueAmount.replace(/[^\d]/g, ""));
+    if (!amount || amount <= 0) {
+      setIssueError("Indica el valor de la tarjeta.");
+      return;
+    }
+    if (!token) return;
+    try {
+      setIssuing(true);
+      setIssueError(null);
+      const issued = await issueGiftCard(
+        {
+          amount,
+          payment_method: issueMethod,
+          expires_at: issueExpiry || null,
+          notes: issueNotes.trim() || null,
+          pos_name: resolvedPosName,
+          station_id: activeStationId,
+        },
+        token
+      );
+      setCredit(issued);
+      setIssueAmount("");
+      setIssueNotes("");
+      setIssueExpiry(defaultExpiryDate());
+      void handlePrint(issued);
+    } catch (err) {
+      console.error(err);
+      setIssueError(err instanceof Error ? err.message : "No se pudo emitir la tarjeta.");
+    } finally {
+      setIssuing(false);
+    }
+  }
+
+  const creditStatus = credit ? resolveStoreCreditStatus(credit) : null;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-slate-950 via-slate-900 to-slate-950 text-slate-100 px-6 py-6">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-emerald-300">
+              Saldos a favor
+            </p>
+            <h1 className="text-2xl font-semibold text-white">
+              Tarjetas de regalo y notas crédito
+            </h1>
+            <p className="text-sm text-slate-400">
+              Consulta saldos, vende tarjetas de regalo y reimprime su código.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            {printerConfig.mode === "qz-tray" && (
+              <QzTrayStatusBadge
+                status={qzStatus}
+                pendingJobs={qzPendingJobs}
+                lastError={qzLastError}
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => router.push(resolvedBackPath)}
+              className="h-12 px-4 rounded-xl border border-slate-700 bg-slate-900/70 text-slate-100 hover:bg-slate-800"
+            >
+              {resolvedBackLabel}
+            </button>
+          </div>
+        </header>
+
+        <div className="grid gap-6 xl:grid-cols-[420px_minmax(0,1fr)]">
+          <div className="space-y-6">
+            <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-4">
+              <h2 className="text-lg font-semibold text-slate-100">Consultar saldo</h2>
+              <form onSubmit={handleLookup} className="flex gap-2">
+                <input
+                  ref={lookupInputRef}
+                  autoFocus
+                  value={lookupCode}
+                  onChange={(e) => setLookupCode(e.target.value)}
+                  inputMode="numeric"
+                  placeholder="Código de barras"
+                  className="h-12 flex-1 rounded-xl border border-slate-700 bg-slate-950 px-4 text-base text-slate-50 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+                <button
+                  type="submit"
+                  disabled={lookupLoading}
+                  className="h-12 rounded-xl bg-emerald-500 px-5 text-base font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
+                >
+                  {lookupLoading ? "Buscando..." : "Consultar"}
+                </button>
+              </form>
+              {lookupError && <p className="text-sm text-rose-300">{lookupError}</p>}
+            </section>
+
+            <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5 space-y-4">
+              <h2 className="text-lg font-semibold text-slate-100">Vender tarjeta de regalo</h2>
+              <form onSubmit={handleIssue} className="space-y-3 text-sm">
+                <div>
+                  <label className="text-slate-400 block">Valor</label>
+                  <input
+                    value={issueAmount}
+                    onChange={(e) => setIssueAmount(e.target.value.replace(/[^\d]/g, ""))}
+                    inputMode="numeric"
+                    placeholder="50000"
+                    className="mt-1 h-12 w-full rounded-xl border border-slate-700 bg-slate-950 px-4 text-base text-slate-50 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-slate-400 block">Método de pago</label>
+                    <select
+                      value={issueMethod}
+                      onChange={(e) => setIssueMethod(e.target.value)}
+                      className="mt-1 h-12 w-full rounded-xl border border-slate-700 bg-slate-950 px-3 text-base text-slate-50 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    >
+                      {issueMethods.map((method) => (
+                        <option key={method.id} value={method.slug}>
+                          {method.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-slate-400 block">Vence</label>
+                    <input
+                      type="date"
+                      value={issueExpiry}
+                      onChange={(e) => setIssueExpiry(e.target.value)}
+                      className="mt-1 h-12 w-full rounded-xl border border-slate-700 bg-slate-950 px-3 text-base text-slate-50 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="text-slate-400 block">Notas (opcional)</label>
+                  <input
+                    value={issueNotes}
+                    onChange={(e) => setIssueNotes(e.target.value)}
+                    placeholder="Ej: Regalo de cumpleaños"
+                    className="mt-1 h-12 w-full rounded-xl border border-slate-700 bg-slate-950 px-4 text-base text-slate-50 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  />
+                </div>
+                {issueError && <p className="text-sm text-rose-300">{issueError}</p>}
+                <button
+                  type="submit"
+                  disabled={issuing || !issueMethods.length}
+                  className="h-12 w-full rounded-xl bg-emerald-500 text-base font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
+                >
+                  {issuing ? "Emitiendo..." : "Cobrar e imprimir tarjeta"}
+                </button>
+              </form>
+            </section>
+          </div>
+
+          <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-5">
+            {!credit ? (
+              <div className="flex h-full min-h-[16rem] items-center justify-center text-sm text-slate-500">
+                Consulta un código o emite una tarjeta para ver su detalle.
+              </div>
+            ) : (
+              <div className="space-y-5">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <p className="text-xs uppercase tracking-widest text-slate-400">
+                      {STORE_CREDIT_KIND_LABELS[credit.kind]}
+                    </p>
+                    <p className="font-mono text-2xl text-white">{credit.code}</p>
+                    <p className="text-sm text-slate-400">
+                      {[credit.customer_name, credit.source_document_number]
+                        .filter(Boolean)
+                        .join(" · ") || "Sin cliente asociado"}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-3xl font-semibold text-emerald-200">
+                      {formatMoney(credit.balance)}
+                    </p>
+                    <p className="text-xs text-slate-400">
+                      de {formatMoney(credit.initial_amount)} emitidos
+                    </p>
+                    {creditStatus && (
+                      <span
+                        className={`mt-1 inline-block rounded-full border px-3 py-0.5 text-xs font-semibold ${
+                          creditStatus === "active"
+                            ? "border-emerald-400/50 text-emerald-200"
+                            : "border-rose-400/50 text-rose-200"
+                        }`}
+                      >
+                        {STORE_CREDIT_STATUS_LABELS[creditStatus]}
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid gap-3 text-sm sm:grid-cols-3">
+                  <div className="rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3">
+                    <p className="text-xs text-slate-500">Emitida</p>
+                    <p className="text-slate-100">
+                      {formatBogotaDate(credit.issued_at, { dateStyle: "medium" }) || "—"}
+                    </p>
+                  </div>
+                  <div className="rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3">
+                    <p className="text-xs text-slate-500">Vence</p>
+                    <p className="text-slate-100">
+                      {credit.expires_at
+                        ? formatBogotaDate(credit.expires_at, { dateStyle: "medium" })
+                        : "Sin vencimiento"}
+                    </p>
+                  </div>
+                  <div className="rounded-xl border border-slate-800 bg-slate-950/40 px-4 py-3">
+                    <p className="text-xs text-slate-500">POS</p>
+                    <p className="text-slate-100">{credit.pos_name || "—"}</p>
+                  </div>
+                </div>
+
+                <div className="max-h-[24rem] overflow-y-auto rounded-xl border border-slate-800">
+                  <table className="w-full text-left text-sm">
+                    <thead className="bg-slate-950/60 text-xs text-slate-400">
+                      <tr>
+                        <th className="px-4 py-2">Fecha</th>
+                        <th className="px-4 py-2">Movimiento</th>
+                        <th className="px-4 py-2">Documento</th>
+                        <th className="px-4 py-2 text-right">Valor</th>
+                        <th className="px-4 py-2 text-right">Saldo</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-800">
+                      {(credit.movements ?? []).length === 0 ? (
+                        <tr>
+                          <td colSpan={5} className="px-4 py-6 text-center text-slate-500">
+                            Sin movimientos registrados.
+                          </td>
+                        </tr>
+                      ) : (
+                        (credit.movements ?? []).map((movement) => (
+                          <tr key={movement.id}>
+                            <td className="px-4 py-2 text-slate-300">
+                              {formatBogotaDate(movement.created_at, {
+                                dateStyle: "short",
+                                timeStyle: "short",
+                              })}
+                            </td>
+                            <td className="px-4 py-2 text-slate-100">
+                              {MOVEMENT_LABELS[movement.kind] ?? movement.kind}
+                            </td>
+                            <td className="px-4 py-2 text-slate-300">
+                              {movement.document_number || movement.note || "—"}
+                            </td>
+                            <td
+                              className={`px-4 py-2 text-right font-semibold ${
+                                movement.amount >= 0 ? "text-emerald-300" : "text-rose-300"
+                              }`}
+                            >
+                              {movement.amount < 0 ? "-" : "+"}
+                              {formatMoney(Math.abs(movement.amount))}
+                            </td>
+                            <td className="px-4 py-2 text-right text-slate-100">
+                              {formatMoney(movement.balance_after)}
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => void handlePrint(credit)}
+                  className="h-12 rounded-xl border border-emerald-400/60 px-5 text-base font-semibold text-emerald-200 hover:bg-emerald-500/10"
+                >
+                  Reimprimir código
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </main>
+  );
+}
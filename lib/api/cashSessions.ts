@@ -0,0 +1,118 @@
+"use client";
+
+import { getApiBase } from "@/lib/api/base";
+
+export type CashMovementKind = "paid_in" | "paid_out" | "safe_drop";
+
+export type CashMovement = {
+  id: number;
+  session_id: number;
+  kind: CashMovementKind;
+  /** Siempre positivo; el tipo define si entra o sale del cajón. */
+  amount: number;
+  reason: string;
+  created_at: string;
+  created_by_name?: string | null;
+};
+
+/** Conteo por denominación: clave de `COP_DENOMINATIONS` → cantidad. */
+export type DenominationCounts = Record<string, number>;
+
+export type CashSession = {
+  id: number;
+  station_id?: string | null;
+  pos_name?: string | null;
+  status: "open" | "closed";
+  opened_at: string;
+  opened_by_name?: string | null;
+  opening_float: number;
+  opening_denominations?: DenominationCounts | null;
+  /** Efectivo vendido en la sesión según el backend (ventas menos devoluciones). */
+  cash_sales_total?: number | null;
+  movements: CashMovement[];
+  closed_at?: string | null;
+  closure_id?: number | null;
+};
+
+export type CashSessionOpenInput = {
+  station_id?: string | null;
+  pos_name?: string | null;
+  opening_float: number;
+  opening_denominations?: DenominationCounts | null;
+  notes?: string | null;
+};
+
+export type CashMovementInput = {
+  kind: CashMovementKind;
+  amount: number;
+  reason: string;
+};
+
+function buildHeaders(token: string): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function parseError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail =
+    typeof body?.detail === "string" ? body.detail : `Error ${res.status}`;
+  const err = new Error(detail) as Error & { status?: number };
+  err.status = res.status;
+  return err;
+}
+
+/** Sesión abierta de la estación, o `null` si la caja no se ha abierto. */
+export async function fetchCurrentCashSession(
+  stationId: string | null,
+  token: string
+): Promise<CashSession | null> {
+  const params = new URLSearchParams();
+  if (stationId) params.set("station_id", stationId);
+  const query = params.toString();
+  const res = await fetch(
+    `${getApiBase()}/pos/cash-sessions/current${query ? `?${query}` : ""}`,
+    {
+      headers: buildHeaders(token),
+      credentials: "include",
+    }
+  );
+  if (res.status === 404) return null;
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
+
+export async function openCashSession(
+  payload: CashSessionOpenInput,
+  token: string
+): Promise<CashSession> {
+  const res = await fetch(`${getApiBase()}/pos/cash-sessions`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    credentials: "include",
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
+
+/** Registra una entrada, salida o consignación a caja fuerte y devuelve la sesión actualizada. */
+export async function createCashMovement(
+  sessionId: number,
+  payload: CashMovementInput,
+  token: string
+): Promise<CashSession> {
+  const res = await fetch(
+    `${getApiBase()}/pos/cash-sessions/${sessionId}/movements`,
+    {
+      method: "POST",
+      headers: buildHeaders(token),
+      credentials: "include",
+      body: JSON.stringify(payload),
+    }
+  );
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
@@ -11,7 +11,8 @@ export type ComercioWebOrderStatus =
   | "fulfilled"
   | "cancelled"
   | "payment_failed"
-  | "refunded";
+  | "refunded"
+  | "expired";
 
 export type ComercioWebPaymentStatus =
   | "pending"
@@ -27,17 +28,92 @@ export type ComercioWebFulfillmentStatus =
   | "fulfilled"
   | "cancelled";
 
+/** Estado del despacho, independiente del fulfillment interno de la orden. */
+export type ComercioWebDeliveryStatus =
+  | "pending"
+  | "packed"
+  | "shipped"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "failed"
+  | "returned";
+
+export type ComercioWebOrderShipment = {
+  carrier?: string | null;
+  tracking_number?: string | null;
+  tracking_url?: string | null;
+  shipping_zone_id?: number | null;
+  shipping_zone_name?: string | null;
+  delivery_status: ComercioWebDeliveryStatus;
+  shipped_at?: string | null;
+  delivered_at?: string | null;
+  updated_at?: string | null;
+};
+
+/**
+ * Reserva de stock de la orden: se compromete al aprobar el pago, se libera
+ * en `cancelled`/`payment_failed`/`refunded` y se consume al convertir a venta.
+ */
+export type ComercioWebStockReservationStatus =
+  | "none"
+  | "reserved"
+  | "released"
+  | "consumed";
+
 export type ComercioWebOrderItem = {
   id: number;
   product_id: number;
   product_name: string;
   product_slug: string;
   product_sku?: string | null;
+  product_barcode?: string | null;
   image_url?: string | null;
   quantity: number;
   unit_price: number;
   line_discount_value: number;
   line_total: number;
+  reserved_quantity?: number;
+  /** Unidades verificadas por escaneo en el alistamiento. */
+  picked_quantity?: number;
+};
+
+export type ComercioWebRefundStatus = "pending" | "approved" | "failed";
+
+export type ComercioWebPaymentRefundItem = {
+  order_item_id: number;
+  quantity: number;
+  amount: number;
+  restocked: boolean;
+};
+
+export type ComercioWebPaymentRefund = {
+  id: number;
+  payment_id: number;
+  amount: number;
+  reason: string;
+  status: ComercioWebRefundStatus;
+  provider_reference?: string | null;
+  includes_shipping: boolean;
+  items: ComercioWebPaymentRefundItem[];
+  /** Devolución (nota crédito) creada sobre la venta convertida, si la hay. */
+  sale_return_id?: number | null;
+  sale_return_document_number?: string | null;
+  error?: string | null;
+  created_at: string;
+  processed_at?: string | null;
+};
+
+export type ComercioWebRefundInput = {
+  amount: number;
+  reason: string;
+  include_shipping: boolean;
+  items: Array<{ order_item_id: number; quantity: number; restock: boolean }>;
+};
+
+export type ComercioWebRefundResult = {
+  order: ComercioWebOrder;
+  refund: ComercioWebPaymentRefund;
 };
 
 export type ComercioWebOrderPayment = {
@@ -52,6 +128,8 @@ export type ComercioWebOrderPayment = {
   failed_at?: string | null;
   cancelled_at?: string | null;
   created_at: string;
+  refunded_amount?: number;
+  refunds?: ComercioWebPaymentRefund[];
 };
 
 export type ComercioWebOrderStatusLog = {
@@ -95,6 +173,8 @@ export type ComercioWebOrder = {
   items: ComercioWebOrderItem[];
   payments: ComercioWebOrderPayment[];
   status_logs: ComercioWebOrderStatusLog[];
+  shipment?: ComercioWebOrderShipment | null;
+  stock_reservation_status?: ComercioWebStockReservationStatus;
 };
 
 function buildHeaders(token: string): HeadersInit {
@@ -119,6 +199,9 @@ export async function fetchComercioWebOrders(
     status?: string;
     payment_status?: string;
     search?: string;
+    /** Rango ISO sobre la fecha de creación de la orden. */
+    date_from?: string;
+    date_to?: string;
     limit?: number;
   }
 ): Promise<ComercioWebOrder[]> {
@@ -126,6 +209,8 @@ export async function fetchComercioWebOrders(
   if (params?.status) qs.set("status", params.status);
   if (params?.payment_status) qs.set("payment_status", params.payment_status);
   if (params?.search) qs.set("search", params.search);
+  if (params?.date_from) qs.set("date_from", params.date_from);
+  if (params?.date_to) qs.set("date_to", params.date_to);
   if (params?.limit) qs.set("limit", String(params.limit));
   const query = qs.toString();
   const res = await fetch(
@@ -154,6 +239,46 @@ export async function updateComercioWebOrderStatus(
   return (await res.json()) as ComercioWebOrder;
 }
 
+/** Guarda el avance del alistamiento; el backend exige que esté completo para pasar a `ready`. */
+export async function saveComercioWebOrderPicking(
+  token: string,
+  orderId: number,
+  input: { items: Array<{ item_id: number; picked_quantity: number }> }
+): Promise<ComercioWebOrder> {
+  const res = await fetch(`${getApiBase()}/comercio-web/orders/${orderId}/picking`, {
+    method: "PUT",
+    headers: buildHeaders(token),
+    body: JSON.stringify(input),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebOrder;
+}
+
+/**
+ * Reembolsa total o parcialmente un pago con su proveedor (Mercado Pago,
+ * Wompi). El backend deja el motivo en `status_logs`, reingresa al inventario
+ * las líneas marcadas y, si la orden ya es venta, crea la devolución enlazada.
+ */
+export async function refundComercioWebPayment(
+  token: string,
+  orderId: number,
+  paymentId: number,
+  input: ComercioWebRefundInput
+): Promise<ComercioWebRefundResult> {
+  const res = await fetch(
+    `${getApiBase()}/comercio-web/orders/${orderId}/payments/${paymentId}/refunds`,
+    {
+      method: "POST",
+      headers: buildHeaders(token),
+      body: JSON.stringify(input),
+      credentials: "include",
+    }
+  );
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebRefundResult;
+}
+
 export async function recordComercioWebPayment(
   token: string,
   orderId: number,
@@ -0,0 +1,157 @@
+"use client";
+
+import { getApiBase } from "@/lib/api/base";
+import type {
+  ComercioWebDeliveryStatus,
+  ComercioWebOrder,
+} from "@/lib/api/comercioWeb";
+
+export type ComercioWebShippingZone = {
+  id: number;
+  name: string;
+  /** Departamento completo; vacío si la zona solo lista ciudades. */
+  department?: string | null;
+  cities: string[];
+  rate: number;
+  /** Subtotal desde el que el envío es gratis; `null` sin envío gratis. */
+  free_from_amount?: number | null;
+  estimated_days?: string | null;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type ComercioWebShippingZoneInput = Omit<
+  ComercioWebShippingZone,
+  "id" | "created_at" | "updated_at"
+>;
+
+export type ComercioWebShipmentInput = {
+  carrier?: string | null;
+  tracking_number?: string | null;
+  tracking_url?: string | null;
+  shipping_zone_id?: number | null;
+};
+
+export type ComercioWebDeliveryNotificationResult = {
+  channel?: "email" | "whatsapp" | null;
+  sent: boolean;
+  error?: string | null;
+};
+
+export type ComercioWebDeliveryEventResult = {
+  order: ComercioWebOrder;
+  notification?: ComercioWebDeliveryNotificationResult | null;
+};
+
+function buildHeaders(token: string): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function parseError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail =
+    typeof body?.detail === "string" ? body.detail : `Error ${res.status}`;
+  const err = new Error(detail) as Error & { status?: number };
+  err.status = res.status;
+  return err;
+}
+
+export async function fetchComercioWebShippingZones(
+  token: string
+): Promise<ComercioWebShippingZone[]> {
+  const res = await fetch(`${getApiBase()}/comercio-web/shipping-zones`, {
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebShippingZone[];
+}
+
+export async function createComercioWebShippingZone(
+  token: string,
+  input: ComercioWebShippingZoneInput
+): Promise<ComercioWebShippingZone> {
+  const res = await fetch(`${getApiBase()}/comercio-web/shipping-zones`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    body: JSON.stringify(input),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebShippingZone;
+}
+
+export async function updateComercioWebShippingZone(
+  token: string,
+  zoneId: number,
+  input: Partial<ComercioWebShippingZoneInput>
+): Promise<ComercioWebShippingZone> {
+  const res = await fetch(`${getApiBase()}/comercio-web/shipping-zones/${zoneId}`, {
+    method: "PATCH",
+    headers: buildHeaders(token),
+    body: JSON.stringify(input),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebShippingZone;
+}
+
+export async function deleteComercioWebShippingZone(
+  token: string,
+  zoneId: number
+): Promise<void> {
+  const res = await fetch(`${getApiBase()}/comercio-web/shipping-zones/${zoneId}`, {
+    method: "DELETE",
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (!res.ok && res.status !== 404) throw await parseError(res);
+}
+
+/** Guarda transportadora, guía y zona; no cambia el estado de entrega. */
+export async function updateComercioWebOrderShipment(
+  token: string,
+  orderId: number,
+  input: ComercioWebShipmentInput
+): Promise<ComercioWebOrder> {
+  const res = await fetch(`${getApiBase()}/comercio-web/orders/${orderId}/shipment`, {
+    method: "PUT",
+    headers: buildHeaders(token),
+    body: JSON.stringify(input),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebOrder;
+}
+
+/**
+ * Registra un cambio de estado de entrega. El backend lo agrega a
+ * `status_logs` como `delivery:<estado>` y, con `notify_customer`, avisa al
+ * cliente por el canal que tenga disponible.
+ */
+export async function recordComercioWebDeliveryEvent(
+  token: string,
+  orderId: number,
+  input: {
+    delivery_status: ComercioWebDeliveryStatus;
+    note?: string;
+    notify_customer: boolean;
+    customer_message?: string;
+  }
+): Promise<ComercioWebDeliveryEventResult> {
+  const res = await fetch(
+    `${getApiBase()}/comercio-web/orders/${orderId}/delivery-events`,
+    {
+      method: "POST",
+      headers: buildHeaders(token),
+      body: JSON.stringify(input),
+      credentials: "include",
+    }
+  );
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebDeliveryEventResult;
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { getApiBase } from "@/lib/api/base";
+import type {
+  ComercioWebOrder,
+  ComercioWebPaymentStatus,
+} from "@/lib/api/comercioWeb";
+import type { WebCheckoutProvider } from "@/lib/api/webCheckoutPayments";
+import type { ReconciliationAction, ReconciliationKind } from "@/lib/comercioWebReconciliation";
+
+export type ComercioWebReconciliationCorrection = {
+  id: number;
+  action: ReconciliationAction;
+  kind: ReconciliationKind;
+  provider: WebCheckoutProvider;
+  provider_reference: string;
+  provider_status?: string | null;
+  order_id?: number | null;
+  order_document_number?: string | null;
+  payment_id?: number | null;
+  previous_status?: ComercioWebPaymentStatus | null;
+  new_status?: ComercioWebPaymentStatus | null;
+  amount: number;
+  note: string;
+  source_file?: string | null;
+  created_at: string;
+  created_by_user_id?: number | null;
+  created_by_user_name?: string | null;
+};
+
+export type ComercioWebReconciliationCorrectionInput = {
+  action: ReconciliationAction;
+  kind: ReconciliationKind;
+  provider: WebCheckoutProvider;
+  provider_reference: string;
+  provider_transaction_id?: string | null;
+  provider_status?: string | null;
+  order_id?: number | null;
+  payment_id?: number | null;
+  amount: number;
+  note: string;
+  source_file?: string | null;
+};
+
+export type ComercioWebReconciliationCorrectionResult = {
+  correction: ComercioWebReconciliationCorrection;
+  order?: ComercioWebOrder | null;
+};
+
+function buildHeaders(token: string): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function parseError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail =
+    typeof body?.detail === "string" ? body.detail : `Error ${res.status}`;
+  const err = new Error(detail) as Error & { status?: number };
+  err.status = res.status;
+  return err;
+}
+
+export async function fetchComercioWebReconciliationCorrections(
+  token: string,
+  params?: { limit?: number }
+): Promise<ComercioWebReconciliationCorrection[]> {
+  const qs = new URLSearchParams();
+  if (params?.limit) qs.set("limit", String(params.limit));
+  const query = qs.toString();
+  const res = await fetch(
+    `${getApiBase()}/comercio-web/payments/reconciliation/corrections${query ? `?${query}` : ""}`,
+    {
+      headers: buildHeaders(token),
+      credentials: "include",
+    }
+  );
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebReconciliationCorrection[];
+}
+
+/**
+ * Aplica una corrección de conciliación. El backend registra quién la hizo,
+ * el estado anterior y el nuevo, y deja la nota en `status_logs` de la orden.
+ */
+export async function applyComercioWebReconciliationCorrection(
+  token: string,
+  input: ComercioWebReconciliationCorrectionInput
+): Promise<ComercioWebReconciliationCorrectionResult> {
+  const res = await fetch(`${getApiBase()}/comercio-web/payments/reconciliation/corrections`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    body: JSON.stringify(input),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebReconciliationCorrectionResult;
+}
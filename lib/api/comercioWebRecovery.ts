@@ -0,0 +1,151 @@
+"use client";
+
+import { getApiBase } from "@/lib/api/base";
+import type { ComercioWebOrderStatus } from "@/lib/api/comercioWeb";
+import type { ComercioWebDiscountCode } from "@/lib/api/comercioWebDiscountCodes";
+
+export type ComercioWebRecoverySettings = {
+  enabled: boolean;
+  /** Horas sin pago tras las que una orden `draft`/`pending_payment` vence. */
+  expire_after_hours: number;
+  send_recovery_email: boolean;
+  /** Horas desde el abandono hasta el correo; debe ser menor que el vencimiento. */
+  email_delay_hours: number;
+  email_subject: string;
+  /** Admite {cliente}, {pedido}, {total}, {enlace} y {codigo}. */
+  email_message: string;
+  discount_enabled: boolean;
+  discount_type: ComercioWebDiscountCode["discount_type"];
+  discount_value: number;
+  discount_valid_days: number;
+  updated_at?: string | null;
+};
+
+export type ComercioWebAbandonedOrder = {
+  id: number;
+  order_id: number;
+  order_document_number?: string | null;
+  order_status: ComercioWebOrderStatus;
+  order_total: number;
+  customer_name?: string | null;
+  customer_email?: string | null;
+  abandoned_at: string;
+  expires_at?: string | null;
+  expired_at?: string | null;
+  email_sent_at?: string | null;
+  email_error?: string | null;
+  /** Código de un solo uso generado para este cliente, si aplica. */
+  discount_code_id?: number | null;
+  discount_code?: string | null;
+  recovered_at?: string | null;
+  recovered_order_id?: number | null;
+  recovered_order_document_number?: string | null;
+  recovered_total?: number | null;
+};
+
+export type ComercioWebRecoveryEmailInput = {
+  include_discount: boolean;
+};
+
+export type ComercioWebAbandonedSweepResult = {
+  expired_count: number;
+  emails_sent: number;
+  email_errors: number;
+};
+
+function buildHeaders(token: string): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function parseError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail =
+    typeof body?.detail === "string" ? body.detail : `Error ${res.status}`;
+  const err = new Error(detail) as Error & { status?: number };
+  err.status = res.status;
+  return err;
+}
+
+export async function fetchComercioWebRecoverySettings(
+  token: string
+): Promise<ComercioWebRecoverySettings> {
+  const res = await fetch(`${getApiBase()}/comercio-web/abandoned-orders/settings`, {
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebRecoverySettings;
+}
+
+export async function updateComercioWebRecoverySettings(
+  token: string,
+  input: Omit<ComercioWebRecoverySettings, "updated_at">
+): Promise<ComercioWebRecoverySettings> {
+  const res = await fetch(`${getApiBase()}/comercio-web/abandoned-orders/settings`, {
+    method: "PUT",
+    headers: buildHeaders(token),
+    body: JSON.stringify(input),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebRecoverySettings;
+}
+
+export async function fetchComercioWebAbandonedOrders(
+  token: string,
+  params?: { date_from?: string; date_to?: string; limit?: number }
+): Promise<ComercioWebAbandonedOrder[]> {
+  const qs = new URLSearchParams();
+  if (params?.date_from) qs.set("date_from", params.date_from);
+  if (params?.date_to) qs.set("date_to", params.date_to);
+  if (params?.limit) qs.set("limit", String(params.limit));
+  const query = qs.toString();
+  const res = await fetch(
+    `${getApiBase()}/comercio-web/abandoned-orders${query ? `?${query}` : ""}`,
+    {
+      headers: buildHeaders(token),
+      credentials: "include",
+    }
+  );
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebAbandonedOrder[];
+}
+
+/**
+ * Envía el correo de recuperación con el SMTP de la configuración general
+ * (`smtp_host`, `email_from`). Con `include_discount` el backend crea o
+ * reutiliza el código de un solo uso del cliente.
+ */
+export async function sendComercioWebRecoveryEmail(
+  token: string,
+  abandonedId: number,
+  input: ComercioWebRecoveryEmailInput
+): Promise<ComercioWebAbandonedOrder> {
+  const res = await fetch(
+    `${getApiBase()}/comercio-web/abandoned-orders/${abandonedId}/recovery-email`,
+    {
+      method: "POST",
+      headers: buildHeaders(token),
+      body: JSON.stringify(input),
+      credentials: "include",
+    }
+  );
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebAbandonedOrder;
+}
+
+/** Ejecuta ya el barrido que el backend corre periódicamente: vence y envía correos pendientes. */
+export async function runComercioWebAbandonedSweep(
+  token: string
+): Promise<ComercioWebAbandonedSweepResult> {
+  const res = await fetch(`${getApiBase()}/comercio-web/abandoned-orders/sweep`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as ComercioWebAbandonedSweepResult;
+}
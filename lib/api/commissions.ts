@@ -0,0 +1,235 @@
+import { getApiBase } from "@/lib/api/base";
+import type { SystemRole } from "@/lib/api/hr";
+import type {
+  CommissionCatalogProduct,
+  CommissionSale,
+  CommissionStatementLine,
+} from "@/lib/pos/commissions";
+
+/** `all` aplica a cualquier producto; las demás filtran por grupo o marca. */
+export type CommissionRuleScope = "all" | "product_group" | "brand";
+
+export type CommissionTier = {
+  /** Base mensual desde la que aplica el porcentaje (la primera suele ser 0). */
+  min_amount: number;
+  rate_percent: number;
+};
+
+export type CommissionRule = {
+  id: number;
+  name: string;
+  /** Rol del vendedor al que aplica; `null` aplica a todos los roles. */
+  seller_role: SystemRole | null;
+  scope: CommissionRuleScope;
+  scope_value: string | null;
+  tiers: CommissionTier[];
+  exclude_discounted: boolean;
+  exclude_free_sale_items: boolean;
+  active: boolean;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type CommissionRulePayload = Omit<CommissionRule, "id" | "created_at" | "updated_at">;
+
+export type CommissionStatementRecord = {
+  id: number;
+  /** Mes liquidado en formato `YYYY-MM`. */
+  period: string;
+  employee_id: number;
+  seller_name: string;
+  base_amount: number;
+  returned_amount: number;
+  payable_amount: number;
+  lines: CommissionStatementLine[];
+  /** Cuando se sumó como devengo al pago de nómina pendiente del empleado. */
+  paid_at?: string | null;
+  paid_by_user_name?: string | null;
+  updated_at?: string;
+};
+
+export type CommissionStatementPayload = Pick<
+  CommissionStatementRecord,
+  "seller_name" | "base_amount" | "returned_amount" | "payable_amount" | "lines"
+> & {
+  paid_at?: string | null;
+};
+
+/** Devolución del listado `/pos/returns`; basta para ubicar la venta devuelta. */
+export type CommissionReturnRecord = {
+  id: number;
+  sale_id: number;
+  created_at?: string | null;
+  status?: string | null;
+  voided_at?: string | null;
+};
+
+const COMMISSION_SALES_PAGE_SIZE = 1000;
+
+async function jsonRequest<T>(
+  path: string,
+  token: string,
+  init?: RequestInit
+): Promise<T> {
+  const apiBase = getApiBase();
+  const headers = new Headers(init?.headers as HeadersInit | undefined);
+  headers.set("Authorization", `Bearer ${token}`);
+  headers.set("Content-Type", "application/json");
+  const res = await fetch(`${apiBase}${path}`, {
+    ...init,
+    headers,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const detail = await res.json().catch(() => null);
+    throw new Error(detail?.detail ?? `Error ${res.status}`);
+  }
+  if (res.status === 204) {
+    return undefined as T;
+  }
+  return (await res.json()) as T;
+}
+
+export async function fetchCommissionRules(token: string): Promise<CommissionRule[]> {
+  return jsonRequest<CommissionRule[]>("/hr/commission-rules", token);
+}
+
+export async function createCommissionRule(
+  payload: CommissionRulePayload,
+  token: string
+): Promise<CommissionRule> {
+  return jsonRequest<CommissionRule>("/hr/commission-rules", token, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updateCommissionRule(
+  ruleId: number,
+  payload: Partial<CommissionRulePayload>,
+  token: string
+): Promise<CommissionRule> {
+  return jsonRequest<CommissionRule>(`/hr/commission-rules/${ruleId}`, token, {
+    method: "PATCH",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deleteCommissionRule(ruleId: number, token: string): Promise<void> {
+  await jsonRequest<void>(`/hr/commission-rules/${ruleId}`, token, {
+    method: "DELETE",
+  });
+}
+
+export async function fetchCommissionStatements(
+  period: string,
+  token: string
+): Promise<CommissionStatementRecord[]> {
+  const params = new URLSearchParams({ period });
+  return jsonRequest<CommissionStatementRecord[]>(
+    `/hr/commission-statements?${params.toString()}`,
+    token
+  );
+}
+
+/** Guarda (o reemplaza) la liquidación del empleado para el mes. */
+export async function saveCommissionStatement(
+  period: string,
+  employeeId: number,
+  payload: CommissionStatementPayload,
+  token: string
+): Promise<CommissionStatementRecord> {
+  return jsonRequest<CommissionStatementRecord>(
+    `/hr/commission-statements/${encodeURIComponent(period)}/${employeeId}`,
+    token,
+    {
+      method: "PUT",
+      body: JSON.stringify(payload),
+    }
+  );
+}
+
+/**
+ * Ventas del rango con sus líneas y devoluciones, paginadas como en los
+ * reportes. `dateFrom`/`dateTo` van en UTC sin zona, igual que `/pos/sales`.
+ */
+export async function fetchCommissionSales(
+  dateFrom: string,
+  dateTo: string,
+  token: string
+): Promise<CommissionSale[]> {
+  const rows: CommissionSale[] = [];
+  let skip = 0;
+  for (;;) {
+    const params = new URLSearchParams({
+      skip: String(skip),
+      limit: String(COMMISSION_SALES_PAGE_SIZE),
+      include_adjustments: "true",
+      date_from: dateFrom,
+      date_to: dateTo,
+    });
+    const page = await jsonRequest<CommissionSale[]>(
+      `/pos/sales?${params.toString()}`,
+      token
+    );
+    rows.push(...page);
+    if (page.length < COMMISSION_SALES_PAGE_SIZE) break;
+    skip += page.length;
+  }
+  return rows;
+}
+
+/** Devoluciones hechas en el rango, sin importar la fecha de la venta. */
+export async function fetchCommissionReturns(
+  dateFrom: string,
+  dateTo: string,
+  token: string
+): Promise<CommissionReturnRecord[]> {
+  const rows: CommissionReturnRecord[] = [];
+  let skip = 0;
+  for (;;) {
+    const params = new URLSearchParams({
+      skip: String(skip),
+      limit: String(COMMISSION_SALES_PAGE_SIZE),
+      date_from: dateFrom,
+      date_to: dateTo,
+    });
+    const page = await jsonRequest<CommissionReturnRecord[]>(
+      `/pos/returns?${params.toString()}`,
+      token
+    );
+    rows.push(...page);
+    if (page.length < COMMISSION_SALES_PAGE_SIZE) break;
+    skip += page.length;
+  }
+  return rows;
+}
+
+export async function fetchCommissionSale(
+  saleId: number,
+  token: string
+): Promise<CommissionSale> {
+  return jsonRequest<CommissionSale>(`/pos/sales/${saleId}`, token);
+}
+
+/** Marca y grupo de cada producto, que las líneas de `/pos/sales` no incluyen. */
+export async function fetchCommissionCatalog(
+  token: string
+): Promise<CommissionCatalogProduct[]> {
+  const rows: CommissionCatalogProduct[] = [];
+  let skip = 0;
+  for (;;) {
+    const params = new URLSearchParams({
+      skip: String(skip),
+      limit: String(COMMISSION_SALES_PAGE_SIZE),
+    });
+    const page = await jsonRequest<CommissionCatalogProduct[]>(
+      `/products/?${params.toString()}`,
+      token
+    );
+    rows.push(...page);
+    if (page.length < COMMISSION_SALES_PAGE_SIZE) break;
+    skip += page.length;
+  }
+  return rows;
+}
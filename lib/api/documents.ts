@@ -2,7 +2,7 @@ import { getApiBase } from "@/lib/api/base";
 
 export type DocumentSearchItem = {
   id: string;
-  type: "venta" | "orden_web" | "devolucion" | "cambio" | "cierre" | "abono" | "recepcion" | "movimiento_manual" | "recuento";
+  type: "venta" | "orden_web" | "devolucion" | "cambio" | "cierre" | "abono" | "recepcion" | "movimiento_manual" | "recuento" | "tarjeta_regalo";
   record_id: number;
   sale_id?: number | null;
   occurred_at: string;
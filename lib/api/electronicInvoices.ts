@@ -0,0 +1,125 @@
+"use client";
+
+import { getApiBase } from "@/lib/api/base";
+import type { DianIssuingGateway } from "@/lib/invoicing/dianIssuing";
+import type { SaleTicketCustomer } from "@/lib/printing/saleTicket";
+
+export type DianDocumentKind = "invoice" | "credit-note";
+
+/** Documento del POS que origina el documento electrónico. */
+export type DianSourceType = "sale" | "return" | "change";
+
+export type DianDocumentStatus = "pending" | "validated" | "rejected";
+
+export type DianDocumentRecord = {
+  id: number;
+  kind: DianDocumentKind;
+  source_type: DianSourceType;
+  source_id: number;
+  consecutive: number;
+  number: string;
+  /** CUFE de la factura o CUDE de la nota crédito. */
+  uuid: string;
+  issue_date: string;
+  status: DianDocumentStatus;
+  qr_payload?: string | null;
+  /** Adquiriente con el que se emitió; la nota crédito lo repite. */
+  customer?: SaleTicketCustomer | null;
+  errors?: string[] | null;
+  validated_at?: string | null;
+};
+
+export type DianDocumentSubmission = {
+  kind: DianDocumentKind;
+  source_type: DianSourceType;
+  source_id: number;
+  consecutive: number;
+  number: string;
+  uuid: string;
+  issue_date: string;
+  qr_payload: string;
+  customer?: SaleTicketCustomer | null;
+  /** XML UBL sin firmar; el backend lo firma y lo envía a la DIAN. */
+  xml: string;
+};
+
+function buildHeaders(token: string): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function parseError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail =
+    typeof body?.detail === "string" ? body.detail : `Error ${res.status}`;
+  const err = new Error(detail) as Error & { status?: number };
+  err.status = res.status;
+  return err;
+}
+
+/** Documento electrónico emitido para un documento del POS, o `null` si no existe. */
+export async function fetchDianDocument(
+  token: string,
+  sourceType: DianSourceType,
+  sourceId: number,
+  kind: DianDocumentKind
+): Promise<DianDocumentRecord | null> {
+  const qs = new URLSearchParams({
+    source_type: sourceType,
+    source_id: String(sourceId),
+    kind,
+  });
+  const res = await fetch(`${getApiBase()}/pos/electronic-documents?${qs.toString()}`, {
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as DianDocumentRecord;
+}
+
+/**
+ * Asigna el consecutivo DIAN del documento. El backend lleva un contador por
+ * tipo de documento, independiente del número de venta, y devuelve el mismo
+ * consecutivo si se vuelve a pedir para el mismo origen.
+ */
+export async function reserveDianConsecutive(
+  token: string,
+  input: { kind: DianDocumentKind; source_type: DianSourceType; source_id: number }
+): Promise<number> {
+  const res = await fetch(`${getApiBase()}/pos/electronic-documents/consecutives`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    body: JSON.stringify(input),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  const data = (await res.json()) as { consecutive: number };
+  return data.consecutive;
+}
+
+/** Entrega el XML al backend para firmarlo, enviarlo y registrar la respuesta de la DIAN. */
+export async function submitDianDocument(
+  token: string,
+  input: DianDocumentSubmission
+): Promise<DianDocumentRecord> {
+  const res = await fetch(`${getApiBase()}/pos/electronic-documents`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    body: JSON.stringify(input),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return (await res.json()) as DianDocumentRecord;
+}
+
+export function createDianIssuingGateway(token: string): DianIssuingGateway {
+  return {
+    find: (sourceType, sourceId, kind) => fetchDianDocument(token, sourceType, sourceId, kind),
+    reserveConsecutive: (kind, sourceType, sourceId) =>
+      reserveDianConsecutive(token, { kind, source_type: sourceType, source_id: sourceId }),
+    submit: (input) => submitDianDocument(token, input),
+  };
+}
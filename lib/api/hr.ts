@@ -16,6 +16,8 @@ export type HrEmployeeRecord = {
   location?: string | null;
   bio?: string | null;
   payroll_frequency?: "diario" | "semanal" | "mensual" | null;
+  /** `por_hora` toma `payroll_amount` como valor hora de los turnos trabajados. */
+  payroll_pay_type?: "fijo" | "por_hora" | null;
   payroll_amount?: number | null;
   payroll_currency?: string | null;
   payroll_payment_method?: string | null;
@@ -71,6 +73,7 @@ type HrEmployeePayload = Partial<
     | "location"
     | "bio"
     | "payroll_frequency"
+    | "payroll_pay_type"
     | "payroll_amount"
     | "payroll_currency"
     | "payroll_payment_method"
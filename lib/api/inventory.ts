@@ -69,6 +69,8 @@ export type InventoryProductRow = {
   barcode?: string | null;
   group_name?: string | null;
   qty_on_hand: number;
+  /** Unidades comprometidas con órdenes web pagadas que aún no son venta. */
+  qty_reserved?: number;
   status: "ok" | "low" | "critical";
   cost: number;
   price: number;
@@ -749,12 +751,21 @@ export type InventoryProductMovement = {
   created_at: string;
 };
 
+export type InventoryStockReservation = {
+  order_id: number;
+  order_document_number?: string | null;
+  quantity: number;
+  reserved_at: string;
+};
+
 export type InventoryProductHistory = {
   product_id: number;
   product_name: string;
   unit_cost: number;
   unit_price: number;
   qty_on_hand: number;
+  qty_reserved?: number;
+  reservations?: InventoryStockReservation[];
   total_in: number;
   total_out: number;
   net: number;
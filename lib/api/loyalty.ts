@@ -0,0 +1,108 @@
+"use client";
+
+import { getApiBase } from "@/lib/api/base";
+
+export type LoyaltyLedgerKind = "earn" | "redeem" | "adjust" | "expire" | "reversal";
+
+export type LoyaltyLedgerEntry = {
+  id: number;
+  customer_id: number;
+  kind: LoyaltyLedgerKind;
+  /** Positivo suma al saldo, negativo lo descuenta. */
+  points: number;
+  balance_after: number;
+  sale_id?: number | null;
+  sale_document_number?: string | null;
+  note?: string | null;
+  /** Fecha en que vencen los puntos de un movimiento de acumulación. */
+  expires_at?: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+};
+
+export type LoyaltyAccount = {
+  customer_id: number;
+  balance: number;
+  lifetime_earned?: number | null;
+  /** Puntos que vencen en la próxima fecha de vencimiento. */
+  expiring_points?: number | null;
+  next_expiry_at?: string | null;
+};
+
+export type LoyaltyLedgerPage = {
+  items: LoyaltyLedgerEntry[];
+  total: number;
+  skip: number;
+  limit: number;
+};
+
+export type LoyaltyAdjustmentInput = {
+  points: number;
+  note: string;
+};
+
+function buildHeaders(token: string): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function parseError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail =
+    typeof body?.detail === "string" ? body.detail : `Error ${res.status}`;
+  const err = new Error(detail) as Error & { status?: number };
+  err.status = res.status;
+  return err;
+}
+
+export async function fetchLoyaltyAccount(
+  customerId: number,
+  token: string
+): Promise<LoyaltyAccount> {
+  const res = await fetch(`${getApiBase()}/pos/customers/${customerId}/loyalty`, {
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
+
+export async function fetchLoyaltyLedger(
+  customerId: number,
+  token: string,
+  params?: { skip?: number; limit?: number }
+): Promise<LoyaltyLedgerPage> {
+  const qs = new URLSearchParams();
+  if (typeof params?.skip === "number") qs.set("skip", String(params.skip));
+  if (typeof params?.limit === "number") qs.set("limit", String(params.limit));
+  const query = qs.toString();
+  const res = await fetch(
+    `${getApiBase()}/pos/customers/${customerId}/loyalty/ledger${query ? `?${query}` : ""}`,
+    {
+      headers: buildHeaders(token),
+      credentials: "include",
+    }
+  );
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
+
+export async function createLoyaltyAdjustment(
+  customerId: number,
+  payload: LoyaltyAdjustmentInput,
+  token: string
+): Promise<LoyaltyAccount> {
+  const res = await fetch(
+    `${getApiBase()}/pos/customers/${customerId}/loyalty/adjustments`,
+    {
+      method: "POST",
+      headers: buildHeaders(token),
+      credentials: "include",
+      body: JSON.stringify(payload),
+    }
+  );
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
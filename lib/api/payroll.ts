@@ -0,0 +1,141 @@
+import { getApiBase } from "@/lib/api/base";
+import type { HrEmployeeRecord } from "@/lib/api/hr";
+
+export type PayrollFrequency = NonNullable<HrEmployeeRecord["payroll_frequency"]>;
+
+/** `fijo` paga `payroll_amount` por periodo; `por_hora` lo toma como valor hora. */
+export type PayrollPayType = "fijo" | "por_hora";
+
+export type PayrollAdjustmentKind = "deduction" | "advance";
+
+export type PayrollAdjustment = {
+  kind: PayrollAdjustmentKind;
+  concept: string;
+  /** Siempre positivo; el tipo define que se descuenta del neto. */
+  amount: number;
+};
+
+export type PayrollEarningKind = "commission";
+
+export type PayrollEarning = {
+  kind: PayrollEarningKind;
+  concept: string;
+  /** Se suma al bruto; una comisión se identifica por el mes liquidado. */
+  amount: number;
+  period?: string | null;
+};
+
+export type PayrollRunStatus = "pending" | "paid";
+
+export type PayrollRun = {
+  id: number;
+  employee_id: number;
+  employee_name: string;
+  frequency: PayrollFrequency;
+  pay_type: PayrollPayType;
+  period_start: string;
+  period_end: string;
+  due_date: string;
+  base_amount: number;
+  /** Horas de turnos publicados en el periodo; solo en pago por hora. */
+  hours_worked?: number | null;
+  /** Incluye el salario y los devengos adicionales de `earnings`. */
+  gross_amount: number;
+  earnings?: PayrollEarning[] | null;
+  adjustments: PayrollAdjustment[];
+  net_amount: number;
+  currency?: string | null;
+  payment_method?: string | null;
+  status: PayrollRunStatus;
+  paid_at?: string | null;
+  paid_by_user_name?: string | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at?: string;
+};
+
+export type PayrollRunCreatePayload = Omit<
+  PayrollRun,
+  "id" | "status" | "paid_at" | "paid_by_user_name" | "created_at" | "updated_at"
+>;
+
+export type PayrollRunUpdatePayload = Partial<
+  Pick<
+    PayrollRun,
+    "hours_worked" | "gross_amount" | "earnings" | "adjustments" | "net_amount" | "notes"
+  >
+>;
+
+async function jsonRequest<T>(
+  path: string,
+  token: string,
+  init?: RequestInit
+): Promise<T> {
+  const apiBase = getApiBase();
+  const headers = new Headers(init?.headers as HeadersInit | undefined);
+  headers.set("Authorization", `Bearer ${token}`);
+  headers.set("Content-Type", "application/json");
+  const res = await fetch(`${apiBase}${path}`, {
+    ...init,
+    headers,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const detail = await res.json().catch(() => null);
+    throw new Error(detail?.detail ?? `Error ${res.status}`);
+  }
+  if (res.status === 204) {
+    return undefined as T;
+  }
+  return (await res.json()) as T;
+}
+
+export async function fetchPayrollRuns(
+  token: string,
+  filters?: { status?: PayrollRunStatus; employeeId?: number }
+): Promise<PayrollRun[]> {
+  const params = new URLSearchParams();
+  if (filters?.status) params.set("status", filters.status);
+  if (filters?.employeeId) params.set("employee_id", String(filters.employeeId));
+  const query = params.toString();
+  return jsonRequest<PayrollRun[]>(`/hr/payroll-runs${query ? `?${query}` : ""}`, token);
+}
+
+export async function createPayrollRun(
+  payload: PayrollRunCreatePayload,
+  token: string
+): Promise<PayrollRun> {
+  return jsonRequest<PayrollRun>("/hr/payroll-runs", token, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function updatePayrollRun(
+  runId: number,
+  payload: PayrollRunUpdatePayload,
+  token: string
+): Promise<PayrollRun> {
+  return jsonRequest<PayrollRun>(`/hr/payroll-runs/${runId}`, token, {
+    method: "PATCH",
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function deletePayrollRun(runId: number, token: string): Promise<void> {
+  await jsonRequest<void>(`/hr/payroll-runs/${runId}`, token, {
+    method: "DELETE",
+  });
+}
+
+/** Solo cierra el pago; el avance de fechas del empleado lo hace quien llama. */
+export async function markPayrollRunPaid(
+  runId: number,
+  paidAt: string,
+  token: string
+): Promise<PayrollRun> {
+  return jsonRequest<PayrollRun>(`/hr/payroll-runs/${runId}/pay`, token, {
+    method: "POST",
+    body: JSON.stringify({ paid_at: paidAt }),
+  });
+}
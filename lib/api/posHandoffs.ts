@@ -0,0 +1,152 @@
+"use client";
+
+import { getApiBase } from "@/lib/api/base";
+
+export type SaleHandoffStatus = "pending" | "taken" | "cancelled";
+
+/**
+ * Carrito que una tablet envía a la caja de su estación principal
+ * (`parent_station_id`) para que allí se cobre.
+ */
+export type SaleHandoff = {
+  id: number;
+  status: SaleHandoffStatus;
+  source_station_id: string;
+  source_station_label?: string | null;
+  target_station_id: string;
+  seller_user_id?: number | null;
+  seller_name?: string | null;
+  customer_id?: number | null;
+  customer_name?: string | null;
+  item_count: number;
+  total: number;
+  notes?: string | null;
+  /** Carrito tal cual lo armó la tablet; el backend no lo interpreta. */
+  cart: Record<string, unknown>;
+  created_at: string;
+  taken_at?: string | null;
+  taken_by_user_id?: number | null;
+  taken_by_user_name?: string | null;
+  taken_station_id?: string | null;
+  cancelled_at?: string | null;
+};
+
+export type SaleHandoffCreateInput = {
+  source_station_id: string;
+  seller_user_id?: number | null;
+  seller_name?: string | null;
+  customer_id?: number | null;
+  customer_name?: string | null;
+  item_count: number;
+  total: number;
+  notes?: string | null;
+  cart: Record<string, unknown>;
+};
+
+export type PosStationScope = {
+  primary_station_id: string;
+  station_ids: string[];
+  stations: {
+    station_id: string;
+    station_label: string;
+    station_type: "desktop" | "tablet";
+    is_primary: boolean;
+  }[];
+};
+
+function buildHeaders(token: string): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function parseError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail =
+    typeof body?.detail === "string" ? body.detail : `Error ${res.status}`;
+  const err = new Error(detail) as Error & { status?: number };
+  err.status = res.status;
+  return err;
+}
+
+/** Estación principal y estaciones auxiliares (tablets) del grupo. */
+export async function fetchPosStationScope(
+  stationId: string,
+  token: string
+): Promise<PosStationScope> {
+  const res = await fetch(
+    `${getApiBase()}/pos/stations/${encodeURIComponent(stationId)}/closure-scope`,
+    {
+      headers: buildHeaders(token),
+      credentials: "include",
+    }
+  );
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
+
+/**
+ * Para una caja devuelve lo que le enviaron sus tablets; para una tablet, lo
+ * que ella misma envió.
+ */
+export async function fetchSaleHandoffs(
+  params: { stationId: string; status?: SaleHandoffStatus },
+  token: string
+): Promise<SaleHandoff[]> {
+  const search = new URLSearchParams({ station_id: params.stationId });
+  if (params.status) search.set("status", params.status);
+  const res = await fetch(`${getApiBase()}/pos/handoffs?${search.toString()}`, {
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  const data = (await res.json()) as SaleHandoff[] | null;
+  return Array.isArray(data) ? data : [];
+}
+
+export async function createSaleHandoff(
+  payload: SaleHandoffCreateInput,
+  token: string
+): Promise<SaleHandoff> {
+  const res = await fetch(`${getApiBase()}/pos/handoffs`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    credentials: "include",
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
+
+/**
+ * La caja toma el carrito; el backend registra quién lo tomó y responde 409
+ * si otra caja se adelantó.
+ */
+export async function takeSaleHandoff(
+  handoffId: number,
+  stationId: string,
+  token: string
+): Promise<SaleHandoff> {
+  const res = await fetch(`${getApiBase()}/pos/handoffs/${handoffId}/take`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    credentials: "include",
+    body: JSON.stringify({ station_id: stationId }),
+  });
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
+
+export async function cancelSaleHandoff(
+  handoffId: number,
+  token: string
+): Promise<SaleHandoff> {
+  const res = await fetch(`${getApiBase()}/pos/handoffs/${handoffId}/cancel`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
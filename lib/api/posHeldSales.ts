@@ -0,0 +1,85 @@
+"use client";
+
+import { getApiBase } from "@/lib/api/base";
+
+/**
+ * Venta en espera compartida entre una estación desktop y su tablet
+ * vinculada. El backend resuelve el grupo a partir de `parent_station_id`,
+ * así que cualquiera de las dos estaciones ve la misma lista.
+ */
+export type SharedHeldSaleRecord = {
+  id: string;
+  label: string;
+  customer_name?: string | null;
+  sale_number: number;
+  item_count: number;
+  total: number;
+  held_at: string;
+  station_id?: string | null;
+  /** Carrito tal cual lo guardó el POS; el backend no lo interpreta. */
+  snapshot: Record<string, unknown>;
+};
+
+function buildHeaders(token: string): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function parseError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail =
+    typeof body?.detail === "string" ? body.detail : `Error ${res.status}`;
+  const err = new Error(detail) as Error & { status?: number };
+  err.status = res.status;
+  return err;
+}
+
+function heldSalesUrl(stationId: string, saleId?: string): string {
+  const base = `${getApiBase()}/pos/stations/${encodeURIComponent(stationId)}/held-sales`;
+  return saleId ? `${base}/${encodeURIComponent(saleId)}` : base;
+}
+
+export async function fetchSharedHeldSales(
+  stationId: string,
+  token: string
+): Promise<SharedHeldSaleRecord[]> {
+  const res = await fetch(heldSalesUrl(stationId), {
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  const data = (await res.json()) as SharedHeldSaleRecord[] | null;
+  return Array.isArray(data) ? data : [];
+}
+
+/** Crea o reemplaza la venta compartida con el mismo id. */
+export async function saveSharedHeldSale(
+  stationId: string,
+  sale: SharedHeldSaleRecord,
+  token: string
+): Promise<void> {
+  const res = await fetch(heldSalesUrl(stationId, sale.id), {
+    method: "PUT",
+    headers: buildHeaders(token),
+    credentials: "include",
+    body: JSON.stringify(sale),
+  });
+  if (!res.ok) throw await parseError(res);
+}
+
+/** Quita la venta compartida; si ya no existe en el servidor no es un error. */
+export async function deleteSharedHeldSale(
+  stationId: string,
+  saleId: string,
+  token: string
+): Promise<void> {
+  const res = await fetch(heldSalesUrl(stationId, saleId), {
+    method: "DELETE",
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (res.status === 404) return;
+  if (!res.ok) throw await parseError(res);
+}
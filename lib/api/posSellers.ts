@@ -0,0 +1,44 @@
+"use client";
+
+import { getApiBase } from "@/lib/api/base";
+import type { PosSeller } from "@/lib/pos/sellers";
+
+function buildHeaders(token: string): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function parseError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail =
+    typeof body?.detail === "string" ? body.detail : `Error ${res.status}`;
+  const err = new Error(detail) as Error & { status?: number };
+  err.status = res.status;
+  return err;
+}
+
+/**
+ * Identifica al vendedor por su PIN personal (el mismo que se asigna en
+ * Configuración → Usuarios). Responde 401 si el PIN no corresponde a un
+ * usuario activo del comercio.
+ */
+export async function verifySellerPin(
+  pin: string,
+  stationId: string | null,
+  token: string
+): Promise<PosSeller> {
+  const res = await fetch(`${getApiBase()}/pos/sellers/verify-pin`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    credentials: "include",
+    body: JSON.stringify({ pin, station_id: stationId }),
+  });
+  if (res.status === 401) {
+    throw new Error("PIN incorrecto o vendedor inactivo.");
+  }
+  if (!res.ok) throw await parseError(res);
+  const data = (await res.json()) as { id: number; name: string };
+  return { id: data.id, name: data.name };
+}
@@ -1,3 +1,5 @@
+import type { CustomerDisplayState } from "@/lib/pos/customerDisplay";
+
 export const POS_STATION_STORAGE_KEY = "metrik_pos_station";
 export const POS_MODE_STORAGE_KEY = "metrik_pos_mode";
 export const POS_DEVICE_ID_KEY = "metrik_pos_device_id";
@@ -56,6 +58,8 @@ export type PosStationPrinterConfig = {
   width: "58mm" | "80mm";
   autoOpenDrawer: boolean;
   showDrawerButton: boolean;
+  /** Con QZ Tray: "escpos" envía comandos nativos en lugar de HTML. */
+  format?: "html" | "escpos";
 };
 
 const POS_WEB_STATION: PosStationAccess = {
@@ -278,6 +282,7 @@ type PrinterConfigPayload = {
   printer_width?: PosStationPrinterConfig["width"];
   printer_auto_open_drawer?: boolean;
   printer_show_drawer_button?: boolean;
+  printer_format?: PosStationPrinterConfig["format"];
 };
 
 export async function fetchPosStationPrinterConfig(
@@ -303,6 +308,7 @@ export async function fetchPosStationPrinterConfig(
       data.printer_show_drawer_button !== undefined
         ? Boolean(data.printer_show_drawer_button)
         : true,
+    format: data.printer_format ?? "html",
   };
   return next;
 }
@@ -319,6 +325,7 @@ export async function updatePosStationPrinterConfig(
     printer_width: config.width,
     printer_auto_open_drawer: config.autoOpenDrawer,
     printer_show_drawer_button: config.showDrawerButton,
+    printer_format: config.format ?? "html",
   };
   const res = await fetch(`${apiBase}/pos/stations/${stationId}/printer-config`, {
     method: "PUT",
@@ -333,3 +340,46 @@ export async function updatePosStationPrinterConfig(
     throw new Error("No se pudo guardar la impresora en el servidor.");
   }
 }
+
+/** Deja el carrito de la estación en el backend para su tableta de cara al cliente. */
+export async function publishPosCustomerDisplayState(
+  apiBase: string,
+  token: string,
+  stationId: string,
+  state: CustomerDisplayState
+) {
+  const res = await fetch(`${apiBase}/pos/stations/${stationId}/customer-display`, {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    credentials: "include",
+    body: JSON.stringify(state),
+  });
+  if (!res.ok) {
+    throw new Error(`Error ${res.status}`);
+  }
+}
+
+/**
+ * Último carrito publicado. Para una tableta el backend responde con el de su
+ * estación principal (`parent_station_id`); `null` si aún no hay nada.
+ */
+export async function fetchPosCustomerDisplayState(
+  apiBase: string,
+  token: string,
+  stationId: string
+): Promise<CustomerDisplayState | null> {
+  const res = await fetch(`${apiBase}/pos/stations/${stationId}/customer-display`, {
+    headers: { Authorization: `Bearer ${token}` },
+    credentials: "include",
+    cache: "no-store",
+  });
+  if (res.status === 204 || res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`Error ${res.status}`);
+  }
+  const data = (await res.json()) as CustomerDisplayState | null;
+  return data && typeof data === "object" && Array.isArray(data.lines) ? data : null;
+}
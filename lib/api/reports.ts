@@ -101,6 +101,8 @@ export type ReportProductsSoldRow = {
   seller_name?: string | null;
   payment_method?: string | null;
   is_separated: boolean;
+  /** Tarifa de IVA con que se vendió la línea (`"19"`, `"5"`, `"0"`, `"exempt"`). */
+  tax_rate?: string | null;
 };
 
 export type ReportProductsSoldResponse = {
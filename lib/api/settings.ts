@@ -52,6 +52,79 @@ export type WebBrandCollageImages = {
 
 export type WebHomeSectionsMode = "categories" | "instruments" | "both";
 
+/** Resolución de facturación y datos del software ante la DIAN. */
+export type PosElectronicInvoiceSettings = {
+  environment: "production" | "testing";
+  resolution_number: string;
+  prefix: string;
+  range_from: number;
+  range_to: number;
+  valid_from: string;
+  valid_to: string;
+  technical_key: string;
+  software_id: string;
+  software_pin: string;
+  /** Tarifa de IVA que se asume para líneas sin tarifa propia (p. ej. 19). */
+  default_tax_rate?: number | null;
+  prices_include_tax?: boolean | null;
+  /** Responsabilidades fiscales del RUT de la empresa (p. ej. O-13, O-15, R-99-PN). */
+  tax_responsibilities?: string[] | null;
+  /** "01" si la empresa es responsable de IVA, "ZZ" si no aplica. */
+  tax_scheme?: "01" | "ZZ" | null;
+  /** Las notas crédito llevan su propia numeración, aparte de la resolución. */
+  credit_note_prefix?: string | null;
+  credit_note_range_from?: number | null;
+  credit_note_range_to?: number | null;
+};
+
+/** Franja en la que rige una promoción (hora de Bogotá). */
+export type PosPromotionSchedule = {
+  /** 0 = domingo … 6 = sábado; vacío aplica todos los días. */
+  days?: number[] | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  starts_on?: string | null;
+  ends_on?: string | null;
+};
+
+/** Productos a los que aplica la regla; sin filtros aplica a todo el carrito. */
+export type PosPromotionTarget = {
+  product_ids?: number[] | null;
+  group_names?: string[] | null;
+  brands?: string[] | null;
+};
+
+export type PosPromotionKind = "buy_x_get_y" | "percent_off" | "bundle";
+
+export type PosPromotionRule = {
+  id: string;
+  name: string;
+  active: boolean;
+  kind: PosPromotionKind;
+  target?: PosPromotionTarget | null;
+  /** Lleve X (`buy_quantity`) y obtenga Y (`get_quantity`) con descuento. */
+  buy_quantity?: number | null;
+  get_quantity?: number | null;
+  /** 100 = gratis. */
+  get_discount_percent?: number | null;
+  percent?: number | null;
+  /** Combo de Comercio Web cuyo precio se aplica como paquete en caja. */
+  combo_id?: number | null;
+  schedule?: PosPromotionSchedule | null;
+};
+
+/** Programa de puntos para clientes del POS. */
+export type PosLoyaltySettings = {
+  enabled: boolean;
+  /** Puntos por cada $1.000 pagados, por slug de método de pago. */
+  earn_rates: Record<string, number>;
+  /** Valor en pesos de un punto al redimirlo. */
+  point_value: number;
+  min_redeem_points?: number | null;
+  /** Días que dura un punto antes de vencer; vacío = no vencen. */
+  expiry_days?: number | null;
+};
+
 export type PosSettingsPayload = {
   company_name: string;
   tax_id: string;
@@ -67,6 +140,10 @@ export type PosSettingsPayload = {
   auto_close_ticket: boolean;
   low_stock_alert: boolean;
   require_seller_pin: boolean;
+  /** Atribuye cada línea del carrito al vendedor activo al agregarla. */
+  seller_per_line?: boolean;
+  /** Prefijo GS1 de uso interno (20-29) para los EAN-13 que genera la tienda. */
+  internal_barcode_prefix?: string | null;
   notifications: {
     daily_summary_email: boolean;
     cash_alert_email: boolean;
@@ -92,6 +169,9 @@ export type PosSettingsPayload = {
   web_personalization_home_images?: WebPersonalizationHomeImages | null;
   web_brand_collage_images?: WebBrandCollageImages | null;
   web_home_sections_mode?: WebHomeSectionsMode | null;
+  electronic_invoice?: PosElectronicInvoiceSettings | null;
+  promotions?: PosPromotionRule[] | null;
+  loyalty?: PosLoyaltySettings | null;
 };
 
 export type PosUserRecord = {
@@ -270,6 +350,8 @@ const defaultSettings: PosSettingsPayload = {
   auto_close_ticket: false,
   low_stock_alert: true,
   require_seller_pin: false,
+  seller_per_line: false,
+  internal_barcode_prefix: "",
   notifications: {
     daily_summary_email: false,
     cash_alert_email: false,
@@ -440,6 +522,29 @@ export const defaultRolePermissions: RolePermissionModule[] = [
           Auditor: false,
         },
       },
+      {
+        id: "pos.closures.blind",
+        label: "Cierre ciego",
+        description:
+          "Oculta los totales esperados al cerrar caja; solo se registra lo contado.",
+        roles: {
+          Administrador: false,
+          Supervisor: false,
+          Vendedor: false,
+          Auditor: false,
+        },
+      },
+      {
+        id: "pos.closures.differences",
+        label: "Ver diferencias de cierre",
+        description: "Muestra lo esperado y las diferencias después de cerrar caja.",
+        roles: {
+          Administrador: true,
+          Supervisor: true,
+          Vendedor: false,
+          Auditor: false,
+        },
+      },
     ],
   },
   {
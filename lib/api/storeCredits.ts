@@ -0,0 +1,114 @@
+"use client";
+
+import { getApiBase } from "@/lib/api/base";
+
+export type StoreCreditKind = "gift_card" | "credit_note";
+
+export type StoreCreditStatus = "active" | "redeemed" | "expired" | "voided";
+
+export type StoreCreditMovementKind = "issue" | "redeem" | "reversal" | "expire" | "void";
+
+export type StoreCreditMovement = {
+  id: number;
+  kind: StoreCreditMovementKind;
+  /** Positivo suma al saldo, negativo lo descuenta. */
+  amount: number;
+  balance_after: number;
+  sale_id?: number | null;
+  document_number?: string | null;
+  note?: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+};
+
+export type StoreCredit = {
+  id: number;
+  /** Código numérico impreso en el ticket (Code128 en conjunto C). */
+  code: string;
+  kind: StoreCreditKind;
+  status: StoreCreditStatus;
+  initial_amount: number;
+  balance: number;
+  customer_id?: number | null;
+  customer_name?: string | null;
+  issued_at: string;
+  expires_at?: string | null;
+  /** Documento que originó el saldo: venta de tarjeta, devolución o cambio. */
+  source_type?: "sale" | "return" | "change" | "manual" | null;
+  source_document_number?: string | null;
+  pos_name?: string | null;
+  created_by_name?: string | null;
+  notes?: string | null;
+  movements?: StoreCreditMovement[];
+};
+
+export type GiftCardIssueInput = {
+  amount: number;
+  payment_method: string;
+  customer_id?: number | null;
+  expires_at?: string | null;
+  notes?: string | null;
+  pos_name?: string | null;
+  station_id?: string | null;
+};
+
+/** Saldo usado como medio de pago en una venta. */
+export type StoreCreditRedemption = {
+  code: string;
+  amount: number;
+};
+
+function buildHeaders(token: string): HeadersInit {
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${token}`,
+  };
+}
+
+async function parseError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  const detail =
+    typeof body?.detail === "string" ? body.detail : `Error ${res.status}`;
+  const err = new Error(detail) as Error & { status?: number };
+  err.status = res.status;
+  return err;
+}
+
+export async function fetchStoreCreditByCode(
+  code: string,
+  token: string
+): Promise<StoreCredit> {
+  const res = await fetch(
+    `${getApiBase()}/pos/store-credits/by-code/${encodeURIComponent(code)}`,
+    {
+      headers: buildHeaders(token),
+      credentials: "include",
+    }
+  );
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
+
+export async function fetchStoreCredit(id: number, token: string): Promise<StoreCredit> {
+  const res = await fetch(`${getApiBase()}/pos/store-credits/${id}`, {
+    headers: buildHeaders(token),
+    credentials: "include",
+  });
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
+
+/** Vende una tarjeta de regalo: cobra el valor y emite el saldo. */
+export async function issueGiftCard(
+  payload: GiftCardIssueInput,
+  token: string
+): Promise<StoreCredit> {
+  const res = await fetch(`${getApiBase()}/pos/store-credits/gift-cards`, {
+    method: "POST",
+    headers: buildHeaders(token),
+    credentials: "include",
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) throw await parseError(res);
+  return res.json();
+}
@@ -0,0 +1,128 @@
+import type {
+  ComercioWebDeliveryStatus,
+  ComercioWebOrder,
+  ComercioWebOrderShipment,
+} from "@/lib/api/comercioWeb";
+import type { ComercioWebShippingZone } from "@/lib/api/comercioWebDelivery";
+
+/** Prefijo de `to_status` en `status_logs` para los eventos de entrega. */
+export const DELIVERY_LOG_PREFIX = "delivery:";
+
+export const DELIVERY_STATUS_LABELS: Record<ComercioWebDeliveryStatus, string> = {
+  pending: "Por despachar",
+  packed: "Empacado",
+  shipped: "Despachado",
+  in_transit: "En tránsito",
+  out_for_delivery: "En reparto",
+  delivered: "Entregado",
+  failed: "Entrega fallida",
+  returned: "Devuelto",
+};
+
+/** Transiciones permitidas; un intento fallido puede redespacharse o devolverse. */
+export const DELIVERY_STATUS_TRANSITIONS: Record<
+  ComercioWebDeliveryStatus,
+  ComercioWebDeliveryStatus[]
+> = {
+  pending: ["packed", "shipped"],
+  packed: ["shipped"],
+  shipped: ["in_transit", "out_for_delivery", "delivered", "failed"],
+  in_transit: ["out_for_delivery", "delivered", "failed"],
+  out_for_delivery: ["delivered", "failed"],
+  failed: ["shipped", "returned"],
+  delivered: ["returned"],
+  returned: [],
+};
+
+export function deliveryStatusFromLog(toStatus: string): ComercioWebDeliveryStatus | null {
+  if (!toStatus.startsWith(DELIVERY_LOG_PREFIX)) return null;
+  const status = toStatus.slice(DELIVERY_LOG_PREFIX.length) as ComercioWebDeliveryStatus;
+  return status in DELIVERY_STATUS_LABELS ? status : null;
+}
+
+export function currentDeliveryStatus(order: ComercioWebOrder): ComercioWebDeliveryStatus {
+  return order.shipment?.delivery_status ?? "pending";
+}
+
+const normalizePlace = (value?: string | null) =>
+  (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Zona que aplica a un destino: una zona que lista la ciudad gana sobre la
+ * que cubre todo el departamento. Solo considera zonas activas.
+ */
+export function resolveShippingZone(
+  zones: ComercioWebShippingZone[],
+  city?: string | null,
+  department?: string | null
+): ComercioWebShippingZone | null {
+  const cityKey = normalizePlace(city);
+  const departmentKey = normalizePlace(department);
+  const active = zones.filter((zone) => zone.is_active);
+  const byCity = cityKey
+    ? active.find(
+        (zone) =>
+          zone.cities.some((item) => normalizePlace(item) === cityKey) &&
+          (!zone.department || !departmentKey || normalizePlace(zone.department) === departmentKey)
+      )
+    : undefined;
+  if (byCity) return byCity;
+  if (!departmentKey) return null;
+  return (
+    active.find(
+      (zone) => zone.cities.length === 0 && normalizePlace(zone.department) === departmentKey
+    ) ?? null
+  );
+}
+
+export function shippingZoneRate(zone: ComercioWebShippingZone, subtotal: number): number {
+  if (zone.free_from_amount != null && subtotal >= zone.free_from_amount) return 0;
+  return zone.rate;
+}
+
+export function buildDeliveryCustomerMessage(
+  order: Pick<ComercioWebOrder, "customer_name" | "document_number" | "web_order_number">,
+  status: ComercioWebDeliveryStatus,
+  shipment?: ComercioWebOrderShipment | null
+): string {
+  const name = order.customer_name?.trim().split(/\s+/)[0] || "Hola";
+  const reference = order.document_number || (order.web_order_number ? `#${order.web_order_number}` : "");
+  const tracking =
+    shipment?.tracking_number && shipment.carrier
+      ? ` Guía ${shipment.tracking_number} con ${shipment.carrier}.`
+      : shipment?.tracking_number
+        ? ` Guía ${shipment.tracking_number}.`
+        : "";
+  const trackingUrl = shipment?.tracking_url ? ` Rastréalo en ${shipment.tracking_url}` : "";
+  switch (status) {
+    case "packed":
+      return `${name}, tu pedido ${reference} ya está empacado y listo para despacho.`;
+    case "shipped":
+      return `${name}, tu pedido ${reference} fue despachado.${tracking}${trackingUrl}`;
+    case "in_transit":
+      return `${name}, tu pedido ${reference} va en camino.${tracking}${trackingUrl}`;
+    case "out_for_delivery":
+      return `${name}, tu pedido ${reference} sale hoy a reparto. Ten a mano tu documento para recibirlo.`;
+    case "delivered":
+      return `${name}, tu pedido ${reference} fue entregado. ¡Gracias por tu compra!`;
+    case "failed":
+      return `${name}, no pudimos entregar tu pedido ${reference}. Te contactaremos para reprogramar.`;
+    case "returned":
+      return `${name}, tu pedido ${reference} regresó a nuestra tienda. Te contactaremos para coordinar.`;
+    default:
+      return `${name}, actualizamos el estado de tu pedido ${reference}.`;
+  }
+}
+
+/** Enlace de WhatsApp para avisar a mano cuando el backend no pudo notificar. */
+export function buildDeliveryWhatsAppLink(phone: string, message: string): string | null {
+  let digits = phone.replace(/\D/g, "");
+  if (digits.length === 10 && digits.startsWith("3")) digits = `57${digits}`;
+  if (digits.length < 10) return null;
+  return `https://wa.me/${digits}?text=${encodeURIComponent(message)}`;
+}
@@ -0,0 +1,77 @@
+import type {
+  ComercioWebOrder,
+  ComercioWebOrderItem,
+  ComercioWebOrderStatus,
+  ComercioWebStockReservationStatus,
+} from "@/lib/api/comercioWeb";
+
+/** Cantidad alistada por `item.id`. */
+export type PickedQuantities = Record<number, number>;
+
+export type PickScanOutcome = "picked" | "completed_line" | "already_complete" | "not_in_order";
+
+export type PickScanResult = {
+  picked: PickedQuantities;
+  outcome: PickScanOutcome;
+  item: ComercioWebOrderItem | null;
+};
+
+export const STOCK_RESERVATION_LABELS: Record<ComercioWebStockReservationStatus, string> = {
+  none: "Sin reserva",
+  reserved: "Stock reservado",
+  released: "Reserva liberada",
+  consumed: "Reserva descontada en venta",
+};
+
+/** Estados en los que la orden se puede alistar: ya pagada y aún no lista. */
+export const PICKABLE_ORDER_STATUSES: ComercioWebOrderStatus[] = ["paid", "processing"];
+
+const normalizeCode = (value?: string | null) => (value ?? "").trim().toUpperCase();
+
+export function initialPickedQuantities(order: ComercioWebOrder): PickedQuantities {
+  return Object.fromEntries(
+    order.items.map((item) => [item.id, Math.min(item.quantity, item.picked_quantity ?? 0)])
+  );
+}
+
+/**
+ * Suma una unidad al ítem cuyo código de barras o SKU coincide con lo
+ * escaneado. Si el mismo producto aparece en varias líneas, llena primero la
+ * que aún tiene pendientes.
+ */
+export function applyPickScan(
+  items: ComercioWebOrderItem[],
+  picked: PickedQuantities,
+  code: string
+): PickScanResult {
+  const scanned = normalizeCode(code);
+  const matches = scanned
+    ? items.filter(
+        (item) =>
+          normalizeCode(item.product_barcode) === scanned || normalizeCode(item.product_sku) === scanned
+      )
+    : [];
+  if (matches.length === 0) return { picked, outcome: "not_in_order", item: null };
+  const target = matches.find((item) => (picked[item.id] ?? 0) < item.quantity);
+  if (!target) return { picked, outcome: "already_complete", item: matches[0] };
+  const nextQty = (picked[target.id] ?? 0) + 1;
+  return {
+    picked: { ...picked, [target.id]: nextQty },
+    outcome: nextQty >= target.quantity ? "completed_line" : "picked",
+    item: target,
+  };
+}
+
+/** Una orden sin unidades por alistar queda completa de una vez. */
+export function pickingProgress(items: ComercioWebOrderItem[], picked: PickedQuantities) {
+  const required = items.reduce((sum, item) => sum + item.quantity, 0);
+  const done = items.reduce(
+    (sum, item) => sum + Math.min(item.quantity, picked[item.id] ?? 0),
+    0
+  );
+  return { required, done, complete: done >= required };
+}
+
+export function isOrderPickingComplete(order: ComercioWebOrder): boolean {
+  return pickingProgress(order.items, initialPickedQuantities(order)).complete;
+}
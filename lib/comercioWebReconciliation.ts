@@ -0,0 +1,405 @@
+import type {
+  ComercioWebOrder,
+  ComercioWebOrderPayment,
+  ComercioWebPaymentStatus,
+} from "@/lib/api/comercioWeb";
+import type { WebCheckoutProvider } from "@/lib/api/webCheckoutPayments";
+
+export type ProviderTransaction = {
+  provider: WebCheckoutProvider;
+  /** Id de la transacción en el proveedor. */
+  id: string;
+  /** Referencia enviada en el checkout (Wompi `reference`, Mercado Pago `external_reference`). */
+  reference: string;
+  status: ComercioWebPaymentStatus;
+  providerStatus: string;
+  amount: number;
+  currency: string;
+  createdAt: string | null;
+};
+
+export type ProviderReportParseResult = {
+  provider: WebCheckoutProvider | null;
+  transactions: ProviderTransaction[];
+  errors: string[];
+};
+
+export type ReconciliationKind =
+  | "ok"
+  | "approved_unpaid"
+  | "paid_missing"
+  | "amount_mismatch"
+  | "status_mismatch"
+  | "unmatched";
+
+export type ReconciliationAction = "approve_payment" | "reject_payment" | "acknowledge";
+
+export type ReconciliationRow = {
+  key: string;
+  kind: ReconciliationKind;
+  transaction: ProviderTransaction | null;
+  order: ComercioWebOrder | null;
+  payment: ComercioWebOrderPayment | null;
+  suggestedAction: ReconciliationAction | null;
+};
+
+export const RECONCILIATION_KIND_LABELS: Record<ReconciliationKind, string> = {
+  ok: "Conciliado",
+  approved_unpaid: "Aprobado sin pago registrado",
+  paid_missing: "Pagado sin transacción aprobada",
+  amount_mismatch: "Monto distinto",
+  status_mismatch: "Estado distinto",
+  unmatched: "Sin orden asociada",
+};
+
+export const RECONCILIATION_ACTION_LABELS: Record<ReconciliationAction, string> = {
+  approve_payment: "Registrar pago aprobado",
+  reject_payment: "Marcar pago como rechazado",
+  acknowledge: "Dejar constancia sin cambios",
+};
+
+/** Prioridad para consolidar varios registros de una misma referencia externa. */
+export function paymentStatusPriority(status: string): number {
+  const normalized = (status || "").trim().toLowerCase();
+  if (normalized === "approved") return 5;
+  if (normalized === "refunded") return 4;
+  if (normalized === "cancelled") return 3;
+  if (normalized === "failed") return 2;
+  if (normalized === "pending") return 1;
+  return 0;
+}
+
+const normalizeHeader = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+
+const FIELD_ALIASES = {
+  id: ["id", "transaction_id", "id_transaccion", "id_de_la_transaccion", "source_id", "operation_id", "id_de_operacion", "payment_id"],
+  reference: ["reference", "referencia", "external_reference", "referencia_externa", "referencia_de_pago"],
+  status: ["status", "estado", "transaction_status", "estado_de_la_transaccion"],
+  amount: ["amount", "monto", "valor", "transaction_amount", "monto_de_la_transaccion"],
+  amountInCents: ["amount_in_cents", "monto_en_centavos"],
+  currency: ["currency", "currency_id", "moneda"],
+  createdAt: ["created_at", "date_created", "fecha", "fecha_de_creacion", "fecha_de_la_transaccion", "date_approved"],
+};
+
+function pickField(record: Record<string, unknown>, aliases: string[]): unknown {
+  for (const alias of aliases) {
+    if (record[alias] != null && record[alias] !== "") return record[alias];
+  }
+  return undefined;
+}
+
+/** Montos como `192000`, `192.000`, `192,000.50` o `192.000,50`. */
+export function parseReportAmount(value: unknown): number {
+  if (typeof value === "number") return Number.isFinite(value) ? value : 0;
+  if (typeof value !== "string") return 0;
+  let text = value.replace(/[^\d.,-]/g, "");
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma > -1 && lastDot > -1) {
+    const decimal = lastComma > lastDot ? "," : ".";
+    const thousands = decimal === "," ? "." : ",";
+    text = text.split(thousands).join("").replace(decimal, ".");
+  } else if (lastComma > -1 || lastDot > -1) {
+    const separator = lastComma > -1 ? "," : ".";
+    const parts = text.split(separator);
+    const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    text = isThousands ? parts.join("") : parts.join(".");
+  }
+  const parsed = Number(text);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+export function normalizeProviderStatus(value: string): ComercioWebPaymentStatus {
+  const status = normalizeHeader(value);
+  if (["approved", "aprobada", "aprobado", "accredited", "acreditado"].includes(status)) return "approved";
+  if (["refunded", "reembolsada", "reembolsado", "charged_back", "partially_refunded"].includes(status)) return "refunded";
+  if (["voided", "cancelled", "canceled", "anulada", "anulado", "cancelada", "cancelado"].includes(status)) return "cancelled";
+  if (["declined", "rejected", "error", "rechazada", "rechazado", "fallida"].includes(status)) return "failed";
+  return "pending";
+}
+
+function detectProvider(keys: Set<string>, statuses: string[], fileName: string): WebCheckoutProvider | null {
+  const name = fileName.toLowerCase();
+  if (name.includes("wompi")) return "wompi";
+  if (name.includes("mercado") || name.includes("mp_")) return "mercadopago";
+  if (keys.has("amount_in_cents") || statuses.some((status) => status === "DECLINED" || status === "VOIDED")) {
+    return "wompi";
+  }
+  if (keys.has("external_reference") || keys.has("transaction_amount") || keys.has("date_created")) {
+    return "mercadopago";
+  }
+  return null;
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map((cell) => cell.trim());
+}
+
+function parseCsvRecords(content: string): Record<string, unknown>[] {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) return [];
+  const delimiter = (lines[0].match(/;/g)?.length ?? 0) > (lines[0].match(/,/g)?.length ?? 0) ? ";" : ",";
+  const headers = splitCsvLine(lines[0], delimiter).map(normalizeHeader);
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line, delimiter);
+    return Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? ""]));
+  });
+}
+
+function parseJsonRecords(content: string): Record<string, unknown>[] {
+  const parsed = JSON.parse(content) as unknown;
+  const list = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object"
+      ? ((parsed as { data?: unknown; results?: unknown }).data ??
+        (parsed as { results?: unknown }).results)
+      : null;
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === "object")
+    .map((item) => Object.fromEntries(Object.entries(item).map(([key, value]) => [normalizeHeader(key), value])));
+}
+
+/** Lee el export de transacciones de Wompi o Mercado Pago (CSV o JSON). */
+export function parseProviderReport(
+  content: string,
+  fileName: string,
+  providerOverride?: WebCheckoutProvider | null
+): ProviderReportParseResult {
+  const errors: string[] = [];
+  let records: Record<string, unknown>[];
+  try {
+    records = content.trim().startsWith("{") || content.trim().startsWith("[")
+      ? parseJsonRecords(content)
+      : parseCsvRecords(content);
+  } catch {
+    return { provider: null, transactions: [], errors: ["El archivo no es un JSON válido."] };
+  }
+  if (records.length === 0) {
+    return { provider: null, transactions: [], errors: ["El archivo no tiene transacciones."] };
+  }
+  const keys = new Set(records.flatMap((record) => Object.keys(record)));
+  const rawStatuses = records.map((record) => String(pickField(record, FIELD_ALIASES.status) ?? ""));
+  const provider = providerOverride ?? detectProvider(keys, rawStatuses, fileName);
+  if (!provider) {
+    return {
+      provider: null,
+      transactions: [],
+      errors: ["No se reconoce el proveedor del archivo. Selecciónalo manualmente."],
+    };
+  }
+
+  const transactions: ProviderTransaction[] = [];
+  records.forEach((record, index) => {
+    const id = String(pickField(record, FIELD_ALIASES.id) ?? "").trim();
+    const reference = String(pickField(record, FIELD_ALIASES.reference) ?? "").trim();
+    if (!id && !reference) {
+      errors.push(`Fila ${index + 1}: sin id ni referencia.`);
+      return;
+    }
+    const cents = pickField(record, FIELD_ALIASES.amountInCents);
+    const amount =
+      cents != null ? parseReportAmount(cents) / 100 : parseReportAmount(pickField(record, FIELD_ALIASES.amount));
+    const providerStatus = String(pickField(record, FIELD_ALIASES.status) ?? "");
+    const createdAt = pickField(record, FIELD_ALIASES.createdAt);
+    transactions.push({
+      provider,
+      id,
+      reference,
+      status: normalizeProviderStatus(providerStatus),
+      providerStatus,
+      amount,
+      currency: String(pickField(record, FIELD_ALIASES.currency) ?? "COP").toUpperCase(),
+      createdAt: createdAt ? String(createdAt) : null,
+    });
+  });
+  return { provider, transactions, errors };
+}
+
+/** Rango de fechas que cubre el reporte; `null` si no trae fechas legibles. */
+export function providerReportRange(
+  transactions: ProviderTransaction[]
+): { from: string; to: string } | null {
+  const times = transactions
+    .map((tx) => (tx.createdAt ? new Date(tx.createdAt).getTime() : Number.NaN))
+    .filter((time) => Number.isFinite(time));
+  if (times.length === 0) return null;
+  return {
+    from: new Date(Math.min(...times)).toISOString(),
+    to: new Date(Math.max(...times)).toISOString(),
+  };
+}
+
+function orderMatchesReference(order: ComercioWebOrder, reference: string): boolean {
+  const ref = reference.trim().toUpperCase();
+  if (!ref) return false;
+  const candidates = [
+    order.document_number,
+    order.web_order_number != null ? String(order.web_order_number) : null,
+    String(order.id),
+  ]
+    .filter((value): value is string => Boolean(value))
+    .map((value) => value.toUpperCase());
+  return candidates.some((candidate) => ref === candidate || ref.startsWith(`${candidate}-`));
+}
+
+/**
+ * Agrupa las transacciones del reporte por referencia y deja la de mayor
+ * prioridad. Mercado Pago repite `external_reference` en cada reintento, así
+ * que un intento rechazado no debe compararse contra un pago ya aprobado.
+ */
+function consolidateTransactions(
+  transactions: ProviderTransaction[]
+): Array<{ transaction: ProviderTransaction; group: ProviderTransaction[] }> {
+  const groups = new Map<string, ProviderTransaction[]>();
+  transactions.forEach((tx, index) => {
+    const groupKey = tx.reference.trim() || tx.id.trim() || `#${index}`;
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), tx]);
+  });
+  return Array.from(groups.values()).map((group) => ({
+    transaction: group.reduce((best, tx) => {
+      const diff = paymentStatusPriority(tx.status) - paymentStatusPriority(best.status);
+      if (diff !== 0) return diff > 0 ? tx : best;
+      const txTime = tx.createdAt ? new Date(tx.createdAt).getTime() : 0;
+      const bestTime = best.createdAt ? new Date(best.createdAt).getTime() : 0;
+      return txTime >= bestTime ? tx : best;
+    }),
+    group,
+  }));
+}
+
+/**
+ * Cruza el reporte del proveedor con los pagos registrados. Las transacciones
+ * y los pagos de una misma referencia se consolidan con el estado de mayor
+ * prioridad; un pago aprobado que no aparece en el reporte solo se marca si
+ * cae en su rango.
+ */
+export function reconcileProviderTransactions(
+  transactions: ProviderTransaction[],
+  orders: ComercioWebOrder[],
+  provider: WebCheckoutProvider
+): ReconciliationRow[] {
+  const payments = new Map<string, { order: ComercioWebOrder; payment: ComercioWebOrderPayment }>();
+  orders.forEach((order) => {
+    order.payments.forEach((payment) => {
+      if ((payment.provider || "").trim().toLowerCase() !== provider) return;
+      const reference = (payment.provider_reference || "").trim();
+      if (!reference) return;
+      const existing = payments.get(reference);
+      if (
+        !existing ||
+        paymentStatusPriority(payment.status) > paymentStatusPriority(existing.payment.status) ||
+        (paymentStatusPriority(payment.status) === paymentStatusPriority(existing.payment.status) &&
+          new Date(payment.created_at).getTime() >= new Date(existing.payment.created_at).getTime())
+      ) {
+        payments.set(reference, { order, payment });
+      }
+    });
+  });
+
+  const seen = new Set<string>();
+  const rows: ReconciliationRow[] = consolidateTransactions(transactions).map(({ transaction: tx, group }, index) => {
+    group.forEach((member) => {
+      [member.id, member.reference].forEach((value) => {
+        if (value && payments.has(value)) seen.add(value);
+      });
+    });
+    const reference = [tx.id, tx.reference].find((value) => value && payments.has(value));
+    const local = reference ? payments.get(reference)! : null;
+    const key = `${tx.provider}:${tx.id || tx.reference}:${index}`;
+
+    if (!local) {
+      const order = orders.find((item) => orderMatchesReference(item, tx.reference)) ?? null;
+      return {
+        key,
+        kind: tx.status === "approved" ? "approved_unpaid" : "unmatched",
+        transaction: tx,
+        order,
+        payment: null,
+        suggestedAction: tx.status === "approved" && order ? "approve_payment" : null,
+      };
+    }
+
+    const { order, payment } = local;
+    let kind: ReconciliationKind = "ok";
+    let suggestedAction: ReconciliationAction | null = null;
+    if (tx.status === "approved" && payment.status !== "approved" && payment.status !== "refunded") {
+      kind = "approved_unpaid";
+      suggestedAction = "approve_payment";
+    } else if (payment.status === "approved" && (tx.status === "failed" || tx.status === "cancelled")) {
+      kind = "paid_missing";
+      suggestedAction = "reject_payment";
+    } else if (tx.status !== payment.status && tx.status !== "pending") {
+      kind = "status_mismatch";
+      suggestedAction = "acknowledge";
+    } else if (tx.status === "approved" && Math.abs(tx.amount - payment.amount) >= 1) {
+      kind = "amount_mismatch";
+      suggestedAction = "acknowledge";
+    }
+    return { key, kind, transaction: tx, order, payment, suggestedAction };
+  });
+
+  const range = providerReportRange(transactions);
+  payments.forEach(({ order, payment }, reference) => {
+    if (seen.has(reference) || payment.status !== "approved") return;
+    if (range) {
+      const time = new Date(payment.created_at).getTime();
+      if (time < new Date(range.from).getTime() || time > new Date(range.to).getTime()) return;
+    }
+    rows.push({
+      key: `${provider}:missing:${payment.id}`,
+      kind: "paid_missing",
+      transaction: null,
+      order,
+      payment,
+      suggestedAction: "acknowledge",
+    });
+  });
+  return rows;
+}
+
+export function summarizeReconciliation(rows: ReconciliationRow[]): Record<ReconciliationKind, number> {
+  const summary: Record<ReconciliationKind, number> = {
+    ok: 0,
+    approved_unpaid: 0,
+    paid_missing: 0,
+    amount_mismatch: 0,
+    status_mismatch: 0,
+    unmatched: 0,
+  };
+  rows.forEach((row) => {
+    summary[row.kind] += 1;
+  });
+  return summary;
+}
@@ -0,0 +1,133 @@
+import type {
+  ComercioWebAbandonedOrder,
+  ComercioWebRecoverySettings,
+} from "@/lib/api/comercioWebRecovery";
+import type { PosSettingsPayload } from "@/lib/api/settings";
+
+export type AbandonedOrderStage = "open" | "emailed" | "recovered" | "expired";
+
+export type RecoverySummary = {
+  abandoned: number;
+  emailed: number;
+  recovered: number;
+  expired: number;
+  /** Recuperadas sobre abandonadas. */
+  recoveryRate: number;
+  /** Recuperadas tras el correo sobre correos enviados. */
+  emailRecoveryRate: number;
+  revenueRecovered: number;
+  /** Valor de las abandonadas que aún pueden pagarse. */
+  openValue: number;
+};
+
+export const ABANDONED_STAGE_LABELS: Record<AbandonedOrderStage, string> = {
+  open: "Sin contacto",
+  emailed: "Correo enviado",
+  recovered: "Recuperada",
+  expired: "Vencida",
+};
+
+export const RECOVERY_MESSAGE_PLACEHOLDERS = ["{cliente}", "{pedido}", "{total}", "{enlace}", "{codigo}"];
+
+export const DEFAULT_RECOVERY_SETTINGS: Omit<ComercioWebRecoverySettings, "updated_at"> = {
+  enabled: false,
+  expire_after_hours: 72,
+  send_recovery_email: true,
+  email_delay_hours: 4,
+  email_subject: "Tu pedido {pedido} te está esperando",
+  email_message:
+    "Hola {cliente}, dejaste un pedido por {total} sin terminar. Puedes completarlo aquí: {enlace}",
+  discount_enabled: false,
+  discount_type: "percent",
+  discount_value: 5,
+  discount_valid_days: 7,
+};
+
+/** La recuperación gana sobre el vencimiento: el cliente pudo pagar la orden nueva después. */
+export function abandonedOrderStage(row: ComercioWebAbandonedOrder): AbandonedOrderStage {
+  if (row.recovered_at) return "recovered";
+  if (row.expired_at) return "expired";
+  if (row.email_sent_at) return "emailed";
+  return "open";
+}
+
+const ratio = (part: number, total: number) => (total > 0 ? part / total : 0);
+
+export function summarizeRecovery(rows: ComercioWebAbandonedOrder[]): RecoverySummary {
+  const summary: RecoverySummary = {
+    abandoned: rows.length,
+    emailed: 0,
+    recovered: 0,
+    expired: 0,
+    recoveryRate: 0,
+    emailRecoveryRate: 0,
+    revenueRecovered: 0,
+    openValue: 0,
+  };
+  let recoveredAfterEmail = 0;
+  for (const row of rows) {
+    const stage = abandonedOrderStage(row);
+    if (row.email_sent_at) summary.emailed += 1;
+    if (stage === "recovered") {
+      summary.recovered += 1;
+      summary.revenueRecovered += row.recovered_total ?? row.order_total;
+      if (row.email_sent_at) recoveredAfterEmail += 1;
+    } else if (stage === "expired") {
+      summary.expired += 1;
+    } else {
+      summary.openValue += row.order_total;
+    }
+  }
+  summary.recoveryRate = ratio(summary.recovered, summary.abandoned);
+  summary.emailRecoveryRate = ratio(recoveredAfterEmail, summary.emailed);
+  return summary;
+}
+
+export function renderRecoveryMessage(
+  template: string,
+  values: { cliente: string; pedido: string; total: string; enlace: string; codigo?: string | null }
+): string {
+  return template
+    .replace(/\{cliente\}/g, values.cliente)
+    .replace(/\{pedido\}/g, values.pedido)
+    .replace(/\{total\}/g, values.total)
+    .replace(/\{enlace\}/g, values.enlace)
+    .replace(/\{codigo\}/g, values.codigo ?? "");
+}
+
+export function validateRecoverySettings(
+  settings: Omit<ComercioWebRecoverySettings, "updated_at">
+): string | null {
+  if (!Number.isFinite(settings.expire_after_hours) || settings.expire_after_hours < 1) {
+    return "El vencimiento debe ser de al menos 1 hora.";
+  }
+  if (settings.send_recovery_email) {
+    if (settings.email_delay_hours < 0 || settings.email_delay_hours >= settings.expire_after_hours) {
+      return "El correo debe enviarse antes de que la orden venza.";
+    }
+    if (!settings.email_subject.trim() || !settings.email_message.trim()) {
+      return "Completa el asunto y el mensaje del correo.";
+    }
+    if (!settings.email_message.includes("{enlace}")) {
+      return "El mensaje debe incluir {enlace} para que el cliente retome su pedido.";
+    }
+  }
+  if (settings.discount_enabled) {
+    if (settings.discount_value <= 0) return "Indica el valor del descuento.";
+    if (settings.discount_type === "percent" && settings.discount_value > 100) {
+      return "El porcentaje de descuento no puede superar 100.";
+    }
+    if (settings.discount_valid_days < 1) return "El código debe ser válido al menos 1 día.";
+    if (settings.send_recovery_email && !settings.email_message.includes("{codigo}")) {
+      return "Incluye {codigo} en el mensaje para que el cliente reciba su descuento.";
+    }
+  }
+  return null;
+}
+
+/** Sin servidor y remitente la recuperación solo puede vencer órdenes. */
+export function isSmtpConfigured(
+  settings: Pick<PosSettingsPayload, "smtp_host" | "email_from"> | null
+): boolean {
+  return Boolean(settings?.smtp_host?.trim() && settings?.email_from?.trim());
+}
@@ -0,0 +1,143 @@
+import type {
+  ComercioWebOrder,
+  ComercioWebOrderItem,
+  ComercioWebOrderPayment,
+  ComercioWebRefundInput,
+  ComercioWebRefundResult,
+} from "@/lib/api/comercioWeb";
+
+export type WebRefundSelection = {
+  /** Unidades a reembolsar por `item.id`. */
+  quantities: Record<number, number>;
+  restock: boolean;
+  includeShipping: boolean;
+  /** Monto manual para un reembolso parcial que no corresponde a líneas. */
+  amountOverride?: number | null;
+};
+
+export type WebRefundPlan = {
+  input: ComercioWebRefundInput | null;
+  itemsAmount: number;
+  shippingAmount: number;
+  amount: number;
+  refundable: number;
+  error: string | null;
+};
+
+/** Quien ejecuta el reembolso: la API en el dashboard, un proveedor simulado en pruebas. */
+export type WebRefundGateway = {
+  refund(
+    orderId: number,
+    paymentId: number,
+    input: ComercioWebRefundInput
+  ): Promise<ComercioWebRefundResult>;
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+function activeRefunds(payment: ComercioWebOrderPayment) {
+  return (payment.refunds ?? []).filter((refund) => refund.status !== "failed");
+}
+
+export function paymentRefundedAmount(payment: ComercioWebOrderPayment): number {
+  const fromRefunds = activeRefunds(payment).reduce((sum, refund) => sum + refund.amount, 0);
+  return roundMoney(Math.max(payment.refunded_amount ?? 0, fromRefunds));
+}
+
+/** Solo los pagos aprobados tienen saldo reembolsable. */
+export function paymentRefundableAmount(payment: ComercioWebOrderPayment): number {
+  if (payment.status !== "approved") return 0;
+  return roundMoney(Math.max(0, payment.amount - paymentRefundedAmount(payment)));
+}
+
+export function itemRefundedQuantity(order: ComercioWebOrder, itemId: number): number {
+  return order.payments
+    .flatMap((payment) => activeRefunds(payment))
+    .flatMap((refund) => refund.items)
+    .filter((item) => item.order_item_id === itemId)
+    .reduce((sum, item) => sum + item.quantity, 0);
+}
+
+export function shippingAlreadyRefunded(order: ComercioWebOrder): boolean {
+  return order.payments.some((payment) =>
+    activeRefunds(payment).some((refund) => refund.includes_shipping)
+  );
+}
+
+/** Valor pagado por unidad, repartiendo el descuento de la orden entre las líneas. */
+export function itemRefundUnitAmount(order: ComercioWebOrder, item: ComercioWebOrderItem): number {
+  if (item.quantity <= 0) return 0;
+  const factor = order.subtotal > 0 ? Math.max(0, order.subtotal - order.discount_amount) / order.subtotal : 1;
+  return (item.line_total / item.quantity) * factor;
+}
+
+export function buildWebRefundPlan(
+  order: ComercioWebOrder,
+  payment: ComercioWebOrderPayment,
+  selection: WebRefundSelection
+): WebRefundPlan {
+  const refundable = paymentRefundableAmount(payment);
+  const items: ComercioWebRefundInput["items"] = [];
+  let itemsAmount = 0;
+  for (const item of order.items) {
+    const quantity = Math.floor(selection.quantities[item.id] ?? 0);
+    if (quantity <= 0) continue;
+    const remaining = item.quantity - itemRefundedQuantity(order, item.id);
+    if (quantity > remaining) {
+      return {
+        input: null,
+        itemsAmount: 0,
+        shippingAmount: 0,
+        amount: 0,
+        refundable,
+        error: `${item.product_name}: solo quedan ${Math.max(0, remaining)} unidad(es) por reembolsar.`,
+      };
+    }
+    items.push({ order_item_id: item.id, quantity, restock: selection.restock });
+    itemsAmount += itemRefundUnitAmount(order, item) * quantity;
+  }
+  itemsAmount = roundMoney(itemsAmount);
+  const shippingAmount =
+    selection.includeShipping && !shippingAlreadyRefunded(order) ? order.shipping_amount : 0;
+  const amount =
+    selection.amountOverride != null && selection.amountOverride > 0
+      ? roundMoney(selection.amountOverride)
+      : roundMoney(itemsAmount + shippingAmount);
+
+  let error: string | null = null;
+  if (refundable <= 0) error = "Este pago no tiene saldo por reembolsar.";
+  else if (amount <= 0) error = "Selecciona productos, el envío o un monto a reembolsar.";
+  else if (amount > refundable) error = "El reembolso supera lo disponible en este pago.";
+
+  return {
+    input: error
+      ? null
+      : { amount, reason: "", include_shipping: shippingAmount > 0, items },
+    itemsAmount,
+    shippingAmount,
+    amount,
+    refundable,
+    error,
+  };
+}
+
+/**
+ * Envía el reembolso al gateway. Un rechazo del proveedor llega como
+ * reembolso `failed` y se convierte en error para la pantalla.
+ */
+export async function submitWebRefund(
+  gateway: WebRefundGateway,
+  order: ComercioWebOrder,
+  payment: ComercioWebOrderPayment,
+  plan: WebRefundPlan,
+  reason: string
+): Promise<ComercioWebRefundResult> {
+  if (!plan.input) throw new Error(plan.error ?? "El reembolso no es válido.");
+  const trimmedReason = reason.trim();
+  if (!trimmedReason) throw new Error("Indica el motivo del reembolso.");
+  const result = await gateway.refund(order.id, payment.id, { ...plan.input, reason: trimmedReason });
+  if (result.refund.status === "failed") {
+    throw new Error(result.refund.error || "El proveedor rechazó el reembolso.");
+  }
+  return result;
+}
@@ -0,0 +1,287 @@
+/**
+ * Cálculos de nómina sobre fechas `YYYY-MM-DD`: periodos por frecuencia,
+ * siguiente fecha de pago, horas de turnos y boleta imprimible.
+ */
+
+import type { HrEmployeeRecord } from "../api/hr.ts";
+import type {
+  PayrollAdjustment,
+  PayrollEarning,
+  PayrollFrequency,
+  PayrollPayType,
+  PayrollRun,
+  PayrollRunUpdatePayload,
+} from "../api/payroll.ts";
+import type { ScheduleShiftRecord } from "../api/schedule.ts";
+
+export const PAYROLL_FREQUENCY_LABELS: Record<PayrollFrequency, string> = {
+  diario: "Diario",
+  semanal: "Semanal",
+  mensual: "Mensual",
+};
+
+export const PAYROLL_ADJUSTMENT_LABELS: Record<PayrollAdjustment["kind"], string> = {
+  deduction: "Deducción",
+  advance: "Anticipo",
+};
+
+export const PAYROLL_EARNING_LABELS: Record<PayrollEarning["kind"], string> = {
+  commission: "Comisión",
+};
+
+function parseKey(key: string): Date {
+  const [year, month, day] = key.slice(0, 10).split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDaysToKey(key: string, days: number): string {
+  const date = parseKey(key);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toKey(date);
+}
+
+function addMonthsToKey(key: string, months: number, dayOfMonth?: number | null): string {
+  const date = parseKey(key);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  target.setUTCDate(Math.min(dayOfMonth || date.getUTCDate(), lastDay));
+  return toKey(target);
+}
+
+/** Días que cubre el pago con vencimiento `dueKey`, terminando ese mismo día. */
+export function payrollPeriodForDue(
+  frequency: PayrollFrequency,
+  dueKey: string
+): { start: string; end: string } {
+  const end = dueKey.slice(0, 10);
+  if (frequency === "diario") return { start: end, end };
+  if (frequency === "semanal") return { start: addDaysToKey(end, -6), end };
+  return { start: addDaysToKey(addMonthsToKey(end, -1), 1), end };
+}
+
+const WEEKDAY_NAMES = ["domingo", "lunes", "martes", "miercoles", "jueves", "viernes", "sabado"];
+
+/** Día de la semana (0 = domingo) escrito en la ficha, p. ej. "Viernes" o "sábado". */
+export function parsePayrollWeekday(value?: string | null): number | null {
+  const word = (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+    .split(/[\s,;/]+/)[0];
+  if (!word) return null;
+  const index = WEEKDAY_NAMES.findIndex((name) => name === word || name.slice(0, 3) === word);
+  return index >= 0 ? index : null;
+}
+
+/** Siguiente vencimiento después de pagar el de `dueKey`. */
+export function nextPayrollDueDate(
+  employee: Pick<
+    HrEmployeeRecord,
+    "payroll_frequency" | "payroll_day_of_week" | "payroll_day_of_month"
+  >,
+  dueKey: string
+): string {
+  const frequency = employee.payroll_frequency ?? "mensual";
+  if (frequency === "diario") return addDaysToKey(dueKey, 1);
+  if (frequency === "semanal") {
+    const weekday = parsePayrollWeekday(employee.payroll_day_of_week);
+    if (weekday === null) return addDaysToKey(dueKey, 7);
+    const offset = (weekday - parseKey(dueKey).getUTCDay() + 7) % 7;
+    return addDaysToKey(dueKey, offset || 7);
+  }
+  return addMonthsToKey(dueKey, 1, employee.payroll_day_of_month);
+}
+
+export function isPayrollDue(employee: HrEmployeeRecord, todayKey: string): boolean {
+  if (employee.status !== "Activo") return false;
+  if (!employee.payroll_frequency || !employee.payroll_amount) return false;
+  const due = employee.payroll_next_due_at?.slice(0, 10);
+  return Boolean(due && due <= todayKey);
+}
+
+/** Lunes de cada semana del horario que toca el periodo. */
+export function scheduleWeekStartsForPeriod(start: string, end: string): string[] {
+  const first = parseKey(start);
+  const weekday = first.getUTCDay();
+  first.setUTCDate(first.getUTCDate() + (weekday === 0 ? -6 : 1 - weekday));
+  const weeks: string[] = [];
+  for (let key = toKey(first); key <= end; key = addDaysToKey(key, 7)) {
+    weeks.push(key);
+  }
+  return weeks;
+}
+
+export function sumShiftHours(
+  shifts: ScheduleShiftRecord[],
+  employeeId: number,
+  start: string,
+  end: string
+): number {
+  const total = shifts.reduce((sum, shift) => {
+    if (shift.employee_id !== employeeId || shift.is_time_off) return sum;
+    const day = shift.shift_date.slice(0, 10);
+    if (day < start || day > end) return sum;
+    return sum + (shift.total_hours || 0);
+  }, 0);
+  return Math.round(total * 100) / 100;
+}
+
+export function payrollGrossAmount(
+  payType: PayrollPayType,
+  baseAmount: number,
+  hoursWorked?: number | null
+): number {
+  if (payType === "por_hora") return Math.round(baseAmount * (hoursWorked ?? 0));
+  return Math.round(baseAmount);
+}
+
+export function summarizePayrollAdjustments(
+  gross: number,
+  adjustments: PayrollAdjustment[]
+): { deductions: number; advances: number; net: number } {
+  const deductions = adjustments
+    .filter((item) => item.kind === "deduction")
+    .reduce((sum, item) => sum + item.amount, 0);
+  const advances = adjustments
+    .filter((item) => item.kind === "advance")
+    .reduce((sum, item) => sum + item.amount, 0);
+  return { deductions, advances, net: gross - deductions - advances };
+}
+
+export function payrollEarningsTotal(earnings?: PayrollEarning[] | null): number {
+  return (earnings ?? []).reduce((sum, item) => sum + item.amount, 0);
+}
+
+/**
+ * Deja la comisión del mes `period` como devengo del pago pendiente. Reemplaza
+ * la que ya tuviera ese mes, así volver a pasarla a nómina no la duplica.
+ */
+export function withCommissionEarning(
+  run: Pick<PayrollRun, "gross_amount" | "earnings" | "adjustments">,
+  period: string,
+  amount: number
+): Pick<PayrollRunUpdatePayload, "earnings" | "gross_amount" | "net_amount"> {
+  const current = run.earnings ?? [];
+  const earnings: PayrollEarning[] = [
+    ...current.filter((item) => !(item.kind === "commission" && item.period === period)),
+    { kind: "commission", concept: `Comisiones ${period}`, amount, period },
+  ];
+  const gross =
+    run.gross_amount - payrollEarningsTotal(current) + payrollEarningsTotal(earnings);
+  const { net } = summarizePayrollAdjustments(gross, run.adjustments);
+  return { earnings, gross_amount: gross, net_amount: net };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatMoney(value: number, currency?: string | null) {
+  const amount = Math.round(value).toLocaleString("es-CO");
+  return currency && currency !== "COP" ? `${amount} ${currency}` : `$${amount}`;
+}
+
+export function buildPayslipHtml(
+  run: PayrollRun,
+  company: { name: string; address?: string | null }
+): string {
+  const { deductions, advances } = summarizePayrollAdjustments(
+    run.gross_amount,
+    run.adjustments
+  );
+  const money = (value: number) => escapeHtml(formatMoney(value, run.currency));
+  const earningDetail =
+    run.pay_type === "por_hora"
+      ? `${(run.hours_worked ?? 0).toLocaleString("es-CO")} h × ${money(run.base_amount)}`
+      : PAYROLL_FREQUENCY_LABELS[run.frequency];
+  const earningRows = (run.earnings ?? [])
+    .map(
+      (item) => `
+        <tr>
+          <td>${escapeHtml(PAYROLL_EARNING_LABELS[item.kind])}: ${escapeHtml(item.concept)}</td>
+          <td class="numeric">${money(item.amount)}</td>
+        </tr>`
+    )
+    .join("");
+  const adjustmentRows = run.adjustments
+    .map(
+      (item) => `
+        <tr>
+          <td>${escapeHtml(PAYROLL_ADJUSTMENT_LABELS[item.kind])}: ${escapeHtml(item.concept)}</td>
+          <td class="numeric">-${money(item.amount)}</td>
+        </tr>`
+    )
+    .join("");
+  return `<!DOCTYPE html>
+<html lang="es">
+  <head>
+    <meta charset="utf-8" />
+    <title>Boleta de pago ${escapeHtml(run.employee_name)} ${escapeHtml(run.period_end)}</title>
+    <style>
+      body { font-family: Arial, sans-serif; color: #0f172a; margin: 32px; font-size: 13px; }
+      h1 { font-size: 20px; margin: 0; }
+      .muted { color: #64748b; }
+      .header { display: flex; justify-content: space-between; gap: 16px; margin-bottom: 24px; }
+      table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+      th, td { padding: 8px; border-bottom: 1px solid #e2e8f0; text-align: left; }
+      .numeric { text-align: right; white-space: nowrap; }
+      .total td { font-weight: 700; font-size: 15px; border-bottom: none; }
+      .signatures { display: flex; gap: 48px; margin-top: 64px; }
+      .signatures div { flex: 1; border-top: 1px solid #94a3b8; padding-top: 6px; }
+    </style>
+  </head>
+  <body>
+    <div class="header">
+      <div>
+        <h1>${escapeHtml(company.name || "Boleta de pago")}</h1>
+        ${company.address ? `<p class="muted">${escapeHtml(company.address)}</p>` : ""}
+      </div>
+      <div class="numeric">
+        <strong>Boleta de pago</strong>
+        <p class="muted">Periodo ${escapeHtml(run.period_start)} a ${escapeHtml(run.period_end)}</p>
+        ${run.paid_at ? `<p class="muted">Pagado ${escapeHtml(run.paid_at.slice(0, 10))}</p>` : ""}
+      </div>
+    </div>
+    <p><strong>Empleado:</strong> ${escapeHtml(run.employee_name)}</p>
+    ${run.payment_method ? `<p><strong>Método:</strong> ${escapeHtml(run.payment_method)}</p>` : ""}
+    <table>
+      <thead>
+        <tr><th>Concepto</th><th class="numeric">Valor</th></tr>
+      </thead>
+      <tbody>
+        <tr>
+          <td>Salario (${escapeHtml(earningDetail)})</td>
+          <td class="numeric">${money(run.gross_amount - payrollEarningsTotal(run.earnings))}</td>
+        </tr>
+        ${earningRows}
+        ${adjustmentRows}
+        <tr>
+          <td class="muted">Total deducciones / anticipos</td>
+          <td class="numeric muted">-${money(deductions)} / -${money(advances)}</td>
+        </tr>
+        <tr class="total">
+          <td>Neto a pagar</td>
+          <td class="numeric">${money(run.net_amount)}</td>
+        </tr>
+      </tbody>
+    </table>
+    ${run.notes ? `<p class="muted">${escapeHtml(run.notes)}</p>` : ""}
+    <div class="signatures">
+      <div>Firma empleador</div>
+      <div>Firma empleado</div>
+    </div>
+  </body>
+</html>`;
+}
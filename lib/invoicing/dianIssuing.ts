@@ -0,0 +1,176 @@
+import type {
+  DianDocumentKind,
+  DianDocumentRecord,
+  DianDocumentSubmission,
+  DianSourceType,
+} from "@/lib/api/electronicInvoices";
+import type {
+  ChangeTicketOptions,
+  ReturnTicketOptions,
+  SaleTicketCustomer,
+  SaleTicketOptions,
+} from "../printing/saleTicket.ts";
+import {
+  buildDianCreditNote,
+  buildDianInvoice,
+  dianCreditNoteDraftFromReturn,
+  dianDraftsFromChange,
+  dianInvoiceDraftFromSale,
+  type DianDocument,
+  type DianInvoiceReference,
+  type DianInvoicingConfig,
+} from "./dianUbl.ts";
+
+/**
+ * Emisión de documentos electrónicos: el backend asigna el consecutivo, firma
+ * el XML y lo envía a la DIAN. Aquí se arma el XML con ese consecutivo y se
+ * evita reemitir lo que ya quedó registrado.
+ */
+
+/** Quien asigna consecutivos y recibe los documentos: la API en el POS, un simulado en pruebas. */
+export type DianIssuingGateway = {
+  find(
+    sourceType: DianSourceType,
+    sourceId: number,
+    kind: DianDocumentKind
+  ): Promise<DianDocumentRecord | null>;
+  reserveConsecutive(
+    kind: DianDocumentKind,
+    sourceType: DianSourceType,
+    sourceId: number
+  ): Promise<number>;
+  submit(input: DianDocumentSubmission): Promise<DianDocumentRecord>;
+};
+
+export type DianChangeDocuments = {
+  creditNote: DianDocumentRecord | null;
+  invoice: DianDocumentRecord | null;
+};
+
+async function issueOnce(
+  gateway: DianIssuingGateway,
+  source: { type: DianSourceType; id: number },
+  kind: DianDocumentKind,
+  customer: SaleTicketCustomer | null,
+  build: (consecutive: number) => Promise<DianDocument>
+): Promise<DianDocumentRecord> {
+  const existing = await gateway.find(source.type, source.id, kind);
+  if (existing && existing.status !== "rejected") return existing;
+  const consecutive = await gateway.reserveConsecutive(kind, source.type, source.id);
+  const document = await build(consecutive);
+  return gateway.submit({
+    kind,
+    source_type: source.type,
+    source_id: source.id,
+    consecutive,
+    number: document.number,
+    uuid: document.uuid,
+    issue_date: document.issueDate,
+    qr_payload: document.qrPayload,
+    customer,
+    xml: document.xml,
+  });
+}
+
+/** Solo una factura validada por la DIAN puede referenciarse desde una nota crédito. */
+async function validatedSaleInvoice(
+  gateway: DianIssuingGateway,
+  saleId: number
+): Promise<DianDocumentRecord | null> {
+  const invoice = await gateway.find("sale", saleId, "invoice");
+  return invoice?.status === "validated" ? invoice : null;
+}
+
+function invoiceReference(invoice: DianDocumentRecord): DianInvoiceReference {
+  return { number: invoice.number, cufe: invoice.uuid, issueDate: invoice.issue_date };
+}
+
+export function issueDianInvoiceForSale(
+  gateway: DianIssuingGateway,
+  config: DianInvoicingConfig,
+  saleId: number,
+  options: SaleTicketOptions
+): Promise<DianDocumentRecord> {
+  const customer = options.customer ?? null;
+  return issueOnce(gateway, { type: "sale", id: saleId }, "invoice", customer, (consecutive) =>
+    buildDianInvoice(dianInvoiceDraftFromSale(options, consecutive), config)
+  );
+}
+
+/** Nota crédito por una devolución; `null` si la venta no tiene factura electrónica validada. */
+export async function issueDianCreditNoteForReturn(
+  gateway: DianIssuingGateway,
+  config: DianInvoicingConfig,
+  input: { returnId: number; saleId: number; options: ReturnTicketOptions }
+): Promise<DianDocumentRecord | null> {
+  const invoice = await validatedSaleInvoice(gateway, input.saleId);
+  if (!invoice) return null;
+  const customer = invoice.customer ?? null;
+  return issueOnce(
+    gateway,
+    { type: "return", id: input.returnId },
+    "credit-note",
+    customer,
+    (consecutive) =>
+      buildDianCreditNote(
+        dianCreditNoteDraftFromReturn(input.options, {
+          consecutive,
+          reference: invoiceReference(invoice),
+          customer,
+        }),
+        config
+      )
+  );
+}
+
+/**
+ * Un cambio emite la nota crédito por lo devuelto y una factura por lo nuevo,
+ * ambas a nombre del adquiriente de la factura original.
+ */
+export async function issueDianDocumentsForChange(
+  gateway: DianIssuingGateway,
+  config: DianInvoicingConfig,
+  input: { changeId: number; saleId: number; options: ChangeTicketOptions }
+): Promise<DianChangeDocuments> {
+  const invoice = await validatedSaleInvoice(gateway, input.saleId);
+  if (!invoice) return { creditNote: null, invoice: null };
+  const customer = invoice.customer ?? null;
+  const source = { type: "change" as const, id: input.changeId };
+  const draftsFor = (creditNoteConsecutive: number, invoiceConsecutive: number) =>
+    dianDraftsFromChange(input.options, {
+      creditNoteConsecutive,
+      invoiceConsecutive,
+      reference: invoiceReference(invoice),
+      customer,
+    });
+
+  const creditNote = await issueOnce(gateway, source, "credit-note", customer, (consecutive) =>
+    buildDianCreditNote(draftsFor(consecutive, 0).creditNote, config)
+  );
+  if (!input.options.itemsNew.length) return { creditNote, invoice: null };
+  const newInvoice = await issueOnce(gateway, source, "invoice", customer, (consecutive) =>
+    buildDianInvoice(draftsFor(0, consecutive).invoice!, config)
+  );
+  return { creditNote, invoice: newInvoice };
+}
+
+const DIAN_KIND_LABELS: Record<DianDocumentKind, string> = {
+  invoice: "Factura electrónica",
+  "credit-note": "Nota crédito electrónica",
+};
+
+/** Mensaje para el cajero según lo que respondió la DIAN. */
+export function describeDianDocumentStatus(record: DianDocumentRecord): {
+  tone: "success" | "warning" | "error";
+  message: string;
+} {
+  const label = `${DIAN_KIND_LABELS[record.kind]} ${record.number}`;
+  if (record.status === "validated") {
+    return { tone: "success", message: `${label} validada por la DIAN.` };
+  }
+  if (record.status === "pending") {
+    return { tone: "warning", message: `${label} enviada; la DIAN aún no la valida.` };
+  }
+  const errors = record.errors?.length ? `: ${record.errors.join(" ")}` : ".";
+  return { tone: "error", message: `La DIAN rechazó la ${label.charAt(0).toLowerCase()}${label.slice(1)}${errors}` };
+}
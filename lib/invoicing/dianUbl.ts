@@ -0,0 +1,842 @@
+import type { PosElectronicInvoiceSettings, PosSettingsPayload } from "../api/settings.ts";
+import type {
+  ChangeTicketOptions,
+  ReturnTicketOptions,
+  SaleTicketCustomer,
+  SaleTicketOptions,
+} from "../printing/saleTicket.ts";
+import {
+  getTaxRateOption,
+  prorateLineTotals,
+  splitTaxAmount,
+  type TaxRateCode,
+} from "../pos/taxes.ts";
+import { getBogotaDateParts } from "../time/bogota.ts";
+
+/**
+ * Documentos electrónicos DIAN (anexo técnico de factura electrónica, UBL 2.1).
+ *
+ * Este módulo arma el XML sin firmar, el CUFE/CUDE y el contenido del QR. La
+ * firma XAdES y el envío al web service de la DIAN los hace el backend con el
+ * certificado de la empresa; aquí solo se deja el `UBLExtension` vacío donde va
+ * la firma.
+ */
+
+export type DianEnvironment = PosElectronicInvoiceSettings["environment"];
+
+export type DianInvoicingSettings = PosElectronicInvoiceSettings;
+
+export type DianIssuer = {
+  nit: string;
+  name: string;
+  address: string;
+  email?: string | null;
+  phone?: string | null;
+};
+
+export type DianInvoicingConfig = {
+  issuer: DianIssuer;
+  settings: DianInvoicingSettings;
+};
+
+export type DianIdType = "13" | "22" | "31" | "41";
+
+export type DianTaxSchemeCode = NonNullable<DianInvoicingSettings["tax_scheme"]>;
+
+export type DianParty = {
+  idType: DianIdType;
+  idNumber: string;
+  dv?: string | null;
+  name: string;
+  address: string;
+  email?: string | null;
+  phone?: string | null;
+  /** Responsabilidades fiscales; sin ellas se reporta R-99-PN (no responsable). */
+  taxLevelCodes?: string[] | null;
+  taxScheme?: DianTaxSchemeCode | null;
+};
+
+export type DianDocumentLine = {
+  description: string;
+  sku?: string | null;
+  quantity: number;
+  /** Valor cobrado por la línea, ya con descuentos; el IVA sale de aquí. */
+  total: number;
+  taxRate?: number | null;
+};
+
+export type DianPaymentMeansCode = "10" | "42" | "47" | "48" | "49" | "ZZZ";
+
+export type DianInvoiceDraft = {
+  consecutive: number | string;
+  issuedAt: Date;
+  customer: SaleTicketCustomer | null;
+  lines: DianDocumentLine[];
+  paymentMeans: DianPaymentMeansCode;
+  notes?: string | null;
+};
+
+/** Códigos DIAN del concepto de corrección de la nota crédito. */
+export type DianCreditNoteReason = "1" | "2" | "3" | "4" | "5" | "6";
+
+export type DianInvoiceReference = {
+  number: string;
+  cufe: string;
+  issueDate: string;
+};
+
+export type DianCreditNoteDraft = {
+  consecutive: number | string;
+  issuedAt: Date;
+  customer: SaleTicketCustomer | null;
+  lines: DianDocumentLine[];
+  reference: DianInvoiceReference;
+  reason: DianCreditNoteReason;
+  reasonDescription: string;
+  notes?: string | null;
+};
+
+export type DianTaxSubtotal = {
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+};
+
+export type DianTotals = {
+  lineExtension: number;
+  taxExclusive: number;
+  taxInclusive: number;
+  tax: number;
+  payable: number;
+  taxSubtotals: DianTaxSubtotal[];
+};
+
+export type DianDocument = {
+  kind: "invoice" | "credit-note";
+  number: string;
+  /** CUFE para facturas, CUDE para notas crédito. */
+  uuid: string;
+  issueDate: string;
+  issueTime: string;
+  totals: DianTotals;
+  qrPayload: string;
+  xml: string;
+};
+
+export class DianValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`El documento electrónico tiene datos incompletos: ${issues.join(" ")}`);
+    this.name = "DianValidationError";
+    this.issues = issues;
+  }
+}
+
+const DIAN_NIT = "800197268";
+const DIAN_AGENCY_ATTRS =
+  'schemeAgencyID="195" schemeAgencyName="CO, DIAN (Dirección de Impuestos y Aduanas Nacionales)"';
+const FINAL_CONSUMER: DianParty = {
+  idType: "13",
+  idNumber: "222222222222",
+  name: "Consumidor final",
+  address: "Sin dirección",
+};
+const QR_SEARCH_URL: Record<DianEnvironment, string> = {
+  production: "https://catalogo-vpfe.dian.gov.co/document/searchqr?documentkey=",
+  testing: "https://catalogo-vpfe-hab.dian.gov.co/document/searchqr?documentkey=",
+};
+const DIAN_TAX_SCHEME_NAMES: Record<DianTaxSchemeCode, string> = {
+  "01": "IVA",
+  ZZ: "No aplica",
+};
+const NIT_DV_WEIGHTS = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+const formatAmount = (value: number) => round2(value).toFixed(2);
+
+function escapeXml(value?: string | null): string {
+  if (!value) return "";
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Dígito de verificación del NIT (módulo 11 con los pesos de la DIAN). */
+export function computeNitCheckDigit(nit: string): number {
+  const digits = (nit ?? "").replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i += 1) {
+    sum += Number(digits[digits.length - 1 - i]) * (NIT_DV_WEIGHTS[i] ?? 0);
+  }
+  const remainder = sum % 11;
+  return remainder > 1 ? 11 - remainder : remainder;
+}
+
+/**
+ * Interpreta el documento del cliente tal como se escribe en el POS:
+ * "900123456-7" es un NIT con DV, "P:AB123" un pasaporte y los demás números se
+ * toman como cédula.
+ */
+export function parseDianTaxId(raw: string): Pick<DianParty, "idType" | "idNumber" | "dv"> {
+  const trimmed = (raw ?? "").trim();
+  if (/^p(asaporte)?\s*[:\s]/i.test(trimmed)) {
+    return { idType: "41", idNumber: trimmed.replace(/^p(asaporte)?\s*[:\s]\s*/i, "") };
+  }
+  if (/^ce\s*[:\s]/i.test(trimmed)) {
+    return { idType: "22", idNumber: trimmed.replace(/^ce\s*[:\s]\s*/i, "").replace(/\D/g, "") };
+  }
+  const nitMatch = /^([\d.\s]+)-\s*(\d)$/.exec(trimmed);
+  if (nitMatch) {
+    return { idType: "31", idNumber: nitMatch[1]!.replace(/\D/g, ""), dv: nitMatch[2]! };
+  }
+  return { idType: "13", idNumber: trimmed.replace(/\D/g, "") };
+}
+
+/** Revisa los datos del adquiriente que exige la DIAN. Devuelve los problemas encontrados. */
+export function validateDianCustomer(customer?: SaleTicketCustomer | null): string[] {
+  if (!customer) return [];
+  const issues: string[] = [];
+  if (!customer.name?.trim()) {
+    issues.push("El cliente no tiene nombre.");
+  }
+  const taxId = customer.taxId?.trim() ?? "";
+  if (!taxId) {
+    issues.push("Falta el NIT o documento del cliente.");
+  } else {
+    const parsed = parseDianTaxId(taxId);
+    if (!parsed.idNumber) {
+      issues.push("El documento del cliente no tiene un número válido.");
+    } else if (
+      parsed.idType === "31" &&
+      Number(parsed.dv) !== computeNitCheckDigit(parsed.idNumber)
+    ) {
+      issues.push(
+        `El dígito de verificación del NIT ${parsed.idNumber} debería ser ${computeNitCheckDigit(
+          parsed.idNumber
+        )}.`
+      );
+    }
+  }
+  if (!customer.address?.trim()) {
+    issues.push("Falta la dirección del cliente.");
+  }
+  return issues;
+}
+
+function toDianParty(customer: SaleTicketCustomer | null): DianParty {
+  if (!customer) return FINAL_CONSUMER;
+  const parsed = parseDianTaxId(customer.taxId ?? "");
+  return {
+    ...parsed,
+    name: customer.name.trim(),
+    address: customer.address?.trim() ?? "",
+    email: customer.email ?? null,
+    phone: customer.phone ?? null,
+  };
+}
+
+/** Arma la configuración a partir de los ajustes del POS, o `null` si no está activa. */
+export function resolveDianConfig(
+  settings?: PosSettingsPayload | null
+): DianInvoicingConfig | null {
+  const invoicing = settings?.electronic_invoice;
+  if (!settings || !invoicing?.technical_key?.trim()) return null;
+  return {
+    issuer: {
+      nit: settings.tax_id,
+      name: settings.company_name,
+      address: settings.address,
+      email: settings.contact_email,
+      phone: settings.contact_phone,
+    },
+    settings: invoicing,
+  };
+}
+
+/** Prefijo y rango del tipo de documento: la resolución para facturas, la numeración propia para notas. */
+function documentNumbering(settings: DianInvoicingSettings, kind: DianDocument["kind"]) {
+  if (kind === "invoice") {
+    return { prefix: settings.prefix ?? "", from: settings.range_from, to: settings.range_to };
+  }
+  return {
+    prefix: settings.credit_note_prefix ?? "",
+    from: settings.credit_note_range_from ?? 1,
+    to: settings.credit_note_range_to ?? Number.MAX_SAFE_INTEGER,
+  };
+}
+
+function validateConfig(
+  config: DianInvoicingConfig,
+  kind: DianDocument["kind"],
+  consecutive: number
+): string[] {
+  const issues: string[] = [];
+  const { issuer, settings } = config;
+  if (!issuer.nit?.replace(/\D/g, "")) issues.push("Falta el NIT de la empresa.");
+  if (!issuer.name?.trim()) issues.push("Falta la razón social de la empresa.");
+  if (!issuer.address?.trim()) issues.push("Falta la dirección de la empresa.");
+  if (!settings.tax_scheme || !settings.tax_responsibilities?.length) {
+    issues.push("Faltan las responsabilidades fiscales de la empresa.");
+  }
+  if (!settings.resolution_number?.trim()) {
+    issues.push("Falta el número de resolución de facturación.");
+  }
+  if (!settings.software_id?.trim() || !settings.software_pin?.trim()) {
+    issues.push("Falta el identificador o el PIN del software.");
+  }
+  if (kind === "credit-note" && !settings.credit_note_prefix?.trim()) {
+    issues.push("Falta el prefijo de las notas crédito.");
+  }
+  const numbering = documentNumbering(settings, kind);
+  if (
+    !Number.isInteger(consecutive) ||
+    consecutive <= 0 ||
+    consecutive < numbering.from ||
+    consecutive > numbering.to
+  ) {
+    issues.push(
+      kind === "invoice"
+        ? `El consecutivo ${consecutive} está fuera del rango autorizado (${numbering.from}-${numbering.to}).`
+        : `El consecutivo ${consecutive} está fuera de la numeración de notas crédito.`
+    );
+  }
+  return issues;
+}
+
+async function sha384Hex(value: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest(
+    "SHA-384",
+    new TextEncoder().encode(value)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function formatIssueDateTime(date: Date) {
+  const parts = getBogotaDateParts(date);
+  const hour = parts.hour === "24" ? "00" : parts.hour;
+  return {
+    issueDate: `${parts.year}-${parts.month}-${parts.day}`,
+    issueTime: `${hour}:${parts.minute}:${parts.second}-05:00`,
+  };
+}
+
+/**
+ * Calcula base gravable e IVA por línea y los totales del documento. El POS
+ * no suma IVA al cobrar, así que la base se saca del valor de cada línea y
+ * el total a pagar es lo que se cobró en la venta.
+ */
+export function computeDianTotals(
+  lines: DianDocumentLine[],
+  settings: Pick<DianInvoicingSettings, "default_tax_rate">
+): { lines: Array<DianDocumentLine & DianTaxSubtotal>; totals: DianTotals } {
+  const defaultRate = settings.default_tax_rate ?? 0;
+  const computed = lines.map((line) => {
+    const rate = line.taxRate ?? defaultRate;
+    const split = splitTaxAmount(line.total, rate);
+    return { ...line, rate, taxableAmount: split.base, taxAmount: split.tax };
+  });
+
+  const byRate = new Map<number, DianTaxSubtotal>();
+  computed.forEach((line) => {
+    const current = byRate.get(line.rate) ?? { rate: line.rate, taxableAmount: 0, taxAmount: 0 };
+    current.taxableAmount = round2(current.taxableAmount + line.taxableAmount);
+    current.taxAmount = round2(current.taxAmount + line.taxAmount);
+    byRate.set(line.rate, current);
+  });
+  const taxSubtotals = Array.from(byRate.values()).sort((a, b) => b.rate - a.rate);
+  const lineExtension = round2(computed.reduce((sum, line) => sum + line.taxableAmount, 0));
+  const tax = round2(taxSubtotals.reduce((sum, entry) => sum + entry.taxAmount, 0));
+  const taxExclusive = round2(
+    taxSubtotals
+      .filter((entry) => entry.rate > 0)
+      .reduce((sum, entry) => sum + entry.taxableAmount, 0)
+  );
+  return {
+    lines: computed,
+    totals: {
+      lineExtension,
+      taxExclusive,
+      taxInclusive: round2(lineExtension + tax),
+      tax,
+      payable: round2(lineExtension + tax),
+      taxSubtotals,
+    },
+  };
+}
+
+/** Texto del QR que exige la DIAN en la representación gráfica. */
+export function buildDianQrPayload(input: {
+  number: string;
+  issueDate: string;
+  issueTime: string;
+  issuerNit: string;
+  customerId: string;
+  totals: DianTotals;
+  uuid: string;
+  environment: DianEnvironment;
+}): string {
+  return [
+    `NumFac: ${input.number}`,
+    `FecFac: ${input.issueDate}`,
+    `HorFac: ${input.issueTime}`,
+    `NitFac: ${input.issuerNit}`,
+    `DocAdq: ${input.customerId}`,
+    `ValFac: ${formatAmount(input.totals.lineExtension)}`,
+    `ValIva: ${formatAmount(input.totals.tax)}`,
+    `ValOtroIm: ${formatAmount(0)}`,
+    `ValTolFac: ${formatAmount(input.totals.payable)}`,
+    `CUFE: ${input.uuid}`,
+    `QRCode: ${QR_SEARCH_URL[input.environment]}${input.uuid}`,
+  ].join("\n");
+}
+
+const money = (tag: string, value: number) =>
+  `<cbc:${tag} currencyID="COP">${formatAmount(value)}</cbc:${tag}>`;
+
+function renderParty(party: DianParty, role: "supplier" | "customer"): string {
+  const isCompany = party.idType === "31";
+  const taxLevelCodes = party.taxLevelCodes?.length ? party.taxLevelCodes : ["R-99-PN"];
+  const taxScheme = party.taxScheme ?? "ZZ";
+  const dvAttr = party.idType === "31" ? ` schemeID="${party.dv ?? ""}"` : "";
+  const companyId = `<cbc:CompanyID ${DIAN_AGENCY_ATTRS}${dvAttr} schemeName="${party.idType}">${escapeXml(
+    party.idNumber
+  )}</cbc:CompanyID>`;
+  const tag = role === "supplier" ? "AccountingSupplierParty" : "AccountingCustomerParty";
+  return `<cac:${tag}>
+    <cbc:AdditionalAccountID>${isCompany ? "1" : "2"}</cbc:AdditionalAccountID>
+    <cac:Party>
+      <cac:PartyName><cbc:Name>${escapeXml(party.name)}</cbc:Name></cac:PartyName>
+      <cac:PhysicalLocation><cac:Address>
+        <cac:AddressLine><cbc:Line>${escapeXml(party.address)}</cbc:Line></cac:AddressLine>
+        <cac:Country><cbc:IdentificationCode>CO</cbc:IdentificationCode></cac:Country>
+      </cac:Address></cac:PhysicalLocation>
+      <cac:PartyTaxScheme>
+        <cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>
+        ${companyId}
+        <cbc:TaxLevelCode listName="48">${escapeXml(taxLevelCodes.join(";"))}</cbc:TaxLevelCode>
+        <cac:TaxScheme><cbc:ID>${taxScheme}</cbc:ID><cbc:Name>${DIAN_TAX_SCHEME_NAMES[taxScheme]}</cbc:Name></cac:TaxScheme>
+      </cac:PartyTaxScheme>
+      <cac:PartyLegalEntity>
+        <cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>
+        ${companyId}
+      </cac:PartyLegalEntity>${
+        party.email || party.phone
+          ? `
+      <cac:Contact>${party.phone ? `<cbc:Telephone>${escapeXml(party.phone)}</cbc:Telephone>` : ""}${
+              party.email ? `<cbc:ElectronicMail>${escapeXml(party.email)}</cbc:ElectronicMail>` : ""
+            }</cac:Contact>`
+          : ""
+      }
+    </cac:Party>
+  </cac:${tag}>`;
+}
+
+function renderTaxTotal(taxAmount: number, subtotals: DianTaxSubtotal[]): string {
+  return `<cac:TaxTotal>
+    ${money("TaxAmount", taxAmount)}
+    ${subtotals
+      .map(
+        (entry) => `<cac:TaxSubtotal>
+      ${money("TaxableAmount", entry.taxableAmount)}
+      ${money("TaxAmount", entry.taxAmount)}
+      <cac:TaxCategory>
+        <cbc:Percent>${entry.rate.toFixed(2)}</cbc:Percent>
+        <cac:TaxScheme><cbc:ID>01</cbc:ID><cbc:Name>IVA</cbc:Name></cac:TaxScheme>
+      </cac:TaxCategory>
+    </cac:TaxSubtotal>`
+      )
+      .join("\n    ")}
+  </cac:TaxTotal>`;
+}
+
+function renderLines(
+  lines: Array<DianDocumentLine & DianTaxSubtotal>,
+  kind: DianDocument["kind"]
+): string {
+  const lineTag = kind === "invoice" ? "InvoiceLine" : "CreditNoteLine";
+  const qtyTag = kind === "invoice" ? "InvoicedQuantity" : "CreditedQuantity";
+  return lines
+    .map((line, index) => {
+      const unitBase = line.quantity > 0 ? line.taxableAmount / line.quantity : line.taxableAmount;
+      return `<cac:${lineTag}>
+    <cbc:ID>${index + 1}</cbc:ID>
+    <cbc:${qtyTag} unitCode="94">${line.quantity}</cbc:${qtyTag}>
+    ${money("LineExtensionAmount", line.taxableAmount)}
+    ${renderTaxTotal(line.taxAmount, [line])}
+    <cac:Item>
+      <cbc:Description>${escapeXml(line.description)}</cbc:Description>${
+        line.sku
+          ? `
+      <cac:StandardItemIdentification><cbc:ID schemeID="999">${escapeXml(
+        line.sku
+      )}</cbc:ID></cac:StandardItemIdentification>`
+          : ""
+      }
+    </cac:Item>
+    <cac:Price>
+      ${money("PriceAmount", unitBase)}
+      <cbc:BaseQuantity unitCode="94">1</cbc:BaseQuantity>
+    </cac:Price>
+  </cac:${lineTag}>`;
+    })
+    .join("\n  ");
+}
+
+type BuildContext = {
+  kind: DianDocument["kind"];
+  config: DianInvoicingConfig;
+  consecutive: number | string;
+  issuedAt: Date;
+  customer: SaleTicketCustomer | null;
+  lines: DianDocumentLine[];
+  notes?: string | null;
+};
+
+async function buildDianDocument(
+  context: BuildContext,
+  renderBody: (shared: {
+    number: string;
+    uuid: string;
+    issueDate: string;
+    issueTime: string;
+    totals: DianTotals;
+    extensions: string;
+    parties: string;
+    lineXml: string;
+  }) => string
+): Promise<DianDocument> {
+  const { config, kind } = context;
+  const consecutive = Number(String(context.consecutive).replace(/\D/g, ""));
+  const issues = [
+    ...validateConfig(config, kind, consecutive),
+    ...validateDianCustomer(context.customer),
+  ];
+  if (!context.lines.length) issues.push("El documento no tiene productos.");
+  if (issues.length) throw new DianValidationError(issues);
+
+  const { settings } = config;
+  const issuerNit = config.issuer.nit.split("-")[0]!.replace(/\D/g, "");
+  const number = `${documentNumbering(settings, kind).prefix}${consecutive}`;
+  const { issueDate, issueTime } = formatIssueDateTime(context.issuedAt);
+  const computed = computeDianTotals(context.lines, settings);
+  const totals = computed.totals;
+  const customer = toDianParty(context.customer);
+  const environmentCode = settings.environment === "production" ? "1" : "2";
+
+  // CUFE usa la clave técnica de la resolución; el CUDE de la nota usa el PIN del software.
+  const uuid = await sha384Hex(
+    [
+      number,
+      issueDate,
+      issueTime,
+      formatAmount(totals.lineExtension),
+      "01",
+      formatAmount(totals.tax),
+      "04",
+      formatAmount(0),
+      "03",
+      formatAmount(0),
+      formatAmount(totals.payable),
+      issuerNit,
+      customer.idNumber,
+      kind === "invoice" ? settings.technical_key : settings.software_pin,
+      environmentCode,
+    ].join("")
+  );
+  const securityCode = await sha384Hex(
+    `${settings.software_id}${settings.software_pin}${number}`
+  );
+  const qrPayload = buildDianQrPayload({
+    number,
+    issueDate,
+    issueTime,
+    issuerNit,
+    customerId: customer.idNumber,
+    totals,
+    uuid,
+    environment: settings.environment,
+  });
+
+  const providerAttrs = `${DIAN_AGENCY_ATTRS} schemeID="${computeNitCheckDigit(issuerNit)}" schemeName="31"`;
+  const authorizationProviderAttrs = `${DIAN_AGENCY_ATTRS} schemeID="${computeNitCheckDigit(DIAN_NIT)}" schemeName="31"`;
+  const extensions = `<ext:UBLExtensions>
+    <ext:UBLExtension>
+      <ext:ExtensionContent>
+        <sts:DianExtensions>${
+          kind === "invoice"
+            ? `
+          <sts:InvoiceControl>
+            <sts:InvoiceAuthorization>${escapeXml(settings.resolution_number)}</sts:InvoiceAuthorization>
+            <sts:AuthorizationPeriod>
+              <cbc:StartDate>${escapeXml(settings.valid_from)}</cbc:StartDate>
+              <cbc:EndDate>${escapeXml(settings.valid_to)}</cbc:EndDate>
+            </sts:AuthorizationPeriod>
+            <sts:AuthorizedInvoices>
+              <sts:Prefix>${escapeXml(settings.prefix)}</sts:Prefix>
+              <sts:From>${settings.range_from}</sts:From>
+              <sts:To>${settings.range_to}</sts:To>
+            </sts:AuthorizedInvoices>
+          </sts:InvoiceControl>`
+            : ""
+        }
+          <sts:InvoiceSource><cbc:IdentificationCode listAgencyID="6" listAgencyName="United Nations Economic Commission for Europe" listSchemeURI="urn:oasis:names:specification:ubl:codelist:gc:CountryIdentificationCode-2.1">CO</cbc:IdentificationCode></sts:InvoiceSource>
+          <sts:SoftwareProvider>
+            <sts:ProviderID ${providerAttrs}>${issuerNit}</sts:ProviderID>
+            <sts:SoftwareID ${DIAN_AGENCY_ATTRS}>${escapeXml(settings.software_id)}</sts:SoftwareID>
+          </sts:SoftwareProvider>
+          <sts:SoftwareSecurityCode ${DIAN_AGENCY_ATTRS}>${securityCode}</sts:SoftwareSecurityCode>
+          <sts:AuthorizationProvider>
+            <sts:AuthorizationProviderID ${authorizationProviderAttrs}>${DIAN_NIT}</sts:AuthorizationProviderID>
+          </sts:AuthorizationProvider>
+          <sts:QRCode>${escapeXml(qrPayload)}</sts:QRCode>
+        </sts:DianExtensions>
+      </ext:ExtensionContent>
+    </ext:UBLExtension>
+    <ext:UBLExtension>
+      <ext:ExtensionContent></ext:ExtensionContent>
+    </ext:UBLExtension>
+  </ext:UBLExtensions>`;
+
+  const supplier: DianParty = {
+    idType: "31",
+    idNumber: issuerNit,
+    dv: String(computeNitCheckDigit(issuerNit)),
+    name: config.issuer.name,
+    address: config.issuer.address,
+    email: config.issuer.email,
+    phone: config.issuer.phone,
+    taxLevelCodes: settings.tax_responsibilities,
+    taxScheme: settings.tax_scheme,
+  };
+  const parties = `${renderParty(supplier, "supplier")}
+  ${renderParty(customer, "customer")}`;
+
+  const xml = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n${renderBody({
+    number,
+    uuid,
+    issueDate,
+    issueTime,
+    totals,
+    extensions,
+    parties,
+    lineXml: renderLines(computed.lines, kind),
+  })}\n`;
+
+  return { kind, number, uuid, issueDate, issueTime, totals, qrPayload, xml };
+}
+
+const UBL_NAMESPACES =
+  'xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2" xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2" xmlns:sts="dian:gov:co:facturaelectronica:Structures-2-1" xmlns:ds="http://www.w3.org/2000/09/xmldsig#"';
+
+function renderMonetaryTotal(totals: DianTotals): string {
+  return `<cac:LegalMonetaryTotal>
+    ${money("LineExtensionAmount", totals.lineExtension)}
+    ${money("TaxExclusiveAmount", totals.taxExclusive)}
+    ${money("TaxInclusiveAmount", totals.taxInclusive)}
+    ${money("PayableAmount", totals.payable)}
+  </cac:LegalMonetaryTotal>`;
+}
+
+export function buildDianInvoice(
+  draft: DianInvoiceDraft,
+  config: DianInvoicingConfig
+): Promise<DianDocument> {
+  const environmentCode = config.settings.environment === "production" ? "1" : "2";
+  return buildDianDocument(
+    { kind: "invoice", config, ...draft },
+    (doc) => `<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2" ${UBL_NAMESPACES}>
+  ${doc.extensions}
+  <cbc:UBLVersionID>UBL 2.1</cbc:UBLVersionID>
+  <cbc:CustomizationID>10</cbc:CustomizationID>
+  <cbc:ProfileID>DIAN 2.1: Factura Electrónica de Venta</cbc:ProfileID>
+  <cbc:ProfileExecutionID>${environmentCode}</cbc:ProfileExecutionID>
+  <cbc:ID>${escapeXml(doc.number)}</cbc:ID>
+  <cbc:UUID schemeID="${environmentCode}" schemeName="CUFE-SHA384">${doc.uuid}</cbc:UUID>
+  <cbc:IssueDate>${doc.issueDate}</cbc:IssueDate>
+  <cbc:IssueTime>${doc.issueTime}</cbc:IssueTime>
+  <cbc:InvoiceTypeCode>01</cbc:InvoiceTypeCode>${
+    draft.notes?.trim() ? `\n  <cbc:Note>${escapeXml(draft.notes.trim())}</cbc:Note>` : ""
+  }
+  <cbc:DocumentCurrencyCode>COP</cbc:DocumentCurrencyCode>
+  <cbc:LineCountNumeric>${draft.lines.length}</cbc:LineCountNumeric>
+  ${doc.parties}
+  <cac:PaymentMeans>
+    <cbc:ID>1</cbc:ID>
+    <cbc:PaymentMeansCode>${draft.paymentMeans}</cbc:PaymentMeansCode>
+  </cac:PaymentMeans>
+  ${renderTaxTotal(doc.totals.tax, doc.totals.taxSubtotals)}
+  ${renderMonetaryTotal(doc.totals)}
+  ${doc.lineXml}
+</Invoice>`
+  );
+}
+
+export function buildDianCreditNote(
+  draft: DianCreditNoteDraft,
+  config: DianInvoicingConfig
+): Promise<DianDocument> {
+  const environmentCode = config.settings.environment === "production" ? "1" : "2";
+  return buildDianDocument(
+    { kind: "credit-note", config, ...draft },
+    (doc) => `<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2" ${UBL_NAMESPACES}>
+  ${doc.extensions}
+  <cbc:UBLVersionID>UBL 2.1</cbc:UBLVersionID>
+  <cbc:CustomizationID>20</cbc:CustomizationID>
+  <cbc:ProfileID>DIAN 2.1: Nota Crédito de Factura Electrónica de Venta</cbc:ProfileID>
+  <cbc:ProfileExecutionID>${environmentCode}</cbc:ProfileExecutionID>
+  <cbc:ID>${escapeXml(doc.number)}</cbc:ID>
+  <cbc:UUID schemeID="${environmentCode}" schemeName="CUDE-SHA384">${doc.uuid}</cbc:UUID>
+  <cbc:IssueDate>${doc.issueDate}</cbc:IssueDate>
+  <cbc:IssueTime>${doc.issueTime}</cbc:IssueTime>
+  <cbc:CreditNoteTypeCode>91</cbc:CreditNoteTypeCode>${
+    draft.notes?.trim() ? `\n  <cbc:Note>${escapeXml(draft.notes.trim())}</cbc:Note>` : ""
+  }
+  <cbc:DocumentCurrencyCode>COP</cbc:DocumentCurrencyCode>
+  <cbc:LineCountNumeric>${draft.lines.length}</cbc:LineCountNumeric>
+  <cac:DiscrepancyResponse>
+    <cbc:ReferenceID>${escapeXml(draft.reference.number)}</cbc:ReferenceID>
+    <cbc:ResponseCode>${draft.reason}</cbc:ResponseCode>
+    <cbc:Description>${escapeXml(draft.reasonDescription)}</cbc:Description>
+  </cac:DiscrepancyResponse>
+  <cac:BillingReference>
+    <cac:InvoiceDocumentReference>
+      <cbc:ID>${escapeXml(draft.reference.number)}</cbc:ID>
+      <cbc:UUID schemeName="CUFE-SHA384">${escapeXml(draft.reference.cufe)}</cbc:UUID>
+      <cbc:IssueDate>${escapeXml(draft.reference.issueDate)}</cbc:IssueDate>
+    </cac:InvoiceDocumentReference>
+  </cac:BillingReference>
+  ${doc.parties}
+  ${renderTaxTotal(doc.totals.tax, doc.totals.taxSubtotals)}
+  ${renderMonetaryTotal(doc.totals)}
+  ${doc.lineXml}
+</CreditNote>`
+  );
+}
+
+const linePercent = (code?: TaxRateCode | null) => (code ? getTaxRateOption(code).percent : null);
+
+function resolvePaymentMeans(labels: string[]): DianPaymentMeansCode {
+  const normalized = labels.map((label) => label.toLowerCase());
+  if (normalized.length !== 1) return normalized.length ? "ZZZ" : "10";
+  const [label] = normalized;
+  if (label!.includes("efectivo") || label!.includes("cash")) return "10";
+  if (label!.includes("crédito") || label!.includes("credito")) return "48";
+  if (label!.includes("débito") || label!.includes("debito") || label!.includes("tarjeta")) {
+    return "49";
+  }
+  if (label!.includes("transfer") || label!.includes("nequi") || label!.includes("davi")) {
+    return "47";
+  }
+  if (label!.includes("consigna")) return "42";
+  return "ZZZ";
+}
+
+/** `consecutive` es el que asigna el backend para la resolución, no el número de venta del POS. */
+export function dianInvoiceDraftFromSale(
+  options: SaleTicketOptions,
+  consecutive: number | string
+): DianInvoiceDraft {
+  const lines = options.items.map((item) => ({
+    description: item.name,
+    quantity: item.quantity,
+    total: item.total,
+    taxRate: linePercent(item.taxRate),
+  }));
+  return {
+    consecutive,
+    issuedAt: options.date,
+    customer: options.customer ?? null,
+    lines: prorateLineTotals(lines, options.total),
+    paymentMeans: resolvePaymentMeans(
+      options.payments.filter((payment) => payment.amount > 0).map((payment) => payment.label)
+    ),
+    notes: options.notes,
+  };
+}
+
+export function dianCreditNoteDraftFromReturn(
+  options: ReturnTicketOptions,
+  input: {
+    consecutive: number | string;
+    reference: DianInvoiceReference;
+    customer?: SaleTicketCustomer | null;
+  }
+): DianCreditNoteDraft {
+  return {
+    consecutive: input.consecutive,
+    issuedAt: options.createdAt ? new Date(options.createdAt) : new Date(),
+    customer: input.customer ?? null,
+    lines: prorateLineTotals(
+      options.items.map((item) => ({
+        description: item.name,
+        sku: item.sku,
+        quantity: item.quantity,
+        total: item.total,
+        taxRate: linePercent(item.taxRate),
+      })),
+      options.totalRefund
+    ),
+    reference: input.reference,
+    reason: "1",
+    reasonDescription: `Devolución de productos (${options.documentNumber})`,
+    notes: options.notes,
+  };
+}
+
+/**
+ * Un cambio se reporta como nota crédito por lo devuelto y, si entraron
+ * productos nuevos, una factura nueva por ellos.
+ */
+export function dianDraftsFromChange(
+  options: ChangeTicketOptions,
+  input: {
+    creditNoteConsecutive: number | string;
+    invoiceConsecutive: number | string;
+    reference: DianInvoiceReference;
+    customer?: SaleTicketCustomer | null;
+  }
+): { creditNote: DianCreditNoteDraft; invoice: DianInvoiceDraft | null } {
+  const issuedAt = options.createdAt ? new Date(options.createdAt) : new Date();
+  const customer = input.customer ?? null;
+  const creditNote: DianCreditNoteDraft = {
+    consecutive: input.creditNoteConsecutive,
+    issuedAt,
+    customer,
+    lines: options.itemsReturned.map((item) => ({
+      description: item.name,
+      sku: item.sku,
+      quantity: item.quantity,
+      total: item.total,
+      taxRate: linePercent(item.taxRate),
+    })),
+    reference: input.reference,
+    reason: "1",
+    reasonDescription: `Cambio de productos (${options.documentNumber})`,
+    notes: options.notes,
+  };
+  const invoice: DianInvoiceDraft | null = options.itemsNew.length
+    ? {
+        consecutive: input.invoiceConsecutive,
+        issuedAt,
+        customer,
+        lines: options.itemsNew.map((item) => ({
+          description: item.name,
+          sku: item.sku,
+          quantity: item.quantity,
+          total: item.total,
+          taxRate: linePercent(item.taxRate),
+        })),
+        paymentMeans: resolvePaymentMeans(
+          options.payments.filter((payment) => payment.amount > 0).map((payment) => payment.label)
+        ),
+        notes: options.notes,
+      }
+    : null;
+  return { creditNote, invoice };
+}
@@ -0,0 +1,158 @@
+import type {
+  CashMovement,
+  CashMovementKind,
+  CashSession,
+  DenominationCounts,
+} from "../api/cashSessions.ts";
+import type {
+  ClosureTicketCashSession,
+  ClosureTicketDenomination,
+} from "../printing/saleTicket.ts";
+
+/**
+ * Sesiones de caja por estación: base inicial contada por denominación,
+ * entradas/salidas de efectivo con motivo y consignaciones a caja fuerte.
+ *
+ * El backend guarda la sesión; aquí solo se calcula el efectivo que debería
+ * haber en el cajón para que el supervisor pueda explicar diferencias
+ * durante el día y no solo en el cierre.
+ */
+
+export type CashDenomination = {
+  key: string;
+  value: number;
+  kind: "bill" | "coin";
+  label: string;
+};
+
+/** Billetes y monedas en circulación (COP). Existen billete y moneda de $1.000. */
+export const COP_DENOMINATIONS: CashDenomination[] = [
+  { key: "b100000", value: 100000, kind: "bill", label: "$100.000" },
+  { key: "b50000", value: 50000, kind: "bill", label: "$50.000" },
+  { key: "b20000", value: 20000, kind: "bill", label: "$20.000" },
+  { key: "b10000", value: 10000, kind: "bill", label: "$10.000" },
+  { key: "b5000", value: 5000, kind: "bill", label: "$5.000" },
+  { key: "b2000", value: 2000, kind: "bill", label: "$2.000" },
+  { key: "b1000", value: 1000, kind: "bill", label: "$1.000" },
+  { key: "c1000", value: 1000, kind: "coin", label: "$1.000" },
+  { key: "c500", value: 500, kind: "coin", label: "$500" },
+  { key: "c200", value: 200, kind: "coin", label: "$200" },
+  { key: "c100", value: 100, kind: "coin", label: "$100" },
+  { key: "c50", value: 50, kind: "coin", label: "$50" },
+];
+
+export type DenominationCountRow = CashDenomination & {
+  quantity: number;
+  subtotal: number;
+};
+
+function normalizeQuantity(raw: unknown): number {
+  const quantity = Math.floor(Number(raw ?? 0));
+  return Number.isFinite(quantity) && quantity > 0 ? quantity : 0;
+}
+
+/** Denominaciones con cantidad, en el orden de `COP_DENOMINATIONS`. */
+export function describeDenominationCounts(
+  counts: DenominationCounts | null | undefined
+): DenominationCountRow[] {
+  if (!counts) return [];
+  return COP_DENOMINATIONS.flatMap((denomination) => {
+    const quantity = normalizeQuantity(counts[denomination.key]);
+    if (!quantity) return [];
+    return [{ ...denomination, quantity, subtotal: quantity * denomination.value }];
+  });
+}
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovementKind, string> = {
+  paid_in: "Entrada de efectivo",
+  paid_out: "Salida de efectivo",
+  safe_drop: "Consignación a caja fuerte",
+};
+
+/** Total del conteo; ignora claves desconocidas y cantidades inválidas. */
+export function sumDenominations(counts: DenominationCounts): number {
+  return describeDenominationCounts(counts).reduce(
+    (total, row) => total + row.subtotal,
+    0
+  );
+}
+
+export type CashMovementSummary = {
+  paidIn: number;
+  paidOut: number;
+  safeDrops: number;
+};
+
+export function summarizeCashMovements(
+  movements: Pick<CashMovement, "kind" | "amount">[]
+): CashMovementSummary {
+  return movements.reduce<CashMovementSummary>(
+    (summary, movement) => {
+      const amount = Math.abs(Number(movement.amount) || 0);
+      if (movement.kind === "paid_in") summary.paidIn += amount;
+      else if (movement.kind === "paid_out") summary.paidOut += amount;
+      else if (movement.kind === "safe_drop") summary.safeDrops += amount;
+      return summary;
+    },
+    { paidIn: 0, paidOut: 0, safeDrops: 0 }
+  );
+}
+
+/** Signo con el que el movimiento afecta el efectivo del cajón. */
+export function signedCashMovementAmount(
+  movement: Pick<CashMovement, "kind" | "amount">
+): number {
+  const amount = Math.abs(Number(movement.amount) || 0);
+  return movement.kind === "paid_in" ? amount : -amount;
+}
+
+/**
+ * Efectivo que debería haber en el cajón: base inicial + ventas en efectivo
+ * + entradas − salidas − consignaciones.
+ */
+export function computeExpectedCash({
+  openingFloat,
+  cashSales,
+  movements,
+}: {
+  openingFloat: number;
+  cashSales: number;
+  movements: Pick<CashMovement, "kind" | "amount">[];
+}): number {
+  const summary = summarizeCashMovements(movements);
+  return (
+    (Number(openingFloat) || 0) +
+    (Number(cashSales) || 0) +
+    summary.paidIn -
+    summary.paidOut -
+    summary.safeDrops
+  );
+}
+
+export function buildClosureCashSessionTicket(
+  session: CashSession
+): ClosureTicketCashSession {
+  const summary = summarizeCashMovements(session.movements);
+  return {
+    openedAt: session.opened_at,
+    openedBy: session.opened_by_name,
+    openingFloat: session.opening_float,
+    ...summary,
+    movements: session.movements.map((movement) => ({
+      label: CASH_MOVEMENT_LABELS[movement.kind],
+      reason: movement.reason,
+      amount: signedCashMovementAmount(movement),
+      createdAt: movement.created_at,
+    })),
+  };
+}
+
+export function buildClosureDenominationTicket(
+  counts: DenominationCounts | null | undefined
+): ClosureTicketDenomination[] {
+  return describeDenominationCounts(counts).map((row) => ({
+    label: `${row.kind === "bill" ? "Billete" : "Moneda"} ${row.label}`,
+    quantity: row.quantity,
+    subtotal: row.subtotal,
+  }));
+}
@@ -0,0 +1,367 @@
+import {
+  getIndexedDbFactory,
+  openIndexedDb,
+  promisifyRequest,
+  promisifyTransaction,
+} from "../storage/indexedDb.ts";
+
+export const POS_CATALOG_DB_NAME = "kensar_pos_catalog";
+export const POS_CATALOG_DB_VERSION = 1;
+const POS_CATALOG_OBJECT_STORE = "snapshots";
+
+export type CatalogProductLike = {
+  id: number;
+  name: string;
+  price: number;
+  active: boolean;
+  sku: string | null;
+  barcode: string | null;
+};
+
+export type CatalogGroupAppearance = {
+  image_url: string | null;
+  image_thumb_url: string | null;
+  tile_color: string | null;
+};
+
+export type PosCatalogSnapshot<TProduct extends CatalogProductLike = CatalogProductLike> = {
+  scopeKey: string;
+  version: string | null;
+  syncedAt: string;
+  /**
+   * Hora del servidor al empezar la última sincronización; es el
+   * `updated_since` del siguiente delta. Sin ella se descarga todo.
+   */
+  serverSyncedAt?: string | null;
+  products: TProduct[];
+  groupAppearances: Record<string, CatalogGroupAppearance>;
+};
+
+export type PosCatalogVersionInfo = {
+  version: string | null;
+  productsCount: number | null;
+  /** Reloj del servidor; el del equipo puede estar corrido. */
+  serverTime: string | null;
+};
+
+export type PosCatalogDelta<TProduct extends CatalogProductLike> = {
+  products: TProduct[];
+  /** Productos eliminados en el servidor desde `updated_since`. */
+  removedIds: number[];
+};
+
+export type PosCatalogSyncResult<TProduct extends CatalogProductLike> = {
+  snapshot: PosCatalogSnapshot<TProduct>;
+  source: "network" | "cache";
+  mode: "unchanged" | "delta" | "full" | "offline";
+};
+
+export type StaleCartPriceLine = {
+  productId: number;
+  name: string;
+  cartPrice: number;
+  catalogPrice: number | null;
+};
+
+export function buildPosCatalogScopeKey(tenantId: number | null | undefined): string {
+  return `tenant:${tenantId ?? "pending"}`;
+}
+
+export function buildCatalogVersionKey(data: {
+  updated_at?: string | null;
+  products_count?: number | null;
+  groups_count?: number | null;
+}): string | null {
+  const updatedAtKey = data.updated_at ?? "";
+  const countsKey = `${data.products_count ?? ""}:${data.groups_count ?? ""}`;
+  return updatedAtKey || countsKey ? `${updatedAtKey}|${countsKey}` : null;
+}
+
+/**
+ * Aplica los productos modificados desde la última sincronización sobre el
+ * snapshot. Los productos desactivados se conservan para que el conteo
+ * coincida con el del servidor (la grilla filtra por `active`); los
+ * eliminados en el servidor salen del snapshot.
+ */
+export function mergeCatalogDelta<TProduct extends CatalogProductLike>(
+  current: TProduct[],
+  changed: TProduct[],
+  removedIds: number[] = []
+): TProduct[] {
+  const removed = new Set(removedIds);
+  const byId = new Map<number, TProduct>();
+  current.forEach((product) => {
+    if (!removed.has(product.id)) byId.set(product.id, product);
+  });
+  changed.forEach((product) => {
+    if (!removed.has(product.id)) byId.set(product.id, product);
+  });
+  return Array.from(byId.values());
+}
+
+/** Normaliza la respuesta de `/products/catalog-delta`. */
+export function parseCatalogDelta<TProduct extends CatalogProductLike>(
+  data: unknown
+): PosCatalogDelta<TProduct> {
+  const body = (data && typeof data === "object" ? data : {}) as {
+    products?: unknown;
+    removed_ids?: unknown;
+  };
+  return {
+    products: Array.isArray(body.products) ? (body.products as TProduct[]) : [],
+    removedIds: Array.isArray(body.removed_ids)
+      ? body.removed_ids.filter((id): id is number => typeof id === "number")
+      : [],
+  };
+}
+
+export function buildCatalogBarcodeIndex<TProduct extends CatalogProductLike>(
+  products: TProduct[]
+): Map<string, TProduct> {
+  const map = new Map<string, TProduct>();
+  for (const product of products) {
+    if (!product.active) continue;
+    const barcode = (product.barcode ?? "").trim();
+    if (!barcode || map.has(barcode)) continue;
+    map.set(barcode, product);
+  }
+  return map;
+}
+
+/**
+ * Compara el precio con el que se agregó cada línea contra el snapshot más
+ * reciente. Las líneas con precio manual (precio libre o cambio de precio)
+ * no se marcan: el cajero ya decidió ese valor.
+ */
+export function findStaleCartPrices<TProduct extends CatalogProductLike>(
+  cart: Array<{ product: TProduct; unitPrice: number }>,
+  snapshotProducts: TProduct[]
+): StaleCartPriceLine[] {
+  const byId = new Map(snapshotProducts.map((product) => [product.id, product]));
+  const seen = new Set<number>();
+  const stale: StaleCartPriceLine[] = [];
+  cart.forEach((item) => {
+    if (seen.has(item.product.id)) return;
+    const addedAtCatalogPrice =
+      Math.abs(Number(item.unitPrice || 0) - Number(item.product.price || 0)) < 0.0001;
+    if (!addedAtCatalogPrice) return;
+    const latest = byId.get(item.product.id);
+    const latestPrice = latest && latest.active ? Number(latest.price || 0) : null;
+    if (latestPrice !== null && Math.abs(latestPrice - Number(item.product.price || 0)) < 0.0001) {
+      return;
+    }
+    seen.add(item.product.id);
+    stale.push({
+      productId: item.product.id,
+      name: item.product.name,
+      cartPrice: Number(item.product.price || 0),
+      catalogPrice: latestPrice,
+    });
+  });
+  return stale;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getCatalogDb(): Promise<IDBDatabase> | null {
+  const factory = getIndexedDbFactory();
+  if (!factory) return null;
+  if (!dbPromise) {
+    dbPromise = openIndexedDb(factory, POS_CATALOG_DB_NAME, POS_CATALOG_DB_VERSION, [
+      { name: POS_CATALOG_OBJECT_STORE, keyPath: "scopeKey" },
+    ]);
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export async function readPosCatalogSnapshot<TProduct extends CatalogProductLike>(
+  scopeKey: string
+): Promise<PosCatalogSnapshot<TProduct> | null> {
+  const pending = getCatalogDb();
+  if (!pending) return null;
+  try {
+    const db = await pending;
+    const tx = db.transaction(POS_CATALOG_OBJECT_STORE, "readonly");
+    const snapshot = await promisifyRequest(
+      tx.objectStore(POS_CATALOG_OBJECT_STORE).get(scopeKey)
+    );
+    return (snapshot as PosCatalogSnapshot<TProduct> | undefined) ?? null;
+  } catch (err) {
+    console.warn("No se pudo leer el catálogo local", err);
+    return null;
+  }
+}
+
+export async function writePosCatalogSnapshot<TProduct extends CatalogProductLike>(
+  snapshot: PosCatalogSnapshot<TProduct>
+): Promise<void> {
+  const pending = getCatalogDb();
+  if (!pending) return;
+  try {
+    const db = await pending;
+    const tx = db.transaction(POS_CATALOG_OBJECT_STORE, "readwrite");
+    tx.objectStore(POS_CATALOG_OBJECT_STORE).put(snapshot);
+    await promisifyTransaction(tx);
+  } catch (err) {
+    console.warn("No se pudo guardar el catálogo local", err);
+  }
+}
+
+export async function fetchPosCatalogVersion(
+  apiBase: string,
+  headers: HeadersInit
+): Promise<PosCatalogVersionInfo> {
+  const res = await fetch(`${apiBase}/products/catalog-version`, {
+    headers,
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error(`Error ${res.status}`);
+  const data = (await res.json()) as {
+    updated_at?: string | null;
+    products_count?: number | null;
+    groups_count?: number | null;
+    server_time?: string | null;
+  };
+  return {
+    version: buildCatalogVersionKey(data),
+    productsCount:
+      typeof data.products_count === "number" ? data.products_count : null,
+    serverTime: typeof data.server_time === "string" ? data.server_time : null,
+  };
+}
+
+async function fetchCatalogProducts<TProduct extends CatalogProductLike>(
+  apiBase: string,
+  headers: HeadersInit
+): Promise<TProduct[]> {
+  const res = await fetch(`${apiBase}/products/`, {
+    headers,
+    credentials: "include",
+  });
+  if (!res.ok) throw new Error(`Error ${res.status}`);
+  return (await res.json()) as TProduct[];
+}
+
+async function fetchCatalogDelta<TProduct extends CatalogProductLike>(
+  apiBase: string,
+  headers: HeadersInit,
+  updatedSince: string
+): Promise<PosCatalogDelta<TProduct>> {
+  const res = await fetch(
+    `${apiBase}/products/catalog-delta?updated_since=${encodeURIComponent(updatedSince)}`,
+    {
+      headers,
+      credentials: "include",
+    }
+  );
+  if (!res.ok) throw new Error(`Error ${res.status}`);
+  return parseCatalogDelta<TProduct>(await res.json());
+}
+
+/**
+ * Sincroniza el snapshot local contra `/products/catalog-version`:
+ * - misma versión: no descarga productos;
+ * - versión distinta con snapshot previo: pide lo modificado y lo eliminado
+ *   desde la última sincronización (con la hora del servidor, no la del
+ *   equipo) y, si el conteo no cuadra, descarga todo;
+ * - sin red: devuelve el snapshot guardado para seguir vendiendo.
+ */
+export async function syncPosCatalogSnapshot<TProduct extends CatalogProductLike>(options: {
+  apiBase: string;
+  headers: HeadersInit;
+  scopeKey: string;
+  forceFull?: boolean;
+}): Promise<PosCatalogSyncResult<TProduct>> {
+  const { apiBase, headers, scopeKey } = options;
+  const cached = await readPosCatalogSnapshot<TProduct>(scopeKey);
+  const hasCachedProducts = Boolean(cached && cached.products.length > 0);
+  const startedAt = new Date().toISOString();
+  let versionInfo: PosCatalogVersionInfo | null = null;
+  try {
+    versionInfo = await fetchPosCatalogVersion(apiBase, headers);
+  } catch (err) {
+    console.warn("No se pudo verificar la versión del catálogo", err);
+  }
+
+  try {
+    if (
+      cached &&
+      hasCachedProducts &&
+      !options.forceFull &&
+      versionInfo?.version &&
+      versionInfo.version === cached.version
+    ) {
+      return { snapshot: cached, source: "cache", mode: "unchanged" };
+    }
+
+    let products: TProduct[] | null = null;
+    let mode: PosCatalogSyncResult<TProduct>["mode"] = "full";
+    if (
+      cached &&
+      hasCachedProducts &&
+      !options.forceFull &&
+      versionInfo &&
+      cached.serverSyncedAt
+    ) {
+      const delta = await fetchCatalogDelta<TProduct>(apiBase, headers, cached.serverSyncedAt);
+      const merged = mergeCatalogDelta(cached.products, delta.products, delta.removedIds);
+      if (versionInfo.productsCount === null || merged.length === versionInfo.productsCount) {
+        products = merged;
+        mode = "delta";
+      }
+    }
+    if (!products) {
+      products = await fetchCatalogProducts<TProduct>(apiBase, headers);
+      mode = "full";
+    }
+    const latest = await readPosCatalogSnapshot<TProduct>(scopeKey);
+    const snapshot: PosCatalogSnapshot<TProduct> = {
+      scopeKey,
+      version: versionInfo?.version ?? null,
+      syncedAt: startedAt,
+      serverSyncedAt: versionInfo?.serverTime ?? null,
+      products,
+      groupAppearances: latest?.groupAppearances ?? cached?.groupAppearances ?? {},
+    };
+    await writePosCatalogSnapshot(snapshot);
+    return { snapshot, source: "network", mode };
+  } catch (err) {
+    if (!cached || !hasCachedProducts) throw err;
+    console.warn("Usando el catálogo local por falta de conexión", err);
+    return { snapshot: cached, source: "cache", mode: "offline" };
+  }
+}
+
+export async function savePosCatalogGroupAppearances(
+  scopeKey: string,
+  groupAppearances: Record<string, CatalogGroupAppearance>
+): Promise<void> {
+  const cached = await readPosCatalogSnapshot(scopeKey);
+  await writePosCatalogSnapshot({
+    scopeKey,
+    version: cached?.version ?? null,
+    syncedAt: cached?.syncedAt ?? new Date().toISOString(),
+    serverSyncedAt: cached?.serverSyncedAt ?? null,
+    products: cached?.products ?? [],
+    groupAppearances,
+  });
+}
+
+export function describeStaleCartPrices(
+  lines: StaleCartPriceLine[],
+  formatPrice: (value: number) => string
+): string {
+  const detail = lines
+    .slice(0, 3)
+    .map((line) =>
+      line.catalogPrice === null
+        ? `${line.name} (ya no está activo en el catálogo)`
+        : `${line.name} (carrito ${formatPrice(line.cartPrice)}, catálogo ${formatPrice(line.catalogPrice)})`
+    )
+    .join("; ");
+  const extra = lines.length > 3 ? ` y ${lines.length - 3} más` : "";
+  return `Precios desactualizados: ${detail}${extra}. Confirma de nuevo para cobrar con los precios del carrito o vuelve al POS para actualizarlos.`;
+}
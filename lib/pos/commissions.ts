@@ -0,0 +1,360 @@
+/**
+ * Liquidación mensual de comisiones: reparte las ventas del mes entre los
+ * vendedores de cada línea, descuenta las devoluciones hechas en el mes
+ * (aunque la venta sea de un mes anterior) y aplica la regla más específica
+ * (marca > grupo > todos; con rol antes que sin rol).
+ */
+
+import type { CommissionRule, CommissionTier } from "../api/commissions.ts";
+import type { SystemRole } from "../api/hr.ts";
+import { saleLineNet, type AttributableSaleItem } from "./sellers.ts";
+
+const FREE_SALE_NAME_FRAGMENT = "venta libre";
+
+export type CommissionSaleItem = AttributableSaleItem & {
+  product_id?: number | null;
+  product_name?: string | null;
+  name?: string | null;
+  product_sku?: string | null;
+  product_group?: string | null;
+  product_brand?: string | null;
+};
+
+type CommissionSaleReturn = {
+  created_at?: string | null;
+  status?: string | null;
+  voided_at?: string | null;
+  items?: Array<{
+    product_id?: number | null;
+    product_name?: string | null;
+    product_sku?: string | null;
+    quantity?: number | null;
+  }>;
+};
+
+export type CommissionSale = {
+  id: number;
+  created_at?: string | null;
+  status?: string | null;
+  voided_at?: string | null;
+  total?: number | null;
+  vendor_name?: string | null;
+  cart_discount_value?: number | null;
+  cart_discount_percent?: number | null;
+  items?: CommissionSaleItem[] | null;
+  returns?: CommissionSaleReturn[] | null;
+};
+
+/** Datos del catálogo que `/pos/sales` no trae en las líneas. */
+export type CommissionCatalogProduct = {
+  id: number;
+  brand?: string | null;
+  group_name?: string | null;
+};
+
+/**
+ * Rango `[from, to)` de la liquidación, en UTC sin zona como los
+ * `date_from`/`date_to` de `/pos/sales`.
+ */
+export type CommissionPeriodWindow = {
+  from: string;
+  to: string;
+};
+
+export type CommissionSeller = {
+  name: string;
+  employeeId: number | null;
+  role: SystemRole | null;
+};
+
+export type CommissionStatementLine = {
+  rule_id: number;
+  rule_name: string;
+  base: number;
+  rate_percent: number;
+  amount: number;
+};
+
+export type CommissionStatement = {
+  sellerName: string;
+  employeeId: number | null;
+  role: SystemRole | null;
+  /** Ventas atribuidas antes de devoluciones. */
+  grossBase: number;
+  returnedBase: number;
+  /** Neto que no comisiona: sin regla aplicable o excluido por la regla. */
+  excludedBase: number;
+  lines: CommissionStatementLine[];
+  payable: number;
+};
+
+const normalizeText = (value?: string | null) =>
+  (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+const normalizeGroupPath = (value?: string | null) =>
+  normalizeText(value).replace(/\s*[/>]\s*/g, "/");
+
+export function isFreeSaleItem(item: CommissionSaleItem): boolean {
+  const name = normalizeText(item.product_name ?? item.name);
+  const sku = normalizeText(item.product_sku);
+  return (
+    name.includes(FREE_SALE_NAME_FRAGMENT) ||
+    sku.includes("venta-libre") ||
+    sku.includes(FREE_SALE_NAME_FRAGMENT)
+  );
+}
+
+function ruleMatchesItem(rule: CommissionRule, item: CommissionSaleItem): boolean {
+  if (rule.scope === "all") return true;
+  const expected =
+    rule.scope === "brand" ? normalizeText(rule.scope_value) : normalizeGroupPath(rule.scope_value);
+  if (!expected) return false;
+  if (rule.scope === "brand") {
+    return normalizeText(item.product_brand) === expected;
+  }
+  const group = normalizeGroupPath(item.product_group);
+  return group === expected || group.startsWith(`${expected}/`);
+}
+
+function ruleSpecificity(rule: CommissionRule): number {
+  const scopeWeight = rule.scope === "brand" ? 2 : rule.scope === "product_group" ? 1 : 0;
+  return scopeWeight * 2 + (rule.seller_role ? 1 : 0);
+}
+
+export function resolveCommissionRule(
+  rules: CommissionRule[],
+  role: SystemRole | null,
+  item: CommissionSaleItem
+): CommissionRule | null {
+  let best: CommissionRule | null = null;
+  rules.forEach((rule) => {
+    if (!rule.active) return;
+    if (rule.seller_role && rule.seller_role !== role) return;
+    if (!ruleMatchesItem(rule, item)) return;
+    if (
+      !best ||
+      ruleSpecificity(rule) > ruleSpecificity(best) ||
+      (ruleSpecificity(rule) === ruleSpecificity(best) && rule.id < best.id)
+    ) {
+      best = rule;
+    }
+  });
+  return best;
+}
+
+/** El escalón alcanzado aplica a toda la base del mes, no solo al excedente. */
+export function resolveTierRate(tiers: CommissionTier[], base: number): number {
+  let rate = 0;
+  let reached = -Infinity;
+  tiers.forEach((tier) => {
+    if (base >= tier.min_amount && tier.min_amount >= reached) {
+      reached = tier.min_amount;
+      rate = tier.rate_percent;
+    }
+  });
+  return rate;
+}
+
+type ReturnKeyItem = {
+  product_id?: number | null;
+  product_name?: string | null;
+  name?: string | null;
+  product_sku?: string | null;
+};
+
+function returnKey(item: ReturnKeyItem): string {
+  if (typeof item.product_id === "number") return `id:${item.product_id}`;
+  return `name:${normalizeText(item.product_sku)}|${normalizeText(item.product_name ?? item.name)}`;
+}
+
+const timestampKey = (value: string) => value.trim().replace(" ", "T").slice(0, 19);
+
+function isWithinWindow(value: string, window: CommissionPeriodWindow): boolean {
+  const key = timestampKey(value);
+  return key >= timestampKey(window.from) && key < timestampKey(window.to);
+}
+
+/**
+ * Completa marca y grupo de las líneas con el catálogo, para que las reglas
+ * por marca o grupo apliquen sobre ventas que no traen esos datos.
+ */
+export function enrichCommissionSales(
+  sales: CommissionSale[],
+  catalog: CommissionCatalogProduct[]
+): CommissionSale[] {
+  const productsById = new Map(catalog.map((product) => [product.id, product]));
+  return sales.map((sale) => ({
+    ...sale,
+    items: sale.items?.map((item) => {
+      const product =
+        typeof item.product_id === "number" ? productsById.get(item.product_id) : undefined;
+      if (!product) return item;
+      return {
+        ...item,
+        product_brand: item.product_brand || product.brand || null,
+        product_group: item.product_group || product.group_name || null,
+      };
+    }),
+  }));
+}
+
+/**
+ * Unidades devueltas por línea. Con `window` solo cuentan las devoluciones
+ * hechas dentro del rango; las que no traen fecha siguen a la venta.
+ */
+function collectReturnedQuantities(
+  sale: CommissionSale,
+  window: CommissionPeriodWindow | null,
+  saleInPeriod: boolean
+): Map<string, number> {
+  const returned = new Map<string, number>();
+  (sale.returns ?? []).forEach((ret) => {
+    if (ret.status && ret.status !== "confirmed") return;
+    if (ret.voided_at) return;
+    const inPeriod =
+      window && ret.created_at ? isWithinWindow(ret.created_at, window) : saleInPeriod;
+    if (!inPeriod) return;
+    ret.items?.forEach((item) => {
+      const quantity = Number(item.quantity ?? 0);
+      if (quantity <= 0) return;
+      const key = returnKey(item);
+      returned.set(key, (returned.get(key) ?? 0) + quantity);
+    });
+  });
+  return returned;
+}
+
+type SellerAccumulator = {
+  statement: CommissionStatement;
+  byRule: Map<number, { rule: CommissionRule; base: number }>;
+};
+
+/**
+ * Calcula la liquidación de cada vendedor con ventas en el rango. El total
+ * de la venta se reparte en proporción al neto de cada línea (como en
+ * `attributeSaleToSellers`), y las devoluciones confirmadas restan de la
+ * línea devuelta. Con `window`, las ventas fuera del rango solo aportan sus
+ * devoluciones hechas dentro de él. Las ventas anuladas no cuentan.
+ */
+export function buildCommissionStatements(
+  sales: CommissionSale[],
+  rules: CommissionRule[],
+  sellers: CommissionSeller[],
+  options: { window?: CommissionPeriodWindow | null; fallbackSellerName?: string } = {}
+): CommissionStatement[] {
+  const window = options.window ?? null;
+  const fallbackSellerName = options.fallbackSellerName ?? "Sin vendedor";
+  const sellersByName = new Map(sellers.map((seller) => [normalizeText(seller.name), seller]));
+  const accumulators = new Map<string, SellerAccumulator>();
+
+  const accumulatorFor = (name: string): SellerAccumulator => {
+    const key = normalizeText(name);
+    const existing = accumulators.get(key);
+    if (existing) return existing;
+    const seller = sellersByName.get(key);
+    const created: SellerAccumulator = {
+      statement: {
+        sellerName: seller?.name ?? name,
+        employeeId: seller?.employeeId ?? null,
+        role: seller?.role ?? null,
+        grossBase: 0,
+        returnedBase: 0,
+        excludedBase: 0,
+        lines: [],
+        payable: 0,
+      },
+      byRule: new Map(),
+    };
+    accumulators.set(key, created);
+    return created;
+  };
+
+  sales.forEach((sale) => {
+    if (sale.status === "voided" || sale.voided_at) return;
+    const items = sale.items ?? [];
+    const linesTotal = items.reduce((sum, item) => sum + saleLineNet(item), 0);
+    if (linesTotal <= 0) return;
+    const factor = (sale.total ?? linesTotal) / linesTotal;
+    const cartDiscounted =
+      (sale.cart_discount_value ?? 0) > 0 || (sale.cart_discount_percent ?? 0) > 0;
+    const saleInPeriod = !window || !sale.created_at || isWithinWindow(sale.created_at, window);
+    const returned = collectReturnedQuantities(sale, window, saleInPeriod);
+    if (!saleInPeriod && !returned.size) return;
+    const saleSeller = sale.vendor_name?.trim() || fallbackSellerName;
+
+    items.forEach((item) => {
+      const net = saleLineNet(item) * factor;
+      if (net <= 0) return;
+      const quantity = Number(item.quantity ?? 0);
+      const key = returnKey(item);
+      const pendingReturn = returned.get(key) ?? 0;
+      const returnedQty = quantity > 0 ? Math.min(pendingReturn, quantity) : 0;
+      if (returnedQty > 0) returned.set(key, pendingReturn - returnedQty);
+      const returnedNet = quantity > 0 ? (net * returnedQty) / quantity : 0;
+      const soldNet = saleInPeriod ? net : 0;
+      if (!soldNet && !returnedNet) return;
+      const base = soldNet - returnedNet;
+
+      const accumulator = accumulatorFor(item.seller_name?.trim() || saleSeller);
+      const { statement } = accumulator;
+      statement.grossBase += soldNet;
+      statement.returnedBase += returnedNet;
+
+      const rule = resolveCommissionRule(rules, statement.role, item);
+      const excluded =
+        !rule ||
+        (rule.exclude_discounted && (cartDiscounted || (item.line_discount_value ?? 0) > 0)) ||
+        (rule.exclude_free_sale_items && isFreeSaleItem(item));
+      if (excluded) {
+        statement.excludedBase += base;
+        return;
+      }
+      const bucket = accumulator.byRule.get(rule.id) ?? { rule, base: 0 };
+      bucket.base += base;
+      accumulator.byRule.set(rule.id, bucket);
+    });
+  });
+
+  return Array.from(accumulators.values())
+    .map(({ statement, byRule }) => {
+      const lines = Array.from(byRule.values())
+        .filter((bucket) => bucket.base > 0)
+        .map(({ rule, base }) => {
+          const ratePercent = resolveTierRate(rule.tiers, base);
+          return {
+            rule_id: rule.id,
+            rule_name: rule.name,
+            base: Math.round(base),
+            rate_percent: ratePercent,
+            amount: Math.round((base * ratePercent) / 100),
+          };
+        });
+      return {
+        ...statement,
+        grossBase: Math.round(statement.grossBase),
+        returnedBase: Math.round(statement.returnedBase),
+        excludedBase: Math.round(statement.excludedBase),
+        lines,
+        payable: lines.reduce((sum, line) => sum + line.amount, 0),
+      };
+    })
+    .sort((a, b) => b.payable - a.payable || a.sellerName.localeCompare(b.sellerName, "es"));
+}
+
+/** Primer y último día (`YYYY-MM-DD`) del mes `YYYY-MM`. */
+export function commissionPeriodRange(period: string): { fromKey: string; toKey: string } | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(period);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  if (month < 1 || month > 12) return null;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return {
+    fromKey: `${match[1]}-${match[2]}-01`,
+    toKey: `${match[1]}-${match[2]}-${String(lastDay).padStart(2, "0")}`,
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Pantalla del cliente: una segunda ventana (o el monitor de cara al cliente)
+ * que refleja el carrito del POS en tiempo real por `BroadcastChannel`.
+ *
+ * `BroadcastChannel` solo llega a ventanas del mismo navegador. Para una
+ * tableta emparejada a la estación (`station_type: "tablet"` con
+ * `parent_station_id`), el POS en modo estación también deja el estado en el
+ * backend y la tableta lo consulta cada pocos segundos. Una estación sin
+ * tableta se queda solo con el canal local.
+ *
+ * El POS es la única fuente de verdad: publica un estado ya calculado y la
+ * pantalla solo lo pinta, así no repite promociones ni impuestos.
+ */
+
+import type { PosStationScope } from "../api/posHandoffs.ts";
+
+export const CUSTOMER_DISPLAY_CHANNEL_BASE = "kensar_pos_customer_display";
+
+/** Ruta que se abre en la segunda ventana. */
+export const CUSTOMER_DISPLAY_ROUTE = "/pos/pantalla-cliente";
+
+/** Tiempo que se deja el "gracias" con el cambio antes de volver a las promociones. */
+export const CUSTOMER_DISPLAY_THANKS_MS = 20_000;
+
+/** Espera tras el último cambio del carrito antes de enviarlo al backend. */
+export const CUSTOMER_DISPLAY_RELAY_DEBOUNCE_MS = 500;
+
+/** Cada cuánto la tableta pide el estado al backend. */
+export const CUSTOMER_DISPLAY_POLL_MS = 1_500;
+
+export type CustomerDisplayLine = {
+  id: number;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  /** Descuento manual más promociones de la línea. */
+  discount: number;
+  total: number;
+};
+
+export type CustomerDisplayPayment = {
+  paid: number;
+  change: number;
+};
+
+export type CustomerDisplayState = {
+  saleNumber: number;
+  customerName?: string | null;
+  lines: CustomerDisplayLine[];
+  subtotal: number;
+  discount: number;
+  surcharge: number;
+  surchargeLabel?: string | null;
+  total: number;
+  payment?: CustomerDisplayPayment | null;
+  /** Venta recién cobrada; la pantalla muestra el cambio hasta la siguiente. */
+  completed?: { total: number; paid: number; change: number } | null;
+  updatedAt: string;
+};
+
+export type CustomerDisplayMessage =
+  | { type: "state"; state: CustomerDisplayState }
+  | { type: "request-state" };
+
+type CartLineInput = {
+  id: number;
+  product: { name: string };
+  quantity: number;
+  unitPrice: number;
+  lineDiscountValue: number;
+};
+
+export type CustomerDisplayInput = {
+  saleNumber: number;
+  customerName?: string | null;
+  cart: CartLineInput[];
+  promotionDiscounts: Record<number, number>;
+  cartDiscountValue: number;
+  cartDiscountPercent: number;
+  surcharge: { enabled: boolean; amount: number; method: string | null };
+  total: number;
+  payment?: CustomerDisplayPayment | null;
+  completed?: CustomerDisplayState["completed"];
+  now?: Date;
+};
+
+const SURCHARGE_LABELS: Record<string, string> = {
+  addi: "Recargo Addi",
+  sistecredito: "Recargo Sistecrédito",
+  manual: "Recargo",
+};
+
+export function buildCustomerDisplayState(
+  input: CustomerDisplayInput
+): CustomerDisplayState {
+  const lines = input.cart.map((item) => {
+    const gross = item.quantity * item.unitPrice;
+    const discount = item.lineDiscountValue + (input.promotionDiscounts[item.id] ?? 0);
+    return {
+      id: item.id,
+      name: item.product.name,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discount,
+      total: Math.max(0, gross - discount),
+    };
+  });
+  const linesTotal = lines.reduce((sum, line) => sum + line.total, 0);
+  const subtotal = lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+  const cartDiscount =
+    input.cartDiscountValue + linesTotal * (input.cartDiscountPercent / 100);
+  const surcharge = input.surcharge.enabled ? input.surcharge.amount : 0;
+  return {
+    saleNumber: input.saleNumber,
+    customerName: input.customerName ?? null,
+    lines,
+    subtotal,
+    discount: subtotal - linesTotal + cartDiscount,
+    surcharge,
+    surchargeLabel:
+      surcharge > 0 ? SURCHARGE_LABELS[input.surcharge.method ?? "manual"] ?? "Recargo" : null,
+    total: input.total,
+    payment: input.payment ?? null,
+    completed: input.completed ?? null,
+    updatedAt: (input.now ?? new Date()).toISOString(),
+  };
+}
+
+export function isCustomerDisplayMessage(value: unknown): value is CustomerDisplayMessage {
+  if (!value || typeof value !== "object") return false;
+  const type = (value as { type?: unknown }).type;
+  if (type === "request-state") return true;
+  return type === "state" && typeof (value as { state?: unknown }).state === "object";
+}
+
+/**
+ * La pantalla puede recibir el mismo estado por el canal local y por el
+ * backend; solo se pinta si es más reciente que el último mostrado.
+ */
+export function isNewerCustomerDisplayState(
+  currentUpdatedAt: string | null,
+  next: CustomerDisplayState
+): boolean {
+  if (!currentUpdatedAt) return true;
+  return Date.parse(next.updatedAt) > Date.parse(currentUpdatedAt);
+}
+
+/** La estación tiene una tableta vinculada que muestra su carrito al cliente. */
+export function hasPairedCustomerDisplay(
+  scope: PosStationScope | null,
+  stationId: string | null
+): boolean {
+  if (!scope || !stationId || scope.primary_station_id !== stationId) return false;
+  return scope.stations.some(
+    (station) => station.station_type === "tablet" && station.station_id !== stationId
+  );
+}
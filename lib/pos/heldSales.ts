@@ -0,0 +1,207 @@
+/**
+ * Ventas en espera del POS: varios carritos aparcados por estación, cada uno
+ * con su etiqueta y cliente, para atender a otro cliente sin perder el
+ * anterior.
+ *
+ * El contenido del carrito (`snapshot`) es opaco aquí; la página del POS
+ * decide qué guarda y cómo lo restaura.
+ */
+
+import type { SharedHeldSaleRecord } from "../api/posHeldSales.ts";
+
+export const HELD_SALES_STORAGE_KEY_BASE = "kensar_pos_held_sales_v2";
+
+/** Máximo de ventas aparcadas a la vez por estación. */
+export const HELD_SALES_LIMIT = 6;
+
+export type HeldSale<TSnapshot> = {
+  id: string;
+  label: string;
+  customerName: string | null;
+  saleNumber: number;
+  /** Líneas del carrito, para mostrarlas en la bandeja sin abrir la venta. */
+  itemCount: number;
+  total: number;
+  heldAt: string;
+  /** Visible también en la tablet vinculada a la estación. */
+  shared: boolean;
+  /** Última vez que el servidor confirmó la venta compartida. */
+  syncedAt?: string | null;
+  snapshot: TSnapshot;
+};
+
+export type HeldSaleInput<TSnapshot> = Omit<
+  HeldSale<TSnapshot>,
+  "id" | "label" | "heldAt" | "shared" | "syncedAt"
+> & {
+  label?: string | null;
+  shared?: boolean;
+  now?: Date;
+};
+
+export class HeldSalesLimitError extends Error {
+  constructor(limit: number) {
+    super(
+      `Ya tienes ${limit} ventas en espera. Cobra o descarta una antes de aparcar otra.`
+    );
+    this.name = "HeldSalesLimitError";
+  }
+}
+
+function createHeldSaleId(now: Date): string {
+  const random = Math.random().toString(36).slice(2, 8);
+  return `held-${now.getTime().toString(36)}-${random}`;
+}
+
+/**
+ * Etiqueta por defecto: el nombre del cliente o "Cliente N" con el primer
+ * número libre entre las ventas aparcadas.
+ */
+export function defaultHeldSaleLabel<T>(
+  customerName: string | null | undefined,
+  existing: HeldSale<T>[]
+): string {
+  const name = customerName?.trim();
+  if (name) return name;
+  const used = new Set(existing.map((sale) => sale.label.trim().toLowerCase()));
+  let index = 1;
+  while (used.has(`cliente ${index}`)) index += 1;
+  return `Cliente ${index}`;
+}
+
+export function holdSale<T>(
+  existing: HeldSale<T>[],
+  input: HeldSaleInput<T>
+): HeldSale<T>[] {
+  if (existing.length >= HELD_SALES_LIMIT) {
+    throw new HeldSalesLimitError(HELD_SALES_LIMIT);
+  }
+  const { label, shared, now: nowInput, ...rest } = input;
+  const now = nowInput ?? new Date();
+  const entry: HeldSale<T> = {
+    ...rest,
+    id: createHeldSaleId(now),
+    label: label?.trim() || defaultHeldSaleLabel(input.customerName, existing),
+    heldAt: now.toISOString(),
+    shared: Boolean(shared),
+    syncedAt: null,
+  };
+  return [...existing, entry];
+}
+
+export function removeHeldSale<T>(existing: HeldSale<T>[], id: string): HeldSale<T>[] {
+  return existing.filter((sale) => sale.id !== id);
+}
+
+export function updateHeldSale<T>(
+  existing: HeldSale<T>[],
+  id: string,
+  patch: Partial<Pick<HeldSale<T>, "label" | "shared">>
+): HeldSale<T>[] {
+  return existing.map((sale) => {
+    if (sale.id !== id) return sale;
+    const label = patch.label !== undefined ? patch.label.trim() || sale.label : sale.label;
+    return { ...sale, ...patch, label };
+  });
+}
+
+/** La venta aparcada más reciente; es la que se retoma al terminar un cobro. */
+export function latestHeldSale<T>(existing: HeldSale<T>[]): HeldSale<T> | null {
+  return existing.reduce<HeldSale<T> | null>(
+    (latest, sale) => (!latest || sale.heldAt > latest.heldAt ? sale : latest),
+    null
+  );
+}
+
+function isHeldSale(value: unknown): value is HeldSale<unknown> {
+  if (!value || typeof value !== "object") return false;
+  const sale = value as Partial<HeldSale<unknown>>;
+  return (
+    typeof sale.id === "string" &&
+    typeof sale.label === "string" &&
+    typeof sale.heldAt === "string" &&
+    typeof sale.saleNumber === "number" &&
+    Boolean(sale.snapshot) &&
+    typeof sale.snapshot === "object"
+  );
+}
+
+export function parseStoredHeldSales<T>(raw: string | null): HeldSale<T>[] {
+  if (!raw) return [];
+  const data = JSON.parse(raw) as unknown;
+  if (!Array.isArray(data)) return [];
+  return data.filter(isHeldSale).map((sale) => ({
+    ...sale,
+    customerName: sale.customerName ?? null,
+    itemCount: Number(sale.itemCount ?? 0),
+    total: Number(sale.total ?? 0),
+    shared: Boolean(sale.shared),
+  })) as HeldSale<T>[];
+}
+
+/**
+ * Junta las ventas locales con las compartidas que devuelve el servidor.
+ *
+ * Una venta compartida que ya estaba sincronizada y el servidor no devuelve
+ * fue retomada en la otra estación, así que se quita también aquí.
+ */
+export function mergeSharedHeldSales<T>(
+  local: HeldSale<T>[],
+  remote: HeldSale<T>[],
+  now: Date = new Date()
+): HeldSale<T>[] {
+  const remoteIds = new Set(remote.map((sale) => sale.id));
+  const kept = local.filter(
+    (sale) => !sale.shared || !sale.syncedAt || remoteIds.has(sale.id)
+  );
+  const localIds = new Set(kept.map((sale) => sale.id));
+  const syncedAt = now.toISOString();
+  const incoming = remote
+    .filter((sale) => !localIds.has(sale.id))
+    .map((sale) => ({ ...sale, shared: true, syncedAt }));
+  return [...kept, ...incoming].sort((a, b) => a.heldAt.localeCompare(b.heldAt));
+}
+
+/** Marca como sincronizadas las ventas compartidas (todas o solo `ids`). */
+export function markHeldSalesSynced<T>(
+  existing: HeldSale<T>[],
+  ids?: string[],
+  now: Date = new Date()
+): HeldSale<T>[] {
+  const syncedAt = now.toISOString();
+  return existing.map((sale) =>
+    sale.shared && (!ids || ids.includes(sale.id)) ? { ...sale, syncedAt } : sale
+  );
+}
+
+export function heldSaleToRecord<T extends object>(
+  sale: HeldSale<T>,
+  stationId: string | null
+): SharedHeldSaleRecord {
+  return {
+    id: sale.id,
+    label: sale.label,
+    customer_name: sale.customerName,
+    sale_number: sale.saleNumber,
+    item_count: sale.itemCount,
+    total: sale.total,
+    held_at: sale.heldAt,
+    station_id: stationId,
+    snapshot: sale.snapshot as Record<string, unknown>,
+  };
+}
+
+export function heldSaleFromRecord<T>(record: SharedHeldSaleRecord): HeldSale<T> {
+  return {
+    id: record.id,
+    label: record.label,
+    customerName: record.customer_name ?? null,
+    saleNumber: Number(record.sale_number),
+    itemCount: Number(record.item_count ?? 0),
+    total: Number(record.total ?? 0),
+    heldAt: record.held_at,
+    shared: true,
+    syncedAt: null,
+    snapshot: record.snapshot as T,
+  };
+}
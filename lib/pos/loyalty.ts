@@ -0,0 +1,80 @@
+import type { PosLoyaltySettings } from "../api/settings.ts";
+
+/**
+ * Puntos de fidelización en caja.
+ *
+ * El backend lleva el libro de movimientos (acumulación, redención, ajustes y
+ * vencimientos); aquí solo se calcula lo que la caja necesita mostrar antes de
+ * registrar la venta: cuánto acumula el pago, cuánto se puede redimir y con
+ * qué saldo queda el cliente en el ticket.
+ */
+
+/** Slug del "método de pago" con el que se redimen puntos en pago múltiple. */
+export const LOYALTY_PAYMENT_METHOD = "puntos";
+
+export type LoyaltyPayment = {
+  method: string;
+  amount: number;
+};
+
+export function isLoyaltyEnabled(
+  settings: PosLoyaltySettings | null | undefined
+): settings is PosLoyaltySettings {
+  return Boolean(settings?.enabled && settings.point_value > 0);
+}
+
+export function pointsToAmount(points: number, settings: PosLoyaltySettings): number {
+  return Math.max(0, Math.floor(points)) * settings.point_value;
+}
+
+/**
+ * Puntos necesarios para cubrir un valor. Devuelve `null` si el valor no es
+ * múltiplo exacto del valor del punto: no se redimen fracciones.
+ */
+export function amountToRedeemPoints(
+  amount: number,
+  settings: PosLoyaltySettings
+): number | null {
+  if (amount <= 0) return 0;
+  const points = amount / settings.point_value;
+  return Number.isInteger(points) ? points : null;
+}
+
+/** Valor máximo que el cliente puede pagar con puntos en esta venta. */
+export function maxRedeemableAmount(
+  balance: number,
+  total: number,
+  settings: PosLoyaltySettings
+): number {
+  const minPoints = settings.min_redeem_points ?? 0;
+  if (balance <= 0 || balance < minPoints) return 0;
+  const byBalance = pointsToAmount(balance, settings);
+  const byTotal = Math.floor(total / settings.point_value) * settings.point_value;
+  return Math.max(0, Math.min(byBalance, byTotal));
+}
+
+/**
+ * Puntos que acumula una venta según la tarifa de cada método de pago. El
+ * cambio se descuenta primero del efectivo (es lo que se devuelve) y lo
+ * pagado con puntos nunca acumula.
+ */
+export function computeEarnedPoints(
+  payments: LoyaltyPayment[],
+  settings: PosLoyaltySettings | null | undefined,
+  options: { changeAmount?: number } = {}
+): number {
+  if (!isLoyaltyEnabled(settings)) return 0;
+  let pendingChange = Math.max(0, options.changeAmount ?? 0);
+  const ordered = [
+    ...payments.filter((payment) => payment.method === "cash"),
+    ...payments.filter((payment) => payment.method !== "cash"),
+  ];
+  const earned = ordered.reduce((sum, payment) => {
+    const applied = Math.min(pendingChange, Math.max(0, payment.amount));
+    pendingChange -= applied;
+    if (payment.method === LOYALTY_PAYMENT_METHOD) return sum;
+    const rate = settings.earn_rates[payment.method] ?? 0;
+    return sum + ((payment.amount - applied) / 1000) * rate;
+  }, 0);
+  return Math.max(0, Math.floor(earned + 1e-9));
+}
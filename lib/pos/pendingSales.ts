@@ -1,10 +1,30 @@
 import { getApiBase } from "../api/base.ts";
+import {
+  PENDING_SALES_STORAGE_KEY,
+  getPendingSalesStore,
+} from "./pendingSalesStore.ts";
+
+export { PENDING_SALES_STORAGE_KEY };
+
+export type PendingSaleStatus = "pending" | "dead_letter";
+
+export type PendingSaleAttemptOutcome = "sent" | "retry" | "rejected";
+
+export type PendingSaleAttempt = {
+  at: string;
+  outcome: PendingSaleAttemptOutcome;
+  httpStatus: number | null;
+  message?: string | null;
+};
 
 export type PendingSaleRecord = {
   id: string;
   endpoint: "/pos/sales" | "/separated-orders";
   payload: unknown;
   scope?: PendingSaleScope;
+  status?: PendingSaleStatus;
+  attempts?: PendingSaleAttempt[];
+  nextAttemptAt?: string | null;
   summary: {
     saleNumber: number;
     total: number;
@@ -22,8 +42,12 @@ export type PendingSaleScope = {
   stationId: string | null;
 };
 
-export const PENDING_SALES_STORAGE_KEY = "kensar_pos_pending_sales_v1";
 export const PENDING_SALES_EVENT = "kensar-pos-pending-sales";
+const PENDING_SALES_CHANNEL = "kensar-pos-pending-sales";
+
+export const PENDING_SALE_BACKOFF_BASE_MS = 5_000;
+export const PENDING_SALE_BACKOFF_MAX_MS = 10 * 60_000;
+const PENDING_SALE_MAX_ATTEMPT_HISTORY = 20;
 
 type PendingSalesEventDetail = {
   action: "added" | "removed" | "updated";
@@ -33,32 +57,6 @@ function getSafeWindow(): typeof window | null {
   return typeof window === "undefined" ? null : window;
 }
 
-function readStorage(): PendingSaleRecord[] {
-  const win = getSafeWindow();
-  if (!win) return [];
-  const raw = win.localStorage.getItem(PENDING_SALES_STORAGE_KEY);
-  if (!raw) return [];
-  try {
-    const parsed = JSON.parse(raw);
-    if (Array.isArray(parsed)) {
-      return parsed;
-    }
-    return [];
-  } catch (err) {
-    console.warn("No se pudieron leer las ventas pendientes", err);
-    return [];
-  }
-}
-
-function writeStorage(list: PendingSaleRecord[]) {
-  const win = getSafeWindow();
-  if (!win) return;
-  win.localStorage.setItem(
-    PENDING_SALES_STORAGE_KEY,
-    JSON.stringify(list)
-  );
-}
-
 function emitUpdate(action: PendingSalesEventDetail["action"]) {
   const win = getSafeWindow();
   if (!win) return;
@@ -66,6 +64,48 @@ function emitUpdate(action: PendingSalesEventDetail["action"]) {
     detail: { action },
   });
   win.dispatchEvent(event);
+  if (typeof BroadcastChannel === "undefined") return;
+  try {
+    const channel = new BroadcastChannel(PENDING_SALES_CHANNEL);
+    channel.postMessage({ action });
+    channel.close();
+  } catch {
+    /* ignore */
+  }
+}
+
+/**
+ * Escucha cambios del outbox en esta pestaña y en las demás pestañas del
+ * mismo navegador (IndexedDB no dispara eventos `storage`).
+ */
+export function subscribePendingSales(
+  listener: (detail: PendingSalesEventDetail, fromOtherTab: boolean) => void
+): () => void {
+  const win = getSafeWindow();
+  if (!win) return () => undefined;
+  const handleLocal = (event: Event) => {
+    const custom = event as CustomEvent<PendingSalesEventDetail>;
+    listener(custom.detail ?? { action: "updated" }, false);
+  };
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === PENDING_SALES_STORAGE_KEY) {
+      listener({ action: "updated" }, true);
+    }
+  };
+  win.addEventListener(PENDING_SALES_EVENT, handleLocal as EventListener);
+  win.addEventListener("storage", handleStorage);
+  let channel: BroadcastChannel | null = null;
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(PENDING_SALES_CHANNEL);
+    channel.onmessage = (event: MessageEvent<PendingSalesEventDetail>) => {
+      listener(event.data ?? { action: "updated" }, true);
+    };
+  }
+  return () => {
+    win.removeEventListener(PENDING_SALES_EVENT, handleLocal as EventListener);
+    win.removeEventListener("storage", handleStorage);
+    channel?.close();
+  };
 }
 
 function matchesScope(record: PendingSaleRecord, scope?: PendingSaleScope): boolean {
@@ -78,38 +118,131 @@ function matchesScope(record: PendingSaleRecord, scope?: PendingSaleScope): bool
   );
 }
 
-function migrateLegacyStationScope(
+async function migrateLegacyStationScope(
   records: PendingSaleRecord[],
   scope?: PendingSaleScope
-): PendingSaleRecord[] {
+): Promise<PendingSaleRecord[]> {
   if (!scope?.stationId) return records;
-  let changed = false;
-  const migrated = records.map((record) => {
+  const store = getPendingSalesStore();
+  const migrated: PendingSaleRecord[] = [];
+  for (const record of records) {
     if (record.scope || !record.payload || typeof record.payload !== "object") {
-      return record;
+      migrated.push(record);
+      continue;
     }
     const payloadStationId = (record.payload as Record<string, unknown>).station_id;
-    if (payloadStationId !== scope.stationId) return record;
-    changed = true;
-    return { ...record, scope };
-  });
-  if (changed) writeStorage(migrated);
+    if (payloadStationId !== scope.stationId) {
+      migrated.push(record);
+      continue;
+    }
+    const next = { ...record, scope };
+    await store.put(next);
+    migrated.push(next);
+  }
   return migrated;
 }
 
-export function getPendingSales(scope?: PendingSaleScope): PendingSaleRecord[] {
-  return migrateLegacyStationScope(readStorage(), scope).filter((record) =>
-    matchesScope(record, scope)
+export function isPendingSaleDeadLetter(record: PendingSaleRecord): boolean {
+  return record.status === "dead_letter";
+}
+
+export function isPendingSaleDue(
+  record: PendingSaleRecord,
+  now: Date = new Date()
+): boolean {
+  if (isPendingSaleDeadLetter(record)) return false;
+  if (!record.nextAttemptAt) return true;
+  return new Date(record.nextAttemptAt).getTime() <= now.getTime();
+}
+
+export function getNextPendingSaleAttemptAt(
+  records: PendingSaleRecord[]
+): Date | null {
+  let next: number | null = null;
+  records.forEach((record) => {
+    if (isPendingSaleDeadLetter(record) || !record.nextAttemptAt) return;
+    const at = new Date(record.nextAttemptAt).getTime();
+    if (!Number.isFinite(at)) return;
+    if (next === null || at < next) next = at;
+  });
+  return next === null ? null : new Date(next);
+}
+
+/**
+ * Cuánto esperar antes del siguiente reenvío automático, o `null` si no toca.
+ * Tras un 401/403 el token que lo provocó ya no reenvía solo: hacerlo cada
+ * pocos segundos no arregla la sesión. Se retoma al cambiar el token.
+ */
+export function resolvePendingSalesAutoReplayDelay(
+  records: PendingSaleRecord[],
+  options: {
+    token: string | null;
+    unauthorizedToken: string | null;
+    minDelayMs: number;
+    now?: Date;
+  }
+): number | null {
+  if (!options.token || options.token === options.unauthorizedToken) return null;
+  const pending = records.filter((record) => !isPendingSaleDeadLetter(record));
+  if (pending.length === 0) return null;
+  if (pending.some((record) => !record.nextAttemptAt)) return options.minDelayMs;
+  const now = (options.now ?? new Date()).getTime();
+  const nextAt = getNextPendingSaleAttemptAt(pending)?.getTime() ?? now;
+  return Math.max(options.minDelayMs, nextAt - now);
+}
+
+/**
+ * Espera exponencial entre reintentos: 5s, 10s, 20s… hasta 10 minutos.
+ * `jitter` (0 a 1) reparte los reintentos de varias cajas que vuelven a la
+ * vez.
+ */
+export function computePendingSaleBackoffMs(
+  failedAttempts: number,
+  jitter = 0
+): number {
+  const exponent = Math.max(0, failedAttempts - 1);
+  const base = Math.min(
+    PENDING_SALE_BACKOFF_MAX_MS,
+    PENDING_SALE_BACKOFF_BASE_MS * 2 ** exponent
   );
+  const spread = Math.min(1, Math.max(0, jitter)) * base * 0.2;
+  return Math.round(base + spread);
 }
 
-export function addPendingSale(
-  entry: Omit<PendingSaleRecord, "id" | "summary"> & {
+/**
+ * Decide qué hacer con una respuesta del backend. Los 4xx de validación no
+ * mejoran reintentando y pasan a dead-letter; los errores de red, 5xx,
+ * 408 y 429 se reintentan. 401/403 detienen el envío hasta renovar sesión.
+ */
+export function classifyPendingSaleResponse(
+  httpStatus: number | null
+): PendingSaleAttemptOutcome | "unauthorized" {
+  if (httpStatus === null) return "retry";
+  if (httpStatus >= 200 && httpStatus < 300) return "sent";
+  if (httpStatus === 401 || httpStatus === 403) return "unauthorized";
+  if (httpStatus === 408 || httpStatus === 429) return "retry";
+  if (httpStatus >= 400 && httpStatus < 500) return "rejected";
+  return "retry";
+}
+
+export async function getPendingSales(
+  scope?: PendingSaleScope
+): Promise<PendingSaleRecord[]> {
+  const records = await getPendingSalesStore().readAll();
+  const migrated = await migrateLegacyStationScope(records, scope);
+  return migrated.filter((record) => matchesScope(record, scope));
+}
+
+export async function addPendingSale(
+  entry: Omit<
+    PendingSaleRecord,
+    "id" | "summary" | "status" | "attempts" | "nextAttemptAt"
+  > & {
     summary: Omit<PendingSaleRecord["summary"], "createdAt"> & {
       createdAt?: string;
     };
   }
-): PendingSaleRecord[] {
+): Promise<PendingSaleRecord> {
   const win = getSafeWindow();
   const id =
     win?.crypto?.randomUUID() ??
@@ -126,45 +259,89 @@ export function addPendingSale(
     ...entry,
     id,
     payload,
+    status: "pending",
+    attempts: [],
+    nextAttemptAt: null,
     summary: {
       ...entry.summary,
       createdAt: entry.summary.createdAt ?? new Date().toISOString(),
     },
   };
-  const current = readStorage();
-  const next = [record, ...current];
-  writeStorage(next);
+  await getPendingSalesStore().put(record);
   emitUpdate("added");
-  return next;
+  return record;
 }
 
-export function removePendingSale(id: string): PendingSaleRecord[] {
-  const current = readStorage();
-  const next = current.filter((item) => item.id !== id);
-  writeStorage(next);
+export async function removePendingSale(id: string): Promise<void> {
+  await getPendingSalesStore().remove(id);
   emitUpdate("removed");
+}
+
+async function findPendingSale(id: string): Promise<PendingSaleRecord | null> {
+  const records = await getPendingSalesStore().readAll();
+  return records.find((item) => item.id === id) ?? null;
+}
+
+export async function recordPendingSaleAttempt(
+  id: string,
+  attempt: Omit<PendingSaleAttempt, "at"> & { at?: string },
+  options: { jitter?: number } = {}
+): Promise<PendingSaleRecord | null> {
+  const current = await findPendingSale(id);
+  if (!current) return null;
+  const at = attempt.at ?? new Date().toISOString();
+  const attempts = [...(current.attempts ?? []), { ...attempt, at }].slice(
+    -PENDING_SALE_MAX_ATTEMPT_HISTORY
+  );
+  const failedAttempts = attempts.filter((item) => item.outcome === "retry").length;
+  const next: PendingSaleRecord = {
+    ...current,
+    attempts,
+    status: attempt.outcome === "rejected" ? "dead_letter" : "pending",
+    nextAttemptAt:
+      attempt.outcome === "retry"
+        ? new Date(
+            new Date(at).getTime() +
+              computePendingSaleBackoffMs(failedAttempts, options.jitter)
+          ).toISOString()
+        : null,
+  };
+  await getPendingSalesStore().put(next);
+  emitUpdate("updated");
   return next;
 }
 
-function persistPendingPayload(
+/** Devuelve una venta en dead-letter a la cola para intentarla de nuevo. */
+export async function requeuePendingSale(
+  id: string
+): Promise<PendingSaleRecord | null> {
+  const current = await findPendingSale(id);
+  if (!current) return null;
+  const next: PendingSaleRecord = {
+    ...current,
+    status: "pending",
+    nextAttemptAt: null,
+  };
+  await getPendingSalesStore().put(next);
+  emitUpdate("updated");
+  return next;
+}
+
+async function persistPendingPayload(
   id: string,
   payload: Record<string, unknown>,
   saleNumber?: number
-): void {
-  const current = readStorage();
-  const next = current.map((item) =>
-    item.id === id
-      ? {
-          ...item,
-          payload,
-          summary: {
-            ...item.summary,
-            saleNumber: saleNumber ?? item.summary.saleNumber,
-          },
-        }
-      : item
-  );
-  writeStorage(next);
+): Promise<void> {
+  const current = await findPendingSale(id);
+  if (!current) return;
+  await getPendingSalesStore().put({
+    ...current,
+    payload,
+    summary: {
+      ...current.summary,
+      saleNumber: saleNumber ?? current.summary.saleNumber,
+    },
+  });
   emitUpdate("updated");
 }
 
@@ -221,7 +398,7 @@ export async function submitPendingSale(
     };
     payload.reservation_id = reservation.reservation_id;
     payload.sale_number_preassigned = reservation.sale_number;
-    persistPendingPayload(record.id, payload, reservation.sale_number);
+    await persistPendingPayload(record.id, payload, reservation.sale_number);
   }
 
   const res = await fetchWithTimeout(`${apiBase}${record.endpoint}`, {
@@ -239,3 +416,86 @@ export async function submitPendingSale(
   }, 45000);
   return res;
 }
+
+export type PendingSalesReplayResult = {
+  sent: PendingSaleRecord[];
+  retried: PendingSaleRecord[];
+  rejected: PendingSaleRecord[];
+  stoppedReason: "offline" | "unauthorized" | null;
+};
+
+async function readResponseMessage(res: Response): Promise<string> {
+  const detail = await res.json().catch(() => null);
+  const message =
+    detail && typeof detail === "object" && "detail" in detail
+      ? (detail as { detail?: unknown }).detail
+      : null;
+  return typeof message === "string"
+    ? message
+    : `No se pudo enviar la venta pendiente (Error ${res.status}).`;
+}
+
+/**
+ * Envía en orden de creación las ventas cuyo reintento ya venció. Se detiene
+ * ante un error de red (la conexión volvió a caer) o de sesión para no gastar
+ * intentos de las demás ventas.
+ */
+export async function replayPendingSales(options: {
+  scope?: PendingSaleScope;
+  token: string;
+  now?: Date;
+  ids?: string[];
+  jitter?: () => number;
+}): Promise<PendingSalesReplayResult> {
+  const result: PendingSalesReplayResult = {
+    sent: [],
+    retried: [],
+    rejected: [],
+    stoppedReason: null,
+  };
+  const now = options.now ?? new Date();
+  const records = (await getPendingSales(options.scope))
+    .filter((record) =>
+      options.ids ? options.ids.includes(record.id) : isPendingSaleDue(record, now)
+    )
+    .filter((record) => !isPendingSaleDeadLetter(record))
+    .sort((a, b) => a.summary.createdAt.localeCompare(b.summary.createdAt));
+
+  for (const record of records) {
+    let httpStatus: number | null = null;
+    let message: string | null = null;
+    try {
+      const res = await submitPendingSale(record, options.token);
+      httpStatus = res.status;
+      if (!res.ok) message = await readResponseMessage(res);
+    } catch (err) {
+      message =
+        err instanceof Error ? err.message : "No se pudo contactar al servidor.";
+    }
+    const outcome = classifyPendingSaleResponse(httpStatus);
+    if (outcome === "sent") {
+      await removePendingSale(record.id);
+      result.sent.push(record);
+      continue;
+    }
+    if (outcome === "unauthorized") {
+      result.stoppedReason = "unauthorized";
+      break;
+    }
+    const updated = await recordPendingSaleAttempt(
+      record.id,
+      { outcome, httpStatus, message },
+      { jitter: options.jitter?.() }
+    );
+    if (outcome === "rejected") {
+      result.rejected.push(updated ?? record);
+      continue;
+    }
+    result.retried.push(updated ?? record);
+    if (httpStatus === null) {
+      result.stoppedReason = "offline";
+      break;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,136 @@
+import {
+  getIndexedDbFactory,
+  openIndexedDb,
+  promisifyRequest,
+  promisifyTransaction,
+} from "../storage/indexedDb.ts";
+import type { PendingSaleRecord } from "./pendingSales.ts";
+
+export const PENDING_SALES_STORAGE_KEY = "kensar_pos_pending_sales_v1";
+export const PENDING_SALES_DB_NAME = "kensar_pos_outbox";
+export const PENDING_SALES_DB_VERSION = 1;
+const PENDING_SALES_OBJECT_STORE = "pending_sales";
+
+export type PendingSalesStore = {
+  kind: "indexeddb" | "localstorage";
+  readAll(): Promise<PendingSaleRecord[]>;
+  put(record: PendingSaleRecord): Promise<void>;
+  remove(id: string): Promise<void>;
+};
+
+function getSafeWindow(): typeof window | null {
+  return typeof window === "undefined" ? null : window;
+}
+
+function readLegacyStorage(): PendingSaleRecord[] {
+  const win = getSafeWindow();
+  if (!win?.localStorage) return [];
+  const raw = win.localStorage.getItem(PENDING_SALES_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) {
+      return parsed;
+    }
+    return [];
+  } catch (err) {
+    console.warn("No se pudieron leer las ventas pendientes", err);
+    return [];
+  }
+}
+
+function writeLegacyStorage(list: PendingSaleRecord[]) {
+  const win = getSafeWindow();
+  if (!win?.localStorage) return;
+  win.localStorage.setItem(PENDING_SALES_STORAGE_KEY, JSON.stringify(list));
+}
+
+function createLocalStorageStore(): PendingSalesStore {
+  return {
+    kind: "localstorage",
+    async readAll() {
+      return readLegacyStorage();
+    },
+    async put(record) {
+      const current = readLegacyStorage();
+      const exists = current.some((item) => item.id === record.id);
+      writeLegacyStorage(
+        exists
+          ? current.map((item) => (item.id === record.id ? record : item))
+          : [record, ...current]
+      );
+    },
+    async remove(id) {
+      writeLegacyStorage(readLegacyStorage().filter((item) => item.id !== id));
+    },
+  };
+}
+
+// Las ventas que quedaron en localStorage antes del outbox se copian una sola
+// vez a IndexedDB y luego se limpia la llave vieja.
+async function migrateLegacyRecords(db: IDBDatabase): Promise<void> {
+  const legacy = readLegacyStorage();
+  if (!legacy.length) return;
+  const tx = db.transaction(PENDING_SALES_OBJECT_STORE, "readwrite");
+  const store = tx.objectStore(PENDING_SALES_OBJECT_STORE);
+  legacy.forEach((record) => store.put(record));
+  await promisifyTransaction(tx);
+  getSafeWindow()?.localStorage?.removeItem(PENDING_SALES_STORAGE_KEY);
+}
+
+function createIndexedDbStore(factory: IDBFactory): PendingSalesStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openIndexedDb(
+        factory,
+        PENDING_SALES_DB_NAME,
+        PENDING_SALES_DB_VERSION,
+        [{ name: PENDING_SALES_OBJECT_STORE, keyPath: "id" }]
+      ).then(async (db) => {
+        await migrateLegacyRecords(db);
+        return db;
+      });
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+  return {
+    kind: "indexeddb",
+    async readAll() {
+      const db = await getDb();
+      const tx = db.transaction(PENDING_SALES_OBJECT_STORE, "readonly");
+      const records = await promisifyRequest(
+        tx.objectStore(PENDING_SALES_OBJECT_STORE).getAll()
+      );
+      return (records as PendingSaleRecord[]).sort((a, b) =>
+        b.summary.createdAt.localeCompare(a.summary.createdAt)
+      );
+    },
+    async put(record) {
+      const db = await getDb();
+      const tx = db.transaction(PENDING_SALES_OBJECT_STORE, "readwrite");
+      tx.objectStore(PENDING_SALES_OBJECT_STORE).put(record);
+      await promisifyTransaction(tx);
+    },
+    async remove(id) {
+      const db = await getDb();
+      const tx = db.transaction(PENDING_SALES_OBJECT_STORE, "readwrite");
+      tx.objectStore(PENDING_SALES_OBJECT_STORE).delete(id);
+      await promisifyTransaction(tx);
+    },
+  };
+}
+
+let cachedStore: PendingSalesStore | null = null;
+
+export function getPendingSalesStore(): PendingSalesStore {
+  if (cachedStore) return cachedStore;
+  const factory = getIndexedDbFactory();
+  cachedStore = factory
+    ? createIndexedDbStore(factory)
+    : createLocalStorageStore();
+  return cachedStore;
+}
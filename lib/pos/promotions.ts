@@ -0,0 +1,294 @@
+import type { ComercioWebCombo } from "../api/comercioWebCatalog.ts";
+import type {
+  PosPromotionRule,
+  PosPromotionSchedule,
+  PosPromotionTarget,
+} from "../api/settings.ts";
+import { getBogotaDateParts } from "../time/bogota.ts";
+
+/**
+ * Motor de promociones del carrito.
+ *
+ * Las reglas se evalúan siempre sobre el carrito completo y cada unidad
+ * participa en una sola promoción: primero los combos (paquetes), luego los
+ * "lleve X obtenga Y" y por último los porcentajes por grupo o marca. Las
+ * líneas con descuento manual quedan por fuera: el cajero ya decidió su precio.
+ */
+
+export type PromotionCartLine = {
+  id: number;
+  productId: number;
+  groupName?: string | null;
+  brand?: string | null;
+  quantity: number;
+  unitPrice: number;
+  /** Línea con descuento manual; no recibe promociones. */
+  locked?: boolean;
+};
+
+export type PromotionBundle = {
+  comboId: number;
+  name: string;
+  price: number;
+  items: Array<{ productId: number; quantity: number }>;
+};
+
+export type AppliedPromotion = {
+  ruleId: string;
+  name: string;
+  amount: number;
+  lineIds: number[];
+};
+
+export type PromotionEvaluation = {
+  applied: AppliedPromotion[];
+  /** Descuento por id de línea del carrito. */
+  lineDiscounts: Record<number, number>;
+  total: number;
+};
+
+export const EMPTY_PROMOTION_EVALUATION: PromotionEvaluation = {
+  applied: [],
+  lineDiscounts: {},
+  total: 0,
+};
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const normalizeText = (value?: string | null) => (value ?? "").trim().toLowerCase();
+
+const toMinutes = (value?: string | null): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() ?? "");
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/** Indica si la franja permite la promoción en `now` (hora de Bogotá). */
+export function isWithinSchedule(
+  schedule: PosPromotionSchedule | null | undefined,
+  now: Date
+): boolean {
+  if (!schedule) return true;
+  const parts = getBogotaDateParts(now);
+  const dateKey = `${parts.year}-${parts.month}-${parts.day}`;
+  if (schedule.starts_on && dateKey < schedule.starts_on) return false;
+  if (schedule.ends_on && dateKey > schedule.ends_on) return false;
+  if (schedule.days?.length) {
+    const weekday = new Date(
+      Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day))
+    ).getUTCDay();
+    if (!schedule.days.includes(weekday)) return false;
+  }
+  const start = toMinutes(schedule.start_time);
+  const end = toMinutes(schedule.end_time);
+  if (start == null && end == null) return true;
+  const current = (Number(parts.hour) % 24) * 60 + Number(parts.minute);
+  const from = start ?? 0;
+  const to = end ?? 24 * 60;
+  // Franjas que cruzan la medianoche (p. ej. 22:00 a 02:00).
+  return from <= to ? current >= from && current < to : current >= from || current < to;
+}
+
+export function matchesPromotionTarget(
+  line: PromotionCartLine,
+  target: PosPromotionTarget | null | undefined
+): boolean {
+  const productIds = target?.product_ids ?? [];
+  const groups = (target?.group_names ?? []).map(normalizeText).filter(Boolean);
+  const brands = (target?.brands ?? []).map(normalizeText).filter(Boolean);
+  if (!productIds.length && !groups.length && !brands.length) return true;
+  if (productIds.includes(line.productId)) return true;
+  const group = normalizeText(line.groupName);
+  if (group && groups.some((entry) => group === entry || group.startsWith(`${entry}/`))) {
+    return true;
+  }
+  const brand = normalizeText(line.brand);
+  return Boolean(brand && brands.includes(brand));
+}
+
+/**
+ * Paquete de caja a partir de un combo de Comercio Web. Solo cuentan los
+ * componentes obligatorios; los opcionales no cambian el precio del paquete.
+ */
+export function bundleFromCombo(
+  combo: Pick<ComercioWebCombo, "id" | "name" | "price" | "active" | "items">
+): PromotionBundle | null {
+  if (!combo.active || !(combo.price > 0)) return null;
+  const items = combo.items
+    .filter((item) => item.required && item.quantity > 0)
+    .map((item) => ({ productId: item.product_id, quantity: item.quantity }));
+  if (!items.length) return null;
+  return { comboId: combo.id, name: combo.name, price: combo.price, items };
+}
+
+type Remaining = Map<number, number>;
+
+function addDiscount(
+  result: PromotionEvaluation,
+  rule: Pick<PosPromotionRule, "id" | "name">,
+  shares: Map<number, number>
+) {
+  let amount = 0;
+  const lineIds: number[] = [];
+  shares.forEach((value, lineId) => {
+    const share = round2(value);
+    if (share <= 0) return;
+    result.lineDiscounts[lineId] = round2((result.lineDiscounts[lineId] ?? 0) + share);
+    amount = round2(amount + share);
+    lineIds.push(lineId);
+  });
+  if (amount <= 0) return;
+  const existing = result.applied.find((entry) => entry.ruleId === rule.id);
+  if (existing) {
+    existing.amount = round2(existing.amount + amount);
+    lineIds.forEach((id) => {
+      if (!existing.lineIds.includes(id)) existing.lineIds.push(id);
+    });
+    return;
+  }
+  result.applied.push({ ruleId: rule.id, name: rule.name, amount, lineIds });
+}
+
+function applyBundle(
+  result: PromotionEvaluation,
+  rule: PosPromotionRule,
+  bundle: PromotionBundle,
+  lines: PromotionCartLine[],
+  remaining: Remaining
+) {
+  const linesFor = (productId: number) =>
+    lines.filter((line) => line.productId === productId && (remaining.get(line.id) ?? 0) > 0);
+  const available = (productId: number) =>
+    linesFor(productId).reduce((sum, line) => sum + (remaining.get(line.id) ?? 0), 0);
+  const times = Math.min(
+    ...bundle.items.map((item) => Math.floor(available(item.productId) / item.quantity))
+  );
+  if (!Number.isFinite(times) || times <= 0) return;
+
+  const consumed = new Map<number, number>();
+  bundle.items.forEach((item) => {
+    let pending = item.quantity * times;
+    linesFor(item.productId).forEach((line) => {
+      if (pending <= 0) return;
+      const take = Math.min(pending, remaining.get(line.id) ?? 0);
+      consumed.set(line.id, (consumed.get(line.id) ?? 0) + take);
+      pending -= take;
+    });
+  });
+  const regular = lines.reduce(
+    (sum, line) => sum + (consumed.get(line.id) ?? 0) * line.unitPrice,
+    0
+  );
+  const discount = regular - bundle.price * times;
+  // Si el combo no rebaja nada, las unidades quedan libres para otras reglas.
+  if (discount <= 0) return;
+  const shares = new Map<number, number>();
+  consumed.forEach((units, lineId) => {
+    remaining.set(lineId, (remaining.get(lineId) ?? 0) - units);
+    const line = lines.find((entry) => entry.id === lineId)!;
+    shares.set(lineId, (discount * units * line.unitPrice) / regular);
+  });
+  addDiscount(result, { id: rule.id, name: rule.name || bundle.name }, shares);
+}
+
+function applyBuyXGetY(
+  result: PromotionEvaluation,
+  rule: PosPromotionRule,
+  lines: PromotionCartLine[],
+  remaining: Remaining
+) {
+  const buy = Math.max(0, Math.floor(rule.buy_quantity ?? 0));
+  const get = Math.max(0, Math.floor(rule.get_quantity ?? 0));
+  const percent = Math.min(100, Math.max(0, rule.get_discount_percent ?? 100));
+  if (!buy || !get || !percent) return;
+
+  // Se cuentan unidades enteras, de la más cara a la más barata; en cada
+  // grupo de X+Y las más baratas son las que se regalan o rebajan.
+  const units = lines
+    .filter((line) => matchesPromotionTarget(line, rule.target))
+    .flatMap((line) =>
+      Array.from({ length: Math.floor(remaining.get(line.id) ?? 0) }, () => line)
+    )
+    .sort((a, b) => b.unitPrice - a.unitPrice);
+  const groupSize = buy + get;
+  const groups = Math.floor(units.length / groupSize);
+  if (!groups) return;
+
+  const shares = new Map<number, number>();
+  for (let group = 0; group < groups; group += 1) {
+    const chunk = units.slice(group * groupSize, (group + 1) * groupSize);
+    chunk.forEach((line, index) => {
+      remaining.set(line.id, (remaining.get(line.id) ?? 0) - 1);
+      if (index < buy) return;
+      shares.set(line.id, (shares.get(line.id) ?? 0) + (line.unitPrice * percent) / 100);
+    });
+  }
+  addDiscount(result, rule, shares);
+}
+
+function applyPercentOff(
+  result: PromotionEvaluation,
+  rule: PosPromotionRule,
+  lines: PromotionCartLine[],
+  remaining: Remaining
+) {
+  const percent = Math.min(100, Math.max(0, rule.percent ?? 0));
+  if (!percent) return;
+  const shares = new Map<number, number>();
+  lines
+    .filter((line) => matchesPromotionTarget(line, rule.target))
+    .forEach((line) => {
+      const units = remaining.get(line.id) ?? 0;
+      if (units <= 0) return;
+      remaining.set(line.id, 0);
+      shares.set(line.id, (units * line.unitPrice * percent) / 100);
+    });
+  addDiscount(result, rule, shares);
+}
+
+const KIND_ORDER: Record<PosPromotionRule["kind"], number> = {
+  bundle: 0,
+  buy_x_get_y: 1,
+  percent_off: 2,
+};
+
+export function evaluatePromotions(
+  lines: PromotionCartLine[],
+  rules: PosPromotionRule[],
+  options: { now?: Date; bundles?: PromotionBundle[] } = {}
+): PromotionEvaluation {
+  const now = options.now ?? new Date();
+  const eligible = lines.filter((line) => !line.locked && line.quantity > 0 && line.unitPrice > 0);
+  const activeRules = rules
+    .filter((rule) => rule.active && isWithinSchedule(rule.schedule, now))
+    .sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+  if (!eligible.length || !activeRules.length) return EMPTY_PROMOTION_EVALUATION;
+
+  const result: PromotionEvaluation = { applied: [], lineDiscounts: {}, total: 0 };
+  const remaining: Remaining = new Map(eligible.map((line) => [line.id, line.quantity]));
+  activeRules.forEach((rule) => {
+    if (rule.kind === "bundle") {
+      const bundle = options.bundles?.find((entry) => entry.comboId === rule.combo_id);
+      if (bundle) applyBundle(result, rule, bundle, eligible, remaining);
+      return;
+    }
+    if (rule.kind === "buy_x_get_y") {
+      applyBuyXGetY(result, rule, eligible, remaining);
+      return;
+    }
+    applyPercentOff(result, rule, eligible, remaining);
+  });
+  result.total = round2(result.applied.reduce((sum, entry) => sum + entry.amount, 0));
+  return result;
+}
+
+/** Nombres de las promociones que tocan una línea, para mostrarlos en el carrito. */
+export function promotionNamesForLine(
+  evaluation: PromotionEvaluation,
+  lineId: number
+): string {
+  return evaluation.applied
+    .filter((entry) => entry.lineIds.includes(lineId))
+    .map((entry) => entry.name)
+    .join(" + ");
+}
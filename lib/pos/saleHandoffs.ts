@@ -0,0 +1,53 @@
+import type {
+  PosStationScope,
+  SaleHandoff,
+  SaleHandoffStatus,
+} from "../api/posHandoffs.ts";
+
+/** Cada cuánto la caja revisa si sus tablets le enviaron carritos. */
+export const SALE_HANDOFF_POLL_MS = 15_000;
+
+export const SALE_HANDOFF_STATUS_LABELS: Record<SaleHandoffStatus, string> = {
+  pending: "Esperando caja",
+  taken: "Tomada",
+  cancelled: "Cancelada",
+};
+
+/**
+ * - `tablet`: estación auxiliar; arma carritos y los envía a caja.
+ * - `register`: estación principal con tablets vinculadas; los recibe y cobra.
+ * - `null`: estación sin tablets; no participa del traspaso.
+ */
+export type SaleHandoffRole = "tablet" | "register" | null;
+
+export function resolveSaleHandoffRole(
+  scope: PosStationScope | null,
+  stationId: string | null
+): SaleHandoffRole {
+  if (!scope || !stationId) return null;
+  const current = scope.stations.find((station) => station.station_id === stationId);
+  if (current?.station_type === "tablet") return "tablet";
+  if (scope.primary_station_id !== stationId) return null;
+  return scope.stations.some((station) => station.station_type === "tablet")
+    ? "register"
+    : null;
+}
+
+/** Pendientes primero y en orden de llegada; luego las demás, más recientes arriba. */
+export function sortSaleHandoffs(handoffs: SaleHandoff[]): SaleHandoff[] {
+  const pending = handoffs
+    .filter((handoff) => handoff.status === "pending")
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const rest = handoffs
+    .filter((handoff) => handoff.status !== "pending")
+    .sort((a, b) =>
+      (b.taken_at ?? b.cancelled_at ?? b.created_at).localeCompare(
+        a.taken_at ?? a.cancelled_at ?? a.created_at
+      )
+    );
+  return [...pending, ...rest];
+}
+
+export function countPendingSaleHandoffs(handoffs: SaleHandoff[]): number {
+  return handoffs.filter((handoff) => handoff.status === "pending").length;
+}
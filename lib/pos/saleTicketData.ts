@@ -1,3 +1,5 @@
+import { isTaxRateCode, type TaxRateCode } from "./taxes.ts";
+
 export type SaleTicketSourceItem = {
   id?: number | null;
   product_name?: string | null;
@@ -8,6 +10,8 @@ export type SaleTicketSourceItem = {
   discount?: number | null;
   line_discount_value?: number | null;
   total?: number | null;
+  tax_rate?: string | null;
+  tax_included?: boolean | null;
 };
 
 export type SaleTicketItem = {
@@ -15,6 +19,8 @@ export type SaleTicketItem = {
   quantity: number;
   unitPrice: number;
   total: number;
+  taxRate?: TaxRateCode | null;
+  taxIncluded?: boolean | null;
 };
 
 export type SaleTicketLineBreakdown = SaleTicketItem & {
@@ -70,6 +76,8 @@ export function buildSaleTicketLineBreakdown(
       subtotal: gross,
       total,
       discount,
+      taxRate: isTaxRateCode(item.tax_rate) ? item.tax_rate : null,
+      taxIncluded: item.tax_included ?? null,
       key: `${item.id ?? index}-${item.product_name ?? item.name ?? "producto"}`,
     };
   });
@@ -0,0 +1,82 @@
+/**
+ * Vendedores en una estación compartida: quién está vendiendo ahora (cambiado
+ * por PIN) y a quién se le atribuye cada línea del carrito.
+ */
+
+export const ACTIVE_SELLER_STORAGE_KEY_BASE = "kensar_pos_active_seller_v1";
+
+export type PosSeller = {
+  id: number;
+  name: string;
+};
+
+type SellerLine = {
+  sellerId?: number | null;
+  sellerName?: string | null;
+};
+
+export function withLineSeller<T extends SellerLine>(
+  item: T,
+  seller: PosSeller | null
+): T {
+  return { ...item, sellerId: seller?.id ?? null, sellerName: seller?.name ?? null };
+}
+
+export type AttributableSaleItem = {
+  quantity?: number | null;
+  unit_price?: number | null;
+  line_discount_value?: number | null;
+  total?: number | null;
+  seller_name?: string | null;
+};
+
+type AttributableSale = {
+  total?: number | null;
+  vendor_name?: string | null;
+  items?: AttributableSaleItem[] | null;
+};
+
+export type SellerShare = {
+  sellerName: string;
+  amount: number;
+};
+
+/** Neto de la línea: su `total`, o cantidad × precio menos el descuento de línea. */
+export function saleLineNet(item: AttributableSaleItem): number {
+  if (typeof item.total === "number" && Number.isFinite(item.total)) {
+    return Math.max(0, item.total);
+  }
+  const gross = (item.quantity ?? 0) * (item.unit_price ?? 0);
+  return Math.max(0, gross - (item.line_discount_value ?? 0));
+}
+
+/**
+ * Reparte el total de la venta entre los vendedores de sus líneas, en
+ * proporción al neto de cada línea; así los descuentos y recargos del
+ * carrito se distribuyen igual que el resto. Las ventas sin vendedor por
+ * línea quedan completas para `vendor_name`.
+ */
+export function attributeSaleToSellers(
+  sale: AttributableSale,
+  fallbackName = "Sin vendedor"
+): SellerShare[] {
+  const total = sale.total ?? 0;
+  const saleSeller = sale.vendor_name?.trim() || fallbackName;
+  const items = sale.items ?? [];
+  if (!items.some((item) => item.seller_name?.trim())) {
+    return [{ sellerName: saleSeller, amount: total }];
+  }
+  const bySeller = new Map<string, number>();
+  items.forEach((item) => {
+    const seller = item.seller_name?.trim() || saleSeller;
+    bySeller.set(seller, (bySeller.get(seller) ?? 0) + saleLineNet(item));
+  });
+  const linesTotal = Array.from(bySeller.values()).reduce((sum, value) => sum + value, 0);
+  if (linesTotal <= 0) {
+    return [{ sellerName: saleSeller, amount: total }];
+  }
+  return Array.from(bySeller.entries()).map(([sellerName, amount]) => ({
+    sellerName,
+    amount: (amount / linesTotal) * total,
+  }));
+}
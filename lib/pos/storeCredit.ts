@@ -0,0 +1,99 @@
+import type { PosSettingsPayload } from "../api/settings.ts";
+import type { StoreCredit, StoreCreditKind, StoreCreditStatus } from "../api/storeCredits.ts";
+import type { StoreCreditTicketOptions } from "../printing/saleTicket.ts";
+
+/**
+ * Saldos a favor: notas crédito (devoluciones y cambios) y tarjetas de regalo.
+ *
+ * El backend es dueño del saldo y de sus movimientos; la caja solo valida lo
+ * que puede aplicar antes de enviar la venta: que el saldo siga vigente y que
+ * no se use más de lo que queda ni más de lo que falta por pagar.
+ */
+
+/** Slug del "método de pago" con el que se paga usando un saldo a favor. */
+export const STORE_CREDIT_PAYMENT_METHOD = "saldo_favor";
+
+export const STORE_CREDIT_KIND_LABELS: Record<StoreCreditKind, string> = {
+  gift_card: "Tarjeta de regalo",
+  credit_note: "Nota crédito",
+};
+
+export const STORE_CREDIT_STATUS_LABELS: Record<StoreCreditStatus, string> = {
+  active: "Activo",
+  redeemed: "Agotado",
+  expired: "Vencido",
+  voided: "Anulado",
+};
+
+/**
+ * Deja solo los dígitos del código. Los lectores de código de barras suelen
+ * agregar espacios o el prefijo que se digita a mano se escribe con guiones.
+ */
+export function normalizeStoreCreditCode(raw: string): string {
+  return raw.replace(/\D/g, "");
+}
+
+/**
+ * Estado efectivo del saldo en `now`. El backend vence los saldos en un
+ * proceso nocturno, así que uno "activo" puede estar vencido desde hoy.
+ */
+export function resolveStoreCreditStatus(
+  credit: Pick<StoreCredit, "status" | "balance" | "expires_at">,
+  now: Date = new Date()
+): StoreCreditStatus {
+  if (credit.status !== "active") return credit.status;
+  if (credit.expires_at) {
+    const expiry = new Date(credit.expires_at);
+    if (!Number.isNaN(expiry.getTime()) && expiry.getTime() <= now.getTime()) {
+      return "expired";
+    }
+  }
+  return credit.balance > 0 ? "active" : "redeemed";
+}
+
+/** Valor máximo del saldo que se puede aplicar a lo que falta por pagar. */
+export function maxStoreCreditRedemption(
+  credit: Pick<StoreCredit, "status" | "balance" | "expires_at">,
+  remaining: number,
+  now: Date = new Date()
+): number {
+  if (resolveStoreCreditStatus(credit, now) !== "active") return 0;
+  return Math.max(0, Math.min(credit.balance, remaining));
+}
+
+/**
+ * Líneas de pago de una venta que usa saldo a favor: el saldo y lo que resta
+ * por el método elegido. Si el saldo cubre todo, no va una segunda línea en
+ * cero.
+ */
+export function splitStoreCreditPayments(
+  method: string,
+  paidAmount: number,
+  creditAmount: number
+): Array<{ method: string; amount: number }> {
+  const credit = Math.max(0, Math.min(creditAmount, paidAmount));
+  const rest = paidAmount - credit;
+  return [
+    ...(credit > 0 ? [{ method: STORE_CREDIT_PAYMENT_METHOD, amount: credit }] : []),
+    ...(rest > 0 || credit <= 0 ? [{ method, amount: rest }] : []),
+  ];
+}
+
+export function buildStoreCreditTicketOptions(
+  credit: StoreCredit,
+  settings?: PosSettingsPayload | null
+): StoreCreditTicketOptions {
+  return {
+    settings,
+    kind: credit.kind,
+    code: credit.code,
+    amount: credit.initial_amount,
+    balance: credit.balance,
+    issuedAt: credit.issued_at,
+    expiresAt: credit.expires_at,
+    customerName: credit.customer_name,
+    sourceDocumentNumber: credit.source_document_number,
+    posName: credit.pos_name,
+    notes: credit.notes,
+  };
+}
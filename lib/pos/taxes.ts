@@ -0,0 +1,246 @@
+/**
+ * Discriminación de IVA por tarifa.
+ *
+ * El motor no cambia los totales del carrito: separa de cada valor la base
+ * gravable y el impuesto según la tarifa del producto. Si el precio ya trae
+ * el IVA (precio al consumidor) se descuenta de él; si no, el valor es la
+ * base y el IVA se suma encima. Sobre un valor ya cobrado (`documentTotal`)
+ * el IVA siempre sale de lo cobrado: el POS no lo suma al cobrar, y el
+ * desglose no puede sumar más de lo que pagó el cliente. Los descuentos de
+ * línea ya vienen dentro del total de la línea y los del carrito (o recargos
+ * por método de pago) se reparten en proporción al valor de cada línea antes
+ * de agrupar.
+ */
+
+export type TaxRateCode = "exempt" | "0" | "5" | "19";
+
+export type TaxRateOption = {
+  code: TaxRateCode;
+  label: string;
+  percent: number;
+};
+
+export const TAX_RATE_OPTIONS: TaxRateOption[] = [
+  { code: "19", label: "IVA 19%", percent: 19 },
+  { code: "5", label: "IVA 5%", percent: 5 },
+  { code: "0", label: "IVA 0%", percent: 0 },
+  { code: "exempt", label: "Exento", percent: 0 },
+];
+
+const TAX_RATE_BY_CODE = new Map(TAX_RATE_OPTIONS.map((option) => [option.code, option]));
+
+export type TaxableLine = {
+  total: number;
+  taxRate: TaxRateCode;
+  /** `false` si el precio de la línea no trae el IVA; sin dato se usa el del documento. */
+  taxIncluded?: boolean | null;
+};
+
+export type TaxBreakdownEntry = {
+  code: TaxRateCode;
+  label: string;
+  percent: number;
+  base: number;
+  tax: number;
+  total: number;
+};
+
+export type TaxBreakdown = {
+  entries: TaxBreakdownEntry[];
+  base: number;
+  tax: number;
+  total: number;
+};
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export function isTaxRateCode(value: unknown): value is TaxRateCode {
+  return typeof value === "string" && TAX_RATE_BY_CODE.has(value as TaxRateCode);
+}
+
+export function getTaxRateOption(code: TaxRateCode): TaxRateOption {
+  return TAX_RATE_BY_CODE.get(code) ?? TAX_RATE_OPTIONS[TAX_RATE_OPTIONS.length - 1]!;
+}
+
+/**
+ * Tarifa de un producto. Los productos creados antes de tener tarifa propia
+ * quedan en la tarifa general: `includes_tax` dice si el precio trae el IVA,
+ * no si el producto está exento.
+ */
+export function resolveTaxRateCode(product: { tax_rate?: string | null }): TaxRateCode {
+  if (isTaxRateCode(product.tax_rate)) return product.tax_rate;
+  return "19";
+}
+
+/**
+ * Si el precio del producto ya trae el IVA. Manda la marca del producto; sin
+ * ella se usa `prices_include_tax` de la facturación electrónica.
+ */
+export function resolveTaxIncluded(
+  product: { includes_tax?: boolean | null },
+  pricesIncludeTax?: boolean | null
+): boolean {
+  if (typeof product.includes_tax === "boolean") return product.includes_tax;
+  return pricesIncludeTax ?? true;
+}
+
+/**
+ * Separa base e impuesto de un valor. Con `included` el valor ya trae el IVA;
+ * sin él, el valor es la base y el IVA se suma encima.
+ */
+export function splitTaxAmount(
+  amount: number,
+  percent: number,
+  included = true
+): { base: number; tax: number; total: number } {
+  const value = round2(amount);
+  if (included) {
+    const base = round2(value / (1 + percent / 100));
+    return { base, tax: round2(value - base), total: value };
+  }
+  const tax = round2((value * percent) / 100);
+  return { base: value, tax, total: round2(value + tax) };
+}
+
+/**
+ * Ajusta los totales de línea para que sumen `documentTotal`. El último
+ * renglón absorbe la diferencia de redondeo.
+ */
+export function prorateLineTotals<T extends { total: number }>(
+  lines: T[],
+  documentTotal: number
+): T[] {
+  const linesTotal = lines.reduce((sum, line) => sum + line.total, 0);
+  if (linesTotal <= 0 || Math.abs(linesTotal - documentTotal) < 0.01) return lines;
+  const factor = documentTotal / linesTotal;
+  let assigned = 0;
+  return lines.map((line, index) => {
+    const total =
+      index === lines.length - 1
+        ? round2(documentTotal - assigned)
+        : round2(line.total * factor);
+    assigned = round2(assigned + total);
+    return { ...line, total };
+  });
+}
+
+/**
+ * Agrupa base e IVA por tarifa. `documentTotal` es el valor realmente cobrado
+ * (con descuento o recargo del carrito): las líneas se ajustan a él y la base
+ * se saca de lo cobrado, sin importar si el precio traía el IVA. Sin él,
+ * `pricesIncludeTax` aplica a las líneas que no dicen si traen el IVA.
+ */
+export function computeTaxBreakdown(
+  lines: TaxableLine[],
+  options: { documentTotal?: number; pricesIncludeTax?: boolean | null } = {}
+): TaxBreakdown {
+  const charged = typeof options.documentTotal === "number";
+  const prorated = charged
+    ? prorateLineTotals(lines, Math.max(0, options.documentTotal!))
+    : lines;
+  const byCode = new Map<TaxRateCode, TaxBreakdownEntry>();
+  prorated.forEach((line) => {
+    const option = getTaxRateOption(line.taxRate);
+    const split = splitTaxAmount(
+      line.total,
+      option.percent,
+      charged || (line.taxIncluded ?? options.pricesIncludeTax ?? true)
+    );
+    const current = byCode.get(option.code) ?? {
+      code: option.code,
+      label: option.label,
+      percent: option.percent,
+      base: 0,
+      tax: 0,
+      total: 0,
+    };
+    current.base = round2(current.base + split.base);
+    current.tax = round2(current.tax + split.tax);
+    current.total = round2(current.total + split.total);
+    byCode.set(option.code, current);
+  });
+  return summarizeEntries(
+    TAX_RATE_OPTIONS.map((option) => byCode.get(option.code)).filter(
+      (entry): entry is TaxBreakdownEntry => Boolean(entry)
+    )
+  );
+}
+
+/**
+ * Discriminación para un documento ya emitido. Devuelve `null` si alguna
+ * línea no trae tarifa (ventas anteriores a este cálculo), para no imprimir
+ * un IVA inventado.
+ */
+export function taxBreakdownFromItems(
+  items: Array<{ total: number; taxRate?: TaxRateCode | null; taxIncluded?: boolean | null }>,
+  documentTotal?: number
+): TaxBreakdown | null {
+  if (!items.length || items.some((item) => !item.taxRate)) return null;
+  return computeTaxBreakdown(
+    items.map((item) => ({
+      total: item.total,
+      taxRate: item.taxRate!,
+      taxIncluded: item.taxIncluded,
+    })),
+    { documentTotal }
+  );
+}
+
+/** Fila de desglose tal como la envía el backend (cierres, informes). */
+export type TaxBreakdownRow = {
+  rate?: string | null;
+  base?: number | null;
+  tax?: number | null;
+  total?: number | null;
+};
+
+export function normalizeTaxBreakdown(
+  raw: TaxBreakdownRow[] | null | undefined
+): TaxBreakdown | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const entries = raw
+    .filter((row) => isTaxRateCode(row.rate))
+    .map((row) => {
+      const option = getTaxRateOption(row.rate as TaxRateCode);
+      const base = round2(Number(row.base ?? 0));
+      const tax = round2(Number(row.tax ?? 0));
+      return {
+        code: option.code,
+        label: option.label,
+        percent: option.percent,
+        base,
+        tax,
+        total: round2(Number(row.total ?? base + tax)),
+      };
+    });
+  return entries.length ? summarizeEntries(entries) : null;
+}
+
+/** Renglones "etiqueta / valor" para tickets angostos (HTML y ESC/POS). */
+export function describeTaxBreakdown(
+  breakdown: TaxBreakdown
+): Array<{ label: string; amount: number }> {
+  const rows = breakdown.entries.flatMap((entry) =>
+    entry.percent > 0
+      ? [
+          { label: `Base ${entry.label}`, amount: entry.base },
+          { label: entry.label, amount: entry.tax },
+        ]
+      : [
+          {
+            label: entry.code === "exempt" ? "Valor exento" : `Base ${entry.label}`,
+            amount: entry.base,
+          },
+        ]
+  );
+  return [...rows, { label: "Total IVA", amount: breakdown.tax }];
+}
+
+function summarizeEntries(entries: TaxBreakdownEntry[]): TaxBreakdown {
+  return {
+    entries,
+    base: round2(entries.reduce((sum, entry) => sum + entry.base, 0)),
+    tax: round2(entries.reduce((sum, entry) => sum + entry.tax, 0)),
+    total: round2(entries.reduce((sum, entry) => sum + entry.total, 0)),
+  };
+}
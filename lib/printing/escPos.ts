@@ -0,0 +1,337 @@
+import type { PosPrinterWidth } from "../api/settings.ts";
+
+export type EscPosAlign = "left" | "center" | "right";
+export type EscPosTextSize = "normal" | "double" | "double-height" | "double-width";
+export type EscPosQrErrorLevel = "L" | "M" | "Q" | "H";
+
+/** Imagen monocromática empaquetada a 1 bit por punto, filas de `bytesPerRow`. */
+export type EscPosRasterImage = {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+};
+
+/** Caracteres por línea con la fuente A de las térmicas de 58 y 80 mm. */
+export const ESC_POS_COLUMNS: Record<PosPrinterWidth, number> = {
+  "80mm": 48,
+  "58mm": 32,
+};
+
+/** Ancho imprimible en puntos (203 dpi). */
+export const ESC_POS_PRINTABLE_DOTS: Record<PosPrinterWidth, number> = {
+  "80mm": 576,
+  "58mm": 384,
+};
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// ESC t 19 selecciona la página de códigos CP858 (CP850 + €).
+const CP858_CODE_PAGE = 19;
+
+const CP858_MAP: Record<string, number> = {
+  "Ç": 0x80, "ü": 0x81, "é": 0x82, "â": 0x83, "ä": 0x84, "à": 0x85,
+  "ç": 0x87, "ê": 0x88, "ë": 0x89, "è": 0x8a, "ï": 0x8b, "î": 0x8c,
+  "ì": 0x8d, "Ä": 0x8e, "É": 0x90, "ô": 0x93, "ö": 0x94, "ò": 0x95,
+  "û": 0x96, "ù": 0x97, "Ö": 0x99, "Ü": 0x9a, "£": 0x9c, "×": 0x9e,
+  "á": 0xa0, "í": 0xa1, "ó": 0xa2, "ú": 0xa3, "ñ": 0xa4, "Ñ": 0xa5,
+  "ª": 0xa6, "º": 0xa7, "¿": 0xa8, "¬": 0xaa, "½": 0xab, "¼": 0xac,
+  "¡": 0xad, "«": 0xae, "»": 0xaf, "Á": 0xb5, "Â": 0xb6, "À": 0xb7,
+  "©": 0xb8, "¢": 0xbd, "¥": 0xbe, "€": 0xd5, "Ê": 0xd2, "Í": 0xd6,
+  "Ó": 0xe0, "Ô": 0xe2, "Ò": 0xe3, "Ú": 0xe9, "´": 0xef, "±": 0xf1,
+  "§": 0xf5, "°": 0xf8, "·": 0xfa,
+};
+
+const TEXT_REPLACEMENTS: Record<string, string> = {
+  "–": "-",
+  "—": "-",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "…": "...",
+  "\u00a0": " ",
+  "\u202f": " ",
+};
+
+/** Codifica texto a CP858; lo que no exista en la tabla pierde la tilde o queda como "?". */
+export function encodeEscPosText(value: string): number[] {
+  const bytes: number[] = [];
+  for (const rawChar of value) {
+    const char = TEXT_REPLACEMENTS[rawChar] ?? rawChar;
+    for (const piece of char) {
+      const code = piece.charCodeAt(0);
+      if (code >= 0x20 && code < 0x7f) {
+        bytes.push(code);
+        continue;
+      }
+      const mapped = CP858_MAP[piece];
+      if (mapped !== undefined) {
+        bytes.push(mapped);
+        continue;
+      }
+      const stripped = piece.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+      const strippedCode = stripped.charCodeAt(0);
+      bytes.push(
+        stripped.length > 0 && strippedCode >= 0x20 && strippedCode < 0x7f
+          ? strippedCode
+          : 0x3f
+      );
+    }
+  }
+  return bytes;
+}
+
+/** Parte un texto en líneas de `width` caracteres respetando palabras. */
+export function wrapEscPosText(value: string, width: number): string[] {
+  const safeWidth = Math.max(1, width);
+  const lines: string[] = [];
+  value.split(/\r?\n/).forEach((paragraph) => {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (!words.length) {
+      lines.push("");
+      return;
+    }
+    // La sangría inicial se conserva solo en la primera línea.
+    const indent = (paragraph.match(/^ +/)?.[0] ?? "").slice(0, safeWidth - 1);
+    let current = indent;
+    words.forEach((word) => {
+      let remaining = word;
+      const available = () => safeWidth - (current.trim() ? current.length + 1 : current.length);
+      while (remaining.length > safeWidth - (current.trim() ? 0 : current.length)) {
+        if (current.trim()) {
+          lines.push(current);
+          current = "";
+          continue;
+        }
+        const room = safeWidth - current.length;
+        lines.push(`${current}${remaining.slice(0, room)}`);
+        remaining = remaining.slice(room);
+        current = "";
+      }
+      if (!remaining) return;
+      if (!current.trim()) {
+        current = `${current}${remaining}`;
+      } else if (remaining.length <= available()) {
+        current = `${current} ${remaining}`;
+      } else {
+        lines.push(current);
+        current = remaining;
+      }
+    });
+    if (current.trim()) lines.push(current);
+  });
+  return lines;
+}
+
+/**
+ * Convierte píxeles RGBA (como los de un canvas) a raster de 1 bit.
+ * Los píxeles transparentes cuentan como papel.
+ */
+export function rasterizeMonochrome(
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+  threshold = 160
+): EscPosRasterImage {
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const offset = (y * width + x) * 4;
+      const alpha = rgba[offset + 3] / 255;
+      const luminance =
+        0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2];
+      const composed = luminance * alpha + 255 * (1 - alpha);
+      if (composed < threshold) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return { width, height, bytesPerRow, data };
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let index = 0; index < bytes.length; index += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + chunkSize));
+  }
+  return btoa(binary);
+}
+
+const SIZE_FLAGS: Record<EscPosTextSize, number> = {
+  normal: 0x00,
+  "double-height": 0x01,
+  "double-width": 0x10,
+  double: 0x11,
+};
+
+const QR_ERROR_LEVELS: Record<EscPosQrErrorLevel, number> = {
+  L: 48,
+  M: 49,
+  Q: 50,
+  H: 51,
+};
+
+export type EscPosEncoder = {
+  readonly columns: number;
+  readonly printableDots: number;
+  initialize: () => EscPosEncoder;
+  align: (value: EscPosAlign) => EscPosEncoder;
+  bold: (on: boolean) => EscPosEncoder;
+  invert: (on: boolean) => EscPosEncoder;
+  size: (value: EscPosTextSize) => EscPosEncoder;
+  text: (value: string) => EscPosEncoder;
+  line: (value?: string) => EscPosEncoder;
+  wrapped: (value: string) => EscPosEncoder;
+  columnsRow: (left: string, right: string) => EscPosEncoder;
+  rule: (char?: string) => EscPosEncoder;
+  feed: (lines?: number) => EscPosEncoder;
+  barcode128: (
+    value: string,
+    options?: { height?: number; moduleWidth?: number; showText?: boolean }
+  ) => EscPosEncoder;
+  qrCode: (
+    value: string,
+    options?: { moduleSize?: number; errorLevel?: EscPosQrErrorLevel }
+  ) => EscPosEncoder;
+  image: (raster: EscPosRasterImage) => EscPosEncoder;
+  cut: (options?: { partial?: boolean; feedLines?: number }) => EscPosEncoder;
+  pulseDrawer: () => EscPosEncoder;
+  encode: () => Uint8Array;
+};
+
+/**
+ * Construye comandos ESC/POS crudos para térmicas de 58 y 80 mm. Lleva el
+ * tamaño de letra actual para que las columnas cuadren en doble ancho.
+ */
+export function createEscPosEncoder(width: PosPrinterWidth): EscPosEncoder {
+  const baseColumns = ESC_POS_COLUMNS[width];
+  const bytes: number[] = [];
+  let currentSize: EscPosTextSize = "normal";
+
+  const push = (...values: number[]) => {
+    for (const value of values) bytes.push(value & 0xff);
+  };
+  const currentColumns = () =>
+    currentSize === "double" || currentSize === "double-width"
+      ? Math.floor(baseColumns / 2)
+      : baseColumns;
+
+  const encoder: EscPosEncoder = {
+    get columns() {
+      return currentColumns();
+    },
+    printableDots: ESC_POS_PRINTABLE_DOTS[width],
+    initialize() {
+      currentSize = "normal";
+      push(ESC, 0x40, ESC, 0x74, CP858_CODE_PAGE);
+      return encoder;
+    },
+    align(value) {
+      push(ESC, 0x61, value === "center" ? 1 : value === "right" ? 2 : 0);
+      return encoder;
+    },
+    bold(on) {
+      push(ESC, 0x45, on ? 1 : 0);
+      return encoder;
+    },
+    invert(on) {
+      push(GS, 0x42, on ? 1 : 0);
+      return encoder;
+    },
+    size(value) {
+      currentSize = value;
+      push(GS, 0x21, SIZE_FLAGS[value]);
+      return encoder;
+    },
+    text(value) {
+      push(...encodeEscPosText(value));
+      return encoder;
+    },
+    line(value = "") {
+      push(...encodeEscPosText(value), LF);
+      return encoder;
+    },
+    wrapped(value) {
+      wrapEscPosText(value, currentColumns()).forEach((line) => encoder.line(line));
+      return encoder;
+    },
+    columnsRow(left, right) {
+      const columns = currentColumns();
+      const rightText = right.length > columns ? right.slice(0, columns) : right;
+      const leftWidth = Math.max(1, columns - rightText.length - 1);
+      const leftLines = wrapEscPosText(left, leftWidth);
+      leftLines.slice(0, -1).forEach((line) => encoder.line(line));
+      const last = leftLines[leftLines.length - 1] ?? "";
+      const gap = Math.max(1, columns - last.length - rightText.length);
+      encoder.line(`${last}${" ".repeat(gap)}${rightText}`);
+      return encoder;
+    },
+    rule(char = "-") {
+      encoder.line(char.repeat(currentColumns()));
+      return encoder;
+    },
+    feed(lines = 1) {
+      push(ESC, 0x64, Math.max(0, Math.min(255, lines)));
+      return encoder;
+    },
+    barcode128(value, options = {}) {
+      const data = encodeEscPosText(value).filter((code) => code < 0x80);
+      if (!data.length) return encoder;
+      const height = Math.max(1, Math.min(255, options.height ?? 60));
+      const moduleWidth = Math.max(2, Math.min(6, options.moduleWidth ?? 2));
+      // "{B" selecciona el juego B de Code 128 (ASCII imprimible); una "{" de
+      // los datos se envía como "{{" para que no se lea como otra función.
+      const escaped = data.flatMap((code) => (code === 0x7b ? [code, code] : [code]));
+      const payload = [0x7b, 0x42, ...escaped];
+      if (payload.length > 255) {
+        throw new Error("El código de barras es demasiado largo para la impresora.");
+      }
+      push(GS, 0x68, height, GS, 0x77, moduleWidth);
+      push(GS, 0x48, options.showText === false ? 0 : 2);
+      push(GS, 0x6b, 73, payload.length, ...payload);
+      push(LF);
+      return encoder;
+    },
+    qrCode(value, options = {}) {
+      const data = Array.from(new TextEncoder().encode(value));
+      if (!data.length) return encoder;
+      const moduleSize = Math.max(1, Math.min(16, options.moduleSize ?? 6));
+      const storeLength = data.length + 3;
+      push(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0);
+      push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, moduleSize);
+      push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, QR_ERROR_LEVELS[options.errorLevel ?? "M"]);
+      push(GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...data);
+      push(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30);
+      push(LF);
+      return encoder;
+    },
+    image(raster) {
+      if (!raster.width || !raster.height) return encoder;
+      push(
+        GS, 0x76, 0x30, 0,
+        raster.bytesPerRow & 0xff, raster.bytesPerRow >> 8,
+        raster.height & 0xff, raster.height >> 8
+      );
+      for (const value of raster.data) bytes.push(value);
+      push(LF);
+      return encoder;
+    },
+    cut(options = {}) {
+      push(GS, 0x56, options.partial ? 66 : 65, Math.max(0, options.feedLines ?? 3));
+      return encoder;
+    },
+    pulseDrawer() {
+      push(ESC, 0x70, 0, 0x19, 0xfa);
+      return encoder;
+    },
+    encode() {
+      return Uint8Array.from(bytes);
+    },
+  };
+  return encoder;
+}
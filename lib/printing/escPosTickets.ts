@@ -0,0 +1,607 @@
+import type { PosPrinterWidth, PosSettingsPayload } from "@/lib/api/settings";
+import { formatBogotaDate } from "@/lib/time/bogota";
+import {
+  createEscPosEncoder,
+  ESC_POS_PRINTABLE_DOTS,
+  rasterizeMonochrome,
+  type EscPosAlign,
+  type EscPosEncoder,
+  type EscPosRasterImage,
+} from "@/lib/printing/escPos";
+import { describeTaxBreakdown, type TaxBreakdown } from "@/lib/pos/taxes";
+import {
+  buildClosureTicketSummary,
+  buildSaleTicketBarcodeValue,
+  describeTicketLoyalty,
+  resolveTicketCompanyInfo,
+  splitTicketDiscounts,
+  storeCreditTicketTitle,
+  type ChangeTicketOptions,
+  type ClosureTicketOptions,
+  type ReturnTicketOptions,
+  type SaleTicketOptions,
+  type StoreCreditTicketOptions,
+  type TicketCompanyInfo,
+} from "@/lib/printing/saleTicket";
+
+export type EscPosTicketOptions = {
+  width: PosPrinterWidth;
+  logo?: EscPosRasterImage | null;
+  openDrawer?: boolean;
+};
+
+function formatMoney(value: number): string {
+  return `$ ${value.toLocaleString("es-CO", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  })}`;
+}
+
+function formatMoneySigned(value: number): string {
+  const formatted = formatMoney(Math.abs(value));
+  return value < 0 ? `-${formatted}` : formatted;
+}
+
+function formatDateTime(value?: string | Date | null): string {
+  if (!value) return "";
+  return (
+    formatBogotaDate(value, { dateStyle: "short", timeStyle: "short" }) ||
+    String(value)
+  );
+}
+
+function formatDateOnly(value?: string | null): string {
+  if (!value) return "";
+  return formatBogotaDate(value, { dateStyle: "short" }) || value;
+}
+
+function writeHeader(
+  encoder: EscPosEncoder,
+  company: TicketCompanyInfo,
+  options: EscPosTicketOptions
+) {
+  encoder.initialize().align("center");
+  if (options.logo) {
+    encoder.image(options.logo);
+  }
+  encoder.bold(true).size("double-height").wrapped(company.companyName);
+  encoder.size("normal").bold(false);
+  encoder.wrapped(company.address);
+  encoder.wrapped(`${company.phone} · ${company.email}`);
+  encoder.wrapped(company.taxId);
+}
+
+function writeBadge(encoder: EscPosEncoder, label: string) {
+  encoder.feed(1).align("center").bold(true).invert(true);
+  encoder.line(` ${label} `);
+  encoder.invert(false).bold(false).align("left");
+}
+
+function writeSectionTitle(encoder: EscPosEncoder, label: string) {
+  encoder.bold(true).line(label.toUpperCase()).bold(false);
+}
+
+function writeNotes(encoder: EscPosEncoder, notes?: string | null) {
+  const lines = (notes ?? "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (!lines.length) return;
+  encoder.rule();
+  writeSectionTitle(encoder, "Notas");
+  lines.forEach((line) => encoder.wrapped(line));
+}
+
+function writeTaxBreakdown(encoder: EscPosEncoder, breakdown?: TaxBreakdown | null) {
+  if (!breakdown?.entries.length) return;
+  encoder.rule();
+  writeSectionTitle(encoder, "Discriminación de IVA");
+  describeTaxBreakdown(breakdown).forEach((row) =>
+    encoder.columnsRow(row.label, formatMoney(row.amount))
+  );
+}
+
+function writeFooter(
+  encoder: EscPosEncoder,
+  footer: string,
+  align: EscPosAlign,
+  options: EscPosTicketOptions
+) {
+  encoder.rule().align(align);
+  footer.split("\n").forEach((line) => encoder.wrapped(line));
+  encoder.align("left").feed(2);
+  if (options.openDrawer) {
+    encoder.pulseDrawer();
+  }
+  encoder.cut();
+}
+
+function writeItem(
+  encoder: EscPosEncoder,
+  item: { name: string; quantity: number; unitPrice: number },
+  amount: string,
+  extra = ""
+) {
+  encoder.bold(true).wrapped(item.name).bold(false);
+  encoder.columnsRow(
+    `  ${item.quantity} x ${formatMoney(item.unitPrice)}${extra}`,
+    amount
+  );
+}
+
+export function renderSaleTicketEscPos(
+  options: SaleTicketOptions,
+  ticket: EscPosTicketOptions
+): Uint8Array {
+  const company = resolveTicketCompanyInfo(options.settings);
+  const encoder = createEscPosEncoder(ticket.width);
+  writeHeader(encoder, company, ticket);
+  encoder.wrapped("CONSERVA ESTE RECIBO Y EMPAQUE ORIGINAL PARA GARANTÍA");
+  encoder.align("left").rule();
+
+  if (options.customer?.name) {
+    writeSectionTitle(encoder, "Cliente");
+    encoder.bold(true).wrapped(options.customer.name).bold(false);
+    if (options.customer.phone) encoder.wrapped(`Tel: ${options.customer.phone}`);
+    if (options.customer.email) encoder.wrapped(`Email: ${options.customer.email}`);
+    if (options.customer.taxId) encoder.wrapped(`NIT / ID: ${options.customer.taxId}`);
+    if (options.customer.address) {
+      encoder.wrapped(`Dirección: ${options.customer.address}`);
+    }
+    encoder.rule();
+  }
+
+  if (options.adjustmentBadge) {
+    encoder.align("center").bold(true).wrapped(options.adjustmentBadge.toUpperCase());
+    encoder.bold(false);
+    if (options.adjustmentNote) encoder.wrapped(options.adjustmentNote);
+    encoder.align("left");
+  }
+
+  encoder.columnsRow("No. Recibo", options.documentNumber);
+  encoder.columnsRow("Fecha", formatDateTime(options.date));
+  if (options.vendorName) encoder.columnsRow("Usuario", options.vendorName);
+  if (options.posName) encoder.columnsRow("POS", options.posName);
+
+  encoder.rule();
+  writeSectionTitle(encoder, "Detalle de productos");
+  if (!options.items.length) {
+    encoder.line("Sin artículos");
+  }
+  options.items.forEach((item) => {
+    const discount = Math.max(0, item.quantity * item.unitPrice - item.total);
+    writeItem(
+      encoder,
+      item,
+      formatMoney(item.total),
+      discount > 0 ? ` (Desc -${formatMoney(discount)})` : ""
+    );
+  });
+
+  encoder.rule();
+  encoder.columnsRow("Subtotal", formatMoney(options.subtotal));
+  const discounts = splitTicketDiscounts(options);
+  if (discounts.itemDiscount > 0) {
+    encoder.columnsRow("Descuento artículos", `- ${formatMoney(discounts.itemDiscount)}`);
+  }
+  if (discounts.promotions.length) {
+    writeSectionTitle(encoder, "Promociones aplicadas");
+    discounts.promotions.forEach((promotion) =>
+      encoder.columnsRow(promotion.name, `- ${formatMoney(promotion.amount)}`)
+    );
+  }
+  encoder.columnsRow(options.cartDiscountLabel, options.cartDiscountValueDisplay);
+  const hasSurchargeAmount =
+    typeof options.surchargeAmount === "number" && options.surchargeAmount > 0;
+  const surchargeDisplay = options.surchargeValueDisplay?.trim() ?? "";
+  if (
+    options.surchargeLabel &&
+    (typeof options.surchargeAmount === "number"
+      ? hasSurchargeAmount
+      : Boolean(surchargeDisplay))
+  ) {
+    encoder.columnsRow(
+      options.surchargeLabel,
+      hasSurchargeAmount
+        ? `+ ${formatMoney(options.surchargeAmount ?? 0)}`
+        : surchargeDisplay.startsWith("+")
+        ? surchargeDisplay
+        : `+${surchargeDisplay}`
+    );
+  }
+
+  encoder.rule();
+  writeSectionTitle(encoder, "Pagos recibidos");
+  if (options.separatedInfo) {
+    encoder.align("center").bold(true).line("VENTA POR SEPARADO");
+    encoder.bold(false).align("left");
+  }
+  if (!options.payments.length) {
+    encoder.columnsRow("Sin pagos registrados", "0");
+  }
+  options.payments.forEach((payment) => {
+    encoder.columnsRow(payment.label, formatMoney(payment.amount));
+  });
+  if (typeof options.changeAmount === "number" && options.changeAmount !== 0) {
+    encoder.columnsRow(
+      options.changeAmount > 0 ? "Cambio" : "Saldo",
+      formatMoney(Math.abs(options.changeAmount))
+    );
+  }
+
+  if (options.separatedInfo) {
+    const separated = options.separatedInfo;
+    const payments = [...(separated.initialPayments ?? []), ...separated.payments];
+    encoder.rule();
+    writeSectionTitle(encoder, "Detalle de abonos");
+    if (separated.dueDate) {
+      encoder.columnsRow("Fecha límite", formatDateOnly(separated.dueDate));
+    }
+    if (!payments.length) {
+      encoder.columnsRow("Sin abonos registrados", "0");
+    }
+    payments.forEach((entry) => {
+      encoder.columnsRow(entry.label, formatMoney(entry.amount));
+      const meta = [entry.method, entry.paidAt ? formatDateTime(entry.paidAt) : ""]
+        .filter(Boolean)
+        .join(" · ");
+      if (meta) encoder.wrapped(`  ${meta}`);
+    });
+    if (typeof separated.balance === "number") {
+      encoder.bold(true);
+      encoder.columnsRow("Saldo pendiente", formatMoney(Math.max(separated.balance, 0)));
+      encoder.bold(false);
+    }
+  }
+
+  encoder.rule("=");
+  encoder.bold(true).size("double");
+  encoder.columnsRow("TOTAL", formatMoney(options.total));
+  encoder.size("normal").bold(false);
+
+  writeTaxBreakdown(encoder, options.taxBreakdown);
+  const loyaltyRows = describeTicketLoyalty(options.loyalty);
+  if (loyaltyRows.length) {
+    encoder.rule();
+    writeSectionTitle(encoder, "Puntos de fidelización");
+    loyaltyRows.forEach((row) => encoder.columnsRow(row.label, row.value));
+  }
+  writeNotes(encoder, options.notes);
+
+  encoder.feed(1).align("center");
+  encoder.barcode128(buildSaleTicketBarcodeValue(options), { height: 60 });
+  if (options.qrCode?.value) {
+    encoder.feed(1);
+    encoder.qrCode(options.qrCode.value, {
+      moduleSize: ticket.width === "58mm" ? 4 : 6,
+      errorLevel: options.qrCode.errorCorrection ?? "M",
+    });
+    if (options.qrCode.caption) encoder.wrapped(options.qrCode.caption);
+  }
+  writeFooter(encoder, company.footer, company.footerAlign, ticket);
+  return encoder.encode();
+}
+
+export function renderReturnTicketEscPos(
+  options: ReturnTicketOptions,
+  ticket: EscPosTicketOptions
+): Uint8Array {
+  const company = resolveTicketCompanyInfo(options.settings);
+  const encoder = createEscPosEncoder(ticket.width);
+  writeHeader(encoder, company, ticket);
+  writeBadge(encoder, "DEVOLUCIÓN");
+  encoder.rule();
+  encoder.columnsRow("Documento", options.documentNumber);
+  if (options.originalDocumentNumber) {
+    encoder.columnsRow("Venta original", options.originalDocumentNumber);
+  }
+  if (options.posName) encoder.columnsRow("POS", options.posName);
+  if (options.sellerName) encoder.columnsRow("Vendedor", options.sellerName);
+  encoder.columnsRow("Fecha", formatDateTime(options.createdAt));
+
+  encoder.rule();
+  encoder.bold(true);
+  encoder.columnsRow("Total devolución", formatMoneySigned(-Math.abs(options.totalRefund)));
+  encoder.bold(false);
+
+  encoder.rule();
+  writeSectionTitle(encoder, "Detalle de productos");
+  if (!options.items.length) encoder.line("Sin productos devueltos.");
+  options.items.forEach((item) =>
+    writeItem(encoder, item, formatMoneySigned(-Math.abs(item.total)))
+  );
+
+  const payments = options.payments.filter((payment) => Math.abs(payment.amount) > 0);
+  if (payments.length) {
+    encoder.rule();
+    writeSectionTitle(encoder, "Reembolso");
+    payments.forEach((payment) =>
+      encoder.columnsRow(payment.label, formatMoneySigned(-Math.abs(payment.amount)))
+    );
+  }
+  writeNotes(encoder, options.notes);
+  writeFooter(encoder, company.footer, company.footerAlign, ticket);
+  return encoder.encode();
+}
+
+export function renderStoreCreditTicketEscPos(
+  options: StoreCreditTicketOptions,
+  ticket: EscPosTicketOptions
+): Uint8Array {
+  const company = resolveTicketCompanyInfo(options.settings);
+  const encoder = createEscPosEncoder(ticket.width);
+  writeHeader(encoder, company, { ...ticket, openDrawer: false });
+  writeBadge(encoder, storeCreditTicketTitle(options.kind));
+  encoder.feed(1).align("center").bold(true).size("double");
+  encoder.line(formatMoney(options.balance));
+  encoder.size("normal").bold(false).align("left");
+  encoder.rule();
+  encoder.columnsRow("Código", options.code);
+  if (options.balance !== options.amount) {
+    encoder.columnsRow("Valor emitido", formatMoney(options.amount));
+  }
+  if (options.customerName) encoder.columnsRow("Cliente", options.customerName);
+  if (options.sourceDocumentNumber) {
+    encoder.columnsRow("Documento origen", options.sourceDocumentNumber);
+  }
+  if (options.posName) encoder.columnsRow("POS", options.posName);
+  encoder.columnsRow("Emitida", formatDateTime(options.issuedAt));
+  encoder.columnsRow(
+    "Vence",
+    options.expiresAt ? formatDateOnly(options.expiresAt) : "Sin vencimiento"
+  );
+  encoder.feed(1).align("center");
+  encoder.barcode128(options.code, { height: 70 });
+  encoder.align("left");
+  writeNotes(encoder, options.notes);
+  encoder.rule();
+  encoder.wrapped(
+    "Presenta este código en caja para usar el saldo. Se puede usar en varias compras hasta agotarlo."
+  );
+  writeFooter(encoder, company.footer, company.footerAlign, { ...ticket, openDrawer: false });
+  return encoder.encode();
+}
+
+export function renderChangeTicketEscPos(
+  options: ChangeTicketOptions,
+  ticket: EscPosTicketOptions
+): Uint8Array {
+  const company = resolveTicketCompanyInfo(options.settings);
+  const encoder = createEscPosEncoder(ticket.width);
+  writeHeader(encoder, company, ticket);
+  writeBadge(encoder, "CAMBIO");
+  encoder.rule();
+  encoder.columnsRow("Documento", options.documentNumber);
+  if (options.originalDocumentNumber) {
+    encoder.columnsRow("Venta original", options.originalDocumentNumber);
+  }
+  if (options.posName) encoder.columnsRow("POS", options.posName);
+  if (options.sellerName) encoder.columnsRow("Vendedor", options.sellerName);
+  encoder.columnsRow("Fecha", formatDateTime(options.createdAt));
+
+  encoder.rule();
+  encoder.columnsRow("Total crédito", formatMoneySigned(-Math.abs(options.totalCredit)));
+  encoder.columnsRow("Total nuevo", formatMoney(options.totalNew));
+  encoder.bold(true);
+  encoder.columnsRow(
+    "Diferencia",
+    formatMoneySigned(options.extraPayment - options.refundDue)
+  );
+  encoder.bold(false);
+  if (options.extraPayment > 0) {
+    encoder.columnsRow("Excedente cobrado", formatMoney(options.extraPayment));
+  }
+  if (options.refundDue > 0) {
+    encoder.columnsRow("Saldo devuelto", formatMoney(options.refundDue));
+  }
+
+  encoder.rule();
+  writeSectionTitle(encoder, "Productos devueltos");
+  if (!options.itemsReturned.length) encoder.line("Sin productos devueltos.");
+  options.itemsReturned.forEach((item) =>
+    writeItem(encoder, item, formatMoneySigned(-Math.abs(item.total)))
+  );
+  encoder.rule();
+  writeSectionTitle(encoder, "Productos nuevos");
+  if (!options.itemsNew.length) encoder.line("Sin productos nuevos.");
+  options.itemsNew.forEach((item) => writeItem(encoder, item, formatMoney(item.total)));
+
+  const payments = options.payments.filter((payment) => Math.abs(payment.amount) > 0);
+  if (payments.length) {
+    encoder.rule();
+    writeSectionTitle(encoder, "Pagos del excedente");
+    payments.forEach((payment) =>
+      encoder.columnsRow(payment.label, formatMoney(payment.amount))
+    );
+  }
+  writeNotes(encoder, options.notes);
+  writeFooter(encoder, company.footer, company.footerAlign, ticket);
+  return encoder.encode();
+}
+
+export function renderClosureTicketEscPos(
+  options: ClosureTicketOptions,
+  ticket: EscPosTicketOptions
+): Uint8Array {
+  const company = resolveTicketCompanyInfo(options.settings);
+  const summary = buildClosureTicketSummary(options);
+  const encoder = createEscPosEncoder(ticket.width);
+  writeHeader(encoder, company, ticket);
+  encoder.bold(true).line("Reporte Z - Cierre de caja").bold(false);
+  encoder.align("left").rule();
+
+  encoder.columnsRow("No. Reporte", options.documentNumber);
+  encoder.columnsRow("Fecha cierre", formatDateTime(options.closedAt));
+  if (options.rangeSummary) {
+    const { startLabel, endLabel } = options.rangeSummary;
+    encoder.columnsRow(
+      "Ventas del",
+      startLabel === endLabel ? startLabel : `${startLabel} - ${endLabel}`
+    );
+  }
+  if (options.posName) encoder.columnsRow("POS", options.posName);
+  encoder.columnsRow("Responsable", options.responsible);
+
+  encoder.rule();
+  encoder.columnsRow("Total registrado", formatMoney(summary.registeredTotal));
+  encoder.columnsRow(
+    "Devoluciones / reembolsos",
+    `- ${formatMoney(options.totals.refunds)}`
+  );
+  if (summary.changes.hasChanges) {
+    encoder.columnsRow("Cambios (excedente)", formatMoney(summary.changes.extra));
+    encoder.columnsRow("Cambios (reembolsos)", `- ${formatMoney(summary.changes.refund)}`);
+    if (summary.changes.count > 0) {
+      encoder.columnsRow("Total cambios", String(summary.changes.count));
+    }
+  }
+  encoder.bold(true).columnsRow("Neto del día", formatMoney(summary.netTotal));
+  encoder.bold(false);
+  if (!options.hideExpected) {
+    encoder.columnsRow("Efectivo esperado", formatMoney(options.totals.expectedCash));
+  }
+  encoder.columnsRow("Efectivo contado", formatMoney(options.totals.countedCash));
+  if (!options.hideExpected) {
+    encoder.bold(true).columnsRow("Diferencia", formatMoney(options.totals.difference));
+    encoder.bold(false);
+  }
+
+  if (options.countedDenominations?.length) {
+    encoder.rule();
+    writeSectionTitle(encoder, "Conteo de efectivo");
+    options.countedDenominations.forEach((row) =>
+      encoder.columnsRow(`${row.label} x ${row.quantity}`, formatMoney(row.subtotal))
+    );
+    encoder.bold(true).columnsRow("Total contado", formatMoney(options.totals.countedCash));
+    encoder.bold(false);
+  }
+  if (options.cashSession) {
+    const session = options.cashSession;
+    encoder.rule();
+    writeSectionTitle(encoder, "Movimientos de caja");
+    encoder.columnsRow("Apertura", formatDateTime(session.openedAt));
+    if (session.openedBy) encoder.columnsRow("Abrió", session.openedBy);
+    encoder.columnsRow("Base inicial", formatMoney(session.openingFloat));
+    encoder.columnsRow("Entradas de efectivo", formatMoney(session.paidIn));
+    encoder.columnsRow("Salidas de efectivo", `- ${formatMoney(session.paidOut)}`);
+    encoder.columnsRow("Consignaciones", `- ${formatMoney(session.safeDrops)}`);
+    session.movements.forEach((movement) => {
+      encoder.columnsRow(movement.label, formatMoneySigned(movement.amount));
+      encoder.wrapped(`  ${movement.reason}`);
+    });
+  }
+
+  encoder.rule();
+  writeSectionTitle(encoder, "Detalle por método");
+  if (!summary.methods.length) {
+    encoder.columnsRow("Sin métodos registrados", "$ 0");
+  }
+  summary.methods.forEach((method) => {
+    if (!summary.hasDetailedMethods) {
+      encoder.columnsRow(method.label, formatMoneySigned(method.net));
+      return;
+    }
+    encoder.bold(true).wrapped(method.label).bold(false);
+    encoder.columnsRow("  Ventas", formatMoney(method.gross));
+    encoder.columnsRow("  Reembolsos", formatMoneySigned(-Math.abs(method.refunds)));
+    encoder.columnsRow("  Neto", formatMoneySigned(method.net));
+  });
+  if (!summary.hasDetailedMethods) {
+    encoder.wrapped("Totales netos (reembolsos ya descontados).");
+  }
+
+  if (options.userBreakdown?.length) {
+    encoder.rule();
+    writeSectionTitle(encoder, "Ventas por usuario");
+    options.userBreakdown.forEach((user) =>
+      encoder.columnsRow(user.name, formatMoney(user.total))
+    );
+  }
+  if (summary.showSeparatedClarification) {
+    encoder.rule();
+    writeSectionTitle(encoder, "Aclaración de total del día");
+    encoder.bold(true).columnsRow("Total de HOY", formatMoney(summary.dayCollectedTotal));
+    encoder.bold(false);
+  }
+  writeTaxBreakdown(encoder, options.taxBreakdown);
+  if (summary.stations.length) {
+    encoder.rule();
+    writeSectionTitle(encoder, "Ventas por estación");
+    summary.stations.forEach((station) =>
+      encoder.columnsRow(
+        `${station.label} (${station.salesCount})`,
+        formatMoney(station.amount)
+      )
+    );
+  }
+  if (summary.separatedSummary) {
+    const separated = summary.separatedSummary;
+    encoder.rule();
+    writeSectionTitle(encoder, "Ventas por separado");
+    encoder.columnsRow("Tickets registrados", String(separated.tickets));
+    encoder.columnsRow("Abonos cobrados", formatMoney(separated.paymentsTotal));
+    encoder.columnsRow("Total reservado", formatMoney(separated.reservedTotal));
+    encoder.columnsRow(
+      "Saldo pendiente",
+      separated.pendingTotal > 0 ? formatMoney(separated.pendingTotal) : "$ 0"
+    );
+  }
+  writeNotes(encoder, options.notes);
+  encoder.feed(3).cut();
+  return encoder.encode();
+}
+
+const logoCache = new Map<string, Promise<EscPosRasterImage | null>>();
+
+/**
+ * Descarga el logo configurado y lo convierte a raster para la impresora.
+ * Solo funciona en el navegador; si falla, el ticket sale sin logo.
+ */
+export function loadTicketLogoRaster(
+  settings: PosSettingsPayload | null | undefined,
+  width: PosPrinterWidth
+): Promise<EscPosRasterImage | null> {
+  const logoUrl = resolveTicketCompanyInfo(settings).logoUrl;
+  if (!logoUrl || typeof document === "undefined") return Promise.resolve(null);
+  const cacheKey = `${width}|${logoUrl}`;
+  const cached = logoCache.get(cacheKey);
+  if (cached) return cached;
+  const pending = new Promise<EscPosRasterImage | null>((resolve) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      try {
+        // Igual que en el HTML: el logo ocupa como máximo 3/4 del ancho.
+        const maxWidth = Math.floor(ESC_POS_PRINTABLE_DOTS[width] * 0.75);
+        const maxHeight = 200;
+        const scale = Math.min(1, maxWidth / img.naturalWidth, maxHeight / img.naturalHeight);
+        const targetWidth = Math.max(1, Math.round(img.naturalWidth * scale));
+        const targetHeight = Math.max(1, Math.round(img.naturalHeight * scale));
+        const canvas = document.createElement("canvas");
+        canvas.width = targetWidth;
+        canvas.height = targetHeight;
+        const context = canvas.getContext("2d");
+        if (!context) {
+          resolve(null);
+          return;
+        }
+        context.drawImage(img, 0, 0, targetWidth, targetHeight);
+        const pixels = context.getImageData(0, 0, targetWidth, targetHeight);
+        resolve(rasterizeMonochrome(pixels.data, targetWidth, targetHeight));
+      } catch (err) {
+        console.warn("No se pudo convertir el logo para ESC/POS", err);
+        resolve(null);
+      }
+    };
+    img.onerror = () => {
+      console.warn("No se pudo cargar el logo para ESC/POS", logoUrl);
+      resolve(null);
+    };
+    img.src = logoUrl;
+  }).then((raster) => {
+    if (!raster) logoCache.delete(cacheKey);
+    return raster;
+  });
+  logoCache.set(cacheKey, pending);
+  return pending;
+}
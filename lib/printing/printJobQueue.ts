@@ -0,0 +1,147 @@
+export type PrintJobStatus = "queued" | "printing" | "retrying" | "done" | "failed";
+
+export type PrintJobSnapshot = {
+  id: string;
+  label: string;
+  status: PrintJobStatus;
+  attempts: number;
+  error: string | null;
+  createdAt: string;
+};
+
+type PrintJobEntry<TPayload> = PrintJobSnapshot & {
+  payload: TPayload;
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+};
+
+export type PrintJobQueueOptions<TPayload> = {
+  execute: (payload: TPayload, attempt: number) => Promise<void>;
+  maxAttempts?: number;
+  retryDelayMs?: (attempt: number) => number;
+  shouldRetry?: (error: unknown, payload: TPayload) => boolean;
+  onChange?: (jobs: PrintJobSnapshot[]) => void;
+  sleep?: (ms: number) => Promise<void>;
+  historyLimit?: number;
+};
+
+export type PrintJobQueue<TPayload> = {
+  enqueue: (label: string, payload: TPayload) => Promise<void>;
+  getJobs: () => PrintJobSnapshot[];
+  clearFinished: () => void;
+};
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Cola secuencial de impresión: un trabajo a la vez, en orden de llegada.
+ * Si falla, se reintenta con espera creciente antes de pasar al siguiente,
+ * así un ticket no se intercala con otro cuando QZ reconecta.
+ */
+export function createPrintJobQueue<TPayload>(
+  options: PrintJobQueueOptions<TPayload>
+): PrintJobQueue<TPayload> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  const retryDelayMs = options.retryDelayMs ?? ((attempt: number) => 500 * attempt);
+  const shouldRetry = options.shouldRetry ?? (() => true);
+  const sleep = options.sleep ?? defaultSleep;
+  const historyLimit = options.historyLimit ?? 10;
+  let jobs: PrintJobEntry<TPayload>[] = [];
+  let running = false;
+  let sequence = 0;
+
+  const snapshot = (): PrintJobSnapshot[] =>
+    jobs.map((job) => ({
+      id: job.id,
+      label: job.label,
+      status: job.status,
+      attempts: job.attempts,
+      error: job.error,
+      createdAt: job.createdAt,
+    }));
+
+  const notify = () => options.onChange?.(snapshot());
+
+  const trimHistory = () => {
+    const finished = jobs.filter(
+      (job) => job.status === "done" || job.status === "failed"
+    );
+    if (finished.length <= historyLimit) return;
+    const drop = new Set(
+      finished.slice(0, finished.length - historyLimit).map((job) => job.id)
+    );
+    jobs = jobs.filter((job) => !drop.has(job.id));
+  };
+
+  const runJob = async (job: PrintJobEntry<TPayload>) => {
+    while (job.attempts < maxAttempts) {
+      job.attempts += 1;
+      job.status = "printing";
+      notify();
+      try {
+        await options.execute(job.payload, job.attempts);
+        job.status = "done";
+        job.error = null;
+        notify();
+        job.resolve();
+        return;
+      } catch (err) {
+        job.error = err instanceof Error ? err.message : String(err);
+        if (job.attempts >= maxAttempts || !shouldRetry(err, job.payload)) {
+          job.status = "failed";
+          notify();
+          job.reject(err);
+          return;
+        }
+        job.status = "retrying";
+        notify();
+        await sleep(retryDelayMs(job.attempts));
+      }
+    }
+  };
+
+  const drain = async () => {
+    if (running) return;
+    running = true;
+    try {
+      let next = jobs.find((job) => job.status === "queued");
+      while (next) {
+        await runJob(next);
+        trimHistory();
+        notify();
+        next = jobs.find((job) => job.status === "queued");
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    enqueue(label, payload) {
+      return new Promise<void>((resolve, reject) => {
+        sequence += 1;
+        jobs.push({
+          id: `print-${Date.now()}-${sequence}`,
+          label,
+          payload,
+          status: "queued",
+          attempts: 0,
+          error: null,
+          createdAt: new Date().toISOString(),
+          resolve,
+          reject,
+        });
+        notify();
+        void drain();
+      });
+    },
+    getJobs: snapshot,
+    clearFinished() {
+      jobs = jobs.filter(
+        (job) => job.status !== "done" && job.status !== "failed"
+      );
+      notify();
+    },
+  };
+}
@@ -0,0 +1,428 @@
+import { getApiBase } from "../api/base.ts";
+import type { PosPrinterWidth } from "../api/settings.ts";
+import { bytesToBase64 } from "./escPos.ts";
+import {
+  createPrintJobQueue,
+  type PrintJobSnapshot,
+} from "./printJobQueue.ts";
+
+export const QZ_TRAY_SCRIPT_URL =
+  "https://cdn.jsdelivr.net/npm/qz-tray@2.2.4/qz-tray.js";
+export const ESC_POS_DRAWER_PULSE = "\x1B\x70\x00\x19\xFA";
+
+const PRINTER_DISCOVERY_TIMEOUT_MS = 8000;
+const CONNECT_TIMEOUT_MS = 10000;
+
+type QzPromiseResolver<T> = (value: T | PromiseLike<T>) => void;
+type QzPromiseReject = (reason?: unknown) => void;
+
+export type QzApi = {
+  websocket: {
+    isActive: () => boolean;
+    connect: (options?: Record<string, unknown>) => Promise<void>;
+    disconnect?: () => Promise<void>;
+    setClosedCallbacks?: (callback: (event?: unknown) => void) => void;
+    setErrorCallbacks?: (callback: (event?: unknown) => void) => void;
+  };
+  printers: { find: (query?: string) => Promise<string[] | string> };
+  configs: { create: (printer: string, options?: Record<string, unknown>) => unknown };
+  print: (config: unknown, data: unknown) => Promise<void>;
+  security?: {
+    setCertificatePromise: (
+      promise: (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
+    ) => void;
+    setSignaturePromise: (
+      promise: (
+        toSign: string
+      ) => (resolve: QzPromiseResolver<string>, reject: QzPromiseReject) => void
+    ) => void;
+  };
+};
+
+export type QzPrintData =
+  | { type: "html"; format: "plain"; data: string }
+  | { type: "raw"; format: "command" | "base64"; data: string }
+  | { type: "raw"; format: "image"; data: string; options?: Record<string, unknown> };
+
+export type QzConnectionStatus =
+  | "loading"
+  | "unavailable"
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "error";
+
+export type QzTrayState = {
+  status: QzConnectionStatus;
+  printers: string[];
+  jobs: PrintJobSnapshot[];
+  lastError: string | null;
+};
+
+export type QzTrayErrorCode =
+  | "unavailable"
+  | "no-printer"
+  | "security"
+  | "connection"
+  | "timeout"
+  | "print";
+
+export class QzTrayError extends Error {
+  code: QzTrayErrorCode;
+
+  constructor(code: QzTrayErrorCode, message: string) {
+    super(message);
+    this.name = "QzTrayError";
+    this.code = code;
+  }
+}
+
+type QzPrintJobPayload = {
+  printerName: string;
+  config: Record<string, unknown>;
+  data: QzPrintData[];
+  /** Si se reintenta cuando se cae la conexión con QZ Tray. */
+  retry: boolean;
+};
+
+export function buildQzHtmlConfig(width: PosPrinterWidth): Record<string, unknown> {
+  return {
+    altPrinting: true,
+    units: "mm",
+    size: { width: width === "58mm" ? 58 : 80 },
+    margins: { top: 0, right: 0, bottom: 0, left: 0 },
+  };
+}
+
+function describeError(err: unknown, fallback: string): string {
+  if (err instanceof Error && err.message) return err.message;
+  if (typeof err === "string" && err) return err;
+  return fallback;
+}
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  error: () => QzTrayError
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(error()), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+}
+
+function readWindowQz(): QzApi | null {
+  if (typeof window === "undefined") return null;
+  return (window as unknown as { qz?: QzApi }).qz ?? null;
+}
+
+function loadQzScript(): Promise<QzApi | null> {
+  if (typeof document === "undefined") return Promise.resolve(null);
+  const present = readWindowQz();
+  if (present) return Promise.resolve(present);
+  return new Promise((resolve) => {
+    const existing = document.querySelector(
+      "script[data-qz-tray]"
+    ) as HTMLScriptElement | null;
+    const script = existing ?? document.createElement("script");
+    script.addEventListener("load", () => resolve(readWindowQz()));
+    script.addEventListener("error", () => {
+      console.warn("No se pudo cargar el script de QZ Tray desde la CDN.");
+      resolve(null);
+    });
+    if (!existing) {
+      script.src = QZ_TRAY_SCRIPT_URL;
+      script.async = true;
+      script.dataset.qzTray = "1";
+      document.head.appendChild(script);
+    }
+  });
+}
+
+export type QzTrayService = {
+  getState: () => QzTrayState;
+  subscribe: (listener: () => void) => () => void;
+  load: () => Promise<QzApi | null>;
+  setAuthToken: (token: string | null) => void;
+  connect: () => Promise<QzApi>;
+  findPrinters: () => Promise<string[]>;
+  print: (
+    printerName: string,
+    data: QzPrintData[],
+    options?: { label?: string; config?: Record<string, unknown>; retry?: boolean }
+  ) => Promise<void>;
+  printHtml: (
+    printerName: string,
+    html: string,
+    width: PosPrinterWidth,
+    label?: string
+  ) => Promise<void>;
+  printRaw: (printerName: string, bytes: Uint8Array, label?: string) => Promise<void>;
+  openCashDrawer: (printerName: string) => Promise<void>;
+};
+
+export function createQzTrayService(
+  options: { loadApi?: () => Promise<QzApi | null>; apiBase?: () => string } = {}
+): QzTrayService {
+  const loadApi = options.loadApi ?? loadQzScript;
+  const resolveApiBase = options.apiBase ?? getApiBase;
+  const listeners = new Set<() => void>();
+  let state: QzTrayState = {
+    status: "loading",
+    printers: [],
+    jobs: [],
+    lastError: null,
+  };
+  let api: QzApi | null = null;
+  let loadPromise: Promise<QzApi | null> | null = null;
+  let connectPromise: Promise<QzApi> | null = null;
+  let authToken: string | null = null;
+  let securityConfigured = false;
+
+  const setState = (patch: Partial<QzTrayState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const configureSecurity = (qz: QzApi) => {
+    if (!qz.security || securityConfigured) return;
+    qz.security.setCertificatePromise((resolve, reject) => {
+      fetch(`${resolveApiBase()}/pos/qz/cert`, { credentials: "include" })
+        .then(async (res) => {
+          if (!res.ok) {
+            throw new Error(
+              `No se pudo obtener el certificado (Error ${res.status}).`
+            );
+          }
+          return res.text();
+        })
+        .then(resolve)
+        .catch(reject);
+    });
+    // La firma lee el token vigente en cada reto, así un cambio de sesión no
+    // obliga a reconfigurar QZ.
+    qz.security.setSignaturePromise((toSign) => (resolve, reject) => {
+      if (!authToken) {
+        reject(new QzTrayError("security", "Inicia sesión para firmar con QZ Tray."));
+        return;
+      }
+      fetch(`${resolveApiBase()}/pos/qz/sign`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        credentials: "include",
+        body: JSON.stringify({ data: toSign }),
+      })
+        .then(async (res) => {
+          if (!res.ok) {
+            const detail = await res.json().catch(() => null);
+            throw new Error(
+              detail?.detail ?? `No se pudo firmar el reto (Error ${res.status}).`
+            );
+          }
+          const data = (await res.json()) as { signature?: string };
+          if (!data?.signature) {
+            throw new Error("La API no devolvió la firma.");
+          }
+          return data.signature;
+        })
+        .then(resolve)
+        .catch(reject);
+    });
+    securityConfigured = true;
+  };
+
+  const attachLifecycle = (qz: QzApi) => {
+    qz.websocket.setClosedCallbacks?.(() => {
+      setState({ status: "disconnected" });
+    });
+    qz.websocket.setErrorCallbacks?.((event) => {
+      setState({
+        status: "error",
+        lastError: describeError(event, "Se perdió la conexión con QZ Tray."),
+      });
+    });
+  };
+
+  const load = () => {
+    if (api) return Promise.resolve(api);
+    if (!loadPromise) {
+      loadPromise = loadApi().then((qz) => {
+        api = qz;
+        if (!qz) {
+          loadPromise = null;
+          setState({ status: "unavailable" });
+          return null;
+        }
+        configureSecurity(qz);
+        attachLifecycle(qz);
+        setState({
+          status: qz.websocket.isActive() ? "connected" : "disconnected",
+        });
+        return qz;
+      });
+    }
+    return loadPromise;
+  };
+
+  const connect = async (): Promise<QzApi> => {
+    const qz = await load();
+    if (!qz) {
+      throw new QzTrayError(
+        "unavailable",
+        "No detectamos QZ Tray. Ábrelo y autoriza este dominio."
+      );
+    }
+    if (qz.websocket.isActive()) {
+      if (state.status !== "connected") setState({ status: "connected" });
+      return qz;
+    }
+    if (!connectPromise) {
+      setState({ status: "connecting" });
+      connectPromise = withTimeout(
+        qz.websocket.connect({ retries: 1, delay: 1 }),
+        CONNECT_TIMEOUT_MS,
+        () => new QzTrayError("timeout", "QZ Tray no respondió a tiempo.")
+      )
+        .then(() => {
+          setState({ status: "connected", lastError: null });
+          return qz;
+        })
+        .catch((err) => {
+          // QZ rechaza un segundo connect mientras el primero sigue abierto.
+          if (qz.websocket.isActive()) {
+            setState({ status: "connected", lastError: null });
+            return qz;
+          }
+          const message = describeError(err, "No se pudo conectar con QZ Tray.");
+          setState({ status: "error", lastError: message });
+          throw err instanceof QzTrayError
+            ? err
+            : new QzTrayError("connection", message);
+        })
+        .finally(() => {
+          connectPromise = null;
+        });
+    }
+    return connectPromise;
+  };
+
+  // Solo se reintenta si el trabajo no llegó a QZ (conexión caída o sin
+  // respuesta): un error de la impresora puede haber impreso a medias y
+  // repetirlo duplicaría el ticket.
+  const queue = createPrintJobQueue<QzPrintJobPayload>({
+    maxAttempts: 3,
+    retryDelayMs: (attempt) => 700 * attempt,
+    shouldRetry: (err, payload) =>
+      payload.retry &&
+      err instanceof QzTrayError &&
+      (err.code === "connection" || err.code === "timeout"),
+    onChange: (jobs) => setState({ jobs }),
+    execute: async (payload) => {
+      const qz = await connect();
+      const cfg = qz.configs.create(payload.printerName, payload.config);
+      try {
+        await qz.print(cfg, payload.data);
+      } catch (err) {
+        const message = describeError(err, "Error desconocido al imprimir.");
+        if (!qz.websocket.isActive()) {
+          setState({ status: "disconnected" });
+          throw new QzTrayError("connection", message);
+        }
+        throw new QzTrayError("print", message);
+      }
+    },
+  });
+
+  const print: QzTrayService["print"] = async (printerName, data, printOptions) => {
+    if (!printerName.trim()) {
+      throw new QzTrayError(
+        "no-printer",
+        "Selecciona la impresora en Configurar impresora."
+      );
+    }
+    try {
+      await queue.enqueue(printOptions?.label ?? "Impresión", {
+        printerName,
+        config: printOptions?.config ?? { altPrinting: true },
+        data,
+        retry: printOptions?.retry ?? true,
+      });
+      setState({ lastError: null });
+    } catch (err) {
+      setState({ lastError: describeError(err, "No se pudo imprimir con QZ Tray.") });
+      throw err;
+    }
+  };
+
+  return {
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    load,
+    setAuthToken(token) {
+      authToken = token;
+    },
+    connect,
+    async findPrinters() {
+      const qz = await connect();
+      const found = await withTimeout(
+        qz.printers.find(),
+        PRINTER_DISCOVERY_TIMEOUT_MS,
+        () =>
+          new QzTrayError(
+            "timeout",
+            "QZ Tray no respondió. Verifica que la impresora esté instalada en el equipo."
+          )
+      );
+      const printers = Array.isArray(found) ? found : found ? [found] : [];
+      setState({ printers });
+      return printers;
+    },
+    print,
+    printHtml(printerName, html, width, label = "Ticket") {
+      return print(printerName, [{ type: "html", format: "plain", data: html }], {
+        label,
+        config: buildQzHtmlConfig(width),
+      });
+    },
+    printRaw(printerName, bytes, label = "Ticket") {
+      return print(
+        printerName,
+        [{ type: "raw", format: "base64", data: bytesToBase64(bytes) }],
+        { label }
+      );
+    },
+    openCashDrawer(printerName) {
+      return print(
+        printerName,
+        [{ type: "raw", format: "command", data: ESC_POS_DRAWER_PULSE }],
+        // Un pulso repetido abre el cajón otra vez sin que nadie lo pida.
+        { label: "Apertura de cajón", retry: false }
+      );
+    },
+  };
+}
+
+let sharedService: QzTrayService | null = null;
+
+/** Instancia compartida por todas las pantallas del POS. */
+export function getQzTrayService(): QzTrayService {
+  if (!sharedService) sharedService = createQzTrayService();
+  return sharedService;
+}
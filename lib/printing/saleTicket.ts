@@ -1,12 +1,20 @@
 import type { PosSettingsPayload } from "@/lib/api/settings";
-import { generateCode128Svg } from "@/lib/utils/barcode";
+import {
+  generateCode128Svg,
+  generateQrCodeSvg,
+  type QrErrorCorrectionLevel,
+} from "@/lib/utils/barcode";
 import { formatBogotaDate } from "@/lib/time/bogota";
+import { describeTaxBreakdown, type TaxBreakdown, type TaxRateCode } from "@/lib/pos/taxes";
 
 export type SaleTicketItem = {
   name: string;
   quantity: number;
   unitPrice: number;
   total: number;
+  taxRate?: TaxRateCode | null;
+  /** `false` si el precio no trae el IVA y se sumó encima. */
+  taxIncluded?: boolean | null;
 };
 
 export type SaleTicketPayment = {
@@ -20,6 +28,7 @@ export type ReturnTicketItem = {
   unitPrice: number;
   total: number;
   sku?: string | null;
+  taxRate?: TaxRateCode | null;
 };
 
 export type ReturnTicketPayment = {
@@ -33,6 +42,7 @@ export type ChangeTicketReturnItem = {
   unitPrice: number;
   total: number;
   sku?: string | null;
+  taxRate?: TaxRateCode | null;
 };
 
 export type ChangeTicketNewItem = {
@@ -41,6 +51,7 @@ export type ChangeTicketNewItem = {
   unitPrice: number;
   total: number;
   sku?: string | null;
+  taxRate?: TaxRateCode | null;
 };
 
 export type ChangeTicketPayment = {
@@ -98,6 +109,33 @@ export function buildSaleTicketCustomer(
   return payload;
 }
 
+/** QR opcional al pie del ticket (consulta de factura, estado del pedido, etc.). */
+export type TicketQrCode = {
+  value: string;
+  caption?: string | null;
+  errorCorrection?: QrErrorCorrectionLevel;
+};
+
+/** Factura electrónica ya validada por la DIAN, para la representación gráfica. */
+export type SaleTicketElectronicInvoice = {
+  number: string;
+  cufe: string;
+  qrPayload: string;
+};
+
+/** Promoción automática aplicada en la venta (2x1, combos, happy hour...). */
+export type SaleTicketPromotion = {
+  name: string;
+  amount: number;
+};
+
+/** Movimiento de puntos del cliente en la venta y saldo resultante. */
+export type SaleTicketLoyalty = {
+  earned: number;
+  redeemed: number;
+  balance: number;
+};
+
 export type SaleTicketOptions = {
   documentNumber: string;
   saleNumber: number | string;
@@ -126,8 +164,47 @@ export type SaleTicketOptions = {
     initialPayments?: SeparatedTicketPayment[];
     payments: SeparatedTicketPayment[];
   };
+  qrCode?: TicketQrCode | null;
+  electronicInvoice?: SaleTicketElectronicInvoice | null;
+  /** Base e IVA por tarifa; se omite en ventas sin tarifa por producto. */
+  taxBreakdown?: TaxBreakdown | null;
+  promotions?: SaleTicketPromotion[] | null;
+  loyalty?: SaleTicketLoyalty | null;
 };
 
+/**
+ * El descuento de cada ítem ya incluye lo que aportaron las promociones, así
+ * que en los totales se separa: "Descuento artículos" queda solo con lo manual
+ * y cada promoción va en su propio renglón.
+ */
+export function splitTicketDiscounts(
+  options: Pick<SaleTicketOptions, "lineDiscountTotal" | "promotions">
+): { itemDiscount: number; promotions: SaleTicketPromotion[] } {
+  const promotions = (options.promotions ?? []).filter((promotion) => promotion.amount > 0);
+  const promotionTotal = promotions.reduce((sum, promotion) => sum + promotion.amount, 0);
+  return {
+    itemDiscount: Math.max(0, Math.round((options.lineDiscountTotal - promotionTotal) * 100) / 100),
+    promotions,
+  };
+}
+
+/** Renglones del bloque de puntos; vacío si la venta no tuvo cliente con puntos. */
+export function describeTicketLoyalty(
+  loyalty?: SaleTicketLoyalty | null
+): Array<{ label: string; value: string }> {
+  if (!loyalty) return [];
+  const formatPoints = (value: number) => value.toLocaleString("es-CO");
+  const rows: Array<{ label: string; value: string }> = [];
+  if (loyalty.earned > 0) {
+    rows.push({ label: "Puntos ganados", value: `+${formatPoints(loyalty.earned)}` });
+  }
+  if (loyalty.redeemed > 0) {
+    rows.push({ label: "Puntos redimidos", value: `-${formatPoints(loyalty.redeemed)}` });
+  }
+  rows.push({ label: "Saldo de puntos", value: formatPoints(loyalty.balance) });
+  return rows;
+}
+
 export type ReturnTicketOptions = {
   settings?: PosSettingsPayload | null;
   documentNumber: string;
@@ -158,6 +235,24 @@ export type ChangeTicketOptions = {
   notes?: string | null;
 };
 
+export type StoreCreditTicketOptions = {
+  settings?: PosSettingsPayload | null;
+  kind: "gift_card" | "credit_note";
+  code: string;
+  amount: number;
+  balance: number;
+  issuedAt?: string | null;
+  expiresAt?: string | null;
+  customerName?: string | null;
+  sourceDocumentNumber?: string | null;
+  posName?: string | null;
+  notes?: string | null;
+};
+
+export function storeCreditTicketTitle(kind: StoreCreditTicketOptions["kind"]): string {
+  return kind === "gift_card" ? "TARJETA DE REGALO" : "NOTA CRÉDITO";
+}
+
 export type ClosureTicketMethod = {
   label: string;
   amount?: number;
@@ -182,6 +277,30 @@ export type ClosureTicketStationBreakdown = {
   netAmountWithoutSeparatedPending?: number;
 };
 
+/** Movimiento de efectivo de la sesión de caja; `amount` ya trae el signo. */
+export type ClosureTicketCashMovement = {
+  label: string;
+  reason: string;
+  amount: number;
+  createdAt?: string | null;
+};
+
+export type ClosureTicketCashSession = {
+  openedAt: string;
+  openedBy?: string | null;
+  openingFloat: number;
+  paidIn: number;
+  paidOut: number;
+  safeDrops: number;
+  movements: ClosureTicketCashMovement[];
+};
+
+export type ClosureTicketDenomination = {
+  label: string;
+  quantity: number;
+  subtotal: number;
+};
+
 export type ClosureTicketOptions = {
   documentNumber: string;
   closedAt: Date;
@@ -205,6 +324,7 @@ export type ClosureTicketOptions = {
   methods: ClosureTicketMethod[];
   userBreakdown?: ClosureTicketUserBreakdown[];
   stationBreakdown?: ClosureTicketStationBreakdown[];
+  taxBreakdown?: TaxBreakdown | null;
   notes?: string | null;
   settings?: PosSettingsPayload | null;
   separatedSummary?: {
@@ -215,6 +335,11 @@ export type ClosureTicketOptions = {
     dayCollectedTotal?: number;
     dayWithPendingTotal?: number;
   };
+  cashSession?: ClosureTicketCashSession | null;
+  /** Conteo del efectivo por denominación; vacío si se digitó solo el total. */
+  countedDenominations?: ClosureTicketDenomination[];
+  /** Cierre ciego: el cajero no ve el efectivo esperado ni la diferencia. */
+  hideExpected?: boolean;
 };
 
 function normalizeClosureSeparatedSummary(
@@ -256,7 +381,7 @@ const FALLBACK_COMPANY = {
 const TICKET_FOOTER_MARKER_RE =
   /^\s*\[\[align=(left|center|right)\]\]\s*\n?/i;
 
-type TicketFooterAlign = "left" | "center" | "right";
+export type TicketFooterAlign = "left" | "center" | "right";
 
 function parseTicketFooter(value?: string | null): {
   text: string;
@@ -401,6 +526,49 @@ function formatDisplayDateOnly(value?: string | null): string {
   );
 }
 
+/** Número de venta que va en el código de barras del ticket (mínimo 6 dígitos). */
+export function buildSaleTicketBarcodeValue(
+  options: Pick<SaleTicketOptions, "saleNumber" | "documentNumber">
+): string {
+  const rawSaleNumber = String(options.saleNumber ?? "")
+    .replace(/\D/g, "")
+    .trim();
+  const fallbackFromDoc = options.documentNumber
+    ? options.documentNumber.replace(/\D/g, "").trim()
+    : "";
+  const numericValue = rawSaleNumber || fallbackFromDoc || "0";
+  return numericValue.length >= 6
+    ? numericValue
+    : numericValue.padStart(6, "0");
+}
+
+export type TicketCompanyInfo = {
+  companyName: string;
+  taxId: string;
+  address: string;
+  phone: string;
+  email: string;
+  footer: string;
+  footerAlign: TicketFooterAlign;
+  logoUrl: string;
+};
+
+export function resolveTicketCompanyInfo(
+  settings?: PosSettingsPayload | null
+): TicketCompanyInfo {
+  const footerMeta = parseTicketFooter(settings?.ticket_footer);
+  return {
+    companyName: settings?.company_name?.trim() || FALLBACK_COMPANY.name,
+    taxId: settings?.tax_id?.trim() || FALLBACK_COMPANY.taxId,
+    address: settings?.address?.trim() || FALLBACK_COMPANY.address,
+    phone: settings?.contact_phone?.trim() || FALLBACK_COMPANY.phone,
+    email: settings?.contact_email?.trim() || FALLBACK_COMPANY.email,
+    footer: footerMeta.text.trim() || FALLBACK_COMPANY.footer,
+    footerAlign: footerMeta.align,
+    logoUrl: resolveLogoUrl(extractSettingsLogo(settings)),
+  };
+}
+
 export function renderReturnTicket(options: ReturnTicketOptions): string {
   const settings = options.settings;
   const companyName =
@@ -664,6 +832,68 @@ export function renderChangeTicket(options: ChangeTicketOptions): string {
   `;
 }
 
+export function renderStoreCreditTicket(options: StoreCreditTicketOptions): string {
+  const company = resolveTicketCompanyInfo(options.settings);
+  const title = storeCreditTicketTitle(options.kind);
+  const barcodeSvg = generateCode128Svg(options.code, {
+    height: 40,
+    moduleWidth: 2,
+    includeText: true,
+    includeTextFontSize: 12,
+    quietZoneModules: 10,
+  });
+  const row = (label: string, value: string) =>
+    `<div class="row"><span>${escapeHtml(label)}</span><span>${escapeHtml(value)}</span></div>`;
+
+  return `
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <title>${escapeHtml(title)} ${escapeHtml(options.code)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; background: #fff; color: #000000; }
+          .ticket { max-width: 340px; margin: 0 auto; padding: 18px; }
+          .header { text-align: center; }
+          .logo { max-height: 60px; margin-bottom: 8px; }
+          .title { font-size: 20px; font-weight: 800; letter-spacing: 0.04em; color: #000000; }
+          .badge { display: inline-block; margin-top: 6px; padding: 5px 12px; border-radius: 999px; border: 2px solid #000000; color: #000000; font-size: 13px; font-weight: 800; letter-spacing: 0.08em; }
+          .line { border-top: 2px solid #000000; margin: 12px 0; }
+          .row { display: flex; justify-content: space-between; font-size: 14px; margin: 4px 0; color: #000000; }
+          .amount { text-align: center; font-size: 26px; font-weight: 800; margin: 8px 0; }
+          .barcode { margin-top: 12px; text-align: center; }
+          .barcode svg { width: 96%; height: auto; }
+          .muted { font-size: 13px; color: #000000; }
+        </style>
+      </head>
+      <body>
+        <div class="ticket">
+          <div class="header">
+            ${company.logoUrl ? `<img class="logo" src="${company.logoUrl}" alt="${escapeHtml(company.companyName)}" />` : ""}
+            <div class="title">${escapeHtml(company.companyName)}</div>
+            <div class="muted">${escapeHtml(company.address)}</div>
+            <div class="muted">${escapeHtml(company.taxId)}</div>
+            <div class="badge">${escapeHtml(title)}</div>
+          </div>
+          <div class="amount">${formatMoney(options.balance)}</div>
+          <div class="line"></div>
+          ${row("Código", options.code)}
+          ${options.balance !== options.amount ? row("Valor emitido", formatMoney(options.amount)) : ""}
+          ${options.customerName ? row("Cliente", options.customerName) : ""}
+          ${options.sourceDocumentNumber ? row("Documento origen", options.sourceDocumentNumber) : ""}
+          ${options.posName ? row("POS", options.posName) : ""}
+          ${row("Emitida", formatDisplayDate(options.issuedAt))}
+          ${row("Vence", options.expiresAt ? formatDisplayDateOnly(options.expiresAt) : "Sin vencimiento")}
+          <div class="barcode">${barcodeSvg}</div>
+          ${options.notes ? `<div class="muted">Notas: ${escapeHtml(options.notes)}</div>` : ""}
+          <div class="line"></div>
+          <div class="muted">Presenta este código en caja para usar el saldo. Se puede usar en varias compras hasta agotarlo.</div>
+          <div class="muted" style="text-align:${company.footerAlign};">${escapeHtml(company.footer)}</div>
+        </div>
+      </body>
+    </html>
+  `;
+}
+
 export function renderSaleTicket(options: SaleTicketOptions): string {
   const settings = options.settings;
   const companyName =
@@ -815,24 +1045,59 @@ export function renderSaleTicket(options: SaleTicketOptions): string {
         </div>`
       : "";
 
-  const rawSaleNumber = String(options.saleNumber ?? "")
-    .replace(/\D/g, "")
-    .trim();
-  const fallbackFromDoc = options.documentNumber
-    ? options.documentNumber.replace(/\D/g, "").trim()
-    : "";
-  const numericValue = rawSaleNumber || fallbackFromDoc || "0";
-  const paddedValue =
-    numericValue.length >= 6
-      ? numericValue
-      : numericValue.padStart(6, "0");
-  const barcodeSvg = generateCode128Svg(paddedValue, {
+  const barcodeSvg = generateCode128Svg(buildSaleTicketBarcodeValue(options), {
     height: 30,
     moduleWidth: 2,
     includeText: true,
     includeTextFontSize: 12,
     quietZoneModules: 10,
   });
+  const qrBlock = options.qrCode?.value
+    ? `<div class="qr">${generateQrCodeSvg(options.qrCode.value, {
+        errorCorrection: options.qrCode.errorCorrection ?? "M",
+        quietZoneModules: 2,
+      })}${
+        options.qrCode.caption
+          ? `<div class="qr-caption">${escapeHtml(options.qrCode.caption)}</div>`
+          : ""
+      }</div>`
+    : "";
+  const loyaltyRows = describeTicketLoyalty(options.loyalty);
+  const loyaltyBlock = loyaltyRows.length
+    ? `<div class="section">
+          <div class="line-title">Puntos de fidelización</div>
+          ${loyaltyRows
+            .map(
+              (row) =>
+                `<div class="line"><span>${row.label}</span><span>${row.value}</span></div>`
+            )
+            .join("")}
+        </div>`
+    : "";
+  const discounts = splitTicketDiscounts(options);
+  const promotionRows = discounts.promotions.length
+    ? `<div class="line-title">Promociones aplicadas</div>${discounts.promotions
+        .map(
+          (promotion) =>
+            `<div class="line"><span>${escapeHtml(promotion.name)}</span><span>- ${formatMoney(
+              promotion.amount
+            )}</span></div>`
+        )
+        .join("")}`
+    : "";
+  const taxBlock = options.taxBreakdown?.entries.length
+    ? `<div class="section">
+          <div class="line-title">Discriminación de IVA</div>
+          ${describeTaxBreakdown(options.taxBreakdown)
+            .map(
+              (row) =>
+                `<div class="line"><span>${escapeHtml(row.label)}</span><span>${formatMoney(
+                  row.amount
+                )}</span></div>`
+            )
+            .join("")}
+        </div>`
+    : "";
 
   return `<!DOCTYPE html>
   <html>
@@ -1007,6 +1272,16 @@ export function renderSaleTicket(options: SaleTicketOptions): string {
           width: 96%;
           height: auto;
         }
+        .qr { margin-top: 12px; text-align: center; }
+        .qr svg {
+          width: 32mm;
+          height: 32mm;
+        }
+        .qr-caption {
+          font-size: 11px;
+          color: #111827;
+          margin-top: 2px;
+        }
         .footer {
           margin-top: 16px;
           text-align: center;
@@ -1088,13 +1363,14 @@ export function renderSaleTicket(options: SaleTicketOptions): string {
             options.subtotal
           )}</span></div>
           ${
-            options.lineDiscountTotal > 0
+            discounts.itemDiscount > 0
               ? `<div class="line">
                    <span>Descuento artículos</span>
-                   <span>- ${formatMoney(options.lineDiscountTotal)}</span>
+                   <span>- ${formatMoney(discounts.itemDiscount)}</span>
                  </div>`
               : ""
           }
+          ${promotionRows}
           <div class="line">
             <span>${escapeHtml(options.cartDiscountLabel)}</span>
             <span>${escapeHtml(options.cartDiscountValueDisplay)}</span>
@@ -1138,9 +1414,14 @@ export function renderSaleTicket(options: SaleTicketOptions): string {
           <strong>${formatMoney(options.total)}</strong>
         </div>
 
+        ${taxBlock}
+
+        ${loyaltyBlock}
+
         ${notesBlock}
 
         <div class="barcode">${barcodeSvg}</div>
+        ${qrBlock}
 
         <div class="footer" style="text-align:${footerAlign};">
           ${footer
@@ -1242,11 +1523,65 @@ export function renderSaleInvoice(options: SaleTicketOptions): string {
       }`
     : "";
 
+  const electronic = options.electronicInvoice;
+  const invoiceNumber = electronic?.number ?? options.documentNumber;
+  const electronicBlock = electronic
+    ? `<div class="electronic">
+          ${generateQrCodeSvg(electronic.qrPayload, { errorCorrection: "M", quietZoneModules: 2 })}
+          <div>
+            <strong>Factura electrónica de venta ${escapeHtml(electronic.number)}</strong>
+            <div>CUFE:</div>
+            <div class="cufe">${escapeHtml(electronic.cufe)}</div>
+            <div class="muted">Consulta la validez del documento escaneando el código QR.</div>
+          </div>
+        </div>`
+    : "";
+  const loyaltyRows = describeTicketLoyalty(options.loyalty);
+  const discounts = splitTicketDiscounts(options);
+  const promotionRows = discounts.promotions
+    .map(
+      (promotion) =>
+        `<tr><td>Promoción: ${escapeHtml(promotion.name)}</td><td>- ${formatMoney(
+          promotion.amount
+        )}</td></tr>`
+    )
+    .join("");
+  const taxTable = options.taxBreakdown?.entries.length
+    ? `<table class="taxes">
+          <thead>
+            <tr>
+              <th>Tarifa</th>
+              <th>Base gravable</th>
+              <th>IVA</th>
+              <th>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${options.taxBreakdown.entries
+              .map(
+                (entry) => `<tr>
+              <td>${escapeHtml(entry.label)}</td>
+              <td>${formatMoney(entry.base)}</td>
+              <td>${formatMoney(entry.tax)}</td>
+              <td>${formatMoney(entry.total)}</td>
+            </tr>`
+              )
+              .join("")}
+            <tr>
+              <td><strong>Total</strong></td>
+              <td><strong>${formatMoney(options.taxBreakdown.base)}</strong></td>
+              <td><strong>${formatMoney(options.taxBreakdown.tax)}</strong></td>
+              <td><strong>${formatMoney(options.taxBreakdown.total)}</strong></td>
+            </tr>
+          </tbody>
+        </table>`
+    : "";
+
   return `<!DOCTYPE html>
   <html>
     <head>
       <meta charSet="utf-8" />
-      <title>Factura ${escapeHtml(options.documentNumber)}</title>
+      <title>Factura ${escapeHtml(invoiceNumber)}</title>
       <style>
         * { box-sizing: border-box; }
         body {
@@ -1363,6 +1698,18 @@ export function renderSaleInvoice(options: SaleTicketOptions): string {
           font-size: 15px;
           font-weight: 700;
         }
+        .taxes {
+          width: 420px;
+          margin-left: auto;
+          margin-top: 12px;
+        }
+        .taxes td:nth-child(1) {
+          width: auto;
+          text-align: left;
+        }
+        .taxes td:nth-child(2) {
+          text-align: right;
+        }
         .payments {
           margin-top: 20px;
           width: 340px;
@@ -1372,6 +1719,11 @@ export function renderSaleInvoice(options: SaleTicketOptions): string {
         .payments td {
           text-align: left;
         }
+        .loyalty-note {
+          margin-top: 12px;
+          font-size: 12px;
+          color: #334155;
+        }
         .footer-note {
           margin-top: 24px;
           font-size: 11.5px;
@@ -1384,13 +1736,32 @@ export function renderSaleInvoice(options: SaleTicketOptions): string {
           text-align: right;
           color: #94a3b8;
         }
+        .electronic {
+          display: flex;
+          gap: 16px;
+          align-items: center;
+          margin-top: 20px;
+          padding: 12px;
+          border: 1px solid #d1d5db;
+          font-size: 11px;
+        }
+        .electronic svg {
+          width: 34mm;
+          height: 34mm;
+          flex-shrink: 0;
+        }
+        .electronic .cufe {
+          font-family: monospace;
+          word-break: break-all;
+          margin-bottom: 6px;
+        }
       </style>
     </head>
     <body>
       <div class="sheet">
         <header>
           <div class="company">
-            <h1>FACTURA</h1>
+            <h1>${electronic ? "FACTURA ELECTRÓNICA DE VENTA" : "FACTURA"}</h1>
             <p><strong>${escapeHtml(companyName)}</strong></p>
             <p>${escapeHtml(address)}</p>
             <p>Tel: ${escapeHtml(phone)} · Email: ${escapeHtml(email)}</p>
@@ -1402,7 +1773,7 @@ export function renderSaleInvoice(options: SaleTicketOptions): string {
                 ? `<img src="${escapeHtml(logoUrl)}" alt="Logo" />`
                 : ""
             }</div>
-            <div class="doc-number">${escapeHtml(options.documentNumber)}</div>
+            <div class="doc-number">${escapeHtml(invoiceNumber)}</div>
             <div>Fecha: ${dateString}</div>
             <div>POS: ${escapeHtml(options.posName ?? "")}</div>
             <div>Cajero: ${escapeHtml(options.vendorName ?? "")}</div>
@@ -1446,12 +1817,13 @@ export function renderSaleInvoice(options: SaleTicketOptions): string {
             <td>${formatMoney(options.subtotal)}</td>
           </tr>
           ${
-            options.lineDiscountTotal > 0
+            discounts.itemDiscount > 0
               ? `<tr><td>Descuento artículos</td><td>- ${formatMoney(
-                  options.lineDiscountTotal
+                  discounts.itemDiscount
                 )}</td></tr>`
               : ""
           }
+          ${promotionRows}
           <tr>
             <td>${escapeHtml(options.cartDiscountLabel)}</td>
             <td>${escapeHtml(options.cartDiscountValueDisplay)}</td>
@@ -1475,6 +1847,8 @@ export function renderSaleInvoice(options: SaleTicketOptions): string {
           </tr>
         </table>
 
+        ${taxTable}
+
         <table class="payments">
           <thead>
             <tr>
@@ -1495,6 +1869,16 @@ export function renderSaleInvoice(options: SaleTicketOptions): string {
           </tbody>
         </table>
 
+        ${
+          loyaltyRows.length
+            ? `<div class="loyalty-note">${loyaltyRows
+                .map((row) => `${row.label}: <strong>${row.value}</strong>`)
+                .join(" · ")}</div>`
+            : ""
+        }
+
+        ${electronicBlock}
+
         <div class="footer-note" style="text-align:${footerAlign};">
           ${footer
             .split("\n")
@@ -1506,6 +1890,90 @@ export function renderSaleInvoice(options: SaleTicketOptions): string {
     </body>
   </html>`;
 }
+export type ClosureTicketSummary = {
+  separatedSummary?: ClosureTicketOptions["separatedSummary"];
+  showSeparatedClarification: boolean;
+  registeredTotal: number;
+  netTotal: number;
+  dayCollectedTotal: number;
+  hasDetailedMethods: boolean;
+  methods: { label: string; gross: number; refunds: number; net: number }[];
+  stations: { label: string; salesCount: number; amount: number }[];
+  changes: { extra: number; refund: number; count: number; hasChanges: boolean };
+};
+
+/**
+ * Totales del Reporte Z ya conciliados con los separados pendientes; los
+ * comparten la versión HTML y la ESC/POS para que ambas cuadren.
+ */
+export function buildClosureTicketSummary(
+  options: ClosureTicketOptions
+): ClosureTicketSummary {
+  const separatedSummary = normalizeClosureSeparatedSummary(
+    options.separatedSummary
+  );
+  const hasDetailedMethods = options.methods.some(
+    (method) =>
+      typeof method.gross === "number" ||
+      typeof method.refunds === "number" ||
+      typeof method.net === "number"
+  );
+  const methods = options.methods.map((method) => {
+    const gross = method.gross ?? method.amount ?? 0;
+    const refunds = method.refunds ?? 0;
+    const net = method.net ?? method.amount ?? gross - refunds;
+    return { label: method.label, gross, refunds, net };
+  });
+  const stations = (options.stationBreakdown ?? []).map((entry) => {
+    const stationPendingFallback =
+      options.stationBreakdown?.length === 1
+        ? Number(separatedSummary?.pendingTotal ?? 0)
+        : 0;
+    const stationPendingRaw = Number(entry.pendingTotal ?? 0);
+    const stationPending =
+      stationPendingFallback > 0 && stationPendingRaw <= 0
+        ? stationPendingFallback
+        : stationPendingRaw;
+    return {
+      label: entry.stationLabel,
+      salesCount: Math.max(0, Number(entry.salesCount || 0)),
+      amount: Math.max(Number(entry.netAmount ?? 0) - stationPending, 0),
+    };
+  });
+  const showSeparatedClarification = Boolean(options.separatedSummary);
+  const dayBaseWithoutSeparated = showSeparatedClarification
+    ? Number(
+        separatedSummary?.dayCollectedTotal ??
+          Math.max(
+            Number(options.totals.net) -
+              Number(separatedSummary?.pendingTotal ?? 0),
+            0
+          )
+      )
+    : Number(options.totals.net);
+  const changeExtra = options.totals.changeExtra ?? 0;
+  const changeRefund = options.totals.changeRefund ?? 0;
+  const changeCount = options.totals.changeCount ?? 0;
+  return {
+    separatedSummary,
+    showSeparatedClarification,
+    registeredTotal: showSeparatedClarification
+      ? dayBaseWithoutSeparated
+      : Number(options.totals.registered),
+    netTotal: dayBaseWithoutSeparated,
+    dayCollectedTotal: showSeparatedClarification ? dayBaseWithoutSeparated : 0,
+    hasDetailedMethods,
+    methods,
+    stations,
+    changes: {
+      extra: changeExtra,
+      refund: changeRefund,
+      count: changeCount,
+      hasChanges: changeExtra > 0 || changeRefund > 0 || changeCount > 0,
+    },
+  };
+}
+
 export function renderClosureTicket(options: ClosureTicketOptions): string {
   const settings = options.settings;
   const companyName =
@@ -1515,26 +1983,17 @@ export function renderClosureTicket(options: ClosureTicketOptions): string {
   const phone = settings?.contact_phone?.trim() || FALLBACK_COMPANY.phone;
   const email = settings?.contact_email?.trim() || FALLBACK_COMPANY.email;
   const logoUrl = resolveLogoUrl(extractSettingsLogo(settings));
-  const normalizedSeparatedSummary = normalizeClosureSeparatedSummary(
-    options.separatedSummary
-  );
+  const summary = buildClosureTicketSummary(options);
+  const normalizedSeparatedSummary = summary.separatedSummary;
+  const hasDetailedMethods = summary.hasDetailedMethods;
 
-  const hasDetailedMethods = options.methods.some(
-    (method) =>
-      typeof method.gross === "number" ||
-      typeof method.refunds === "number" ||
-      typeof method.net === "number"
-  );
-  const methodRows = options.methods.length
-    ? options.methods
-        .map((method) => {
-          const gross = method.gross ?? method.amount ?? 0;
-          const refunds = method.refunds ?? 0;
-          const net = method.net ?? method.amount ?? gross - refunds;
+  const methodRows = summary.methods.length
+    ? summary.methods
+        .map(({ label, gross, refunds, net }) => {
           if (hasDetailedMethods) {
             return `
         <div class="method-grid">
-          <span>${escapeHtml(method.label)}</span>
+          <span>${escapeHtml(label)}</span>
           <span>${formatMoney(gross)}</span>
           <span>${formatMoneySigned(-Math.abs(refunds))}</span>
           <span>${formatMoneySigned(net)}</span>
@@ -1542,7 +2001,7 @@ export function renderClosureTicket(options: ClosureTicketOptions): string {
           }
           return `
         <div class="row">
-          <span>${escapeHtml(method.label)}</span>
+          <span>${escapeHtml(label)}</span>
           <span>${formatMoneySigned(net)}</span>
         </div>`;
         })
@@ -1575,51 +2034,39 @@ export function renderClosureTicket(options: ClosureTicketOptions): string {
           )
           .join("")
       : "";
-  const stationRows =
-    options.stationBreakdown && options.stationBreakdown.length
-      ? options.stationBreakdown
-          .map(
-            (entry) => {
-              const stationPendingFallback =
-                options.stationBreakdown?.length === 1
-                  ? Number(normalizedSeparatedSummary?.pendingTotal ?? 0)
-                  : 0;
-              const stationPendingRaw = Number(entry.pendingTotal ?? 0);
-              const stationPending =
-                stationPendingFallback > 0 && stationPendingRaw <= 0
-                  ? stationPendingFallback
-                  : stationPendingRaw;
-              return `
+  const stationRows = summary.stations
+    .map(
+      (entry) => `
         <div class="row">
-          <span>${escapeHtml(entry.stationLabel)} (${Math.max(0, Number(entry.salesCount || 0))})</span>
-          <span>${formatMoney(
-            Math.max(Number(entry.netAmount ?? 0) - stationPending, 0)
-          )}</span>
+          <span>${escapeHtml(entry.label)} (${entry.salesCount})</span>
+          <span>${formatMoney(entry.amount)}</span>
         </div>`
-            }
-          )
-          .join("")
-      : "";
-  const showSeparatedClarification = Boolean(options.separatedSummary);
-  const dayBaseWithoutSeparated = showSeparatedClarification
-    ? Number(
-        normalizedSeparatedSummary?.dayCollectedTotal ??
-          Math.max(
-            Number(options.totals.net) -
-              Number(normalizedSeparatedSummary?.pendingTotal ?? 0),
-            0
-          )
-      )
-    : Number(options.totals.net);
-  const headerRegisteredTotal = showSeparatedClarification
-    ? dayBaseWithoutSeparated
-    : Number(options.totals.registered);
-  const headerNetTotal = showSeparatedClarification
-    ? dayBaseWithoutSeparated
-    : Number(options.totals.net);
-  const separatedDayCollectedTotal = showSeparatedClarification
-    ? dayBaseWithoutSeparated
-    : 0;
+    )
+    .join("");
+  const taxRows = options.taxBreakdown?.entries.length
+    ? [
+        ...options.taxBreakdown.entries.map(
+          (entry) => `
+        <div class="method-grid">
+          <span>${escapeHtml(entry.label)}</span>
+          <span>${formatMoney(entry.base)}</span>
+          <span>${formatMoney(entry.tax)}</span>
+          <span>${formatMoney(entry.total)}</span>
+        </div>`
+        ),
+        `
+        <div class="method-grid header">
+          <span>Total</span>
+          <span>${formatMoney(options.taxBreakdown.base)}</span>
+          <span>${formatMoney(options.taxBreakdown.tax)}</span>
+          <span>${formatMoney(options.taxBreakdown.total)}</span>
+        </div>`,
+      ].join("")
+    : "";
+  const showSeparatedClarification = summary.showSeparatedClarification;
+  const headerRegisteredTotal = summary.registeredTotal;
+  const headerNetTotal = summary.netTotal;
+  const separatedDayCollectedTotal = summary.dayCollectedTotal;
   const notesBlock =
     options.notes && options.notes.trim().length
       ? `<div class="block">
@@ -1632,10 +2079,62 @@ export function renderClosureTicket(options: ClosureTicketOptions): string {
             .join("")}</div>
         </div>`
       : "";
-  const changeExtra = options.totals.changeExtra ?? 0;
-  const changeRefund = options.totals.changeRefund ?? 0;
-  const changeCount = options.totals.changeCount ?? 0;
-  const hasChanges = changeExtra > 0 || changeRefund > 0 || changeCount > 0;
+  const {
+    extra: changeExtra,
+    refund: changeRefund,
+    count: changeCount,
+    hasChanges,
+  } = summary.changes;
+  const denominationBlock = options.countedDenominations?.length
+    ? `<hr />
+      <div class="block">
+        <div class="muted">Conteo de efectivo</div>
+        ${options.countedDenominations
+          .map(
+            (row) => `
+        <div class="row"><span>${escapeHtml(row.label)} x ${row.quantity}</span><span>${formatMoney(
+              row.subtotal
+            )}</span></div>`
+          )
+          .join("")}
+        <div class="row emphasize"><span>Total contado</span><span>${formatMoney(
+          options.totals.countedCash
+        )}</span></div>
+      </div>`
+    : "";
+  const cashSession = options.cashSession;
+  const cashSessionBlock = cashSession
+    ? `<hr />
+      <div class="block">
+        <div class="muted">Movimientos de caja</div>
+        <div class="row"><span>Apertura</span><span>${formatBogotaDate(cashSession.openedAt, {
+          dateStyle: "short",
+          timeStyle: "short",
+        })}</span></div>
+        ${
+          cashSession.openedBy
+            ? `<div class="row"><span>Abrió</span><span>${escapeHtml(cashSession.openedBy)}</span></div>`
+            : ""
+        }
+        <div class="row"><span>Base inicial</span><span>${formatMoney(cashSession.openingFloat)}</span></div>
+        <div class="row"><span>Entradas de efectivo</span><span>${formatMoney(cashSession.paidIn)}</span></div>
+        <div class="row"><span>Salidas de efectivo</span><span>- ${formatMoney(cashSession.paidOut)}</span></div>
+        <div class="row"><span>Consignaciones a caja fuerte</span><span>- ${formatMoney(
+          cashSession.safeDrops
+        )}</span></div>
+        ${cashSession.movements
+          .map(
+            (movement) => `
+        <div class="row" style="margin-top:4px;"><span>${escapeHtml(movement.label)}${
+              movement.createdAt
+                ? ` ${formatBogotaDate(movement.createdAt, { timeStyle: "short" })}`
+                : ""
+            }</span><span>${formatMoneySigned(movement.amount)}</span></div>
+        <div class="muted">${escapeHtml(movement.reason)}</div>`
+          )
+          .join("")}
+      </div>`
+    : "";
 
   return `<!DOCTYPE html>
   <html>
@@ -1714,10 +2213,20 @@ export function renderClosureTicket(options: ClosureTicketOptions): string {
             : ""
         }
         <div class="row emphasize"><span>Neto del día</span><span>${formatMoney(headerNetTotal)}</span></div>
-        <div class="row"><span>Efectivo esperado</span><span>${formatMoney(options.totals.expectedCash)}</span></div>
+        ${
+          options.hideExpected
+            ? ""
+            : `<div class="row"><span>Efectivo esperado</span><span>${formatMoney(options.totals.expectedCash)}</span></div>`
+        }
         <div class="row"><span>Efectivo contado</span><span>${formatMoney(options.totals.countedCash)}</span></div>
-        <div class="row"><span>Diferencia</span><span>${formatMoney(options.totals.difference)}</span></div>
+        ${
+          options.hideExpected
+            ? ""
+            : `<div class="row"><span>Diferencia</span><span>${formatMoney(options.totals.difference)}</span></div>`
+        }
       </div>
+      ${denominationBlock}
+      ${cashSessionBlock}
       <hr />
       <div class="block">
         <div class="muted">Detalle por método</div>
@@ -1745,6 +2254,21 @@ export function renderClosureTicket(options: ClosureTicketOptions): string {
         </div>`
           : ""
       }
+      ${
+        taxRows
+          ? `<hr />
+        <div class="block">
+          <div class="muted">Discriminación de IVA</div>
+          <div class="method-grid header">
+            <span>Tarifa</span>
+            <span>Base</span>
+            <span>IVA</span>
+            <span>Total</span>
+          </div>
+          ${taxRows}
+        </div>`
+          : ""
+      }
       ${
         stationRows
           ? `<hr />
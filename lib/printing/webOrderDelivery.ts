@@ -0,0 +1,150 @@
+import type { ComercioWebOrder } from "@/lib/api/comercioWeb";
+import { generateCode128TextSvg } from "@/lib/utils/barcode";
+
+export type DeliveryDocumentCompany = {
+  name: string;
+  address?: string | null;
+  phone?: string | null;
+};
+
+export type DeliveryDocumentDestination = {
+  address: string;
+  cityState: string;
+  phone: string;
+};
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function orderReference(order: ComercioWebOrder): string {
+  return order.document_number || (order.web_order_number ? `#${order.web_order_number}` : `#${order.id}`);
+}
+
+function wrapDocument(title: string, styles: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="es">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      * { box-sizing: border-box; }
+      body { font-family: Arial, sans-serif; color: #0f172a; margin: 0; }
+      .muted { color: #64748b; }
+      ${styles}
+    </style>
+  </head>
+  <body>
+    ${body}
+    <script>
+      window.onload = () => { window.print(); };
+    </script>
+  </body>
+</html>`;
+}
+
+/** Lista de empaque: qué va en la caja, sin precios. */
+export function buildPackingSlipHtml(
+  order: ComercioWebOrder,
+  company: DeliveryDocumentCompany,
+  destination: DeliveryDocumentDestination
+): string {
+  const rows = order.items
+    .map(
+      (item) => `
+        <tr>
+          <td class="check"></td>
+          <td>${escapeHtml(item.product_sku || "-")}</td>
+          <td>${escapeHtml(item.product_name)}</td>
+          <td class="qty">${item.quantity}</td>
+        </tr>`
+    )
+    .join("");
+  const units = order.items.reduce((sum, item) => sum + item.quantity, 0);
+  return wrapDocument(
+    `Lista de empaque ${orderReference(order)}`,
+    `
+      .sheet { padding: 28px; font-size: 13px; }
+      .header { display: flex; justify-content: space-between; gap: 16px; margin-bottom: 20px; }
+      h1 { font-size: 18px; margin: 0 0 4px; }
+      table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+      th, td { padding: 8px; border-bottom: 1px solid #e2e8f0; text-align: left; }
+      .check { width: 28px; }
+      .check::before { content: ""; display: inline-block; width: 14px; height: 14px; border: 1px solid #64748b; }
+      th.check::before { display: none; }
+      .qty { text-align: right; width: 80px; font-weight: 700; }
+      .notes { margin-top: 16px; padding: 10px; border: 1px dashed #94a3b8; }
+    `,
+    `<div class="sheet">
+      <div class="header">
+        <div>
+          <h1>${escapeHtml(company.name || "Lista de empaque")}</h1>
+          <p class="muted">Lista de empaque · ${escapeHtml(orderReference(order))}</p>
+        </div>
+        <div>
+          <strong>${escapeHtml(order.customer_name || "Cliente web")}</strong>
+          <p>${escapeHtml(destination.address)}</p>
+          <p>${escapeHtml(destination.cityState)} · ${escapeHtml(destination.phone)}</p>
+        </div>
+      </div>
+      <table>
+        <thead>
+          <tr><th class="check"></th><th>SKU</th><th>Producto</th><th class="qty">Cant.</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <p class="muted">${order.items.length} línea(s) · ${units} unidad(es)</p>
+      ${order.shipment?.tracking_number ? `<p>Guía: <strong>${escapeHtml(order.shipment.tracking_number)}</strong>${order.shipment.carrier ? ` (${escapeHtml(order.shipment.carrier)})` : ""}</p>` : ""}
+    </div>`
+  );
+}
+
+/** Rótulo de envío de 10 × 15 cm con la guía en Code128. */
+export function buildShippingLabelHtml(
+  order: ComercioWebOrder,
+  company: DeliveryDocumentCompany,
+  destination: DeliveryDocumentDestination
+): string {
+  const tracking = order.shipment?.tracking_number?.trim() || "";
+  const barcode = tracking
+    ? generateCode128TextSvg(tracking, { height: 60, moduleWidth: 1.6, includeTextFontSize: 12 })
+    : `<p class="muted">Sin número de guía</p>`;
+  return wrapDocument(
+    `Rótulo ${orderReference(order)}`,
+    `
+      @page { size: 100mm 150mm; margin: 0; }
+      .label { width: 100mm; height: 150mm; padding: 6mm; display: flex; flex-direction: column; gap: 4mm; font-size: 12px; }
+      .block { border: 1.5px solid #0f172a; border-radius: 2mm; padding: 3mm; }
+      .caption { font-size: 9px; text-transform: uppercase; letter-spacing: .08em; color: #475569; margin: 0 0 1mm; }
+      .to { font-size: 16px; font-weight: 700; margin: 0; }
+      .barcode { text-align: center; }
+      .barcode svg { max-width: 100%; height: auto; }
+      .carrier { display: flex; justify-content: space-between; font-weight: 700; }
+    `,
+    `<div class="label">
+      <div class="block">
+        <p class="caption">Remitente</p>
+        <strong>${escapeHtml(company.name || "-")}</strong>
+        ${company.address ? `<div>${escapeHtml(company.address)}</div>` : ""}
+        ${company.phone ? `<div>${escapeHtml(company.phone)}</div>` : ""}
+      </div>
+      <div class="block">
+        <p class="caption">Destinatario</p>
+        <p class="to">${escapeHtml(order.customer_name || "Cliente web")}</p>
+        <div>${escapeHtml(destination.address)}</div>
+        <div><strong>${escapeHtml(destination.cityState)}</strong></div>
+        <div>Tel. ${escapeHtml(destination.phone)}</div>
+      </div>
+      <div class="block carrier">
+        <span>${escapeHtml(order.shipment?.carrier || "Transportadora")}</span>
+        <span>${escapeHtml(orderReference(order))}</span>
+      </div>
+      <div class="block barcode">${barcode}</div>
+    </div>`
+  );
+}
@@ -0,0 +1,46 @@
+export function getIndexedDbFactory(): IDBFactory | null {
+  if (typeof window === "undefined") return null;
+  return "indexedDB" in window && window.indexedDB ? window.indexedDB : null;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Abre (o crea) una base con un object store por nombre. Cada store usa
+ * `keyPath` como llave primaria.
+ */
+export function openIndexedDb(
+  factory: IDBFactory,
+  name: string,
+  version: number,
+  stores: Array<{ name: string; keyPath: string }>
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(name, version);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      stores.forEach((store) => {
+        if (!db.objectStoreNames.contains(store.name)) {
+          db.createObjectStore(store.name, { keyPath: store.keyPath });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error(`La base local ${name} está bloqueada por otra pestaña.`));
+  });
+}
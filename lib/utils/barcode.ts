@@ -251,26 +251,19 @@ const sanitizeCode128CValue = (value: string): string => {
   return digits;
 };
 
-export function generateCode128Svg(
-  value: string,
-  options?: Barcode128Options
-): string {
-  const opts = { ...CODE128_DEFAULTS, ...(options ?? {}) };
-  let data = sanitizeCode128CValue(value);
-  if (data.length % 2 === 1) {
-    data = `0${data}`;
-  }
-  const codes: number[] = [105]; // Start Code C
-  for (let i = 0; i < data.length; i += 2) {
-    codes.push(Number.parseInt(data.slice(i, i + 2), 10));
-  }
+function withCode128Checksum(codes: number[]): number[] {
   let checksum = codes[0];
   for (let i = 1; i < codes.length; i += 1) {
     checksum += codes[i] * i;
   }
-  codes.push(checksum % 103);
-  codes.push(106); // Stop
+  return [...codes, checksum % 103, 106]; // Checksum + Stop
+}
 
+function renderCode128Svg(
+  codes: number[],
+  text: string,
+  opts: Required<Barcode128Options>
+): string {
   const quietZone = opts.moduleWidth * opts.quietZoneModules;
   let width = quietZone;
   const segments: string[] = [];
@@ -297,7 +290,7 @@ export function generateCode128Svg(
     ? `<text x="50%" y="${(opts.height + opts.includeTextFontSize).toFixed(
         2
       )}" font-family="monospace" font-size="${opts.includeTextFontSize}" font-weight="700" text-anchor="middle" fill="#0f172a">${
-        data
+        text
       }</text>`
     : "";
 
@@ -308,3 +301,819 @@ export function generateCode128Svg(
     2
   )} ${totalHeight.toFixed(2)}">${segments.join("")}${textBlock}</svg>`;
 }
+
+export function generateCode128Svg(
+  value: string,
+  options?: Barcode128Options
+): string {
+  const opts = { ...CODE128_DEFAULTS, ...(options ?? {}) };
+  let data = sanitizeCode128CValue(value);
+  if (data.length % 2 === 1) {
+    data = `0${data}`;
+  }
+  const codes: number[] = [105]; // Start Code C
+  for (let i = 0; i < data.length; i += 2) {
+    codes.push(Number.parseInt(data.slice(i, i + 2), 10));
+  }
+  return renderCode128Svg(withCode128Checksum(codes), data, opts);
+}
+
+const sanitizeCode128BValue = (value: string): string =>
+  (value ?? "").trim().replace(/[^\x20-\x7e]/g, "") || "0";
+
+/** Start B, datos, checksum y Stop de un valor en Code Set B (ASCII imprimible). */
+export function encodeCode128B(value: string): number[] {
+  const codes: number[] = [104]; // Start Code B
+  for (const char of sanitizeCode128BValue(value)) {
+    codes.push(char.charCodeAt(0) - 32);
+  }
+  return withCode128Checksum(codes);
+}
+
+/**
+ * Code128 alfanumérico (Code Set B) para guías de transportadora que mezclan
+ * letras y números; `generateCode128Svg` sigue siendo solo numérico.
+ */
+export function generateCode128TextSvg(
+  value: string,
+  options?: Barcode128Options
+): string {
+  const opts = { ...CODE128_DEFAULTS, ...(options ?? {}) };
+  const text = sanitizeCode128BValue(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+  return renderCode128Svg(encodeCode128B(value), text, opts);
+}
+
+export type RetailBarcodeFormat = "ean13" | "ean8" | "upca";
+
+export type RetailBarcodeValidation = {
+  /** `null` cuando el código no tiene la forma de un EAN/UPC (p. ej. SKU internos). */
+  format: RetailBarcodeFormat | null;
+  valid: boolean;
+  expectedCheckDigit: number | null;
+};
+
+type RetailBarcodeOptions = {
+  height?: number;
+  moduleWidth?: number;
+  includeText?: boolean;
+  includeTextFontSize?: number;
+};
+
+const RETAIL_BARCODE_DEFAULTS: Required<RetailBarcodeOptions> = {
+  height: 52,
+  moduleWidth: 2,
+  includeText: true,
+  includeTextFontSize: 12,
+};
+
+const RETAIL_BARCODE_LENGTHS: Record<RetailBarcodeFormat, number> = {
+  ean13: 13,
+  ean8: 8,
+  upca: 12,
+};
+
+const RETAIL_BARCODE_LABELS: Record<RetailBarcodeFormat, string> = {
+  ean13: "EAN-13",
+  ean8: "EAN-8",
+  upca: "UPC-A",
+};
+
+const EAN_L_CODES = [
+  "0001101",
+  "0011001",
+  "0010011",
+  "0111101",
+  "0100011",
+  "0110001",
+  "0101111",
+  "0111011",
+  "0110111",
+  "0001011",
+];
+
+// Paridad L/G de la mitad izquierda según el primer dígito del EAN-13.
+const EAN13_PARITY = [
+  "LLLLLL",
+  "LLGLGG",
+  "LLGGLG",
+  "LLGGGL",
+  "LGLLGG",
+  "LGGLLG",
+  "LGGGLL",
+  "LGLGLG",
+  "LGLGGL",
+  "LGGLGL",
+];
+
+/** GS1 reserva los prefijos 20-29 para códigos de uso interno de la tienda. */
+export const INTERNAL_EAN_DEFAULT_PREFIX = "29";
+
+/** Dígito de control GS1 (módulo 10, pesos 3/1 desde la derecha) para el cuerpo sin dígito. */
+export function computeGs1CheckDigit(body: string): number {
+  const digits = (body ?? "").replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i += 1) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+export function detectRetailBarcodeFormat(value: string): RetailBarcodeFormat | null {
+  const trimmed = (value ?? "").trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  if (trimmed.length === 13) return "ean13";
+  if (trimmed.length === 12) return "upca";
+  if (trimmed.length === 8) return "ean8";
+  return null;
+}
+
+/**
+ * Revisa el dígito de control de los códigos con longitud EAN/UPC. Los demás
+ * valores (códigos internos cortos, Code128 alfanuméricos) se consideran válidos.
+ */
+export function validateRetailBarcode(value: string): RetailBarcodeValidation {
+  const trimmed = (value ?? "").trim();
+  const format = detectRetailBarcodeFormat(trimmed);
+  if (!format) {
+    return { format: null, valid: true, expectedCheckDigit: null };
+  }
+  const expectedCheckDigit = computeGs1CheckDigit(trimmed.slice(0, -1));
+  return {
+    format,
+    valid: Number(trimmed[trimmed.length - 1]) === expectedCheckDigit,
+    expectedCheckDigit,
+  };
+}
+
+export function describeRetailBarcodeError(value: string): string | null {
+  const result = validateRetailBarcode(value);
+  if (result.valid || !result.format) return null;
+  return `El código ${value.trim()} no es un ${
+    RETAIL_BARCODE_LABELS[result.format]
+  } válido: el dígito de control debería ser ${result.expectedCheckDigit}.`;
+}
+
+/**
+ * Problema del prefijo de códigos internos, o `null` si sirve. Fuera de 20-29
+ * los códigos chocarían con los de fabricantes registrados en GS1.
+ */
+export function describeInternalPrefixError(prefix: string): string | null {
+  const cleanPrefix = (prefix ?? "").replace(/\D/g, "");
+  if (cleanPrefix.length < 2 || cleanPrefix.length > 7) {
+    return "El prefijo de códigos internos debe tener entre 2 y 7 dígitos.";
+  }
+  if (!cleanPrefix.startsWith("2")) {
+    return "El prefijo de códigos internos debe empezar entre 20 y 29 (uso interno GS1).";
+  }
+  return null;
+}
+
+/** Arma un EAN-13 interno con el prefijo de la tienda y un consecutivo. */
+export function buildInternalEan13(prefix: string, sequence: number): string {
+  const cleanPrefix = (prefix ?? "").replace(/\D/g, "");
+  const prefixError = describeInternalPrefixError(cleanPrefix);
+  if (prefixError) throw new Error(prefixError);
+  const sequenceLength = 12 - cleanPrefix.length;
+  const sequenceText = String(Math.max(0, Math.trunc(sequence)));
+  if (sequenceText.length > sequenceLength) {
+    throw new Error(
+      `No quedan códigos internos disponibles para el prefijo ${cleanPrefix}.`
+    );
+  }
+  const body = `${cleanPrefix}${sequenceText.padStart(sequenceLength, "0")}`;
+  return `${body}${computeGs1CheckDigit(body)}`;
+}
+
+/** Siguiente EAN-13 interno libre a partir de los códigos que ya existen. */
+export function nextInternalEan13(
+  prefix: string,
+  existingBarcodes: Iterable<string | null | undefined>
+): string {
+  const cleanPrefix = (prefix ?? "").replace(/\D/g, "");
+  let maxSequence = 0;
+  for (const barcode of existingBarcodes) {
+    const trimmed = (barcode ?? "").trim();
+    if (!trimmed.startsWith(cleanPrefix)) continue;
+    if (detectRetailBarcodeFormat(trimmed) !== "ean13") continue;
+    const sequence = Number(trimmed.slice(cleanPrefix.length, 12));
+    if (Number.isFinite(sequence) && sequence > maxSequence) {
+      maxSequence = sequence;
+    }
+  }
+  return buildInternalEan13(cleanPrefix, maxSequence + 1);
+}
+
+function normalizeRetailValue(value: string, format: RetailBarcodeFormat): string {
+  const digits = (value ?? "").replace(/\D/g, "");
+  const length = RETAIL_BARCODE_LENGTHS[format];
+  if (digits.length === length - 1) {
+    return `${digits}${computeGs1CheckDigit(digits)}`;
+  }
+  if (digits.length !== length) {
+    throw new Error(
+      `El ${RETAIL_BARCODE_LABELS[format]} debe tener ${length} dígitos.`
+    );
+  }
+  const error = describeRetailBarcodeError(digits);
+  if (error) throw new Error(error);
+  return digits;
+}
+
+const eanRightCode = (digit: number) =>
+  EAN_L_CODES[digit]!
+    .split("")
+    .map((bit) => (bit === "1" ? "0" : "1"))
+    .join("");
+
+const eanGCode = (digit: number) => eanRightCode(digit).split("").reverse().join("");
+
+type RetailSymbol = {
+  modules: string;
+  /** Índices de módulo que se alargan (guardas) por debajo de las barras normales. */
+  guardRanges: Array<[number, number]>;
+  quietLeft: number;
+  quietRight: number;
+  text: Array<{ label: string; centerModule: number }>;
+};
+
+function buildRetailSymbol(digits: string, format: RetailBarcodeFormat): RetailSymbol {
+  const values = digits.split("").map(Number);
+  if (format === "ean8") {
+    const left = values.slice(0, 4).map((d) => EAN_L_CODES[d]!).join("");
+    const right = values.slice(4).map(eanRightCode).join("");
+    return {
+      modules: `101${left}01010${right}101`,
+      guardRanges: [
+        [0, 3],
+        [31, 36],
+        [64, 67],
+      ],
+      quietLeft: 7,
+      quietRight: 7,
+      text: [
+        { label: digits.slice(0, 4), centerModule: 3 + 14 },
+        { label: digits.slice(4), centerModule: 36 + 14 },
+      ],
+    };
+  }
+
+  // Un UPC-A es un EAN-13 que empieza en 0; cambia solo la forma de rotularlo.
+  const ean = format === "upca" ? [0, ...values] : values;
+  const parity = EAN13_PARITY[ean[0]!]!;
+  const left = ean
+    .slice(1, 7)
+    .map((d, index) => (parity[index] === "L" ? EAN_L_CODES[d]! : eanGCode(d)))
+    .join("");
+  const right = ean.slice(7).map(eanRightCode).join("");
+  const modules = `101${left}01010${right}101`;
+
+  if (format === "upca") {
+    return {
+      modules,
+      guardRanges: [
+        [0, 10],
+        [45, 50],
+        [85, 95],
+      ],
+      quietLeft: 9,
+      quietRight: 9,
+      text: [
+        { label: digits[0]!, centerModule: -4 },
+        { label: digits.slice(1, 6), centerModule: 10 + 17.5 },
+        { label: digits.slice(6, 11), centerModule: 50 + 17.5 },
+        { label: digits[11]!, centerModule: 95 + 4 },
+      ],
+    };
+  }
+
+  return {
+    modules,
+    guardRanges: [
+      [0, 3],
+      [45, 50],
+      [92, 95],
+    ],
+    quietLeft: 11,
+    quietRight: 7,
+    text: [
+      { label: digits[0]!, centerModule: -5 },
+      { label: digits.slice(1, 7), centerModule: 3 + 21 },
+      { label: digits.slice(7), centerModule: 50 + 21 },
+    ],
+  };
+}
+
+function renderRetailBarcodeSvg(
+  value: string,
+  format: RetailBarcodeFormat,
+  options?: RetailBarcodeOptions
+): string {
+  const opts = { ...RETAIL_BARCODE_DEFAULTS, ...(options ?? {}) };
+  const digits = normalizeRetailValue(value, format);
+  const symbol = buildRetailSymbol(digits, format);
+  const guardExtra = opts.includeText ? opts.includeTextFontSize / 2 : 0;
+  const offset = symbol.quietLeft * opts.moduleWidth;
+
+  const segments: string[] = [];
+  let index = 0;
+  while (index < symbol.modules.length) {
+    if (symbol.modules[index] !== "1") {
+      index += 1;
+      continue;
+    }
+    const start = index;
+    while (index < symbol.modules.length && symbol.modules[index] === "1") {
+      index += 1;
+    }
+    const isGuard = symbol.guardRanges.some(
+      ([from, to]) => start >= from && start < to
+    );
+    const barHeight = opts.height + (isGuard ? guardExtra : 0);
+    segments.push(
+      `<rect x="${(offset + start * opts.moduleWidth).toFixed(2)}" y="0" width="${(
+        (index - start) *
+        opts.moduleWidth
+      ).toFixed(2)}" height="${barHeight.toFixed(2)}" fill="#000" />`
+    );
+  }
+
+  const width =
+    (symbol.quietLeft + symbol.modules.length + symbol.quietRight) * opts.moduleWidth;
+  const textBlock = opts.includeText
+    ? symbol.text
+        .map(
+          (entry) =>
+            `<text x="${(offset + entry.centerModule * opts.moduleWidth).toFixed(
+              2
+            )}" y="${(opts.height + opts.includeTextFontSize).toFixed(
+              2
+            )}" font-family="monospace" font-size="${opts.includeTextFontSize}" text-anchor="middle" fill="#0f172a">${
+              entry.label
+            }</text>`
+        )
+        .join("")
+    : "";
+
+  const totalHeight = opts.height + (opts.includeText ? opts.includeTextFontSize + 4 : 0);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width.toFixed(
+    2
+  )}" height="${totalHeight.toFixed(2)}" viewBox="0 0 ${width.toFixed(
+    2
+  )} ${totalHeight.toFixed(2)}">${segments.join("")}${textBlock}</svg>`;
+}
+
+/** Acepta 13 dígitos o 12 (en ese caso calcula el dígito de control). */
+export function generateEan13Svg(value: string, options?: RetailBarcodeOptions): string {
+  return renderRetailBarcodeSvg(value, "ean13", options);
+}
+
+export function generateEan8Svg(value: string, options?: RetailBarcodeOptions): string {
+  return renderRetailBarcodeSvg(value, "ean8", options);
+}
+
+export function generateUpcASvg(value: string, options?: RetailBarcodeOptions): string {
+  return renderRetailBarcodeSvg(value, "upca", options);
+}
+
+export type QrErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export type QrCodeMatrix = {
+  version: number;
+  size: number;
+  errorCorrection: QrErrorCorrectionLevel;
+  mask: number;
+  /** modules[fila][columna], `true` = módulo oscuro. */
+  modules: boolean[][];
+};
+
+type QrCodeSvgOptions = {
+  errorCorrection?: QrErrorCorrectionLevel;
+  moduleSize?: number;
+  quietZoneModules?: number;
+  darkColor?: string;
+  lightColor?: string | null;
+};
+
+const QR_FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = {
+  L: 1,
+  M: 0,
+  Q: 3,
+  H: 2,
+};
+
+// Tablas ISO/IEC 18004 indexadas por versión (posición 0 sin uso).
+const QR_ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const QR_ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+const QR_ALPHANUMERIC_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+type QrSegment = {
+  modeBits: number;
+  charCountBits: [number, number, number];
+  charCount: number;
+  bits: number[];
+};
+
+const appendBits = (target: number[], value: number, length: number) => {
+  for (let i = length - 1; i >= 0; i -= 1) {
+    target.push((value >>> i) & 1);
+  }
+};
+
+function buildQrSegment(value: string): QrSegment {
+  const bits: number[] = [];
+  if (/^\d*$/.test(value)) {
+    for (let i = 0; i < value.length; i += 3) {
+      const chunk = value.slice(i, i + 3);
+      appendBits(bits, Number.parseInt(chunk, 10), chunk.length * 3 + 1);
+    }
+    return { modeBits: 0x1, charCountBits: [10, 12, 14], charCount: value.length, bits };
+  }
+  if ([...value].every((char) => QR_ALPHANUMERIC_CHARSET.includes(char))) {
+    for (let i = 0; i + 1 < value.length; i += 2) {
+      const pair =
+        QR_ALPHANUMERIC_CHARSET.indexOf(value[i]!) * 45 +
+        QR_ALPHANUMERIC_CHARSET.indexOf(value[i + 1]!);
+      appendBits(bits, pair, 11);
+    }
+    if (value.length % 2 === 1) {
+      appendBits(bits, QR_ALPHANUMERIC_CHARSET.indexOf(value[value.length - 1]!), 6);
+    }
+    return { modeBits: 0x2, charCountBits: [9, 11, 13], charCount: value.length, bits };
+  }
+  const bytes = new TextEncoder().encode(value);
+  bytes.forEach((byte) => appendBits(bits, byte, 8));
+  return { modeBits: 0x4, charCountBits: [8, 16, 16], charCount: bytes.length, bits };
+}
+
+function qrCharCountBits(segment: QrSegment, version: number): number {
+  return segment.charCountBits[version <= 9 ? 0 : version <= 26 ? 1 : 2];
+}
+
+function qrRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function qrDataCodewords(version: number, level: QrErrorCorrectionLevel): number {
+  return (
+    Math.floor(qrRawDataModules(version) / 8) -
+    QR_ECC_CODEWORDS_PER_BLOCK[level][version]! * QR_ERROR_CORRECTION_BLOCKS[level][version]!
+  );
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < result.length; j += 1) {
+      result[j] = gfMultiply(result[j]!, root);
+      if (j + 1 < result.length) result[j]! ^= result[j + 1]!;
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  data.forEach((byte) => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coef, index) => {
+      result[index]! ^= gfMultiply(coef, factor);
+    });
+  });
+  return result;
+}
+
+function qrInterleaveWithEcc(
+  data: number[],
+  version: number,
+  level: QrErrorCorrectionLevel
+): number[] {
+  const numBlocks = QR_ERROR_CORRECTION_BLOCKS[level][version]!;
+  const blockEccLen = QR_ECC_CODEWORDS_PER_BLOCK[level][version]!;
+  const rawCodewords = Math.floor(qrRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i += 1) {
+    const block = data.slice(
+      offset,
+      offset + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1)
+    );
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0]!.length; i += 1) {
+    blocks.forEach((block, j) => {
+      // Los bloques cortos llevan un relleno que no se transmite.
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]!);
+      }
+    });
+  }
+  return result;
+}
+
+function qrMaskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/** Arma la matriz QR (versiones 1-40) eligiendo la versión más pequeña que alcance. */
+export function encodeQrCode(
+  value: string,
+  options?: { errorCorrection?: QrErrorCorrectionLevel; mask?: number }
+): QrCodeMatrix {
+  const level = options?.errorCorrection ?? "M";
+  const segment = buildQrSegment(value ?? "");
+
+  let version = 1;
+  for (; ; version += 1) {
+    const usedBits = 4 + qrCharCountBits(segment, version) + segment.bits.length;
+    const fitsCount = segment.charCount < 2 ** qrCharCountBits(segment, version);
+    if (fitsCount && usedBits <= qrDataCodewords(version, level) * 8) break;
+    if (version >= 40) {
+      throw new Error("El contenido es demasiado largo para un código QR.");
+    }
+  }
+
+  const capacityBits = qrDataCodewords(version, level) * 8;
+  const bits: number[] = [];
+  appendBits(bits, segment.modeBits, 4);
+  appendBits(bits, segment.charCount, qrCharCountBits(segment, version));
+  bits.push(...segment.bits);
+  appendBits(bits, 0, Math.min(4, capacityBits - bits.length));
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(bits, pad, 8);
+  }
+  const dataCodewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    dataCodewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  const codewords = qrInterleaveWithEcc(dataCodewords, version, level);
+
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y]![x] = dark;
+    isFunction[y]![x] = true;
+  };
+
+  for (let i = 0; i < size; i += 1) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  const drawFinder = (cx: number, cy: number) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunction(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  };
+  drawFinder(3, 3);
+  drawFinder(size - 4, 3);
+  drawFinder(3, size - 4);
+
+  if (version > 1) {
+    const numAlign = Math.floor(version / 7) + 2;
+    const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+    const positions = [6];
+    for (let pos = size - 7; positions.length < numAlign; pos -= step) {
+      positions.splice(1, 0, pos);
+    }
+    positions.forEach((px, i) => {
+      positions.forEach((py, j) => {
+        const overlapsFinder =
+          (i === 0 && j === 0) ||
+          (i === 0 && j === numAlign - 1) ||
+          (i === numAlign - 1 && j === 0);
+        if (overlapsFinder) return;
+        for (let dy = -2; dy <= 2; dy += 1) {
+          for (let dx = -2; dx <= 2; dx += 1) {
+            setFunction(px + dx, py + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+  }
+
+  const drawFormatBits = (mask: number) => {
+    const data = (QR_FORMAT_BITS[level] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i += 1) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const formatBits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (index: number) => ((formatBits >>> index) & 1) !== 0;
+    for (let i = 0; i <= 5; i += 1) setFunction(8, i, bit(i));
+    setFunction(8, 7, bit(6));
+    setFunction(8, 8, bit(7));
+    setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i += 1) setFunction(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i += 1) setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i += 1) setFunction(8, size - 15 + i, bit(i));
+    setFunction(8, size - 8, true);
+  };
+  drawFormatBits(0);
+
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i += 1) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const versionBits = (version << 12) | rem;
+    for (let i = 0; i < 18; i += 1) {
+      const dark = ((versionBits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert += 1) {
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (isFunction[y]![x] || bitIndex >= codewords.length * 8) continue;
+        modules[y]![x] = ((codewords[bitIndex >>> 3]! >>> (7 - (bitIndex & 7))) & 1) !== 0;
+        bitIndex += 1;
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y += 1) {
+      for (let x = 0; x < size; x += 1) {
+        if (!isFunction[y]![x] && qrMaskApplies(mask, x, y)) {
+          modules[y]![x] = !modules[y]![x];
+        }
+      }
+    }
+  };
+
+  let mask = options?.mask;
+  if (mask === undefined || mask < 0 || mask > 7) {
+    let bestPenalty = Number.POSITIVE_INFINITY;
+    mask = 0;
+    for (let candidate = 0; candidate < 8; candidate += 1) {
+      applyMask(candidate);
+      drawFormatBits(candidate);
+      const penalty = qrPenaltyScore(modules);
+      if (penalty < bestPenalty) {
+        bestPenalty = penalty;
+        mask = candidate;
+      }
+      applyMask(candidate);
+    }
+  }
+  applyMask(mask);
+  drawFormatBits(mask);
+
+  return { version, size, errorCorrection: level, mask, modules };
+}
+
+function qrPenaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let result = 0;
+
+  const addHistory = (runLength: number, history: number[]) => {
+    if (history[0] === 0) runLength += size;
+    history.pop();
+    history.unshift(runLength);
+  };
+  const countFinderLike = (history: number[]) => {
+    const n = history[1]!;
+    const core =
+      n > 0 &&
+      history[2] === n &&
+      history[3] === n * 3 &&
+      history[4] === n &&
+      history[5] === n;
+    return (
+      (core && history[0]! >= n * 4 && history[6]! >= n ? 1 : 0) +
+      (core && history[6]! >= n * 4 && history[0]! >= n ? 1 : 0)
+    );
+  };
+  const scanLine = (read: (index: number) => boolean) => {
+    let runColor = false;
+    let runLength = 0;
+    const history = [0, 0, 0, 0, 0, 0, 0];
+    for (let i = 0; i < size; i += 1) {
+      if (read(i) === runColor) {
+        runLength += 1;
+        if (runLength === 5) result += 3;
+        else if (runLength > 5) result += 1;
+      } else {
+        addHistory(runLength, history);
+        if (!runColor) result += countFinderLike(history) * 40;
+        runColor = read(i);
+        runLength = 1;
+      }
+    }
+    if (runColor) {
+      addHistory(runLength, history);
+      runLength = 0;
+    }
+    addHistory(runLength + size, history);
+    result += countFinderLike(history) * 40;
+  };
+
+  for (let y = 0; y < size; y += 1) scanLine((x) => modules[y]![x]!);
+  for (let x = 0; x < size; x += 1) scanLine((y) => modules[y]![x]!);
+
+  let dark = 0;
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      const color = modules[y]![x]!;
+      if (color) dark += 1;
+      if (
+        y < size - 1 &&
+        x < size - 1 &&
+        color === modules[y]![x + 1] &&
+        color === modules[y + 1]![x] &&
+        color === modules[y + 1]![x + 1]
+      ) {
+        result += 3;
+      }
+    }
+  }
+  const total = size * size;
+  result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return result;
+}
+
+export function generateQrCodeSvg(value: string, options?: QrCodeSvgOptions): string {
+  const moduleSize = options?.moduleSize ?? 4;
+  const quietZone = options?.quietZoneModules ?? 4;
+  const darkColor = options?.darkColor ?? "#000";
+  const lightColor = options?.lightColor === undefined ? "#fff" : options.lightColor;
+  const qr = encodeQrCode(value, { errorCorrection: options?.errorCorrection });
+  const viewSize = qr.size + quietZone * 2;
+  const pixelSize = viewSize * moduleSize;
+
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + quietZone},${y + quietZone}h1v1h-1z`);
+    });
+  });
+  const background = lightColor
+    ? `<rect width="${viewSize}" height="${viewSize}" fill="${lightColor}" />`
+    : "";
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${pixelSize}" height="${pixelSize}" viewBox="0 0 ${viewSize} ${viewSize}" shape-rendering="crispEdges">${background}<path d="${path.join(
+    ""
+  )}" fill="${darkColor}" /></svg>`;
+}
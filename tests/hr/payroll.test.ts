@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { ScheduleShiftRecord } from "../../lib/api/schedule.ts";
+import {
+  nextPayrollDueDate,
+  parsePayrollWeekday,
+  payrollEarningsTotal,
+  payrollPeriodForDue,
+  sumShiftHours,
+  summarizePayrollAdjustments,
+  withCommissionEarning,
+} from "../../lib/hr/payroll.ts";
+
+function shift(id: number, overrides: Partial<ScheduleShiftRecord>): ScheduleShiftRecord {
+  return {
+    id,
+    week_id: 1,
+    employee_id: 7,
+    shift_date: "2026-10-05",
+    break_minutes: 0,
+    is_time_off: false,
+    total_hours: 8,
+    created_at: "2026-10-01T10:00:00Z",
+    updated_at: "2026-10-01T10:00:00Z",
+    ...overrides,
+  };
+}
+
+test("el periodo termina el día del vencimiento según la frecuencia", () => {
+  assert.deepEqual(payrollPeriodForDue("diario", "2026-10-15T00:00:00Z"), {
+    start: "2026-10-15",
+    end: "2026-10-15",
+  });
+  assert.deepEqual(payrollPeriodForDue("semanal", "2026-10-02"), {
+    start: "2026-09-26",
+    end: "2026-10-02",
+  });
+  assert.deepEqual(payrollPeriodForDue("mensual", "2026-10-15"), {
+    start: "2026-09-16",
+    end: "2026-10-15",
+  });
+  assert.deepEqual(payrollPeriodForDue("mensual", "2026-03-31"), {
+    start: "2026-03-01",
+    end: "2026-03-31",
+  });
+});
+
+test("el pago mensual respeta el día del mes y lo ajusta a meses cortos", () => {
+  const monthly = { payroll_frequency: "mensual" as const, payroll_day_of_month: 31 };
+  assert.equal(nextPayrollDueDate(monthly, "2026-01-31"), "2026-02-28");
+  assert.equal(nextPayrollDueDate(monthly, "2026-02-28"), "2026-03-31");
+  assert.equal(nextPayrollDueDate(monthly, "2028-01-31"), "2028-02-29");
+  assert.equal(
+    nextPayrollDueDate({ payroll_frequency: "mensual", payroll_day_of_month: 15 }, "2026-10-03"),
+    "2026-11-15"
+  );
+  assert.equal(nextPayrollDueDate({ payroll_frequency: null }, "2026-12-20"), "2027-01-20");
+  assert.equal(nextPayrollDueDate({ payroll_frequency: "diario" }, "2026-12-31"), "2027-01-01");
+});
+
+test("el pago semanal cae en el día de la semana configurado", () => {
+  // 2026-10-02 es viernes.
+  assert.equal(
+    nextPayrollDueDate({ payroll_frequency: "semanal", payroll_day_of_week: "Viernes" }, "2026-10-02"),
+    "2026-10-09"
+  );
+  assert.equal(
+    nextPayrollDueDate({ payroll_frequency: "semanal", payroll_day_of_week: "sábado" }, "2026-10-02"),
+    "2026-10-03"
+  );
+  assert.equal(
+    nextPayrollDueDate({ payroll_frequency: "semanal", payroll_day_of_week: "lun" }, "2026-10-02"),
+    "2026-10-05"
+  );
+  assert.equal(
+    nextPayrollDueDate({ payroll_frequency: "semanal", payroll_day_of_week: null }, "2026-10-02"),
+    "2026-10-09"
+  );
+  assert.equal(parsePayrollWeekday("Miércoles, cada semana"), 3);
+  assert.equal(parsePayrollWeekday("quincena"), null);
+});
+
+test("suma las horas del empleado dentro del periodo sin contar descansos", () => {
+  const shifts = [
+    shift(1, { total_hours: 8.25 }),
+    shift(2, { shift_date: "2026-10-06T00:00:00", total_hours: 6.5 }),
+    shift(3, { shift_date: "2026-10-07", is_time_off: true }),
+    shift(4, { employee_id: 9 }),
+    shift(5, { shift_date: "2026-10-12" }),
+    shift(6, { shift_date: "2026-10-04" }),
+  ];
+  assert.equal(sumShiftHours(shifts, 7, "2026-10-05", "2026-10-11"), 14.75);
+  assert.equal(sumShiftHours([], 7, "2026-10-05", "2026-10-11"), 0);
+});
+
+test("separa deducciones y anticipos del neto", () => {
+  assert.deepEqual(
+    summarizePayrollAdjustments(1500000, [
+      { kind: "deduction", concept: "Salud", amount: 60000 },
+      { kind: "advance", concept: "Anticipo quincena", amount: 400000 },
+      { kind: "deduction", concept: "Pensión", amount: 60000 },
+    ]),
+    { deductions: 120000, advances: 400000, net: 980000 }
+  );
+  assert.deepEqual(summarizePayrollAdjustments(800000, []), {
+    deductions: 0,
+    advances: 0,
+    net: 800000,
+  });
+});
+
+test("la comisión del mes se suma al bruto y al neto sin duplicarse", () => {
+  const run = {
+    gross_amount: 1_000_000,
+    earnings: [],
+    adjustments: [{ kind: "advance" as const, concept: "Adelanto", amount: 100_000 }],
+  };
+  const first = withCommissionEarning(run, "2026-09", 50_000);
+  assert.equal(first.gross_amount, 1_050_000);
+  assert.equal(first.net_amount, 950_000);
+
+  const again = withCommissionEarning({ ...run, ...first }, "2026-09", 40_000);
+  assert.equal(again.earnings?.length, 1);
+  assert.equal(again.gross_amount, 1_040_000);
+  assert.equal(again.net_amount, 940_000);
+  assert.equal(payrollEarningsTotal(again.earnings), 40_000);
+});
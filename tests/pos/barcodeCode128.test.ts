@@ -0,0 +1,15 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { encodeCode128B, generateCode128TextSvg } from "../../lib/utils/barcode.ts";
+
+test("codifica guías alfanuméricas en Code128 set B con su checksum", () => {
+  assert.deepEqual(encodeCode128B("PJJ123"), [104, 48, 42, 42, 17, 18, 19, 16, 106]);
+});
+
+test("genera el SVG de la guía y escapa el texto visible", () => {
+  const svg = generateCode128TextSvg("AB<1>", { includeTextFontSize: 10 });
+  assert.match(svg, /^<svg/);
+  assert.ok(svg.includes("AB&lt;1&gt;"));
+  assert.ok(!svg.includes("AB<1>"));
+});
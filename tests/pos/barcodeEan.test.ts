@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildInternalEan13,
+  computeGs1CheckDigit,
+  describeInternalPrefixError,
+  describeRetailBarcodeError,
+  generateEan13Svg,
+  generateEan8Svg,
+  generateUpcASvg,
+  nextInternalEan13,
+  validateRetailBarcode,
+} from "../../lib/utils/barcode.ts";
+
+test("calcula el dígito de control GS1 de EAN-13, EAN-8 y UPC-A", () => {
+  assert.equal(computeGs1CheckDigit("590123412345"), 7);
+  assert.equal(computeGs1CheckDigit("9638507"), 4);
+  assert.equal(computeGs1CheckDigit("03600029145"), 2);
+});
+
+test("detecta lecturas erradas solo en códigos con forma de EAN/UPC", () => {
+  assert.deepEqual(validateRetailBarcode("5901234123457"), {
+    format: "ean13",
+    valid: true,
+    expectedCheckDigit: 7,
+  });
+  assert.equal(validateRetailBarcode("5901234123458").valid, false);
+  assert.equal(validateRetailBarcode("036000291452").format, "upca");
+  assert.deepEqual(validateRetailBarcode("000123"), {
+    format: null,
+    valid: true,
+    expectedCheckDigit: null,
+  });
+  assert.match(
+    describeRetailBarcodeError("96385075") ?? "",
+    /EAN-8 válido: el dígito de control debería ser 4/
+  );
+});
+
+test("genera EAN-13 internos con el prefijo de la tienda", () => {
+  assert.equal(buildInternalEan13("29", 1), "2900000000018");
+  assert.equal(
+    nextInternalEan13("29", ["2900000000018", "7702004003508", "000123", null]),
+    "2900000000025"
+  );
+  assert.throws(() => buildInternalEan13("2", 1), /entre 2 y 7 dígitos/);
+  assert.throws(() => buildInternalEan13("2912345", 100000), /No quedan códigos/);
+  assert.throws(() => buildInternalEan13("77", 1), /entre 20 y 29/);
+});
+
+test("solo acepta prefijos internos del rango GS1 20-29", () => {
+  assert.equal(describeInternalPrefixError("20"), null);
+  assert.equal(describeInternalPrefixError("2912"), null);
+  assert.match(describeInternalPrefixError("770") ?? "", /entre 20 y 29/);
+  assert.match(describeInternalPrefixError("2") ?? "", /entre 2 y 7 dígitos/);
+});
+
+test("dibuja los símbolos con el ancho estándar en módulos", () => {
+  const moduleCount = (svg: string) =>
+    Number(/width="([\d.]+)"/.exec(svg)?.[1]) / 2;
+  // 95 módulos + zonas silenciosas de 11/7 (EAN-13), 9/9 (UPC-A) y 7/7 (EAN-8).
+  assert.equal(moduleCount(generateEan13Svg("590123412345")), 113);
+  assert.equal(moduleCount(generateUpcASvg("036000291452")), 113);
+  assert.equal(moduleCount(generateEan8Svg("96385074")), 81);
+  assert.throws(() => generateEan13Svg("5901234123458"), /dígito de control/);
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { encodeQrCode, generateQrCodeSvg } from "../../lib/utils/barcode.ts";
+
+const finderAt = (modules: boolean[][], top: number, left: number) =>
+  [0, 1, 2, 3, 4, 5, 6].every((row) =>
+    [0, 1, 2, 3, 4, 5, 6].every((col) => {
+      const ring = Math.max(Math.abs(row - 3), Math.abs(col - 3));
+      return modules[top + row][left + col] === (ring !== 2);
+    })
+  );
+
+test("elige la versión más pequeña según el nivel de corrección", () => {
+  assert.equal(encodeQrCode("HELLO WORLD", { errorCorrection: "L" }).version, 1);
+  assert.equal(encodeQrCode("https://kensar.com/pedido/1234", { errorCorrection: "L" }).version, 2);
+  assert.equal(encodeQrCode("https://kensar.com/pedido/1234", { errorCorrection: "H" }).version, 4);
+});
+
+test("dibuja los tres patrones de posición y el módulo oscuro fijo", () => {
+  const qr = encodeQrCode("V-000123", { errorCorrection: "Q" });
+  assert.equal(qr.size, qr.version * 4 + 17);
+  assert.ok(finderAt(qr.modules, 0, 0));
+  assert.ok(finderAt(qr.modules, 0, qr.size - 7));
+  assert.ok(finderAt(qr.modules, qr.size - 7, 0));
+  assert.equal(qr.modules[qr.size - 8][8], true);
+});
+
+test("respeta la máscara pedida y calcula una cuando no se indica", () => {
+  assert.equal(encodeQrCode("abono", { mask: 5 }).mask, 5);
+  const auto = encodeQrCode("abono");
+  assert.ok(auto.mask >= 0 && auto.mask <= 7);
+});
+
+test("codifica tildes en UTF-8 y rechaza contenidos demasiado largos", () => {
+  assert.equal(encodeQrCode("Ñandú", { errorCorrection: "L" }).version, 1);
+  assert.throws(() => encodeQrCode("x".repeat(3000), { errorCorrection: "H" }), /demasiado largo/);
+});
+
+test("el SVG incluye la zona silenciosa en el tamaño", () => {
+  const svg = generateQrCodeSvg("V-000123", { moduleSize: 3, quietZoneModules: 4 });
+  const qr = encodeQrCode("V-000123");
+  const side = qr.size + 8;
+  assert.ok(svg.startsWith("<svg"));
+  assert.ok(svg.includes(`viewBox="0 0 ${side} ${side}"`));
+  assert.ok(svg.includes(`width="${side * 3}"`));
+});
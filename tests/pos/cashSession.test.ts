@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildClosureCashSessionTicket,
+  buildClosureDenominationTicket,
+  computeExpectedCash,
+  sumDenominations,
+  summarizeCashMovements,
+} from "../../lib/pos/cashSession.ts";
+
+test("suma el conteo por denominación e ignora cantidades inválidas", () => {
+  assert.equal(sumDenominations({ b50000: 2, b1000: 3, c1000: 2, c500: 1 }), 105500);
+  assert.equal(sumDenominations({ b20000: -1, c200: Number.NaN, otra: 5 }), 0);
+});
+
+test("el efectivo esperado descuenta salidas y consignaciones", () => {
+  const movements = [
+    { kind: "paid_in" as const, amount: 20000 },
+    { kind: "paid_out" as const, amount: 15000 },
+    { kind: "safe_drop" as const, amount: 300000 },
+  ];
+  assert.deepEqual(summarizeCashMovements(movements), {
+    paidIn: 20000,
+    paidOut: 15000,
+    safeDrops: 300000,
+  });
+  assert.equal(
+    computeExpectedCash({ openingFloat: 150000, cashSales: 480000, movements }),
+    335000
+  );
+});
+
+test("los movimientos del ticket de cierre llevan el signo del cajón", () => {
+  const ticket = buildClosureCashSessionTicket({
+    id: 7,
+    status: "open",
+    opened_at: "2026-03-15T13:00:00Z",
+    opened_by_name: "Laura",
+    opening_float: 100000,
+    movements: [
+      {
+        id: 1,
+        session_id: 7,
+        kind: "paid_out",
+        amount: 8000,
+        reason: "Compra de bolsas",
+        created_at: "2026-03-15T16:00:00Z",
+      },
+    ],
+  });
+  assert.equal(ticket.paidOut, 8000);
+  assert.equal(ticket.movements[0].amount, -8000);
+  assert.equal(ticket.movements[0].label, "Salida de efectivo");
+});
+
+test("el conteo del cierre se imprime en orden de denominación", () => {
+  const rows = buildClosureDenominationTicket({ c500: 4, b20000: 3, b1000: 0 });
+  assert.deepEqual(rows, [
+    { label: "Billete $20.000", quantity: 3, subtotal: 60000 },
+    { label: "Moneda $500", quantity: 4, subtotal: 2000 },
+  ]);
+  assert.deepEqual(buildClosureDenominationTicket(null), []);
+});
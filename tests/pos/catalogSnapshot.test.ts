@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildCatalogBarcodeIndex,
+  buildCatalogVersionKey,
+  findStaleCartPrices,
+  mergeCatalogDelta,
+  parseCatalogDelta,
+} from "../../lib/pos/catalogSnapshot.ts";
+
+const product = (
+  id: number,
+  overrides: Partial<{
+    name: string;
+    price: number;
+    active: boolean;
+    barcode: string | null;
+  }> = {}
+) => ({
+  id,
+  name: overrides.name ?? `Producto ${id}`,
+  price: overrides.price ?? 1000,
+  active: overrides.active ?? true,
+  sku: `SKU-${id}`,
+  barcode: overrides.barcode ?? null,
+});
+
+test("la versión del catálogo combina fecha y conteos", () => {
+  assert.equal(
+    buildCatalogVersionKey({
+      updated_at: "2026-03-01T10:00:00Z",
+      products_count: 120,
+      groups_count: 8,
+    }),
+    "2026-03-01T10:00:00Z|120:8"
+  );
+  assert.equal(buildCatalogVersionKey({}), "|:");
+});
+
+test("el delta reemplaza productos modificados y agrega los nuevos", () => {
+  const merged = mergeCatalogDelta(
+    [product(1), product(2, { price: 5000 })],
+    [product(2, { price: 5500 }), product(3)]
+  );
+
+  assert.deepEqual(
+    merged.map((item) => [item.id, item.price]),
+    [
+      [1, 1000],
+      [2, 5500],
+      [3, 1000],
+    ]
+  );
+});
+
+test("el delta quita del catálogo local los productos eliminados en el servidor", () => {
+  const delta = parseCatalogDelta<ReturnType<typeof product>>({
+    products: [product(3)],
+    removed_ids: [2, "4", 9],
+  });
+  assert.deepEqual(delta.removedIds, [2, 9]);
+  const merged = mergeCatalogDelta(
+    [product(1), product(2), product(4, { active: false })],
+    delta.products,
+    delta.removedIds
+  );
+  assert.deepEqual(
+    merged.map((item) => item.id),
+    [1, 4, 3]
+  );
+  assert.deepEqual(parseCatalogDelta(null), { products: [], removedIds: [] });
+});
+
+test("el índice de códigos de barras ignora productos inactivos", () => {
+  const index = buildCatalogBarcodeIndex([
+    product(1, { barcode: "7701234567890", active: false }),
+    product(2, { barcode: " 7701234567890 " }),
+    product(3, { barcode: null }),
+  ]);
+
+  assert.equal(index.size, 1);
+  assert.equal(index.get("7701234567890")?.id, 2);
+});
+
+test("marca como desactualizadas solo las líneas a precio de catálogo", () => {
+  const cart = [
+    { product: product(1, { price: 1000 }), unitPrice: 1000 },
+    { product: product(2, { price: 2000 }), unitPrice: 1800 },
+    { product: product(3, { price: 3000 }), unitPrice: 3000 },
+    { product: product(4, { price: 4000 }), unitPrice: 4000 },
+  ];
+  const stale = findStaleCartPrices(cart, [
+    product(1, { price: 1200 }),
+    product(2, { price: 2500 }),
+    product(3, { price: 3000 }),
+    product(4, { price: 4000, active: false }),
+  ]);
+
+  assert.deepEqual(stale, [
+    { productId: 1, name: "Producto 1", cartPrice: 1000, catalogPrice: 1200 },
+    { productId: 4, name: "Producto 4", cartPrice: 4000, catalogPrice: null },
+  ]);
+});
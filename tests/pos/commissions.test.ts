@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { CommissionRule } from "../../lib/api/commissions.ts";
+import {
+  buildCommissionStatements,
+  commissionPeriodRange,
+  enrichCommissionSales,
+  resolveTierRate,
+  type CommissionSeller,
+} from "../../lib/pos/commissions.ts";
+
+function rule(id: number, overrides: Partial<CommissionRule>): CommissionRule {
+  return {
+    id,
+    name: `Regla ${id}`,
+    seller_role: null,
+    scope: "all",
+    scope_value: null,
+    tiers: [{ min_amount: 0, rate_percent: 2 }],
+    exclude_discounted: false,
+    exclude_free_sale_items: false,
+    active: true,
+    ...overrides,
+  };
+}
+
+const sellers: CommissionSeller[] = [
+  { name: "Laura", employeeId: 10, role: "Vendedor" },
+  { name: "Andrés", employeeId: 11, role: "Supervisor" },
+];
+
+test("la regla más específica gana y el escalón alcanzado aplica a toda la base", () => {
+  const rules = [
+    rule(1, { tiers: [{ min_amount: 0, rate_percent: 2 }, { min_amount: 1000000, rate_percent: 3 }] }),
+    rule(2, { name: "Parlantes JBL", scope: "brand", scope_value: "JBL", tiers: [{ min_amount: 0, rate_percent: 5 }] }),
+    rule(3, { name: "Audio vendedores", seller_role: "Vendedor", scope: "product_group", scope_value: "Audio" }),
+  ];
+  const [laura] = buildCommissionStatements(
+    [
+      {
+        id: 1,
+        total: 1200000,
+        vendor_name: "Laura",
+        items: [
+          { product_id: 1, quantity: 1, unit_price: 200000, product_brand: "jbl", product_group: "Audio / Parlantes" },
+          { product_id: 2, quantity: 1, unit_price: 1000000, product_group: "Computo" },
+        ],
+      },
+    ],
+    rules,
+    sellers
+  );
+  assert.equal(laura.employeeId, 10);
+  assert.deepEqual(
+    laura.lines.map((line) => [line.rule_name, line.base, line.rate_percent, line.amount]),
+    [
+      ["Parlantes JBL", 200000, 5, 10000],
+      ["Regla 1", 1000000, 3, 30000],
+    ]
+  );
+  assert.equal(laura.payable, 40000);
+  assert.equal(resolveTierRate([{ min_amount: 0, rate_percent: 2 }], -1), 0);
+});
+
+test("descuenta devoluciones y excluye ventas con descuento o venta libre", () => {
+  const rules = [rule(1, { exclude_discounted: true, exclude_free_sale_items: true })];
+  const statements = buildCommissionStatements(
+    [
+      {
+        id: 1,
+        total: 300000,
+        vendor_name: "Laura",
+        items: [
+          { product_id: 1, quantity: 2, unit_price: 100000, seller_name: "Andrés" },
+          { product_id: 2, quantity: 1, unit_price: 50000 },
+          { product_id: 3, quantity: 1, unit_price: 50000, product_name: "Venta libre" },
+        ],
+        returns: [
+          { status: "confirmed", items: [{ product_id: 1, quantity: 1 }] },
+          { status: "confirmed", voided_at: "2026-10-05T10:00:00Z", items: [{ product_id: 2, quantity: 1 }] },
+        ],
+      },
+      {
+        id: 2,
+        total: 90000,
+        vendor_name: "Laura",
+        cart_discount_percent: 10,
+        items: [{ product_id: 2, quantity: 1, unit_price: 100000 }],
+      },
+      { id: 3, total: 500000, vendor_name: "Laura", voided_at: "2026-10-06T10:00:00Z", items: [{ total: 500000 }] },
+    ],
+    rules,
+    sellers
+  );
+  const andres = statements.find((item) => item.sellerName === "Andrés");
+  const laura = statements.find((item) => item.sellerName === "Laura");
+  assert.deepEqual(
+    [andres?.grossBase, andres?.returnedBase, andres?.payable],
+    [200000, 100000, 2000]
+  );
+  assert.deepEqual(
+    [laura?.grossBase, laura?.excludedBase, laura?.payable],
+    [190000, 140000, 1000]
+  );
+});
+
+test("las devoluciones descuentan en el mes en que se hicieron", () => {
+  const window = { from: "2026-10-01T05:00:00", to: "2026-11-01T05:00:00" };
+  const statements = buildCommissionStatements(
+    [
+      {
+        id: 1,
+        created_at: "2026-09-20T15:00:00",
+        total: 300000,
+        vendor_name: "Laura",
+        items: [{ product_id: 1, quantity: 3, unit_price: 100000 }],
+        returns: [
+          { created_at: "2026-09-25T15:00:00", status: "confirmed", items: [{ product_id: 1, quantity: 1 }] },
+          { created_at: "2026-10-03T15:00:00", status: "confirmed", items: [{ product_id: 1, quantity: 1 }] },
+        ],
+      },
+      {
+        id: 2,
+        created_at: "2026-10-10T15:00:00",
+        total: 500000,
+        vendor_name: "Laura",
+        items: [{ product_id: 2, quantity: 1, unit_price: 500000 }],
+        returns: [
+          { created_at: "2026-11-02T15:00:00", status: "confirmed", items: [{ product_id: 2, quantity: 1 }] },
+        ],
+      },
+      {
+        id: 3,
+        created_at: "2026-09-21T15:00:00",
+        total: 80000,
+        vendor_name: "Andrés",
+        items: [{ product_id: 3, quantity: 1, unit_price: 80000 }],
+      },
+    ],
+    [rule(1, {})],
+    sellers,
+    { window }
+  );
+  const laura = statements.find((item) => item.sellerName === "Laura");
+  assert.deepEqual(
+    [laura?.grossBase, laura?.returnedBase, laura?.lines[0]?.base, laura?.payable],
+    [500000, 100000, 400000, 8000]
+  );
+  assert.equal(statements.some((item) => item.sellerName === "Andrés"), false);
+});
+
+test("las reglas por marca usan la marca del catálogo si la venta no la trae", () => {
+  const sales = enrichCommissionSales(
+    [
+      {
+        id: 1,
+        total: 300000,
+        vendor_name: "Laura",
+        items: [
+          { product_id: 1, quantity: 1, unit_price: 200000 },
+          { product_id: 2, quantity: 1, unit_price: 100000, product_brand: "Sony" },
+        ],
+      },
+    ],
+    [
+      { id: 1, brand: "JBL", group_name: "Audio/Parlantes" },
+      { id: 2, brand: "JBL", group_name: "Audio" },
+    ]
+  );
+  assert.deepEqual(
+    sales[0].items?.map((item) => [item.product_brand, item.product_group]),
+    [
+      ["JBL", "Audio/Parlantes"],
+      ["Sony", "Audio"],
+    ]
+  );
+  const [laura] = buildCommissionStatements(
+    sales,
+    [rule(1, {}), rule(2, { name: "JBL", scope: "brand", scope_value: "jbl", tiers: [{ min_amount: 0, rate_percent: 5 }] })],
+    sellers
+  );
+  assert.deepEqual(
+    laura.lines.map((line) => [line.rule_name, line.base]),
+    [
+      ["JBL", 200000],
+      ["Regla 1", 100000],
+    ]
+  );
+});
+
+test("el periodo mensual cubre del primer al último día", () => {
+  assert.deepEqual(commissionPeriodRange("2026-02"), {
+    fromKey: "2026-02-01",
+    toKey: "2026-02-28",
+  });
+  assert.equal(commissionPeriodRange("2026-13"), null);
+});
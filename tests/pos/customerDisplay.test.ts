@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  buildCustomerDisplayState,
+  hasPairedCustomerDisplay,
+  isCustomerDisplayMessage,
+  isNewerCustomerDisplayState,
+} from "../../lib/pos/customerDisplay.ts";
+
+const now = new Date("2026-03-15T15:00:00Z");
+
+test("la pantalla recibe líneas con descuentos y recargo ya calculados", () => {
+  const state = buildCustomerDisplayState({
+    saleNumber: 120,
+    cart: [
+      { id: 1, product: { name: "Cable XLR" }, quantity: 2, unitPrice: 25000, lineDiscountValue: 0 },
+      { id: 2, product: { name: "Atril" }, quantity: 1, unitPrice: 80000, lineDiscountValue: 5000 },
+    ],
+    promotionDiscounts: { 1: 5000 },
+    cartDiscountValue: 0,
+    cartDiscountPercent: 10,
+    surcharge: { enabled: true, amount: 3000, method: "addi" },
+    total: 111000,
+    now,
+  });
+  assert.deepEqual(
+    state.lines.map((line) => [line.name, line.discount, line.total]),
+    [
+      ["Cable XLR", 5000, 45000],
+      ["Atril", 5000, 75000],
+    ]
+  );
+  assert.equal(state.subtotal, 130000);
+  assert.equal(state.discount, 22000);
+  assert.equal(state.surchargeLabel, "Recargo Addi");
+  assert.equal(state.updatedAt, now.toISOString());
+});
+
+test("solo se aceptan mensajes conocidos del canal", () => {
+  assert.equal(isCustomerDisplayMessage({ type: "request-state" }), true);
+  assert.equal(isCustomerDisplayMessage({ type: "state" }), false);
+  assert.equal(isCustomerDisplayMessage("hola"), false);
+});
+
+test("el estado repetido por el canal y por el backend se pinta una sola vez", () => {
+  const build = (at: string) =>
+    buildCustomerDisplayState({
+      saleNumber: 121,
+      cart: [],
+      promotionDiscounts: {},
+      cartDiscountValue: 0,
+      cartDiscountPercent: 0,
+      surcharge: { enabled: false, amount: 0, method: null },
+      total: 0,
+      now: new Date(at),
+    });
+  const first = build("2026-03-15T15:00:00Z");
+  assert.equal(isNewerCustomerDisplayState(null, first), true);
+  assert.equal(isNewerCustomerDisplayState(first.updatedAt, first), false);
+  assert.equal(isNewerCustomerDisplayState(first.updatedAt, build("2026-03-15T15:00:01Z")), true);
+  assert.equal(isNewerCustomerDisplayState(first.updatedAt, build("2026-03-15T14:59:59Z")), false);
+});
+
+test("solo la estación principal con tableta publica su carrito en el backend", () => {
+  const scope = {
+    primary_station_id: "caja-1",
+    station_ids: ["caja-1", "tablet-1"],
+    stations: [
+      { station_id: "caja-1", station_label: "Caja 1", station_type: "desktop" as const, is_primary: true },
+      { station_id: "tablet-1", station_label: "Tablet", station_type: "tablet" as const, is_primary: false },
+    ],
+  };
+  assert.equal(hasPairedCustomerDisplay(scope, "caja-1"), true);
+  assert.equal(hasPairedCustomerDisplay(scope, "tablet-1"), false);
+  assert.equal(
+    hasPairedCustomerDisplay(
+      { ...scope, station_ids: ["caja-1"], stations: [scope.stations[0]] },
+      "caja-1"
+    ),
+    false
+  );
+  assert.equal(hasPairedCustomerDisplay(null, "caja-1"), false);
+});
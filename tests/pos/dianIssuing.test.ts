@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type {
+  DianDocumentRecord,
+  DianDocumentSubmission,
+} from "../../lib/api/electronicInvoices.ts";
+import {
+  describeDianDocumentStatus,
+  issueDianCreditNoteForReturn,
+  issueDianDocumentsForChange,
+  type DianIssuingGateway,
+} from "../../lib/invoicing/dianIssuing.ts";
+import type { DianInvoicingConfig } from "../../lib/invoicing/dianUbl.ts";
+
+const config: DianInvoicingConfig = {
+  issuer: { nit: "700085371", name: "Kensar SAS", address: "Calle 10 # 5-20" },
+  settings: {
+    environment: "testing",
+    resolution_number: "18760000001",
+    prefix: "FE",
+    range_from: 1,
+    range_to: 5000,
+    valid_from: "2019-01-01",
+    valid_to: "2030-01-01",
+    technical_key: "693ff6f2a553c3646a063436fd4dd9ded0311471",
+    software_id: "56f2ae4e-9812-4fad-9255-643406e4d2a9",
+    software_pin: "12345",
+    default_tax_rate: 19,
+    prices_include_tax: true,
+    tax_scheme: "01",
+    tax_responsibilities: ["O-13"],
+    credit_note_prefix: "NC",
+  },
+};
+
+const customer = { name: "Cliente Ejemplo", taxId: "800199436", address: "Cra 7 # 1-1" };
+
+function validatedInvoice(overrides: Partial<DianDocumentRecord> = {}): DianDocumentRecord {
+  return {
+    id: 1,
+    kind: "invoice",
+    source_type: "sale",
+    source_id: 40,
+    consecutive: 120,
+    number: "FE120",
+    uuid: "cufe-original",
+    issue_date: "2026-10-01",
+    status: "validated",
+    customer,
+    ...overrides,
+  };
+}
+
+function mockGateway(records: DianDocumentRecord[]) {
+  const submissions: DianDocumentSubmission[] = [];
+  let nextConsecutive = 7;
+  const gateway: DianIssuingGateway = {
+    find: async (sourceType, sourceId, kind) =>
+      records.find(
+        (record) =>
+          record.source_type === sourceType && record.source_id === sourceId && record.kind === kind
+      ) ?? null,
+    reserveConsecutive: async () => nextConsecutive++,
+    submit: async (input) => {
+      submissions.push(input);
+      const record: DianDocumentRecord = {
+        id: records.length + 1,
+        kind: input.kind,
+        source_type: input.source_type,
+        source_id: input.source_id,
+        consecutive: input.consecutive,
+        number: input.number,
+        uuid: input.uuid,
+        issue_date: input.issue_date,
+        status: "pending",
+        customer: input.customer,
+      };
+      records.push(record);
+      return record;
+    },
+  };
+  return { gateway, submissions };
+}
+
+const returnOptions = {
+  documentNumber: "DV-000010",
+  createdAt: "2026-10-02T15:00:00Z",
+  items: [
+    { name: "Cable HDMI", quantity: 1, unitPrice: 10500, total: 10500, taxRate: "5" as const },
+  ],
+  payments: [],
+  totalRefund: 10500,
+};
+
+test("la nota crédito referencia la factura validada y conserva la tarifa del producto", async () => {
+  const { gateway, submissions } = mockGateway([validatedInvoice()]);
+  const record = await issueDianCreditNoteForReturn(gateway, config, {
+    returnId: 10,
+    saleId: 40,
+    options: returnOptions,
+  });
+  assert.equal(record?.number, "NC7");
+  assert.equal(submissions.length, 1);
+  const [submission] = submissions;
+  assert.equal(submission.kind, "credit-note");
+  assert.deepEqual(submission.customer, customer);
+  assert.ok(submission.xml.includes("<cbc:ID>FE120</cbc:ID>"));
+  assert.ok(submission.xml.includes("<cbc:UUID schemeName=\"CUFE-SHA384\">cufe-original</cbc:UUID>"));
+  assert.ok(submission.xml.includes("<cbc:Percent>5.00</cbc:Percent>"));
+});
+
+test("sin factura electrónica validada no se emite nota crédito", async () => {
+  const { gateway, submissions } = mockGateway([validatedInvoice({ status: "pending" })]);
+  const record = await issueDianCreditNoteForReturn(gateway, config, {
+    returnId: 10,
+    saleId: 40,
+    options: returnOptions,
+  });
+  assert.equal(record, null);
+  assert.equal(submissions.length, 0);
+});
+
+test("no reenvía documentos ya registrados, salvo los rechazados", async () => {
+  const existing: DianDocumentRecord = {
+    ...validatedInvoice(),
+    id: 2,
+    kind: "credit-note",
+    source_type: "return",
+    source_id: 10,
+    number: "NC3",
+    status: "pending",
+  };
+  const { gateway, submissions } = mockGateway([validatedInvoice(), existing]);
+  const record = await issueDianCreditNoteForReturn(gateway, config, {
+    returnId: 10,
+    saleId: 40,
+    options: returnOptions,
+  });
+  assert.equal(record, existing);
+  assert.equal(submissions.length, 0);
+
+  existing.status = "rejected";
+  await issueDianCreditNoteForReturn(gateway, config, {
+    returnId: 10,
+    saleId: 40,
+    options: returnOptions,
+  });
+  assert.equal(submissions.length, 1);
+});
+
+test("un cambio emite nota crédito y factura con consecutivos distintos", async () => {
+  const { gateway, submissions } = mockGateway([validatedInvoice()]);
+  const documents = await issueDianDocumentsForChange(gateway, config, {
+    changeId: 5,
+    saleId: 40,
+    options: {
+      documentNumber: "CB-000005",
+      createdAt: "2026-10-02T15:00:00Z",
+      itemsReturned: [
+        { name: "Cable HDMI", quantity: 1, unitPrice: 11900, total: 11900, taxRate: "19" },
+      ],
+      itemsNew: [
+        { name: "Arroz", quantity: 1, unitPrice: 5000, total: 5000, taxRate: "exempt" },
+      ],
+      payments: [],
+      totalCredit: 11900,
+      totalNew: 5000,
+      extraPayment: 0,
+      refundDue: 6900,
+    },
+  });
+  assert.equal(documents.creditNote?.number, "NC7");
+  assert.equal(documents.invoice?.number, "FE8");
+  assert.deepEqual(
+    submissions.map((submission) => submission.kind),
+    ["credit-note", "invoice"]
+  );
+  assert.ok(submissions[1].xml.includes("<cbc:Percent>0.00</cbc:Percent>"));
+  assert.equal(describeDianDocumentStatus(documents.invoice!).tone, "warning");
+});
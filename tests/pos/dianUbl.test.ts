@@ -0,0 +1,212 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  DianValidationError,
+  buildDianCreditNote,
+  buildDianInvoice,
+  computeNitCheckDigit,
+  dianInvoiceDraftFromSale,
+  parseDianTaxId,
+  validateDianCustomer,
+  type DianInvoicingConfig,
+} from "../../lib/invoicing/dianUbl.ts";
+
+const config: DianInvoicingConfig = {
+  issuer: { nit: "700085371", name: "Kensar SAS", address: "Calle 10 # 5-20" },
+  settings: {
+    environment: "production",
+    resolution_number: "18760000001",
+    prefix: "",
+    range_from: 1,
+    range_to: 999999999999,
+    valid_from: "2019-01-01",
+    valid_to: "2030-01-01",
+    technical_key: "693ff6f2a553c3646a063436fd4dd9ded0311471",
+    software_id: "56f2ae4e-9812-4fad-9255-643406e4d2a9",
+    software_pin: "12345",
+    default_tax_rate: 19,
+    prices_include_tax: true,
+    tax_scheme: "01",
+    tax_responsibilities: ["O-13", "O-15"],
+    credit_note_prefix: "NC",
+  },
+};
+
+const customer = { name: "Cliente Ejemplo", taxId: "800199436", address: "Cra 7 # 1-1" };
+
+test("calcula el dígito de verificación del NIT", () => {
+  assert.equal(computeNitCheckDigit("800197268"), 4);
+  assert.deepEqual(parseDianTaxId("900.123.456-8"), {
+    idType: "31",
+    idNumber: "900123456",
+    dv: "8",
+  });
+  assert.equal(parseDianTaxId("1020304050").idType, "13");
+});
+
+test("exige documento y dirección del cliente", () => {
+  assert.deepEqual(validateDianCustomer(null), []);
+  assert.deepEqual(validateDianCustomer({ name: "Ana" }), [
+    "Falta el NIT o documento del cliente.",
+    "Falta la dirección del cliente.",
+  ]);
+  assert.match(
+    validateDianCustomer({ name: "Ana SAS", taxId: "800197268-1", address: "Calle 1" })[0] ?? "",
+    /debería ser 4/
+  );
+});
+
+test("el CUFE coincide con el ejemplo del anexo técnico", async () => {
+  const invoice = await buildDianInvoice(
+    {
+      consecutive: "323200000129",
+      issuedAt: new Date("2019-01-16T15:53:10Z"),
+      customer,
+      lines: [{ description: "Producto", quantity: 1, total: 1785000 }],
+      paymentMeans: "10",
+    },
+    config
+  );
+  assert.equal(
+    invoice.uuid,
+    "8bb918b19ba22a694f1da11c643b5e9de39adf60311cf179179e9b33381030bcd4c3c3f156c506ed5908f9276f5bd9b4"
+  );
+  assert.equal(invoice.issueTime, "10:53:10-05:00");
+  assert.equal(invoice.totals.lineExtension, 1500000);
+  assert.equal(invoice.totals.tax, 285000);
+  assert.ok(invoice.xml.includes('<cbc:UUID schemeID="1" schemeName="CUFE-SHA384">'));
+  assert.ok(invoice.xml.includes('<cbc:PayableAmount currencyID="COP">1785000.00</cbc:PayableAmount>'));
+  assert.ok(invoice.qrPayload.includes(`documentkey=${invoice.uuid}`));
+});
+
+test("el emisor declara su régimen real y el adquiriente sin datos queda como no responsable", async () => {
+  const invoice = await buildDianInvoice(
+    {
+      consecutive: 10,
+      issuedAt: new Date("2024-05-02T17:00:00Z"),
+      customer: null,
+      lines: [{ description: "Producto", quantity: 1, total: 11900 }],
+      paymentMeans: "10",
+    },
+    config
+  );
+  const [supplier, buyer] = invoice.xml
+    .split("<cac:AccountingCustomerParty>")
+    .map((part) => part.slice(part.indexOf("<cac:PartyTaxScheme>")));
+  assert.ok(supplier.includes('<cbc:TaxLevelCode listName="48">O-13;O-15</cbc:TaxLevelCode>'));
+  assert.ok(supplier.includes("<cbc:ID>01</cbc:ID><cbc:Name>IVA</cbc:Name>"));
+  assert.ok(buyer.includes('<cbc:TaxLevelCode listName="48">R-99-PN</cbc:TaxLevelCode>'));
+  assert.ok(buyer.includes("<cbc:ID>ZZ</cbc:ID>"));
+  const dv = computeNitCheckDigit("700085371");
+  assert.ok(invoice.xml.includes(`schemeID="${dv}" schemeName="31">700085371</sts:ProviderID>`));
+});
+
+test("el total a pagar es lo cobrado aunque el precio no traiga el IVA", async () => {
+  const draft = dianInvoiceDraftFromSale(
+    {
+      documentNumber: "V-000120",
+      saleNumber: 120,
+      date: new Date("2026-10-02T15:00:00Z"),
+      subtotal: 100000,
+      lineDiscountTotal: 0,
+      cartDiscountLabel: "",
+      cartDiscountValueDisplay: "",
+      total: 100000,
+      items: [
+        { name: "Parlante", quantity: 1, unitPrice: 100000, total: 100000, taxRate: "19", taxIncluded: false },
+      ],
+      payments: [{ label: "Efectivo", amount: 100000 }],
+    },
+    11
+  );
+  const invoice = await buildDianInvoice(draft, {
+    ...config,
+    settings: { ...config.settings, prices_include_tax: false },
+  });
+  assert.equal(invoice.totals.payable, 100000);
+  assert.equal(invoice.totals.tax, 15966.39);
+  assert.ok(invoice.xml.includes('<cbc:PayableAmount currencyID="COP">100000.00</cbc:PayableAmount>'));
+  assert.ok(invoice.qrPayload.includes("ValTolFac: 100000.00"));
+});
+
+test("no emite sin las responsabilidades fiscales de la empresa", async () => {
+  await assert.rejects(
+    buildDianInvoice(
+      {
+        consecutive: 10,
+        issuedAt: new Date(),
+        customer: null,
+        lines: [{ description: "Producto", quantity: 1, total: 1000 }],
+        paymentMeans: "10",
+      },
+      { ...config, settings: { ...config.settings, tax_responsibilities: [] } }
+    ),
+    (err: unknown) =>
+      err instanceof DianValidationError && err.issues.some((issue) => /responsabilidades/.test(issue))
+  );
+});
+
+test("la nota crédito referencia la factura y usa CUDE", async () => {
+  const note = await buildDianCreditNote(
+    {
+      consecutive: 15,
+      issuedAt: new Date("2024-05-02T17:00:00Z"),
+      customer: null,
+      lines: [{ description: "Cable", quantity: 1, total: 11900 }],
+      reference: { number: "FE10", cufe: "abc", issueDate: "2024-05-01" },
+      reason: "1",
+      reasonDescription: "Devolución",
+    },
+    config
+  );
+  assert.equal(note.kind, "credit-note");
+  assert.ok(note.xml.includes("<CreditNote "));
+  assert.ok(note.xml.includes('schemeName="CUDE-SHA384"'));
+  assert.ok(note.xml.includes("<cbc:ReferenceID>FE10</cbc:ReferenceID>"));
+  assert.ok(note.xml.includes("222222222222"));
+  assert.equal(note.number, "NC15");
+});
+
+test("las notas crédito llevan su propia numeración", async () => {
+  const draft = {
+    consecutive: 3,
+    issuedAt: new Date("2024-05-02T17:00:00Z"),
+    customer: null,
+    lines: [{ description: "Cable", quantity: 1, total: 11900 }],
+    reference: { number: "FE150", cufe: "abc", issueDate: "2024-05-01" },
+    reason: "1" as const,
+    reasonDescription: "Devolución",
+  };
+  const withInvoiceRange = {
+    ...config,
+    settings: { ...config.settings, prefix: "FE", range_from: 100, range_to: 200 },
+  };
+  const note = await buildDianCreditNote(draft, withInvoiceRange);
+  assert.equal(note.number, "NC3");
+  await assert.rejects(
+    buildDianCreditNote(draft, {
+      ...withInvoiceRange,
+      settings: { ...withInvoiceRange.settings, credit_note_prefix: "" },
+    }),
+    (err: unknown) =>
+      err instanceof DianValidationError && err.issues.some((issue) => /prefijo de las notas/.test(issue))
+  );
+});
+
+test("rechaza consecutivos fuera del rango autorizado", async () => {
+  await assert.rejects(
+    buildDianInvoice(
+      {
+        consecutive: 5,
+        issuedAt: new Date(),
+        customer,
+        lines: [{ description: "Producto", quantity: 1, total: 1000 }],
+        paymentMeans: "10",
+      },
+      { ...config, settings: { ...config.settings, range_from: 100, range_to: 200 } }
+    ),
+    (err: unknown) =>
+      err instanceof DianValidationError && /fuera del rango/.test(err.issues[0] ?? "")
+  );
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  ESC_POS_COLUMNS,
+  createEscPosEncoder,
+  encodeEscPosText,
+  rasterizeMonochrome,
+  wrapEscPosText,
+} from "../../lib/printing/escPos.ts";
+
+const decodeLines = (bytes: Uint8Array) =>
+  Array.from(bytes)
+    .map((code) => String.fromCharCode(code))
+    .join("")
+    .split("\n");
+
+test("codifica tildes y eñes en CP858", () => {
+  assert.deepEqual(encodeEscPosText("Ñandú"), [0xa5, 0x61, 0x6e, 0x64, 0xa3]);
+  assert.deepEqual(encodeEscPosText("ĉ"), [0x63]);
+  assert.deepEqual(encodeEscPosText("✓"), [0x3f]);
+});
+
+test("las columnas cuadran al ancho del rollo", () => {
+  const encoder = createEscPosEncoder("58mm");
+  encoder.columnsRow("Subtotal", "$ 12.000");
+  const [line] = decodeLines(encoder.encode());
+  assert.equal(line.length, ESC_POS_COLUMNS["58mm"]);
+  assert.ok(line.startsWith("Subtotal"));
+  assert.ok(line.endsWith("$ 12.000"));
+});
+
+test("en doble ancho las columnas se reducen a la mitad", () => {
+  const encoder = createEscPosEncoder("80mm");
+  encoder.size("double");
+  assert.equal(encoder.columns, 24);
+  encoder.size("normal");
+  assert.equal(encoder.columns, 48);
+});
+
+test("parte textos largos respetando palabras y sangría", () => {
+  assert.deepEqual(wrapEscPosText("Cable HDMI 2.1 de alta velocidad", 12), [
+    "Cable HDMI",
+    "2.1 de alta",
+    "velocidad",
+  ]);
+  assert.deepEqual(wrapEscPosText("  2 x $ 10.000", 20), ["  2 x $ 10.000"]);
+});
+
+test("el Code 128 usa el juego B con su longitud", () => {
+  const bytes = Array.from(createEscPosEncoder("80mm").barcode128("000123").encode());
+  const start = bytes.indexOf(0x6b);
+  assert.deepEqual(bytes.slice(start - 1, start + 5), [0x1d, 0x6b, 73, 8, 0x7b, 0x42]);
+});
+
+test("el Code 128 duplica las llaves y rechaza datos de más de 255 bytes", () => {
+  const bytes = Array.from(createEscPosEncoder("80mm").barcode128("A{1").encode());
+  const start = bytes.indexOf(0x6b);
+  assert.deepEqual(
+    bytes.slice(start - 1, start + 9),
+    [0x1d, 0x6b, 73, 6, 0x7b, 0x42, 0x41, 0x7b, 0x7b, 0x31]
+  );
+  assert.throws(() => createEscPosEncoder("80mm").barcode128("{".repeat(127)));
+  assert.doesNotThrow(() => createEscPosEncoder("80mm").barcode128("9".repeat(253)));
+});
+
+test("el QR declara el nivel de corrección y la longitud de los datos", () => {
+  const bytes = Array.from(
+    createEscPosEncoder("80mm").qrCode("ABC", { errorLevel: "H" }).encode()
+  );
+  const joined = bytes.join(",");
+  assert.ok(joined.includes([0x31, 0x45, 51].join(",")));
+  assert.ok(joined.includes([0x6b, 6, 0, 0x31, 0x50, 0x30, 65, 66, 67].join(",")));
+});
+
+test("convierte píxeles a raster de 1 bit y trata la transparencia como papel", () => {
+  const rgba = [
+    0, 0, 0, 255,
+    255, 255, 255, 255,
+    0, 0, 0, 0,
+    10, 10, 10, 255,
+  ];
+  const raster = rasterizeMonochrome(rgba, 4, 1);
+  assert.equal(raster.bytesPerRow, 1);
+  assert.deepEqual(Array.from(raster.data), [0b10010000]);
+});
+
+test("el corte parcial alimenta papel antes de cortar", () => {
+  const bytes = Array.from(createEscPosEncoder("80mm").cut({ partial: true }).encode());
+  assert.deepEqual(bytes, [0x1d, 0x56, 66, 3]);
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  HELD_SALES_LIMIT,
+  HeldSalesLimitError,
+  defaultHeldSaleLabel,
+  holdSale,
+  latestHeldSale,
+  mergeSharedHeldSales,
+  parseStoredHeldSales,
+  removeHeldSale,
+  type HeldSale,
+} from "../../lib/pos/heldSales.ts";
+
+type Snapshot = { cart: string[] };
+
+function park(
+  existing: HeldSale<Snapshot>[],
+  saleNumber: number,
+  options: { customerName?: string | null; minute?: number } = {}
+) {
+  return holdSale(existing, {
+    customerName: options.customerName ?? null,
+    saleNumber,
+    itemCount: 1,
+    total: 10000,
+    snapshot: { cart: [`venta-${saleNumber}`] },
+    now: new Date(Date.UTC(2026, 9, 17, 15, options.minute ?? saleNumber)),
+  });
+}
+
+test("las ventas sin cliente se etiquetan con el primer número libre", () => {
+  let sales = park([], 101);
+  sales = park(sales, 102, { customerName: "Marta Gómez" });
+  sales = park(sales, 103);
+  assert.deepEqual(
+    sales.map((sale) => sale.label),
+    ["Cliente 1", "Marta Gómez", "Cliente 2"]
+  );
+  const withoutFirst = removeHeldSale(sales, sales[0].id);
+  assert.equal(defaultHeldSaleLabel(null, withoutFirst), "Cliente 1");
+});
+
+test("no se aparcan más ventas que el límite", () => {
+  let sales: HeldSale<Snapshot>[] = [];
+  for (let i = 0; i < HELD_SALES_LIMIT; i += 1) {
+    sales = park(sales, 200 + i);
+  }
+  assert.throws(() => park(sales, 300), HeldSalesLimitError);
+});
+
+test("al terminar un cobro se retoma la venta aparcada más reciente", () => {
+  let sales = park([], 101, { minute: 5 });
+  sales = park(sales, 102, { minute: 30 });
+  sales = park(sales, 103, { minute: 10 });
+  assert.equal(latestHeldSale(sales)?.saleNumber, 102);
+  assert.equal(latestHeldSale([]), null);
+});
+
+test("descarta lo guardado que no tiene forma de venta en espera", () => {
+  const stored = JSON.stringify([
+    ...park([], 101),
+    { id: "roto", label: "Sin carrito" },
+  ]);
+  const parsed = parseStoredHeldSales<Snapshot>(stored);
+  assert.equal(parsed.length, 1);
+  assert.equal(parsed[0].shared, false);
+  assert.deepEqual(parseStoredHeldSales(null), []);
+});
+
+test("la sincronización agrega las ventas de la tablet y quita las ya retomadas", () => {
+  const local = park([], 101).map((sale) => ({
+    ...sale,
+    shared: true,
+    syncedAt: "2026-10-17T15:00:00.000Z",
+  }));
+  const pending = park(local, 102).map((sale) =>
+    sale.saleNumber === 102 ? { ...sale, shared: true } : sale
+  );
+  const fromTablet = park([], 150, { customerName: "Andrés", minute: 1 })[0];
+
+  const merged = mergeSharedHeldSales(pending, [fromTablet]);
+  assert.deepEqual(
+    merged.map((sale) => sale.saleNumber),
+    [150, 102]
+  );
+  assert.equal(merged[0].shared, true);
+  assert.ok(merged[0].syncedAt);
+  assert.equal(merged[1].syncedAt, null);
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { PosLoyaltySettings } from "../../lib/api/settings.ts";
+import {
+  LOYALTY_PAYMENT_METHOD,
+  amountToRedeemPoints,
+  computeEarnedPoints,
+  isLoyaltyEnabled,
+  maxRedeemableAmount,
+} from "../../lib/pos/loyalty.ts";
+
+const settings: PosLoyaltySettings = {
+  enabled: true,
+  earn_rates: { cash: 1, card: 2 },
+  point_value: 10,
+  min_redeem_points: 100,
+  expiry_days: 365,
+};
+
+test("acumula según la tarifa de cada método y descuenta el cambio del efectivo", () => {
+  assert.equal(
+    computeEarnedPoints(
+      [
+        { method: "card", amount: 20000 },
+        { method: "cash", amount: 50000 },
+      ],
+      settings,
+      { changeAmount: 5500 }
+    ),
+    84
+  );
+  assert.equal(computeEarnedPoints([{ method: "credito", amount: 80000 }], settings), 0);
+});
+
+test("lo pagado con puntos no acumula y sin programa activo no hay puntos", () => {
+  assert.equal(
+    computeEarnedPoints(
+      [
+        { method: LOYALTY_PAYMENT_METHOD, amount: 10000 },
+        { method: "cash", amount: 10000 },
+      ],
+      settings
+    ),
+    10
+  );
+  assert.equal(
+    computeEarnedPoints([{ method: "cash", amount: 10000 }], { ...settings, enabled: false }),
+    0
+  );
+  assert.equal(isLoyaltyEnabled({ ...settings, point_value: 0 }), false);
+  assert.equal(isLoyaltyEnabled(null), false);
+});
+
+test("la redención respeta el mínimo, el saldo y el total de la venta", () => {
+  assert.equal(maxRedeemableAmount(99, 50000, settings), 0);
+  assert.equal(maxRedeemableAmount(500, 50000, settings), 5000);
+  assert.equal(maxRedeemableAmount(10000, 12345, settings), 12340);
+  assert.equal(amountToRedeemPoints(5000, settings), 500);
+  assert.equal(amountToRedeemPoints(5005, settings), null);
+});
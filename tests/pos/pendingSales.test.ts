@@ -5,8 +5,14 @@ import { webcrypto } from "node:crypto";
 import {
   PENDING_SALES_STORAGE_KEY,
   addPendingSale,
+  classifyPendingSaleResponse,
+  computePendingSaleBackoffMs,
   getPendingSales,
+  replayPendingSales,
+  requeuePendingSale,
+  resolvePendingSalesAutoReplayDelay,
   submitPendingSale,
+  type PendingSaleRecord,
 } from "../../lib/pos/pendingSales.ts";
 
 class MemoryStorage {
@@ -48,11 +54,11 @@ beforeEach(() => {
   process.env.NEXT_PUBLIC_API_URL = "https://api.test.local";
 });
 
-test("mantiene las ventas pendientes aisladas por tenant, usuario y caja", () => {
+test("mantiene las ventas pendientes aisladas por tenant, usuario y caja", async () => {
   const firstScope = { tenantId: 1, userId: 10, stationId: "caja-1" };
   const secondScope = { tenantId: 1, userId: 11, stationId: "caja-2" };
 
-  addPendingSale({
+  await addPendingSale({
     endpoint: "/pos/sales",
     payload: { station_id: "caja-1", client_request_id: "sale_scope_0001" },
     scope: firstScope,
@@ -63,7 +69,7 @@ test("mantiene las ventas pendientes aisladas por tenant, usuario y caja", () =>
       isSeparated: false,
     },
   });
-  addPendingSale({
+  await addPendingSale({
     endpoint: "/pos/sales",
     payload: { station_id: "caja-2", client_request_id: "sale_scope_0002" },
     scope: secondScope,
@@ -75,15 +81,17 @@ test("mantiene las ventas pendientes aisladas por tenant, usuario y caja", () =>
     },
   });
 
-  assert.equal(getPendingSales(firstScope).length, 1);
-  assert.equal(getPendingSales(firstScope)[0].summary.saleNumber, 1);
-  assert.equal(getPendingSales(secondScope).length, 1);
-  assert.equal(getPendingSales(secondScope)[0].summary.saleNumber, 2);
+  const firstScopeSales = await getPendingSales(firstScope);
+  const secondScopeSales = await getPendingSales(secondScope);
+  assert.equal(firstScopeSales.length, 1);
+  assert.equal(firstScopeSales[0].summary.saleNumber, 1);
+  assert.equal(secondScopeSales.length, 1);
+  assert.equal(secondScopeSales[0].summary.saleNumber, 2);
 });
 
 test("reserva consecutivo y conserva el mismo código al reenviar una venta", async () => {
   const scope = { tenantId: 1, userId: 10, stationId: "caja-1" };
-  addPendingSale({
+  await addPendingSale({
     endpoint: "/pos/sales",
     payload: {
       station_id: "caja-1",
@@ -98,7 +106,7 @@ test("reserva consecutivo y conserva el mismo código al reenviar una venta", as
       isSeparated: false,
     },
   });
-  const record = getPendingSales(scope)[0];
+  const [record] = await getPendingSales(scope);
   const calls: Array<{ url: string; init?: RequestInit }> = [];
   const originalFetch = globalThis.fetch;
   globalThis.fetch = async (input, init) => {
@@ -135,3 +143,149 @@ test("reserva consecutivo y conserva el mismo código al reenviar una venta", as
     globalThis.fetch = originalFetch;
   }
 });
+
+test("el backoff crece exponencialmente hasta el máximo", () => {
+  assert.equal(computePendingSaleBackoffMs(1), 5_000);
+  assert.equal(computePendingSaleBackoffMs(2), 10_000);
+  assert.equal(computePendingSaleBackoffMs(4), 40_000);
+  assert.equal(computePendingSaleBackoffMs(30), 600_000);
+  assert.equal(computePendingSaleBackoffMs(1, 1), 6_000);
+});
+
+test("clasifica las respuestas del backend para reintento o dead-letter", () => {
+  assert.equal(classifyPendingSaleResponse(201), "sent");
+  assert.equal(classifyPendingSaleResponse(null), "retry");
+  assert.equal(classifyPendingSaleResponse(503), "retry");
+  assert.equal(classifyPendingSaleResponse(429), "retry");
+  assert.equal(classifyPendingSaleResponse(422), "rejected");
+  assert.equal(classifyPendingSaleResponse(401), "unauthorized");
+});
+
+test("reenvía automáticamente, agenda reintentos y separa las ventas rechazadas", async () => {
+  const scope = { tenantId: 1, userId: 10, stationId: "caja-1" };
+  const baseSummary = { total: 1000, methodLabel: "Efectivo", isSeparated: false };
+  await addPendingSale({
+    endpoint: "/pos/sales",
+    payload: { client_request_id: "sale_ok", reservation_id: 1 },
+    scope,
+    summary: { ...baseSummary, saleNumber: 1, createdAt: "2026-01-01T10:00:00.000Z" },
+  });
+  await addPendingSale({
+    endpoint: "/pos/sales",
+    payload: { client_request_id: "sale_invalid", reservation_id: 2 },
+    scope,
+    summary: { ...baseSummary, saleNumber: 2, createdAt: "2026-01-01T10:01:00.000Z" },
+  });
+  await addPendingSale({
+    endpoint: "/pos/sales",
+    payload: { client_request_id: "sale_down", reservation_id: 3 },
+    scope,
+    summary: { ...baseSummary, saleNumber: 3, createdAt: "2026-01-01T10:02:00.000Z" },
+  });
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (_input, init) => {
+    const requestId = new Headers(init?.headers).get("X-Request-ID");
+    if (requestId === "sale_invalid") {
+      return new Response(JSON.stringify({ detail: "Producto inexistente" }), {
+        status: 422,
+      });
+    }
+    if (requestId === "sale_down") {
+      return new Response("", { status: 503 });
+    }
+    return new Response(JSON.stringify({ id: 1 }), { status: 201 });
+  };
+
+  try {
+    const now = new Date("2026-01-01T12:00:00.000Z");
+    const result = await replayPendingSales({ scope, token: "token-test", now });
+
+    assert.deepEqual(
+      result.sent.map((sale) => sale.summary.saleNumber),
+      [1]
+    );
+    assert.deepEqual(
+      result.rejected.map((sale) => sale.summary.saleNumber),
+      [2]
+    );
+    assert.deepEqual(
+      result.retried.map((sale) => sale.summary.saleNumber),
+      [3]
+    );
+
+    const remaining = await getPendingSales(scope);
+    const rejected = remaining.find((sale) => sale.summary.saleNumber === 2);
+    const retried = remaining.find((sale) => sale.summary.saleNumber === 3);
+    assert.equal(remaining.length, 2);
+    assert.equal(rejected?.status, "dead_letter");
+    assert.equal(rejected?.attempts?.[0].message, "Producto inexistente");
+    assert.equal(retried?.status, "pending");
+    assert.equal(retried?.attempts?.length, 1);
+    assert.ok(retried?.nextAttemptAt);
+
+    const secondPass = await replayPendingSales({ scope, token: "token-test", now });
+    assert.equal(secondPass.sent.length + secondPass.retried.length, 0);
+
+    const requeued = await requeuePendingSale(rejected!.id);
+    assert.equal(requeued?.status, "pending");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("tras un rechazo de sesión no reenvía solo hasta que cambie el token", async () => {
+  const scope = { tenantId: 1, userId: 10, stationId: "caja-1" };
+  await addPendingSale({
+    endpoint: "/pos/sales",
+    payload: { client_request_id: "sale_expired", reservation_id: 4 },
+    scope,
+    summary: {
+      total: 1000,
+      methodLabel: "Efectivo",
+      isSeparated: false,
+      saleNumber: 4,
+      createdAt: "2026-01-01T10:00:00.000Z",
+    },
+  });
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async () => new Response("", { status: 401 });
+
+  try {
+    const result = await replayPendingSales({ scope, token: "token-vencido" });
+    assert.equal(result.stoppedReason, "unauthorized");
+
+    const records = await getPendingSales(scope);
+    const options = { unauthorizedToken: "token-vencido", minDelayMs: 2_500 };
+    assert.equal(
+      resolvePendingSalesAutoReplayDelay(records, { ...options, token: "token-vencido" }),
+      null
+    );
+    assert.equal(
+      resolvePendingSalesAutoReplayDelay(records, { ...options, token: "token-nuevo" }),
+      2_500
+    );
+    assert.equal(resolvePendingSalesAutoReplayDelay(records, { ...options, token: null }), null);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+test("agenda el reenvío automático según el próximo reintento", () => {
+  const now = new Date("2026-01-01T12:00:00.000Z");
+  const record = (nextAttemptAt: string | undefined, status?: "dead_letter") =>
+    ({ id: nextAttemptAt ?? "x", nextAttemptAt, status }) as PendingSaleRecord;
+  const options = { token: "token", unauthorizedToken: null, minDelayMs: 2_500, now };
+  assert.equal(resolvePendingSalesAutoReplayDelay([], options), null);
+  assert.equal(
+    resolvePendingSalesAutoReplayDelay([record(undefined, "dead_letter")], options),
+    null
+  );
+  assert.equal(
+    resolvePendingSalesAutoReplayDelay([record("2026-01-01T12:00:40.000Z")], options),
+    40_000
+  );
+  assert.equal(
+    resolvePendingSalesAutoReplayDelay([record("2026-01-01T11:00:00.000Z")], options),
+    2_500
+  );
+});
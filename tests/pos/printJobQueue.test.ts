@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { createPrintJobQueue } from "../../lib/printing/printJobQueue.ts";
+import { createQzTrayService, type QzApi } from "../../lib/printing/qzTray.ts";
+
+const noSleep = async () => {};
+
+test("la cola imprime los trabajos en orden de llegada", async () => {
+  const printed: string[] = [];
+  const queue = createPrintJobQueue<string>({
+    sleep: noSleep,
+    execute: async (payload) => {
+      await new Promise((resolve) => setTimeout(resolve, payload === "a" ? 5 : 0));
+      printed.push(payload);
+    },
+  });
+
+  await Promise.all([
+    queue.enqueue("A", "a"),
+    queue.enqueue("B", "b"),
+    queue.enqueue("C", "c"),
+  ]);
+
+  assert.deepEqual(printed, ["a", "b", "c"]);
+  assert.deepEqual(
+    queue.getJobs().map((job) => job.status),
+    ["done", "done", "done"]
+  );
+});
+
+test("reintenta un trabajo fallido antes de pasar al siguiente", async () => {
+  const delays: number[] = [];
+  let calls = 0;
+  const queue = createPrintJobQueue<string>({
+    maxAttempts: 3,
+    retryDelayMs: (attempt) => attempt * 100,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+    execute: async () => {
+      calls += 1;
+      if (calls < 3) throw new Error("QZ desconectado");
+    },
+  });
+
+  await queue.enqueue("Ticket", "x");
+
+  assert.equal(calls, 3);
+  assert.deepEqual(delays, [100, 200]);
+  const [job] = queue.getJobs();
+  assert.equal(job.status, "done");
+  assert.equal(job.attempts, 3);
+  assert.equal(job.error, null);
+});
+
+test("marca como fallido el trabajo que agota los intentos", async () => {
+  const queue = createPrintJobQueue<string>({
+    maxAttempts: 2,
+    sleep: noSleep,
+    execute: async () => {
+      throw new Error("Sin papel");
+    },
+  });
+
+  await assert.rejects(queue.enqueue("Ticket", "x"), /Sin papel/);
+  const [job] = queue.getJobs();
+  assert.equal(job.status, "failed");
+  assert.equal(job.attempts, 2);
+  assert.equal(job.error, "Sin papel");
+});
+
+test("no reintenta cuando el error no es recuperable", async () => {
+  let calls = 0;
+  const queue = createPrintJobQueue<string>({
+    sleep: noSleep,
+    shouldRetry: () => false,
+    execute: async () => {
+      calls += 1;
+      throw new Error("Impresora inexistente");
+    },
+  });
+
+  await assert.rejects(queue.enqueue("Ticket", "x"));
+  assert.equal(calls, 1);
+});
+
+test("el servicio QZ conecta una sola vez y envía el pulso del cajón", async () => {
+  let active = false;
+  let connects = 0;
+  const printed: unknown[] = [];
+  const fakeQz: QzApi = {
+    websocket: {
+      isActive: () => active,
+      connect: async () => {
+        connects += 1;
+        active = true;
+      },
+    },
+    printers: { find: async () => ["EPSON TM-T20"] },
+    configs: { create: (printer, options) => ({ printer, options }) },
+    print: async (config, data) => {
+      printed.push({ config, data });
+    },
+  };
+  const service = createQzTrayService({ loadApi: async () => fakeQz });
+
+  await Promise.all([service.connect(), service.connect()]);
+  await service.openCashDrawer("EPSON TM-T20");
+
+  assert.equal(connects, 1);
+  assert.equal(service.getState().status, "connected");
+  assert.deepEqual(printed, [
+    {
+      config: { printer: "EPSON TM-T20", options: { altPrinting: true } },
+      data: [{ type: "raw", format: "command", data: "\x1B\x70\x00\x19\xFA" }],
+    },
+  ]);
+});
+
+test("el servicio QZ informa cuando el script no está disponible", async () => {
+  const service = createQzTrayService({ loadApi: async () => null });
+
+  await assert.rejects(service.findPrinters(), { name: "QzTrayError", code: "unavailable" });
+  assert.equal(service.getState().status, "unavailable");
+});
+
+test("el servicio QZ reintenta tickets solo si se cae la conexión y nunca el cajón", async () => {
+  let active = true;
+  let failures: Array<"printer" | "socket"> = [];
+  const printed: unknown[] = [];
+  const fakeQz: QzApi = {
+    websocket: {
+      isActive: () => active,
+      connect: async () => {
+        active = true;
+      },
+    },
+    printers: { find: async () => ["EPSON TM-T20"] },
+    configs: { create: (printer, options) => ({ printer, options }) },
+    print: async (_config, data) => {
+      const failure = failures.shift();
+      if (failure === "socket") active = false;
+      if (failure) throw new Error(`Falla de ${failure}`);
+      printed.push(data);
+    },
+  };
+  const service = createQzTrayService({ loadApi: async () => fakeQz });
+
+  failures = ["socket"];
+  await service.printRaw("EPSON TM-T20", new Uint8Array([1]), "Ticket");
+  assert.equal(printed.length, 1);
+
+  failures = ["printer"];
+  await assert.rejects(service.printRaw("EPSON TM-T20", new Uint8Array([1])), {
+    name: "QzTrayError",
+    code: "print",
+  });
+  assert.equal(printed.length, 1);
+
+  failures = ["socket"];
+  await assert.rejects(service.openCashDrawer("EPSON TM-T20"), { code: "connection" });
+  assert.equal(printed.length, 1);
+  const drawerJob = service.getState().jobs.at(-1);
+  assert.equal(drawerJob?.attempts, 1);
+});
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { ComercioWebComboItem } from "../../lib/api/comercioWebCatalog.ts";
+import type { PosPromotionRule } from "../../lib/api/settings.ts";
+import {
+  bundleFromCombo,
+  evaluatePromotions,
+  isWithinSchedule,
+  promotionNamesForLine,
+} from "../../lib/pos/promotions.ts";
+
+const rule = (overrides: Partial<PosPromotionRule>): PosPromotionRule => ({
+  id: "promo",
+  name: "Promo",
+  active: true,
+  kind: "percent_off",
+  ...overrides,
+});
+
+test("2x1 regala las unidades más baratas de cada grupo", () => {
+  const result = evaluatePromotions(
+    [
+      { id: 1, productId: 10, quantity: 2, unitPrice: 5000 },
+      { id: 2, productId: 11, quantity: 1, unitPrice: 3000 },
+    ],
+    [rule({ id: "2x1", name: "2x1", kind: "buy_x_get_y", buy_quantity: 1, get_quantity: 1 })]
+  );
+  assert.deepEqual(result.lineDiscounts, { 1: 5000 });
+  assert.equal(result.total, 5000);
+  assert.equal(promotionNamesForLine(result, 1), "2x1");
+  assert.equal(promotionNamesForLine(result, 2), "");
+});
+
+test("el porcentaje filtra por grupo, subgrupo y marca", () => {
+  const result = evaluatePromotions(
+    [
+      { id: 1, productId: 1, groupName: "Audio/Parlantes", quantity: 1, unitPrice: 100000 },
+      { id: 2, productId: 2, groupName: "Cables", brand: "ACME", quantity: 2, unitPrice: 10000 },
+      { id: 3, productId: 3, groupName: "Audífonos", quantity: 1, unitPrice: 50000 },
+    ],
+    [rule({ percent: 10, target: { group_names: ["audio"], brands: ["acme"] } })]
+  );
+  assert.deepEqual(result.lineDiscounts, { 1: 10000, 2: 2000 });
+});
+
+test("cada unidad recibe una sola promoción y las líneas con descuento manual no participan", () => {
+  const result = evaluatePromotions(
+    [
+      { id: 1, productId: 1, quantity: 3, unitPrice: 1000 },
+      { id: 2, productId: 2, quantity: 1, unitPrice: 1000, locked: true },
+    ],
+    [
+      rule({ id: "pct", name: "10%", percent: 10 }),
+      rule({ id: "2x1", name: "2x1", kind: "buy_x_get_y", buy_quantity: 1, get_quantity: 1 }),
+    ]
+  );
+  assert.deepEqual(
+    result.applied.map((entry) => [entry.ruleId, entry.amount]),
+    [
+      ["2x1", 1000],
+      ["pct", 100],
+    ]
+  );
+  assert.equal(result.lineDiscounts[2], undefined);
+});
+
+test("el combo cobra su precio y reparte el descuento entre componentes", () => {
+  const bundle = bundleFromCombo({
+    id: 7,
+    name: "Combo gamer",
+    price: 90000,
+    active: true,
+    items: [
+      { product_id: 1, quantity: 1, required: true },
+      { product_id: 2, quantity: 1, required: true },
+      { product_id: 3, quantity: 1, required: false },
+    ] as ComercioWebComboItem[],
+  });
+  assert.ok(bundle);
+  assert.equal(bundle.items.length, 2);
+  const result = evaluatePromotions(
+    [
+      { id: 1, productId: 1, quantity: 1, unitPrice: 80000 },
+      { id: 2, productId: 2, quantity: 2, unitPrice: 20000 },
+    ],
+    [rule({ id: "combo", name: "", kind: "bundle", combo_id: 7 })],
+    { bundles: [bundle] }
+  );
+  assert.deepEqual(result.applied, [
+    { ruleId: "combo", name: "Combo gamer", amount: 10000, lineIds: [1, 2] },
+  ]);
+  assert.deepEqual(result.lineDiscounts, { 1: 8000, 2: 2000 });
+});
+
+test("un combo que no rebaja deja las unidades libres para la siguiente regla", () => {
+  const bundle = {
+    comboId: 8,
+    name: "Combo caro",
+    price: 60000,
+    items: [
+      { productId: 1, quantity: 1 },
+      { productId: 2, quantity: 1 },
+    ],
+  };
+  const result = evaluatePromotions(
+    [
+      { id: 1, productId: 1, quantity: 1, unitPrice: 30000 },
+      { id: 2, productId: 2, quantity: 1, unitPrice: 20000 },
+    ],
+    [
+      rule({ id: "combo", name: "Combo", kind: "bundle", combo_id: 8 }),
+      rule({ id: "diez", name: "10%", percent: 10 }),
+    ],
+    { bundles: [bundle] }
+  );
+  assert.deepEqual(result.applied, [
+    { ruleId: "diez", name: "10%", amount: 5000, lineIds: [1, 2] },
+  ]);
+  assert.deepEqual(result.lineDiscounts, { 1: 3000, 2: 2000 });
+});
+
+test("las franjas horarias usan la hora de Bogotá y cruzan la medianoche", () => {
+  // 2026-03-06 es viernes; 23:30 en Bogotá son las 04:30 UTC del sábado.
+  const fridayNight = new Date("2026-03-07T04:30:00Z");
+  assert.equal(isWithinSchedule({ days: [5], start_time: "22:00", end_time: "02:00" }, fridayNight), true);
+  assert.equal(isWithinSchedule({ days: [6] }, fridayNight), false);
+  assert.equal(isWithinSchedule({ start_time: "17:00", end_time: "19:00" }, fridayNight), false);
+  assert.equal(isWithinSchedule({ ends_on: "2026-03-05" }, fridayNight), false);
+  assert.equal(
+    evaluatePromotions(
+      [{ id: 1, productId: 1, quantity: 1, unitPrice: 1000 }],
+      [rule({ percent: 50, schedule: { start_time: "17:00", end_time: "19:00" } })],
+      { now: fridayNight }
+    ).total,
+    0
+  );
+});
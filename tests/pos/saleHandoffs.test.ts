@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { PosStationScope, SaleHandoff } from "../../lib/api/posHandoffs.ts";
+import {
+  countPendingSaleHandoffs,
+  resolveSaleHandoffRole,
+  sortSaleHandoffs,
+} from "../../lib/pos/saleHandoffs.ts";
+
+const scope: PosStationScope = {
+  primary_station_id: "caja-1",
+  station_ids: ["caja-1", "tablet-a"],
+  stations: [
+    { station_id: "caja-1", station_label: "Caja 1", station_type: "desktop", is_primary: true },
+    { station_id: "tablet-a", station_label: "Tablet A", station_type: "tablet", is_primary: false },
+  ],
+};
+
+function handoff(id: number, status: SaleHandoff["status"], createdAt: string, takenAt?: string): SaleHandoff {
+  return {
+    id,
+    status,
+    source_station_id: "tablet-a",
+    target_station_id: "caja-1",
+    item_count: 1,
+    total: 50000,
+    cart: {},
+    created_at: createdAt,
+    taken_at: takenAt ?? null,
+  };
+}
+
+test("la tablet envía y la estación principal con tablets recibe", () => {
+  assert.equal(resolveSaleHandoffRole(scope, "tablet-a"), "tablet");
+  assert.equal(resolveSaleHandoffRole(scope, "caja-1"), "register");
+  assert.equal(
+    resolveSaleHandoffRole(
+      { ...scope, station_ids: ["caja-1"], stations: [scope.stations[0]] },
+      "caja-1"
+    ),
+    null
+  );
+  assert.equal(resolveSaleHandoffRole(null, "caja-1"), null);
+});
+
+test("los carritos pendientes salen primero y en orden de llegada", () => {
+  const sorted = sortSaleHandoffs([
+    handoff(1, "taken", "2026-10-17T14:00:00Z", "2026-10-17T14:05:00Z"),
+    handoff(2, "pending", "2026-10-17T15:10:00Z"),
+    handoff(3, "pending", "2026-10-17T15:00:00Z"),
+    handoff(4, "taken", "2026-10-17T14:30:00Z", "2026-10-17T14:40:00Z"),
+  ]);
+  assert.deepEqual(
+    sorted.map((item) => item.id),
+    [3, 2, 4, 1]
+  );
+  assert.equal(countPendingSaleHandoffs(sorted), 2);
+});
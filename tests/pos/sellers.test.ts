@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { attributeSaleToSellers, withLineSeller } from "../../lib/pos/sellers.ts";
+
+test("sin vendedor por línea la venta completa es de quien la registró", () => {
+  assert.deepEqual(
+    attributeSaleToSellers({
+      total: 90000,
+      vendor_name: "Laura",
+      items: [{ quantity: 1, unit_price: 90000 }],
+    }),
+    [{ sellerName: "Laura", amount: 90000 }]
+  );
+  assert.deepEqual(attributeSaleToSellers({ total: 5000 }), [
+    { sellerName: "Sin vendedor", amount: 5000 },
+  ]);
+});
+
+test("reparte el total con descuento de carrito en proporción a cada línea", () => {
+  const shares = attributeSaleToSellers({
+    total: 135000,
+    vendor_name: "Laura",
+    items: [
+      { total: 100000, seller_name: "Andrés" },
+      { quantity: 2, unit_price: 25000, seller_name: "Marta" },
+    ],
+  });
+  assert.deepEqual(shares, [
+    { sellerName: "Andrés", amount: 90000 },
+    { sellerName: "Marta", amount: 45000 },
+  ]);
+});
+
+test("las líneas sin vendedor quedan para el vendedor de la venta", () => {
+  const shares = attributeSaleToSellers({
+    total: 60000,
+    vendor_name: "Laura",
+    items: [
+      { total: 20000, seller_name: "Andrés" },
+      { total: 40000 },
+    ],
+  });
+  assert.deepEqual(shares, [
+    { sellerName: "Andrés", amount: 20000 },
+    { sellerName: "Laura", amount: 40000 },
+  ]);
+  const line: { id: number; sellerId?: number | null } = { id: 1 };
+  assert.deepEqual(withLineSeller(line, { id: 7, name: "Marta" }), {
+    id: 1,
+    sellerId: 7,
+    sellerName: "Marta",
+  });
+});
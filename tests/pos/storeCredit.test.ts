@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  maxStoreCreditRedemption,
+  normalizeStoreCreditCode,
+  resolveStoreCreditStatus,
+  splitStoreCreditPayments,
+} from "../../lib/pos/storeCredit.ts";
+
+const now = new Date("2026-03-15T15:00:00Z");
+
+test("normaliza el código leído o digitado", () => {
+  assert.equal(normalizeStoreCreditCode(" 4012-3456 7890 "), "401234567890");
+  assert.equal(normalizeStoreCreditCode("ABC"), "");
+});
+
+test("un saldo activo vence en su fecha aunque el backend no lo haya marcado", () => {
+  const base = { status: "active" as const, balance: 20000 };
+  assert.equal(resolveStoreCreditStatus({ ...base, expires_at: "2026-03-16T05:00:00Z" }, now), "active");
+  assert.equal(resolveStoreCreditStatus({ ...base, expires_at: "2026-03-15T05:00:00Z" }, now), "expired");
+  assert.equal(resolveStoreCreditStatus({ ...base, balance: 0 }, now), "redeemed");
+  assert.equal(resolveStoreCreditStatus({ ...base, status: "voided" }, now), "voided");
+});
+
+test("solo se redime hasta el saldo o lo que falta por pagar", () => {
+  const credit = { status: "active" as const, balance: 30000, expires_at: null };
+  assert.equal(maxStoreCreditRedemption(credit, 45000, now), 30000);
+  assert.equal(maxStoreCreditRedemption(credit, 12000, now), 12000);
+  assert.equal(
+    maxStoreCreditRedemption({ ...credit, expires_at: "2026-01-01T00:00:00Z" }, 12000, now),
+    0
+  );
+});
+
+test("si el saldo a favor cubre todo no se envía una segunda línea en cero", () => {
+  assert.deepEqual(splitStoreCreditPayments("cash", 50000, 50000), [
+    { method: "saldo_favor", amount: 50000 },
+  ]);
+  assert.deepEqual(splitStoreCreditPayments("cash", 70000, 20000), [
+    { method: "saldo_favor", amount: 20000 },
+    { method: "cash", amount: 50000 },
+  ]);
+  assert.deepEqual(splitStoreCreditPayments("card", 30000, 0), [
+    { method: "card", amount: 30000 },
+  ]);
+});
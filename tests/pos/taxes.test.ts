@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  computeTaxBreakdown,
+  describeTaxBreakdown,
+  normalizeTaxBreakdown,
+  resolveTaxIncluded,
+  resolveTaxRateCode,
+  splitTaxAmount,
+  taxBreakdownFromItems,
+} from "../../lib/pos/taxes.ts";
+import { buildSaleTicketLineBreakdown } from "../../lib/pos/saleTicketData.ts";
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+test("separa base e IVA de un precio con IVA incluido", () => {
+  assert.deepEqual(splitTaxAmount(119000, 19), { base: 100000, tax: 19000, total: 119000 });
+  assert.deepEqual(splitTaxAmount(100000, 19, false), { base: 100000, tax: 19000, total: 119000 });
+  assert.deepEqual(splitTaxAmount(5000, 0), { base: 5000, tax: 0, total: 5000 });
+});
+
+test("sin tarifa propia el producto queda en la tarifa general", () => {
+  assert.equal(resolveTaxRateCode({ tax_rate: "5" }), "5");
+  assert.equal(resolveTaxRateCode({ tax_rate: "exempt" }), "exempt");
+  assert.equal(resolveTaxRateCode({}), "19");
+  assert.equal(resolveTaxRateCode({ tax_rate: "12" }), "19");
+});
+
+test("la marca del producto decide si el precio trae el IVA", () => {
+  assert.equal(resolveTaxIncluded({ includes_tax: false }, true), false);
+  assert.equal(resolveTaxIncluded({ includes_tax: true }, false), true);
+  assert.equal(resolveTaxIncluded({ includes_tax: null }, false), false);
+  assert.equal(resolveTaxIncluded({}), true);
+});
+
+test("separa el IVA incluido y suma el IVA excluido", () => {
+  const included = computeTaxBreakdown([{ total: 119000, taxRate: "19" }]);
+  assert.deepEqual([included.base, included.tax, included.total], [100000, 19000, 119000]);
+
+  const excluded = computeTaxBreakdown([{ total: 100000, taxRate: "19", taxIncluded: false }]);
+  assert.deepEqual([excluded.base, excluded.tax, excluded.total], [100000, 19000, 119000]);
+
+  const mixed = computeTaxBreakdown(
+    [
+      { total: 105000, taxRate: "5", taxIncluded: true },
+      { total: 100000, taxRate: "19" },
+    ],
+    { pricesIncludeTax: false }
+  );
+  assert.deepEqual(
+    mixed.entries.map((entry) => [entry.code, entry.base, entry.tax]),
+    [
+      ["19", 100000, 19000],
+      ["5", 100000, 5000],
+    ]
+  );
+
+  const fromItems = taxBreakdownFromItems([{ total: 5000, taxRate: "19", taxIncluded: false }]);
+  assert.equal(fromItems?.tax, 950);
+});
+
+test("agrupa por tarifa y reparte el descuento del carrito", () => {
+  const breakdown = computeTaxBreakdown(
+    [
+      { total: 119000, taxRate: "19" },
+      { total: 105000, taxRate: "5" },
+      { total: 20000, taxRate: "exempt" },
+      { total: 11900, taxRate: "19" },
+    ],
+    { documentTotal: 127950 }
+  );
+
+  assert.deepEqual(
+    breakdown.entries.map((entry) => [entry.code, entry.base, entry.tax, entry.total]),
+    [
+      ["19", 55000, 10450, 65450],
+      ["5", 50000, 2500, 52500],
+      ["exempt", 10000, 0, 10000],
+    ]
+  );
+  assert.equal(breakdown.total, 127950);
+  assert.equal(breakdown.tax, 12950);
+});
+
+test("sobre lo cobrado el desglose nunca suma más que el total del documento", () => {
+  const breakdown = computeTaxBreakdown(
+    [
+      { total: 100000, taxRate: "19", taxIncluded: false },
+      { total: 52500, taxRate: "5", taxIncluded: true },
+      { total: 20000, taxRate: "exempt", taxIncluded: false },
+    ],
+    { documentTotal: 155250, pricesIncludeTax: false }
+  );
+  assert.equal(breakdown.total, 155250);
+  assert.equal(round(breakdown.base + breakdown.tax), 155250);
+  assert.deepEqual(
+    breakdown.entries.map((entry) => [entry.code, entry.total]),
+    [
+      ["19", 90000],
+      ["5", 47250],
+      ["exempt", 18000],
+    ]
+  );
+  const fromItems = taxBreakdownFromItems(
+    [
+      { total: 10000, taxRate: "19", taxIncluded: false },
+      { total: 5000, taxRate: "5", taxIncluded: true },
+    ],
+    15000
+  );
+  assert.equal(fromItems?.total, 15000);
+});
+
+test("no inventa IVA cuando alguna línea no trae tarifa", () => {
+  assert.equal(
+    taxBreakdownFromItems([{ total: 1000, taxRate: "19" }, { total: 500 }]),
+    null
+  );
+  assert.equal(taxBreakdownFromItems([]), null);
+});
+
+test("la tarifa viaja desde los ítems de la venta al ticket", () => {
+  const { lines } = buildSaleTicketLineBreakdown([
+    { product_name: "Cable", quantity: 2, unit_price: 10000, tax_rate: "19" },
+    { product_name: "Pila", quantity: 1, unit_price: 3000 },
+  ]);
+  assert.deepEqual(
+    lines.map((line) => line.taxRate),
+    ["19", null]
+  );
+});
+
+test("normaliza el desglose del cierre e ignora tarifas desconocidas", () => {
+  const breakdown = normalizeTaxBreakdown([
+    { rate: "19", base: 100000, tax: 19000 },
+    { rate: "exempt", base: 8000, tax: 0, total: 8000 },
+    { rate: "16", base: 1, tax: 1 },
+  ]);
+  assert.ok(breakdown);
+  assert.equal(breakdown.total, 127000);
+  assert.deepEqual(describeTaxBreakdown(breakdown), [
+    { label: "Base IVA 19%", amount: 100000 },
+    { label: "IVA 19%", amount: 19000 },
+    { label: "Valor exento", amount: 8000 },
+    { label: "Total IVA", amount: 19000 },
+  ]);
+  assert.equal(normalizeTaxBreakdown(null), null);
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { ComercioWebOrder, ComercioWebOrderItem } from "../../lib/api/comercioWeb.ts";
+import {
+  applyPickScan,
+  initialPickedQuantities,
+  isOrderPickingComplete,
+  pickingProgress,
+} from "../../lib/comercioWebPicking.ts";
+
+function item(id: number, overrides: Partial<ComercioWebOrderItem> = {}): ComercioWebOrderItem {
+  return {
+    id,
+    product_id: id * 10,
+    product_name: `Producto ${id}`,
+    product_slug: `producto-${id}`,
+    quantity: 1,
+    unit_price: 50000,
+    line_discount_value: 0,
+    line_total: 50000,
+    ...overrides,
+  };
+}
+
+function buildOrder(items: ComercioWebOrderItem[]): ComercioWebOrder {
+  return {
+    id: 7,
+    account_id: 1,
+    status: "paid",
+    payment_status: "approved",
+    fulfillment_status: "pending",
+    subtotal: 0,
+    discount_amount: 0,
+    shipping_amount: 0,
+    total: 0,
+    currency: "COP",
+    created_at: "2026-10-01T10:00:00Z",
+    updated_at: "2026-10-01T10:00:00Z",
+    items,
+    payments: [],
+    status_logs: [],
+  };
+}
+
+test("el escaneo suma por código de barras o SKU y llena primero la línea pendiente", () => {
+  const items = [
+    item(1, { product_barcode: "7701234567890", quantity: 1 }),
+    item(2, { product_barcode: "7701234567890", quantity: 2 }),
+    item(3, { product_sku: "cuerda-09" }),
+  ];
+  let result = applyPickScan(items, {}, " 7701234567890 ");
+  assert.equal(result.outcome, "completed_line");
+  assert.equal(result.item?.id, 1);
+  result = applyPickScan(items, result.picked, "7701234567890");
+  assert.equal(result.outcome, "picked");
+  assert.equal(result.item?.id, 2);
+  result = applyPickScan(items, result.picked, "7701234567890");
+  assert.equal(result.outcome, "completed_line");
+  assert.deepEqual(result.picked, { 1: 1, 2: 2 });
+
+  const repeated = applyPickScan(items, result.picked, "7701234567890");
+  assert.equal(repeated.outcome, "already_complete");
+  assert.equal(repeated.picked, result.picked);
+
+  assert.equal(applyPickScan(items, {}, "CUERDA-09").item?.id, 3);
+  assert.equal(applyPickScan(items, {}, "0000").outcome, "not_in_order");
+  assert.equal(applyPickScan(items, {}, "  ").outcome, "not_in_order");
+});
+
+test("el avance no cuenta unidades de más y se completa al alistar todo", () => {
+  const items = [item(1, { quantity: 2 }), item(2, { quantity: 1 })];
+  assert.deepEqual(pickingProgress(items, { 1: 3 }), { required: 3, done: 2, complete: false });
+  assert.deepEqual(pickingProgress(items, { 1: 2, 2: 1 }), { required: 3, done: 3, complete: true });
+});
+
+test("la orden toma lo ya alistado y una orden sin ítems queda lista", () => {
+  const order = buildOrder([
+    item(1, { quantity: 2, picked_quantity: 5 }),
+    item(2, { quantity: 1, picked_quantity: 0 }),
+  ]);
+  assert.deepEqual(initialPickedQuantities(order), { 1: 2, 2: 0 });
+  assert.equal(isOrderPickingComplete(order), false);
+  order.items[1].picked_quantity = 1;
+  assert.equal(isOrderPickingComplete(order), true);
+  assert.equal(isOrderPickingComplete(buildOrder([])), true);
+});
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { ComercioWebOrder, ComercioWebOrderPayment } from "../../lib/api/comercioWeb.ts";
+import {
+  parseProviderReport,
+  parseReportAmount,
+  reconcileProviderTransactions,
+  summarizeReconciliation,
+} from "../../lib/comercioWebReconciliation.ts";
+
+function payment(overrides: Partial<ComercioWebOrderPayment>): ComercioWebOrderPayment {
+  return {
+    id: 1,
+    provider: "wompi",
+    status: "pending",
+    amount: 100000,
+    currency: "COP",
+    created_at: "2026-10-05T15:00:00Z",
+    ...overrides,
+  };
+}
+
+function order(id: number, payments: ComercioWebOrderPayment[]): ComercioWebOrder {
+  return {
+    id,
+    account_id: 1,
+    document_number: `WEB-${id}`,
+    status: "pending_payment",
+    payment_status: "pending",
+    fulfillment_status: "pending",
+    subtotal: 100000,
+    discount_amount: 0,
+    shipping_amount: 0,
+    total: 100000,
+    currency: "COP",
+    created_at: "2026-10-05T14:00:00Z",
+    updated_at: "2026-10-05T14:00:00Z",
+    items: [],
+    payments,
+    status_logs: [],
+  };
+}
+
+test("lee montos con separadores colombianos y anglosajones", () => {
+  assert.equal(parseReportAmount("192.000"), 192000);
+  assert.equal(parseReportAmount("$ 192.000,50"), 192000.5);
+  assert.equal(parseReportAmount("192,000.50"), 192000.5);
+  assert.equal(parseReportAmount("1.5"), 1.5);
+});
+
+test("reconoce un CSV de Wompi con centavos y estados en mayúscula", () => {
+  const csv = [
+    "ID;Referencia;Estado;amount_in_cents;Fecha",
+    "tx-1;WEB-1;APPROVED;10000000;2026-10-05T15:01:00Z",
+    '"tx-2";"WEB-2";DECLINED;5000000;2026-10-05T16:00:00Z',
+  ].join("\n");
+  const result = parseProviderReport(csv, "export.csv");
+  assert.equal(result.provider, "wompi");
+  assert.deepEqual(
+    result.transactions.map((tx) => [tx.id, tx.status, tx.amount]),
+    [
+      ["tx-1", "approved", 100000],
+      ["tx-2", "failed", 50000],
+    ]
+  );
+});
+
+test("marca aprobados sin pago, pagados sin transacción y referencias sin orden", () => {
+  const json = JSON.stringify({
+    results: [
+      { id: 900, external_reference: "WEB-1", status: "approved", transaction_amount: 100000, date_created: "2026-10-05T15:00:00Z" },
+      { id: 901, external_reference: "WEB-2", status: "rejected", transaction_amount: 80000, date_created: "2026-10-05T16:00:00Z" },
+      { id: 902, external_reference: "WEB-3", status: "approved", transaction_amount: 50000, date_created: "2026-10-06T10:00:00Z" },
+      { id: 903, external_reference: "OTRA", status: "rejected", transaction_amount: 1000, date_created: "2026-10-06T11:00:00Z" },
+    ],
+  });
+  const parsed = parseProviderReport(json, "reporte.json");
+  assert.equal(parsed.provider, "mercadopago");
+
+  const orders = [
+    // El webhook de aprobación nunca llegó: el pago sigue pendiente.
+    order(1, [payment({ id: 11, provider: "mercadopago", provider_reference: "900" })]),
+    order(2, [payment({ id: 21, provider: "mercadopago", provider_reference: "901", status: "approved", amount: 80000 })]),
+    order(3, []),
+    order(4, [
+      payment({ id: 41, provider: "mercadopago", provider_reference: "904", status: "approved", created_at: "2026-10-05T18:00:00Z" }),
+    ]),
+    order(5, [
+      payment({ id: 51, provider: "mercadopago", provider_reference: "905", status: "approved", created_at: "2026-09-01T10:00:00Z" }),
+    ]),
+  ];
+  const rows = reconcileProviderTransactions(parsed.transactions, orders, "mercadopago");
+  const byKind = rows.map((row) => [row.kind, row.order?.id ?? null, row.suggestedAction]);
+
+  assert.deepEqual(byKind, [
+    ["approved_unpaid", 1, "approve_payment"],
+    ["paid_missing", 2, "reject_payment"],
+    ["approved_unpaid", 3, "approve_payment"],
+    ["unmatched", null, null],
+    ["paid_missing", 4, "acknowledge"],
+  ]);
+  assert.equal(summarizeReconciliation(rows).paid_missing, 2);
+});
+
+test("consolida varios registros de la misma referencia con el estado de mayor prioridad", () => {
+  const parsed = parseProviderReport(
+    JSON.stringify([{ id: "tx-9", reference: "WEB-9", status: "APPROVED", amount_in_cents: 9000000 }]),
+    "wompi.json"
+  );
+  const rows = reconcileProviderTransactions(
+    parsed.transactions,
+    [
+      order(9, [
+        payment({ id: 91, provider_reference: "tx-9", status: "pending", amount: 90000 }),
+        payment({ id: 92, provider_reference: "tx-9", status: "approved", amount: 90000 }),
+      ]),
+    ],
+    "wompi"
+  );
+  assert.equal(rows.length, 1);
+  assert.equal(rows[0].kind, "ok");
+  assert.equal(rows[0].payment?.id, 92);
+});
+
+test("un reintento rechazado de Mercado Pago no compite con el pago aprobado", () => {
+  const json = JSON.stringify({
+    results: [
+      { id: 910, external_reference: "WEB-7", status: "rejected", transaction_amount: 70000, date_created: "2026-10-05T15:00:00Z" },
+      { id: 911, external_reference: "WEB-7", status: "approved", transaction_amount: 70000, date_created: "2026-10-05T15:05:00Z" },
+      { id: 912, external_reference: "WEB-7", status: "rejected", transaction_amount: 70000, date_created: "2026-10-05T15:10:00Z" },
+    ],
+  });
+  const parsed = parseProviderReport(json, "reporte.json");
+  const rows = reconcileProviderTransactions(
+    parsed.transactions,
+    [
+      order(7, [
+        payment({ id: 71, provider: "mercadopago", provider_reference: "WEB-7", status: "approved", amount: 70000 }),
+      ]),
+    ],
+    "mercadopago"
+  );
+  assert.equal(rows.length, 1);
+  assert.equal(rows[0].kind, "ok");
+  assert.equal(rows[0].transaction?.id, "911");
+  assert.equal(rows[0].suggestedAction, null);
+});
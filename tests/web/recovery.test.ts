@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type { ComercioWebAbandonedOrder } from "../../lib/api/comercioWebRecovery.ts";
+import {
+  DEFAULT_RECOVERY_SETTINGS,
+  abandonedOrderStage,
+  isSmtpConfigured,
+  renderRecoveryMessage,
+  summarizeRecovery,
+  validateRecoverySettings,
+} from "../../lib/comercioWebRecovery.ts";
+
+function abandoned(id: number, overrides: Partial<ComercioWebAbandonedOrder> = {}): ComercioWebAbandonedOrder {
+  return {
+    id,
+    order_id: id,
+    order_document_number: `WEB-${id}`,
+    order_status: "pending_payment",
+    order_total: 100000,
+    customer_name: "Ana",
+    customer_email: "ana@example.com",
+    abandoned_at: "2026-10-10T10:00:00Z",
+    ...overrides,
+  };
+}
+
+test("una orden recuperada no cuenta como vencida aunque el barrido la haya vencido", () => {
+  const row = abandoned(1, {
+    expired_at: "2026-10-13T10:00:00Z",
+    recovered_at: "2026-10-14T09:00:00Z",
+  });
+  assert.equal(abandonedOrderStage(row), "recovered");
+  assert.equal(abandonedOrderStage(abandoned(2, { email_sent_at: "2026-10-10T14:00:00Z" })), "emailed");
+  assert.equal(abandonedOrderStage(abandoned(3)), "open");
+});
+
+test("resume tasa de recuperación e ingresos recuperados", () => {
+  const summary = summarizeRecovery([
+    abandoned(1, {
+      email_sent_at: "2026-10-10T14:00:00Z",
+      recovered_at: "2026-10-11T09:00:00Z",
+      recovered_total: 95000,
+    }),
+    abandoned(2, { email_sent_at: "2026-10-10T14:00:00Z", expired_at: "2026-10-13T10:00:00Z" }),
+    abandoned(3, { recovered_at: "2026-10-10T12:00:00Z" }),
+    abandoned(4, { order_total: 40000 }),
+  ]);
+  assert.equal(summary.abandoned, 4);
+  assert.equal(summary.emailed, 2);
+  assert.equal(summary.recovered, 2);
+  assert.equal(summary.expired, 1);
+  assert.equal(summary.recoveryRate, 0.5);
+  assert.equal(summary.emailRecoveryRate, 0.5);
+  assert.equal(summary.revenueRecovered, 195000);
+  assert.equal(summary.openValue, 40000);
+  assert.equal(summarizeRecovery([]).recoveryRate, 0);
+});
+
+test("valida la ventana del correo y el código de descuento", () => {
+  assert.equal(validateRecoverySettings(DEFAULT_RECOVERY_SETTINGS), null);
+  assert.match(
+    validateRecoverySettings({ ...DEFAULT_RECOVERY_SETTINGS, email_delay_hours: 72 }) ?? "",
+    /antes de que la orden venza/
+  );
+  assert.match(
+    validateRecoverySettings({ ...DEFAULT_RECOVERY_SETTINGS, discount_enabled: true }) ?? "",
+    /\{codigo\}/
+  );
+  assert.match(
+    validateRecoverySettings({
+      ...DEFAULT_RECOVERY_SETTINGS,
+      discount_enabled: true,
+      discount_value: 120,
+      email_message: "Usa {codigo} en {enlace}",
+    }) ?? "",
+    /100/
+  );
+});
+
+test("arma la vista previa del mensaje y detecta SMTP incompleto", () => {
+  assert.equal(
+    renderRecoveryMessage("Hola {cliente}, usa {codigo} en {enlace}{codigo}", {
+      cliente: "Ana",
+      pedido: "WEB-1",
+      total: "$ 100.000",
+      enlace: "https://tienda/checkout",
+      codigo: "VUELVE5",
+    }),
+    "Hola Ana, usa VUELVE5 en https://tienda/checkoutVUELVE5"
+  );
+  assert.equal(isSmtpConfigured({ smtp_host: "smtp.example.com", email_from: " " }), false);
+  assert.equal(isSmtpConfigured({ smtp_host: "smtp.example.com", email_from: "ventas@example.com" }), true);
+  assert.equal(isSmtpConfigured(null), false);
+});
@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import type {
+  ComercioWebOrder,
+  ComercioWebPaymentRefund,
+  ComercioWebRefundInput,
+} from "../../lib/api/comercioWeb.ts";
+import {
+  buildWebRefundPlan,
+  paymentRefundableAmount,
+  submitWebRefund,
+  type WebRefundGateway,
+} from "../../lib/comercioWebRefunds.ts";
+
+function buildOrder(overrides: Partial<ComercioWebOrder> = {}): ComercioWebOrder {
+  return {
+    id: 7,
+    account_id: 1,
+    document_number: "WEB-7",
+    status: "paid",
+    payment_status: "approved",
+    fulfillment_status: "pending",
+    subtotal: 200000,
+    discount_amount: 20000,
+    shipping_amount: 12000,
+    total: 192000,
+    currency: "COP",
+    created_at: "2026-10-01T10:00:00Z",
+    updated_at: "2026-10-01T10:00:00Z",
+    items: [
+      {
+        id: 1,
+        product_id: 10,
+        product_name: "Cuerdas",
+        product_slug: "cuerdas",
+        quantity: 2,
+        unit_price: 50000,
+        line_discount_value: 0,
+        line_total: 100000,
+      },
+      {
+        id: 2,
+        product_id: 11,
+        product_name: "Afinador",
+        product_slug: "afinador",
+        quantity: 1,
+        unit_price: 100000,
+        line_discount_value: 0,
+        line_total: 100000,
+      },
+    ],
+    payments: [
+      {
+        id: 3,
+        provider: "wompi",
+        status: "approved",
+        amount: 192000,
+        currency: "COP",
+        created_at: "2026-10-01T10:05:00Z",
+      },
+    ],
+    status_logs: [],
+    ...overrides,
+  };
+}
+
+/** Proveedor local: acepta hasta el saldo del pago y, si hay venta, crea la devolución. */
+function createMockProvider(order: ComercioWebOrder) {
+  const calls: ComercioWebRefundInput[] = [];
+  let current = order;
+  const gateway: WebRefundGateway = {
+    async refund(orderId, paymentId, input) {
+      calls.push(input);
+      const payment = current.payments.find((item) => item.id === paymentId)!;
+      const approved = input.amount <= paymentRefundableAmount(payment);
+      const refund: ComercioWebPaymentRefund = {
+        id: calls.length,
+        payment_id: paymentId,
+        amount: input.amount,
+        reason: input.reason,
+        status: approved ? "approved" : "failed",
+        includes_shipping: input.include_shipping,
+        items: input.items.map((item) => ({
+          order_item_id: item.order_item_id,
+          quantity: item.quantity,
+          amount: 0,
+          restocked: item.restock,
+        })),
+        sale_return_id: approved && current.sale_id ? 90 : null,
+        sale_return_document_number: approved && current.sale_id ? "DV-90" : null,
+        error: approved ? null : "Monto mayor al disponible",
+        created_at: "2026-10-02T09:00:00Z",
+      };
+      current = {
+        ...current,
+        id: orderId,
+        payments: current.payments.map((item) =>
+          item.id === paymentId ? { ...item, refunds: [...(item.refunds ?? []), refund] } : item
+        ),
+        status_logs: [
+          ...current.status_logs,
+          {
+            id: current.status_logs.length + 1,
+            to_status: "refunded",
+            note: input.reason,
+            actor_type: "user",
+            created_at: refund.created_at,
+          },
+        ],
+      };
+      return { order: current, refund };
+    },
+  };
+  return { gateway, calls, current: () => current };
+}
+
+test("reparte el descuento de la orden al reembolsar líneas y envío", () => {
+  const order = buildOrder();
+  const plan = buildWebRefundPlan(order, order.payments[0], {
+    quantities: { 1: 1 },
+    restock: true,
+    includeShipping: true,
+  });
+  assert.equal(plan.error, null);
+  assert.equal(plan.itemsAmount, 45000);
+  assert.equal(plan.amount, 57000);
+  assert.deepEqual(plan.input?.items, [{ order_item_id: 1, quantity: 1, restock: true }]);
+  assert.equal(plan.input?.include_shipping, true);
+});
+
+test("reembolsa parcialmente, enlaza la devolución de la venta y deja el motivo en el historial", async () => {
+  const order = buildOrder({ sale_id: 55, sale_document_number: "V-55" });
+  const provider = createMockProvider(order);
+  const plan = buildWebRefundPlan(order, order.payments[0], {
+    quantities: { 2: 1 },
+    restock: true,
+    includeShipping: false,
+  });
+  const result = await submitWebRefund(provider.gateway, order, order.payments[0], plan, "  Producto defectuoso ");
+
+  assert.equal(provider.calls[0].reason, "Producto defectuoso");
+  assert.equal(result.refund.sale_return_document_number, "DV-90");
+  assert.equal(result.order.status_logs.at(-1)?.note, "Producto defectuoso");
+  assert.equal(paymentRefundableAmount(result.order.payments[0]), 102000);
+
+  const again = buildWebRefundPlan(result.order, result.order.payments[0], {
+    quantities: { 2: 1 },
+    restock: false,
+    includeShipping: false,
+  });
+  assert.match(again.error ?? "", /solo quedan 0/);
+});
+
+test("no envía reembolsos sin motivo o por encima del saldo y expone el rechazo del proveedor", async () => {
+  const order = buildOrder();
+  const provider = createMockProvider(order);
+  const payment = order.payments[0];
+
+  const tooMuch = buildWebRefundPlan(order, payment, {
+    quantities: {},
+    restock: false,
+    includeShipping: false,
+    amountOverride: 500000,
+  });
+  assert.equal(tooMuch.error, "El reembolso supera lo disponible en este pago.");
+  await assert.rejects(submitWebRefund(provider.gateway, order, payment, tooMuch, "x"));
+
+  const goodwill = buildWebRefundPlan(order, payment, {
+    quantities: {},
+    restock: false,
+    includeShipping: false,
+    amountOverride: 10000,
+  });
+  await assert.rejects(submitWebRefund(provider.gateway, order, payment, goodwill, " "), /motivo/);
+  assert.equal(provider.calls.length, 0);
+
+  const stale = { ...payment, amount: 5000 };
+  const rejecting = createMockProvider({ ...order, payments: [stale] });
+  await assert.rejects(
+    submitWebRefund(rejecting.gateway, order, payment, goodwill, "Compensación"),
+    /Monto mayor al disponible/
+  );
+});